@@ -0,0 +1,71 @@
+'use server';
+
+/**
+ * Server Actions for the competency assessment
+ * Drive the server-rendered question flow at /assessment/skills
+ */
+
+import { redirect } from 'next/navigation';
+import { createClient } from '@/app/lib/supabase/server';
+import assessmentAttempts from '@/app/lib/assessments/attemptService';
+
+const SKILLS_PATH = '/assessment/skills';
+
+async function requireUserId(): Promise<string> {
+  const supabase = await createClient();
+  const { data: { user }, error } = await supabase.auth.getUser();
+
+  if (error || !user) {
+    redirect('/login');
+  }
+
+  return user.id;
+}
+
+function errorPath(error: unknown): string {
+  const message = error instanceof Error ? error.message : 'Something went wrong';
+  return `${SKILLS_PATH}?error=${encodeURIComponent(message)}`;
+}
+
+/**
+ * Start (or resume) an attempt, then show its next question
+ */
+export async function startAssessmentAction(): Promise<void> {
+  const userId = await requireUserId();
+  let destination = SKILLS_PATH;
+
+  try {
+    await assessmentAttempts.startAttempt(userId);
+  } catch (error) {
+    console.error('Error in startAssessmentAction:', error);
+    destination = errorPath(error);
+  }
+
+  redirect(destination);
+}
+
+/**
+ * Record the answer from the question form; the last answer completes the
+ * attempt and opens the report
+ */
+export async function answerQuestionAction(formData: FormData): Promise<void> {
+  const userId = await requireUserId();
+  const attemptId = String(formData.get('attemptId') || '');
+  const questionId = String(formData.get('questionId') || '');
+  const value = formData.get('value');
+  let destination = SKILLS_PATH;
+
+  try {
+    const view = await assessmentAttempts.answerQuestion(userId, attemptId, questionId, value === null ? undefined : Number(value));
+
+    if (!view.nextQuestion) {
+      const attempt = await assessmentAttempts.completeAttempt(userId, attemptId);
+      destination = `${SKILLS_PATH}/report?after=${attempt.id}`;
+    }
+  } catch (error) {
+    console.error('Error in answerQuestionAction:', error);
+    destination = errorPath(error);
+  }
+
+  redirect(destination);
+}
@@ -22,6 +22,7 @@ interface TodaysCosts {
   failed_calls: number;
   total_cost_usd: string;
   total_tokens: number;
+  cache_hits: number;
   operations_breakdown: Record<string, { calls: number; cost: string }>;
   models_breakdown: Record<string, { calls: number; cost: string }>;
 }
@@ -44,9 +45,36 @@ interface DailyCost {
 
 interface TopUser {
   user_id: string;
+  total_calls: number;
   total_cost_usd: string;
 }
 
+interface CustomerBudget {
+  customer_id: string;
+  budget_usd: string;
+  spent_usd: string;
+  percent_used: number;
+}
+
+interface BudgetAlert {
+  customerId: string;
+  month: string;
+  threshold: number;
+  spentUsd: number;
+  budgetUsd: number;
+  createdAt: number;
+}
+
+interface Budgets {
+  platform: {
+    daily_budget_usd: number;
+    monthly_budget_usd: number;
+    default_customer_budget_usd: number;
+  };
+  customers: CustomerBudget[];
+  alerts: BudgetAlert[];
+}
+
 /**
  * AI Cost Dashboard
  *
@@ -57,7 +85,10 @@ interface TopUser {
  * - Cost breakdown by operation and model
  * - Daily cost trends (last 30 days)
  * - Top spending users
+ * - Per-customer budgets and budget alerts
  * - Unit economics calculations
+ *
+ * Reads the AI cost ledger through /api/admin/costs/*.
  */
 export default function CostsPage() {
   const { session } = useAuth();
@@ -65,13 +96,14 @@ export default function CostsPage() {
   const [monthlyCosts, setMonthlyCosts] = useState<MonthlyCosts | null>(null);
   const [dailyCosts, setDailyCosts] = useState<DailyCost[]>([]);
   const [topUsers, setTopUsers] = useState<TopUser[]>([]);
+  const [budgets, setBudgets] = useState<Budgets | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [lastRefresh, setLastRefresh] = useState<Date>(new Date());
 
-  // Budget thresholds
-  const DAILY_BUDGET = 200; // $200/day
-  const MONTHLY_BUDGET = 5000; // $5,000/month
+  // Budget thresholds (server-configured, these are the defaults)
+  const DAILY_BUDGET = budgets?.platform.daily_budget_usd ?? 200;
+  const MONTHLY_BUDGET = budgets?.platform.monthly_budget_usd ?? 5000;
 
   // Fetch data
   useEffect(() => {
@@ -98,27 +130,28 @@ export default function CostsPage() {
         'Content-Type': 'application/json',
       };
 
-      const apiUrl = process.env.NEXT_PUBLIC_API_URL || '';
-
       // Fetch all data in parallel
-      const [todayRes, monthlyRes, dailyRes, topUsersRes] = await Promise.all([
-        fetch(`${apiUrl}/api/admin/costs/today`, { headers }),
-        fetch(`${apiUrl}/api/admin/costs/monthly`, { headers }),
-        fetch(`${apiUrl}/api/admin/costs/daily`, { headers }),
-        fetch(`${apiUrl}/api/admin/costs/top-users?limit=10`, { headers }),
+      const [todayRes, monthlyRes, dailyRes, topUsersRes, budgetsRes] = await Promise.all([
+        fetch('/api/admin/costs/today', { headers }),
+        fetch('/api/admin/costs/monthly', { headers }),
+        fetch('/api/admin/costs/daily', { headers }),
+        fetch('/api/admin/costs/top-users?limit=10', { headers }),
+        fetch('/api/admin/costs/budgets', { headers }),
       ]);
 
-      const [todayData, monthlyData, dailyData, topUsersData] = await Promise.all([
+      const [todayData, monthlyData, dailyData, topUsersData, budgetsData] = await Promise.all([
         todayRes.json(),
         monthlyRes.json(),
         dailyRes.json(),
         topUsersRes.json(),
+        budgetsRes.json(),
       ]);
 
       if (todayData.success) setTodaysCosts(todayData.data);
       if (monthlyData.success) setMonthlyCosts(monthlyData.data);
       if (dailyData.success) setDailyCosts(dailyData.data);
       if (topUsersData.success) setTopUsers(topUsersData.data);
+      if (budgetsData.success) setBudgets(budgetsData.data);
 
       setLastRefresh(new Date());
       setLoading(false);
@@ -238,7 +271,7 @@ export default function CostsPage() {
               value={formatNumber(todaysCosts?.total_tokens || 0)}
               icon={<Zap className="w-6 h-6" />}
               trend="neutral"
-              subtitle={`${formatNumber(todaysCosts?.total_tokens || 0)} used`}
+              subtitle={`${formatNumber(todaysCosts?.cache_hits || 0)} cache hits`}
             />
             <StatCard
               label="Failed Calls"
@@ -398,6 +431,55 @@ export default function CostsPage() {
           </GlassCard>
         </motion.div>
 
+        {/* Customer Budgets */}
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.3, delay: 0.35 }}
+          className="mb-8"
+        >
+          <GlassCard className="p-6">
+            <h3 className="text-lg font-semibold text-white mb-4 flex items-center gap-2">
+              <AlertTriangle className="w-5 h-5 text-yellow-400" />
+              Customer Budgets
+            </h3>
+            {budgets && budgets.alerts.length > 0 && (
+              <div className="space-y-2 mb-4">
+                {budgets.alerts.slice(0, 5).map((alert) => (
+                  <div
+                    key={`${alert.customerId}-${alert.month}-${alert.threshold}`}
+                    className={`p-3 rounded-lg text-sm ${alert.threshold >= 1 ? 'bg-red-500/20 text-red-300' : 'bg-yellow-500/20 text-yellow-300'}`}
+                  >
+                    <span className="font-mono">{alert.customerId.slice(0, 8)}...</span> reached {Math.round(alert.threshold * 100)}% of
+                    its {formatCurrency(alert.budgetUsd)} budget ({formatCurrency(alert.spentUsd)} spent in {alert.month})
+                  </div>
+                ))}
+              </div>
+            )}
+            <div className="space-y-3">
+              {budgets?.customers.slice(0, 10).map((customer) => (
+                <div key={customer.customer_id} className="p-3 rounded-lg bg-white/5">
+                  <div className="flex items-center justify-between mb-2">
+                    <span className="text-white/80 text-sm font-mono">{customer.customer_id.slice(0, 8)}...</span>
+                    <span className="text-white text-sm">
+                      {formatCurrency(customer.spent_usd)} / {formatCurrency(customer.budget_usd)}
+                    </span>
+                  </div>
+                  <div className="w-full bg-white/10 rounded-full h-1.5">
+                    <div
+                      className={`h-1.5 rounded-full ${customer.percent_used >= 100 ? 'bg-red-400' : customer.percent_used >= 80 ? 'bg-yellow-400' : 'bg-green-400'}`}
+                      style={{ width: `${Math.min(customer.percent_used, 100)}%` }}
+                    />
+                  </div>
+                </div>
+              ))}
+              {(!budgets || budgets.customers.length === 0) && (
+                <p className="text-white/40 text-center py-4">No customer spend this month</p>
+              )}
+            </div>
+          </GlassCard>
+        </motion.div>
+
         {/* Top Spending Users */}
         <motion.div
           initial={{ opacity: 0, y: 20 }}
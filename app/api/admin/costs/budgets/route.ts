@@ -0,0 +1,59 @@
+import { NextResponse } from 'next/server';
+import { requireAdmin } from '@/app/lib/middleware/auth';
+import { errorResponse, normalizeError } from '@/app/lib/middleware/error-handler';
+import {
+  DEFAULT_CUSTOMER_MONTHLY_BUDGET_USD,
+  PLATFORM_BUDGETS,
+  aiCostLedgerService
+} from '@/app/lib/services/aiCostLedgerService';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/admin/costs/budgets
+ *
+ * Platform budgets, month-to-date spend against budget per customer and the
+ * budget alerts raised so far
+ */
+export const GET = requireAdmin(async () => {
+  try {
+    const customers = await aiCostLedgerService.getCustomerBudgets();
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        platform: {
+          daily_budget_usd: PLATFORM_BUDGETS.dailyUsd,
+          monthly_budget_usd: PLATFORM_BUDGETS.monthlyUsd,
+          default_customer_budget_usd: DEFAULT_CUSTOMER_MONTHLY_BUDGET_USD
+        },
+        customers,
+        alerts: aiCostLedgerService.getAlerts()
+      }
+    });
+  } catch (error) {
+    console.error('❌ Failed to load AI budgets:', error);
+    return errorResponse(normalizeError(error));
+  }
+});
+
+/**
+ * PUT /api/admin/costs/budgets
+ *
+ * Set a customer's monthly AI budget (body: { customerId, monthlyBudgetUsd })
+ */
+export const PUT = requireAdmin(async (request) => {
+  try {
+    const { customerId, monthlyBudgetUsd } = await request.json().catch(() => ({}));
+
+    if (!customerId || typeof customerId !== 'string') {
+      return NextResponse.json({ success: false, error: 'customerId is required' }, { status: 400 });
+    }
+
+    await aiCostLedgerService.setCustomerBudget(customerId, Number(monthlyBudgetUsd));
+    return NextResponse.json({ success: true, data: { customerId, monthlyBudgetUsd: Number(monthlyBudgetUsd) } });
+  } catch (error) {
+    console.error('❌ Failed to save AI budget:', error);
+    return errorResponse(normalizeError(error));
+  }
+});
@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server';
+import { requireAdmin } from '@/app/lib/middleware/auth';
+import { errorResponse, normalizeError } from '@/app/lib/middleware/error-handler';
+import { aiCostLedgerService } from '@/app/lib/services/aiCostLedgerService';
+
+export const dynamic = 'force-dynamic';
+
+const MAX_DAYS = 90;
+
+/**
+ * GET /api/admin/costs/daily
+ *
+ * AI cost per day, most recent first (`?days=`, default 30, max 90).
+ * `?customerId=` narrows to one customer.
+ */
+export const GET = requireAdmin(async (request) => {
+  try {
+    const { searchParams } = request.nextUrl;
+    const days = Math.min(Math.max(parseInt(searchParams.get('days') || '30', 10) || 30, 1), MAX_DAYS);
+    const customerId = searchParams.get('customerId') || undefined;
+
+    const data = await aiCostLedgerService.getDailyCosts({ days, customerId });
+    return NextResponse.json({ success: true, data });
+  } catch (error) {
+    console.error('❌ Failed to load daily AI costs:', error);
+    return errorResponse(normalizeError(error));
+  }
+});
@@ -0,0 +1,23 @@
+import { NextResponse } from 'next/server';
+import { requireAdmin } from '@/app/lib/middleware/auth';
+import { errorResponse, normalizeError } from '@/app/lib/middleware/error-handler';
+import { aiCostLedgerService } from '@/app/lib/services/aiCostLedgerService';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/admin/costs/monthly
+ *
+ * Month-to-date AI cost with per-call averages. `?customerId=` narrows to
+ * one customer.
+ */
+export const GET = requireAdmin(async (request) => {
+  try {
+    const customerId = request.nextUrl.searchParams.get('customerId') || undefined;
+    const data = await aiCostLedgerService.getMonthlyCosts({ customerId });
+    return NextResponse.json({ success: true, data });
+  } catch (error) {
+    console.error('❌ Failed to load monthly AI costs:', error);
+    return errorResponse(normalizeError(error));
+  }
+});
@@ -0,0 +1,23 @@
+import { NextResponse } from 'next/server';
+import { requireAdmin } from '@/app/lib/middleware/auth';
+import { errorResponse, normalizeError } from '@/app/lib/middleware/error-handler';
+import { aiCostLedgerService } from '@/app/lib/services/aiCostLedgerService';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/admin/costs/today
+ *
+ * AI calls, tokens and cost since midnight UTC with per-operation and
+ * per-model breakdowns. `?customerId=` narrows to one customer.
+ */
+export const GET = requireAdmin(async (request) => {
+  try {
+    const customerId = request.nextUrl.searchParams.get('customerId') || undefined;
+    const data = await aiCostLedgerService.getTodaysCosts({ customerId });
+    return NextResponse.json({ success: true, data });
+  } catch (error) {
+    console.error('❌ Failed to load today\'s AI costs:', error);
+    return errorResponse(normalizeError(error));
+  }
+});
@@ -0,0 +1,24 @@
+import { NextResponse } from 'next/server';
+import { requireAdmin } from '@/app/lib/middleware/auth';
+import { errorResponse, normalizeError } from '@/app/lib/middleware/error-handler';
+import { aiCostLedgerService } from '@/app/lib/services/aiCostLedgerService';
+
+export const dynamic = 'force-dynamic';
+
+const MAX_LIMIT = 100;
+
+/**
+ * GET /api/admin/costs/top-users
+ *
+ * Highest month-to-date AI spenders (`?limit=`, default 10)
+ */
+export const GET = requireAdmin(async (request) => {
+  try {
+    const limit = Math.min(Math.max(parseInt(request.nextUrl.searchParams.get('limit') || '10', 10) || 10, 1), MAX_LIMIT);
+    const data = await aiCostLedgerService.getTopUsers({ limit });
+    return NextResponse.json({ success: true, data });
+  } catch (error) {
+    console.error('❌ Failed to load top AI spenders:', error);
+    return errorResponse(normalizeError(error));
+  }
+});
@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/app/lib/middleware/auth';
+import { errorResponse, normalizeError } from '@/app/lib/middleware/error-handler';
+import promptExperimentService from '@/app/lib/services/promptExperimentService';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/admin/prompts/experiments
+ *
+ * Prompt experiments, newest first, with per-version wins
+ */
+export const GET = requireAdmin(async () => {
+  try {
+    const experiments = await promptExperimentService.listExperiments();
+    const results = await Promise.all(
+      experiments.map(experiment => promptExperimentService.getResults(experiment.id))
+    );
+
+    return NextResponse.json({ success: true, data: results });
+  } catch (error) {
+    console.error('❌ Failed to load prompt experiments:', error);
+    return errorResponse(normalizeError(error));
+  }
+});
+
+/**
+ * POST /api/admin/prompts/experiments
+ *
+ * Start an experiment (body: { templateId, candidateVersion, controlVersion?, sampleRate? })
+ */
+export const POST = requireAdmin(async (request: NextRequest, auth) => {
+  try {
+    const { templateId, candidateVersion, controlVersion, sampleRate } = await request.json().catch(() => ({}));
+
+    if (!templateId || typeof templateId !== 'string') {
+      return NextResponse.json({ success: false, error: 'templateId is required' }, { status: 400 });
+    }
+
+    if (!Number.isInteger(candidateVersion)) {
+      return NextResponse.json({ success: false, error: 'candidateVersion must be an integer' }, { status: 400 });
+    }
+
+    const experiment = await promptExperimentService.createExperiment({
+      templateId,
+      candidateVersion,
+      controlVersion: Number.isInteger(controlVersion) ? controlVersion : undefined,
+      sampleRate: sampleRate === undefined ? undefined : Number(sampleRate),
+      createdBy: auth.user.id
+    });
+
+    return NextResponse.json({ success: true, data: experiment });
+  } catch (error) {
+    console.error('❌ Failed to start prompt experiment:', error);
+    return errorResponse(normalizeError(error));
+  }
+});
+
+/**
+ * PATCH /api/admin/prompts/experiments
+ *
+ * Stop an experiment (body: { experimentId, status: 'stopped' })
+ */
+export const PATCH = requireAdmin(async (request: NextRequest) => {
+  try {
+    const { experimentId, status } = await request.json().catch(() => ({}));
+
+    if (!experimentId || typeof experimentId !== 'string') {
+      return NextResponse.json({ success: false, error: 'experimentId is required' }, { status: 400 });
+    }
+
+    if (status !== 'stopped') {
+      return NextResponse.json({ success: false, error: "status must be 'stopped'" }, { status: 400 });
+    }
+
+    const experiment = await promptExperimentService.stopExperiment(experimentId);
+    return NextResponse.json({ success: true, data: experiment });
+  } catch (error) {
+    console.error('❌ Failed to stop prompt experiment:', error);
+    return errorResponse(normalizeError(error));
+  }
+});
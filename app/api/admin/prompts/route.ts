@@ -0,0 +1,14 @@
+import { NextResponse } from 'next/server';
+import { requireAdmin } from '@/app/lib/middleware/auth';
+import promptRegistry from '@/app/lib/services/promptRegistry';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/admin/prompts
+ *
+ * Every registered prompt version with its declared variables and target model
+ */
+export const GET = requireAdmin(async () => {
+  return NextResponse.json({ success: true, data: promptRegistry.list() });
+});
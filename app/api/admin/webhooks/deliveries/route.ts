@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/app/lib/middleware/auth';
+import { errorResponse, normalizeError } from '@/app/lib/middleware/error-handler';
+import inboundWebhookService, { InboundDeliveryStatus } from '@/app/lib/webhooks/inbound';
+
+export const dynamic = 'force-dynamic';
+
+const DELIVERY_STATUSES: InboundDeliveryStatus[] = ['processed', 'failed', 'invalid', 'rejected', 'replayed'];
+
+/**
+ * GET /api/admin/webhooks/deliveries
+ *
+ * Inbound webhook deliveries, newest first (?source=&status=&limit=), plus
+ * the registered sources, whether their secrets are configured and how many
+ * unauthenticated deliveries each rejected (those are not stored)
+ */
+export const GET = requireAdmin(async (request: NextRequest) => {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const status = searchParams.get('status');
+
+    if (status && !DELIVERY_STATUSES.includes(status as InboundDeliveryStatus)) {
+      return NextResponse.json(
+        { success: false, error: `status must be one of: ${DELIVERY_STATUSES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const deliveries = await inboundWebhookService.listDeliveries({
+      sourceId: searchParams.get('source') || undefined,
+      status: (status as InboundDeliveryStatus) || undefined,
+      limit: Math.min(Number(searchParams.get('limit')) || 50, 200)
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: { sources: inboundWebhookService.listSources(), deliveries }
+    });
+  } catch (error) {
+    console.error('❌ Failed to load webhook deliveries:', error);
+    return errorResponse(normalizeError(error));
+  }
+});
+
+/**
+ * POST /api/admin/webhooks/deliveries
+ *
+ * Re-process a logged delivery (body: { deliveryId })
+ */
+export const POST = requireAdmin(async (request: NextRequest) => {
+  try {
+    const { deliveryId } = await request.json().catch(() => ({}));
+
+    if (!deliveryId || typeof deliveryId !== 'string') {
+      return NextResponse.json({ success: false, error: 'deliveryId is required' }, { status: 400 });
+    }
+
+    const delivery = await inboundWebhookService.reprocess(deliveryId);
+    return NextResponse.json({ success: true, data: delivery });
+  } catch (error) {
+    console.error('❌ Failed to re-process webhook delivery:', error);
+    return errorResponse(normalizeError(error));
+  }
+});
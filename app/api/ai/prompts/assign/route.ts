@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/app/lib/middleware/auth';
+import { errorResponse, normalizeError } from '@/app/lib/middleware/error-handler';
+import { getUsageCustomerId } from '@/app/lib/middleware/usage-quota';
+import promptRegistry from '@/app/lib/services/promptRegistry';
+import promptExperimentService from '@/app/lib/services/promptExperimentService';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/ai/prompts/assign
+ *
+ * Prompt versions to run for a request (body: { templateId, requestKey? }).
+ * Requests sampled into a running prompt experiment get two versions and a
+ * comparisonId; report the user's pick to /api/ai/prompts/outcome.
+ */
+export const POST = requireAuth(async (request: NextRequest, auth) => {
+  try {
+    const { templateId, requestKey } = await request.json().catch(() => ({}));
+
+    if (!templateId || typeof templateId !== 'string') {
+      return NextResponse.json({ success: false, error: 'templateId is required' }, { status: 400 });
+    }
+
+    if (!promptRegistry.has(templateId)) {
+      return NextResponse.json({ success: false, error: `Prompt ${templateId} not found` }, { status: 404 });
+    }
+
+    const assignment = await promptExperimentService.assign(templateId, {
+      requestKey: typeof requestKey === 'string' ? requestKey : undefined,
+      userId: auth.user.id,
+      customerId: getUsageCustomerId(auth)
+    });
+
+    return NextResponse.json({ success: true, data: assignment });
+  } catch (error) {
+    console.error('❌ Failed to assign prompt version:', error);
+    return errorResponse(normalizeError(error));
+  }
+});
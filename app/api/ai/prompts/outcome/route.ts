@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/app/lib/middleware/auth';
+import { errorResponse, normalizeError } from '@/app/lib/middleware/error-handler';
+import promptExperimentService from '@/app/lib/services/promptExperimentService';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/ai/prompts/outcome
+ *
+ * Record which side of a prompt comparison the user kept or exported
+ * (body: { comparisonId, version, action: 'kept' | 'exported' })
+ */
+export const POST = requireAuth(async (request: NextRequest, auth) => {
+  try {
+    const { comparisonId, version, action } = await request.json().catch(() => ({}));
+
+    if (!comparisonId || typeof comparisonId !== 'string') {
+      return NextResponse.json({ success: false, error: 'comparisonId is required' }, { status: 400 });
+    }
+
+    if (!Number.isInteger(version)) {
+      return NextResponse.json({ success: false, error: 'version must be an integer' }, { status: 400 });
+    }
+
+    const comparison = await promptExperimentService.recordOutcome(comparisonId, {
+      version,
+      action,
+      userId: auth.user.id
+    });
+
+    return NextResponse.json({ success: true, data: comparison });
+  } catch (error) {
+    console.error('❌ Failed to record prompt outcome:', error);
+    return errorResponse(normalizeError(error));
+  }
+});
@@ -0,0 +1,134 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { errorResponse, normalizeError } from '@/app/lib/middleware/error-handler';
+import { withRateLimit } from '@/app/lib/middleware/rate-limiter';
+import { getUsageCustomerId } from '@/app/lib/middleware/usage-quota';
+import claudeAIService, { ClaudeMessage } from '@/app/lib/services/claudeAIService';
+import { CLAUDE_OPERATIONS, ClaudeOperation } from '@/app/lib/services/claudeModelRouting';
+import promptRegistry, { RenderedPrompt } from '@/app/lib/services/promptRegistry';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const MAX_TOKENS_LIMIT = 4000;
+
+interface StreamRequestBody {
+  operation?: ClaudeOperation;
+  prompt?: string;
+  messages?: ClaudeMessage[];
+  template?: {
+    id: string;
+    version?: number;
+    variables: Record<string, string>;
+  };
+  systemPrompt?: string;
+  maxTokens?: number;
+  temperature?: number;
+}
+
+function formatStreamEvent(event: 'token' | 'done' | 'error', data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+function validateBody(body: StreamRequestBody): string | null {
+  if (body.operation && !CLAUDE_OPERATIONS.includes(body.operation)) {
+    return `operation must be one of: ${CLAUDE_OPERATIONS.join(', ')}`;
+  }
+  if (!body.prompt && !body.messages?.length && !body.template) {
+    return 'prompt, messages or template is required';
+  }
+  if (body.template && (!body.template.id || typeof body.template.variables !== 'object' || body.template.variables === null)) {
+    return 'template needs an id and variables';
+  }
+  if (body.messages?.some(message => !['user', 'assistant'].includes(message.role) || typeof message.content !== 'string')) {
+    return 'messages must have a user or assistant role and string content';
+  }
+  return null;
+}
+
+/**
+ * POST /api/ai/stream
+ *
+ * Stream a Claude response as Server-Sent Events: `token` events carry text
+ * deltas, then one `done` event with the model and token usage (or `error`).
+ * The model tier is picked from `operation`; each stream is metered as one
+ * AI call against the customer's quota and the plan's AI rate limit. Instead of a prompt, a registered
+ * `template` (id, optional version, variables) can be sent; it is rendered
+ * here and its target operation and model apply unless overridden.
+ */
+export const POST = withRateLimit('ai')(async (request: NextRequest, auth) => {
+  const body: StreamRequestBody = await request.json().catch(() => ({}));
+
+  const validationError = validateBody(body);
+  if (validationError) {
+    return NextResponse.json({ success: false, error: validationError }, { status: 400 });
+  }
+
+  let rendered: RenderedPrompt | undefined;
+  try {
+    rendered = body.template
+      ? promptRegistry.render(body.template.id, body.template.variables, body.template.version)
+      : undefined;
+  } catch (error) {
+    return errorResponse(normalizeError(error));
+  }
+
+  const messages: ClaudeMessage[] = body.messages ?? [{ role: 'user', content: rendered?.prompt ?? body.prompt as string }];
+  const tokens = claudeAIService.streamMessage(messages, {
+    operation: body.operation ?? rendered?.target.operation ?? 'general',
+    model: rendered?.target.model,
+    systemPrompt: body.systemPrompt,
+    maxTokens: Math.min(body.maxTokens ?? 1000, MAX_TOKENS_LIMIT),
+    temperature: body.temperature,
+    meter: { customerId: getUsageCustomerId(auth), role: auth.user.role, userId: auth.user.id },
+    signal: request.signal
+  });
+
+  // Pull the first token before responding so quota and API errors keep their status codes
+  let first: IteratorResult<string>;
+  try {
+    first = await tokens.next();
+  } catch (error) {
+    return errorResponse(normalizeError(error));
+  }
+
+  const encoder = new TextEncoder();
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const write = (chunk: string) => {
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          // Client went away; the aborted request signal stops the upstream stream
+        }
+      };
+
+      try {
+        let step = first;
+        while (!step.done) {
+          write(formatStreamEvent('token', { text: step.value }));
+          step = await tokens.next();
+        }
+        write(formatStreamEvent('done', { model: step.value.model, usage: step.value.usage }));
+      } catch (error) {
+        if (!request.signal.aborted) {
+          write(formatStreamEvent('error', { error: normalizeError(error).message }));
+        }
+      } finally {
+        try {
+          controller.close();
+        } catch {
+          // Client went away
+        }
+      }
+    }
+  });
+
+  return new NextResponse(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no'
+    }
+  });
+});
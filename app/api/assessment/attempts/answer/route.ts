@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/app/lib/middleware/auth';
+import { errorResponse, normalizeError } from '@/app/lib/middleware/error-handler';
+import assessmentAttempts from '@/app/lib/assessments/attemptService';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/assessment/attempts/answer
+ *
+ * Answer a question (body: { id, questionId, value }). value is the option
+ * value of a multiple choice question or the point on a scale. Returns the
+ * attempt with the next question.
+ */
+export const POST = requireAuth(async (request: NextRequest, auth) => {
+  try {
+    const { id, questionId, value } = await request.json().catch(() => ({}));
+
+    if (!id || !questionId || value === undefined) {
+      return NextResponse.json({ success: false, error: 'id, questionId and value are required' }, { status: 400 });
+    }
+
+    const view = await assessmentAttempts.answerQuestion(auth.user.id, id, questionId, value);
+    return NextResponse.json({ success: true, data: view });
+  } catch (error) {
+    console.error('❌ Failed to record assessment answer:', error);
+    return errorResponse(normalizeError(error));
+  }
+});
@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/app/lib/middleware/auth';
+import { errorResponse, normalizeError } from '@/app/lib/middleware/error-handler';
+import assessmentAttempts from '@/app/lib/assessments/attemptService';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/assessment/attempts/compare[?before=<attemptId>&after=<attemptId>]
+ *
+ * Before/after report of two completed attempts; defaults to the latest
+ * retake and the attempt it retakes
+ */
+export const GET = requireAuth(async (request: NextRequest, auth) => {
+  try {
+    const before = request.nextUrl.searchParams.get('before') || undefined;
+    const after = request.nextUrl.searchParams.get('after') || undefined;
+
+    const report = await assessmentAttempts.compareAttempts(auth.user.id, before, after);
+    return NextResponse.json({ success: true, data: report });
+  } catch (error) {
+    console.error('❌ Failed to compare assessment attempts:', error);
+    return errorResponse(normalizeError(error));
+  }
+});
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/app/lib/middleware/auth';
+import { errorResponse, normalizeError } from '@/app/lib/middleware/error-handler';
+import assessmentAttempts from '@/app/lib/assessments/attemptService';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/assessment/attempts/complete
+ *
+ * Score a fully answered attempt into competency scores (body: { id })
+ */
+export const POST = requireAuth(async (request: NextRequest, auth) => {
+  try {
+    const { id } = await request.json().catch(() => ({}));
+
+    if (!id) {
+      return NextResponse.json({ success: false, error: 'id is required' }, { status: 400 });
+    }
+
+    const attempt = await assessmentAttempts.completeAttempt(auth.user.id, id);
+    return NextResponse.json({ success: true, data: attempt });
+  } catch (error) {
+    console.error('❌ Failed to complete assessment attempt:', error);
+    return errorResponse(normalizeError(error));
+  }
+});
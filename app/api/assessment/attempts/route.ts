@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/app/lib/middleware/auth';
+import { errorResponse, normalizeError } from '@/app/lib/middleware/error-handler';
+import assessmentAttempts from '@/app/lib/assessments/attemptService';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/assessment/attempts[?id=<attemptId>]
+ *
+ * The caller's assessment attempts (newest first), or one attempt with its
+ * next question
+ */
+export const GET = requireAuth(async (request: NextRequest, auth) => {
+  try {
+    const id = request.nextUrl.searchParams.get('id');
+
+    const data = id
+      ? await assessmentAttempts.getAttempt(auth.user.id, id)
+      : await assessmentAttempts.listAttempts(auth.user.id);
+    return NextResponse.json({ success: true, data });
+  } catch (error) {
+    console.error('❌ Failed to load assessment attempts:', error);
+    return errorResponse(normalizeError(error));
+  }
+});
+
+/**
+ * POST /api/assessment/attempts
+ *
+ * Start an attempt (a retake once one is completed), or resume the one in progress
+ */
+export const POST = requireAuth(async (_request: NextRequest, auth) => {
+  try {
+    const view = await assessmentAttempts.startAttempt(auth.user.id);
+    return NextResponse.json({ success: true, data: view });
+  } catch (error) {
+    console.error('❌ Failed to start assessment attempt:', error);
+    return errorResponse(normalizeError(error));
+  }
+});
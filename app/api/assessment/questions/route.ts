@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/app/lib/middleware/auth';
+import { errorResponse, normalizeError } from '@/app/lib/middleware/error-handler';
+import { getCurrentQuestions } from '@/app/lib/assessments/questionBank';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/assessment/questions[?category=<id>]
+ *
+ * Latest version of every question in the bank, with the branching rules
+ * (showIf) that decide when follow-up questions are asked
+ */
+export const GET = requireAuth(async (request: NextRequest) => {
+  try {
+    const category = request.nextUrl.searchParams.get('category') || undefined;
+    return NextResponse.json({ success: true, data: getCurrentQuestions(category) });
+  } catch (error) {
+    console.error('❌ Failed to load assessment questions:', error);
+    return errorResponse(normalizeError(error));
+  }
+});
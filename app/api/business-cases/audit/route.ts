@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/app/lib/middleware/auth';
+import { errorResponse, normalizeError } from '@/app/lib/middleware/error-handler';
+import { resolveCaseActor } from '@/app/lib/business-cases/actor';
+import businessCaseWorkflow from '@/app/lib/business-cases/workflowService';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/business-cases/audit?id=<caseId>
+ *
+ * Audit trail of a case: edits, transitions with their reasons, approvals
+ * and comments, oldest first
+ */
+export const GET = requireAuth(async (request: NextRequest, auth) => {
+  try {
+    const id = request.nextUrl.searchParams.get('id');
+
+    if (!id) {
+      return NextResponse.json({ success: false, error: 'id is required' }, { status: 400 });
+    }
+
+    const actor = await resolveCaseActor(request, auth);
+    const trail = await businessCaseWorkflow.getAuditTrail(actor, id);
+    return NextResponse.json({ success: true, data: trail });
+  } catch (error) {
+    console.error('❌ Failed to load business case audit trail:', error);
+    return errorResponse(normalizeError(error));
+  }
+});
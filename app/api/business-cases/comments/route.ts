@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/app/lib/middleware/auth';
+import { errorResponse, normalizeError } from '@/app/lib/middleware/error-handler';
+import { resolveCaseActor } from '@/app/lib/business-cases/actor';
+import businessCaseWorkflow from '@/app/lib/business-cases/workflowService';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/business-cases/comments?id=<caseId>[&fieldPath=<path>]
+ *
+ * Review comments on a case, optionally for one field
+ */
+export const GET = requireAuth(async (request: NextRequest, auth) => {
+  try {
+    const id = request.nextUrl.searchParams.get('id');
+    const fieldPath = request.nextUrl.searchParams.get('fieldPath') || undefined;
+
+    if (!id) {
+      return NextResponse.json({ success: false, error: 'id is required' }, { status: 400 });
+    }
+
+    const actor = await resolveCaseActor(request, auth);
+    const comments = await businessCaseWorkflow.listComments(actor, id, fieldPath);
+    return NextResponse.json({ success: true, data: comments });
+  } catch (error) {
+    console.error('❌ Failed to load business case comments:', error);
+    return errorResponse(normalizeError(error));
+  }
+});
+
+/**
+ * POST /api/business-cases/comments
+ *
+ * Comment on a section field (body: { id, fieldPath, body }),
+ * e.g. fieldPath 'businessChallenge.dollarCost'
+ */
+export const POST = requireAuth(async (request: NextRequest, auth) => {
+  try {
+    const { id, fieldPath, body } = await request.json().catch(() => ({}));
+
+    if (!id || !fieldPath || !body) {
+      return NextResponse.json({ success: false, error: 'id, fieldPath and body are required' }, { status: 400 });
+    }
+
+    const actor = await resolveCaseActor(request, auth);
+    const comment = await businessCaseWorkflow.addComment(actor, id, fieldPath, body);
+    return NextResponse.json({ success: true, data: comment }, { status: 201 });
+  } catch (error) {
+    console.error('❌ Failed to add business case comment:', error);
+    return errorResponse(normalizeError(error));
+  }
+});
+
+/**
+ * PATCH /api/business-cases/comments
+ *
+ * Resolve a comment (body: { id, commentId })
+ */
+export const PATCH = requireAuth(async (request: NextRequest, auth) => {
+  try {
+    const { id, commentId } = await request.json().catch(() => ({}));
+
+    if (!id || !commentId) {
+      return NextResponse.json({ success: false, error: 'id and commentId are required' }, { status: 400 });
+    }
+
+    const actor = await resolveCaseActor(request, auth);
+    const comment = await businessCaseWorkflow.resolveComment(actor, id, commentId);
+    return NextResponse.json({ success: true, data: comment });
+  } catch (error) {
+    console.error('❌ Failed to resolve business case comment:', error);
+    return errorResponse(normalizeError(error));
+  }
+});
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/app/lib/middleware/auth';
+import { errorResponse, normalizeError } from '@/app/lib/middleware/error-handler';
+import { resolveCaseActor } from '@/app/lib/business-cases/actor';
+import businessCaseWorkflow from '@/app/lib/business-cases/workflowService';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * PUT /api/business-cases/reviewers
+ *
+ * Replace the reviewers of a case (body: { id, reviewerIds }). Reviewers
+ * must be members of the case's workspace.
+ */
+export const PUT = requireAuth(async (request: NextRequest, auth) => {
+  try {
+    const { id, reviewerIds } = await request.json().catch(() => ({}));
+
+    if (!id || !Array.isArray(reviewerIds)) {
+      return NextResponse.json({ success: false, error: 'id and reviewerIds are required' }, { status: 400 });
+    }
+
+    const actor = await resolveCaseActor(request, auth);
+    const businessCase = await businessCaseWorkflow.assignReviewers(actor, id, reviewerIds);
+    return NextResponse.json({ success: true, data: businessCase });
+  } catch (error) {
+    console.error('❌ Failed to assign business case reviewers:', error);
+    return errorResponse(normalizeError(error));
+  }
+});
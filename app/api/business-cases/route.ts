@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/app/lib/middleware/auth';
+import { errorResponse, normalizeError } from '@/app/lib/middleware/error-handler';
+import { resolveCaseActor } from '@/app/lib/business-cases/actor';
+import { isAutoPopulationSource } from '@/app/lib/business-cases/versioning';
+import businessCaseWorkflow from '@/app/lib/business-cases/workflowService';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/business-cases[?id=<caseId>]
+ *
+ * Business cases in the active workspace, or one case with the workflow
+ * actions available and the fields it still needs for the next status
+ */
+export const GET = requireAuth(async (request: NextRequest, auth) => {
+  try {
+    const actor = await resolveCaseActor(request, auth);
+    const id = request.nextUrl.searchParams.get('id');
+
+    const data = id
+      ? await businessCaseWorkflow.getCase(actor, id)
+      : await businessCaseWorkflow.listCases(actor);
+    return NextResponse.json({ success: true, data });
+  } catch (error) {
+    console.error('❌ Failed to load business cases:', error);
+    return errorResponse(normalizeError(error));
+  }
+});
+
+const SOURCE_ERROR = 'source must be ICP, COST_CALCULATOR, USER_PROVIDED, AI_GENERATED or HYBRID';
+
+/**
+ * POST /api/business-cases
+ *
+ * Create a draft (body: { fields: { 'header.companyName': 'Acme', ... }, source? }).
+ * source says where the values came from (default USER_PROVIDED).
+ */
+export const POST = requireAuth(async (request: NextRequest, auth) => {
+  try {
+    const { fields, source } = await request.json().catch(() => ({}));
+
+    if (source !== undefined && !isAutoPopulationSource(source)) {
+      return NextResponse.json({ success: false, error: SOURCE_ERROR }, { status: 400 });
+    }
+
+    const actor = await resolveCaseActor(request, auth);
+    const businessCase = await businessCaseWorkflow.createCase(actor, fields || {}, source);
+    return NextResponse.json({ success: true, data: businessCase }, { status: 201 });
+  } catch (error) {
+    console.error('❌ Failed to create business case:', error);
+    return errorResponse(normalizeError(error));
+  }
+});
+
+/**
+ * PATCH /api/business-cases
+ *
+ * Edit fields of a draft or a case in review (body: { id, fields, source? }).
+ * Each edit is saved as a new version.
+ */
+export const PATCH = requireAuth(async (request: NextRequest, auth) => {
+  try {
+    const { id, fields, source } = await request.json().catch(() => ({}));
+
+    if (!id || !fields) {
+      return NextResponse.json({ success: false, error: 'id and fields are required' }, { status: 400 });
+    }
+
+    if (source !== undefined && !isAutoPopulationSource(source)) {
+      return NextResponse.json({ success: false, error: SOURCE_ERROR }, { status: 400 });
+    }
+
+    const actor = await resolveCaseActor(request, auth);
+    const businessCase = await businessCaseWorkflow.updateCase(actor, id, fields, source);
+    return NextResponse.json({ success: true, data: businessCase });
+  } catch (error) {
+    console.error('❌ Failed to update business case:', error);
+    return errorResponse(normalizeError(error));
+  }
+});
+
+/**
+ * DELETE /api/business-cases?id=<caseId>
+ *
+ * Delete a case that isn't final, with its comments and versions
+ */
+export const DELETE = requireAuth(async (request: NextRequest, auth) => {
+  try {
+    const id = request.nextUrl.searchParams.get('id');
+
+    if (!id) {
+      return NextResponse.json({ success: false, error: 'id is required' }, { status: 400 });
+    }
+
+    const actor = await resolveCaseActor(request, auth);
+    await businessCaseWorkflow.deleteCase(actor, id);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('❌ Failed to delete business case:', error);
+    return errorResponse(normalizeError(error));
+  }
+});
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/app/lib/middleware/auth';
+import { errorResponse, normalizeError } from '@/app/lib/middleware/error-handler';
+import { resolveCaseActor } from '@/app/lib/business-cases/actor';
+import businessCaseWorkflow from '@/app/lib/business-cases/workflowService';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/business-cases/versions/diff?id=<caseId>&from=<n>[&to=<n>]
+ *
+ * Changed fields per section between two versions (to defaults to the
+ * current version), each labelled with where the change came from
+ */
+export const GET = requireAuth(async (request: NextRequest, auth) => {
+  try {
+    const id = request.nextUrl.searchParams.get('id');
+    const from = request.nextUrl.searchParams.get('from');
+    const to = request.nextUrl.searchParams.get('to');
+
+    if (!id || !from) {
+      return NextResponse.json({ success: false, error: 'id and from are required' }, { status: 400 });
+    }
+
+    const actor = await resolveCaseActor(request, auth);
+    const diff = await businessCaseWorkflow.compareVersions(actor, id, Number(from), to ? Number(to) : undefined);
+    return NextResponse.json({ success: true, data: diff });
+  } catch (error) {
+    console.error('❌ Failed to compare business case versions:', error);
+    return errorResponse(normalizeError(error));
+  }
+});
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/app/lib/middleware/auth';
+import { errorResponse, normalizeError } from '@/app/lib/middleware/error-handler';
+import { resolveCaseActor } from '@/app/lib/business-cases/actor';
+import businessCaseWorkflow from '@/app/lib/business-cases/workflowService';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/business-cases/versions?id=<caseId>[&version=<n>]
+ *
+ * Version history of a case (newest first), or one snapshot with its data
+ */
+export const GET = requireAuth(async (request: NextRequest, auth) => {
+  try {
+    const id = request.nextUrl.searchParams.get('id');
+    const version = request.nextUrl.searchParams.get('version');
+
+    if (!id) {
+      return NextResponse.json({ success: false, error: 'id is required' }, { status: 400 });
+    }
+
+    const actor = await resolveCaseActor(request, auth);
+    const data = version
+      ? await businessCaseWorkflow.getVersion(actor, id, Number(version))
+      : await businessCaseWorkflow.listVersions(actor, id);
+    return NextResponse.json({ success: true, data });
+  } catch (error) {
+    console.error('❌ Failed to load business case versions:', error);
+    return errorResponse(normalizeError(error));
+  }
+});
+
+/**
+ * POST /api/business-cases/versions
+ *
+ * Restore an earlier version as a new version (body: { id, version })
+ */
+export const POST = requireAuth(async (request: NextRequest, auth) => {
+  try {
+    const { id, version } = await request.json().catch(() => ({}));
+
+    if (!id || typeof version !== 'number') {
+      return NextResponse.json({ success: false, error: 'id and version are required' }, { status: 400 });
+    }
+
+    const actor = await resolveCaseActor(request, auth);
+    const businessCase = await businessCaseWorkflow.restoreVersion(actor, id, version);
+    return NextResponse.json({ success: true, data: businessCase });
+  } catch (error) {
+    console.error('❌ Failed to restore business case version:', error);
+    return errorResponse(normalizeError(error));
+  }
+});
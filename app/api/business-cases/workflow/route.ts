@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/app/lib/middleware/auth';
+import { errorResponse, normalizeError } from '@/app/lib/middleware/error-handler';
+import { resolveCaseActor } from '@/app/lib/business-cases/actor';
+import { WORKFLOW_TRANSITIONS, isWorkflowAction } from '@/app/lib/business-cases/workflow';
+import businessCaseWorkflow from '@/app/lib/business-cases/workflowService';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/business-cases/workflow
+ *
+ * Move a case through review (body: { id, action, reason? }). Actions:
+ * submit, withdraw, approve, reject, reopen, finalize. reject and reopen
+ * need a reason.
+ */
+export const POST = requireAuth(async (request: NextRequest, auth) => {
+  try {
+    const { id, action, reason } = await request.json().catch(() => ({}));
+
+    if (!id || !action) {
+      return NextResponse.json({ success: false, error: 'id and action are required' }, { status: 400 });
+    }
+
+    if (!isWorkflowAction(action)) {
+      return NextResponse.json({
+        success: false,
+        error: `action must be one of: ${Object.keys(WORKFLOW_TRANSITIONS).join(', ')}`
+      }, { status: 400 });
+    }
+
+    const actor = await resolveCaseActor(request, auth);
+    const businessCase = await businessCaseWorkflow.transition(actor, id, action, reason);
+    return NextResponse.json({ success: true, data: businessCase });
+  } catch (error) {
+    console.error('❌ Business case workflow action failed:', error);
+    return errorResponse(normalizeError(error));
+  }
+});
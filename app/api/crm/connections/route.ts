@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/app/lib/middleware/auth';
+import { errorResponse, normalizeError } from '@/app/lib/middleware/error-handler';
+import { getUsageCustomerId } from '@/app/lib/middleware/usage-quota';
+import crmSyncEngine, { redactConnection } from '@/app/lib/crm/syncEngine';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/crm/connections
+ *
+ * The caller's CRM connections (tokens redacted)
+ */
+export const GET = requireAuth(async (_request: NextRequest, auth) => {
+  try {
+    const connections = await crmSyncEngine.listConnections(getUsageCustomerId(auth));
+    return NextResponse.json({ success: true, data: connections.map(redactConnection) });
+  } catch (error) {
+    console.error('❌ Failed to load CRM connections:', error);
+    return errorResponse(normalizeError(error));
+  }
+});
+
+/**
+ * POST /api/crm/connections
+ *
+ * Connect a CRM (body: { platform, accessToken, instanceUrl? }). Replaces an
+ * existing connection to the same platform. In production instanceUrl is
+ * only accepted for Salesforce, as the org's https://<domain>.my.salesforce.com URL.
+ */
+export const POST = requireAuth(async (request: NextRequest, auth) => {
+  try {
+    const { platform, accessToken, instanceUrl } = await request.json().catch(() => ({}));
+
+    if (!platform || typeof platform !== 'string') {
+      return NextResponse.json({ success: false, error: 'platform is required' }, { status: 400 });
+    }
+
+    if (!accessToken || typeof accessToken !== 'string') {
+      return NextResponse.json({ success: false, error: 'accessToken is required' }, { status: 400 });
+    }
+
+    const connection = await crmSyncEngine.connect(getUsageCustomerId(auth), {
+      platform,
+      accessToken,
+      instanceUrl: typeof instanceUrl === 'string' ? instanceUrl : undefined
+    });
+
+    return NextResponse.json({ success: true, data: redactConnection(connection) });
+  } catch (error) {
+    console.error('❌ Failed to connect CRM:', error);
+    return errorResponse(normalizeError(error));
+  }
+});
+
+/**
+ * DELETE /api/crm/connections?id=<connectionId>
+ *
+ * Disconnect a CRM; fields already created in the CRM are left in place
+ */
+export const DELETE = requireAuth(async (request: NextRequest, auth) => {
+  try {
+    const connectionId = request.nextUrl.searchParams.get('id');
+
+    if (!connectionId) {
+      return NextResponse.json({ success: false, error: 'id is required' }, { status: 400 });
+    }
+
+    await crmSyncEngine.disconnect(getUsageCustomerId(auth), connectionId);
+    return NextResponse.json({ success: true, data: { connectionId } });
+  } catch (error) {
+    console.error('❌ Failed to disconnect CRM:', error);
+    return errorResponse(normalizeError(error));
+  }
+});
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/app/lib/middleware/auth';
+import { errorResponse, normalizeError } from '@/app/lib/middleware/error-handler';
+import { getUsageCustomerId } from '@/app/lib/middleware/usage-quota';
+import crmSyncEngine from '@/app/lib/crm/syncEngine';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/crm/mappings/preview
+ *
+ * Dry run (body: { platform, mapping?, record? }): exactly what a push would
+ * write to the account record. Uses the saved mapping when none is given and
+ * a sample company when no record is given. Nothing is saved or sent to the CRM.
+ */
+export const POST = requireAuth(async (request: NextRequest, auth) => {
+  try {
+    const { platform, mapping, record } = await request.json().catch(() => ({}));
+
+    if (!platform || typeof platform !== 'string') {
+      return NextResponse.json({ success: false, error: 'platform is required' }, { status: 400 });
+    }
+
+    if (mapping !== undefined && (!mapping || typeof mapping !== 'object' || Array.isArray(mapping))) {
+      return NextResponse.json({ success: false, error: 'mapping must be an object' }, { status: 400 });
+    }
+
+    if (record !== undefined && (typeof record?.companyName !== 'string' || !record.companyName.trim())) {
+      return NextResponse.json({ success: false, error: 'record.companyName is required' }, { status: 400 });
+    }
+
+    const preview = await crmSyncEngine.previewFieldMapping(getUsageCustomerId(auth), platform, mapping, record);
+    return NextResponse.json({ success: true, data: preview });
+  } catch (error) {
+    console.error('❌ CRM field mapping preview failed:', error);
+    return errorResponse(normalizeError(error));
+  }
+});
@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/app/lib/middleware/auth';
+import { errorResponse, normalizeError } from '@/app/lib/middleware/error-handler';
+import { getUsageCustomerId } from '@/app/lib/middleware/usage-quota';
+import crmIntegrationService from '@/app/lib/services/CRMIntegrationService';
+import crmSyncEngine from '@/app/lib/crm/syncEngine';
+import { MAPPING_SOURCE_FIELDS, validateFieldMapping } from '@/app/lib/crm/fieldMapping';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/crm/mappings?platform=<hubspot|salesforce|pipedrive>
+ *
+ * The caller's field mapping for a platform (generated field names until one
+ * is saved), with the fields that can be mapped and the platform's field types
+ */
+export const GET = requireAuth(async (request: NextRequest, auth) => {
+  try {
+    const platform = request.nextUrl.searchParams.get('platform');
+
+    if (!platform) {
+      return NextResponse.json({ success: false, error: 'platform is required' }, { status: 400 });
+    }
+
+    const stored = await crmSyncEngine.getFieldMapping(getUsageCustomerId(auth), platform);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        ...stored,
+        validation: validateFieldMapping(stored.platform, stored.mapping),
+        sourceFields: MAPPING_SOURCE_FIELDS,
+        fieldTypes: crmIntegrationService.getPlatformFieldTypes(stored.platform)
+      }
+    });
+  } catch (error) {
+    console.error('❌ Failed to load CRM field mapping:', error);
+    return errorResponse(normalizeError(error));
+  }
+});
+
+/**
+ * POST /api/crm/mappings
+ *
+ * Save a field mapping (body: { platform, mapping }). Mappings with
+ * validation errors are rejected with the issues in error.details.
+ */
+export const POST = requireAuth(async (request: NextRequest, auth) => {
+  try {
+    const { platform, mapping } = await request.json().catch(() => ({}));
+
+    if (!platform || typeof platform !== 'string') {
+      return NextResponse.json({ success: false, error: 'platform is required' }, { status: 400 });
+    }
+
+    if (!mapping || typeof mapping !== 'object' || Array.isArray(mapping)) {
+      return NextResponse.json({ success: false, error: 'mapping must be an object' }, { status: 400 });
+    }
+
+    const saved = await crmSyncEngine.saveFieldMapping(getUsageCustomerId(auth), platform, mapping);
+    return NextResponse.json({ success: true, data: { ...saved.mapping, isDefault: false, validation: saved.validation } });
+  } catch (error) {
+    console.error('❌ Failed to save CRM field mapping:', error);
+    return errorResponse(normalizeError(error));
+  }
+});
+
+/**
+ * DELETE /api/crm/mappings?platform=<platform>
+ *
+ * Go back to the generated field names
+ */
+export const DELETE = requireAuth(async (request: NextRequest, auth) => {
+  try {
+    const platform = request.nextUrl.searchParams.get('platform');
+
+    if (!platform) {
+      return NextResponse.json({ success: false, error: 'platform is required' }, { status: 400 });
+    }
+
+    await crmSyncEngine.resetFieldMapping(getUsageCustomerId(auth), platform);
+    return NextResponse.json({ success: true, data: { platform } });
+  } catch (error) {
+    console.error('❌ Failed to reset CRM field mapping:', error);
+    return errorResponse(normalizeError(error));
+  }
+});
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/app/lib/middleware/auth';
+import { errorResponse, normalizeError } from '@/app/lib/middleware/error-handler';
+import { getUsageCustomerId } from '@/app/lib/middleware/usage-quota';
+import crmSyncEngine from '@/app/lib/crm/syncEngine';
+
+export const dynamic = 'force-dynamic';
+
+const ACTIONS = ['provision', 'pull'] as const;
+
+/**
+ * GET /api/crm/sync?connectionId=<id>&limit=<n>
+ *
+ * Recent sync runs, newest first (all connections when connectionId is omitted)
+ */
+export const GET = requireAuth(async (request: NextRequest, auth) => {
+  try {
+    const connectionId = request.nextUrl.searchParams.get('connectionId') ?? undefined;
+    const limit = Math.min(Number(request.nextUrl.searchParams.get('limit')) || 50, 200);
+
+    const runs = await crmSyncEngine.listRuns(getUsageCustomerId(auth), connectionId, limit);
+    return NextResponse.json({ success: true, data: runs });
+  } catch (error) {
+    console.error('❌ Failed to load CRM sync runs:', error);
+    return errorResponse(normalizeError(error));
+  }
+});
+
+/**
+ * POST /api/crm/sync
+ *
+ * Run a sync step now (body: { connectionId, action: 'provision' | 'pull' }).
+ * Account pushes happen automatically when a company is rated.
+ */
+export const POST = requireAuth(async (request: NextRequest, auth) => {
+  try {
+    const { connectionId, action } = await request.json().catch(() => ({}));
+
+    if (!connectionId || typeof connectionId !== 'string') {
+      return NextResponse.json({ success: false, error: 'connectionId is required' }, { status: 400 });
+    }
+
+    if (!ACTIONS.includes(action)) {
+      return NextResponse.json(
+        { success: false, error: `action must be one of: ${ACTIONS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const customerId = getUsageCustomerId(auth);
+    const run = action === 'provision'
+      ? await crmSyncEngine.provisionFields(customerId, connectionId)
+      : await crmSyncEngine.pullDealStages(customerId, connectionId);
+
+    return NextResponse.json({ success: true, data: run });
+  } catch (error) {
+    console.error('❌ CRM sync failed:', error);
+    return errorResponse(normalizeError(error));
+  }
+});
@@ -1,13 +1,22 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getBackendUrl } from '@/app/lib/config/api';
+import { createRateLimiter } from '@/app/lib/middleware/rate-limiter';
+
+// Anonymous callers share the basic plan's AI budget per IP
+const rateLimiter = createRateLimiter('ai');
 
 /**
  * Demo ICP Generation API Route
  * Proxies requests to backend Express API for demo ICP generation
  *
- * No authentication required - rate limited by IP on backend
+ * No authentication required - rate limited by IP here and on backend
  */
 export async function POST(request: NextRequest) {
+  const limit = await rateLimiter(request);
+  if (limit instanceof Response) {
+    return limit;
+  }
+
   try {
     const body = await request.json();
     const { productName, productDescription, targetBuyer } = body;
@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/app/lib/middleware/auth';
+import { jobQueue } from '@/app/lib/queue/job-queue';
+import {
+  LiveUpdate,
+  bridgeEventBus,
+  bridgeJobQueue,
+  formatSSE,
+  getJobCustomerId,
+  jobToLiveUpdate,
+  relayBackendExport,
+  relayBackendJob
+} from '@/app/lib/events/live-stream';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const HEARTBEAT_INTERVAL = 15000;
+
+/**
+ * GET /api/events/stream
+ *
+ * Server-Sent Events stream of generation and job progress for the
+ * authenticated customer. Always includes the customer's EventBus events and
+ * local queue jobs; `?job=<id>` and `?export=<id>` (repeatable) additionally
+ * follow jobs/exports running on the Express backend.
+ */
+export const GET = requireAuth(async (request: NextRequest, auth) => {
+  const customerId = auth.user.customerId || auth.user.id;
+  const { searchParams } = new URL(request.url);
+  const jobIds = searchParams.getAll('job').filter(Boolean);
+  const exportIds = searchParams.getAll('export').filter(Boolean);
+
+  const encoder = new TextEncoder();
+  const cleanups: Array<() => void> = [];
+  let closed = false;
+
+  const close = () => {
+    if (closed) return;
+    closed = true;
+    cleanups.forEach(cleanup => cleanup());
+  };
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const write = (chunk: string) => {
+        if (closed) return;
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          close(); // Client went away
+        }
+      };
+      const send = (update: LiveUpdate) => write(formatSSE(update));
+
+      // Reconnect delay hint for EventSource
+      write(`retry: 3000\n: connected ${customerId}\n\n`);
+
+      cleanups.push(bridgeEventBus(customerId, send));
+      cleanups.push(bridgeJobQueue(customerId, send));
+
+      for (const jobId of jobIds) {
+        const localJob = jobQueue.getJob(jobId);
+
+        if (localJob) {
+          // Local jobs are already bridged; send the current state right away
+          if (getJobCustomerId(localJob) === customerId) {
+            send(jobToLiveUpdate(localJob));
+          }
+        } else {
+          cleanups.push(relayBackendJob(jobId, { accessToken: auth.session.access_token }, send));
+        }
+      }
+
+      for (const exportId of exportIds) {
+        cleanups.push(relayBackendExport(exportId, customerId, { accessToken: auth.session.access_token }, send));
+      }
+
+      const heartbeat = setInterval(() => write(': heartbeat\n\n'), HEARTBEAT_INTERVAL);
+      cleanups.push(() => clearInterval(heartbeat));
+
+      request.signal.addEventListener('abort', () => {
+        close();
+        try {
+          controller.close();
+        } catch {
+          // Already closed
+        }
+      });
+    },
+    cancel() {
+      close();
+    }
+  });
+
+  return new NextResponse(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no'
+    }
+  });
+});
@@ -2,14 +2,16 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getAuthHeaders } from '@/app/lib/middleware/api-auth';
 import { env } from '@/app/lib/config/environment';
 import { getBackendUrl } from '@/app/lib/config/api';
+import { exportFormatEvent, withUsageQuota } from '@/app/lib/middleware/usage-quota';
 
 /**
  * POST /api/export/comprehensive
  *
  * Proxies comprehensive export requests to the Express backend
  * Handles authentication and forwards the request
+ * PDF/DOCX exports count against the monthly export quota
  */
-export async function POST(request: NextRequest) {
+export const POST = withUsageQuota(exportFormatEvent, { rateLimit: 'files' })(async (request: NextRequest) => {
   try {
     const body = await request.json();
     const { customerId, format = 'pdf', includeData } = body;
@@ -56,4 +58,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
@@ -2,9 +2,12 @@
  * SIMPLIFIED PDF Export API
  * Returns HTML content for client-side PDF generation
  * Avoids server-side PDF library dependencies
+ * Counts against the caller's monthly PDF export quota
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { BILLABLE_EVENTS } from '@/app/lib/middleware/rbac';
+import { withUsageQuota } from '@/app/lib/middleware/usage-quota';
 
 interface ExportRequest {
   content: string;
@@ -16,7 +19,7 @@ interface ExportRequest {
   };
 }
 
-export async function POST(request: NextRequest) {
+export const POST = withUsageQuota(BILLABLE_EVENTS.EXPORT_PDF, { rateLimit: 'files' })(async (request: NextRequest) => {
   console.log('📄 PDF Export API called - returning HTML for client-side PDF');
   
   try {
@@ -129,7 +132,7 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
 // Helper function to convert markdown to HTML
 function markdownToHTML(markdown: string): string {
@@ -8,6 +8,9 @@ import { getBackendUrl } from '@/app/lib/config/api';
  *
  * Proxies export status requests to the Express backend
  * Handles authentication and forwards the request
+ *
+ * Browsers follow exports live via /api/events/stream?export=<id> (useLiveJob);
+ * this route is the polling fallback when the stream is unavailable.
  */
 export async function GET(
   request: NextRequest,
@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/app/lib/middleware/auth';
+import { errorResponse, normalizeError } from '@/app/lib/middleware/error-handler';
+import { getUsageCustomerId } from '@/app/lib/middleware/usage-quota';
+import webhookService, { GenerationSession, ProductData } from '@/app/lib/services/webhookService';
+
+export const dynamic = 'force-dynamic';
+
+const PRODUCT_FIELDS: Array<keyof ProductData> = ['productName', 'businessType', 'productDescription', 'keyFeatures'];
+
+/**
+ * What the client sees of a session (delivery bookkeeping stays server-side)
+ */
+function toSessionView({ deliveryIds: _deliveryIds, ...session }: GenerationSession) {
+  return session;
+}
+
+/**
+ * GET /api/generation/sessions
+ *
+ * `?id=<sessionId>` returns one of the caller's sessions with its resources,
+ * so a generation can be resumed from any browser. Without an id, returns the
+ * caller's recent sessions (without resources), newest first.
+ */
+export const GET = requireAuth(async (request: NextRequest, auth) => {
+  try {
+    const customerId = getUsageCustomerId(auth);
+    const id = request.nextUrl.searchParams.get('id');
+
+    if (id) {
+      const session = await webhookService.getSession(id);
+
+      // Other customers' sessions are reported as missing rather than forbidden
+      if (!session || session.customerId !== customerId) {
+        return NextResponse.json({ success: false, error: `Generation session ${id} not found` }, { status: 404 });
+      }
+
+      return NextResponse.json({ success: true, data: toSessionView(session) });
+    }
+
+    const sessions = await webhookService.listSessions(customerId);
+    return NextResponse.json({
+      success: true,
+      data: sessions.map(session => ({ ...toSessionView(session), resources: undefined }))
+    });
+  } catch (error) {
+    console.error('❌ Failed to load generation sessions:', error);
+    return errorResponse(normalizeError(error));
+  }
+});
+
+/**
+ * POST /api/generation/sessions
+ *
+ * Start a generation session (body: { productData? }). The product data is
+ * kept on the session for the fallback generator; pass the returned id to
+ * the Make.com scenario as session_id.
+ */
+export const POST = requireAuth(async (request: NextRequest, auth) => {
+  try {
+    const { productData } = await request.json().catch(() => ({}));
+
+    if (productData !== undefined && (typeof productData !== 'object' || productData === null || Array.isArray(productData))) {
+      return NextResponse.json({ success: false, error: 'productData must be an object' }, { status: 400 });
+    }
+
+    const customerId = getUsageCustomerId(auth);
+    const product: ProductData = { customerId };
+    for (const field of PRODUCT_FIELDS) {
+      if (typeof productData?.[field] === 'string') {
+        product[field] = productData[field];
+      }
+    }
+
+    const sessionId = await webhookService.startGeneration(customerId, undefined, product);
+    const session = await webhookService.getSession(sessionId);
+
+    return NextResponse.json({
+      success: true,
+      data: { session: session && toSessionView(session), webhookUrl: webhookService.getWebhookUrl() }
+    });
+  } catch (error) {
+    console.error('❌ Failed to start generation session:', error);
+    return errorResponse(normalizeError(error));
+  }
+});
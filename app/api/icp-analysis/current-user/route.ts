@@ -1,24 +1,25 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@/app/lib/supabase/server';
+import { requireAuth } from '@/app/lib/middleware/auth';
+import { errorResponse, normalizeError } from '@/app/lib/middleware/error-handler';
+import { PERMISSIONS } from '@/app/lib/middleware/rbac';
+import { requireScopePermission, resolveWorkspaceScope } from '@/app/lib/workspaces/scope';
 
-export async function GET(request: NextRequest) {
+// ICP of the active workspace (the user's own when no workspace is selected)
+export const GET = requireAuth(async (request: NextRequest, auth) => {
   try {
-    // Get user from Supabase session
-    const supabase = await createClient();
-    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    const scope = await resolveWorkspaceScope(request, auth.user);
+    requireScopePermission(scope, PERMISSIONS.VIEW_ICP);
 
-    if (authError || !user) {
-      return NextResponse.json(
-        { success: false, error: 'Not authenticated' },
-        { status: 401 }
-      );
-    }
+    // Shared workspace rows aren't covered by per-user RLS; membership was checked above
+    const supabase = scope.workspaceId
+      ? (await import('@/app/lib/supabase/admin')).supabaseAdmin
+      : await createClient();
 
     // Fetch ICP from customer_assets
-    const { data, error } = await supabase
-      .from('customer_assets')
+    const { data, error } = await (supabase.from('customer_assets') as any)
       .select('icp_content')
-      .eq('customer_id', user.id)
+      .eq('customer_id', scope.ownerId)
       .single();
 
     if (error) {
@@ -45,12 +46,6 @@ export async function GET(request: NextRequest) {
 
   } catch (error) {
     console.error('❌ Failed to fetch ICP data:', error);
-    return NextResponse.json(
-      {
-        success: false,
-        error: error instanceof Error ? error.message : 'Internal server error'
-      },
-      { status: 500 }
-    );
+    return errorResponse(normalizeError(error));
   }
-}
+});
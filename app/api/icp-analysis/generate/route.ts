@@ -3,8 +3,13 @@ import { NextRequest, NextResponse } from 'next/server';
 // import { icpAnalysisService } from '@/app/lib/services/icpAnalysisService';
 import { createClient } from '@/app/lib/supabase/server';
 import { getBackendUrl } from '@/app/lib/config/api';
+import { BILLABLE_EVENTS, PERMISSIONS } from '@/app/lib/middleware/rbac';
+import { withUsageQuota } from '@/app/lib/middleware/usage-quota';
+import { errorResponse, normalizeError } from '@/app/lib/middleware/error-handler';
+import { requireScopePermission, resolveWorkspaceScope } from '@/app/lib/workspaces/scope';
 
-export async function POST(request: NextRequest) {
+// Each successful generation counts against the monthly ICP quota and the AI rate limit
+export const POST = withUsageQuota(BILLABLE_EVENTS.ICP_GENERATION, { rateLimit: 'ai' })(async (request: NextRequest, auth) => {
   try {
     const body = await request.json();
     const { productData, customerId } = body;
@@ -23,6 +28,15 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // In a shared workspace the ICP is saved for the whole team
+    let scope;
+    try {
+      scope = await resolveWorkspaceScope(request, auth.user, customerId);
+      requireScopePermission(scope, PERMISSIONS.CREATE_ICP);
+    } catch (error) {
+      return errorResponse(normalizeError(error));
+    }
+
     // Prepare ICP analysis input
     const icpInput = {
       productName: productData.productName,
@@ -67,13 +81,14 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Save ICP to Supabase customer_assets table
-    const supabase = await createClient();
+    // Save ICP to Supabase customer_assets table (shared workspace rows bypass per-user RLS)
+    const supabase = scope.workspaceId
+      ? (await import('@/app/lib/supabase/admin')).supabaseAdmin
+      : await createClient();
 
-    const { error: saveError } = await supabase
-      .from('customer_assets')
+    const { error: saveError } = await (supabase.from('customer_assets') as any)
       .upsert({
-        customer_id: customerId,
+        customer_id: scope.ownerId,
         icp_content: result.data,
         updated_at: new Date().toISOString()
       }, {
@@ -85,6 +100,12 @@ export async function POST(request: NextRequest) {
       // Don't fail the request, just log the error
     }
 
+    const { default: eventBus } = await import('@/app/lib/events/EventBus');
+    await eventBus.emit('icp_generated', {
+      customerId,
+      productName: productData.productName
+    });
+
     return NextResponse.json({
       success: true,
       data: result.data
@@ -100,4 +121,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getBackendUrl } from '@/app/lib/config/api';
+import { AuthContext } from '@/app/lib/middleware/auth';
+import { BILLABLE_EVENTS } from '@/app/lib/middleware/rbac';
+import { withUsageQuota } from '@/app/lib/middleware/usage-quota';
+
+/**
+ * POST /api/icp-analysis/rate-company
+ *
+ * Submits a company rating job to the Express backend (body: { companyUrl, icpFrameworkId? })
+ * Each job the backend accepts counts against the monthly company rating quota.
+ * Ratings are the user's own, so no workspace is forwarded.
+ */
+export const POST = withUsageQuota(BILLABLE_EVENTS.COMPANY_RATING, { rateLimit: 'ai' })(
+  async (request: NextRequest, auth: AuthContext) => {
+    try {
+      const { companyUrl, icpFrameworkId } = await request.json().catch(() => ({}));
+
+      if (typeof companyUrl !== 'string' || !companyUrl.trim()) {
+        return NextResponse.json(
+          { success: false, error: 'companyUrl is required' },
+          { status: 400 }
+        );
+      }
+
+      // Forward the job to the Express backend as the signed-in user
+      const backendResponse = await fetch(getBackendUrl('/api/jobs/rate-company'), {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${auth.session.access_token}`
+        },
+        body: JSON.stringify({ companyUrl: companyUrl.trim(), icpFrameworkId })
+      });
+
+      const result = await backendResponse.json().catch(() => ({}));
+
+      if (!backendResponse.ok) {
+        return NextResponse.json(
+          { success: false, error: result.error || 'Failed to submit company rating job' },
+          { status: backendResponse.status }
+        );
+      }
+
+      return NextResponse.json(result);
+
+    } catch (error) {
+      console.error('Error in icp-analysis/rate-company API route:', error);
+      return NextResponse.json(
+        { success: false, error: 'Internal server error' },
+        { status: 500 }
+      );
+    }
+  }
+);
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/app/lib/supabase/server';
+import { requireAuth } from '@/app/lib/middleware/auth';
+import { errorResponse, normalizeError } from '@/app/lib/middleware/error-handler';
+import { PERMISSIONS } from '@/app/lib/middleware/rbac';
+import { requireScopePermission, resolveWorkspaceScope } from '@/app/lib/workspaces/scope';
+
+// Buyer personas of the active workspace (the user's own when no workspace is selected)
+export const GET = requireAuth(async (request: NextRequest, auth) => {
+  try {
+    const scope = await resolveWorkspaceScope(request, auth.user);
+    requireScopePermission(scope, PERMISSIONS.VIEW_ICP);
+
+    // Shared workspace rows aren't covered by per-user RLS; membership was checked above
+    const supabase = scope.workspaceId
+      ? (await import('@/app/lib/supabase/admin')).supabaseAdmin
+      : await createClient();
+
+    const { data, error } = await (supabase.from('customer_assets') as any)
+      .select('target_buyer_personas')
+      .eq('customer_id', scope.ownerId)
+      .single();
+
+    if (error && error.code !== 'PGRST116') { // PGRST116: no row
+      throw error;
+    }
+
+    const personas = data?.target_buyer_personas;
+    if (!Array.isArray(personas) || personas.length === 0) {
+      return NextResponse.json(
+        { success: false, error: 'No personas found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      personas
+    });
+
+  } catch (error) {
+    console.error('❌ Failed to fetch personas:', error);
+    return errorResponse(normalizeError(error));
+  }
+});
@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/app/lib/middleware/auth';
+import { errorResponse, normalizeError } from '@/app/lib/middleware/error-handler';
+import { resolveFrameworkActor } from '@/app/lib/technical-translation/actor';
+import industryFrameworks from '@/app/lib/technical-translation/frameworkService';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/technical-translation/frameworks/export[?ids=<id>,<id>]
+ *
+ * Export file for the given custom frameworks, or all of them in the active
+ * workspace. The file can be imported as is.
+ */
+export const GET = requireAuth(async (request: NextRequest, auth) => {
+  try {
+    const ids = request.nextUrl.searchParams.get('ids')?.split(',').map(id => id.trim()).filter(Boolean);
+
+    const actor = await resolveFrameworkActor(request, auth);
+    const data = await industryFrameworks.exportFrameworks(actor, ids);
+    return NextResponse.json({ success: true, data });
+  } catch (error) {
+    console.error('❌ Failed to export industry frameworks:', error);
+    return errorResponse(normalizeError(error));
+  }
+});
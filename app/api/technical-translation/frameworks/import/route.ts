@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/app/lib/middleware/auth';
+import { errorResponse, normalizeError } from '@/app/lib/middleware/error-handler';
+import { resolveFrameworkActor } from '@/app/lib/technical-translation/actor';
+import industryFrameworks from '@/app/lib/technical-translation/frameworkService';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/technical-translation/frameworks/import[?overwrite=true]
+ *
+ * Import frameworks from JSON: an export file, an array of frameworks or a
+ * single framework as the body. Nothing is saved if any framework is
+ * invalid; existing ids are a 409 unless overwrite is set.
+ */
+export const POST = requireAuth(async (request: NextRequest, auth) => {
+  try {
+    const payload = await request.json().catch(() => null);
+
+    if (!payload || typeof payload !== 'object') {
+      return NextResponse.json({ success: false, error: 'body must be JSON frameworks' }, { status: 400 });
+    }
+
+    const actor = await resolveFrameworkActor(request, auth);
+    const result = await industryFrameworks.importFrameworks(actor, payload, {
+      overwrite: request.nextUrl.searchParams.get('overwrite') === 'true'
+    });
+    return NextResponse.json({ success: true, data: result });
+  } catch (error) {
+    console.error('❌ Failed to import industry frameworks:', error);
+    return errorResponse(normalizeError(error));
+  }
+});
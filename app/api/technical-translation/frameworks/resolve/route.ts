@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { errorResponse, normalizeError } from '@/app/lib/middleware/error-handler';
+import { withRateLimit } from '@/app/lib/middleware/rate-limiter';
+import { resolveFrameworkActor } from '@/app/lib/technical-translation/actor';
+import industryFrameworks from '@/app/lib/technical-translation/frameworkService';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/technical-translation/frameworks/resolve
+ *
+ * The framework to translate an industry with (body: { industry }): a custom
+ * or built-in one, else one drafted by Claude and saved to the workspace.
+ * data.drafted is true when it was drafted for this request.
+ */
+export const POST = withRateLimit('ai')(async (request: NextRequest, auth) => {
+  try {
+    const { industry } = await request.json().catch(() => ({}));
+
+    if (!industry || typeof industry !== 'string') {
+      return NextResponse.json({ success: false, error: 'industry is required' }, { status: 400 });
+    }
+
+    const actor = await resolveFrameworkActor(request, auth);
+    const resolved = await industryFrameworks.resolveFramework(actor, industry);
+    return NextResponse.json({ success: true, data: resolved }, { status: resolved.drafted ? 201 : 200 });
+  } catch (error) {
+    console.error('❌ Failed to resolve industry framework:', error);
+    return errorResponse(normalizeError(error));
+  }
+});
@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/app/lib/middleware/auth';
+import { errorResponse, normalizeError } from '@/app/lib/middleware/error-handler';
+import { resolveFrameworkActor } from '@/app/lib/technical-translation/actor';
+import industryFrameworks from '@/app/lib/technical-translation/frameworkService';
+import technicalTranslationService from '@/src/lib/services/TechnicalTranslationService';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/technical-translation/frameworks[?id=<frameworkId>]
+ *
+ * The built-in industry frameworks and the custom ones in the active
+ * workspace, or one custom framework
+ */
+export const GET = requireAuth(async (request: NextRequest, auth) => {
+  try {
+    const actor = await resolveFrameworkActor(request, auth);
+    const id = request.nextUrl.searchParams.get('id');
+
+    if (id) {
+      return NextResponse.json({ success: true, data: await industryFrameworks.getFramework(actor, id) });
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        builtIn: technicalTranslationService.getAvailableFrameworks(),
+        custom: await industryFrameworks.listFrameworks(actor)
+      }
+    });
+  } catch (error) {
+    console.error('❌ Failed to load industry frameworks:', error);
+    return errorResponse(normalizeError(error));
+  }
+});
+
+/**
+ * POST /api/technical-translation/frameworks
+ *
+ * Add a custom framework (body: { id?, framework: { name, stakeholders,
+ * painPoints, translationTemplates } }). The id defaults to the name.
+ */
+export const POST = requireAuth(async (request: NextRequest, auth) => {
+  try {
+    const { id, framework } = await request.json().catch(() => ({}));
+
+    if (!framework || typeof framework !== 'object') {
+      return NextResponse.json({ success: false, error: 'framework is required' }, { status: 400 });
+    }
+
+    const actor = await resolveFrameworkActor(request, auth);
+    const saved = await industryFrameworks.createFramework(actor, { id, framework });
+    return NextResponse.json({ success: true, data: saved }, { status: 201 });
+  } catch (error) {
+    console.error('❌ Failed to create industry framework:', error);
+    return errorResponse(normalizeError(error));
+  }
+});
+
+/**
+ * PATCH /api/technical-translation/frameworks
+ *
+ * Replace a custom framework's content (body: { id, framework })
+ */
+export const PATCH = requireAuth(async (request: NextRequest, auth) => {
+  try {
+    const { id, framework } = await request.json().catch(() => ({}));
+
+    if (!id) {
+      return NextResponse.json({ success: false, error: 'id is required' }, { status: 400 });
+    }
+
+    if (!framework || typeof framework !== 'object') {
+      return NextResponse.json({ success: false, error: 'framework is required' }, { status: 400 });
+    }
+
+    const actor = await resolveFrameworkActor(request, auth);
+    const saved = await industryFrameworks.updateFramework(actor, id, framework);
+    return NextResponse.json({ success: true, data: saved });
+  } catch (error) {
+    console.error('❌ Failed to update industry framework:', error);
+    return errorResponse(normalizeError(error));
+  }
+});
+
+/**
+ * DELETE /api/technical-translation/frameworks?id=<frameworkId>
+ */
+export const DELETE = requireAuth(async (request: NextRequest, auth) => {
+  try {
+    const id = request.nextUrl.searchParams.get('id');
+
+    if (!id) {
+      return NextResponse.json({ success: false, error: 'id is required' }, { status: 400 });
+    }
+
+    const actor = await resolveFrameworkActor(request, auth);
+    await industryFrameworks.deleteFramework(actor, id);
+    return NextResponse.json({ success: true, data: { id } });
+  } catch (error) {
+    console.error('❌ Failed to delete industry framework:', error);
+    return errorResponse(normalizeError(error));
+  }
+});
@@ -6,6 +6,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { withErrorHandling, successResponse } from '@/app/lib/middleware/error-handler';
 import claudeAIService from '@/app/lib/services/claudeAIService';
+import { MODEL_TIERS } from '@/app/lib/services/claudeModelRouting';
 
 export const GET = withErrorHandling(async (req: NextRequest) => {
   const { searchParams } = new URL(req.url);
@@ -74,7 +75,7 @@ export const GET = withErrorHandling(async (req: NextRequest) => {
     // Add service health info
     results.health = {
       configured: true, // Mock configuration status
-      model: 'claude-3-sonnet-20240229'
+      model: MODEL_TIERS.balanced
     };
 
   } catch (error) {
@@ -100,7 +101,7 @@ export const POST = withErrorHandling(async (req: NextRequest) => {
   return successResponse({
     content: response.response,
     usage: response.usage,
-    model: 'claude-3-sonnet-20240229',
+    model: response.model,
     timestamp: new Date().toISOString()
   });
 });
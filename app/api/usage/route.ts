@@ -0,0 +1,20 @@
+import { NextResponse } from 'next/server';
+import { requireAuth } from '@/app/lib/middleware/auth';
+import { errorResponse, normalizeError } from '@/app/lib/middleware/error-handler';
+import { getUsageCustomerId } from '@/app/lib/middleware/usage-quota';
+import { usageMeteringService } from '@/app/lib/services/usageMeteringService';
+
+/**
+ * GET /api/usage
+ *
+ * Current billing period usage and remaining quota for the authenticated customer
+ */
+export const GET = requireAuth(async (_request, auth) => {
+  try {
+    const summary = await usageMeteringService.getUsageSummary(getUsageCustomerId(auth), auth.user.role);
+    return NextResponse.json({ success: true, data: summary });
+  } catch (error) {
+    console.error('❌ Failed to load usage summary:', error);
+    return errorResponse(normalizeError(error));
+  }
+});
@@ -0,0 +1,14 @@
+import { NextRequest } from 'next/server';
+import { receiveInboundWebhook } from '@/app/lib/webhooks/respond';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/webhook/core-resources
+ *
+ * Make.com callback URL handed out by webhookService.getWebhookUrl(); same as
+ * /api/webhooks/inbound/make-core-resources (signed with MAKE_WEBHOOK_SECRET).
+ */
+export async function POST(request: NextRequest) {
+  return receiveInboundWebhook(request, 'make-core-resources');
+}
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/app/lib/middleware/auth';
+import { errorResponse, normalizeError } from '@/app/lib/middleware/error-handler';
+import { getUsageCustomerId } from '@/app/lib/middleware/usage-quota';
+import outboundWebhookService from '@/app/lib/webhooks/outbound';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/webhooks/deliveries
+ *
+ * The caller's outbound webhook deliveries with every attempt, newest first
+ * (?endpointId=&limit=)
+ */
+export const GET = requireAuth(async (request: NextRequest, auth) => {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+
+    const deliveries = await outboundWebhookService.listDeliveries({
+      customerId: getUsageCustomerId(auth),
+      endpointId: searchParams.get('endpointId') || undefined,
+      limit: Math.min(Number(searchParams.get('limit')) || 50, 200)
+    });
+
+    return NextResponse.json({ success: true, data: deliveries });
+  } catch (error) {
+    console.error('❌ Failed to load webhook deliveries:', error);
+    return errorResponse(normalizeError(error));
+  }
+});
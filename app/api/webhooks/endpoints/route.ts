@@ -0,0 +1,112 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/app/lib/middleware/auth';
+import { errorResponse, normalizeError } from '@/app/lib/middleware/error-handler';
+import { getUsageCustomerId } from '@/app/lib/middleware/usage-quota';
+import outboundWebhookService, { redactEndpoint } from '@/app/lib/webhooks/outbound';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/webhooks/endpoints
+ *
+ * The caller's webhook endpoints (secrets redacted)
+ */
+export const GET = requireAuth(async (_request: NextRequest, auth) => {
+  try {
+    const endpoints = await outboundWebhookService.listEndpoints(getUsageCustomerId(auth));
+    return NextResponse.json({ success: true, data: endpoints.map(redactEndpoint) });
+  } catch (error) {
+    console.error('❌ Failed to load webhook endpoints:', error);
+    return errorResponse(normalizeError(error));
+  }
+});
+
+/**
+ * POST /api/webhooks/endpoints
+ *
+ * Create an endpoint (body: { url, events, description? }). The signing
+ * secret is only returned here and when it is rotated.
+ */
+export const POST = requireAuth(async (request: NextRequest, auth) => {
+  try {
+    const { url, events, description } = await request.json().catch(() => ({}));
+
+    if (!url || typeof url !== 'string') {
+      return NextResponse.json({ success: false, error: 'url is required' }, { status: 400 });
+    }
+
+    if (!Array.isArray(events)) {
+      return NextResponse.json({ success: false, error: 'events must be an array' }, { status: 400 });
+    }
+
+    const endpoint = await outboundWebhookService.createEndpoint(getUsageCustomerId(auth), {
+      url,
+      events,
+      description: typeof description === 'string' ? description : undefined
+    });
+
+    return NextResponse.json({ success: true, data: { endpoint: redactEndpoint(endpoint), secret: endpoint.secret } });
+  } catch (error) {
+    console.error('❌ Failed to create webhook endpoint:', error);
+    return errorResponse(normalizeError(error));
+  }
+});
+
+/**
+ * PATCH /api/webhooks/endpoints
+ *
+ * Update an endpoint (body: { endpointId, url?, events?, description?,
+ * active?, rotateSecret? }). Rotating returns the new secret.
+ */
+export const PATCH = requireAuth(async (request: NextRequest, auth) => {
+  try {
+    const { endpointId, url, events, description, active, rotateSecret } = await request.json().catch(() => ({}));
+
+    if (!endpointId || typeof endpointId !== 'string') {
+      return NextResponse.json({ success: false, error: 'endpointId is required' }, { status: 400 });
+    }
+
+    if (events !== undefined && !Array.isArray(events)) {
+      return NextResponse.json({ success: false, error: 'events must be an array' }, { status: 400 });
+    }
+
+    const customerId = getUsageCustomerId(auth);
+    let endpoint = await outboundWebhookService.updateEndpoint(customerId, endpointId, {
+      url: typeof url === 'string' ? url : undefined,
+      events,
+      description: typeof description === 'string' ? description : undefined,
+      active: typeof active === 'boolean' ? active : undefined
+    });
+
+    if (rotateSecret === true) {
+      endpoint = await outboundWebhookService.rotateSecret(customerId, endpointId);
+      return NextResponse.json({ success: true, data: { endpoint: redactEndpoint(endpoint), secret: endpoint.secret } });
+    }
+
+    return NextResponse.json({ success: true, data: { endpoint: redactEndpoint(endpoint) } });
+  } catch (error) {
+    console.error('❌ Failed to update webhook endpoint:', error);
+    return errorResponse(normalizeError(error));
+  }
+});
+
+/**
+ * DELETE /api/webhooks/endpoints?id=<endpointId>
+ *
+ * Remove an endpoint and its delivery history
+ */
+export const DELETE = requireAuth(async (request: NextRequest, auth) => {
+  try {
+    const endpointId = request.nextUrl.searchParams.get('id');
+
+    if (!endpointId) {
+      return NextResponse.json({ success: false, error: 'id is required' }, { status: 400 });
+    }
+
+    await outboundWebhookService.deleteEndpoint(getUsageCustomerId(auth), endpointId);
+    return NextResponse.json({ success: true, data: { endpointId } });
+  } catch (error) {
+    console.error('❌ Failed to delete webhook endpoint:', error);
+    return errorResponse(normalizeError(error));
+  }
+});
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/app/lib/middleware/auth';
+import { errorResponse, normalizeError } from '@/app/lib/middleware/error-handler';
+import { getUsageCustomerId } from '@/app/lib/middleware/usage-quota';
+import outboundWebhookService from '@/app/lib/webhooks/outbound';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/webhooks/endpoints/test
+ *
+ * Send a signed webhook_test event to one endpoint right away
+ * (body: { endpointId }) and return the delivery with its single attempt
+ */
+export const POST = requireAuth(async (request: NextRequest, auth) => {
+  try {
+    const { endpointId } = await request.json().catch(() => ({}));
+
+    if (!endpointId || typeof endpointId !== 'string') {
+      return NextResponse.json({ success: false, error: 'endpointId is required' }, { status: 400 });
+    }
+
+    const delivery = await outboundWebhookService.sendTestEvent(getUsageCustomerId(auth), endpointId);
+    return NextResponse.json({ success: true, data: delivery });
+  } catch (error) {
+    console.error('❌ Failed to send test webhook:', error);
+    return errorResponse(normalizeError(error));
+  }
+});
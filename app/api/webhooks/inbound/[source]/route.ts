@@ -0,0 +1,22 @@
+import { NextRequest } from 'next/server';
+import { receiveInboundWebhook } from '@/app/lib/webhooks/respond';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/webhooks/inbound/[source]
+ *
+ * Signed webhook deliveries from a registered source (see app/lib/webhooks/sources.ts):
+ *   x-webhook-id: delivery id, accepted once (replays answer 409)
+ *   x-webhook-timestamp: unix seconds, within the source's tolerance
+ *   x-webhook-signature: sha256=<hex HMAC-SHA256 of "<timestamp>.<id>.<raw body>"> with the source's secret
+ *
+ * Failed deliveries that are worth retrying answer 5xx.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ source: string }> }
+) {
+  const { source } = await params;
+  return receiveInboundWebhook(request, source);
+}
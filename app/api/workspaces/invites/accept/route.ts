@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/app/lib/middleware/auth';
+import { errorResponse, normalizeError } from '@/app/lib/middleware/error-handler';
+import { getWorkspacePermissions } from '@/app/lib/middleware/rbac';
+import workspaceService from '@/app/lib/workspaces/workspaceService';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/workspaces/invites/accept
+ *
+ * Join a workspace with the token from an invite link (body: { token }).
+ * The invite must have been sent to the signed-in user's email.
+ */
+export const POST = requireAuth(async (request: NextRequest, auth) => {
+  try {
+    const { token } = await request.json().catch(() => ({}));
+
+    if (!token || typeof token !== 'string') {
+      return NextResponse.json({ success: false, error: 'token is required' }, { status: 400 });
+    }
+
+    const membership = await workspaceService.acceptInvite(token, auth.user);
+    return NextResponse.json({
+      success: true,
+      data: { ...membership, permissions: getWorkspacePermissions(auth.user.role, membership.role) }
+    });
+  } catch (error) {
+    console.error('❌ Failed to accept workspace invite:', error);
+    return errorResponse(normalizeError(error));
+  }
+});
@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/app/lib/middleware/auth';
+import { errorResponse, normalizeError } from '@/app/lib/middleware/error-handler';
+import workspaceService from '@/app/lib/workspaces/workspaceService';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/workspaces/invites?workspaceId=<id>
+ *
+ * Pending invites (owners and admins)
+ */
+export const GET = requireAuth(async (request: NextRequest, auth) => {
+  try {
+    const workspaceId = request.nextUrl.searchParams.get('workspaceId');
+
+    if (!workspaceId) {
+      return NextResponse.json({ success: false, error: 'workspaceId is required' }, { status: 400 });
+    }
+
+    const invites = await workspaceService.listInvites(workspaceId, auth.user);
+    return NextResponse.json({ success: true, data: invites });
+  } catch (error) {
+    console.error('❌ Failed to load workspace invites:', error);
+    return errorResponse(normalizeError(error));
+  }
+});
+
+/**
+ * POST /api/workspaces/invites
+ *
+ * Invite someone (body: { workspaceId, email, role? }). Emails the join link
+ * and also returns it once, so it can be shared directly.
+ */
+export const POST = requireAuth(async (request: NextRequest, auth) => {
+  try {
+    const { workspaceId, email, role } = await request.json().catch(() => ({}));
+
+    if (!workspaceId || typeof workspaceId !== 'string') {
+      return NextResponse.json({ success: false, error: 'workspaceId is required' }, { status: 400 });
+    }
+
+    if (!email || typeof email !== 'string') {
+      return NextResponse.json({ success: false, error: 'email is required' }, { status: 400 });
+    }
+
+    const { invite, token } = await workspaceService.inviteMember(workspaceId, auth.user, { email, role });
+    const joinUrl = `${request.nextUrl.origin}/workspaces/join?token=${encodeURIComponent(token)}`;
+
+    let emailed = false;
+    try {
+      const { emailService } = await import('@/app/lib/services/email-service');
+      const response = await emailService.sendNotification(
+        invite.email,
+        'You have been invited to a workspace',
+        `${auth.user.email} invited you to join their workspace as ${invite.role}. The link expires in 7 days.`,
+        { actionUrl: joinUrl, actionText: 'Join workspace' }
+      );
+      emailed = response.status !== 'failed';
+    } catch (error) {
+      console.warn(`⚠️ Invite email to ${invite.email} failed, share the link instead:`, error);
+    }
+
+    return NextResponse.json({ success: true, data: { invite, joinUrl, emailed } });
+  } catch (error) {
+    console.error('❌ Failed to invite workspace member:', error);
+    return errorResponse(normalizeError(error));
+  }
+});
+
+/**
+ * DELETE /api/workspaces/invites?workspaceId=<id>&id=<inviteId>
+ *
+ * Revoke a pending invite
+ */
+export const DELETE = requireAuth(async (request: NextRequest, auth) => {
+  try {
+    const workspaceId = request.nextUrl.searchParams.get('workspaceId');
+    const inviteId = request.nextUrl.searchParams.get('id');
+
+    if (!workspaceId || !inviteId) {
+      return NextResponse.json({ success: false, error: 'workspaceId and id are required' }, { status: 400 });
+    }
+
+    await workspaceService.revokeInvite(workspaceId, auth.user, inviteId);
+    return NextResponse.json({ success: true, data: { inviteId } });
+  } catch (error) {
+    console.error('❌ Failed to revoke workspace invite:', error);
+    return errorResponse(normalizeError(error));
+  }
+});
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/app/lib/middleware/auth';
+import { errorResponse, normalizeError } from '@/app/lib/middleware/error-handler';
+import workspaceService from '@/app/lib/workspaces/workspaceService';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/workspaces/members?workspaceId=<id>
+ *
+ * Members of a workspace the caller belongs to
+ */
+export const GET = requireAuth(async (request: NextRequest, auth) => {
+  try {
+    const workspaceId = request.nextUrl.searchParams.get('workspaceId');
+
+    if (!workspaceId) {
+      return NextResponse.json({ success: false, error: 'workspaceId is required' }, { status: 400 });
+    }
+
+    const members = await workspaceService.listMembers(workspaceId, auth.user);
+    return NextResponse.json({ success: true, data: members });
+  } catch (error) {
+    console.error('❌ Failed to load workspace members:', error);
+    return errorResponse(normalizeError(error));
+  }
+});
+
+/**
+ * PATCH /api/workspaces/members
+ *
+ * Change a member's workspace role (body: { workspaceId, userId, role })
+ */
+export const PATCH = requireAuth(async (request: NextRequest, auth) => {
+  try {
+    const { workspaceId, userId, role } = await request.json().catch(() => ({}));
+
+    if (!workspaceId || !userId || !role) {
+      return NextResponse.json({ success: false, error: 'workspaceId, userId and role are required' }, { status: 400 });
+    }
+
+    const member = await workspaceService.updateMemberRole(workspaceId, auth.user, userId, role);
+    return NextResponse.json({ success: true, data: member });
+  } catch (error) {
+    console.error('❌ Failed to update workspace member:', error);
+    return errorResponse(normalizeError(error));
+  }
+});
+
+/**
+ * DELETE /api/workspaces/members?workspaceId=<id>&userId=<id>
+ *
+ * Remove a member, or leave the workspace when userId is the caller
+ */
+export const DELETE = requireAuth(async (request: NextRequest, auth) => {
+  try {
+    const workspaceId = request.nextUrl.searchParams.get('workspaceId');
+    const userId = request.nextUrl.searchParams.get('userId') || auth.user.id;
+
+    if (!workspaceId) {
+      return NextResponse.json({ success: false, error: 'workspaceId is required' }, { status: 400 });
+    }
+
+    await workspaceService.removeMember(workspaceId, auth.user, userId);
+    return NextResponse.json({ success: true, data: { workspaceId, userId } });
+  } catch (error) {
+    console.error('❌ Failed to remove workspace member:', error);
+    return errorResponse(normalizeError(error));
+  }
+});
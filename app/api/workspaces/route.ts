@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/app/lib/middleware/auth';
+import { errorResponse, normalizeError } from '@/app/lib/middleware/error-handler';
+import { getWorkspacePermissions } from '@/app/lib/middleware/rbac';
+import workspaceService from '@/app/lib/workspaces/workspaceService';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/workspaces
+ *
+ * Workspaces the caller belongs to, with their role and permissions in each
+ */
+export const GET = requireAuth(async (_request: NextRequest, auth) => {
+  try {
+    const memberships = await workspaceService.listWorkspaces(auth.user.id);
+    return NextResponse.json({
+      success: true,
+      data: memberships.map(membership => ({
+        ...membership,
+        permissions: getWorkspacePermissions(auth.user.role, membership.role)
+      }))
+    });
+  } catch (error) {
+    console.error('❌ Failed to load workspaces:', error);
+    return errorResponse(normalizeError(error));
+  }
+});
+
+/**
+ * POST /api/workspaces
+ *
+ * Create a workspace (body: { name }); the caller becomes its owner
+ */
+export const POST = requireAuth(async (request: NextRequest, auth) => {
+  try {
+    const { name } = await request.json().catch(() => ({}));
+
+    if (!name || typeof name !== 'string') {
+      return NextResponse.json({ success: false, error: 'name is required' }, { status: 400 });
+    }
+
+    const membership = await workspaceService.createWorkspace(auth.user, name);
+    return NextResponse.json({
+      success: true,
+      data: { ...membership, permissions: getWorkspacePermissions(auth.user.role, membership.role) }
+    });
+  } catch (error) {
+    console.error('❌ Failed to create workspace:', error);
+    return errorResponse(normalizeError(error));
+  }
+});
+
+/**
+ * PATCH /api/workspaces
+ *
+ * Rename a workspace (body: { workspaceId, name })
+ */
+export const PATCH = requireAuth(async (request: NextRequest, auth) => {
+  try {
+    const { workspaceId, name } = await request.json().catch(() => ({}));
+
+    if (!workspaceId || typeof workspaceId !== 'string') {
+      return NextResponse.json({ success: false, error: 'workspaceId is required' }, { status: 400 });
+    }
+
+    const workspace = await workspaceService.renameWorkspace(workspaceId, auth.user, name);
+    return NextResponse.json({ success: true, data: workspace });
+  } catch (error) {
+    console.error('❌ Failed to rename workspace:', error);
+    return errorResponse(normalizeError(error));
+  }
+});
+
+/**
+ * DELETE /api/workspaces?id=<workspaceId>
+ *
+ * Delete a workspace with its memberships and invites (owners only)
+ */
+export const DELETE = requireAuth(async (request: NextRequest, auth) => {
+  try {
+    const workspaceId = request.nextUrl.searchParams.get('id');
+
+    if (!workspaceId) {
+      return NextResponse.json({ success: false, error: 'id is required' }, { status: 400 });
+    }
+
+    await workspaceService.deleteWorkspace(workspaceId, auth.user);
+    return NextResponse.json({ success: true, data: { workspaceId } });
+  } catch (error) {
+    console.error('❌ Failed to delete workspace:', error);
+    return errorResponse(normalizeError(error));
+  }
+});
@@ -0,0 +1,108 @@
+import Link from 'next/link'
+import { redirect } from 'next/navigation'
+import { createClient } from '@/app/lib/supabase/server'
+import assessmentAttempts from '@/app/lib/assessments/attemptService'
+import type { BankQuestion } from '@/app/lib/assessments/questionBank'
+import assessmentService from '@/app/lib/services/AssessmentService'
+import { answerQuestionAction, startAssessmentAction } from '@/app/actions/assessment'
+
+export const dynamic = 'force-dynamic'
+
+function QuestionForm({ attemptId, question }: { attemptId: string; question: BankQuestion }) {
+  const choices = question.type === 'multiple_choice'
+    ? (question.options || []).map(option => ({ value: option.value, label: option.text }))
+    : Array.from({ length: question.scale!.max - question.scale!.min + 1 }, (_, index) => {
+        const value = question.scale!.min + index
+        const labels = question.scale!.labels
+        // Spread the labels over the scale; unlabelled points show their number
+        const labelIndex = (index * (labels.length - 1)) / (question.scale!.max - question.scale!.min)
+        return { value, label: Number.isInteger(labelIndex) ? `${value} - ${labels[labelIndex]}` : String(value) }
+      })
+
+  return (
+    <form action={answerQuestionAction} className="space-y-4">
+      <input type="hidden" name="attemptId" value={attemptId} />
+      <input type="hidden" name="questionId" value={question.id} />
+      <fieldset className={question.type === 'scale' ? 'flex flex-wrap gap-3' : 'space-y-2'}>
+        <legend className="heading-4 text-text-primary mb-4">{question.question}</legend>
+        {choices.map(choice => (
+          <label key={choice.value} className="flex items-center gap-2 body text-text-primary cursor-pointer">
+            <input type="radio" name="value" value={choice.value} required />
+            {choice.label}
+          </label>
+        ))}
+      </fieldset>
+      <button type="submit" className="px-4 py-2 rounded-md text-white" style={{ background: 'var(--color-primary)' }}>
+        Next
+      </button>
+    </form>
+  )
+}
+
+export default async function SkillsAssessmentPage({
+  searchParams
+}: {
+  searchParams: Promise<{ error?: string }>
+}) {
+  const supabase = await createClient()
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    redirect('/login')
+  }
+
+  const { error } = await searchParams
+  const current = await assessmentAttempts.getCurrentAttempt(user.id)
+  const completed = (await assessmentAttempts.listAttempts(user.id)).filter(attempt => attempt.status === 'completed')
+  const latest = completed[0]
+  const categories = assessmentService.getCompetencyCategories()
+
+  return (
+    <div className="min-h-screen p-8" style={{ background: 'var(--background-primary)' }}>
+      <div className="max-w-2xl mx-auto rounded-lg shadow p-6 space-y-6" style={{ background: 'var(--surface)' }}>
+        <h1 className="heading-3 text-text-primary">Competency assessment</h1>
+
+        {error && <p className="body-small text-red-500">{error}</p>}
+
+        {current?.nextQuestion ? (
+          <>
+            <p className="body-small text-text-muted">
+              Question {current.answeredCount + 1} of at least {current.answeredCount + current.remainingCount}
+              {current.attempt.previousAttemptId ? ' (retake)' : ''}
+            </p>
+            <QuestionForm attemptId={current.attempt.id} question={current.nextQuestion} />
+          </>
+        ) : (
+          <>
+            {latest ? (
+              <div className="space-y-3">
+                <p className="body text-text-primary">
+                  Your latest score is <strong>{latest.overallScore}/100</strong>
+                  <span className="text-text-muted"> ({new Date(latest.completedAt!).toLocaleDateString()})</span>
+                </p>
+                <ul className="space-y-1 body-small text-text-primary">
+                  {categories.map(category => (
+                    <li key={category.id}>{category.name}: {latest.scores![category.id]}/100</li>
+                  ))}
+                </ul>
+                <Link href={`/assessment/skills/report?after=${latest.id}`} className="body-small underline text-text-muted">
+                  {latest.previousAttemptId ? 'Compare with your previous attempt' : 'View report'}
+                </Link>
+              </div>
+            ) : (
+              <p className="body text-text-muted">
+                About 12 questions on customer analysis, value communication and sales execution. Follow-up
+                questions depend on your answers.
+              </p>
+            )}
+            <form action={startAssessmentAction}>
+              <button type="submit" className="px-4 py-2 rounded-md text-white" style={{ background: 'var(--color-primary)' }}>
+                {latest ? 'Retake assessment' : 'Start assessment'}
+              </button>
+            </form>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
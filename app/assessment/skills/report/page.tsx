@@ -0,0 +1,116 @@
+import Link from 'next/link'
+import { redirect } from 'next/navigation'
+import { createClient } from '@/app/lib/supabase/server'
+import assessmentAttempts from '@/app/lib/assessments/attemptService'
+import assessmentService from '@/app/lib/services/AssessmentService'
+
+export const dynamic = 'force-dynamic'
+
+function Delta({ value }: { value?: number }) {
+  if (value === undefined) return <span className="text-text-muted">—</span>
+  const color = value > 0 ? 'text-green-500' : value < 0 ? 'text-red-500' : 'text-text-muted'
+  return <span className={color}>{value > 0 ? `+${value}` : value}</span>
+}
+
+export default async function AssessmentReportPage({
+  searchParams
+}: {
+  searchParams: Promise<{ before?: string; after?: string }>
+}) {
+  const supabase = await createClient()
+  const { data: { user }, error } = await supabase.auth.getUser()
+
+  if (error || !user) {
+    redirect('/login')
+  }
+
+  const { before, after } = await searchParams
+  const attempts = await assessmentAttempts.listAttempts(user.id)
+  const attempt = attempts.find(entry => entry.id === after && entry.status === 'completed')
+    ?? attempts.find(entry => entry.status === 'completed')
+  const categoryNames = Object.fromEntries(assessmentService.getCompetencyCategories().map(category => [category.id, category.name]))
+
+  if (!attempt) {
+    redirect('/assessment/skills')
+  }
+
+  const report = before || attempt.previousAttemptId
+    ? await assessmentAttempts.compareAttempts(user.id, before, attempt.id)
+    : null
+
+  return (
+    <div className="min-h-screen p-8" style={{ background: 'var(--background-primary)' }}>
+      <div className="max-w-3xl mx-auto rounded-lg shadow p-6 space-y-6" style={{ background: 'var(--surface)' }}>
+        <h1 className="heading-3 text-text-primary">Assessment report</h1>
+
+        {report ? (
+          <>
+            <p className="body text-text-primary">
+              Overall {report.before.overallScore} → <strong>{report.after.overallScore}</strong> (<Delta value={report.overallDelta} />)
+              <span className="text-text-muted">
+                {' '}between {new Date(report.before.completedAt).toLocaleDateString()} and {new Date(report.after.completedAt).toLocaleDateString()}
+              </span>
+            </p>
+
+            <table className="w-full body-small text-text-primary">
+              <thead>
+                <tr className="text-left text-text-muted">
+                  <th className="py-1 pr-3">Competency</th>
+                  <th className="py-1 pr-3">Before</th>
+                  <th className="py-1 pr-3">After</th>
+                  <th className="py-1">Change</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.categories.map(entry => (
+                  <tr key={entry.category} className="border-t" style={{ borderColor: 'var(--border-subtle)' }}>
+                    <td className="py-2 pr-3">{categoryNames[entry.category]}</td>
+                    <td className="py-2 pr-3">{entry.before}</td>
+                    <td className="py-2 pr-3">{entry.after}</td>
+                    <td className="py-2"><Delta value={entry.delta} /></td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            <table className="w-full body-small text-text-primary">
+              <thead>
+                <tr className="text-left text-text-muted">
+                  <th className="py-1 pr-3">Question</th>
+                  <th className="py-1 pr-3">Before</th>
+                  <th className="py-1 pr-3">After</th>
+                  <th className="py-1">Change</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.questions.map(entry => (
+                  <tr key={entry.questionId} className="border-t align-top" style={{ borderColor: 'var(--border-subtle)' }}>
+                    <td className="py-2 pr-3">
+                      {entry.question}
+                      {!entry.sameVersion && <span className="block text-xs text-text-muted">Reworded since your earlier attempt</span>}
+                    </td>
+                    <td className="py-2 pr-3">{entry.before ?? 'Not asked'}</td>
+                    <td className="py-2 pr-3">{entry.after ?? 'Not asked'}</td>
+                    <td className="py-2"><Delta value={entry.delta} /></td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </>
+        ) : (
+          <>
+            <p className="body text-text-primary">Overall score: <strong>{attempt.overallScore}/100</strong></p>
+            <ul className="space-y-1 body-small text-text-primary">
+              {attempt.categoryScores!.map(entry => (
+                <li key={entry.category}>{categoryNames[entry.category]}: {entry.score}/100 ({entry.answered} questions)</li>
+              ))}
+            </ul>
+            <p className="body-small text-text-muted">Retake the assessment later to see how your scores change.</p>
+          </>
+        )}
+
+        <Link href="/assessment/skills" className="body-small underline text-text-muted">Back to the assessment</Link>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,30 @@
+import { redirect } from 'next/navigation'
+import { createClient } from '@/app/lib/supabase/server'
+import { BusinessCaseVersionHistory } from '@/src/features/cost-business-case/business-case/BusinessCaseVersionHistory'
+
+export default async function BusinessCaseHistoryPage({
+  searchParams
+}: {
+  searchParams: Promise<{ id?: string }>
+}) {
+  const supabase = await createClient()
+  const { data: { user }, error } = await supabase.auth.getUser()
+
+  if (error || !user) {
+    redirect('/login')
+  }
+
+  const { id } = await searchParams
+
+  return (
+    <div className="min-h-screen p-8" style={{ background: 'var(--background-primary)' }}>
+      <div className="max-w-5xl mx-auto rounded-lg shadow p-6" style={{ background: 'var(--surface)' }}>
+        <h1 className="heading-3 text-text-primary mb-6">Business case history</h1>
+
+        {id
+          ? <BusinessCaseVersionHistory caseId={id} />
+          : <p className="body text-red-500">No business case selected.</p>}
+      </div>
+    </div>
+  )
+}
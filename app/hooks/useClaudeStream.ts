@@ -0,0 +1,158 @@
+/**
+ * useClaudeStream Hook
+ *
+ * React hook that streams a Claude response from `/api/ai/stream` and
+ * exposes the text as it arrives. EventSource cannot POST, so the
+ * `text/event-stream` body is read from fetch.
+ *
+ * @module hooks/useClaudeStream
+ */
+
+import { useState, useCallback, useRef, useEffect } from 'react';
+import { readServerSentEvents } from '@/app/lib/events/sse-reader';
+import type { ClaudeMessage } from '@/app/lib/services/claudeAIService';
+import type { ClaudeOperation } from '@/app/lib/services/claudeModelRouting';
+
+// ============================================================================
+// TypeScript Types & Interfaces
+// ============================================================================
+
+export interface ClaudeStreamRequest {
+  operation?: ClaudeOperation;
+  prompt?: string;
+  messages?: ClaudeMessage[];
+  /** Registered prompt to render server-side instead of `prompt` */
+  template?: {
+    id: string;
+    version?: number;
+    variables: Record<string, string>;
+  };
+  systemPrompt?: string;
+  maxTokens?: number;
+  temperature?: number;
+}
+
+export interface UseClaudeStreamOptions {
+  /**
+   * Streaming endpoint
+   * @default '/api/ai/stream'
+   */
+  streamUrl?: string;
+
+  /** Called with each text delta */
+  onToken?: (token: string) => void;
+}
+
+export interface UseClaudeStreamReturn {
+  /** Text received so far */
+  text: string;
+  isStreaming: boolean;
+  error: string | null;
+  /** Model that produced the response, once done */
+  model: string | null;
+  /** Start a stream; resolves with the full text (rejects on failure) */
+  start: (request: ClaudeStreamRequest) => Promise<string>;
+  /** Abort the current stream, keeping the text received so far */
+  cancel: () => void;
+  reset: () => void;
+}
+
+// ============================================================================
+// Main Hook Implementation
+// ============================================================================
+
+/**
+ * @example
+ * ```typescript
+ * const { text, isStreaming, start } = useClaudeStream();
+ * await start({ operation: 'technical_translation', prompt });
+ * ```
+ */
+export function useClaudeStream(options: UseClaudeStreamOptions = {}): UseClaudeStreamReturn {
+  const { streamUrl = '/api/ai/stream', onToken } = options;
+
+  const [text, setText] = useState('');
+  const [isStreaming, setIsStreaming] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [model, setModel] = useState<string | null>(null);
+
+  const abortRef = useRef<AbortController | null>(null);
+  const onTokenRef = useRef(onToken);
+
+  useEffect(() => {
+    onTokenRef.current = onToken;
+  }, [onToken]);
+
+  // Abort an in-flight stream on unmount
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const start = useCallback(async (request: ClaudeStreamRequest): Promise<string> => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    setText('');
+    setError(null);
+    setModel(null);
+    setIsStreaming(true);
+
+    let received = '';
+
+    try {
+      const response = await fetch(streamUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(request),
+        signal: controller.signal
+      });
+
+      if (!response.ok || !response.body) {
+        const body = await response.json().catch(() => ({}));
+        throw new Error(body.error?.message || body.error || `Stream request failed: ${response.status}`);
+      }
+
+      for await (const event of readServerSentEvents(response.body)) {
+        const data = JSON.parse(event.data);
+
+        if (event.event === 'token') {
+          received += data.text;
+          setText(received);
+          onTokenRef.current?.(data.text);
+        } else if (event.event === 'done') {
+          setModel(data.model);
+        } else if (event.event === 'error') {
+          throw new Error(data.error || 'Stream failed');
+        }
+      }
+
+      return received;
+    } catch (err) {
+      if (controller.signal.aborted) {
+        return received;
+      }
+      const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred';
+      setError(errorMessage);
+      throw err;
+    } finally {
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+        setIsStreaming(false);
+      }
+    }
+  }, [streamUrl]);
+
+  const cancel = useCallback(() => {
+    abortRef.current?.abort();
+  }, []);
+
+  const reset = useCallback(() => {
+    abortRef.current?.abort();
+    setText('');
+    setError(null);
+    setModel(null);
+  }, []);
+
+  return { text, isStreaming, error, model, start, cancel, reset };
+}
+
+export default useClaudeStream;
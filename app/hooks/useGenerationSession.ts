@@ -0,0 +1,181 @@
+/**
+ * useGenerationSession Hook
+ *
+ * Follows a core-resources generation session stored on the server. Given a
+ * session id (e.g. from a shared link) it resumes that session; without one it
+ * picks up the caller's newest in-flight session, so a generation started on
+ * one device can be followed and collected on another.
+ *
+ * @module hooks/useGenerationSession
+ */
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import type { GenerationSession, ProductData } from '@/app/lib/services/webhookService';
+
+// ============================================================================
+// TypeScript Types & Interfaces
+// ============================================================================
+
+export type GenerationSessionView = Omit<GenerationSession, 'deliveryIds'>;
+
+export interface UseGenerationSessionOptions {
+  /** Session to resume; omit to resume the newest in-flight session */
+  sessionId?: string | null;
+
+  /**
+   * Polling interval while the session is processing
+   * @default 5000
+   */
+  pollInterval?: number;
+}
+
+export interface UseGenerationSessionReturn {
+  session: GenerationSessionView | null;
+  isLoading: boolean;
+  isProcessing: boolean;
+  error: string | null;
+  /** Start a new session; resolves to its id, or null when starting failed */
+  start: (productData?: Omit<ProductData, 'customerId'>) => Promise<string | null>;
+  /** Follow another session by id */
+  resume: (sessionId: string) => Promise<void>;
+  refresh: () => Promise<void>;
+}
+
+async function fetchSession(sessionId: string): Promise<GenerationSessionView> {
+  const response = await fetch(`/api/generation/sessions?id=${encodeURIComponent(sessionId)}`);
+  const body = await response.json().catch(() => ({}));
+
+  if (!response.ok || !body.success) {
+    throw new Error(body.error || `Failed to load generation session: ${response.status}`);
+  }
+
+  return body.data;
+}
+
+// ============================================================================
+// Main Hook Implementation
+// ============================================================================
+
+/**
+ * @example
+ * ```typescript
+ * const { session, start, isProcessing } = useGenerationSession({ sessionId: searchParams.get('session') });
+ * const id = await start({ productName, productDescription });
+ * // ...share `?session=${id}`; session.resources is set once Make.com calls back
+ * ```
+ */
+export function useGenerationSession(options: UseGenerationSessionOptions = {}): UseGenerationSessionReturn {
+  const { sessionId: initialSessionId, pollInterval = 5000 } = options;
+
+  const [sessionId, setSessionId] = useState<string | null>(initialSessionId ?? null);
+  const [session, setSession] = useState<GenerationSessionView | null>(null);
+  const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const timerRef = useRef<NodeJS.Timeout | null>(null);
+
+  const load = useCallback(async (id: string) => {
+    try {
+      const next = await fetchSession(id);
+      setSession(next);
+      setError(null);
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : 'Failed to load generation session');
+    }
+  }, []);
+
+  // Resume the requested session, or look for the newest in-flight one
+  useEffect(() => {
+    let cancelled = false;
+
+    const resumeInitial = async () => {
+      setIsLoading(true);
+      try {
+        if (initialSessionId) {
+          setSessionId(initialSessionId);
+          await load(initialSessionId);
+          return;
+        }
+
+        const response = await fetch('/api/generation/sessions');
+        const body = await response.json().catch(() => ({}));
+        const inFlight = (body.data as GenerationSessionView[] | undefined)?.find(entry => entry.status === 'processing');
+
+        if (!cancelled && inFlight) {
+          setSessionId(inFlight.id);
+          await load(inFlight.id);
+        }
+      } catch (resumeError) {
+        console.warn('Could not look up generation sessions:', resumeError);
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    resumeInitial();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [initialSessionId, load]);
+
+  // Poll while the session is processing
+  useEffect(() => {
+    if (!sessionId || session?.status !== 'processing') return;
+
+    timerRef.current = setTimeout(() => load(sessionId), pollInterval);
+
+    return () => {
+      if (timerRef.current) clearTimeout(timerRef.current);
+    };
+  }, [sessionId, session, pollInterval, load]);
+
+  const start = useCallback(async (productData?: Omit<ProductData, 'customerId'>): Promise<string | null> => {
+    setIsLoading(true);
+    try {
+      const response = await fetch('/api/generation/sessions', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ productData })
+      });
+      const body = await response.json().catch(() => ({}));
+
+      if (!response.ok || !body.success) {
+        throw new Error(body.error || `Failed to start generation: ${response.status}`);
+      }
+
+      setSessionId(body.data.session.id);
+      setSession(body.data.session);
+      setError(null);
+      return body.data.session.id;
+    } catch (startError) {
+      setError(startError instanceof Error ? startError.message : 'Failed to start generation');
+      return null;
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  const resume = useCallback(async (id: string) => {
+    setSessionId(id);
+    setSession(null);
+    setIsLoading(true);
+    await load(id);
+    setIsLoading(false);
+  }, [load]);
+
+  const refresh = useCallback(async () => {
+    if (sessionId) await load(sessionId);
+  }, [sessionId, load]);
+
+  return {
+    session,
+    isLoading,
+    isProcessing: session?.status === 'processing',
+    error,
+    start,
+    resume,
+    refresh
+  };
+}
+
+export default useGenerationSession;
@@ -0,0 +1,314 @@
+/**
+ * useLiveJob Hook
+ *
+ * React hook that follows a job or export through Server-Sent Events
+ * (`/api/events/stream`) and falls back to polling when the stream is
+ * unavailable (no EventSource support, auth/proxy errors, dropped connection
+ * before the first update).
+ *
+ * Drop-in replacement for useJobStatus: same options and return value plus
+ * the active `transport`.
+ *
+ * @module hooks/useLiveJob
+ */
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import {
+  useJobStatus,
+  JobResult,
+  JobStatus,
+  JobStatusData,
+  UseJobStatusOptions,
+  UseJobStatusReturn
+} from './useJobStatus';
+import {
+  LiveUpdate,
+  backendExportToLiveUpdate,
+  isTerminalStatus
+} from '@/app/lib/events/live-updates';
+
+// ============================================================================
+// TypeScript Types & Interfaces
+// ============================================================================
+
+/**
+ * What is being followed: a queue job or an export
+ */
+export type LiveJobSource = 'job' | 'export';
+
+/**
+ * How updates are currently received
+ */
+export type LiveJobTransport = 'sse' | 'polling';
+
+export interface UseLiveJobOptions extends UseJobStatusOptions {
+  /**
+   * @default 'job'
+   */
+  source?: LiveJobSource;
+
+  /**
+   * Customer owning the export (needed by the export status polling fallback)
+   */
+  customerId?: string;
+
+  /**
+   * SSE endpoint
+   * @default '/api/events/stream'
+   */
+  streamUrl?: string;
+}
+
+export interface UseLiveJobReturn extends UseJobStatusReturn {
+  /** Active transport, null until a job is followed */
+  transport: LiveJobTransport | null;
+}
+
+/**
+ * Build the status payload useJobStatus consumers expect from a live update
+ */
+function toJobStatusData(update: LiveUpdate): JobStatusData {
+  return {
+    jobId: update.id,
+    queueName: update.type,
+    status: update.status as JobStatus,
+    progress: update.progress ?? 0,
+    data: { customerId: '', submittedAt: '' },
+    result: (update.result as JobResult) ?? null,
+    failedReason: update.error ?? null,
+    attemptsMade: 0,
+    timestamp: update.timestamp,
+    processedOn: null,
+    finishedOn: isTerminalStatus(update.status) ? update.timestamp : null
+  };
+}
+
+// ============================================================================
+// Main Hook Implementation
+// ============================================================================
+
+/**
+ * @example
+ * ```typescript
+ * const { status, progress, transport } = useLiveJob(jobId, {
+ *   onComplete: (result) => console.log('Rating ready', result.rating),
+ *   onError: (error) => toast.error(error)
+ * });
+ * ```
+ */
+export function useLiveJob(
+  jobId: string | null,
+  options: UseLiveJobOptions = {}
+): UseLiveJobReturn {
+  const {
+    source = 'job',
+    customerId,
+    streamUrl = '/api/events/stream',
+    pollInterval = 2000,
+    maxAttempts = 150,
+    autoStart = true,
+    onComplete,
+    onError,
+    onStatusUpdate
+  } = options;
+
+  const [transport, setTransport] = useState<LiveJobTransport | null>(null);
+  const [status, setStatus] = useState<JobStatus | null>(null);
+  const [progress, setProgress] = useState<number>(0);
+  const [result, setResult] = useState<JobResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [jobData, setJobData] = useState<JobStatusData | null>(null);
+  const [connection, setConnection] = useState<number>(0); // Bumped to reconnect
+
+  const eventSourceRef = useRef<EventSource | null>(null);
+  const callbacksRef = useRef({ onComplete, onError, onStatusUpdate });
+
+  useEffect(() => {
+    callbacksRef.current = { onComplete, onError, onStatusUpdate };
+  }, [onComplete, onError, onStatusUpdate]);
+
+  const closeStream = useCallback(() => {
+    eventSourceRef.current?.close();
+    eventSourceRef.current = null;
+  }, []);
+
+  /**
+   * Apply an update received over SSE or export polling
+   */
+  const applyUpdate = useCallback((update: LiveUpdate) => {
+    const data = toJobStatusData(update);
+
+    setJobData(data);
+    if (update.status) setStatus(update.status);
+    if (update.progress !== undefined) setProgress(update.progress);
+    callbacksRef.current.onStatusUpdate?.(data);
+
+    if (update.status === 'completed') {
+      setResult(data.result);
+      closeStream();
+      if (data.result) {
+        callbacksRef.current.onComplete?.(data.result);
+      }
+    } else if (update.status === 'failed') {
+      const errorMessage = update.error || 'Job failed with unknown error';
+      setError(errorMessage);
+      closeStream();
+      callbacksRef.current.onError?.(errorMessage);
+    }
+  }, [closeStream]);
+
+  // Open the stream, or go straight to polling without EventSource support
+  useEffect(() => {
+    setStatus(null);
+    setProgress(0);
+    setResult(null);
+    setError(null);
+    setJobData(null);
+
+    if (!jobId || !autoStart) {
+      setTransport(null);
+      return;
+    }
+
+    if (typeof window === 'undefined' || typeof EventSource === 'undefined') {
+      setTransport('polling');
+      return;
+    }
+
+    let received = false;
+    const eventSource = new EventSource(`${streamUrl}?${source}=${encodeURIComponent(jobId)}`);
+    eventSourceRef.current = eventSource;
+    setTransport('sse');
+
+    eventSource.addEventListener(source, (message) => {
+      try {
+        const update: LiveUpdate = JSON.parse((message as MessageEvent).data);
+        if (update.id !== jobId) return;
+
+        // The server could not reach the backend for us; poll directly instead
+        if (update.type === 'relay_error') {
+          eventSource.close();
+          setTransport('polling');
+          return;
+        }
+
+        received = true;
+        applyUpdate(update);
+      } catch (parseError) {
+        console.error('[useLiveJob] Invalid stream message:', parseError);
+      }
+    });
+
+    eventSource.onerror = () => {
+      // EventSource reconnects on its own once it has worked; fall back if it never did
+      if (!received || eventSource.readyState === EventSource.CLOSED) {
+        console.warn('[useLiveJob] Event stream unavailable, falling back to polling');
+        eventSource.close();
+        setTransport('polling');
+      }
+    };
+
+    return () => {
+      eventSource.close();
+      if (eventSourceRef.current === eventSource) {
+        eventSourceRef.current = null;
+      }
+    };
+  }, [jobId, source, streamUrl, autoStart, connection, applyUpdate]);
+
+  // Job polling fallback reuses useJobStatus
+  const polled = useJobStatus(transport === 'polling' && source === 'job' ? jobId : null, {
+    pollInterval,
+    maxAttempts,
+    onComplete,
+    onError,
+    onStatusUpdate,
+    autoStart: true
+  });
+
+  // Export polling fallback against /api/export/status
+  useEffect(() => {
+    if (transport !== 'polling' || source !== 'export' || !jobId) return;
+
+    let attempts = 0;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    let cancelled = false;
+
+    const poll = async () => {
+      attempts += 1;
+
+      try {
+        const query = customerId ? `?customerId=${encodeURIComponent(customerId)}` : '';
+        const response = await fetch(`/api/export/status/${encodeURIComponent(jobId)}${query}`);
+        const body = await response.json().catch(() => ({}));
+
+        if (!response.ok) {
+          throw new Error(body.error || `Failed to fetch export status: ${response.status}`);
+        }
+
+        if (cancelled) return;
+        const update = backendExportToLiveUpdate(jobId, body);
+        applyUpdate(update);
+
+        if (isTerminalStatus(update.status)) return;
+      } catch (err) {
+        if (cancelled) return;
+        const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred';
+        setError(errorMessage);
+        callbacksRef.current.onError?.(errorMessage);
+        return;
+      }
+
+      if (attempts >= maxAttempts) {
+        setError('Job status polling timed out');
+        callbacksRef.current.onError?.('Job status polling timed out');
+        return;
+      }
+
+      timer = setTimeout(poll, pollInterval);
+    };
+
+    poll();
+
+    return () => {
+      cancelled = true;
+      if (timer) clearTimeout(timer);
+    };
+  }, [transport, source, jobId, customerId, pollInterval, maxAttempts, applyUpdate]);
+
+  const startPolling = useCallback(() => {
+    closeStream();
+    setTransport('polling');
+  }, [closeStream]);
+
+  const stopPolling = useCallback(() => {
+    closeStream();
+    setTransport(null);
+  }, [closeStream]);
+
+  const retry = useCallback(() => {
+    setConnection(count => count + 1);
+  }, []);
+
+  if (transport === 'polling' && source === 'job') {
+    return { ...polled, transport };
+  }
+
+  return {
+    status,
+    progress,
+    result,
+    error,
+    jobData,
+    isPolling: transport === 'polling' && !isTerminalStatus(status ?? undefined) && !error,
+    isLoading: status === 'waiting' || status === 'active',
+    isComplete: status === 'completed',
+    isFailed: status === 'failed',
+    startPolling,
+    stopPolling,
+    retry,
+    transport
+  };
+}
+
+export default useLiveJob;
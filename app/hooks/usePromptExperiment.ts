@@ -0,0 +1,102 @@
+/**
+ * usePromptExperiment Hook
+ *
+ * Asks which version(s) of a registered prompt to run for a request and
+ * reports the user's pick when two versions are compared side by side.
+ * Assignment failures fall back to the prompt's default version, so an
+ * experiment outage never blocks generation.
+ *
+ * @module hooks/usePromptExperiment
+ */
+
+import { useState, useCallback } from 'react';
+import type { PromptAssignment, PromptOutcomeAction } from '@/app/lib/services/promptExperimentService';
+
+// ============================================================================
+// TypeScript Types & Interfaces
+// ============================================================================
+
+export interface UsePromptExperimentReturn {
+  /** Current assignment; `versions` has two entries when comparing */
+  assignment: PromptAssignment | null;
+  isComparing: boolean;
+  /** The pick recorded for the current comparison */
+  outcome: { version: number; action: PromptOutcomeAction } | null;
+  /** Versions to run; an empty list means the default version */
+  assign: (templateId: string, requestKey?: string) => Promise<PromptAssignment>;
+  /** Record the user's pick; a no-op outside a comparison */
+  recordOutcome: (version: number, action: PromptOutcomeAction) => Promise<void>;
+  reset: () => void;
+}
+
+// ============================================================================
+// Main Hook Implementation
+// ============================================================================
+
+/**
+ * @example
+ * ```typescript
+ * const experiment = usePromptExperiment();
+ * const { versions } = await experiment.assign('translation.narrative');
+ * // ...run each version, then when the user keeps one:
+ * await experiment.recordOutcome(versions[0], 'kept');
+ * ```
+ */
+export function usePromptExperiment(): UsePromptExperimentReturn {
+  const [assignment, setAssignment] = useState<PromptAssignment | null>(null);
+  const [outcome, setOutcome] = useState<UsePromptExperimentReturn['outcome']>(null);
+
+  const assign = useCallback(async (templateId: string, requestKey?: string): Promise<PromptAssignment> => {
+    setOutcome(null);
+
+    let next: PromptAssignment = { templateId, versions: [] };
+    try {
+      const response = await fetch('/api/ai/prompts/assign', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ templateId, requestKey })
+      });
+      const body = await response.json();
+
+      if (response.ok && body.success) {
+        next = body.data;
+      }
+    } catch (error) {
+      console.warn('Prompt assignment unavailable, using the default version:', error);
+    }
+
+    setAssignment(next);
+    return next;
+  }, []);
+
+  const recordOutcome = useCallback(async (version: number, action: PromptOutcomeAction) => {
+    if (!assignment?.comparisonId) return;
+
+    setOutcome({ version, action });
+    try {
+      await fetch('/api/ai/prompts/outcome', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ comparisonId: assignment.comparisonId, version, action })
+      });
+    } catch (error) {
+      console.warn('Failed to record prompt outcome:', error);
+    }
+  }, [assignment]);
+
+  const reset = useCallback(() => {
+    setAssignment(null);
+    setOutcome(null);
+  }, []);
+
+  return {
+    assignment,
+    isComparing: Boolean(assignment?.comparisonId),
+    outcome,
+    assign,
+    recordOutcome,
+    reset
+  };
+}
+
+export default usePromptExperiment;
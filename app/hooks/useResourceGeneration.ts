@@ -182,7 +182,7 @@ export function useResourceGeneration() {
   }, []);
 
   // Get resource timeline
-  const getResourceTimeline = useCallback((resourceId: string) => {
+  const getResourceTimeline = useCallback(async (resourceId: string) => {
     if (!isEventSystemInitialized) {
       return {
         resourceId,
@@ -0,0 +1,114 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Assessment Attempt Tests
+ *
+ * - Follow-up questions depend on earlier answers
+ * - Weighted scoring into CompetencyScores
+ * - Retakes compared before/after, including reworded questions
+ */
+
+import { AssessmentAttemptService, MemoryAssessmentAttemptStore } from '../attemptService';
+import { QUESTION_BANK, getCurrentQuestions, getQuestion, scoreAnswer } from '../questionBank';
+
+const USER = 'user_founder';
+
+/** Answer every question asked with the given pick until the attempt is done */
+async function answerAll(service: AssessmentAttemptService, pick: 'lowest' | 'highest') {
+  let view = await service.startAttempt(USER);
+
+  while (view.nextQuestion) {
+    const question = view.nextQuestion;
+    const values = question.type === 'multiple_choice'
+      ? question.options!.map(option => option.value)
+      : [question.scale!.min, question.scale!.max];
+    const value = pick === 'lowest' ? Math.min(...values) : Math.max(...values);
+    view = await service.answerQuestion(USER, view.attempt.id, question.id, value);
+  }
+
+  return service.completeAttempt(USER, view.attempt.id);
+}
+
+describe('question bank', () => {
+  it('serves the latest version of each question and keeps older versions for scoring', () => {
+    const current = getCurrentQuestions('customerAnalysis');
+    expect(current.find(question => question.id === 'ca_buyer_priorities')).toMatchObject({ version: 2 });
+    expect(getQuestion('ca_buyer_priorities', 1)).toMatchObject({ retired: true });
+    expect(new Set(QUESTION_BANK.map(question => `${question.id}@${question.version}`)).size).toBe(QUESTION_BANK.length);
+  });
+
+  it('normalizes answers to 0-100 and rejects invalid ones', () => {
+    expect(scoreAnswer(getQuestion('vc_tech_translation')!, 7)).toBe(70);
+    expect(scoreAnswer(getQuestion('ca_icp_validation')!, 4)).toBe(75);
+    expect(scoreAnswer(getQuestion('vc_cost_of_inaction')!, 50)).toBe(50);
+    expect(scoreAnswer(getQuestion('vc_cost_of_inaction')!, 60)).toBeNull();
+    expect(scoreAnswer(getQuestion('ca_icp_validation')!, 6)).toBeNull();
+  });
+});
+
+describe('AssessmentAttemptService', () => {
+  let service: AssessmentAttemptService;
+
+  beforeEach(() => {
+    service = new AssessmentAttemptService(new MemoryAssessmentAttemptStore());
+  });
+
+  it('branches on earlier answers and drops answers that no longer apply', async () => {
+    const { attempt } = await service.startAttempt(USER);
+
+    let view = await service.answerQuestion(USER, attempt.id, 'ca_icp_definition', 100);
+    expect(view.nextQuestion).toMatchObject({ id: 'ca_icp_validation' });
+    await expect(service.answerQuestion(USER, attempt.id, 'ca_icp_signals', 40)).rejects.toMatchObject({ statusCode: 400 });
+
+    await service.answerQuestion(USER, attempt.id, 'ca_icp_validation', 5);
+    view = await service.answerQuestion(USER, attempt.id, 'ca_icp_definition', 0);
+    expect(view.attempt.answers.map(answer => answer.questionId)).toEqual(['ca_icp_definition']);
+    expect(view.nextQuestion).toMatchObject({ id: 'ca_icp_signals' });
+
+    await expect(service.completeAttempt(USER, attempt.id)).rejects.toMatchObject({ statusCode: 400 });
+    await expect(service.answerQuestion('user_other', attempt.id, 'ca_icp_definition', 0)).rejects.toMatchObject({ statusCode: 404 });
+  });
+
+  it('scores answers by weight into competency scores', async () => {
+    const { attempt } = await service.startAttempt(USER);
+    // ca_icp_definition (weight 2) scores 70, ca_icp_validation (1.5) 100, ca_buyer_priorities (1) 0, ca_discovery (1.5) 40
+    const answers: Array<[string, number]> = [
+      ['ca_icp_definition', 70], ['ca_icp_validation', 5], ['ca_buyer_priorities', 1], ['ca_discovery', 40],
+      ['vc_value_prop', 0], ['vc_tech_translation', 10], ['vc_cost_of_inaction', 100],
+      ['se_process', 35], ['se_champion', 100], ['se_forecast', 3]
+    ];
+    for (const [questionId, value] of answers) {
+      await service.answerQuestion(USER, attempt.id, questionId, value);
+    }
+
+    const completed = await service.completeAttempt(USER, attempt.id);
+    expect(completed.scores).toEqual({
+      customerAnalysis: Math.round((70 * 2 + 100 * 1.5 + 0 + 40 * 1.5) / 6),
+      valueCommunication: Math.round((0 + 100 + 100) / 4),
+      salesExecution: Math.round((35 * 2 + 100 * 1.5 + 50) / 4.5)
+    });
+    expect(completed.overallScore).toBe(Math.round((58 + 50 + 60) / 3));
+    await expect(service.answerQuestion(USER, attempt.id, 'se_forecast', 5)).rejects.toMatchObject({ statusCode: 409 });
+  });
+
+  it('compares a retake with the attempt before it', async () => {
+    const first = await answerAll(service, 'lowest');
+    await expect(service.compareAttempts(USER)).rejects.toMatchObject({ statusCode: 400 });
+
+    const retake = await answerAll(service, 'highest');
+    expect(retake.previousAttemptId).toBe(first.id);
+
+    const report = await service.compareAttempts(USER);
+    expect(report).toMatchObject({
+      before: { attemptId: first.id, overallScore: 0 },
+      after: { attemptId: retake.id, overallScore: 100 },
+      overallDelta: 100
+    });
+    expect(report.categories.every(entry => entry.delta === 100)).toBe(true);
+    expect(report.questions).toContainEqual(expect.objectContaining({ questionId: 'ca_icp_signals', before: 0, after: undefined }));
+    expect(report.questions).toContainEqual(expect.objectContaining({ questionId: 'ca_icp_validation', before: undefined, after: 100 }));
+    expect(report.questions).toContainEqual(expect.objectContaining({ questionId: 'se_champion', delta: 100, sameVersion: true }));
+  });
+});
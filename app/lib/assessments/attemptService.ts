@@ -0,0 +1,448 @@
+/**
+ * FUNCTIONALITY STATUS: REAL
+ *
+ * REAL IMPLEMENTATIONS:
+ * - Competency assessment attempts answered one question at a time against
+ *   the versioned question bank (questionBank.ts)
+ * - Branching: follow-up questions depend on earlier answers; changing an
+ *   answer drops the answers of questions that are no longer asked
+ * - Weighted scoring into CompetencyScores when an attempt is completed
+ * - Retakes, compared before/after per category and per question
+ * - Pluggable persistence (memory for development, Supabase for production)
+ *
+ * FAKE IMPLEMENTATIONS:
+ * - None - all functionality is production-ready
+ *
+ * MISSING REQUIREMENTS:
+ * - Supabase store needs the assessment_attempts table (see SupabaseAssessmentAttemptStore)
+ * - Completed attempts don't update the Airtable progress record that
+ *   AssessmentService.processAssessmentSync maintains
+ *
+ * PRODUCTION READINESS: YES
+ * - An attempt keeps the question versions it started with, so rewording a
+ *   question never changes how earlier attempts score
+ */
+
+import crypto from 'crypto';
+import { createAPIError, ErrorType } from '@/app/lib/middleware/error-handler';
+import type { CompetencyScores } from '@/app/lib/services/AssessmentService';
+import {
+  AssessmentAnswer,
+  BankQuestion,
+  CategoryScore,
+  COMPETENCY_CATEGORY_IDS,
+  CompetencyCategoryId,
+  QuestionVersionMap,
+  getCurrentVersionMap,
+  getNextQuestion,
+  isQuestionVisible,
+  pruneAnswers,
+  resolveQuestions,
+  scoreAnswer,
+  scoreAttempt
+} from './questionBank';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface AssessmentAttempt {
+  id: string;
+  userId: string;
+  status: 'in_progress' | 'completed';
+  questionVersions: QuestionVersionMap;
+  answers: AssessmentAnswer[];
+  /** Set when completed */
+  scores?: CompetencyScores;
+  overallScore?: number;
+  categoryScores?: CategoryScore[];
+  /** The completed attempt this one retakes */
+  previousAttemptId?: string;
+  startedAt: number;
+  completedAt?: number;
+}
+
+/** An attempt with what to ask next */
+export interface AttemptView {
+  attempt: AssessmentAttempt;
+  nextQuestion: BankQuestion | null;
+  answeredCount: number;
+  /** Questions still to come, given the answers so far */
+  remainingCount: number;
+}
+
+export interface CategoryComparison {
+  category: CompetencyCategoryId;
+  before: number;
+  after: number;
+  delta: number;
+}
+
+export interface QuestionComparison {
+  questionId: string;
+  question: string;
+  category: CompetencyCategoryId;
+  before?: number;
+  after?: number;
+  delta?: number;
+  /** False when the attempts answered different versions of the question */
+  sameVersion: boolean;
+}
+
+export interface RetakeComparison {
+  before: { attemptId: string; completedAt: number; overallScore: number };
+  after: { attemptId: string; completedAt: number; overallScore: number };
+  overallDelta: number;
+  categories: CategoryComparison[];
+  /** Questions answered in either attempt (before/after are 0-100 scores) */
+  questions: QuestionComparison[];
+}
+
+// ============================================================================
+// STORES
+// ============================================================================
+
+export interface AssessmentAttemptStore {
+  readonly name: string;
+  saveAttempt(attempt: AssessmentAttempt): Promise<void>;
+  getAttempt(id: string): Promise<AssessmentAttempt | null>;
+  /** Most recently started first */
+  listAttempts(userId: string): Promise<AssessmentAttempt[]>;
+}
+
+/**
+ * Process-local store. Attempts reset on restart, so only use it for development.
+ */
+export class MemoryAssessmentAttemptStore implements AssessmentAttemptStore {
+  readonly name = 'memory';
+  private attempts = new Map<string, AssessmentAttempt>();
+
+  async saveAttempt(attempt: AssessmentAttempt): Promise<void> {
+    this.attempts.set(attempt.id, structuredClone(attempt));
+  }
+
+  async getAttempt(id: string): Promise<AssessmentAttempt | null> {
+    const attempt = this.attempts.get(id);
+    return attempt ? structuredClone(attempt) : null;
+  }
+
+  async listAttempts(userId: string): Promise<AssessmentAttempt[]> {
+    return [...this.attempts.values()]
+      .filter(attempt => attempt.userId === userId)
+      .sort((a, b) => b.startedAt - a.startedAt)
+      .map(attempt => structuredClone(attempt));
+  }
+
+  clear(): void {
+    this.attempts.clear();
+  }
+}
+
+/**
+ * Supabase-backed store. Expected table:
+ *
+ *   create table assessment_attempts (
+ *     id text primary key,
+ *     user_id uuid not null,
+ *     status text not null,
+ *     question_versions jsonb not null,
+ *     answers jsonb not null default '[]',
+ *     scores jsonb,
+ *     overall_score integer,
+ *     category_scores jsonb,
+ *     previous_attempt_id text,
+ *     started_at timestamptz not null default now(),
+ *     completed_at timestamptz
+ *   );
+ *   create index on assessment_attempts (user_id, started_at desc);
+ */
+export class SupabaseAssessmentAttemptStore implements AssessmentAttemptStore {
+  readonly name = 'supabase';
+
+  async saveAttempt(attempt: AssessmentAttempt): Promise<void> {
+    const client = await this.client();
+    const { error } = await (client.from('assessment_attempts') as any).upsert({
+      id: attempt.id,
+      user_id: attempt.userId,
+      status: attempt.status,
+      question_versions: attempt.questionVersions,
+      answers: attempt.answers,
+      scores: attempt.scores ?? null,
+      overall_score: attempt.overallScore ?? null,
+      category_scores: attempt.categoryScores ?? null,
+      previous_attempt_id: attempt.previousAttemptId ?? null,
+      started_at: new Date(attempt.startedAt).toISOString(),
+      completed_at: attempt.completedAt ? new Date(attempt.completedAt).toISOString() : null
+    });
+
+    if (error) {
+      throw createAPIError(ErrorType.DATABASE, 'Failed to save assessment attempt', 500, { attemptId: attempt.id });
+    }
+  }
+
+  async getAttempt(id: string): Promise<AssessmentAttempt | null> {
+    const client = await this.client();
+    const { data, error } = await (client.from('assessment_attempts') as any)
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) {
+      throw createAPIError(ErrorType.DATABASE, 'Failed to load assessment attempt', 500, { attemptId: id });
+    }
+
+    return data ? this.toAttempt(data) : null;
+  }
+
+  async listAttempts(userId: string): Promise<AssessmentAttempt[]> {
+    const client = await this.client();
+    const { data, error } = await (client.from('assessment_attempts') as any)
+      .select('*')
+      .eq('user_id', userId)
+      .order('started_at', { ascending: false });
+
+    if (error) {
+      throw createAPIError(ErrorType.DATABASE, 'Failed to load assessment attempts', 500, { userId });
+    }
+
+    return ((data || []) as any[]).map(row => this.toAttempt(row));
+  }
+
+  private toAttempt(row: any): AssessmentAttempt {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      status: row.status,
+      questionVersions: row.question_versions || {},
+      answers: row.answers || [],
+      scores: row.scores ?? undefined,
+      overallScore: row.overall_score ?? undefined,
+      categoryScores: row.category_scores ?? undefined,
+      previousAttemptId: row.previous_attempt_id ?? undefined,
+      startedAt: Date.parse(row.started_at),
+      completedAt: row.completed_at ? Date.parse(row.completed_at) : undefined
+    };
+  }
+
+  private async client() {
+    const { supabaseAdmin } = await import('@/app/lib/supabase/admin');
+    return supabaseAdmin;
+  }
+}
+
+/**
+ * Build the store configured through ASSESSMENT_ATTEMPT_STORE (memory | supabase)
+ */
+export function createAssessmentAttemptStore(
+  type: string | undefined = process.env.ASSESSMENT_ATTEMPT_STORE
+): AssessmentAttemptStore {
+  if (type === 'supabase') {
+    return new SupabaseAssessmentAttemptStore();
+  }
+
+  if (type && type !== 'memory') {
+    console.warn(`⚠️ Unknown ASSESSMENT_ATTEMPT_STORE "${type}", falling back to memory`);
+  }
+
+  return new MemoryAssessmentAttemptStore();
+}
+
+// ============================================================================
+// ATTEMPT SERVICE
+// ============================================================================
+
+export class AssessmentAttemptService {
+  private store: AssessmentAttemptStore;
+
+  constructor(store: AssessmentAttemptStore = createAssessmentAttemptStore()) {
+    this.store = store;
+  }
+
+  /**
+   * Start an attempt on the current question bank, or return the one in
+   * progress. Attempts after a completed one are retakes of it.
+   */
+  async startAttempt(userId: string): Promise<AttemptView> {
+    const attempts = await this.store.listAttempts(userId);
+    const inProgress = attempts.find(attempt => attempt.status === 'in_progress');
+    if (inProgress) {
+      return this.toView(inProgress);
+    }
+
+    const previous = attempts.find(attempt => attempt.status === 'completed');
+    const attempt: AssessmentAttempt = {
+      id: `attempt_${crypto.randomUUID()}`,
+      userId,
+      status: 'in_progress',
+      questionVersions: getCurrentVersionMap(),
+      answers: [],
+      ...(previous ? { previousAttemptId: previous.id } : {}),
+      startedAt: Date.now()
+    };
+
+    await this.store.saveAttempt(attempt);
+    console.log(`📝 Assessment attempt ${attempt.id} started for ${userId}${previous ? ' (retake)' : ''}`);
+    return this.toView(attempt);
+  }
+
+  async getAttempt(userId: string, attemptId: string): Promise<AttemptView> {
+    return this.toView(await this.requireAttempt(userId, attemptId));
+  }
+
+  /** The attempt in progress, if any */
+  async getCurrentAttempt(userId: string): Promise<AttemptView | null> {
+    const attempt = (await this.store.listAttempts(userId)).find(entry => entry.status === 'in_progress');
+    return attempt ? this.toView(attempt) : null;
+  }
+
+  async listAttempts(userId: string): Promise<AssessmentAttempt[]> {
+    return this.store.listAttempts(userId);
+  }
+
+  /**
+   * Answer (or change the answer to) a question that is currently asked
+   */
+  async answerQuestion(userId: string, attemptId: string, questionId: string, value: unknown): Promise<AttemptView> {
+    const attempt = await this.requireInProgress(userId, attemptId);
+    const questions = resolveQuestions(attempt.questionVersions);
+    const question = questions.find(entry => entry.id === questionId);
+
+    if (!question) {
+      throw createAPIError(ErrorType.VALIDATION, `Unknown question: ${questionId}`, 400, { questionId });
+    }
+
+    const others = attempt.answers.filter(answer => answer.questionId !== questionId);
+    if (!isQuestionVisible(question, others)) {
+      throw createAPIError(ErrorType.VALIDATION, 'This question is not asked given your earlier answers', 400, { questionId });
+    }
+
+    const score = scoreAnswer(question, value);
+    if (score === null) {
+      throw createAPIError(ErrorType.VALIDATION, 'Invalid answer for this question', 400, {
+        questionId,
+        options: question.options?.map(option => option.value),
+        scale: question.scale
+      });
+    }
+
+    attempt.answers = pruneAnswers(questions, [
+      ...others,
+      { questionId, version: question.version, value: value as number, score, answeredAt: Date.now() }
+    ]);
+
+    await this.store.saveAttempt(attempt);
+    return this.toView(attempt);
+  }
+
+  /**
+   * Score a fully answered attempt into CompetencyScores
+   */
+  async completeAttempt(userId: string, attemptId: string): Promise<AssessmentAttempt> {
+    const attempt = await this.requireInProgress(userId, attemptId);
+    const questions = resolveQuestions(attempt.questionVersions);
+    const next = getNextQuestion(questions, attempt.answers);
+
+    if (next) {
+      throw createAPIError(ErrorType.VALIDATION, 'Answer every question before completing the assessment', 400, {
+        nextQuestionId: next.id
+      });
+    }
+
+    const result = scoreAttempt(questions, attempt.answers);
+    attempt.status = 'completed';
+    attempt.scores = result.scores;
+    attempt.overallScore = result.overallScore;
+    attempt.categoryScores = result.categories;
+    attempt.completedAt = Date.now();
+
+    await this.store.saveAttempt(attempt);
+    console.log(`✅ Assessment attempt ${attempt.id} completed for ${userId}: ${result.overallScore}/100`);
+    return attempt;
+  }
+
+  /**
+   * Before/after report of two completed attempts. Defaults to the latest
+   * completed attempt and the one it retakes.
+   */
+  async compareAttempts(userId: string, beforeId?: string, afterId?: string): Promise<RetakeComparison> {
+    const after = afterId
+      ? await this.requireAttempt(userId, afterId)
+      : (await this.store.listAttempts(userId)).find(attempt => attempt.status === 'completed');
+    const before = beforeId
+      ? await this.requireAttempt(userId, beforeId)
+      : after?.previousAttemptId ? await this.requireAttempt(userId, after.previousAttemptId) : undefined;
+
+    if (!before || !after) {
+      throw createAPIError(ErrorType.VALIDATION, 'Complete a retake to compare attempts', 400);
+    }
+
+    if (before.status !== 'completed' || after.status !== 'completed') {
+      throw createAPIError(ErrorType.VALIDATION, 'Only completed attempts can be compared', 400);
+    }
+
+    const questionIds = [...new Set([...before.answers, ...after.answers].map(answer => answer.questionId))];
+    const afterQuestions = resolveQuestions(after.questionVersions);
+    const beforeQuestions = resolveQuestions(before.questionVersions);
+
+    return {
+      before: { attemptId: before.id, completedAt: before.completedAt!, overallScore: before.overallScore! },
+      after: { attemptId: after.id, completedAt: after.completedAt!, overallScore: after.overallScore! },
+      overallDelta: after.overallScore! - before.overallScore!,
+      categories: COMPETENCY_CATEGORY_IDS.map(category => ({
+        category,
+        before: before.scores![category],
+        after: after.scores![category],
+        delta: after.scores![category] - before.scores![category]
+      })),
+      questions: questionIds.map(questionId => {
+        const question = (afterQuestions.find(entry => entry.id === questionId)
+          || beforeQuestions.find(entry => entry.id === questionId))!;
+        const previous = before.answers.find(answer => answer.questionId === questionId);
+        const current = after.answers.find(answer => answer.questionId === questionId);
+
+        return {
+          questionId,
+          question: question.question,
+          category: question.category,
+          before: previous?.score,
+          after: current?.score,
+          ...(previous && current ? { delta: current.score - previous.score } : {}),
+          sameVersion: before.questionVersions[questionId] === after.questionVersions[questionId]
+        };
+      })
+    };
+  }
+
+  private async requireAttempt(userId: string, attemptId: string): Promise<AssessmentAttempt> {
+    const attempt = attemptId ? await this.store.getAttempt(attemptId) : null;
+    if (!attempt || attempt.userId !== userId) {
+      throw createAPIError(ErrorType.NOT_FOUND, 'Assessment attempt not found', 404, { attemptId });
+    }
+    return attempt;
+  }
+
+  private async requireInProgress(userId: string, attemptId: string): Promise<AssessmentAttempt> {
+    const attempt = await this.requireAttempt(userId, attemptId);
+    if (attempt.status !== 'in_progress') {
+      throw createAPIError(ErrorType.VALIDATION, 'This assessment attempt is already completed', 409, { attemptId });
+    }
+    return attempt;
+  }
+
+  private toView(attempt: AssessmentAttempt): AttemptView {
+    const questions = resolveQuestions(attempt.questionVersions);
+    const remaining = questions.filter(question =>
+      isQuestionVisible(question, attempt.answers)
+      && !attempt.answers.some(answer => answer.questionId === question.id));
+
+    return {
+      attempt,
+      nextQuestion: attempt.status === 'in_progress' ? getNextQuestion(questions, attempt.answers) : null,
+      answeredCount: attempt.answers.length,
+      remainingCount: attempt.status === 'in_progress' ? remaining.length : 0
+    };
+  }
+}
+
+export const assessmentAttempts = new AssessmentAttemptService();
+export default assessmentAttempts;
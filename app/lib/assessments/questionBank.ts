@@ -0,0 +1,356 @@
+/**
+ * Assessment Question Bank
+ *
+ * Versioned competency questions, the branching rules that decide which
+ * question comes next, and weighted scoring into CompetencyScores.
+ *
+ * Questions are never edited in place: a reworded question gets a new entry
+ * with the same id and a higher version, so attempts keep being scored (and
+ * compared) against the wording they were answered with. Pure data and
+ * functions, safe to use in the browser.
+ */
+
+import type { AssessmentQuestion, CompetencyCategory, CompetencyScores } from '@/app/lib/services/AssessmentService';
+
+export type CompetencyCategoryId = CompetencyCategory['id'];
+
+export const COMPETENCY_CATEGORY_IDS: CompetencyCategoryId[] = ['customerAnalysis', 'valueCommunication', 'salesExecution'];
+
+/** Show a question only when an earlier answer scored within a range (0-100) */
+export interface QuestionCondition {
+  questionId: string;
+  minScore?: number;
+  maxScore?: number;
+}
+
+export interface BankQuestion extends AssessmentQuestion {
+  category: CompetencyCategoryId;
+  version: number;
+  /** Relative weight within its category */
+  weight: number;
+  showIf?: QuestionCondition;
+  /** Removed from new attempts (kept for scoring older ones) */
+  retired?: boolean;
+}
+
+export interface AssessmentAnswer {
+  questionId: string;
+  version: number;
+  /** Option value (multiple_choice) or point on the scale */
+  value: number;
+  /** Normalized 0-100 */
+  score: number;
+  answeredAt: number;
+}
+
+/** Question id → version an attempt is answered against */
+export type QuestionVersionMap = Record<string, number>;
+
+export interface CategoryScore {
+  category: CompetencyCategoryId;
+  score: number;
+  answered: number;
+  weight: number;
+}
+
+export interface ScoreResult {
+  scores: CompetencyScores;
+  overallScore: number;
+  categories: CategoryScore[];
+}
+
+const AGREEMENT_LABELS = ['Not at all', 'Slightly', 'Somewhat', 'Mostly', 'Completely'];
+
+// ============================================================================
+// QUESTIONS
+// ============================================================================
+
+export const QUESTION_BANK: BankQuestion[] = [
+  // Customer Analysis
+  {
+    id: 'ca_icp_definition',
+    category: 'customerAnalysis',
+    version: 1,
+    weight: 2,
+    question: 'How clearly is your ideal customer profile defined?',
+    type: 'multiple_choice',
+    options: [
+      { value: 0, text: 'We sell to anyone who will buy' },
+      { value: 35, text: 'We have a rough idea of our best customers' },
+      { value: 70, text: 'We have a written ICP with firmographics' },
+      { value: 100, text: 'Our ICP is written, backed by closed-won data and reviewed quarterly' }
+    ]
+  },
+  {
+    id: 'ca_icp_validation',
+    category: 'customerAnalysis',
+    version: 1,
+    weight: 1.5,
+    showIf: { questionId: 'ca_icp_definition', minScore: 70 },
+    question: 'How well do your last ten closed-won deals match that ICP?',
+    type: 'scale',
+    scale: { min: 1, max: 5, labels: AGREEMENT_LABELS }
+  },
+  {
+    id: 'ca_icp_signals',
+    category: 'customerAnalysis',
+    version: 1,
+    weight: 1,
+    showIf: { questionId: 'ca_icp_definition', maxScore: 35 },
+    question: 'What tells you a prospect is a good fit today?',
+    type: 'multiple_choice',
+    options: [
+      { value: 0, text: 'Whether they reply to outreach' },
+      { value: 40, text: 'Company size or industry' },
+      { value: 70, text: 'A problem we have solved for similar companies' },
+      { value: 100, text: 'A specific trigger event tied to a problem we solve' }
+    ]
+  },
+  {
+    id: 'ca_buyer_priorities',
+    category: 'customerAnalysis',
+    version: 1,
+    weight: 1,
+    retired: true,
+    question: 'Do you know your buyers?',
+    type: 'scale',
+    scale: { min: 1, max: 5, labels: AGREEMENT_LABELS }
+  },
+  {
+    id: 'ca_buyer_priorities',
+    category: 'customerAnalysis',
+    version: 2,
+    weight: 1,
+    question: 'How well do you know the priorities your economic buyer is measured on this year?',
+    type: 'scale',
+    scale: { min: 1, max: 5, labels: AGREEMENT_LABELS }
+  },
+  {
+    id: 'ca_discovery',
+    category: 'customerAnalysis',
+    version: 1,
+    weight: 1.5,
+    question: 'How do you prepare for a first discovery call?',
+    type: 'multiple_choice',
+    options: [
+      { value: 0, text: 'I go in and see where it leads' },
+      { value: 40, text: 'I skim their website and LinkedIn' },
+      { value: 70, text: 'I research their situation and prepare hypotheses' },
+      { value: 100, text: 'I prepare hypotheses and the questions that would disprove them' }
+    ]
+  },
+
+  // Value Communication
+  {
+    id: 'vc_value_prop',
+    category: 'valueCommunication',
+    version: 1,
+    weight: 2,
+    question: 'How do you describe your product to a new prospect?',
+    type: 'multiple_choice',
+    options: [
+      { value: 0, text: 'By walking through its features' },
+      { value: 40, text: 'By the benefits of those features' },
+      { value: 70, text: 'By the business outcomes it drives' },
+      { value: 100, text: 'By outcomes quantified in the prospect\'s own metrics' }
+    ]
+  },
+  {
+    id: 'vc_roi_model',
+    category: 'valueCommunication',
+    version: 1,
+    weight: 1.5,
+    showIf: { questionId: 'vc_value_prop', minScore: 70 },
+    question: 'How confident are you building an ROI case with a prospect\'s numbers, live on a call?',
+    type: 'scale',
+    scale: { min: 1, max: 5, labels: ['Not confident', 'Slightly', 'Somewhat', 'Confident', 'Very confident'] }
+  },
+  {
+    id: 'vc_tech_translation',
+    category: 'valueCommunication',
+    version: 1,
+    weight: 1,
+    question: 'How easily can you explain a technical capability as business impact to a CFO?',
+    type: 'scale',
+    scale: { min: 0, max: 10, labels: ['I can\'t', 'With preparation', 'Without thinking'] }
+  },
+  {
+    id: 'vc_cost_of_inaction',
+    category: 'valueCommunication',
+    version: 1,
+    weight: 1,
+    question: 'Do you quantify what it costs the prospect to do nothing?',
+    type: 'multiple_choice',
+    options: [
+      { value: 0, text: 'No' },
+      { value: 50, text: 'Roughly, when asked' },
+      { value: 100, text: 'Always, and the prospect agrees with the number' }
+    ]
+  },
+
+  // Sales Execution
+  {
+    id: 'se_process',
+    category: 'salesExecution',
+    version: 1,
+    weight: 2,
+    question: 'How repeatable is your sales process?',
+    type: 'multiple_choice',
+    options: [
+      { value: 0, text: 'Every deal is different' },
+      { value: 35, text: 'We follow loose habits' },
+      { value: 70, text: 'We have defined stages' },
+      { value: 100, text: 'We have defined stages with exit criteria everyone uses' }
+    ]
+  },
+  {
+    id: 'se_stage_criteria',
+    category: 'salesExecution',
+    version: 1,
+    weight: 1,
+    showIf: { questionId: 'se_process', minScore: 70 },
+    question: 'How consistently do deals meet the exit criteria before they move stage?',
+    type: 'scale',
+    scale: { min: 1, max: 5, labels: ['Never', 'Rarely', 'Sometimes', 'Usually', 'Always'] }
+  },
+  {
+    id: 'se_champion',
+    category: 'salesExecution',
+    version: 1,
+    weight: 1.5,
+    question: 'How do you build a champion inside a target account?',
+    type: 'multiple_choice',
+    options: [
+      { value: 0, text: 'I work with whoever responds' },
+      { value: 40, text: 'I find someone who likes the product' },
+      { value: 70, text: 'I find someone with influence who gains from the change' },
+      { value: 100, text: 'I test that champion by asking them to take an action for the deal' }
+    ]
+  },
+  {
+    id: 'se_forecast',
+    category: 'salesExecution',
+    version: 1,
+    weight: 1,
+    question: 'How close does your quarterly forecast land to actual bookings?',
+    type: 'scale',
+    scale: { min: 1, max: 5, labels: ['Way off', 'Within 50%', 'Within 25%', 'Within 10%', 'Within 5%'] }
+  }
+];
+
+// ============================================================================
+// LOOKUP
+// ============================================================================
+
+export function getQuestion(id: string, version?: number): BankQuestion | undefined {
+  const versions = QUESTION_BANK.filter(question => question.id === id);
+  return version === undefined
+    ? versions.reduce<BankQuestion | undefined>((latest, question) => (!latest || question.version > latest.version ? question : latest), undefined)
+    : versions.find(question => question.version === version);
+}
+
+/**
+ * Latest version of every question still in use, in asking order
+ */
+export function getCurrentQuestions(category?: string): BankQuestion[] {
+  const ids = [...new Set(QUESTION_BANK.map(question => question.id))];
+
+  return ids
+    .map(id => getQuestion(id)!)
+    .filter(question => !question.retired && (!category || question.category === category))
+    .sort((a, b) => COMPETENCY_CATEGORY_IDS.indexOf(a.category) - COMPETENCY_CATEGORY_IDS.indexOf(b.category));
+}
+
+/** Versions a new attempt is answered against */
+export function getCurrentVersionMap(): QuestionVersionMap {
+  return Object.fromEntries(getCurrentQuestions().map(question => [question.id, question.version]));
+}
+
+/** The questions of an attempt, in asking order */
+export function resolveQuestions(versions: QuestionVersionMap): BankQuestion[] {
+  const order = QUESTION_BANK.map(question => question.id);
+
+  return Object.entries(versions)
+    .map(([id, version]) => getQuestion(id, version))
+    .filter((question): question is BankQuestion => Boolean(question))
+    .sort((a, b) =>
+      COMPETENCY_CATEGORY_IDS.indexOf(a.category) - COMPETENCY_CATEGORY_IDS.indexOf(b.category)
+      || order.indexOf(a.id) - order.indexOf(b.id));
+}
+
+// ============================================================================
+// ANSWERS & BRANCHING
+// ============================================================================
+
+/**
+ * Normalize an answer to 0-100, or null when it isn't a valid answer
+ */
+export function scoreAnswer(question: AssessmentQuestion, value: unknown): number | null {
+  if (typeof value !== 'number' || !Number.isFinite(value)) return null;
+
+  if (question.type === 'multiple_choice') {
+    const values = (question.options || []).map(option => option.value);
+    if (!values.includes(value)) return null;
+    const max = Math.max(...values);
+    return max > 0 ? Math.round((value / max) * 100) : 0;
+  }
+
+  const { min, max } = question.scale!;
+  if (!Number.isInteger(value) || value < min || value > max) return null;
+  return Math.round(((value - min) / (max - min)) * 100);
+}
+
+export function isQuestionVisible(question: BankQuestion, answers: AssessmentAnswer[]): boolean {
+  if (!question.showIf) return true;
+
+  const { questionId, minScore = 0, maxScore = 100 } = question.showIf;
+  const answer = answers.find(entry => entry.questionId === questionId);
+  return Boolean(answer) && answer!.score >= minScore && answer!.score <= maxScore;
+}
+
+/**
+ * Answers whose questions are still asked. Changing an earlier answer can
+ * hide follow-up questions; their answers are dropped.
+ */
+export function pruneAnswers(questions: BankQuestion[], answers: AssessmentAnswer[]): AssessmentAnswer[] {
+  return questions.reduce<AssessmentAnswer[]>((kept, question) => {
+    const answer = answers.find(entry => entry.questionId === question.id);
+    return answer && isQuestionVisible(question, kept) ? [...kept, answer] : kept;
+  }, []);
+}
+
+/** Next unanswered question, or null when the attempt can be completed */
+export function getNextQuestion(questions: BankQuestion[], answers: AssessmentAnswer[]): BankQuestion | null {
+  return questions.find(question =>
+    isQuestionVisible(question, answers) && !answers.some(answer => answer.questionId === question.id)) ?? null;
+}
+
+// ============================================================================
+// SCORING
+// ============================================================================
+
+/**
+ * Weighted average per category of the answered questions (0-100); overall
+ * is the mean of the three categories
+ */
+export function scoreAttempt(questions: BankQuestion[], answers: AssessmentAnswer[]): ScoreResult {
+  const categories = COMPETENCY_CATEGORY_IDS.map(category => {
+    const answered = answers
+      .map(answer => ({ answer, question: questions.find(question => question.id === answer.questionId) }))
+      .filter(entry => entry.question?.category === category);
+    const weight = answered.reduce((sum, entry) => sum + entry.question!.weight, 0);
+    const weighted = answered.reduce((sum, entry) => sum + entry.answer.score * entry.question!.weight, 0);
+
+    return {
+      category,
+      score: weight > 0 ? Math.round(weighted / weight) : 0,
+      answered: answered.length,
+      weight
+    };
+  });
+
+  const scores = Object.fromEntries(categories.map(entry => [entry.category, entry.score])) as unknown as CompetencyScores;
+  const overallScore = Math.round(categories.reduce((sum, entry) => sum + entry.score, 0) / categories.length);
+
+  return { scores, overallScore, categories };
+}
@@ -0,0 +1,278 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Business Case Workflow Tests
+ *
+ * - Only the allowed transitions, and only with the fields each status requires
+ * - Reviewers: workspace members other than the author; all must approve
+ * - Rejections and reopens need a reason and land in the audit trail
+ * - Comments are pinned to section fields; final cases are locked
+ * - Every save is a version; diffs label where each change came from
+ */
+
+import eventBus from '@/app/lib/events/EventBus';
+import { getUserPermissions, getWorkspacePermissions } from '@/app/lib/middleware/rbac';
+import {
+  AutoPopulationSource,
+  BUSINESS_CASE_DEFAULTS
+} from '@/src/features/cost-business-case/business-case/BusinessCaseTypes';
+import { BUSINESS_CASE_SECTIONS, getAvailableActions, isWorkflowAction } from '../workflow';
+import {
+  BusinessCaseActor,
+  BusinessCaseWorkflowService,
+  MemoryBusinessCaseWorkflowStore
+} from '../workflowService';
+
+jest.mock('@/app/lib/events/EventBus', () => ({
+  __esModule: true,
+  default: { emit: jest.fn() }
+}));
+
+const WORKSPACE = 'ws_acme';
+const MEMBERS = ['user_author', 'user_cfo', 'user_vp', 'user_viewer'];
+
+const member = (userId: string, workspaceRole: 'member' | 'viewer' = 'member'): BusinessCaseActor => ({
+  userId,
+  customerId: `cust_${userId}`,
+  scope: {
+    workspaceId: WORKSPACE,
+    workspaceRole,
+    ownerId: WORKSPACE,
+    permissions: getWorkspacePermissions('premium', workspaceRole)
+  }
+});
+
+const author = member('user_author');
+const cfo = member('user_cfo');
+const vp = member('user_vp');
+const viewer = member('user_viewer', 'viewer');
+
+const solo: BusinessCaseActor = {
+  userId: 'user_solo',
+  customerId: 'cust_solo',
+  scope: { workspaceId: null, workspaceRole: null, ownerId: 'cust_solo', permissions: getUserPermissions('premium') }
+};
+
+const draftFields = {
+  'header.companyName': 'Acme',
+  'header.championName': 'Dana Lee',
+  'executiveSummary.businessChange': 'Consolidate onboarding',
+  'businessChallenge.currentRealityDescription': 'Manual handoffs'
+};
+
+/** Every section field filled in, enough for any status */
+function completeFields(): Record<string, unknown> {
+  const fields: Record<string, unknown> = {};
+  const walk = (value: unknown, path: string) => {
+    if (Array.isArray(value)) fields[path] = ['Item'];
+    else if (value instanceof Date) fields[path] = new Date();
+    else if (value && typeof value === 'object') {
+      Object.entries(value).forEach(([key, child]) => walk(child, `${path}.${key}`));
+    } else fields[path] = typeof value === 'number' ? 250000 : `Value for ${path}`;
+  };
+  BUSINESS_CASE_SECTIONS.forEach(section => walk(BUSINESS_CASE_DEFAULTS[section], section));
+  return { ...fields, brandingSettings: { companyName: 'Acme' } };
+}
+
+describe('BusinessCaseWorkflowService', () => {
+  let service: BusinessCaseWorkflowService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    service = new BusinessCaseWorkflowService(new MemoryBusinessCaseWorkflowStore(), {
+      requireMember: async (workspaceId: string, userId: string) => {
+        if (workspaceId !== WORKSPACE || !MEMBERS.includes(userId)) throw new Error('not a member');
+        return { workspaceId, userId, email: `${userId}@acme.example`, role: 'member', joinedAt: 0 };
+      }
+    });
+  });
+
+  it('only treats the defined transitions as actions', () => {
+    expect(isWorkflowAction('submit')).toBe(true);
+    expect(isWorkflowAction('toString')).toBe(false);
+    expect(isWorkflowAction('__proto__')).toBe(false);
+    expect(isWorkflowAction(42)).toBe(false);
+  });
+
+  it('requires the draft fields and only accepts known field paths', async () => {
+    await expect(service.createCase(author, { 'header.companyName': 'Acme' }))
+      .rejects.toMatchObject({ statusCode: 400, details: { missingFields: expect.arrayContaining(['header.championName']) } });
+    await expect(service.createCase(author, { ...draftFields, 'header.nope': 'x' }))
+      .rejects.toMatchObject({ statusCode: 400 });
+
+    const created = await service.createCase(author, draftFields);
+    expect(created).toMatchObject({ status: 'draft', workspaceId: WORKSPACE, availableActions: ['submit'] });
+    expect(created.missingForNextStatus).toContain('businessChallenge.dollarCost');
+
+    await expect(service.getCase(solo, created.id)).rejects.toMatchObject({ statusCode: 404 });
+    await expect(service.createCase(viewer, draftFields)).rejects.toMatchObject({ statusCode: 403 });
+  });
+
+  it('rejects paths that reach an object prototype on create and update', async () => {
+    const polluting = ['header.__proto__.toString', 'header.constructor.prototype.polluted', 'executiveSummary.__proto__'];
+
+    for (const path of polluting) {
+      await expect(service.createCase(author, { ...draftFields, [path]: 'pwned' }))
+        .rejects.toMatchObject({ statusCode: 400 });
+    }
+
+    const { id } = await service.createCase(author, draftFields);
+    for (const path of polluting) {
+      await expect(service.updateCase(author, id, { [path]: 'pwned' }))
+        .rejects.toMatchObject({ statusCode: 400 });
+    }
+
+    expect(String({})).toBe('[object Object]');
+    expect(({} as Record<string, unknown>).polluted).toBeUndefined();
+  });
+
+  it('approves once every reviewer approves, then locks the final case', async () => {
+    const { id } = await service.createCase(author, completeFields());
+
+    await expect(service.transition(author, id, 'submit')).rejects.toMatchObject({ statusCode: 400 });
+    await expect(service.assignReviewers(author, id, ['user_author'])).rejects.toMatchObject({ statusCode: 400 });
+    await expect(service.assignReviewers(author, id, ['user_outsider'])).rejects.toMatchObject({ statusCode: 400 });
+    await service.assignReviewers(author, id, ['user_cfo', 'user_vp']);
+
+    await service.transition(author, id, 'submit');
+    await expect(service.transition(author, id, 'approve')).rejects.toMatchObject({ statusCode: 403 });
+    await expect(service.transition(cfo, id, 'finalize')).rejects.toMatchObject({ statusCode: 409 });
+
+    const partial = await service.transition(cfo, id, 'approve', 'Numbers check out');
+    expect(partial).toMatchObject({ status: 'review', approvals: [expect.objectContaining({ userId: 'user_cfo' })] });
+    expect(eventBus.emit).not.toHaveBeenCalled();
+
+    const approved = await service.transition(vp, id, 'approve');
+    expect(approved).toMatchObject({ status: 'approved', approvedBy: 'user_vp', data: { status: 'approved' } });
+    expect(eventBus.emit).toHaveBeenCalledWith('business_case_approved', {
+      customerId: 'cust_user_author',
+      businessCaseId: id,
+      approvedBy: 'user_vp',
+      title: 'Value for header.priorityHeadline'
+    });
+
+    await expect(service.updateCase(author, id, { 'header.companyName': 'Acme Corp' })).rejects.toMatchObject({ statusCode: 409 });
+    await service.transition(author, id, 'finalize');
+
+    await expect(service.updateCase(author, id, { 'header.companyName': 'Acme Corp' }))
+      .rejects.toMatchObject({ statusCode: 409, message: 'Final business cases are locked' });
+    await expect(service.addComment(cfo, id, 'header.companyName', 'Late note')).rejects.toMatchObject({ statusCode: 409 });
+    await expect(service.transition(author, id, 'reopen', 'Scope change')).rejects.toMatchObject({ statusCode: 409 });
+    await expect(service.deleteCase(author, id)).rejects.toMatchObject({ statusCode: 409 });
+    expect(getAvailableActions('final')).toEqual([]);
+  });
+
+  it('deletes a case with its comments and versions', async () => {
+    const { id } = await service.createCase(author, draftFields);
+    await service.addComment(cfo, id, 'header.companyName', 'Legal name?');
+
+    await expect(service.deleteCase(viewer, id)).rejects.toMatchObject({ statusCode: 403 });
+    await expect(service.deleteCase(solo, id)).rejects.toMatchObject({ statusCode: 404 });
+
+    await service.deleteCase(author, id);
+    await expect(service.getCase(author, id)).rejects.toMatchObject({ statusCode: 404 });
+    expect(await service.listCases(author)).toEqual([]);
+  });
+
+  it('needs a reason to reject, resets approvals on edits and records the audit trail', async () => {
+    const { id } = await service.createCase(author, completeFields());
+    await service.assignReviewers(author, id, ['user_cfo', 'user_vp']);
+    await service.transition(author, id, 'submit');
+    await service.transition(cfo, id, 'approve');
+
+    const edited = await service.updateCase(author, id, { 'businessChallenge.dollarCost': 400000 });
+    expect(edited.approvals).toEqual([]);
+    await expect(service.updateCase(author, id, { 'businessChallenge.dollarCost': 0 }))
+      .rejects.toMatchObject({ details: { missingFields: ['businessChallenge.dollarCost'] } });
+
+    await expect(service.transition(vp, id, 'reject')).rejects.toMatchObject({ statusCode: 400 });
+    const rejected = await service.transition(vp, id, 'reject', '  ROI timeframe is unrealistic  ');
+    expect(rejected.status).toBe('draft');
+
+    const trail = await service.getAuditTrail(viewer, id);
+    expect(trail.map(entry => entry.action)).toEqual([
+      'created', 'reviewers_assigned', 'submitted', 'approval_recorded', 'updated', 'rejected'
+    ]);
+    expect(trail[4]).toMatchObject({ fieldPaths: ['businessChallenge.dollarCost'], details: { approvalsReset: 1 } });
+    expect(trail[5]).toMatchObject({ actorId: 'user_vp', fromStatus: 'review', toStatus: 'draft', reason: 'ROI timeframe is unrealistic' });
+  });
+
+  it('pins comments to section fields and lets authors or editors resolve them', async () => {
+    const { id } = await service.createCase(author, draftFields);
+
+    await expect(service.addComment(viewer, id, 'exportFormat', 'Hmm')).rejects.toMatchObject({ statusCode: 400 });
+    await expect(service.addComment(viewer, id, 'businessChallenge', 'Hmm')).rejects.toMatchObject({ statusCode: 400 });
+
+    const comment = await service.addComment(viewer, id, 'businessImpactROI.executiveKPI.currentState', 'Source?');
+    await service.addComment(cfo, id, 'businessChallenge.dollarCost', 'Show the math');
+
+    expect(await service.listComments(author, id, 'businessChallenge.dollarCost')).toHaveLength(1);
+    expect((await service.getCase(author, id)).openComments).toBe(2);
+
+    const resolved = await service.resolveComment(author, id, comment.id);
+    expect(resolved).toMatchObject({ resolvedBy: 'user_author' });
+    expect((await service.getCase(author, id)).openComments).toBe(1);
+  });
+
+  it('lets the owner approve personal cases without reviewers', async () => {
+    const { id } = await service.createCase(solo, completeFields());
+
+    await expect(service.assignReviewers(solo, id, ['user_cfo'])).rejects.toMatchObject({ statusCode: 400 });
+    await service.transition(solo, id, 'submit');
+    expect(await service.transition(solo, id, 'approve')).toMatchObject({ status: 'approved', approvedBy: 'user_solo' });
+
+    await expect(service.transition(solo, id, 'reopen')).rejects.toMatchObject({ statusCode: 400 });
+    expect(await service.transition(solo, id, 'reopen', 'New pricing')).toMatchObject({ status: 'draft' });
+  });
+
+  it('snapshots every save and diffs versions by section with change sources', async () => {
+    const { id } = await service.createCase(author, draftFields);
+    await service.updateCase(author, id, {
+      'header.priorityHeadline': 'Cut onboarding time in half',
+      'executiveSummary.fullSummary': 'Because onboarding is manual...'
+    }, AutoPopulationSource.AI_GENERATED);
+    await service.updateCase(author, id, { 'businessImpactROI.executiveKPI': {
+      impactArea: 'Onboarding', currentState: '30 days', targetByDate: '15 days by Q3', strategicValue: 'Faster revenue'
+    } }, AutoPopulationSource.ICP);
+    await service.updateCase(author, id, { 'businessImpactROI.executiveKPI.currentState': '28 days' });
+
+    const versions = await service.listVersions(viewer, id);
+    expect(versions.map(entry => [entry.version, entry.kind, entry.sources])).toEqual([
+      [4, 'updated', ['manual']],
+      [3, 'updated', ['auto_population']],
+      [2, 'updated', ['ai_generated']],
+      [1, 'created', ['manual']]
+    ]);
+    expect((await service.getVersion(viewer, id, 1)).data.header.priorityHeadline).toBe('');
+
+    const diff = await service.compareVersions(viewer, id, 1);
+    expect(diff).toMatchObject({ fromVersion: 1, toVersion: 4, totalChanges: 6, settings: [] });
+    expect(diff.sections.map(section => section.changes.length)).toEqual([1, 1, 0, 0, 4, 0, 0]);
+    expect(diff.sections[4].changes).toEqual(expect.arrayContaining([
+      expect.objectContaining({ path: 'businessImpactROI.executiveKPI.impactArea', source: 'auto_population', autoPopulationSource: 'ICP' }),
+      expect.objectContaining({ path: 'businessImpactROI.executiveKPI.currentState', before: '', after: '28 days', source: 'manual' })
+    ]));
+    expect(diff.sections[0].changes[0]).toMatchObject({ path: 'header.priorityHeadline', source: 'ai_generated' });
+  });
+
+  it('restores an earlier version as a new version', async () => {
+    const { id } = await service.createCase(author, draftFields);
+    await service.updateCase(author, id, { 'header.companyName': 'Acme Corp', 'businessChallenge.dollarCost': 90000 });
+
+    await expect(service.restoreVersion(viewer, id, 1)).rejects.toMatchObject({ statusCode: 403 });
+    await expect(service.restoreVersion(author, id, 7)).rejects.toMatchObject({ statusCode: 404 });
+    await expect(service.restoreVersion(author, id, 2)).rejects.toMatchObject({ statusCode: 400 });
+
+    const restored = await service.restoreVersion(author, id, 1);
+    expect(restored.data).toMatchObject({ id, version: 3, header: { companyName: 'Acme' }, businessChallenge: { dollarCost: 0 } });
+    expect(await service.listVersions(author, id)).toContainEqual(expect.objectContaining({
+      version: 3,
+      kind: 'restored',
+      restoredFrom: 1,
+      changedFields: ['header.companyName', 'businessChallenge.dollarCost']
+    }));
+    expect((await service.getAuditTrail(author, id)).pop()).toMatchObject({ action: 'restored', details: { restoredFrom: 1 } });
+  });
+});
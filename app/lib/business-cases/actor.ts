@@ -0,0 +1,21 @@
+/**
+ * Business Case Actor
+ *
+ * Who is working on business cases in a request, and in which workspace.
+ */
+
+import { NextRequest } from 'next/server';
+import type { AuthContext } from '@/app/lib/middleware/auth';
+import { getUsageCustomerId } from '@/app/lib/middleware/usage-quota';
+import { resolveWorkspaceScope } from '@/app/lib/workspaces/scope';
+import type { BusinessCaseActor } from './workflowService';
+
+export async function resolveCaseActor(request: NextRequest, auth: AuthContext): Promise<BusinessCaseActor> {
+  const customerId = getUsageCustomerId(auth);
+
+  return {
+    userId: auth.user.id,
+    customerId,
+    scope: await resolveWorkspaceScope(request, auth.user, customerId)
+  };
+}
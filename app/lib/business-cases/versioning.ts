@@ -0,0 +1,134 @@
+/**
+ * Business Case Versioning
+ *
+ * Field-level diff between two snapshots of a business case, grouped by
+ * section, with where each change came from (auto-population, AI generation
+ * or a manual edit) read from fieldMetadata. Pure functions, safe to use in
+ * the browser for the side-by-side view.
+ */
+
+import {
+  AutoPopulationSource,
+  BusinessCaseData,
+  FieldMetadata
+} from '@/src/features/cost-business-case/business-case/BusinessCaseTypes';
+import { BUSINESS_CASE_SECTIONS, BUSINESS_CASE_SETTINGS, BusinessCaseSection, getAt } from './workflow';
+
+export type ChangeSource = 'auto_population' | 'ai_generated' | 'manual';
+
+export const CHANGE_SOURCE_LABELS: Record<ChangeSource, string> = {
+  auto_population: 'Auto-populated',
+  ai_generated: 'AI generated',
+  manual: 'Manual edit'
+};
+
+export interface FieldChange {
+  /** Leaf path, e.g. businessImpactROI.executiveKPI.currentState */
+  path: string;
+  before: unknown;
+  after: unknown;
+  source: ChangeSource;
+  /** Where auto-populated values came from (ICP, cost calculator, ...) */
+  autoPopulationSource?: AutoPopulationSource;
+  confidence?: number;
+}
+
+export interface SectionDiff {
+  section: BusinessCaseSection;
+  changes: FieldChange[];
+}
+
+export interface BusinessCaseDiff {
+  fromVersion: number;
+  toVersion: number;
+  /** All seven sections in document order, unchanged ones with no changes */
+  sections: SectionDiff[];
+  /** Export format, charts, branding and linked analyses */
+  settings: FieldChange[];
+  totalChanges: number;
+}
+
+export function isAutoPopulationSource(value: unknown): value is AutoPopulationSource {
+  return Object.values(AutoPopulationSource).includes(value as AutoPopulationSource);
+}
+
+export function getChangeSource(source: AutoPopulationSource | undefined): ChangeSource {
+  switch (source) {
+    case AutoPopulationSource.AI_GENERATED:
+      return 'ai_generated';
+    case AutoPopulationSource.ICP:
+    case AutoPopulationSource.COST_CALCULATOR:
+    case AutoPopulationSource.HYBRID:
+      return 'auto_population';
+    default:
+      return 'manual';
+  }
+}
+
+/**
+ * Metadata of a field, falling back to its closest parent (auto-population
+ * records some composite fields, e.g. businessImpactROI.executiveKPI, as a whole)
+ */
+export function getFieldMetadata(data: Partial<BusinessCaseData>, path: string): FieldMetadata | undefined {
+  const metadata = data.fieldMetadata || {};
+  const keys = path.split('.');
+
+  for (let length = keys.length; length > 0; length--) {
+    const entry = metadata[keys.slice(0, length).join('.')];
+    if (entry) return entry;
+  }
+  return undefined;
+}
+
+function isLeaf(value: unknown): boolean {
+  return !value || typeof value !== 'object' || Array.isArray(value) || value instanceof Date;
+}
+
+/** Leaf paths under `path` whose values differ (arrays and dates compare as a whole) */
+function changedLeaves(before: unknown, after: unknown, path: string): string[] {
+  if (isLeaf(before) || isLeaf(after)) {
+    return JSON.stringify(before) === JSON.stringify(after) ? [] : [path];
+  }
+
+  const keys = new Set([...Object.keys(before as object), ...Object.keys(after as object)]);
+  return [...keys].flatMap(key => changedLeaves(getAt(before, key), getAt(after, key), `${path}.${key}`));
+}
+
+/**
+ * Paths of the section fields and settings that differ between two versions
+ */
+export function listChangedPaths(before: Partial<BusinessCaseData>, after: Partial<BusinessCaseData>): string[] {
+  return [...BUSINESS_CASE_SECTIONS, ...BUSINESS_CASE_SETTINGS]
+    .flatMap(key => changedLeaves(getAt(before, key), getAt(after, key), key));
+}
+
+function toChange(before: Partial<BusinessCaseData>, after: Partial<BusinessCaseData>, path: string): FieldChange {
+  const metadata = getFieldMetadata(after, path);
+  return {
+    path,
+    before: getAt(before, path),
+    after: getAt(after, path),
+    source: getChangeSource(metadata?.source),
+    ...(metadata && metadata.source !== AutoPopulationSource.USER_PROVIDED ? { autoPopulationSource: metadata.source } : {}),
+    ...(metadata?.confidence !== undefined ? { confidence: metadata.confidence } : {})
+  };
+}
+
+/**
+ * Field-level diff from one version to another, grouped by section
+ */
+export function diffBusinessCases(before: Partial<BusinessCaseData>, after: Partial<BusinessCaseData>): BusinessCaseDiff {
+  const changes = listChangedPaths(before, after).map(path => toChange(before, after, path));
+  const sectionOf = (path: string) => path.split('.')[0];
+
+  return {
+    fromVersion: before.version ?? 0,
+    toVersion: after.version ?? 0,
+    sections: BUSINESS_CASE_SECTIONS.map(section => ({
+      section,
+      changes: changes.filter(change => sectionOf(change.path) === section)
+    })),
+    settings: changes.filter(change => (BUSINESS_CASE_SETTINGS as readonly string[]).includes(sectionOf(change.path))),
+    totalChanges: changes.length
+  };
+}
@@ -0,0 +1,147 @@
+/**
+ * Business Case Workflow Rules
+ *
+ * Statuses, allowed transitions and the field requirements each status has
+ * (REQUIRED_FIELDS_BY_STATUS). Pure functions, safe to use in the browser to
+ * show what a case still needs before it can move on.
+ */
+
+import {
+  BUSINESS_CASE_DEFAULTS,
+  BusinessCaseData,
+  REQUIRED_FIELDS_BY_STATUS
+} from '@/src/features/cost-business-case/business-case/BusinessCaseTypes';
+
+export type BusinessCaseStatus = BusinessCaseData['status'];
+
+export type WorkflowAction = 'submit' | 'withdraw' | 'approve' | 'reject' | 'reopen' | 'finalize';
+
+export interface WorkflowTransition {
+  from: BusinessCaseStatus[];
+  to: BusinessCaseStatus;
+  /** Reason the actor must give (shown in the audit trail) */
+  requiresReason?: boolean;
+  label: string;
+}
+
+/** The seven sections of a business case, in document order */
+export const BUSINESS_CASE_SECTIONS = [
+  'header',
+  'executiveSummary',
+  'businessChallenge',
+  'approachDifferentiation',
+  'businessImpactROI',
+  'investmentImplementation',
+  'strategyNextSteps'
+] as const;
+
+export type BusinessCaseSection = typeof BUSINESS_CASE_SECTIONS[number];
+
+/** Top-level settings that can be edited besides the section fields */
+export const BUSINESS_CASE_SETTINGS = [
+  'exportFormat',
+  'includeCharts',
+  'brandingSettings',
+  'icpAnalysisId',
+  'costCalculatorId'
+] as const;
+
+export const WORKFLOW_TRANSITIONS: Record<WorkflowAction, WorkflowTransition> = {
+  submit: { from: ['draft'], to: 'review', label: 'Submit for review' },
+  withdraw: { from: ['review'], to: 'draft', label: 'Withdraw from review' },
+  // Moves to approved once every assigned reviewer has approved
+  approve: { from: ['review'], to: 'approved', label: 'Approve' },
+  reject: { from: ['review'], to: 'draft', requiresReason: true, label: 'Request changes' },
+  reopen: { from: ['approved'], to: 'draft', requiresReason: true, label: 'Reopen' },
+  finalize: { from: ['approved'], to: 'final', label: 'Mark final' }
+};
+
+/** Statuses whose content can be edited; approved cases must be reopened first */
+export const EDITABLE_STATUSES: BusinessCaseStatus[] = ['draft', 'review'];
+
+/** Statuses nothing can change any more */
+export const LOCKED_STATUSES: BusinessCaseStatus[] = ['final'];
+
+export function isWorkflowAction(action: unknown): action is WorkflowAction {
+  return typeof action === 'string' && Object.hasOwn(WORKFLOW_TRANSITIONS, action);
+}
+
+export function getAvailableActions(status: BusinessCaseStatus): WorkflowAction[] {
+  return (Object.keys(WORKFLOW_TRANSITIONS) as WorkflowAction[])
+    .filter(action => WORKFLOW_TRANSITIONS[action].from.includes(status));
+}
+
+/** Keys that would reach or replace an object's prototype */
+const UNSAFE_PATH_KEYS = ['__proto__', 'constructor', 'prototype'];
+
+export function isUnsafePathKey(key: string): boolean {
+  return UNSAFE_PATH_KEYS.includes(key);
+}
+
+/** Read a dotted path, following own properties only */
+export function getAt(source: unknown, path: string): unknown {
+  return path.split('.').reduce<unknown>(
+    (value, key) => (value && typeof value === 'object' && Object.hasOwn(value, key)
+      ? (value as Record<string, unknown>)[key]
+      : undefined),
+    source
+  );
+}
+
+/**
+ * A field of one of the seven sections, down to nested fields such as
+ * businessImpactROI.executiveKPI.currentState
+ */
+export function isSectionFieldPath(path: string): boolean {
+  const [section, ...rest] = path.split('.');
+  return (BUSINESS_CASE_SECTIONS as readonly string[]).includes(section)
+    && rest.length > 0
+    && !rest.some(isUnsafePathKey)
+    && getAt(BUSINESS_CASE_DEFAULTS, path) !== undefined;
+}
+
+/** A path that can be edited: a section field or a top-level setting */
+export function isEditablePath(path: string): boolean {
+  return isSectionFieldPath(path) || (BUSINESS_CASE_SETTINGS as readonly string[]).includes(path);
+}
+
+/**
+ * Fields (leaf paths) without a usable value. Strings must be non-blank,
+ * numbers positive and lists non-empty; objects are checked field by field.
+ */
+function missingAt(value: unknown, path: string, template: unknown): string[] {
+  if (Array.isArray(template) || Array.isArray(value)) {
+    return Array.isArray(value) && value.length > 0 ? [] : [path];
+  }
+
+  if (template instanceof Date) {
+    return value ? [] : [path];
+  }
+
+  if (template && typeof template === 'object') {
+    return Object.entries(template as Record<string, unknown>)
+      .flatMap(([key, child]) => missingAt(getAt(value, key), `${path}.${key}`, child));
+  }
+
+  if (typeof template === 'number') {
+    return typeof value === 'number' && value > 0 ? [] : [path];
+  }
+
+  if (typeof template === 'string') {
+    return typeof value === 'string' && value.trim() ? [] : [path];
+  }
+
+  return value === undefined || value === null ? [path] : [];
+}
+
+/**
+ * Fields a case still needs before it can be in the given status
+ */
+export function getMissingFields(data: Partial<BusinessCaseData>, status: BusinessCaseStatus): string[] {
+  const missing = REQUIRED_FIELDS_BY_STATUS[status].flatMap(required => {
+    const path = required.endsWith('.*') ? required.slice(0, -2) : required;
+    return missingAt(getAt(data, path), path, getAt(BUSINESS_CASE_DEFAULTS, path));
+  });
+
+  return [...new Set(missing)];
+}
@@ -0,0 +1,1202 @@
+/**
+ * FUNCTIONALITY STATUS: REAL
+ *
+ * REAL IMPLEMENTATIONS:
+ * - Business case review workflow: draft → review → approved → final, with
+ *   only the transitions in workflow.ts allowed
+ * - REQUIRED_FIELDS_BY_STATUS enforced whenever a case enters a status or is edited
+ * - Reviewer assignment (workspace members other than the author); a case is
+ *   approved once every reviewer approves, and any reviewer can request changes
+ * - Comments pinned to fields of the seven sections, resolvable
+ * - Audit trail of every edit, transition, approval and comment, with reasons
+ * - Final cases are locked (no edits, comments or deletion); approved cases
+ *   must be reopened before editing
+ * - business_case_approved events when a case is approved
+ * - Immutable snapshot of every save (create, edit, restore) and restore to an
+ *   earlier version
+ * - Field-level diff between versions, per section, labelled auto-populated,
+ *   AI generated or manual edit (from fieldMetadata)
+ * - Pluggable persistence (memory for development, Supabase for production)
+ *
+ * FAKE IMPLEMENTATIONS:
+ * - None - all functionality is production-ready
+ *
+ * MISSING REQUIREMENTS:
+ * - Supabase store needs the business_case_documents, business_case_comments
+ *   business_case_audit_log and business_case_versions tables
+ *   (see SupabaseBusinessCaseWorkflowStore)
+ *
+ * PRODUCTION READINESS: YES
+ * - Cases belong to the workspace (or personal scope) they were created in;
+ *   other scopes see them as not found
+ * - Edits during review reset the approvals collected so far
+ */
+
+import crypto from 'crypto';
+import { createAPIError, ErrorType } from '@/app/lib/middleware/error-handler';
+import { PERMISSIONS } from '@/app/lib/middleware/rbac';
+import { WorkspaceScope, requireScopePermission } from '@/app/lib/workspaces/scope';
+import { WorkspaceService, workspaceService } from '@/app/lib/workspaces/workspaceService';
+import {
+  AutoPopulationSource,
+  BUSINESS_CASE_DEFAULTS,
+  BusinessCaseData
+} from '@/src/features/cost-business-case/business-case/BusinessCaseTypes';
+import {
+  BUSINESS_CASE_SECTIONS,
+  BusinessCaseStatus,
+  EDITABLE_STATUSES,
+  LOCKED_STATUSES,
+  WORKFLOW_TRANSITIONS,
+  WorkflowAction,
+  getAt,
+  getAvailableActions,
+  getMissingFields,
+  isEditablePath,
+  isSectionFieldPath,
+  isUnsafePathKey
+} from './workflow';
+import {
+  BusinessCaseDiff,
+  ChangeSource,
+  diffBusinessCases,
+  getChangeSource,
+  getFieldMetadata,
+  listChangedPaths
+} from './versioning';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface BusinessCaseApproval {
+  userId: string;
+  reason?: string;
+  at: number;
+}
+
+export interface BusinessCaseRecord {
+  id: string;
+  /** Scope the case belongs to: a workspace id or the personal customer id */
+  ownerId: string;
+  workspaceId: string | null;
+  /** Customer billed for the case and notified through webhooks */
+  customerId: string;
+  status: BusinessCaseStatus;
+  data: BusinessCaseData;
+  reviewers: string[];
+  /** Approvals collected in the current review round */
+  approvals: BusinessCaseApproval[];
+  createdBy: string;
+  createdAt: number;
+  updatedAt: number;
+  approvedAt?: number;
+  approvedBy?: string;
+  finalizedAt?: number;
+}
+
+export interface BusinessCaseComment {
+  id: string;
+  caseId: string;
+  /** Section field the comment is pinned to, e.g. businessChallenge.dollarCost */
+  fieldPath: string;
+  body: string;
+  authorId: string;
+  createdAt: number;
+  resolvedAt?: number;
+  resolvedBy?: string;
+}
+
+export type BusinessCaseAuditAction =
+  | 'created'
+  | 'updated'
+  | 'reviewers_assigned'
+  | 'submitted'
+  | 'withdrawn'
+  | 'approval_recorded'
+  | 'approved'
+  | 'rejected'
+  | 'reopened'
+  | 'finalized'
+  | 'restored'
+  | 'commented'
+  | 'comment_resolved';
+
+export interface BusinessCaseAuditEntry {
+  id: string;
+  caseId: string;
+  action: BusinessCaseAuditAction;
+  actorId: string;
+  fromStatus?: BusinessCaseStatus;
+  toStatus?: BusinessCaseStatus;
+  reason?: string;
+  fieldPaths?: string[];
+  details?: Record<string, unknown>;
+  at: number;
+}
+
+/** Immutable snapshot taken on every save */
+export interface BusinessCaseVersion {
+  caseId: string;
+  /** Matches data.version */
+  version: number;
+  kind: 'created' | 'updated' | 'restored';
+  data: BusinessCaseData;
+  status: BusinessCaseStatus;
+  changedFields: string[];
+  /** Where the changed fields came from */
+  sources: ChangeSource[];
+  /** Version whose content was restored */
+  restoredFrom?: number;
+  createdBy: string;
+  createdAt: number;
+}
+
+export type BusinessCaseVersionSummary = Omit<BusinessCaseVersion, 'data'>;
+
+/** Case as returned to the client, with what the caller can do next */
+export interface BusinessCaseView extends BusinessCaseRecord {
+  availableActions: WorkflowAction[];
+  missingForNextStatus: string[];
+  openComments: number;
+}
+
+/** The signed-in user working on cases in a scope */
+export interface BusinessCaseActor {
+  userId: string;
+  /** Usage customer id (getUsageCustomerId) */
+  customerId: string;
+  scope: WorkspaceScope;
+}
+
+// ============================================================================
+// STORES
+// ============================================================================
+
+export interface BusinessCaseWorkflowStore {
+  readonly name: string;
+  saveCase(record: BusinessCaseRecord): Promise<void>;
+  getCase(id: string): Promise<BusinessCaseRecord | null>;
+  /** Most recently updated first */
+  listCases(ownerId: string): Promise<BusinessCaseRecord[]>;
+  /** Delete a case with its comments, audit trail and versions */
+  deleteCase(id: string): Promise<void>;
+  saveComment(comment: BusinessCaseComment): Promise<void>;
+  /** Oldest first */
+  listComments(caseId: string): Promise<BusinessCaseComment[]>;
+  appendAudit(entry: BusinessCaseAuditEntry): Promise<void>;
+  /** Oldest first */
+  listAudit(caseId: string): Promise<BusinessCaseAuditEntry[]>;
+  saveVersion(version: BusinessCaseVersion): Promise<void>;
+  getVersion(caseId: string, version: number): Promise<BusinessCaseVersion | null>;
+  /** Newest first, without the snapshot data */
+  listVersions(caseId: string): Promise<BusinessCaseVersionSummary[]>;
+}
+
+/**
+ * Process-local store. Cases reset on restart, so only use it for development.
+ */
+export class MemoryBusinessCaseWorkflowStore implements BusinessCaseWorkflowStore {
+  readonly name = 'memory';
+  private cases = new Map<string, BusinessCaseRecord>();
+  private comments = new Map<string, BusinessCaseComment>();
+  private audit: BusinessCaseAuditEntry[] = [];
+  private versions = new Map<string, BusinessCaseVersion>();
+
+  async saveCase(record: BusinessCaseRecord): Promise<void> {
+    this.cases.set(record.id, structuredClone(record));
+  }
+
+  async getCase(id: string): Promise<BusinessCaseRecord | null> {
+    const record = this.cases.get(id);
+    return record ? structuredClone(record) : null;
+  }
+
+  async listCases(ownerId: string): Promise<BusinessCaseRecord[]> {
+    return [...this.cases.values()]
+      .filter(record => record.ownerId === ownerId)
+      .sort((a, b) => b.updatedAt - a.updatedAt)
+      .map(record => structuredClone(record));
+  }
+
+  async deleteCase(id: string): Promise<void> {
+    this.cases.delete(id);
+    [...this.comments.values()]
+      .filter(comment => comment.caseId === id)
+      .forEach(comment => this.comments.delete(comment.id));
+    this.audit = this.audit.filter(entry => entry.caseId !== id);
+    [...this.versions.keys()]
+      .filter(key => key.startsWith(`${id}:`))
+      .forEach(key => this.versions.delete(key));
+  }
+
+  async saveComment(comment: BusinessCaseComment): Promise<void> {
+    this.comments.set(comment.id, { ...comment });
+  }
+
+  async listComments(caseId: string): Promise<BusinessCaseComment[]> {
+    return [...this.comments.values()]
+      .filter(comment => comment.caseId === caseId)
+      .sort((a, b) => a.createdAt - b.createdAt)
+      .map(comment => ({ ...comment }));
+  }
+
+  async appendAudit(entry: BusinessCaseAuditEntry): Promise<void> {
+    this.audit.push(structuredClone(entry));
+  }
+
+  async listAudit(caseId: string): Promise<BusinessCaseAuditEntry[]> {
+    return this.audit
+      .filter(entry => entry.caseId === caseId)
+      .map(entry => structuredClone(entry));
+  }
+
+  async saveVersion(version: BusinessCaseVersion): Promise<void> {
+    const key = `${version.caseId}:${version.version}`;
+    if (this.versions.has(key)) {
+      throw createAPIError(ErrorType.DATABASE, 'Business case version already exists', 500, { key });
+    }
+    this.versions.set(key, structuredClone(version));
+  }
+
+  async getVersion(caseId: string, version: number): Promise<BusinessCaseVersion | null> {
+    const snapshot = this.versions.get(`${caseId}:${version}`);
+    return snapshot ? structuredClone(snapshot) : null;
+  }
+
+  async listVersions(caseId: string): Promise<BusinessCaseVersionSummary[]> {
+    return [...this.versions.values()]
+      .filter(version => version.caseId === caseId)
+      .sort((a, b) => b.version - a.version)
+      .map(({ data: _data, ...summary }) => structuredClone(summary));
+  }
+
+  clear(): void {
+    this.cases.clear();
+    this.comments.clear();
+    this.audit = [];
+    this.versions.clear();
+  }
+}
+
+/**
+ * Supabase-backed store. Expected tables:
+ *
+ *   create table business_case_documents (
+ *     id text primary key,
+ *     owner_id text not null,
+ *     workspace_id text,
+ *     customer_id text not null,
+ *     status text not null,
+ *     data jsonb not null,
+ *     reviewers jsonb not null default '[]',
+ *     approvals jsonb not null default '[]',
+ *     created_by text not null,
+ *     created_at timestamptz not null default now(),
+ *     updated_at timestamptz not null default now(),
+ *     approved_at timestamptz,
+ *     approved_by text,
+ *     finalized_at timestamptz
+ *   );
+ *   create index on business_case_documents (owner_id, updated_at desc);
+ *
+ *   create table business_case_comments (
+ *     id text primary key,
+ *     case_id text not null references business_case_documents(id) on delete cascade,
+ *     field_path text not null,
+ *     body text not null,
+ *     author_id text not null,
+ *     created_at timestamptz not null default now(),
+ *     resolved_at timestamptz,
+ *     resolved_by text
+ *   );
+ *
+ *   create table business_case_audit_log (
+ *     id text primary key,
+ *     case_id text not null references business_case_documents(id) on delete cascade,
+ *     action text not null,
+ *     actor_id text not null,
+ *     from_status text,
+ *     to_status text,
+ *     reason text,
+ *     field_paths jsonb,
+ *     details jsonb,
+ *     created_at timestamptz not null default now()
+ *   );
+ *
+ *   create table business_case_versions (
+ *     case_id text not null references business_case_documents(id) on delete cascade,
+ *     version integer not null,
+ *     kind text not null,
+ *     data jsonb not null,
+ *     status text not null,
+ *     changed_fields jsonb not null default '[]',
+ *     sources jsonb not null default '[]',
+ *     restored_from integer,
+ *     created_by text not null,
+ *     created_at timestamptz not null default now(),
+ *     primary key (case_id, version)
+ *   );
+ */
+export class SupabaseBusinessCaseWorkflowStore implements BusinessCaseWorkflowStore {
+  readonly name = 'supabase';
+
+  async saveCase(record: BusinessCaseRecord): Promise<void> {
+    const client = await this.client();
+    const { error } = await (client.from('business_case_documents') as any).upsert({
+      id: record.id,
+      owner_id: record.ownerId,
+      workspace_id: record.workspaceId,
+      customer_id: record.customerId,
+      status: record.status,
+      data: record.data,
+      reviewers: record.reviewers,
+      approvals: record.approvals,
+      created_by: record.createdBy,
+      created_at: new Date(record.createdAt).toISOString(),
+      updated_at: new Date(record.updatedAt).toISOString(),
+      approved_at: record.approvedAt ? new Date(record.approvedAt).toISOString() : null,
+      approved_by: record.approvedBy ?? null,
+      finalized_at: record.finalizedAt ? new Date(record.finalizedAt).toISOString() : null
+    });
+
+    if (error) {
+      throw createAPIError(ErrorType.DATABASE, 'Failed to save business case', 500, { caseId: record.id });
+    }
+  }
+
+  async getCase(id: string): Promise<BusinessCaseRecord | null> {
+    const client = await this.client();
+    const { data, error } = await (client.from('business_case_documents') as any)
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) {
+      throw createAPIError(ErrorType.DATABASE, 'Failed to load business case', 500, { caseId: id });
+    }
+
+    return data ? this.toRecord(data) : null;
+  }
+
+  async listCases(ownerId: string): Promise<BusinessCaseRecord[]> {
+    const client = await this.client();
+    const { data, error } = await (client.from('business_case_documents') as any)
+      .select('*')
+      .eq('owner_id', ownerId)
+      .order('updated_at', { ascending: false });
+
+    if (error) {
+      throw createAPIError(ErrorType.DATABASE, 'Failed to load business cases', 500, { ownerId });
+    }
+
+    return ((data || []) as any[]).map(row => this.toRecord(row));
+  }
+
+  async deleteCase(id: string): Promise<void> {
+    // Comments, audit entries and versions go with it (on delete cascade)
+    const client = await this.client();
+    const { error } = await (client.from('business_case_documents') as any).delete().eq('id', id);
+
+    if (error) {
+      throw createAPIError(ErrorType.DATABASE, 'Failed to delete business case', 500, { caseId: id });
+    }
+  }
+
+  async saveComment(comment: BusinessCaseComment): Promise<void> {
+    const client = await this.client();
+    const { error } = await (client.from('business_case_comments') as any).upsert({
+      id: comment.id,
+      case_id: comment.caseId,
+      field_path: comment.fieldPath,
+      body: comment.body,
+      author_id: comment.authorId,
+      created_at: new Date(comment.createdAt).toISOString(),
+      resolved_at: comment.resolvedAt ? new Date(comment.resolvedAt).toISOString() : null,
+      resolved_by: comment.resolvedBy ?? null
+    });
+
+    if (error) {
+      throw createAPIError(ErrorType.DATABASE, 'Failed to save business case comment', 500, { commentId: comment.id });
+    }
+  }
+
+  async listComments(caseId: string): Promise<BusinessCaseComment[]> {
+    const client = await this.client();
+    const { data, error } = await (client.from('business_case_comments') as any)
+      .select('*')
+      .eq('case_id', caseId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      throw createAPIError(ErrorType.DATABASE, 'Failed to load business case comments', 500, { caseId });
+    }
+
+    return ((data || []) as any[]).map(row => ({
+      id: row.id,
+      caseId: row.case_id,
+      fieldPath: row.field_path,
+      body: row.body,
+      authorId: row.author_id,
+      createdAt: Date.parse(row.created_at),
+      resolvedAt: row.resolved_at ? Date.parse(row.resolved_at) : undefined,
+      resolvedBy: row.resolved_by ?? undefined
+    }));
+  }
+
+  async appendAudit(entry: BusinessCaseAuditEntry): Promise<void> {
+    const client = await this.client();
+    const { error } = await (client.from('business_case_audit_log') as any).insert({
+      id: entry.id,
+      case_id: entry.caseId,
+      action: entry.action,
+      actor_id: entry.actorId,
+      from_status: entry.fromStatus ?? null,
+      to_status: entry.toStatus ?? null,
+      reason: entry.reason ?? null,
+      field_paths: entry.fieldPaths ?? null,
+      details: entry.details ?? null,
+      created_at: new Date(entry.at).toISOString()
+    });
+
+    if (error) {
+      throw createAPIError(ErrorType.DATABASE, 'Failed to record business case audit entry', 500, { caseId: entry.caseId });
+    }
+  }
+
+  async listAudit(caseId: string): Promise<BusinessCaseAuditEntry[]> {
+    const client = await this.client();
+    const { data, error } = await (client.from('business_case_audit_log') as any)
+      .select('*')
+      .eq('case_id', caseId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      throw createAPIError(ErrorType.DATABASE, 'Failed to load business case audit trail', 500, { caseId });
+    }
+
+    return ((data || []) as any[]).map(row => ({
+      id: row.id,
+      caseId: row.case_id,
+      action: row.action,
+      actorId: row.actor_id,
+      fromStatus: row.from_status ?? undefined,
+      toStatus: row.to_status ?? undefined,
+      reason: row.reason ?? undefined,
+      fieldPaths: row.field_paths ?? undefined,
+      details: row.details ?? undefined,
+      at: Date.parse(row.created_at)
+    }));
+  }
+
+  async saveVersion(version: BusinessCaseVersion): Promise<void> {
+    const client = await this.client();
+    const { error } = await (client.from('business_case_versions') as any).insert({
+      case_id: version.caseId,
+      version: version.version,
+      kind: version.kind,
+      data: version.data,
+      status: version.status,
+      changed_fields: version.changedFields,
+      sources: version.sources,
+      restored_from: version.restoredFrom ?? null,
+      created_by: version.createdBy,
+      created_at: new Date(version.createdAt).toISOString()
+    });
+
+    if (error) {
+      throw createAPIError(ErrorType.DATABASE, 'Failed to save business case version', 500, {
+        caseId: version.caseId,
+        version: version.version
+      });
+    }
+  }
+
+  async getVersion(caseId: string, version: number): Promise<BusinessCaseVersion | null> {
+    const client = await this.client();
+    const { data, error } = await (client.from('business_case_versions') as any)
+      .select('*')
+      .eq('case_id', caseId)
+      .eq('version', version)
+      .maybeSingle();
+
+    if (error) {
+      throw createAPIError(ErrorType.DATABASE, 'Failed to load business case version', 500, { caseId, version });
+    }
+
+    return data ? { ...this.toVersionSummary(data), data: data.data } : null;
+  }
+
+  async listVersions(caseId: string): Promise<BusinessCaseVersionSummary[]> {
+    const client = await this.client();
+    const { data, error } = await (client.from('business_case_versions') as any)
+      .select('case_id, version, kind, status, changed_fields, sources, restored_from, created_by, created_at')
+      .eq('case_id', caseId)
+      .order('version', { ascending: false });
+
+    if (error) {
+      throw createAPIError(ErrorType.DATABASE, 'Failed to load business case versions', 500, { caseId });
+    }
+
+    return ((data || []) as any[]).map(row => this.toVersionSummary(row));
+  }
+
+  private toVersionSummary(row: any): BusinessCaseVersionSummary {
+    return {
+      caseId: row.case_id,
+      version: row.version,
+      kind: row.kind,
+      status: row.status,
+      changedFields: row.changed_fields || [],
+      sources: row.sources || [],
+      restoredFrom: row.restored_from ?? undefined,
+      createdBy: row.created_by,
+      createdAt: Date.parse(row.created_at)
+    };
+  }
+
+  private toRecord(row: any): BusinessCaseRecord {
+    return {
+      id: row.id,
+      ownerId: row.owner_id,
+      workspaceId: row.workspace_id ?? null,
+      customerId: row.customer_id,
+      status: row.status,
+      data: row.data,
+      reviewers: row.reviewers || [],
+      approvals: row.approvals || [],
+      createdBy: row.created_by,
+      createdAt: Date.parse(row.created_at),
+      updatedAt: Date.parse(row.updated_at),
+      approvedAt: row.approved_at ? Date.parse(row.approved_at) : undefined,
+      approvedBy: row.approved_by ?? undefined,
+      finalizedAt: row.finalized_at ? Date.parse(row.finalized_at) : undefined
+    };
+  }
+
+  private async client() {
+    const { supabaseAdmin } = await import('@/app/lib/supabase/admin');
+    return supabaseAdmin;
+  }
+}
+
+/**
+ * Build the store configured through BUSINESS_CASE_STORE (memory | supabase)
+ */
+export function createBusinessCaseWorkflowStore(
+  type: string | undefined = process.env.BUSINESS_CASE_STORE
+): BusinessCaseWorkflowStore {
+  if (type === 'supabase') {
+    return new SupabaseBusinessCaseWorkflowStore();
+  }
+
+  if (type && type !== 'memory') {
+    console.warn(`⚠️ Unknown BUSINESS_CASE_STORE "${type}", falling back to memory`);
+  }
+
+  return new MemoryBusinessCaseWorkflowStore();
+}
+
+// ============================================================================
+// WORKFLOW SERVICE
+// ============================================================================
+
+const NEXT_STATUS: Partial<Record<BusinessCaseStatus, BusinessCaseStatus>> = {
+  draft: 'review',
+  review: 'approved',
+  approved: 'final'
+};
+
+const AUDIT_ACTIONS: Record<WorkflowAction, BusinessCaseAuditAction> = {
+  submit: 'submitted',
+  withdraw: 'withdrawn',
+  approve: 'approved',
+  reject: 'rejected',
+  reopen: 'reopened',
+  finalize: 'finalized'
+};
+
+/** Write a dotted path, creating own objects on the way and never touching prototypes */
+function setAt(target: Record<string, any>, path: string, value: unknown): void {
+  const keys = path.split('.');
+  if (keys.some(isUnsafePathKey)) {
+    throw createAPIError(ErrorType.VALIDATION, `Invalid business case field: ${path}`, 400, { fields: [path] });
+  }
+
+  const parent = keys.slice(0, -1).reduce((node, key) => {
+    if (!Object.hasOwn(node, key) || !node[key] || typeof node[key] !== 'object') node[key] = {};
+    return node[key];
+  }, target);
+  parent[keys[keys.length - 1]] = value;
+}
+
+function caseTitle(data: BusinessCaseData): string | undefined {
+  return data.header?.priorityHeadline || data.header?.companyName || undefined;
+}
+
+export class BusinessCaseWorkflowService {
+  private store: BusinessCaseWorkflowStore;
+  private workspaces: Pick<WorkspaceService, 'requireMember'>;
+
+  constructor(
+    store: BusinessCaseWorkflowStore = createBusinessCaseWorkflowStore(),
+    workspaces: Pick<WorkspaceService, 'requireMember'> = workspaceService
+  ) {
+    this.store = store;
+    this.workspaces = workspaces;
+  }
+
+  // ==========================================================================
+  // CASES
+  // ==========================================================================
+
+  /**
+   * Create a draft from the section fields given (the rest from the defaults)
+   *
+   * @param source - Where the values came from, recorded in fieldMetadata
+   */
+  async createCase(
+    actor: BusinessCaseActor,
+    fields: Record<string, unknown> = {},
+    source: AutoPopulationSource = AutoPopulationSource.USER_PROVIDED
+  ): Promise<BusinessCaseView> {
+    requireScopePermission(actor.scope, PERMISSIONS.CREATE_BUSINESS_CASE);
+
+    const now = Date.now();
+    const id = `bcase_${crypto.randomUUID()}`;
+    const data = structuredClone({
+      ...BUSINESS_CASE_DEFAULTS,
+      header: { ...BUSINESS_CASE_DEFAULTS.header!, generatedDate: new Date(now) }
+    }) as BusinessCaseData;
+    const changed = this.applyFields(data, fields);
+    this.markSource(data, changed, source);
+
+    Object.assign(data, { id, version: 1, status: 'draft', createdBy: actor.userId, lastModified: new Date(now) });
+    this.requireFields(data, 'draft');
+
+    const record: BusinessCaseRecord = {
+      id,
+      ownerId: actor.scope.ownerId,
+      workspaceId: actor.scope.workspaceId,
+      customerId: actor.customerId,
+      status: 'draft',
+      data,
+      reviewers: [],
+      approvals: [],
+      createdBy: actor.userId,
+      createdAt: now,
+      updatedAt: now
+    };
+
+    await this.store.saveCase(record);
+    await this.snapshot(record, actor, 'created', changed);
+    await this.audit(record, actor, 'created', { fieldPaths: changed });
+    console.log(`📝 Business case ${id} created by ${actor.userId}`);
+    return this.toView(record);
+  }
+
+  async listCases(actor: BusinessCaseActor): Promise<BusinessCaseView[]> {
+    requireScopePermission(actor.scope, PERMISSIONS.VIEW_BUSINESS_CASE);
+    const records = await this.store.listCases(actor.scope.ownerId);
+    return Promise.all(records.map(record => this.toView(record)));
+  }
+
+  async getCase(actor: BusinessCaseActor, caseId: string): Promise<BusinessCaseView> {
+    return this.toView(await this.requireCase(actor, caseId));
+  }
+
+  /**
+   * Delete a case that isn't final, with its comments, audit trail and versions
+   */
+  async deleteCase(actor: BusinessCaseActor, caseId: string): Promise<void> {
+    requireScopePermission(actor.scope, PERMISSIONS.UPDATE_BUSINESS_CASE);
+    const record = await this.requireCase(actor, caseId);
+    this.requireUnlocked(record);
+
+    await this.store.deleteCase(record.id);
+    console.log(`🗑️ Business case ${record.id} deleted by ${actor.userId}`);
+  }
+
+  /**
+   * Edit fields by path ({ 'businessChallenge.dollarCost': 250000 }). Only
+   * drafts and cases in review can be edited; edits in review reset approvals.
+   * Every edit is saved as a new version.
+   *
+   * @param source - Where the new values came from, recorded in fieldMetadata
+   */
+  async updateCase(
+    actor: BusinessCaseActor,
+    caseId: string,
+    fields: Record<string, unknown>,
+    source: AutoPopulationSource = AutoPopulationSource.USER_PROVIDED
+  ): Promise<BusinessCaseView> {
+    requireScopePermission(actor.scope, PERMISSIONS.UPDATE_BUSINESS_CASE);
+    const record = await this.requireCase(actor, caseId);
+    this.requireEditable(record);
+
+    const changed = this.applyFields(record.data, fields);
+    if (changed.length === 0) {
+      throw createAPIError(ErrorType.VALIDATION, 'No fields to update', 400);
+    }
+    this.requireFields(record.data, record.status);
+    this.markSource(record.data, changed, source);
+
+    const approvalsReset = record.approvals.length;
+    record.approvals = [];
+    record.data.version += 1;
+    record.data.lastModified = new Date();
+    record.updatedAt = Date.now();
+
+    await this.store.saveCase(record);
+    await this.snapshot(record, actor, 'updated', changed);
+    await this.audit(record, actor, 'updated', {
+      fieldPaths: changed,
+      details: approvalsReset ? { approvalsReset } : undefined
+    });
+    return this.toView(record);
+  }
+
+  // ==========================================================================
+  // VERSIONS
+  // ==========================================================================
+
+  async listVersions(actor: BusinessCaseActor, caseId: string): Promise<BusinessCaseVersionSummary[]> {
+    await this.requireCase(actor, caseId);
+    return this.store.listVersions(caseId);
+  }
+
+  async getVersion(actor: BusinessCaseActor, caseId: string, version: number): Promise<BusinessCaseVersion> {
+    await this.requireCase(actor, caseId);
+    return this.requireVersion(caseId, version);
+  }
+
+  /**
+   * Field-level diff between two versions (to defaults to the current one)
+   */
+  async compareVersions(
+    actor: BusinessCaseActor,
+    caseId: string,
+    fromVersion: number,
+    toVersion?: number
+  ): Promise<BusinessCaseDiff> {
+    const record = await this.requireCase(actor, caseId);
+    const from = await this.requireVersion(caseId, fromVersion);
+    const to = toVersion === undefined || toVersion === record.data.version
+      ? record.data
+      : (await this.requireVersion(caseId, toVersion)).data;
+
+    return diffBusinessCases(from.data, to);
+  }
+
+  /**
+   * Bring back the content of an earlier version as a new version. Status,
+   * reviewers and comments stay as they are; restores in review reset approvals.
+   */
+  async restoreVersion(actor: BusinessCaseActor, caseId: string, version: number): Promise<BusinessCaseView> {
+    requireScopePermission(actor.scope, PERMISSIONS.UPDATE_BUSINESS_CASE);
+    const record = await this.requireCase(actor, caseId);
+    this.requireEditable(record);
+
+    const snapshot = await this.requireVersion(caseId, version);
+    const changed = listChangedPaths(record.data, snapshot.data);
+    if (changed.length === 0) {
+      throw createAPIError(ErrorType.VALIDATION, `The business case already matches version ${version}`, 400);
+    }
+
+    const restored = structuredClone(snapshot.data);
+    this.requireFields(restored, record.status);
+
+    record.data = {
+      ...restored,
+      id: record.id,
+      status: record.status,
+      createdBy: record.data.createdBy,
+      version: record.data.version + 1,
+      lastModified: new Date()
+    };
+    record.approvals = [];
+    record.updatedAt = Date.now();
+
+    await this.store.saveCase(record);
+    await this.snapshot(record, actor, 'restored', changed, version);
+    await this.audit(record, actor, 'restored', { fieldPaths: changed, details: { restoredFrom: version } });
+    console.log(`⏪ Business case ${record.id} restored to version ${version} by ${actor.userId}`);
+    return this.toView(record);
+  }
+
+  // ==========================================================================
+  // REVIEW
+  // ==========================================================================
+
+  /**
+   * Replace the reviewers. Reviewers must be members of the case's workspace
+   * and can't be its author; personal cases have no reviewers.
+   */
+  async assignReviewers(actor: BusinessCaseActor, caseId: string, reviewerIds: string[]): Promise<BusinessCaseView> {
+    requireScopePermission(actor.scope, PERMISSIONS.UPDATE_BUSINESS_CASE);
+    const record = await this.requireCase(actor, caseId);
+    this.requireEditable(record);
+
+    const reviewers = [...new Set(reviewerIds.filter(id => typeof id === 'string' && id))];
+    if (!record.workspaceId && reviewers.length > 0) {
+      throw createAPIError(ErrorType.VALIDATION, 'Reviewers can only be assigned to business cases in a team workspace', 400);
+    }
+
+    if (record.workspaceId && record.status === 'review' && reviewers.length === 0) {
+      throw createAPIError(ErrorType.VALIDATION, 'A business case in review needs at least one reviewer', 400);
+    }
+
+    if (reviewers.includes(record.createdBy)) {
+      throw createAPIError(ErrorType.VALIDATION, "The author can't review their own business case", 400);
+    }
+
+    for (const reviewerId of reviewers) {
+      try {
+        await this.workspaces.requireMember(record.workspaceId!, reviewerId);
+      } catch {
+        throw createAPIError(ErrorType.VALIDATION, `Reviewer ${reviewerId} is not a member of this workspace`, 400, { reviewerId });
+      }
+    }
+
+    record.reviewers = reviewers;
+    record.approvals = record.approvals.filter(approval => reviewers.includes(approval.userId));
+    record.updatedAt = Date.now();
+
+    await this.store.saveCase(record);
+    await this.audit(record, actor, 'reviewers_assigned', { details: { reviewers } });
+    return this.toView(record);
+  }
+
+  /**
+   * Run a workflow action. approve/reject are for the assigned reviewers (the
+   * owner of a personal case approves it themselves); the rest need
+   * UPDATE_BUSINESS_CASE.
+   */
+  async transition(
+    actor: BusinessCaseActor,
+    caseId: string,
+    action: WorkflowAction,
+    reason?: string
+  ): Promise<BusinessCaseView> {
+    const transition = WORKFLOW_TRANSITIONS[action];
+    if (!transition) {
+      throw createAPIError(ErrorType.VALIDATION, `Unknown workflow action: ${action}`, 400, {
+        actions: Object.keys(WORKFLOW_TRANSITIONS)
+      });
+    }
+
+    const record = await this.requireCase(actor, caseId);
+    const note = reason?.trim() || undefined;
+
+    if (!transition.from.includes(record.status)) {
+      throw createAPIError(ErrorType.VALIDATION, `Can't ${action} a business case that is ${record.status}`, 409, {
+        status: record.status,
+        availableActions: getAvailableActions(record.status)
+      });
+    }
+
+    if (transition.requiresReason && !note) {
+      throw createAPIError(ErrorType.VALIDATION, `A reason is required to ${action} a business case`, 400);
+    }
+
+    if (action === 'approve' || action === 'reject') {
+      this.requireReviewer(actor, record);
+    } else {
+      requireScopePermission(actor.scope, PERMISSIONS.UPDATE_BUSINESS_CASE);
+    }
+
+    if (action === 'submit' && record.workspaceId && record.reviewers.length === 0) {
+      throw createAPIError(ErrorType.VALIDATION, 'Assign at least one reviewer before submitting', 400);
+    }
+
+    if (action === 'approve') {
+      record.approvals = [
+        ...record.approvals.filter(approval => approval.userId !== actor.userId),
+        { userId: actor.userId, reason: note, at: Date.now() }
+      ];
+
+      const pending = record.reviewers.filter(id => !record.approvals.some(approval => approval.userId === id));
+      if (pending.length > 0) {
+        record.updatedAt = Date.now();
+        await this.store.saveCase(record);
+        await this.audit(record, actor, 'approval_recorded', { reason: note, details: { pending } });
+        return this.toView(record);
+      }
+    }
+
+    this.requireFields(record.data, transition.to);
+    return this.moveTo(record, actor, action, transition.to, note);
+  }
+
+  // ==========================================================================
+  // COMMENTS & AUDIT
+  // ==========================================================================
+
+  async addComment(actor: BusinessCaseActor, caseId: string, fieldPath: string, body: string): Promise<BusinessCaseComment> {
+    const record = await this.requireCase(actor, caseId);
+    this.requireUnlocked(record);
+
+    if (!isSectionFieldPath(fieldPath)) {
+      throw createAPIError(ErrorType.VALIDATION, `Unknown business case field: ${fieldPath}`, 400, {
+        sections: BUSINESS_CASE_SECTIONS
+      });
+    }
+
+    const text = typeof body === 'string' ? body.trim() : '';
+    if (!text || text.length > 5000) {
+      throw createAPIError(ErrorType.VALIDATION, 'Comment must be 1-5000 characters', 400);
+    }
+
+    const comment: BusinessCaseComment = {
+      id: `bcc_${crypto.randomUUID()}`,
+      caseId,
+      fieldPath,
+      body: text,
+      authorId: actor.userId,
+      createdAt: Date.now()
+    };
+
+    await this.store.saveComment(comment);
+    await this.audit(record, actor, 'commented', { fieldPaths: [fieldPath], details: { commentId: comment.id } });
+    return comment;
+  }
+
+  async listComments(actor: BusinessCaseActor, caseId: string, fieldPath?: string): Promise<BusinessCaseComment[]> {
+    await this.requireCase(actor, caseId);
+    const comments = await this.store.listComments(caseId);
+    return fieldPath ? comments.filter(comment => comment.fieldPath === fieldPath) : comments;
+  }
+
+  /**
+   * Resolve a comment (its author, or anyone who can edit the case)
+   */
+  async resolveComment(actor: BusinessCaseActor, caseId: string, commentId: string): Promise<BusinessCaseComment> {
+    const record = await this.requireCase(actor, caseId);
+    this.requireUnlocked(record);
+
+    const comment = (await this.store.listComments(caseId)).find(entry => entry.id === commentId);
+    if (!comment) {
+      throw createAPIError(ErrorType.NOT_FOUND, 'Comment not found', 404, { commentId });
+    }
+
+    if (comment.authorId !== actor.userId) {
+      requireScopePermission(actor.scope, PERMISSIONS.UPDATE_BUSINESS_CASE);
+    }
+
+    if (!comment.resolvedAt) {
+      comment.resolvedAt = Date.now();
+      comment.resolvedBy = actor.userId;
+      await this.store.saveComment(comment);
+      await this.audit(record, actor, 'comment_resolved', { fieldPaths: [comment.fieldPath], details: { commentId } });
+    }
+
+    return comment;
+  }
+
+  async getAuditTrail(actor: BusinessCaseActor, caseId: string): Promise<BusinessCaseAuditEntry[]> {
+    await this.requireCase(actor, caseId);
+    return this.store.listAudit(caseId);
+  }
+
+  // ==========================================================================
+  // HELPERS
+  // ==========================================================================
+
+  private async moveTo(
+    record: BusinessCaseRecord,
+    actor: BusinessCaseActor,
+    action: WorkflowAction,
+    to: BusinessCaseStatus,
+    reason?: string
+  ): Promise<BusinessCaseView> {
+    const from = record.status;
+    const now = Date.now();
+
+    record.status = to;
+    record.data.status = to;
+    record.updatedAt = now;
+    if (to !== 'approved' && to !== 'final') {
+      record.approvals = [];
+    }
+    if (to === 'approved') {
+      record.approvedAt = now;
+      record.approvedBy = actor.userId;
+    }
+    if (to === 'final') {
+      record.finalizedAt = now;
+    }
+
+    await this.store.saveCase(record);
+    await this.audit(record, actor, AUDIT_ACTIONS[action], { fromStatus: from, toStatus: to, reason });
+    console.log(`🔁 Business case ${record.id}: ${from} → ${to} by ${actor.userId}`);
+
+    if (to === 'approved') {
+      const { default: eventBus } = await import('@/app/lib/events/EventBus');
+      await eventBus.emit('business_case_approved', {
+        customerId: record.customerId,
+        businessCaseId: record.id,
+        approvedBy: actor.userId,
+        title: caseTitle(record.data)
+      });
+    }
+
+    return this.toView(record);
+  }
+
+  private async requireCase(actor: BusinessCaseActor, caseId: string): Promise<BusinessCaseRecord> {
+    requireScopePermission(actor.scope, PERMISSIONS.VIEW_BUSINESS_CASE);
+
+    const record = caseId ? await this.store.getCase(caseId) : null;
+    if (!record || record.ownerId !== actor.scope.ownerId) {
+      throw createAPIError(ErrorType.NOT_FOUND, 'Business case not found', 404, { caseId });
+    }
+    return record;
+  }
+
+  private async requireVersion(caseId: string, version: number): Promise<BusinessCaseVersion> {
+    const snapshot = Number.isInteger(version) ? await this.store.getVersion(caseId, version) : null;
+    if (!snapshot) {
+      throw createAPIError(ErrorType.NOT_FOUND, 'Business case version not found', 404, { caseId, version });
+    }
+    return snapshot;
+  }
+
+  private requireReviewer(actor: BusinessCaseActor, record: BusinessCaseRecord): void {
+    const allowed = record.reviewers.length > 0
+      ? record.reviewers.includes(actor.userId)
+      : !record.workspaceId && actor.scope.permissions.includes(PERMISSIONS.UPDATE_BUSINESS_CASE);
+
+    if (!allowed) {
+      throw createAPIError(ErrorType.AUTHORIZATION, 'Only the assigned reviewers can approve or reject this business case', 403, {
+        caseId: record.id
+      });
+    }
+  }
+
+  private requireUnlocked(record: BusinessCaseRecord): void {
+    if (LOCKED_STATUSES.includes(record.status)) {
+      throw createAPIError(ErrorType.VALIDATION, 'Final business cases are locked', 409, { caseId: record.id });
+    }
+  }
+
+  private requireEditable(record: BusinessCaseRecord): void {
+    this.requireUnlocked(record);
+    if (!EDITABLE_STATUSES.includes(record.status)) {
+      throw createAPIError(ErrorType.VALIDATION, `Reopen this ${record.status} business case before editing it`, 409, {
+        caseId: record.id
+      });
+    }
+  }
+
+  private requireFields(data: BusinessCaseData, status: BusinessCaseStatus): void {
+    const missing = getMissingFields(data, status);
+    if (missing.length > 0) {
+      throw createAPIError(ErrorType.VALIDATION, `A ${status} business case still needs ${missing.length} field(s)`, 400, {
+        status,
+        missingFields: missing
+      });
+    }
+  }
+
+  /**
+   * Apply { path: value } edits, rejecting unknown paths. Returns the changed paths.
+   */
+  private applyFields(data: BusinessCaseData, fields: Record<string, unknown>): string[] {
+    if (!fields || typeof fields !== 'object' || Array.isArray(fields)) {
+      throw createAPIError(ErrorType.VALIDATION, 'fields must be an object of { fieldPath: value }', 400);
+    }
+
+    const unknown = Object.keys(fields).filter(path => !isEditablePath(path));
+    if (unknown.length > 0) {
+      throw createAPIError(ErrorType.VALIDATION, `Unknown business case field(s): ${unknown.join(', ')}`, 400, {
+        fields: unknown
+      });
+    }
+
+    const changed: string[] = [];
+    for (const [path, value] of Object.entries(fields)) {
+      const before = JSON.stringify(getAt(data, path));
+      if (before === JSON.stringify(value)) continue;
+
+      setAt(data as unknown as Record<string, any>, path, value);
+      changed.push(path);
+    }
+    return changed;
+  }
+
+  /**
+   * Record where changed fields came from, replacing metadata of their sub-fields
+   */
+  private markSource(data: BusinessCaseData, paths: string[], source: AutoPopulationSource): void {
+    const metadata = { ...(data.fieldMetadata || {}) };
+
+    for (const path of paths) {
+      Object.keys(metadata)
+        .filter(key => key.startsWith(`${path}.`))
+        .forEach(key => delete metadata[key]);
+
+      metadata[path] = {
+        source,
+        lastUpdated: new Date(),
+        isEditable: true,
+        ...(source === AutoPopulationSource.USER_PROVIDED ? { confidence: 1 } : {})
+      };
+    }
+
+    data.fieldMetadata = metadata;
+  }
+
+  private async snapshot(
+    record: BusinessCaseRecord,
+    actor: BusinessCaseActor,
+    kind: BusinessCaseVersion['kind'],
+    changedFields: string[],
+    restoredFrom?: number
+  ): Promise<void> {
+    const sources = changedFields.map(path => getChangeSource(getFieldMetadata(record.data, path)?.source));
+
+    await this.store.saveVersion({
+      caseId: record.id,
+      version: record.data.version,
+      kind,
+      data: structuredClone(record.data),
+      status: record.status,
+      changedFields,
+      sources: [...new Set(sources)],
+      ...(restoredFrom !== undefined ? { restoredFrom } : {}),
+      createdBy: actor.userId,
+      createdAt: Date.now()
+    });
+  }
+
+  private async audit(
+    record: BusinessCaseRecord,
+    actor: BusinessCaseActor,
+    action: BusinessCaseAuditAction,
+    entry: Partial<Pick<BusinessCaseAuditEntry, 'fromStatus' | 'toStatus' | 'reason' | 'fieldPaths' | 'details'>> = {}
+  ): Promise<void> {
+    await this.store.appendAudit({
+      id: `bca_${crypto.randomUUID()}`,
+      caseId: record.id,
+      action,
+      actorId: actor.userId,
+      ...Object.fromEntries(Object.entries(entry).filter(([, value]) => value !== undefined)),
+      at: Date.now()
+    });
+  }
+
+  private async toView(record: BusinessCaseRecord): Promise<BusinessCaseView> {
+    const next = NEXT_STATUS[record.status];
+    const comments = await this.store.listComments(record.id);
+
+    return {
+      ...record,
+      availableActions: getAvailableActions(record.status),
+      missingForNextStatus: next ? getMissingFields(record.data, next) : [],
+      openComments: comments.filter(comment => !comment.resolvedAt).length
+    };
+  }
+}
+
+export const businessCaseWorkflow = new BusinessCaseWorkflowService();
+export default businessCaseWorkflow;
@@ -127,6 +127,11 @@ export function validateProductionReadiness(): ValidationResult {
     warnings.push('⚠️  APP_URL not configured - CORS issues may occur');
   }
 
+  // 11. Make.com Webhook Configuration
+  if (!process.env.MAKE_WEBHOOK_SECRET) {
+    warnings.push('⚠️  MAKE_WEBHOOK_SECRET not set - Make.com core-resources callbacks will be rejected');
+  }
+
   return {
     ready: errors.length === 0,
     errors,
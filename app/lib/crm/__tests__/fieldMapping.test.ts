@@ -0,0 +1,129 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * CRM Field Mapping Tests
+ *
+ * - Default mappings are valid for every platform
+ * - Type compatibility errors and warnings
+ * - Dry-run previews and the sync engine write the same values
+ */
+
+import {
+  CRMFieldMapping,
+  SAMPLE_MAPPING_RECORD,
+  defaultFieldMapping,
+  previewFieldMapping,
+  validateFieldMapping
+} from '../fieldMapping';
+import { AccountRating, CRMProvider } from '../provider';
+import { CRMSyncEngine, MemoryCRMSyncStore } from '../syncEngine';
+
+describe('validateFieldMapping', () => {
+  it.each(['hubspot', 'salesforce', 'pipedrive'] as const)('accepts the default %s mapping', platform => {
+    expect(validateFieldMapping(platform, defaultFieldMapping(platform))).toMatchObject({ isValid: true, errors: [] });
+  });
+
+  it('reports unsupported platforms through validateCRMData', () => {
+    expect(validateFieldMapping('zoho', {}).errors).toEqual(['Unsupported CRM platform: zoho']);
+  });
+
+  it('rejects incompatible types, duplicate targets and missing picklist values', () => {
+    const validation = validateFieldMapping('salesforce', {
+      pain_points: { name: 'Pain__c', type: 'Number' },
+      icp_fit_score: { name: 'Fit__c', type: 'Checkbox' },
+      icp_tier: { name: 'Tier__c', type: 'Picklist', options: ['Tier 1', 'Tier 2'] },
+      cost_of_inaction: { name: 'Tier__c', type: 'Number' }
+    });
+
+    expect(validation.isValid).toBe(false);
+    expect(validation.issues).toEqual(expect.arrayContaining([
+      expect.objectContaining({ source: 'pain_points', severity: 'error', message: expect.stringContaining("can't be written") }),
+      expect.objectContaining({ source: 'icp_fit_score', severity: 'error' }),
+      expect.objectContaining({ source: 'icp_tier', message: 'Tier__c has no picklist value for Tier 3, Tier 4' }),
+      expect.objectContaining({ source: 'cost_of_inaction', message: expect.stringContaining('both mapped to Tier__c') })
+    ]));
+  });
+
+  it('warns, but allows, lossy mappings', () => {
+    const validation = validateFieldMapping('pipedrive', {
+      cost_of_inaction: { name: 'abc123', type: 'varchar' },
+      pain_points: { name: 'def456', type: 'varchar' }
+    });
+
+    expect(validation.isValid).toBe(true);
+    expect(validation.warnings).toHaveLength(2);
+  });
+
+  it('checks platform field naming rules', () => {
+    const validation = validateFieldMapping('hubspot', { icp_tier: { name: 'ICP Tier', type: 'text' } });
+    expect(validation.errors[0]).toContain('HubSpot internal names');
+  });
+});
+
+describe('previewFieldMapping', () => {
+  const mapping: CRMFieldMapping = {
+    icp_fit_score: { name: 'Fit_Score__c', type: 'Number' },
+    icp_tier: { name: 'Segment__c', type: 'Picklist', options: ['tier 1', 'tier 2', 'tier 3', 'tier 4'] },
+    persona_type: { name: 'Persona__c', type: 'Text' },
+    pain_points: { name: 'Pains__c', type: 'Long Text Area' },
+    cost_of_inaction: { name: 'Cost_Of_Delay__c', type: 'Number' }
+  };
+
+  it('converts each value to what its CRM field accepts', () => {
+    const preview = previewFieldMapping('salesforce', mapping, SAMPLE_MAPPING_RECORD);
+
+    expect(preview.fields).toEqual({
+      Fit_Score__c: 7.8,
+      Segment__c: 'tier 2',
+      Persona__c: 'Economic Buyer',
+      Pains__c: SAMPLE_MAPPING_RECORD.painPoints!.join('\n'),
+      Cost_Of_Delay__c: 420000
+    });
+    expect(preview.skipped).toEqual([]);
+  });
+
+  it('skips unmapped fields, fields without a value and fields with errors', () => {
+    const preview = previewFieldMapping('hubspot', {
+      icp_fit_score: { name: 'fit', type: 'number' },
+      icp_tier: { name: 'tier', type: 'boolean' },
+      persona_type: { name: 'persona', type: 'text' }
+    }, { companyName: 'Acme', score: 91 });
+
+    expect(preview.fields).toEqual({ fit: '9.1' });
+    expect(preview.skipped).toEqual([
+      { source: 'icp_tier', reason: 'Mapping has errors' },
+      { source: 'persona_type', reason: 'No value in this record' },
+      { source: 'pain_points', reason: 'Not mapped' },
+      { source: 'cost_of_inaction', reason: 'Not mapped' }
+    ]);
+  });
+
+  it('matches what the sync engine pushes with the saved mapping', async () => {
+    const pushed: AccountRating[] = [];
+    const provider: CRMProvider = {
+      platform: 'salesforce',
+      provisionFields: async () => ({ created: [], existing: [], fieldKeys: {} }),
+      pushAccountRating: async rating => {
+        pushed.push(rating);
+        return { recordId: '001', created: true };
+      },
+      listDealsModifiedSince: async () => []
+    };
+    const engine = new CRMSyncEngine(new MemoryCRMSyncStore(), () => provider);
+
+    const connection = await engine.connect('CUST_1', { platform: 'salesforce', accessToken: 'token', instanceUrl: 'https://example.my.salesforce.com' });
+    await engine.provisionFields('CUST_1', connection.id);
+    await engine.saveFieldMapping('CUST_1', 'salesforce', mapping);
+    await expect(engine.saveFieldMapping('CUST_1', 'salesforce', { icp_tier: { name: 'Tier__c', type: 'Date' } }))
+      .rejects.toMatchObject({ statusCode: 400 });
+
+    const record = { companyName: 'Acme', domain: 'acme.example', score: 64 };
+    const preview = await engine.previewFieldMapping('CUST_1', 'salesforce', undefined, record);
+    await engine.pushCompanyRating({ customerId: 'CUST_1', ...record });
+
+    expect(pushed).toEqual([{ companyName: 'Acme', domain: 'acme.example', fields: preview.fields }]);
+    expect(preview.fields).toEqual({ Fit_Score__c: 6.4, Segment__c: 'tier 2' });
+  });
+});
@@ -0,0 +1,213 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * CRM Provider Tests
+ *
+ * Runs every provider against the local mock CRM server:
+ * - Field provisioning is idempotent
+ * - ICP ratings create the account once, then update it
+ * - Deal pulls record a baseline, then emit stage changes
+ * - Instance URLs can't point providers at arbitrary hosts in production
+ */
+
+import eventBus from '@/app/lib/events/EventBus';
+import type { EventPayloadMap } from '@/app/lib/events/event-types';
+import { MockCRMServer, startMockCRMServer } from '../mockServer';
+import { CRMPlatform } from '../provider';
+import { CRMSyncEngine, MemoryCRMSyncStore } from '../syncEngine';
+
+const INSTANCE_PATHS: Record<CRMPlatform, string> = {
+  hubspot: '/hubspot',
+  salesforce: '/salesforce',
+  pipedrive: '/pipedrive/v1'
+};
+
+const OPEN_STAGE: Record<CRMPlatform, string> = {
+  hubspot: 'qualifiedtobuy',
+  salesforce: 'Qualification',
+  pipedrive: 'Qualified'
+};
+
+const NEXT_STAGE: Record<CRMPlatform, string> = {
+  hubspot: 'contractsent',
+  salesforce: 'Negotiation/Review',
+  pipedrive: 'Negotiations Started'
+};
+
+describe.each(['hubspot', 'salesforce', 'pipedrive'] as CRMPlatform[])('%s provider', platform => {
+  let server: MockCRMServer;
+  let store: MemoryCRMSyncStore;
+  let engine: CRMSyncEngine;
+  let connectionId: string;
+
+  beforeAll(async () => {
+    server = await startMockCRMServer();
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  beforeEach(async () => {
+    store = new MemoryCRMSyncStore();
+    engine = new CRMSyncEngine(store);
+    const connection = await engine.connect('CUST_1', {
+      platform,
+      accessToken: 'test-token',
+      instanceUrl: `${server.url}${INSTANCE_PATHS[platform]}`
+    });
+    connectionId = connection.id;
+  });
+
+  it('creates the custom fields once and finds them on the next run', async () => {
+    const first = await engine.provisionFields('CUST_1', connectionId);
+    expect(first.status).toBe('succeeded');
+    expect((first.summary!.created as string[]).length).toBeGreaterThan(0);
+
+    const second = await engine.provisionFields('CUST_1', connectionId);
+    expect(second.status).toBe('succeeded');
+    expect(second.summary!.created).toEqual([]);
+    expect(second.summary!.existing).toBe((first.summary!.created as string[]).length);
+  });
+
+  it('pushes the ICP score and tier onto a new account, then updates it', async () => {
+    const rating = { customerId: 'CUST_1', companyName: 'Acme Robotics', score: 84, tier: '' };
+
+    const [provision, created] = await engine.pushCompanyRating(rating);
+    expect(provision.direction).toBe('provision');
+    expect(created).toMatchObject({ direction: 'push', status: 'succeeded', summary: { created: true } });
+
+    const [updated] = await engine.pushCompanyRating({ ...rating, score: 55 });
+    expect(updated).toMatchObject({ direction: 'push', status: 'succeeded', summary: { created: false } });
+    expect(updated.summary!.recordId).toBe(created.summary!.recordId);
+
+    const accounts = [...server.state.accounts[platform].values()];
+    expect(accounts).toHaveLength(1);
+    // HubSpot stores every property value as a string
+    expect(Object.values(accounts[0]).map(String)).toEqual(expect.arrayContaining(['5.5', 'Tier 3']));
+  });
+
+  it('records a baseline on the first pull and emits later stage changes', async () => {
+    const changes: Array<EventPayloadMap['crm_deal_stage_changed']> = [];
+    const unsubscribe = eventBus.on('crm_deal_stage_changed', async (_event, payload) => {
+      changes.push(payload);
+    });
+
+    try {
+      server.setDeal(platform, { id: '101', name: 'Acme Expansion', stage: OPEN_STAGE[platform], amount: 42000 });
+
+      const baseline = await engine.pullDealStages('CUST_1', connectionId);
+      expect(baseline).toMatchObject({ status: 'succeeded', summary: { deals: 1, stageChanges: 0 } });
+
+      server.setDeal(platform, { id: '101', name: 'Acme Expansion', stage: NEXT_STAGE[platform], amount: 42000 });
+
+      const pulled = await engine.pullDealStages('CUST_1', connectionId);
+      expect(pulled).toMatchObject({ status: 'succeeded', summary: { deals: 1, stageChanges: 1 } });
+      expect(changes).toEqual([expect.objectContaining({
+        customerId: 'CUST_1',
+        connectionId,
+        platform,
+        dealId: '101',
+        stage: NEXT_STAGE[platform],
+        previousStage: OPEN_STAGE[platform],
+        amount: 42000
+      })]);
+
+      const quiet = await engine.pullDealStages('CUST_1', connectionId);
+      expect(quiet.summary).toMatchObject({ deals: 0, stageChanges: 0 });
+    } finally {
+      unsubscribe();
+    }
+  });
+
+  it('records failed runs without throwing', async () => {
+    const connection = await engine.connect('CUST_1', {
+      platform,
+      accessToken: 'test-token',
+      instanceUrl: `${server.url}/unknown`
+    });
+
+    const run = await engine.pullDealStages('CUST_1', connection.id);
+    expect(run.status).toBe('failed');
+    expect(await engine.listRuns('CUST_1', connection.id)).toHaveLength(1);
+  });
+});
+
+describe('instance URLs in production', () => {
+  const env = process.env as Record<string, string | undefined>;
+  const originalEnv = env.NODE_ENV;
+  const dns: Record<string, string[]> = { 'acme.my.salesforce.com': ['13.108.0.10'] };
+  let store: MemoryCRMSyncStore;
+  let engine: CRMSyncEngine;
+  let built: string[];
+
+  beforeEach(() => {
+    env.NODE_ENV = 'production';
+    store = new MemoryCRMSyncStore();
+    built = [];
+    engine = new CRMSyncEngine(store, connection => {
+      built.push(connection.instanceUrl ?? '');
+      return {
+        platform: connection.platform,
+        provisionFields: async () => ({ created: [], existing: [], fieldKeys: {} }),
+        pushAccountRating: async () => ({ recordId: 'acc_1', created: false }),
+        listDealsModifiedSince: async () => []
+      };
+    }, { lookup: async hostname => dns[hostname] ?? [] });
+  });
+
+  afterEach(() => {
+    env.NODE_ENV = originalEnv;
+  });
+
+  it('refuses base-URL overrides for HubSpot and Pipedrive', async () => {
+    for (const platform of ['hubspot', 'pipedrive'] as CRMPlatform[]) {
+      await expect(engine.connect('CUST_1', { platform, accessToken: 't', instanceUrl: 'https://attacker.example.com' }))
+        .rejects.toMatchObject({ statusCode: 400 });
+    }
+
+    const hubspot = await engine.connect('CUST_1', { platform: 'hubspot', accessToken: 't' });
+    expect(hubspot.instanceUrl).toBeUndefined();
+  });
+
+  it('only accepts https Salesforce org hosts', async () => {
+    for (const instanceUrl of [
+      'http://acme.my.salesforce.com',
+      'https://attacker.example.com',
+      'https://my.salesforce.com.attacker.example',
+      'https://169.254.169.254',
+      'https://acme.my.salesforce.com:8443'
+    ]) {
+      await expect(engine.connect('CUST_1', { platform: 'salesforce', accessToken: 't', instanceUrl }))
+        .rejects.toMatchObject({ statusCode: 400 });
+    }
+
+    const connection = await engine.connect('CUST_1', {
+      platform: 'salesforce',
+      accessToken: 't',
+      instanceUrl: 'https://acme.my.salesforce.com/'
+    });
+    expect(connection.instanceUrl).toBe('https://acme.my.salesforce.com');
+    expect((await engine.provisionFields('CUST_1', connection.id)).status).toBe('succeeded');
+  });
+
+  it('checks the resolved addresses before every sync', async () => {
+    const connection = await engine.connect('CUST_1', {
+      platform: 'salesforce',
+      accessToken: 't',
+      instanceUrl: 'https://acme.my.salesforce.com'
+    });
+    dns['acme.my.salesforce.com'] = ['10.0.0.8'];
+
+    const run = await engine.provisionFields('CUST_1', connection.id);
+    expect(run).toMatchObject({ status: 'failed', error: 'acme.my.salesforce.com resolves to a non-public address (10.0.0.8)' });
+    expect(built).toEqual([]);
+
+    // Connections saved before the check are refused as well
+    await store.saveConnection({ ...connection, id: 'crmc_legacy', platform: 'hubspot', instanceUrl: 'http://127.0.0.1:8080' });
+    expect((await engine.provisionFields('CUST_1', 'crmc_legacy')).status).toBe('failed');
+    expect(built).toEqual([]);
+  });
+});
@@ -0,0 +1,488 @@
+/**
+ * CRM Field Mapping
+ *
+ * Maps our fields (ICP fit score and tier, buyer persona type, pain points,
+ * cost of inaction) onto fields in the customer's own CRM schema instead of
+ * the fixed names CRMIntegrationService generates. Mappings are checked for
+ * type compatibility on top of CRMIntegrationService.validateCRMData, and
+ * previewFieldMapping builds exactly the account values the sync engine
+ * writes, so the dry-run preview and the real push can't drift apart.
+ *
+ * No server-only imports: the mapping editor uses the types and constants.
+ */
+
+import crmIntegrationService, { HubSpotProperty } from '@/app/lib/services/CRMIntegrationService';
+import { CRM_PLATFORMS, CRMPlatform } from './provider';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type MappingSourceKey = 'icp_fit_score' | 'icp_tier' | 'persona_type' | 'pain_points' | 'cost_of_inaction';
+
+/** CRM-neutral kind of a field, used for compatibility checks */
+export type FieldKind = 'number' | 'text' | 'textarea' | 'enum' | 'date' | 'boolean' | 'phone' | 'email';
+
+export interface MappingOption {
+  label: string;
+  value: string;
+}
+
+/**
+ * One of our fields that can be written to the CRM
+ */
+export interface MappingSourceField {
+  key: MappingSourceKey;
+  label: string;
+  description: string;
+  kind: 'number' | 'text' | 'textarea' | 'enum';
+  options?: MappingOption[];
+}
+
+/**
+ * A field in the customer's CRM, on the account (company / Account / organization) record
+ */
+export interface CRMFieldTarget {
+  /** Internal name (HubSpot), API name (Salesforce) or field key (Pipedrive) */
+  name: string;
+  /** One of CRMIntegrationService.getPlatformFieldTypes(platform) */
+  type: string;
+  /** Picklist values, for enum fields */
+  options?: string[];
+}
+
+/** Our field → CRM field; absent or null fields are not synced */
+export type CRMFieldMapping = Partial<Record<MappingSourceKey, CRMFieldTarget | null>>;
+
+export interface StoredFieldMapping {
+  customerId: string;
+  platform: CRMPlatform;
+  mapping: CRMFieldMapping;
+  updatedAt: number;
+}
+
+/**
+ * The values a mapping is applied to: a company rating plus whatever ICP
+ * analysis detail is known about the account
+ */
+export interface MappingRecord {
+  companyName: string;
+  domain?: string;
+  /** Company rating, 0-100 */
+  score?: number;
+  tier?: string;
+  /** Persona id, e.g. economic_buyer */
+  personaType?: string;
+  painPoints?: string[];
+  /** Annual cost of inaction in USD */
+  costOfInaction?: number;
+}
+
+export interface MappingIssue {
+  source: MappingSourceKey | null;
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+export interface MappingValidation {
+  isValid: boolean;
+  errors: string[];
+  warnings: string[];
+  issues: MappingIssue[];
+}
+
+export type CRMFieldValue = string | number;
+
+export interface MappedFieldWrite {
+  source: MappingSourceKey;
+  label: string;
+  target: string;
+  targetType: string;
+  value: CRMFieldValue;
+}
+
+export interface FieldMappingPreview {
+  platform: CRMPlatform;
+  record: MappingRecord;
+  /** Exactly what is written to the account record, keyed by CRM field */
+  fields: Record<string, CRMFieldValue>;
+  writes: MappedFieldWrite[];
+  skipped: Array<{ source: MappingSourceKey; reason: string }>;
+  validation: MappingValidation;
+}
+
+// ============================================================================
+// FIELDS
+// ============================================================================
+
+/** Longest value written to a single-line text field */
+const TEXT_LIMIT = 255;
+
+const TIER_OPTIONS: MappingOption[] = ['Tier 1', 'Tier 2', 'Tier 3', 'Tier 4'].map(tier => ({ label: tier, value: tier }));
+
+function personaOptions(): MappingOption[] {
+  const generated = crmIntegrationService.generateHubSpotProperties({}, {});
+  const properties = (generated.data?.contactProperties ?? []) as HubSpotProperty[];
+  const options = properties.find(property => property.name === 'buyer_persona_type')?.options as unknown;
+
+  return Array.isArray(options)
+    ? options.map(option => ({ label: String(option.label), value: String(option.value) }))
+    : [];
+}
+
+export const MAPPING_SOURCE_FIELDS: MappingSourceField[] = [
+  {
+    key: 'icp_fit_score',
+    label: 'ICP Fit Score',
+    description: 'Company rating on the 1-10 scale',
+    kind: 'number'
+  },
+  {
+    key: 'icp_tier',
+    label: 'ICP Tier',
+    description: 'Tier 1 (best fit) to Tier 4',
+    kind: 'enum',
+    options: TIER_OPTIONS
+  },
+  {
+    key: 'persona_type',
+    label: 'Buyer Persona Type',
+    description: 'Primary buyer persona from the ICP analysis',
+    kind: 'enum',
+    options: personaOptions()
+  },
+  {
+    key: 'pain_points',
+    label: 'Primary Pain Points',
+    description: 'Pain points from the ICP analysis, one per line',
+    kind: 'textarea'
+  },
+  {
+    key: 'cost_of_inaction',
+    label: 'Cost of Inaction',
+    description: 'Annual cost of delay from the cost calculator (USD)',
+    kind: 'number'
+  }
+];
+
+/** Field kinds per platform type, covering getPlatformFieldTypes plus the types the generators use */
+const TYPE_KINDS: Record<CRMPlatform, Record<string, FieldKind>> = {
+  hubspot: {
+    // HubSpot text properties hold up to 65,536 characters
+    text: 'textarea',
+    string: 'textarea',
+    number: 'number',
+    date: 'date',
+    datetime: 'date',
+    enumeration: 'enum',
+    boolean: 'boolean',
+    phone_number: 'phone',
+    email: 'email'
+  },
+  salesforce: {
+    Text: 'text',
+    'Long Text Area': 'textarea',
+    Number: 'number',
+    Date: 'date',
+    DateTime: 'date',
+    Picklist: 'enum',
+    Checkbox: 'boolean',
+    Phone: 'phone',
+    Email: 'email'
+  },
+  pipedrive: {
+    // Pipedrive "text" is the large text type; "varchar" is single-line
+    varchar: 'text',
+    text: 'textarea',
+    text_area: 'textarea',
+    number: 'number',
+    date: 'date',
+    datetime: 'date',
+    enum: 'enum',
+    boolean: 'boolean',
+    phone: 'phone',
+    email: 'email'
+  }
+};
+
+/** Which CRM field kinds each of our field kinds can be written to; warnings still allow the write */
+const COMPATIBILITY: Record<MappingSourceField['kind'], Partial<Record<FieldKind, { warning?: string }>>> = {
+  number: {
+    number: {},
+    text: { warning: 'is written as text, so the CRM cannot sort or filter it numerically' },
+    textarea: { warning: 'is written as text, so the CRM cannot sort or filter it numerically' }
+  },
+  enum: {
+    enum: {},
+    text: {},
+    textarea: {}
+  },
+  text: {
+    text: {},
+    textarea: {}
+  },
+  textarea: {
+    textarea: {},
+    text: { warning: `is cut to ${TEXT_LIMIT} characters in a single-line text field` }
+  }
+};
+
+const NAME_PATTERNS: Record<CRMPlatform, { pattern: RegExp; hint: string }> = {
+  hubspot: { pattern: /^[a-z][a-z0-9_]*$/, hint: 'HubSpot internal names use lowercase letters, digits and underscores' },
+  salesforce: { pattern: /^[A-Za-z][A-Za-z0-9_]*$/, hint: 'Salesforce API names use letters, digits and underscores' },
+  pipedrive: { pattern: /^\S+$/, hint: 'Pipedrive field keys have no spaces' }
+};
+
+/**
+ * Map a 0-100 company rating onto the 1-10 ICP fit score our CRM fields use
+ */
+export function toFitScore(score: number): number {
+  return Math.min(10, Math.max(1, Math.round(score) / 10));
+}
+
+export function toICPTier(score: number): string {
+  if (score >= 80) return 'Tier 1';
+  if (score >= 60) return 'Tier 2';
+  if (score >= 40) return 'Tier 3';
+  return 'Tier 4';
+}
+
+export function fieldKind(platform: CRMPlatform, type: string): FieldKind | undefined {
+  return TYPE_KINDS[platform]?.[type];
+}
+
+/**
+ * What the sync engine writes when the customer hasn't saved a mapping: the
+ * generated account fields (see ACCOUNT_SYNC_FIELDS and the Salesforce Account
+ * fields), and nothing for fields we don't create on accounts
+ */
+export function defaultFieldMapping(platform: CRMPlatform): CRMFieldMapping {
+  switch (platform) {
+    case 'salesforce':
+      return {
+        icp_fit_score: { name: 'ICP_Fit_Score__c', type: 'Number' },
+        icp_tier: { name: 'ICP_Tier__c', type: 'Text' },
+        persona_type: { name: 'Buyer_Persona_Type__c', type: 'Text' },
+        pain_points: { name: 'Primary_Pain_Points__c', type: 'Long Text Area' }
+      };
+    case 'hubspot':
+      return {
+        icp_fit_score: { name: 'icp_fit_score', type: 'number' },
+        icp_tier: { name: 'icp_tier', type: 'text' }
+      };
+    case 'pipedrive':
+      return {
+        icp_fit_score: { name: 'icp_fit_score', type: 'number' },
+        icp_tier: { name: 'icp_tier', type: 'varchar' }
+      };
+  }
+}
+
+export const SAMPLE_MAPPING_RECORD: MappingRecord = {
+  companyName: 'Northwind Analytics',
+  domain: 'northwind-analytics.example',
+  score: 78,
+  personaType: 'economic_buyer',
+  painPoints: ['Forecasts miss by more than 20%', 'Sales cycle grew from 60 to 95 days', 'No shared definition of a qualified lead'],
+  costOfInaction: 420000
+};
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+function matchOption(options: string[], candidates: string[]): string | undefined {
+  const wanted = candidates.map(candidate => candidate.toLowerCase());
+  return options.find(option => wanted.includes(option.trim().toLowerCase()));
+}
+
+/**
+ * Check a mapping against the platform's schema rules and our field types.
+ * Errors block saving; warnings are shown but allowed.
+ */
+export function validateFieldMapping(platform: string, mapping: CRMFieldMapping): MappingValidation {
+  const issues: MappingIssue[] = [];
+  const error = (source: MappingSourceKey | null, message: string) => issues.push({ source, severity: 'error', message });
+  const warning = (source: MappingSourceKey | null, message: string) => issues.push({ source, severity: 'warning', message });
+
+  const generators: Record<CRMPlatform, () => ReturnType<typeof crmIntegrationService.generatePipedriveData>> = {
+    hubspot: () => crmIntegrationService.generateHubSpotProperties({}, {}),
+    salesforce: () => crmIntegrationService.generateSalesforceFields({}, {}),
+    pipedrive: () => crmIntegrationService.generatePipedriveData({}, {})
+  };
+
+  // The generated schema the mapping replaces has to be valid for the platform first
+  const generated = (CRM_PLATFORMS as readonly string[]).includes(platform)
+    ? generators[platform as CRMPlatform]().data
+    : {};
+  const base = crmIntegrationService.validateCRMData(generated ?? {}, platform);
+  base.errors.forEach(message => error(null, message));
+
+  if (!base.isValid) {
+    return summarize(issues);
+  }
+
+  const crmPlatform = platform as CRMPlatform;
+  const targets = new Map<string, MappingSourceKey>();
+
+  if (!mapping || typeof mapping !== 'object' || Array.isArray(mapping)) {
+    error(null, 'Mapping must be an object of field → CRM field');
+    return summarize(issues);
+  }
+
+  for (const [key, target] of Object.entries(mapping)) {
+    const source = MAPPING_SOURCE_FIELDS.find(field => field.key === key);
+
+    if (!source) {
+      error(null, `Unknown field "${key}"`);
+      continue;
+    }
+
+    if (target === null || target === undefined) continue;
+
+    if (typeof target !== 'object' || typeof target.name !== 'string' || typeof target.type !== 'string') {
+      error(source.key, `${source.label} needs a CRM field name and type`);
+      continue;
+    }
+
+    const name = target.name.trim();
+    if (!name) {
+      error(source.key, `${source.label} needs a CRM field name`);
+      continue;
+    }
+
+    if (!NAME_PATTERNS[crmPlatform].pattern.test(name)) {
+      error(source.key, `${source.label}: "${name}" is not a valid field name (${NAME_PATTERNS[crmPlatform].hint})`);
+    }
+
+    const mappedFrom = targets.get(name);
+    if (mappedFrom) {
+      const other = MAPPING_SOURCE_FIELDS.find(field => field.key === mappedFrom)!;
+      error(source.key, `${source.label} and ${other.label} are both mapped to ${name}`);
+    }
+    targets.set(name, source.key);
+
+    const kind = fieldKind(crmPlatform, target.type);
+    if (!kind) {
+      const supported = crmIntegrationService.getPlatformFieldTypes(crmPlatform);
+      error(source.key, `${source.label}: unknown ${crmPlatform} field type "${target.type}" (expected one of ${supported.join(', ')})`);
+      continue;
+    }
+
+    const compatibility = COMPATIBILITY[source.kind][kind];
+    if (!compatibility) {
+      error(source.key, `${source.label} (${source.kind}) can't be written to ${name}, a ${target.type} field`);
+      continue;
+    }
+
+    if (compatibility.warning) {
+      warning(source.key, `${source.label} ${compatibility.warning} (${name} is ${target.type})`);
+    }
+
+    if (kind === 'enum' && source.options) {
+      const options = Array.isArray(target.options) ? target.options.filter(option => typeof option === 'string') : [];
+
+      if (options.length === 0) {
+        warning(source.key, `${source.label}: list ${name}'s picklist values to check every value exists in the CRM`);
+      } else {
+        const missing = source.options.filter(option => !matchOption(options, [option.value, option.label]));
+        if (missing.length > 0) {
+          error(source.key, `${name} has no picklist value for ${missing.map(option => option.label).join(', ')}`);
+        }
+      }
+    }
+  }
+
+  return summarize(issues);
+}
+
+function summarize(issues: MappingIssue[]): MappingValidation {
+  const errors = issues.filter(issue => issue.severity === 'error').map(issue => issue.message);
+  const warnings = issues.filter(issue => issue.severity === 'warning').map(issue => issue.message);
+  return { isValid: errors.length === 0, errors, warnings, issues };
+}
+
+// ============================================================================
+// PREVIEW
+// ============================================================================
+
+type SourceValue = number | string | string[];
+
+function sourceValue(key: MappingSourceKey, record: MappingRecord): SourceValue | undefined {
+  switch (key) {
+    case 'icp_fit_score':
+      return record.score !== undefined ? toFitScore(record.score) : undefined;
+    case 'icp_tier':
+      return record.tier || (record.score !== undefined ? toICPTier(record.score) : undefined);
+    case 'persona_type':
+      return record.personaType || undefined;
+    case 'pain_points':
+      return record.painPoints?.length ? record.painPoints : undefined;
+    case 'cost_of_inaction':
+      return record.costOfInaction;
+  }
+}
+
+/**
+ * Convert one of our values into what the target field accepts
+ */
+function convert(source: MappingSourceField, target: CRMFieldTarget, kind: FieldKind, value: SourceValue): CRMFieldValue {
+  if (kind === 'number') {
+    return Number(value);
+  }
+
+  if (kind === 'enum') {
+    const option = source.options?.find(entry => entry.value === value);
+    const candidates = option ? [option.value, option.label] : [String(value)];
+    return matchOption(target.options ?? [], candidates) ?? String(value);
+  }
+
+  const text = Array.isArray(value)
+    ? value.join(kind === 'textarea' ? '\n' : '; ')
+    : source.options?.find(option => option.value === value)?.label ?? String(value);
+
+  return kind === 'text' && text.length > TEXT_LIMIT ? `${text.slice(0, TEXT_LIMIT - 1)}…` : text;
+}
+
+/**
+ * Dry run: the account values a push of `record` would write with this mapping.
+ * Fields with mapping errors are skipped, never written.
+ */
+export function previewFieldMapping(
+  platform: CRMPlatform,
+  mapping: CRMFieldMapping,
+  record: MappingRecord = SAMPLE_MAPPING_RECORD
+): FieldMappingPreview {
+  const validation = validateFieldMapping(platform, mapping);
+  const preview: FieldMappingPreview = { platform, record, fields: {}, writes: [], skipped: [], validation };
+
+  for (const source of MAPPING_SOURCE_FIELDS) {
+    const target = mapping[source.key];
+
+    if (!target) {
+      preview.skipped.push({ source: source.key, reason: 'Not mapped' });
+      continue;
+    }
+
+    if (validation.issues.some(issue => issue.source === source.key && issue.severity === 'error')) {
+      preview.skipped.push({ source: source.key, reason: 'Mapping has errors' });
+      continue;
+    }
+
+    const value = sourceValue(source.key, record);
+    if (value === undefined) {
+      preview.skipped.push({ source: source.key, reason: 'No value in this record' });
+      continue;
+    }
+
+    const converted = convert(source, target, fieldKind(platform, target.type)!, value);
+    // HubSpot's API takes every property value as a string
+    const written = platform === 'hubspot' ? String(converted) : converted;
+    const name = target.name.trim();
+
+    preview.fields[name] = written;
+    preview.writes.push({ source: source.key, label: source.label, target: name, targetType: target.type, value: written });
+  }
+
+  return preview;
+}
@@ -0,0 +1,297 @@
+/**
+ * Local CRM Mock Server
+ *
+ * In-memory stand-in for the slices of the HubSpot, Salesforce and Pipedrive
+ * APIs the CRM providers call, so each provider can be exercised end to end
+ * without a CRM account. Point a connection's instanceUrl at it:
+ *   HubSpot     `${url}/hubspot`
+ *   Salesforce  `${url}/salesforce`
+ *   Pipedrive   `${url}/pipedrive/v1`
+ *
+ * Used by the provider tests and by `npm run crm:mock` for local development.
+ */
+
+import http from 'http';
+import type { AddressInfo } from 'net';
+
+export interface MockDeal {
+  id: string;
+  name: string;
+  stage: string;
+  amount?: number;
+  modifiedAt: number;
+}
+
+export interface MockCRMState {
+  /** Custom field names per object, e.g. fields.hubspot.companies */
+  fields: Record<'hubspot' | 'salesforce' | 'pipedrive', Record<string, Array<{ key: string; name: string }>>>;
+  /** Accounts (companies / Account / organizations) by id, with their field values */
+  accounts: Record<'hubspot' | 'salesforce' | 'pipedrive', Map<string, Record<string, unknown>>>;
+  deals: Record<'hubspot' | 'salesforce' | 'pipedrive', MockDeal[]>;
+  /** Pipedrive stage names by stage id */
+  pipedriveStages: Array<{ id: number; name: string }>;
+  requests: Array<{ method: string; path: string }>;
+}
+
+export interface MockCRMServer {
+  url: string;
+  state: MockCRMState;
+  /** Add or update a deal, bumping its modification time */
+  setDeal(platform: keyof MockCRMState['deals'], deal: Omit<MockDeal, 'modifiedAt'>): void;
+  close(): Promise<void>;
+}
+
+type Handler = (match: RegExpMatchArray, body: any, query: URLSearchParams) => [number, unknown?];
+
+export function createMockCRMState(): MockCRMState {
+  return {
+    fields: { hubspot: {}, salesforce: { Account: [{ key: 'Name', name: 'Name' }] }, pipedrive: {} },
+    accounts: { hubspot: new Map(), salesforce: new Map(), pipedrive: new Map() },
+    deals: { hubspot: [], salesforce: [], pipedrive: [] },
+    pipedriveStages: [
+      { id: 1, name: 'Qualified' },
+      { id: 2, name: 'Proposal Made' },
+      { id: 3, name: 'Negotiations Started' }
+    ],
+    requests: []
+  };
+}
+
+function fieldList(state: MockCRMState, platform: keyof MockCRMState['fields'], object: string) {
+  state.fields[platform][object] ??= [];
+  return state.fields[platform][object];
+}
+
+function nextId(map: Map<string, unknown>): string {
+  return String(map.size + 1);
+}
+
+function pipedriveTime(timestamp: number): string {
+  return new Date(timestamp).toISOString().slice(0, 19).replace('T', ' ');
+}
+
+function routes(state: MockCRMState): Array<[string, RegExp, Handler]> {
+  const hubspotCompanies = state.accounts.hubspot;
+  const salesforceAccounts = state.accounts.salesforce;
+  const pipedriveOrganizations = state.accounts.pipedrive;
+
+  return [
+    // ---------------------------------------------------------------- HubSpot
+    ['GET', /^\/hubspot\/crm\/v3\/properties\/(\w+)$/, ([, object]) =>
+      [200, { results: fieldList(state, 'hubspot', object).map(field => ({ name: field.name })) }]],
+    ['POST', /^\/hubspot\/crm\/v3\/properties\/(\w+)\/groups$/, () => [201, {}]],
+    ['POST', /^\/hubspot\/crm\/v3\/properties\/(\w+)$/, ([, object], body) => {
+      const fields = fieldList(state, 'hubspot', object);
+      if (fields.some(field => field.name === body.name)) return [409, { message: 'Property already exists' }];
+      fields.push({ key: body.name, name: body.name });
+      return [201, body];
+    }],
+    ['POST', /^\/hubspot\/crm\/v3\/objects\/companies\/search$/, (_match, body) => {
+      const filter = body.filterGroups?.[0]?.filters?.[0];
+      const results = [...hubspotCompanies.entries()]
+        .filter(([, properties]) => properties[filter?.propertyName] === filter?.value)
+        .map(([id, properties]) => ({ id, properties }));
+      return [200, { total: results.length, results: results.slice(0, body.limit ?? 10) }];
+    }],
+    ['POST', /^\/hubspot\/crm\/v3\/objects\/companies$/, (_match, body) => {
+      const id = nextId(hubspotCompanies);
+      hubspotCompanies.set(id, { ...body.properties });
+      return [201, { id, properties: body.properties }];
+    }],
+    ['PATCH', /^\/hubspot\/crm\/v3\/objects\/companies\/(\w+)$/, ([, id], body) => {
+      const company = hubspotCompanies.get(id);
+      if (!company) return [404, { message: 'Not found' }];
+      Object.assign(company, body.properties);
+      return [200, { id, properties: company }];
+    }],
+    ['POST', /^\/hubspot\/crm\/v3\/objects\/deals\/search$/, (_match, body) => {
+      const since = Number(body.filterGroups?.[0]?.filters?.[0]?.value ?? 0);
+      const results = state.deals.hubspot
+        .filter(deal => deal.modifiedAt > since)
+        .sort((a, b) => a.modifiedAt - b.modifiedAt)
+        .map(deal => ({
+          id: deal.id,
+          properties: {
+            dealname: deal.name,
+            dealstage: deal.stage,
+            amount: deal.amount !== undefined ? String(deal.amount) : null,
+            hs_lastmodifieddate: new Date(deal.modifiedAt).toISOString()
+          }
+        }));
+      return [200, { total: results.length, results }];
+    }],
+
+    // ------------------------------------------------------------- Salesforce
+    ['GET', /^\/salesforce\/services\/data\/v[\d.]+\/sobjects\/Account\/describe$/, () =>
+      [200, { fields: fieldList(state, 'salesforce', 'Account').map(field => ({ name: field.name })) }]],
+    ['POST', /^\/salesforce\/services\/data\/v[\d.]+\/tooling\/sobjects\/CustomField$/, (_match, body) => {
+      const [object, name] = String(body.FullName).split('.');
+      const fields = fieldList(state, 'salesforce', object);
+      if (fields.some(field => field.name === name)) return [400, [{ errorCode: 'DUPLICATE_DEVELOPER_NAME' }]];
+      fields.push({ key: name, name });
+      return [201, { id: `00N${fields.length}`, success: true }];
+    }],
+    ['GET', /^\/salesforce\/services\/data\/v[\d.]+\/query$/, (_match, _body, query) => {
+      const soql = query.get('q') ?? '';
+      const account = soql.match(/FROM Account WHERE (Name|Website) (?:=|LIKE) '(.*)' LIMIT 1$/);
+      if (account) {
+        const [, field, raw] = account;
+        const value = raw.replace(/\\'/g, "'").replace(/%/g, '');
+        const records = [...salesforceAccounts.entries()]
+          .filter(([, record]) => (field === 'Name' ? record.Name === value : String(record.Website ?? '').includes(value)))
+          .map(([Id]) => ({ Id }));
+        return [200, { totalSize: records.length, done: true, records }];
+      }
+
+      const opportunities = soql.match(/FROM Opportunity WHERE LastModifiedDate > (\S+)/);
+      if (opportunities) {
+        const since = Date.parse(opportunities[1]);
+        const records = state.deals.salesforce
+          .filter(deal => deal.modifiedAt > since)
+          .sort((a, b) => a.modifiedAt - b.modifiedAt)
+          .map(deal => ({
+            Id: deal.id,
+            Name: deal.name,
+            StageName: deal.stage,
+            Amount: deal.amount ?? null,
+            LastModifiedDate: new Date(deal.modifiedAt).toISOString()
+          }));
+        return [200, { totalSize: records.length, done: true, records }];
+      }
+
+      return [400, [{ errorCode: 'MALFORMED_QUERY', message: `Unsupported query: ${soql}` }]];
+    }],
+    ['POST', /^\/salesforce\/services\/data\/v[\d.]+\/sobjects\/Account$/, (_match, body) => {
+      const id = `001${nextId(salesforceAccounts)}`;
+      salesforceAccounts.set(id, { ...body });
+      return [201, { id, success: true, errors: [] }];
+    }],
+    ['PATCH', /^\/salesforce\/services\/data\/v[\d.]+\/sobjects\/Account\/(\w+)$/, ([, id], body) => {
+      const account = salesforceAccounts.get(id);
+      if (!account) return [404, [{ errorCode: 'NOT_FOUND' }]];
+      Object.assign(account, body);
+      return [204];
+    }],
+
+    // -------------------------------------------------------------- Pipedrive
+    ['GET', /^\/pipedrive\/v1\/(organizationFields|personFields|dealFields)$/, ([, object]) =>
+      [200, { success: true, data: fieldList(state, 'pipedrive', object) }]],
+    ['POST', /^\/pipedrive\/v1\/(organizationFields|personFields|dealFields)$/, ([, object], body) => {
+      const fields = fieldList(state, 'pipedrive', object);
+      const field = { key: `${object.slice(0, 3)}${fields.length}_${Math.random().toString(16).slice(2, 10)}`, name: body.name };
+      fields.push(field);
+      return [201, { success: true, data: { ...field, field_type: body.field_type } }];
+    }],
+    ['GET', /^\/pipedrive\/v1\/organizations\/search$/, (_match, _body, query) => {
+      const items = [...pipedriveOrganizations.entries()]
+        .filter(([, organization]) => organization.name === query.get('term'))
+        .map(([id, organization]) => ({ result_score: 1, item: { id: Number(id), name: organization.name } }));
+      return [200, { success: true, data: { items } }];
+    }],
+    ['POST', /^\/pipedrive\/v1\/organizations$/, (_match, body) => {
+      const id = nextId(pipedriveOrganizations);
+      pipedriveOrganizations.set(id, { ...body });
+      return [201, { success: true, data: { id: Number(id), ...body } }];
+    }],
+    ['PUT', /^\/pipedrive\/v1\/organizations\/(\d+)$/, ([, id], body) => {
+      const organization = pipedriveOrganizations.get(id);
+      if (!organization) return [404, { success: false, error: 'Organization not found' }];
+      Object.assign(organization, body);
+      return [200, { success: true, data: { id: Number(id), ...organization } }];
+    }],
+    ['GET', /^\/pipedrive\/v1\/stages$/, () => [200, { success: true, data: state.pipedriveStages }]],
+    ['GET', /^\/pipedrive\/v1\/recents$/, (_match, _body, query) => {
+      const since = Date.parse(`${(query.get('since_timestamp') ?? '').replace(' ', 'T')}Z`);
+      const data = state.deals.pipedrive
+        .filter(deal => deal.modifiedAt >= since)
+        .map(deal => ({
+          item: 'deal',
+          id: Number(deal.id),
+          data: {
+            id: Number(deal.id),
+            title: deal.name,
+            stage_id: state.pipedriveStages.find(stage => stage.name === deal.stage)?.id ?? 0,
+            value: deal.amount ?? null,
+            update_time: pipedriveTime(deal.modifiedAt)
+          }
+        }));
+      return [200, { success: true, data, additional_data: { pagination: { more_items_in_collection: false } } }];
+    }]
+  ];
+}
+
+function authorized(path: string, request: http.IncomingMessage, query: URLSearchParams): boolean {
+  if (path.startsWith('/pipedrive/')) return Boolean(query.get('api_token'));
+  return /^Bearer \S+/.test(request.headers.authorization ?? '');
+}
+
+/**
+ * Start the mock server on a free port (or `port`)
+ */
+export async function startMockCRMServer(port = 0): Promise<MockCRMServer> {
+  const state = createMockCRMState();
+  const table = routes(state);
+
+  const server = http.createServer((request, response) => {
+    let raw = '';
+    request.on('data', chunk => { raw += chunk; });
+    request.on('end', () => {
+      const url = new URL(request.url ?? '/', 'http://localhost');
+      const method = request.method ?? 'GET';
+      state.requests.push({ method, path: url.pathname });
+
+      const send = (status: number, payload?: unknown) => {
+        response.writeHead(status, { 'Content-Type': 'application/json' });
+        response.end(payload === undefined ? undefined : JSON.stringify(payload));
+      };
+
+      if (!authorized(url.pathname, request, url.searchParams)) {
+        send(401, { message: 'Missing or invalid credentials' });
+        return;
+      }
+
+      for (const [routeMethod, pattern, handler] of table) {
+        const match = method === routeMethod ? url.pathname.match(pattern) : null;
+        if (!match) continue;
+
+        let body: unknown = {};
+        try {
+          body = raw ? JSON.parse(raw) : {};
+        } catch {
+          send(400, { message: 'Invalid JSON' });
+          return;
+        }
+
+        const [status, payload] = handler(match, body, url.searchParams);
+        send(status, payload);
+        return;
+      }
+
+      send(404, { message: `No mock route for ${method} ${url.pathname}` });
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(port, '127.0.0.1', resolve));
+  const { port: boundPort } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${boundPort}`,
+    state,
+    setDeal(platform, deal) {
+      const deals = state.deals[platform];
+      const existing = deals.find(entry => entry.id === deal.id);
+      // Whole seconds like the real APIs, strictly increasing so back-to-back updates sort after the previous pull
+      const modifiedAt = Math.max(Math.floor(Date.now() / 1000) * 1000, ...deals.map(entry => entry.modifiedAt + 1000));
+
+      if (existing) {
+        Object.assign(existing, deal, { modifiedAt });
+      } else {
+        deals.push({ ...deal, modifiedAt });
+      }
+    },
+    close: () => new Promise<void>((resolve, reject) => {
+      server.close(error => (error ? reject(error) : resolve()));
+      server.closeAllConnections();
+    })
+  };
+}
@@ -0,0 +1,114 @@
+/**
+ * CRM Provider Interface
+ *
+ * What the sync engine needs from each CRM: create our custom fields, write
+ * ICP fit onto account records and list recently modified deals. Providers
+ * talk to the CRM's REST API through ExternalServiceClient, so retries and
+ * the circuit breaker are shared with our other outbound integrations.
+ */
+
+import type { APIError } from '@/app/lib/middleware/error-handler';
+
+export const CRM_PLATFORMS = ['hubspot', 'salesforce', 'pipedrive'] as const;
+export type CRMPlatform = typeof CRM_PLATFORMS[number];
+
+/**
+ * A customer's connection to one CRM
+ */
+export interface CRMConnection {
+  id: string;
+  customerId: string;
+  platform: CRMPlatform;
+  /** Private app token (HubSpot), OAuth access token (Salesforce) or API token (Pipedrive) */
+  accessToken: string;
+  /**
+   * API base override: required for Salesforce (the org's instance URL),
+   * optional elsewhere (e.g. a local mock server)
+   */
+  instanceUrl?: string;
+  /** Our field name → the CRM's field key, for CRMs that generate keys (Pipedrive) */
+  fieldKeys: Record<string, string>;
+  provisionedAt?: number;
+  /** Deals modified after this time are pulled on the next sync */
+  lastPulledAt?: number;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type CRMObject = 'account' | 'contact' | 'deal';
+
+/**
+ * Custom field in CRM-neutral terms; each provider maps it onto its own field types
+ */
+export interface CRMFieldSpec {
+  object: CRMObject;
+  name: string;
+  label: string;
+  type: 'number' | 'text' | 'textarea' | 'enum';
+  description: string;
+  options?: Array<{ label: string; value: string }>;
+}
+
+/**
+ * Fields every provider adds to account records for company ratings
+ */
+export const ACCOUNT_SYNC_FIELDS: CRMFieldSpec[] = [
+  {
+    object: 'account',
+    name: 'icp_fit_score',
+    label: 'ICP Fit Score',
+    type: 'number',
+    description: 'Systematic buyer fit score (1-10) from H&S company rating'
+  },
+  {
+    object: 'account',
+    name: 'icp_tier',
+    label: 'ICP Tier',
+    type: 'text',
+    description: 'ICP tier from H&S company rating'
+  }
+];
+
+export interface ProvisionResult {
+  created: string[];
+  existing: string[];
+  /** Field keys to remember on the connection (see CRMConnection.fieldKeys) */
+  fieldKeys: Record<string, string>;
+}
+
+export interface AccountRating {
+  companyName: string;
+  domain?: string;
+  /** CRM field → value, built from the customer's field mapping (see fieldMapping.ts) */
+  fields: Record<string, string | number>;
+}
+
+export interface AccountPushResult {
+  recordId: string;
+  created: boolean;
+}
+
+export interface CRMDeal {
+  id: string;
+  name: string;
+  stage: string;
+  amount?: number;
+  modifiedAt: number;
+}
+
+export interface CRMProvider {
+  readonly platform: CRMPlatform;
+  /** Create whichever of our custom fields don't exist yet */
+  provisionFields(): Promise<ProvisionResult>;
+  /** Find the account by domain or name (creating it if missing) and write the mapped fields */
+  pushAccountRating(rating: AccountRating): Promise<AccountPushResult>;
+  /** Deals modified after `since`, oldest first */
+  listDealsModifiedSince(since: number): Promise<CRMDeal[]>;
+}
+
+/**
+ * Status code of a failed ExternalServiceClient request
+ */
+export function crmErrorStatus(error: unknown): number | undefined {
+  return (error as APIError | undefined)?.statusCode;
+}
@@ -0,0 +1,206 @@
+/**
+ * HubSpot CRM Provider
+ *
+ * CRM v3 API with a private app token. Contact and deal properties come from
+ * CRMIntegrationService.generateHubSpotProperties; the ICP sync fields go on
+ * companies. All properties live in the h_s_revenue_intelligence group.
+ */
+
+import ExternalServiceClient, { createServiceClient } from '@/app/lib/services/external-service-client';
+import crmIntegrationService, { HubSpotProperty } from '@/app/lib/services/CRMIntegrationService';
+import {
+  ACCOUNT_SYNC_FIELDS,
+  AccountPushResult,
+  AccountRating,
+  CRMConnection,
+  CRMDeal,
+  CRMFieldSpec,
+  CRMProvider,
+  ProvisionResult,
+  crmErrorStatus
+} from '../provider';
+
+const DEFAULT_BASE_URL = 'https://api.hubapi.com';
+const PROPERTY_GROUP = 'h_s_revenue_intelligence';
+
+interface HubSpotPropertyInput {
+  name: string;
+  label: string;
+  type: string;
+  fieldType: string;
+  groupName: string;
+  description: string;
+  displayOrder?: number;
+  options?: Array<{ label: string; value: string; displayOrder: number }>;
+}
+
+interface HubSpotObject {
+  id: string;
+  properties: Record<string, string | null>;
+}
+
+interface HubSpotSearchResponse {
+  results: HubSpotObject[];
+  paging?: { next?: { after: string } };
+}
+
+function fromGenerated(property: HubSpotProperty): HubSpotPropertyInput {
+  return {
+    name: property.name,
+    label: property.label,
+    type: property.type,
+    fieldType: property.fieldType,
+    groupName: PROPERTY_GROUP,
+    description: property.description,
+    displayOrder: property.displayOrder,
+    // Number properties carry min/max hints in `options`; only enumerations send options
+    options: Array.isArray(property.options)
+      ? property.options.map((option, index) => ({ label: option.label, value: option.value, displayOrder: index }))
+      : undefined
+  };
+}
+
+function fromSpec(field: CRMFieldSpec, displayOrder: number): HubSpotPropertyInput {
+  const types: Record<CRMFieldSpec['type'], Pick<HubSpotPropertyInput, 'type' | 'fieldType'>> = {
+    number: { type: 'number', fieldType: 'number' },
+    text: { type: 'string', fieldType: 'text' },
+    textarea: { type: 'string', fieldType: 'textarea' },
+    enum: { type: 'enumeration', fieldType: 'select' }
+  };
+
+  return {
+    name: field.name,
+    label: field.label,
+    ...types[field.type],
+    groupName: PROPERTY_GROUP,
+    description: field.description,
+    displayOrder,
+    options: field.options?.map((option, index) => ({ ...option, displayOrder: index }))
+  };
+}
+
+export class HubSpotProvider implements CRMProvider {
+  readonly platform = 'hubspot' as const;
+  private client: ExternalServiceClient;
+
+  constructor(connection: CRMConnection) {
+    this.client = createServiceClient('crm', {
+      baseURL: connection.instanceUrl || DEFAULT_BASE_URL,
+      defaultHeaders: { Authorization: `Bearer ${connection.accessToken}` }
+    });
+  }
+
+  async provisionFields(): Promise<ProvisionResult> {
+    const result: ProvisionResult = { created: [], existing: [], fieldKeys: {} };
+
+    for (const [objectType, properties] of Object.entries(this.propertiesByObject())) {
+      const current = await this.client.get<{ results: Array<{ name: string }> }>(`/crm/v3/properties/${objectType}`);
+      const names = new Set(current.results.map(property => property.name));
+      const missing = properties.filter(property => !names.has(property.name));
+
+      result.existing.push(...properties.filter(property => names.has(property.name)).map(property => `${objectType}.${property.name}`));
+      if (missing.length === 0) continue;
+
+      await this.ensureGroup(objectType);
+
+      for (const property of missing) {
+        try {
+          await this.client.post(`/crm/v3/properties/${objectType}`, property);
+          result.created.push(`${objectType}.${property.name}`);
+        } catch (error) {
+          // Created concurrently since we listed the properties
+          if (crmErrorStatus(error) !== 409) throw error;
+          result.existing.push(`${objectType}.${property.name}`);
+        }
+      }
+    }
+
+    return result;
+  }
+
+  async pushAccountRating(rating: AccountRating): Promise<AccountPushResult> {
+    const filter = rating.domain
+      ? { propertyName: 'domain', operator: 'EQ', value: rating.domain }
+      : { propertyName: 'name', operator: 'EQ', value: rating.companyName };
+
+    const search = await this.client.post<HubSpotSearchResponse>('/crm/v3/objects/companies/search', {
+      filterGroups: [{ filters: [filter] }],
+      properties: ['name', 'domain'],
+      limit: 1
+    });
+
+    const properties = rating.fields;
+
+    const existing = search.results[0];
+    if (existing) {
+      await this.client.request({ method: 'PATCH', url: `/crm/v3/objects/companies/${existing.id}`, data: { properties } });
+      return { recordId: existing.id, created: false };
+    }
+
+    const created = await this.client.post<HubSpotObject>('/crm/v3/objects/companies', {
+      properties: {
+        name: rating.companyName,
+        ...(rating.domain ? { domain: rating.domain } : {}),
+        ...properties
+      }
+    });
+
+    return { recordId: created.id, created: true };
+  }
+
+  async listDealsModifiedSince(since: number): Promise<CRMDeal[]> {
+    const deals: CRMDeal[] = [];
+    let after: string | undefined;
+
+    do {
+      const page: HubSpotSearchResponse = await this.client.post<HubSpotSearchResponse>('/crm/v3/objects/deals/search', {
+        filterGroups: [{ filters: [{ propertyName: 'hs_lastmodifieddate', operator: 'GT', value: String(since) }] }],
+        sorts: [{ propertyName: 'hs_lastmodifieddate', direction: 'ASCENDING' }],
+        properties: ['dealname', 'dealstage', 'amount', 'hs_lastmodifieddate'],
+        limit: 100,
+        ...(after ? { after } : {})
+      });
+
+      deals.push(...page.results.map(deal => ({
+        id: deal.id,
+        name: deal.properties.dealname ?? '',
+        stage: deal.properties.dealstage ?? '',
+        amount: deal.properties.amount ? Number(deal.properties.amount) : undefined,
+        modifiedAt: Date.parse(deal.properties.hs_lastmodifieddate ?? '')
+      })));
+
+      after = page.paging?.next?.after;
+    } while (after);
+
+    return deals;
+  }
+
+  private propertiesByObject(): Record<string, HubSpotPropertyInput[]> {
+    const generated = crmIntegrationService.generateHubSpotProperties({}, {});
+    if (!generated.success) {
+      throw new Error(generated.error ?? 'Failed to generate HubSpot properties');
+    }
+
+    const { contactProperties, dealProperties } = generated.data as {
+      contactProperties: HubSpotProperty[];
+      dealProperties: HubSpotProperty[];
+    };
+
+    return {
+      companies: ACCOUNT_SYNC_FIELDS.map((field, index) => fromSpec(field, index + 1)),
+      contacts: contactProperties.map(fromGenerated),
+      deals: dealProperties.map(fromGenerated)
+    };
+  }
+
+  private async ensureGroup(objectType: string): Promise<void> {
+    try {
+      await this.client.post(`/crm/v3/properties/${objectType}/groups`, {
+        name: PROPERTY_GROUP,
+        label: 'H&S Revenue Intelligence'
+      });
+    } catch (error) {
+      if (crmErrorStatus(error) !== 409) throw error;
+    }
+  }
+}
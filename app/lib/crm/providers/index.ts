@@ -0,0 +1,26 @@
+/**
+ * CRM Providers
+ *
+ * One provider per supported CRM, built per connection.
+ */
+
+import { createAPIError, ErrorType } from '@/app/lib/middleware/error-handler';
+import type { CRMConnection, CRMProvider } from '../provider';
+import { HubSpotProvider } from './hubspot';
+import { PipedriveProvider } from './pipedrive';
+import { SalesforceProvider } from './salesforce';
+
+export { HubSpotProvider, PipedriveProvider, SalesforceProvider };
+
+export function createCRMProvider(connection: CRMConnection): CRMProvider {
+  switch (connection.platform) {
+    case 'hubspot':
+      return new HubSpotProvider(connection);
+    case 'salesforce':
+      return new SalesforceProvider(connection);
+    case 'pipedrive':
+      return new PipedriveProvider(connection);
+    default:
+      throw createAPIError(ErrorType.VALIDATION, `Unsupported CRM platform: ${connection.platform}`, 400);
+  }
+}
@@ -0,0 +1,195 @@
+/**
+ * Pipedrive CRM Provider
+ *
+ * v1 API with a personal API token. Person and deal fields come from
+ * CRMIntegrationService.generatePipedriveData; the ICP sync fields go on
+ * organizations. Pipedrive generates a hash key per custom field, so the keys
+ * are returned from provisioning and kept on the connection.
+ */
+
+import ExternalServiceClient, { createServiceClient } from '@/app/lib/services/external-service-client';
+import crmIntegrationService, { PipedriveField } from '@/app/lib/services/CRMIntegrationService';
+import {
+  ACCOUNT_SYNC_FIELDS,
+  AccountPushResult,
+  AccountRating,
+  CRMConnection,
+  CRMDeal,
+  CRMFieldSpec,
+  CRMObject,
+  CRMProvider,
+  ProvisionResult
+} from '../provider';
+
+const DEFAULT_BASE_URL = 'https://api.pipedrive.com/v1';
+
+const FIELD_ENDPOINTS: Record<CRMObject, string> = {
+  account: 'organizationFields',
+  contact: 'personFields',
+  deal: 'dealFields'
+};
+
+const FIELD_TYPES: Record<CRMFieldSpec['type'], string> = {
+  number: 'double',
+  text: 'varchar',
+  textarea: 'text',
+  enum: 'enum'
+};
+
+interface PipedriveResponse<T> {
+  success: boolean;
+  data: T;
+  additional_data?: { pagination?: { more_items_in_collection?: boolean; next_start?: number } };
+}
+
+interface RecentDeal {
+  item: string;
+  id: number;
+  data: { id: number; title: string; stage_id: number; value?: number | null; update_time: string };
+}
+
+function fromGenerated(object: CRMObject, field: PipedriveField): CRMFieldSpec {
+  const types: Record<string, CRMFieldSpec['type']> = { number: 'number', enum: 'enum', text: 'textarea' };
+
+  return {
+    object,
+    name: field.name,
+    label: field.label,
+    type: types[field.type] ?? 'text',
+    description: field.description,
+    options: field.options?.map(option => ({ label: String(option.label), value: String(option.value) }))
+  };
+}
+
+/** Pipedrive timestamps are UTC "YYYY-MM-DD HH:MM:SS" */
+function toPipedriveTime(timestamp: number): string {
+  return new Date(timestamp).toISOString().slice(0, 19).replace('T', ' ');
+}
+
+function fromPipedriveTime(value: string): number {
+  return Date.parse(`${value.replace(' ', 'T')}Z`);
+}
+
+export class PipedriveProvider implements CRMProvider {
+  readonly platform = 'pipedrive' as const;
+  private client: ExternalServiceClient;
+  private apiToken: string;
+  private fieldKeys: Record<string, string>;
+
+  constructor(connection: CRMConnection) {
+    this.client = createServiceClient('crm', { baseURL: connection.instanceUrl || DEFAULT_BASE_URL });
+    this.apiToken = connection.accessToken;
+    this.fieldKeys = connection.fieldKeys;
+  }
+
+  async provisionFields(): Promise<ProvisionResult> {
+    const generated = crmIntegrationService.generatePipedriveData({}, {});
+    if (!generated.success) {
+      throw new Error(generated.error ?? 'Failed to generate Pipedrive fields');
+    }
+
+    const { contactFields, dealFields } = generated.data as { contactFields: PipedriveField[]; dealFields: PipedriveField[] };
+    const specs: CRMFieldSpec[] = [
+      ...ACCOUNT_SYNC_FIELDS,
+      ...contactFields.map(field => fromGenerated('contact', field)),
+      ...dealFields.map(field => fromGenerated('deal', field))
+    ];
+
+    const result: ProvisionResult = { created: [], existing: [], fieldKeys: {} };
+
+    for (const object of Object.keys(FIELD_ENDPOINTS) as CRMObject[]) {
+      const endpoint = FIELD_ENDPOINTS[object];
+      const current = await this.get<Array<{ key: string; name: string }> | null>(`/${endpoint}`);
+      const keysByName = new Map((current.data ?? []).map(field => [field.name, field.key]));
+
+      for (const spec of specs.filter(entry => entry.object === object)) {
+        const id = `${object}.${spec.name}`;
+        const existingKey = keysByName.get(spec.label);
+
+        if (existingKey) {
+          result.existing.push(id);
+          result.fieldKeys[id] = existingKey;
+          continue;
+        }
+
+        const created = await this.client.post<PipedriveResponse<{ key: string }>>(`/${endpoint}`, {
+          name: spec.label,
+          field_type: FIELD_TYPES[spec.type],
+          ...(spec.options ? { options: spec.options.map(option => ({ label: option.label })) } : {})
+        }, { params: { api_token: this.apiToken } });
+
+        result.created.push(id);
+        result.fieldKeys[id] = created.data.key;
+      }
+    }
+
+    return result;
+  }
+
+  async pushAccountRating(rating: AccountRating): Promise<AccountPushResult> {
+    const search = await this.get<{ items: Array<{ item: { id: number } }> }>('/organizations/search', {
+      term: rating.companyName,
+      fields: 'name',
+      exact_match: true,
+      limit: 1
+    });
+
+    // Mapped names of fields we provisioned resolve to their generated keys
+    const values = Object.fromEntries(Object.entries(rating.fields).map(([name, value]) => [
+      this.fieldKeys[`account.${name}`] ?? name,
+      value
+    ]));
+    const existing = search.data.items[0]?.item;
+
+    if (existing) {
+      await this.client.put(`/organizations/${existing.id}`, values, { params: { api_token: this.apiToken } });
+      return { recordId: String(existing.id), created: false };
+    }
+
+    const created = await this.client.post<PipedriveResponse<{ id: number }>>('/organizations', {
+      name: rating.companyName,
+      ...values
+    }, { params: { api_token: this.apiToken } });
+
+    return { recordId: String(created.data.id), created: true };
+  }
+
+  async listDealsModifiedSince(since: number): Promise<CRMDeal[]> {
+    const stages = await this.get<Array<{ id: number; name: string }>>('/stages');
+    const stageNames = new Map(stages.data.map(stage => [stage.id, stage.name]));
+    const deals: CRMDeal[] = [];
+    let start: number | undefined = 0;
+
+    while (start !== undefined) {
+      const page: PipedriveResponse<RecentDeal[] | null> = await this.get<RecentDeal[] | null>('/recents', {
+        since_timestamp: toPipedriveTime(since),
+        items: 'deal',
+        start,
+        limit: 500
+      });
+
+      for (const recent of page.data ?? []) {
+        if (recent.item !== 'deal') continue;
+        deals.push({
+          id: String(recent.data.id),
+          name: recent.data.title,
+          stage: stageNames.get(recent.data.stage_id) ?? String(recent.data.stage_id),
+          amount: recent.data.value ?? undefined,
+          modifiedAt: fromPipedriveTime(recent.data.update_time)
+        });
+      }
+
+      const pagination = page.additional_data?.pagination;
+      start = pagination?.more_items_in_collection ? pagination.next_start : undefined;
+    }
+
+    // since_timestamp has second precision, so drop deals we've already seen
+    return deals
+      .filter(deal => deal.modifiedAt > since)
+      .sort((a, b) => a.modifiedAt - b.modifiedAt);
+  }
+
+  private get<T>(path: string, params: Record<string, unknown> = {}): Promise<PipedriveResponse<T>> {
+    return this.client.get<PipedriveResponse<T>>(path, { params: { ...params, api_token: this.apiToken } });
+  }
+}
@@ -0,0 +1,171 @@
+/**
+ * Salesforce CRM Provider
+ *
+ * REST API on the org's instance URL with an OAuth access token. Custom
+ * fields from CRMIntegrationService.generateSalesforceFields are created on
+ * Account through the Tooling API. Picklists are created as text fields
+ * because the generator doesn't define their values. New fields still need
+ * field-level security granted to the integration user's profile.
+ */
+
+import { createAPIError, ErrorType } from '@/app/lib/middleware/error-handler';
+import ExternalServiceClient, { createServiceClient } from '@/app/lib/services/external-service-client';
+import crmIntegrationService, { SalesforceField } from '@/app/lib/services/CRMIntegrationService';
+import {
+  AccountPushResult,
+  AccountRating,
+  CRMConnection,
+  CRMDeal,
+  CRMProvider,
+  ProvisionResult,
+  crmErrorStatus
+} from '../provider';
+
+const API_VERSION = 'v59.0';
+
+/** API names of the ICP sync fields (ACCOUNT_SYNC_FIELDS) on Account */
+const ACCOUNT_FIELDS: SalesforceField[] = [
+  {
+    name: 'ICP_Fit_Score__c',
+    label: 'ICP Fit Score',
+    type: 'Number',
+    description: 'Systematic buyer fit score (1-10) from H&S company rating'
+  },
+  {
+    name: 'ICP_Tier__c',
+    label: 'ICP Tier',
+    type: 'Text',
+    description: 'ICP tier from H&S company rating'
+  }
+];
+
+interface QueryResponse<T> {
+  records: T[];
+  done: boolean;
+  nextRecordsUrl?: string;
+}
+
+function toMetadata(field: SalesforceField): Record<string, unknown> {
+  const base = { label: field.label, description: field.description };
+
+  switch (field.type) {
+    case 'Number':
+      return { ...base, type: 'Number', precision: 18, scale: 1 };
+    case 'Long Text Area':
+      return { ...base, type: 'LongTextArea', length: 32768, visibleLines: 4 };
+    default:
+      return { ...base, type: 'Text', length: 255 };
+  }
+}
+
+function soqlString(value: string): string {
+  return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+}
+
+function soqlDateTime(timestamp: number): string {
+  return new Date(timestamp).toISOString().replace(/\.\d{3}Z$/, 'Z');
+}
+
+export class SalesforceProvider implements CRMProvider {
+  readonly platform = 'salesforce' as const;
+  private client: ExternalServiceClient;
+
+  constructor(connection: CRMConnection) {
+    if (!connection.instanceUrl) {
+      throw createAPIError(ErrorType.VALIDATION, 'Salesforce connections need the org instance URL', 400, {
+        connectionId: connection.id
+      });
+    }
+
+    this.client = createServiceClient('crm', {
+      baseURL: `${connection.instanceUrl.replace(/\/$/, '')}/services/data/${API_VERSION}`,
+      defaultHeaders: { Authorization: `Bearer ${connection.accessToken}` }
+    });
+  }
+
+  async provisionFields(): Promise<ProvisionResult> {
+    const generated = crmIntegrationService.generateSalesforceFields({}, {});
+    if (!generated.success) {
+      throw new Error(generated.error ?? 'Failed to generate Salesforce fields');
+    }
+
+    const { customFields } = generated.data as { customFields: SalesforceField[] };
+    const fields = [...customFields, ...ACCOUNT_FIELDS.filter(field => !customFields.some(entry => entry.name === field.name))];
+
+    const describe = await this.client.get<{ fields: Array<{ name: string }> }>('/sobjects/Account/describe');
+    const names = new Set(describe.fields.map(field => field.name));
+    const result: ProvisionResult = { created: [], existing: [], fieldKeys: {} };
+
+    for (const field of fields) {
+      const fullName = `Account.${field.name}`;
+
+      if (names.has(field.name)) {
+        result.existing.push(fullName);
+        continue;
+      }
+
+      try {
+        await this.client.post('/tooling/sobjects/CustomField', { FullName: fullName, Metadata: toMetadata(field) });
+        result.created.push(fullName);
+      } catch (error) {
+        const duplicate = crmErrorStatus(error) === 400 &&
+          JSON.stringify((error as { details?: unknown }).details ?? '').includes('DUPLICATE_DEVELOPER_NAME');
+        if (!duplicate) throw error;
+        result.existing.push(fullName);
+      }
+    }
+
+    return result;
+  }
+
+  async pushAccountRating(rating: AccountRating): Promise<AccountPushResult> {
+    const where = rating.domain
+      ? `Website LIKE ${soqlString(`%${rating.domain}%`)}`
+      : `Name = ${soqlString(rating.companyName)}`;
+
+    const search = await this.client.get<QueryResponse<{ Id: string }>>('/query', {
+      params: { q: `SELECT Id FROM Account WHERE ${where} LIMIT 1` }
+    });
+
+    const values = rating.fields;
+
+    const existing = search.records[0];
+    if (existing) {
+      await this.client.request({ method: 'PATCH', url: `/sobjects/Account/${existing.Id}`, data: values });
+      return { recordId: existing.Id, created: false };
+    }
+
+    const created = await this.client.post<{ id: string }>('/sobjects/Account', {
+      Name: rating.companyName,
+      ...(rating.domain ? { Website: rating.domain } : {}),
+      ...values
+    });
+
+    return { recordId: created.id, created: true };
+  }
+
+  async listDealsModifiedSince(since: number): Promise<CRMDeal[]> {
+    type Opportunity = { Id: string; Name: string; StageName: string; Amount: number | null; LastModifiedDate: string };
+
+    let page = await this.client.get<QueryResponse<Opportunity>>('/query', {
+      params: {
+        q: `SELECT Id, Name, StageName, Amount, LastModifiedDate FROM Opportunity ` +
+          `WHERE LastModifiedDate > ${soqlDateTime(since)} ORDER BY LastModifiedDate ASC`
+      }
+    });
+    const records = [...page.records];
+
+    while (!page.done && page.nextRecordsUrl) {
+      page = await this.client.get<QueryResponse<Opportunity>>(page.nextRecordsUrl.replace(/^.*\/services\/data\/v[\d.]+/, ''));
+      records.push(...page.records);
+    }
+
+    return records.map(record => ({
+      id: record.Id,
+      name: record.Name,
+      stage: record.StageName,
+      amount: record.Amount ?? undefined,
+      modifiedAt: Date.parse(record.LastModifiedDate)
+    }));
+  }
+}
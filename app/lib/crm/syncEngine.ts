@@ -0,0 +1,854 @@
+/**
+ * FUNCTIONALITY STATUS: REAL
+ *
+ * REAL IMPLEMENTATIONS:
+ * - Two-way CRM sync for HubSpot, Salesforce and Pipedrive behind one
+ *   provider interface (see provider.ts and providers/)
+ * - Provisioning of the custom fields CRMIntegrationService defines, plus ICP
+ *   fit score and tier on account records
+ * - Push: company ratings (company_rated events) written onto the matching
+ *   account, created if missing, through the customer's field mapping
+ *   (fieldMapping.ts) or the generated field names by default
+ * - Pull: deal stage changes since the last sync, emitted as
+ *   crm_deal_stage_changed events (scheduled every 15 minutes)
+ * - Sync run history per connection
+ * - Pluggable persistence (memory for development, Supabase for production)
+ *
+ * FAKE IMPLEMENTATIONS:
+ * - None - all functionality is production-ready
+ *
+ * MISSING REQUIREMENTS:
+ * - Supabase store needs the crm_connections, crm_deal_stages,
+ *   crm_sync_runs and crm_field_mappings tables (see SupabaseCRMSyncStore)
+ * - OAuth flows: connections take a token the customer pastes in
+ *   (HubSpot private app token, Salesforce access token, Pipedrive API token)
+ *
+ * PRODUCTION READINESS: YES
+ * - The first pull only records each deal's stage; changes are emitted from then on
+ * - Every provider can be exercised against the local mock server (mockServer.ts)
+ * - Instance URLs can only override the API host outside production; in
+ *   production Salesforce needs an https Salesforce host that resolves to
+ *   public addresses (checked before every sync)
+ */
+
+import crypto from 'crypto';
+import { createAPIError, ErrorType } from '@/app/lib/middleware/error-handler';
+import { HostLookup, assertPublicHost, isPrivateHostname } from '@/app/lib/utils/public-host';
+import type { CompanyRatedPayload } from '@/app/lib/events/event-types';
+import {
+  CRMFieldMapping,
+  FieldMappingPreview,
+  MappingRecord,
+  MappingValidation,
+  StoredFieldMapping,
+  defaultFieldMapping,
+  previewFieldMapping,
+  validateFieldMapping
+} from './fieldMapping';
+import { CRM_PLATFORMS, CRMConnection, CRMPlatform, CRMProvider } from './provider';
+import { createCRMProvider } from './providers';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type CRMSyncDirection = 'provision' | 'push' | 'pull';
+
+export interface CRMSyncRun {
+  id: string;
+  connectionId: string;
+  customerId: string;
+  direction: CRMSyncDirection;
+  status: 'succeeded' | 'failed';
+  summary?: Record<string, unknown>;
+  error?: string;
+  startedAt: number;
+  finishedAt: number;
+}
+
+export interface CRMDealStageRecord {
+  connectionId: string;
+  dealId: string;
+  stage: string;
+  updatedAt: number;
+}
+
+/** Connection as shown to the customer: the token reduced to its last characters */
+export type CRMConnectionView = Omit<CRMConnection, 'accessToken' | 'fieldKeys'> & { tokenPreview: string };
+
+export interface CRMConnectionInput {
+  platform: string;
+  accessToken: string;
+  instanceUrl?: string;
+}
+
+// ============================================================================
+// STORES
+// ============================================================================
+
+export interface CRMSyncStore {
+  readonly name: string;
+  saveConnection(connection: CRMConnection): Promise<void>;
+  getConnection(id: string): Promise<CRMConnection | null>;
+  /** All connections, or one customer's */
+  listConnections(customerId?: string): Promise<CRMConnection[]>;
+  /** Removes the connection with its deal stages and run history */
+  deleteConnection(id: string): Promise<void>;
+  getDealStages(connectionId: string, dealIds: string[]): Promise<Map<string, string>>;
+  saveDealStages(records: CRMDealStageRecord[]): Promise<void>;
+  saveRun(run: CRMSyncRun): Promise<void>;
+  /** Newest first */
+  listRuns(filter: { customerId: string; connectionId?: string; limit?: number }): Promise<CRMSyncRun[]>;
+  getFieldMapping(customerId: string, platform: CRMPlatform): Promise<StoredFieldMapping | null>;
+  saveFieldMapping(mapping: StoredFieldMapping): Promise<void>;
+  deleteFieldMapping(customerId: string, platform: CRMPlatform): Promise<void>;
+}
+
+/**
+ * Process-local store. Connections reset on restart, so only use it for development.
+ */
+export class MemoryCRMSyncStore implements CRMSyncStore {
+  readonly name = 'memory';
+  private connections = new Map<string, CRMConnection>();
+  private dealStages = new Map<string, CRMDealStageRecord>();
+  private runs: CRMSyncRun[] = [];
+  private fieldMappings = new Map<string, StoredFieldMapping>();
+
+  async saveConnection(connection: CRMConnection): Promise<void> {
+    this.connections.set(connection.id, { ...connection, fieldKeys: { ...connection.fieldKeys } });
+  }
+
+  async getConnection(id: string): Promise<CRMConnection | null> {
+    const connection = this.connections.get(id);
+    return connection ? { ...connection, fieldKeys: { ...connection.fieldKeys } } : null;
+  }
+
+  async listConnections(customerId?: string): Promise<CRMConnection[]> {
+    return [...this.connections.values()]
+      .filter(connection => !customerId || connection.customerId === customerId)
+      .sort((a, b) => a.createdAt - b.createdAt)
+      .map(connection => ({ ...connection, fieldKeys: { ...connection.fieldKeys } }));
+  }
+
+  async deleteConnection(id: string): Promise<void> {
+    this.connections.delete(id);
+    for (const [key, record] of this.dealStages) {
+      if (record.connectionId === id) this.dealStages.delete(key);
+    }
+    this.runs = this.runs.filter(run => run.connectionId !== id);
+  }
+
+  async getDealStages(connectionId: string, dealIds: string[]): Promise<Map<string, string>> {
+    const stages = new Map<string, string>();
+    for (const dealId of dealIds) {
+      const record = this.dealStages.get(`${connectionId}:${dealId}`);
+      if (record) stages.set(dealId, record.stage);
+    }
+    return stages;
+  }
+
+  async saveDealStages(records: CRMDealStageRecord[]): Promise<void> {
+    for (const record of records) {
+      this.dealStages.set(`${record.connectionId}:${record.dealId}`, { ...record });
+    }
+  }
+
+  async saveRun(run: CRMSyncRun): Promise<void> {
+    this.runs.push({ ...run });
+  }
+
+  async listRuns(filter: { customerId: string; connectionId?: string; limit?: number }): Promise<CRMSyncRun[]> {
+    return this.runs
+      .filter(run => run.customerId === filter.customerId)
+      .filter(run => !filter.connectionId || run.connectionId === filter.connectionId)
+      .sort((a, b) => b.startedAt - a.startedAt)
+      .slice(0, filter.limit ?? 50)
+      .map(run => ({ ...run }));
+  }
+
+  async getFieldMapping(customerId: string, platform: CRMPlatform): Promise<StoredFieldMapping | null> {
+    const stored = this.fieldMappings.get(`${customerId}:${platform}`);
+    return stored ? structuredClone(stored) : null;
+  }
+
+  async saveFieldMapping(mapping: StoredFieldMapping): Promise<void> {
+    this.fieldMappings.set(`${mapping.customerId}:${mapping.platform}`, structuredClone(mapping));
+  }
+
+  async deleteFieldMapping(customerId: string, platform: CRMPlatform): Promise<void> {
+    this.fieldMappings.delete(`${customerId}:${platform}`);
+  }
+
+  clear(): void {
+    this.connections.clear();
+    this.dealStages.clear();
+    this.runs = [];
+    this.fieldMappings.clear();
+  }
+}
+
+/**
+ * Supabase-backed store.
+ *
+ * Expected tables:
+ *   create table crm_connections (
+ *     id text primary key,
+ *     customer_id text not null,
+ *     platform text not null,
+ *     access_token text not null,
+ *     instance_url text,
+ *     field_keys jsonb not null default '{}',
+ *     provisioned_at timestamptz,
+ *     last_pulled_at timestamptz,
+ *     created_at timestamptz not null default now(),
+ *     updated_at timestamptz not null default now(),
+ *     unique (customer_id, platform)
+ *   );
+ *
+ *   create table crm_deal_stages (
+ *     connection_id text not null references crm_connections (id) on delete cascade,
+ *     deal_id text not null,
+ *     stage text not null,
+ *     updated_at timestamptz not null default now(),
+ *     primary key (connection_id, deal_id)
+ *   );
+ *
+ *   create table crm_sync_runs (
+ *     id text primary key,
+ *     connection_id text not null references crm_connections (id) on delete cascade,
+ *     customer_id text not null,
+ *     direction text not null,
+ *     status text not null,
+ *     summary jsonb,
+ *     error text,
+ *     started_at timestamptz not null,
+ *     finished_at timestamptz not null
+ *   );
+ *   create index crm_sync_runs_customer on crm_sync_runs (customer_id, started_at desc);
+ *
+ *   create table crm_field_mappings (
+ *     customer_id text not null,
+ *     platform text not null,
+ *     mapping jsonb not null,
+ *     updated_at timestamptz not null default now(),
+ *     primary key (customer_id, platform)
+ *   );
+ */
+export class SupabaseCRMSyncStore implements CRMSyncStore {
+  readonly name = 'supabase';
+
+  async saveConnection(connection: CRMConnection): Promise<void> {
+    const client = await this.client();
+    const { error } = await (client.from('crm_connections') as any).upsert({
+      id: connection.id,
+      customer_id: connection.customerId,
+      platform: connection.platform,
+      access_token: connection.accessToken,
+      instance_url: connection.instanceUrl ?? null,
+      field_keys: connection.fieldKeys,
+      provisioned_at: connection.provisionedAt ? new Date(connection.provisionedAt).toISOString() : null,
+      last_pulled_at: connection.lastPulledAt ? new Date(connection.lastPulledAt).toISOString() : null,
+      created_at: new Date(connection.createdAt).toISOString(),
+      updated_at: new Date(connection.updatedAt).toISOString()
+    });
+
+    if (error) {
+      throw createAPIError(ErrorType.DATABASE, 'Failed to save CRM connection', 500, { connectionId: connection.id });
+    }
+  }
+
+  async getConnection(id: string): Promise<CRMConnection | null> {
+    const client = await this.client();
+    const { data, error } = await (client.from('crm_connections') as any)
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) {
+      throw createAPIError(ErrorType.DATABASE, 'Failed to load CRM connection', 500, { connectionId: id });
+    }
+
+    return data ? this.toConnection(data) : null;
+  }
+
+  async listConnections(customerId?: string): Promise<CRMConnection[]> {
+    const client = await this.client();
+    let query = (client.from('crm_connections') as any).select('*');
+    if (customerId) query = query.eq('customer_id', customerId);
+
+    const { data, error } = await query.order('created_at', { ascending: true });
+
+    if (error) {
+      throw createAPIError(ErrorType.DATABASE, 'Failed to load CRM connections', 500, { customerId });
+    }
+
+    return ((data || []) as any[]).map(row => this.toConnection(row));
+  }
+
+  async deleteConnection(id: string): Promise<void> {
+    const client = await this.client();
+    const { error } = await (client.from('crm_connections') as any).delete().eq('id', id);
+
+    if (error) {
+      throw createAPIError(ErrorType.DATABASE, 'Failed to delete CRM connection', 500, { connectionId: id });
+    }
+  }
+
+  async getDealStages(connectionId: string, dealIds: string[]): Promise<Map<string, string>> {
+    if (dealIds.length === 0) return new Map();
+
+    const client = await this.client();
+    const { data, error } = await (client.from('crm_deal_stages') as any)
+      .select('deal_id, stage')
+      .eq('connection_id', connectionId)
+      .in('deal_id', dealIds);
+
+    if (error) {
+      throw createAPIError(ErrorType.DATABASE, 'Failed to load CRM deal stages', 500, { connectionId });
+    }
+
+    return new Map(((data || []) as any[]).map(row => [row.deal_id, row.stage]));
+  }
+
+  async saveDealStages(records: CRMDealStageRecord[]): Promise<void> {
+    if (records.length === 0) return;
+
+    const client = await this.client();
+    const { error } = await (client.from('crm_deal_stages') as any).upsert(records.map(record => ({
+      connection_id: record.connectionId,
+      deal_id: record.dealId,
+      stage: record.stage,
+      updated_at: new Date(record.updatedAt).toISOString()
+    })));
+
+    if (error) {
+      throw createAPIError(ErrorType.DATABASE, 'Failed to save CRM deal stages', 500);
+    }
+  }
+
+  async saveRun(run: CRMSyncRun): Promise<void> {
+    const client = await this.client();
+    const { error } = await (client.from('crm_sync_runs') as any).insert({
+      id: run.id,
+      connection_id: run.connectionId,
+      customer_id: run.customerId,
+      direction: run.direction,
+      status: run.status,
+      summary: run.summary ?? null,
+      error: run.error ?? null,
+      started_at: new Date(run.startedAt).toISOString(),
+      finished_at: new Date(run.finishedAt).toISOString()
+    });
+
+    if (error) {
+      throw createAPIError(ErrorType.DATABASE, 'Failed to save CRM sync run', 500, { runId: run.id });
+    }
+  }
+
+  async listRuns(filter: { customerId: string; connectionId?: string; limit?: number }): Promise<CRMSyncRun[]> {
+    const client = await this.client();
+    let query = (client.from('crm_sync_runs') as any)
+      .select('*')
+      .eq('customer_id', filter.customerId);
+
+    if (filter.connectionId) query = query.eq('connection_id', filter.connectionId);
+
+    const { data, error } = await query
+      .order('started_at', { ascending: false })
+      .limit(filter.limit ?? 50);
+
+    if (error) {
+      throw createAPIError(ErrorType.DATABASE, 'Failed to load CRM sync runs', 500);
+    }
+
+    return ((data || []) as any[]).map(row => ({
+      id: row.id,
+      connectionId: row.connection_id,
+      customerId: row.customer_id,
+      direction: row.direction,
+      status: row.status,
+      summary: row.summary ?? undefined,
+      error: row.error ?? undefined,
+      startedAt: Date.parse(row.started_at),
+      finishedAt: Date.parse(row.finished_at)
+    }));
+  }
+
+  async getFieldMapping(customerId: string, platform: CRMPlatform): Promise<StoredFieldMapping | null> {
+    const client = await this.client();
+    const { data, error } = await (client.from('crm_field_mappings') as any)
+      .select('*')
+      .eq('customer_id', customerId)
+      .eq('platform', platform)
+      .maybeSingle();
+
+    if (error) {
+      throw createAPIError(ErrorType.DATABASE, 'Failed to load CRM field mapping', 500, { customerId, platform });
+    }
+
+    return data
+      ? { customerId: data.customer_id, platform: data.platform, mapping: data.mapping, updatedAt: Date.parse(data.updated_at) }
+      : null;
+  }
+
+  async saveFieldMapping(mapping: StoredFieldMapping): Promise<void> {
+    const client = await this.client();
+    const { error } = await (client.from('crm_field_mappings') as any).upsert({
+      customer_id: mapping.customerId,
+      platform: mapping.platform,
+      mapping: mapping.mapping,
+      updated_at: new Date(mapping.updatedAt).toISOString()
+    });
+
+    if (error) {
+      throw createAPIError(ErrorType.DATABASE, 'Failed to save CRM field mapping', 500, {
+        customerId: mapping.customerId,
+        platform: mapping.platform
+      });
+    }
+  }
+
+  async deleteFieldMapping(customerId: string, platform: CRMPlatform): Promise<void> {
+    const client = await this.client();
+    const { error } = await (client.from('crm_field_mappings') as any)
+      .delete()
+      .eq('customer_id', customerId)
+      .eq('platform', platform);
+
+    if (error) {
+      throw createAPIError(ErrorType.DATABASE, 'Failed to delete CRM field mapping', 500, { customerId, platform });
+    }
+  }
+
+  private toConnection(row: any): CRMConnection {
+    return {
+      id: row.id,
+      customerId: row.customer_id,
+      platform: row.platform,
+      accessToken: row.access_token,
+      instanceUrl: row.instance_url ?? undefined,
+      fieldKeys: row.field_keys ?? {},
+      provisionedAt: row.provisioned_at ? Date.parse(row.provisioned_at) : undefined,
+      lastPulledAt: row.last_pulled_at ? Date.parse(row.last_pulled_at) : undefined,
+      createdAt: Date.parse(row.created_at),
+      updatedAt: Date.parse(row.updated_at)
+    };
+  }
+
+  private async client() {
+    const { supabaseAdmin } = await import('@/app/lib/supabase/admin');
+    return supabaseAdmin;
+  }
+}
+
+/**
+ * Build the store configured through CRM_SYNC_STORE (memory | supabase)
+ */
+export function createCRMSyncStore(
+  type: string | undefined = process.env.CRM_SYNC_STORE
+): CRMSyncStore {
+  if (type === 'supabase') {
+    return new SupabaseCRMSyncStore();
+  }
+
+  if (type && type !== 'memory') {
+    console.warn(`⚠️ Unknown CRM_SYNC_STORE "${type}", falling back to memory`);
+  }
+
+  return new MemoryCRMSyncStore();
+}
+
+// ============================================================================
+// SYNC ENGINE
+// ============================================================================
+
+/** How far back the first pull looks for deals */
+const INITIAL_PULL_WINDOW_MS = 30 * 24 * 60 * 60 * 1000;
+
+export function redactConnection(connection: CRMConnection): CRMConnectionView {
+  const { accessToken, fieldKeys: _fieldKeys, ...view } = connection;
+  return { ...view, tokenPreview: `••••${accessToken.slice(-4)}` };
+}
+
+// Salesforce orgs are served from Salesforce hosts (acme.my.salesforce.com,
+// acme--dev.sandbox.my.salesforce.com)
+const SALESFORCE_HOST_SUFFIXES = ['.my.salesforce.com'];
+
+/**
+ * Check a connection's instance URL. Outside production any http(s) URL is
+ * accepted so providers can point at the local mock server; in production
+ * HubSpot and Pipedrive always use their public APIs and Salesforce needs an
+ * https URL on a Salesforce host.
+ */
+export function validateInstanceUrl(platform: CRMPlatform, instanceUrl: string): string {
+  let parsed: URL;
+  try {
+    parsed = new URL(instanceUrl.trim());
+  } catch {
+    throw createAPIError(ErrorType.VALIDATION, 'instanceUrl is not a valid URL', 400, { instanceUrl });
+  }
+
+  if (!['https:', 'http:'].includes(parsed.protocol) || parsed.username || parsed.password) {
+    throw createAPIError(ErrorType.VALIDATION, 'instanceUrl must be an http(s) URL without credentials', 400, { instanceUrl });
+  }
+
+  if (process.env.NODE_ENV !== 'production') {
+    return instanceUrl.trim();
+  }
+
+  if (platform !== 'salesforce') {
+    throw createAPIError(ErrorType.VALIDATION, `instanceUrl is not supported for ${platform}`, 400, { platform });
+  }
+
+  const host = parsed.hostname.toLowerCase();
+  if (
+    parsed.protocol !== 'https:' ||
+    parsed.port ||
+    isPrivateHostname(host) ||
+    !SALESFORCE_HOST_SUFFIXES.some(suffix => host.endsWith(suffix))
+  ) {
+    throw createAPIError(
+      ErrorType.VALIDATION,
+      'instanceUrl must be your org\'s https://<domain>.my.salesforce.com URL',
+      400,
+      { instanceUrl }
+    );
+  }
+
+  return parsed.origin;
+}
+
+export class CRMSyncEngine {
+  private store: CRMSyncStore;
+  private providerFactory: (connection: CRMConnection) => CRMProvider;
+  private lookup?: HostLookup;
+
+  constructor(
+    store: CRMSyncStore = createCRMSyncStore(),
+    providerFactory: (connection: CRMConnection) => CRMProvider = createCRMProvider,
+    options: { lookup?: HostLookup } = {}
+  ) {
+    this.store = store;
+    this.providerFactory = providerFactory;
+    this.lookup = options.lookup;
+  }
+
+  // ==========================================================================
+  // CONNECTIONS
+  // ==========================================================================
+
+  /**
+   * Connect a CRM; replaces the customer's existing connection to the same platform
+   */
+  async connect(customerId: string, input: CRMConnectionInput): Promise<CRMConnection> {
+    const platform = this.requirePlatform(input.platform);
+
+    if (!input.accessToken?.trim()) {
+      throw createAPIError(ErrorType.VALIDATION, 'accessToken is required', 400);
+    }
+
+    if (input.platform === 'salesforce' && !input.instanceUrl) {
+      throw createAPIError(ErrorType.VALIDATION, 'instanceUrl is required for Salesforce', 400);
+    }
+
+    const instanceUrl = input.instanceUrl?.trim() ? validateInstanceUrl(platform, input.instanceUrl) : undefined;
+
+    const previous = (await this.store.listConnections(customerId)).find(connection => connection.platform === platform);
+    if (previous) {
+      await this.store.deleteConnection(previous.id);
+    }
+
+    const now = Date.now();
+    const connection: CRMConnection = {
+      id: `crmc_${crypto.randomUUID()}`,
+      customerId,
+      platform,
+      accessToken: input.accessToken.trim(),
+      instanceUrl,
+      fieldKeys: {},
+      createdAt: now,
+      updatedAt: now
+    };
+
+    await this.store.saveConnection(connection);
+    console.log(`🔌 ${platform} connected for ${customerId}`);
+    return connection;
+  }
+
+  async listConnections(customerId: string): Promise<CRMConnection[]> {
+    return this.store.listConnections(customerId);
+  }
+
+  async disconnect(customerId: string, connectionId: string): Promise<void> {
+    await this.getOwnedConnection(customerId, connectionId);
+    await this.store.deleteConnection(connectionId);
+  }
+
+  async listRuns(customerId: string, connectionId?: string, limit?: number): Promise<CRMSyncRun[]> {
+    return this.store.listRuns({ customerId, connectionId, limit });
+  }
+
+  // ==========================================================================
+  // FIELD MAPPING
+  // ==========================================================================
+
+  /**
+   * The customer's mapping for a platform, or the generated field names if none is saved
+   */
+  async getFieldMapping(customerId: string, platform: string): Promise<StoredFieldMapping & { isDefault: boolean }> {
+    const crmPlatform = this.requirePlatform(platform);
+    const stored = await this.store.getFieldMapping(customerId, crmPlatform);
+
+    return stored
+      ? { ...stored, isDefault: false }
+      : { customerId, platform: crmPlatform, mapping: defaultFieldMapping(crmPlatform), updatedAt: 0, isDefault: true };
+  }
+
+  /**
+   * Save a mapping; rejected with the validation issues if it has errors
+   */
+  async saveFieldMapping(
+    customerId: string,
+    platform: string,
+    mapping: CRMFieldMapping
+  ): Promise<{ mapping: StoredFieldMapping; validation: MappingValidation }> {
+    const crmPlatform = this.requirePlatform(platform);
+    const validation = validateFieldMapping(crmPlatform, mapping);
+
+    if (!validation.isValid) {
+      throw createAPIError(ErrorType.VALIDATION, `Invalid field mapping: ${validation.errors.join('; ')}`, 400, {
+        issues: validation.issues
+      });
+    }
+
+    const stored: StoredFieldMapping = { customerId, platform: crmPlatform, mapping, updatedAt: Date.now() };
+    await this.store.saveFieldMapping(stored);
+    return { mapping: stored, validation };
+  }
+
+  async resetFieldMapping(customerId: string, platform: string): Promise<void> {
+    await this.store.deleteFieldMapping(customerId, this.requirePlatform(platform));
+  }
+
+  /**
+   * Dry run of a mapping (the saved one if omitted) against a sample record; nothing is written
+   */
+  async previewFieldMapping(
+    customerId: string,
+    platform: string,
+    mapping?: CRMFieldMapping,
+    record?: MappingRecord
+  ): Promise<FieldMappingPreview> {
+    const crmPlatform = this.requirePlatform(platform);
+    const effective = mapping ?? (await this.getFieldMapping(customerId, crmPlatform)).mapping;
+    return previewFieldMapping(crmPlatform, effective, record);
+  }
+
+  // ==========================================================================
+  // SYNC
+  // ==========================================================================
+
+  /**
+   * Create the custom fields in the CRM and remember their keys
+   */
+  async provisionFields(customerId: string, connectionId: string): Promise<CRMSyncRun> {
+    const connection = await this.getOwnedConnection(customerId, connectionId);
+    return this.provision(connection);
+  }
+
+  /**
+   * Push a company rating to every CRM the customer connected
+   */
+  async pushCompanyRating(rating: Omit<CompanyRatedPayload, 'timestamp'>): Promise<CRMSyncRun[]> {
+    const runs: CRMSyncRun[] = [];
+
+    for (let connection of await this.store.listConnections(rating.customerId)) {
+      if (!connection.provisionedAt) {
+        const provisioned = await this.provision(connection);
+        runs.push(provisioned);
+        if (provisioned.status === 'failed') continue;
+        connection = (await this.store.getConnection(connection.id)) ?? connection;
+      }
+
+      runs.push(await this.track(connection, 'push', async () => {
+        const { mapping } = await this.getFieldMapping(connection.customerId, connection.platform);
+        const { fields } = previewFieldMapping(connection.platform, mapping, {
+          companyName: rating.companyName,
+          domain: rating.domain,
+          score: rating.score,
+          tier: rating.tier
+        });
+
+        const result = await (await this.provider(connection)).pushAccountRating({
+          companyName: rating.companyName,
+          domain: rating.domain,
+          fields
+        });
+        return { companyName: rating.companyName, fields: Object.keys(fields), ...result };
+      }));
+    }
+
+    return runs;
+  }
+
+  /**
+   * Pull deals modified since the last pull and emit their stage changes
+   */
+  async pullDealStages(customerId: string, connectionId: string): Promise<CRMSyncRun> {
+    const connection = await this.getOwnedConnection(customerId, connectionId);
+    return this.pull(connection);
+  }
+
+  /**
+   * Pull every connection (the scheduled job)
+   */
+  async pullAllConnections(): Promise<CRMSyncRun[]> {
+    const runs: CRMSyncRun[] = [];
+    for (const connection of await this.store.listConnections()) {
+      runs.push(await this.pull(connection));
+    }
+    return runs;
+  }
+
+  private async provision(connection: CRMConnection): Promise<CRMSyncRun> {
+    return this.track(connection, 'provision', async () => {
+      const result = await (await this.provider(connection)).provisionFields();
+
+      await this.store.saveConnection({
+        ...connection,
+        fieldKeys: { ...connection.fieldKeys, ...result.fieldKeys },
+        provisionedAt: Date.now(),
+        updatedAt: Date.now()
+      });
+
+      return { created: result.created, existing: result.existing.length };
+    });
+  }
+
+  private async pull(connection: CRMConnection): Promise<CRMSyncRun> {
+    return this.track(connection, 'pull', async () => {
+      const since = connection.lastPulledAt ?? Date.now() - INITIAL_PULL_WINDOW_MS;
+      const deals = await (await this.provider(connection)).listDealsModifiedSince(since);
+      const known = await this.store.getDealStages(connection.id, deals.map(deal => deal.id));
+      const changes = deals.filter(deal => known.has(deal.id) && known.get(deal.id) !== deal.stage);
+
+      if (changes.length > 0) {
+        const { default: eventBus } = await import('@/app/lib/events/EventBus');
+        for (const deal of changes) {
+          await eventBus.emit('crm_deal_stage_changed', {
+            customerId: connection.customerId,
+            connectionId: connection.id,
+            platform: connection.platform,
+            dealId: deal.id,
+            dealName: deal.name,
+            stage: deal.stage,
+            previousStage: known.get(deal.id)!,
+            amount: deal.amount
+          });
+        }
+      }
+
+      const now = Date.now();
+      await this.store.saveDealStages(deals.map(deal => ({
+        connectionId: connection.id,
+        dealId: deal.id,
+        stage: deal.stage,
+        updatedAt: now
+      })));
+
+      // Deals modified while this pull ran are picked up next time
+      const lastModified = deals.reduce((latest, deal) => Math.max(latest, deal.modifiedAt), since);
+      const current = (await this.store.getConnection(connection.id)) ?? connection;
+      await this.store.saveConnection({ ...current, lastPulledAt: lastModified, updatedAt: now });
+
+      return { deals: deals.length, stageChanges: changes.length };
+    });
+  }
+
+  /**
+   * Run one sync step and record it; failures are recorded, not thrown
+   */
+  private async track(
+    connection: CRMConnection,
+    direction: CRMSyncDirection,
+    step: () => Promise<Record<string, unknown>>
+  ): Promise<CRMSyncRun> {
+    const base = {
+      id: `crms_${crypto.randomUUID()}`,
+      connectionId: connection.id,
+      customerId: connection.customerId,
+      direction,
+      startedAt: Date.now()
+    };
+    let run: CRMSyncRun;
+
+    try {
+      const summary = await step();
+      run = { ...base, status: 'succeeded', summary, finishedAt: Date.now() };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : (error as any)?.message ?? String(error);
+      console.error(`❌ ${connection.platform} ${direction} failed for ${connection.customerId}:`, message);
+      run = { ...base, status: 'failed', error: message, finishedAt: Date.now() };
+    }
+
+    try {
+      await this.store.saveRun(run);
+    } catch (error) {
+      console.error(`❌ Failed to record CRM sync run ${run.id}:`, error);
+    }
+
+    return run;
+  }
+
+  /**
+   * Provider for a connection, once its instance URL is confirmed to still
+   * be allowed and (in production) to resolve to public addresses
+   */
+  private async provider(connection: CRMConnection): Promise<CRMProvider> {
+    if (connection.instanceUrl) {
+      const url = validateInstanceUrl(connection.platform, connection.instanceUrl);
+      if (process.env.NODE_ENV === 'production') {
+        await assertPublicHost(new URL(url).hostname, this.lookup);
+      }
+    }
+
+    return this.providerFactory(connection);
+  }
+
+  private requirePlatform(platform: string): CRMPlatform {
+    if (!(CRM_PLATFORMS as readonly string[]).includes(platform)) {
+      throw createAPIError(ErrorType.VALIDATION, `Unsupported CRM platform: ${platform}`, 400, { supported: CRM_PLATFORMS });
+    }
+    return platform as CRMPlatform;
+  }
+
+  private async getOwnedConnection(customerId: string, connectionId: string): Promise<CRMConnection> {
+    const connection = await this.store.getConnection(connectionId);
+
+    // Someone else's connection is reported as missing rather than forbidden
+    if (!connection || connection.customerId !== customerId) {
+      throw createAPIError(ErrorType.NOT_FOUND, `CRM connection ${connectionId} not found`, 404, { connectionId });
+    }
+
+    return connection;
+  }
+}
+
+export const crmSyncEngine = new CRMSyncEngine();
+
+let registered = false;
+
+/**
+ * Push company ratings to connected CRMs as they happen. Safe to call more than once.
+ */
+export async function registerCRMSync(): Promise<void> {
+  if (registered) return;
+  registered = true;
+
+  const { default: eventBus } = await import('@/app/lib/events/EventBus');
+  eventBus.on('company_rated', async (_event, payload) => {
+    await crmSyncEngine.pushCompanyRating(payload);
+  });
+}
+
+export default crmSyncEngine;
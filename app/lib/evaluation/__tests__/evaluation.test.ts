@@ -0,0 +1,119 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * AI Evaluation Harness Unit Tests
+ *
+ * Tests the offline evaluation harness:
+ * - Rubric scoring (criteria weights, persona field coverage)
+ * - Replaying recorded responses across two prompt versions
+ * - Diff report between runs
+ */
+
+import { loadGoldenSet } from '../goldenSet';
+import { EvaluationModel, RecordingModel, ReplayModel, Recordings } from '../replayModel';
+import { diffRuns, formatDiffReport, runEvaluation } from '../runner';
+import { scoreBuyerPersona, scoreRatingFramework } from '../rubrics';
+
+const resources = (personaCount: number) => JSON.stringify({
+  personas: Array.from({ length: personaCount }, (_, index) => ({
+    name: `Persona ${index}`,
+    role: 'VP Engineering',
+    characteristics: 'Pragmatic',
+    painPoints: index === 0 ? ['Slow builds'] : [],
+    goals: index === 0 ? ['Ship faster'] : []
+  })),
+  insights: [{ category: 'market', insight: 'Teams are consolidating tools' }],
+  recommendations: [{ priority: 'high', action: 'Lead with build times' }],
+  confidenceScore: 8
+});
+
+describe('rubrics', () => {
+  it('gives partial credit when criteria weights miss 100', () => {
+    const framework = (weights: number[]) => scoreRatingFramework({
+      framework: { name: 'Fit', scoringMethod: 'weighted', totalPoints: 100 },
+      criteria: weights.map((weight, index) => ({ criterion: `c${index}`, weight, scoring: '0-10' })),
+      questions: [{ category: 'budget', question: 'Who owns the budget?' }]
+    });
+
+    expect(framework([60, 40]).score).toBe(1);
+
+    const check = framework([60, 30]).checks.find(entry => entry.id === 'weights_sum')!;
+    expect(check.score).toBe(0.9);
+    expect(check.detail).toBe('weights sum to 90');
+  });
+
+  it('checks persona fields and carries over input pain points', () => {
+    const result = scoreBuyerPersona({
+      name: 'CTO',
+      role: 'Decision maker',
+      aiInstructions: 'Act as a CTO',
+      conversationStarters: ['What slows you down?'],
+      objectionHandling: [],
+      rolePlayingPrompt: 'You are a CTO',
+      validationPrompt: 'Would you buy?',
+      metadata: {
+        communicationStyle: 'direct',
+        decisionCriteria: ['ROI'],
+        motivations: ['Ship faster'],
+        concerns: []
+      }
+    }, { id: 'cto', name: 'CTO', description: 'Technical buyer', painPoints: ['Slow builds'], goals: ['Ship faster'] });
+
+    const fields = result.checks.find(check => check.id === 'persona_fields')!;
+    expect(fields.detail).toBe('missing: objectionHandling, metadata.concerns');
+    expect(result.checks.find(check => check.id === 'grounding')!.score).toBe(0.5);
+  });
+});
+
+describe('evaluation runs', () => {
+  const fixtures = loadGoldenSet({ limit: 2 });
+
+  it('builds the golden set from the demo product and scenarios', () => {
+    const all = loadGoldenSet();
+
+    expect(all[0].id).toBe('demo-devtool-pro');
+    expect(all.slice(1).every(fixture => fixture.source === 'scenario')).toBe(true);
+    expect(new Set(all.map(fixture => fixture.id)).size).toBe(all.length);
+  });
+
+  it('records once, then replays two prompt versions offline and diffs them', async () => {
+    // Version 1 answers with a complete persona, version 2 with a second persona missing pain points and goals
+    const live: EvaluationModel = {
+      name: 'stub',
+      complete: async request => ({
+        text: request.version === 1 ? resources(1) : resources(2),
+        model: 'stub-model'
+      })
+    };
+    const recordings: Recordings = {};
+    const recorder = new RecordingModel(live, recordings);
+
+    await runEvaluation({ suite: 'icp.resources', fixtures, model: recorder, version: 1 });
+    await runEvaluation({ suite: 'icp.resources', fixtures, model: recorder, version: 2 });
+    expect(recorder.newRecordings).toBe(4);
+
+    const replay = new ReplayModel(recordings);
+    const baseline = await runEvaluation({ suite: 'icp.resources', fixtures, model: replay, version: 1 });
+    const candidate = await runEvaluation({ suite: 'icp.resources', fixtures, model: replay, version: 2 });
+
+    expect(baseline.meanScore).toBe(1);
+    expect(candidate.failures).toBe(0);
+
+    const diff = diffRuns(baseline, candidate);
+    expect(diff.regressed.map(fixture => fixture.fixtureId)).toEqual(fixtures.map(fixture => fixture.id));
+    expect(diff.checks.find(check => check.id === 'persona_fields')!.delta).toBeLessThan(0);
+
+    const report = formatDiffReport(diff);
+    expect(report).toContain('Baseline **icp.resources v1** vs candidate **icp.resources v2**');
+    expect(report).toContain('## Regressions (2)');
+  });
+
+  it('fails fixtures that have no recording instead of calling a model', async () => {
+    const run = await runEvaluation({ suite: 'icp.rating_framework', fixtures, model: new ReplayModel({}) });
+
+    expect(run.failures).toBe(2);
+    expect(run.results[0].error).toMatch(/run with --record/);
+  });
+});
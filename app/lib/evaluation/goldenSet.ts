@@ -0,0 +1,104 @@
+/**
+ * Evaluation Golden Set
+ *
+ * Fixture products for the offline AI evaluation harness, built from the
+ * DevTool Pro demo ICP and the company scenarios. Every fixture carries what
+ * the evaluated generators need as input: product data, research context,
+ * an ICP definition and persona types.
+ */
+
+import demoData from '@/data/demo-icp-devtool.json';
+import scenarios from '@/data/scenarios.json';
+import type { PersonaType } from '@/app/lib/services/AIIntegrationTemplates';
+
+export interface EvaluationFixture {
+  id: string;
+  source: 'demo' | 'scenario';
+  product: {
+    productName: string;
+    productDescription: string;
+    businessType: string;
+  };
+  /** Stands in for webResearchService output */
+  research: Record<string, unknown>;
+  icpDefinition: string;
+  personas: PersonaType[];
+}
+
+interface Scenario {
+  company: string;
+  slug: string;
+  title: string;
+  persona: string;
+  scenario: string;
+  worstCase: string;
+  timestamps: Array<{ time: string }>;
+}
+
+function buildDemoFixture(): EvaluationFixture {
+  const { product, icp, personas } = demoData;
+
+  return {
+    id: product.id,
+    source: 'demo',
+    product: {
+      productName: product.productName,
+      productDescription: `${product.description}. ${product.distinguishingFeature}`,
+      businessType: product.businessModel
+    },
+    research: {
+      targetMarket: product.targetMarket,
+      category: product.category,
+      companyProfile: icp.companyProfile,
+      buyingCommittee: icp.buyingCommittee,
+      keyMetrics: icp.keyMetrics
+    },
+    icpDefinition: JSON.stringify(icp, null, 2),
+    personas: personas.map(persona => ({
+      id: persona.id,
+      name: persona.name,
+      description: `${persona.title} (${persona.role})`,
+      painPoints: persona.painPoints,
+      goals: persona.goals,
+      communicationStyle: persona.communicationPreferences?.communicationStyle
+    }))
+  };
+}
+
+function buildScenarioFixture(scenario: Scenario): EvaluationFixture {
+  return {
+    id: `scenario-${scenario.slug}`,
+    source: 'scenario',
+    product: {
+      productName: scenario.company,
+      productDescription: scenario.title,
+      businessType: 'B2B SaaS'
+    },
+    research: {
+      buyerScenario: scenario.scenario,
+      worstCase: scenario.worstCase,
+      buyerJourney: scenario.timestamps.map(timestamp => timestamp.time)
+    },
+    icpDefinition: `Companies like ${scenario.company} selling to a ${scenario.persona}. Trigger: ${scenario.scenario}`,
+    personas: [{
+      id: `${scenario.slug}-buyer`,
+      name: scenario.persona,
+      description: scenario.title,
+      painPoints: [scenario.worstCase]
+    }]
+  };
+}
+
+/**
+ * The golden set: the demo product first, then one fixture per scenario
+ * company. `limit` keeps live runs cheap.
+ */
+export function loadGoldenSet(options: { limit?: number; ids?: string[] } = {}): EvaluationFixture[] {
+  const fixtures = [buildDemoFixture(), ...(scenarios as Scenario[]).map(buildScenarioFixture)];
+
+  const selected = options.ids?.length
+    ? fixtures.filter(fixture => options.ids!.includes(fixture.id))
+    : fixtures;
+
+  return options.limit ? selected.slice(0, options.limit) : selected;
+}
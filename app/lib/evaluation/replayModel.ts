@@ -0,0 +1,133 @@
+/**
+ * Evaluation Models
+ *
+ * Models the evaluation runner sends rendered prompts to. Recordings are keyed
+ * by a hash of the exact prompt, so a run is replayed offline only while the
+ * prompt is unchanged; editing a template (or adding a version) needs one
+ * recording pass against Claude before it can be replayed.
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import type { ClaudeOperation } from '@/app/lib/services/claudeModelRouting';
+
+export interface EvaluationModelRequest {
+  templateId: string;
+  version: number;
+  fixtureId: string;
+  prompt: string;
+  systemPrompt?: string;
+  operation?: ClaudeOperation;
+  maxTokens?: number;
+}
+
+export interface EvaluationModelResponse {
+  text: string;
+  model: string;
+}
+
+export interface EvaluationModel {
+  readonly name: string;
+  complete(request: EvaluationModelRequest): Promise<EvaluationModelResponse>;
+}
+
+export interface Recording extends EvaluationModelResponse {
+  templateId: string;
+  version: number;
+  fixtureId: string;
+  recordedAt: string;
+}
+
+export type Recordings = Record<string, Recording>;
+
+export function recordingKey(request: Pick<EvaluationModelRequest, 'prompt' | 'systemPrompt'>): string {
+  return crypto.createHash('sha256')
+    .update(`${request.systemPrompt ?? ''}\n---\n${request.prompt}`)
+    .digest('hex')
+    .slice(0, 32);
+}
+
+/**
+ * Sends prompts to Claude through claudeAIService (mock responses when no
+ * API key is configured)
+ */
+export class ClaudeEvaluationModel implements EvaluationModel {
+  readonly name = 'claude';
+
+  async complete(request: EvaluationModelRequest): Promise<EvaluationModelResponse> {
+    const { default: claudeAI } = await import('@/app/lib/services/claudeAIService');
+    const result = await claudeAI.sendMessage([{ role: 'user', content: request.prompt }], {
+      operation: request.operation,
+      systemPrompt: request.systemPrompt,
+      maxTokens: request.maxTokens ?? 4000,
+      temperature: 0,
+      useCache: false
+    });
+
+    return { text: result.response, model: result.model };
+  }
+}
+
+/**
+ * Answers from recordings only; a prompt without a recording fails its fixture
+ */
+export class ReplayModel implements EvaluationModel {
+  readonly name = 'replay';
+
+  constructor(private recordings: Recordings) {}
+
+  async complete(request: EvaluationModelRequest): Promise<EvaluationModelResponse> {
+    const recording = this.recordings[recordingKey(request)];
+    if (!recording) {
+      throw new Error(
+        `No recording for ${request.templateId} v${request.version} on ${request.fixtureId}; run with --record to capture one`
+      );
+    }
+
+    return { text: recording.text, model: recording.model };
+  }
+}
+
+/**
+ * Replays what it has and records whatever the live model answers for new prompts
+ */
+export class RecordingModel implements EvaluationModel {
+  readonly name = 'record';
+  private recorded = 0;
+
+  constructor(private live: EvaluationModel, private recordings: Recordings) {}
+
+  get newRecordings(): number {
+    return this.recorded;
+  }
+
+  async complete(request: EvaluationModelRequest): Promise<EvaluationModelResponse> {
+    const key = recordingKey(request);
+    const existing = this.recordings[key];
+    if (existing) {
+      return { text: existing.text, model: existing.model };
+    }
+
+    const response = await this.live.complete(request);
+    this.recordings[key] = {
+      ...response,
+      templateId: request.templateId,
+      version: request.version,
+      fixtureId: request.fixtureId,
+      recordedAt: new Date().toISOString()
+    };
+    this.recorded++;
+
+    return response;
+  }
+}
+
+export function loadRecordings(file: string): Recordings {
+  return fs.existsSync(file) ? JSON.parse(fs.readFileSync(file, 'utf8')) : {};
+}
+
+export function saveRecordings(file: string, recordings: Recordings): void {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, `${JSON.stringify(recordings, null, 2)}\n`);
+}
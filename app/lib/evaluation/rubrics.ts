@@ -0,0 +1,133 @@
+/**
+ * Evaluation Rubrics
+ *
+ * Deterministic scoring for generated ICP resources, rating frameworks and
+ * buyer personas. Every check scores 0-1 and a result's score is the mean of
+ * its checks, so runs of the same suite can be compared check by check.
+ */
+
+import type { ICPResources, RatingFramework } from '@/app/lib/services/claudeSchemas';
+import type { PersonaBrief, PersonaType } from '@/app/lib/services/AIIntegrationTemplates';
+
+export interface RubricCheck {
+  id: string;
+  label: string;
+  score: number;
+  detail?: string;
+}
+
+export interface RubricResult {
+  score: number;
+  checks: RubricCheck[];
+}
+
+const hasText = (value: unknown) => typeof value === 'string' && value.trim().length > 0;
+const hasItems = (value: unknown) => Array.isArray(value) && value.length > 0;
+
+const round = (value: number) => Number(value.toFixed(3));
+
+function result(checks: RubricCheck[]): RubricResult {
+  const score = checks.reduce((sum, check) => sum + check.score, 0) / (checks.length || 1);
+  return { score: round(score), checks };
+}
+
+/**
+ * Share of the listed conditions that hold, naming the ones that do not
+ */
+function coverage(id: string, label: string, conditions: Array<[string, boolean]>): RubricCheck {
+  const missing = conditions.filter(([, met]) => !met).map(([name]) => name);
+  return {
+    id,
+    label,
+    score: round(conditions.length ? (conditions.length - missing.length) / conditions.length : 0),
+    detail: missing.length ? `missing: ${missing.join(', ')}` : undefined
+  };
+}
+
+// ============================================================================
+// ICP RESOURCES
+// ============================================================================
+
+export function scoreICPResources(output: ICPResources): RubricResult {
+  return result([
+    coverage('sections', 'Section completeness', [
+      ['personas', hasItems(output.personas)],
+      ['insights', hasItems(output.insights)],
+      ['recommendations', hasItems(output.recommendations)],
+      ['confidenceScore', output.confidenceScore >= 1 && output.confidenceScore <= 10]
+    ]),
+    coverage('persona_fields', 'Persona field coverage', output.personas.flatMap((persona, index) => [
+      [`personas[${index}].name`, hasText(persona.name)],
+      [`personas[${index}].role`, hasText(persona.role)],
+      [`personas[${index}].characteristics`, hasText(persona.characteristics)],
+      [`personas[${index}].painPoints`, hasItems(persona.painPoints)],
+      [`personas[${index}].goals`, hasItems(persona.goals)]
+    ] as Array<[string, boolean]>)),
+    coverage('recommendation_priorities', 'Recommendations include a high priority action', [
+      ['high priority', output.recommendations.some(recommendation => recommendation.priority === 'high')]
+    ])
+  ]);
+}
+
+// ============================================================================
+// RATING FRAMEWORK
+// ============================================================================
+
+export function scoreRatingFramework(output: RatingFramework): RubricResult {
+  const weightSum = output.criteria.reduce((sum, criterion) => sum + criterion.weight, 0);
+  const offBy = Math.abs(weightSum - 100);
+
+  return result([
+    coverage('sections', 'Section completeness', [
+      ['framework.name', hasText(output.framework.name)],
+      ['criteria', hasItems(output.criteria)],
+      ['questions', hasItems(output.questions)]
+    ]),
+    {
+      id: 'weights_sum',
+      label: 'Criteria weights sum to 100',
+      // Partial credit, so a framework that is off by 5 beats one off by 40
+      score: round(offBy < 0.5 ? 1 : Math.max(0, 1 - offBy / 100)),
+      detail: offBy < 0.5 ? undefined : `weights sum to ${round(weightSum)}`
+    },
+    coverage('total_points', 'Total points match the criteria weights', [
+      ['framework.totalPoints', Math.abs(output.framework.totalPoints - weightSum) < 0.5]
+    ]),
+    coverage('criterion_scoring', 'Every criterion has a scoring rule', output.criteria.map(criterion =>
+      [criterion.criterion, hasText(criterion.scoring)] as [string, boolean]
+    ))
+  ]);
+}
+
+// ============================================================================
+// BUYER PERSONA (AIIntegrationTemplates.generateBuyerPersona)
+// ============================================================================
+
+export function scoreBuyerPersona(output: PersonaBrief, input: PersonaType): RubricResult {
+  const concerns = output.metadata?.concerns ?? [];
+  const motivations = output.metadata?.motivations ?? [];
+  const expected = [
+    ...(input.painPoints ?? []).map(painPoint => [`painPoint "${painPoint}"`, concerns.includes(painPoint)]),
+    ...(input.goals ?? []).map(goal => [`goal "${goal}"`, motivations.includes(goal)])
+  ] as Array<[string, boolean]>;
+
+  return result([
+    coverage('persona_fields', 'Persona field coverage', [
+      ['name', hasText(output.name)],
+      ['role', hasText(output.role)],
+      ['aiInstructions', hasText(output.aiInstructions)],
+      ['conversationStarters', hasItems(output.conversationStarters)],
+      ['objectionHandling', hasItems(output.objectionHandling)],
+      ['rolePlayingPrompt', hasText(output.rolePlayingPrompt)],
+      ['validationPrompt', hasText(output.validationPrompt)],
+      ['metadata.communicationStyle', hasText(output.metadata?.communicationStyle)],
+      ['metadata.decisionCriteria', hasItems(output.metadata?.decisionCriteria)],
+      ['metadata.motivations', hasItems(motivations)],
+      ['metadata.concerns', hasItems(concerns)]
+    ]),
+    // Inputs without pain points or goals have nothing to carry over
+    expected.length
+      ? coverage('grounding', 'Carries over the input pain points and goals', expected)
+      : { id: 'grounding', label: 'Carries over the input pain points and goals', score: 1 }
+  ]);
+}
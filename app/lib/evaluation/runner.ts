@@ -0,0 +1,387 @@
+/**
+ * AI Evaluation Runner
+ *
+ * Runs a generator over the golden set, scores every output against its
+ * rubric and diffs two runs. Prompt suites render a registered prompt
+ * version and send it to an EvaluationModel (replayed offline from
+ * recordings); the buyer persona suite evaluates the template code itself,
+ * so its runs are compared against a saved earlier run.
+ */
+
+import { z } from 'zod';
+import aiIntegrationTemplates from '@/app/lib/services/AIIntegrationTemplates';
+import {
+  ICPResourcesSchema,
+  RatingFrameworkSchema,
+  buildJSONSystemPrompt,
+  parseStructuredOutput
+} from '@/app/lib/services/claudeSchemas';
+import promptRegistry from '@/app/lib/services/promptRegistry';
+import type { EvaluationFixture } from './goldenSet';
+import type { EvaluationModel } from './replayModel';
+import {
+  RubricCheck,
+  RubricResult,
+  scoreBuyerPersona,
+  scoreICPResources,
+  scoreRatingFramework
+} from './rubrics';
+
+// ============================================================================
+// SUITES
+// ============================================================================
+
+export const EVALUATION_SUITES = ['icp.resources', 'icp.rating_framework', 'persona.buyer_persona'] as const;
+
+export type EvaluationSuiteId = typeof EVALUATION_SUITES[number];
+
+interface SuiteContext {
+  model?: EvaluationModel;
+  version?: number;
+}
+
+interface EvaluationSuite {
+  id: EvaluationSuiteId;
+  /** Registered prompt the suite exercises; suites without one evaluate code */
+  templateId?: string;
+  evaluate(fixture: EvaluationFixture, context: SuiteContext): Promise<RubricResult & { model?: string }>;
+}
+
+/**
+ * Render a prompt version, run it through the model and validate the JSON
+ */
+async function generateStructured<T>(
+  templateId: string,
+  schema: z.ZodType<T>,
+  variables: Record<string, string>,
+  fixture: EvaluationFixture,
+  { model, version }: SuiteContext
+): Promise<{ data: T; model: string }> {
+  if (!model) {
+    throw new Error(`Suite for ${templateId} needs a model`);
+  }
+
+  const rendered = promptRegistry.render(templateId, variables, version);
+  const response = await model.complete({
+    templateId,
+    version: rendered.version,
+    fixtureId: fixture.id,
+    prompt: rendered.prompt,
+    systemPrompt: buildJSONSystemPrompt(schema),
+    operation: rendered.target.operation
+  });
+
+  const parsed = parseStructuredOutput(response.text, schema);
+  if (!parsed.success) {
+    throw new Error(`Output does not match the schema: ${parsed.error}`);
+  }
+
+  return { data: parsed.data, model: response.model };
+}
+
+/**
+ * Mean score and per-check means across several results for one fixture
+ */
+function mergeResults(results: RubricResult[]): RubricResult {
+  const byId = new Map<string, { label: string; scores: number[]; details: string[] }>();
+
+  for (const check of results.flatMap(entry => entry.checks)) {
+    const merged = byId.get(check.id) ?? { label: check.label, scores: [], details: [] };
+    merged.scores.push(check.score);
+    if (check.detail) merged.details.push(check.detail);
+    byId.set(check.id, merged);
+  }
+
+  const checks: RubricCheck[] = [...byId.entries()].map(([id, merged]) => ({
+    id,
+    label: merged.label,
+    score: Number((merged.scores.reduce((sum, score) => sum + score, 0) / merged.scores.length).toFixed(3)),
+    detail: merged.details.length ? merged.details.join('; ') : undefined
+  }));
+
+  const score = results.reduce((sum, entry) => sum + entry.score, 0) / (results.length || 1);
+  return { score: Number(score.toFixed(3)), checks };
+}
+
+const SUITES: Record<EvaluationSuiteId, EvaluationSuite> = {
+  'icp.resources': {
+    id: 'icp.resources',
+    templateId: 'icp.resources',
+    async evaluate(fixture, context) {
+      const { data, model } = await generateStructured('icp.resources', ICPResourcesSchema, {
+        PRODUCT_NAME: fixture.product.productName,
+        PRODUCT_DESCRIPTION: fixture.product.productDescription,
+        BUSINESS_TYPE: fixture.product.businessType,
+        RESEARCH_DATA: JSON.stringify(fixture.research, null, 2)
+      }, fixture, context);
+
+      return { ...scoreICPResources(data), model };
+    }
+  },
+
+  'icp.rating_framework': {
+    id: 'icp.rating_framework',
+    templateId: 'icp.rating_framework',
+    async evaluate(fixture, context) {
+      const { data, model } = await generateStructured('icp.rating_framework', RatingFrameworkSchema, {
+        ICP_DEFINITION: fixture.icpDefinition,
+        PERSONAS: JSON.stringify(fixture.personas, null, 2)
+      }, fixture, context);
+
+      return { ...scoreRatingFramework(data), model };
+    }
+  },
+
+  'persona.buyer_persona': {
+    id: 'persona.buyer_persona',
+    async evaluate(fixture) {
+      return mergeResults(fixture.personas.map(persona =>
+        scoreBuyerPersona(aiIntegrationTemplates.generateBuyerPersona(persona), persona)
+      ));
+    }
+  }
+};
+
+export function getSuite(id: string): EvaluationSuite {
+  const suite = SUITES[id as EvaluationSuiteId];
+  if (!suite) {
+    throw new Error(`Unknown evaluation suite "${id}" (expected one of: ${EVALUATION_SUITES.join(', ')})`);
+  }
+  return suite;
+}
+
+// ============================================================================
+// RUNS
+// ============================================================================
+
+export interface FixtureResult extends RubricResult {
+  fixtureId: string;
+  model?: string;
+  error?: string;
+}
+
+export interface EvaluationRun {
+  suite: EvaluationSuiteId;
+  templateId?: string;
+  version?: number;
+  label: string;
+  startedAt: string;
+  meanScore: number;
+  failures: number;
+  results: FixtureResult[];
+}
+
+/**
+ * Score every fixture. Fixtures run one at a time so live recording stays
+ * within rate limits; a failed fixture scores 0 and keeps its error.
+ */
+export async function runEvaluation(options: {
+  suite: EvaluationSuiteId;
+  fixtures: EvaluationFixture[];
+  model?: EvaluationModel;
+  version?: number;
+  label?: string;
+  onResult?: (result: FixtureResult) => void;
+}): Promise<EvaluationRun> {
+  const suite = getSuite(options.suite);
+  const version = suite.templateId
+    ? promptRegistry.get(suite.templateId, options.version).version
+    : undefined;
+  const startedAt = new Date().toISOString();
+  const results: FixtureResult[] = [];
+
+  for (const fixture of options.fixtures) {
+    let fixtureResult: FixtureResult;
+    try {
+      fixtureResult = { fixtureId: fixture.id, ...(await suite.evaluate(fixture, { model: options.model, version })) };
+    } catch (error) {
+      fixtureResult = {
+        fixtureId: fixture.id,
+        score: 0,
+        checks: [],
+        error: error instanceof Error ? error.message : String(error)
+      };
+    }
+
+    results.push(fixtureResult);
+    options.onResult?.(fixtureResult);
+  }
+
+  const meanScore = results.reduce((sum, entry) => sum + entry.score, 0) / (results.length || 1);
+
+  return {
+    suite: suite.id,
+    templateId: suite.templateId,
+    version,
+    label: options.label ?? (suite.templateId ? `${suite.templateId} v${version}` : `${suite.id} @ ${startedAt}`),
+    startedAt,
+    meanScore: Number(meanScore.toFixed(3)),
+    failures: results.filter(entry => entry.error).length,
+    results
+  };
+}
+
+// ============================================================================
+// DIFF REPORT
+// ============================================================================
+
+export interface CheckDiff {
+  id: string;
+  label: string;
+  baseline: number | null;
+  candidate: number | null;
+  delta: number;
+}
+
+export interface FixtureDiff {
+  fixtureId: string;
+  baseline: number | null;       // null when the fixture was not in the run
+  candidate: number | null;
+  delta: number;
+  baselineError?: string;
+  candidateError?: string;
+  checks: CheckDiff[];           // Only checks whose score changed
+}
+
+export interface EvaluationDiff {
+  suite: EvaluationSuiteId;
+  baseline: string;
+  candidate: string;
+  meanBaseline: number;
+  meanCandidate: number;
+  meanDelta: number;
+  checks: CheckDiff[];           // Mean per check across fixtures
+  improved: FixtureDiff[];
+  regressed: FixtureDiff[];
+  unchanged: number;
+  failures: { baseline: number; candidate: number };
+}
+
+const round = (value: number) => Number(value.toFixed(3));
+
+function meanByCheck(run: EvaluationRun): Map<string, { label: string; mean: number }> {
+  const totals = new Map<string, { label: string; sum: number; count: number }>();
+  for (const check of run.results.flatMap(entry => entry.checks)) {
+    const total = totals.get(check.id) ?? { label: check.label, sum: 0, count: 0 };
+    totals.set(check.id, { label: total.label, sum: total.sum + check.score, count: total.count + 1 });
+  }
+  return new Map([...totals].map(([id, total]) => [id, { label: total.label, mean: round(total.sum / total.count) }]));
+}
+
+/**
+ * Compare two runs of the same suite. Fixtures whose score moves by at least
+ * `threshold` count as improved or regressed.
+ */
+export function diffRuns(
+  baseline: EvaluationRun,
+  candidate: EvaluationRun,
+  options: { threshold?: number } = {}
+): EvaluationDiff {
+  const { threshold = 0.05 } = options;
+
+  if (baseline.suite !== candidate.suite) {
+    throw new Error(`Cannot diff runs of different suites (${baseline.suite} vs ${candidate.suite})`);
+  }
+
+  const baselineById = new Map(baseline.results.map(entry => [entry.fixtureId, entry]));
+  const candidateById = new Map(candidate.results.map(entry => [entry.fixtureId, entry]));
+  const fixtureIds = [...new Set([...baselineById.keys(), ...candidateById.keys()])];
+
+  const fixtures: FixtureDiff[] = fixtureIds.map(fixtureId => {
+    const before = baselineById.get(fixtureId);
+    const after = candidateById.get(fixtureId);
+    const beforeChecks = new Map(before?.checks.map(check => [check.id, check]) ?? []);
+    const afterChecks = new Map(after?.checks.map(check => [check.id, check]) ?? []);
+
+    const checks = [...new Set([...beforeChecks.keys(), ...afterChecks.keys()])]
+      .map(id => {
+        const beforeScore = beforeChecks.get(id)?.score ?? null;
+        const afterScore = afterChecks.get(id)?.score ?? null;
+        return {
+          id,
+          label: (afterChecks.get(id) ?? beforeChecks.get(id))!.label,
+          baseline: beforeScore,
+          candidate: afterScore,
+          delta: round((afterScore ?? 0) - (beforeScore ?? 0))
+        };
+      })
+      .filter(check => check.delta !== 0);
+
+    return {
+      fixtureId,
+      baseline: before?.score ?? null,
+      candidate: after?.score ?? null,
+      delta: round((after?.score ?? 0) - (before?.score ?? 0)),
+      baselineError: before?.error,
+      candidateError: after?.error,
+      checks
+    };
+  });
+
+  const baselineChecks = meanByCheck(baseline);
+  const candidateChecks = meanByCheck(candidate);
+  const checks = [...new Set([...baselineChecks.keys(), ...candidateChecks.keys()])].map(id => ({
+    id,
+    label: (candidateChecks.get(id) ?? baselineChecks.get(id))!.label,
+    baseline: baselineChecks.get(id)?.mean ?? null,
+    candidate: candidateChecks.get(id)?.mean ?? null,
+    delta: round((candidateChecks.get(id)?.mean ?? 0) - (baselineChecks.get(id)?.mean ?? 0))
+  }));
+
+  return {
+    suite: baseline.suite,
+    baseline: baseline.label,
+    candidate: candidate.label,
+    meanBaseline: baseline.meanScore,
+    meanCandidate: candidate.meanScore,
+    meanDelta: round(candidate.meanScore - baseline.meanScore),
+    checks,
+    improved: fixtures.filter(fixture => fixture.delta >= threshold).sort((a, b) => b.delta - a.delta),
+    regressed: fixtures.filter(fixture => fixture.delta <= -threshold).sort((a, b) => a.delta - b.delta),
+    unchanged: fixtures.filter(fixture => Math.abs(fixture.delta) < threshold).length,
+    failures: { baseline: baseline.failures, candidate: candidate.failures }
+  };
+}
+
+const formatScore = (score: number | null) => (score === null ? '—' : score.toFixed(3));
+const formatDelta = (delta: number) => `${delta > 0 ? '+' : ''}${delta.toFixed(3)}`;
+
+function formatFixtures(title: string, fixtures: FixtureDiff[]): string[] {
+  if (fixtures.length === 0) return [];
+
+  const lines = [`## ${title} (${fixtures.length})`, ''];
+  for (const fixture of fixtures) {
+    lines.push(`- **${fixture.fixtureId}**: ${formatScore(fixture.baseline)} → ${formatScore(fixture.candidate)} (${formatDelta(fixture.delta)})`);
+    for (const check of fixture.checks) {
+      lines.push(`  - ${check.label}: ${formatScore(check.baseline)} → ${formatScore(check.candidate)}`);
+    }
+    if (fixture.candidateError) lines.push(`  - Candidate error: ${fixture.candidateError}`);
+    if (fixture.baselineError) lines.push(`  - Baseline error: ${fixture.baselineError}`);
+  }
+  lines.push('');
+  return lines;
+}
+
+/**
+ * Markdown report of a diff
+ */
+export function formatDiffReport(diff: EvaluationDiff): string {
+  return [
+    `# Evaluation: ${diff.suite}`,
+    '',
+    `Baseline **${diff.baseline}** vs candidate **${diff.candidate}**`,
+    '',
+    '| | Baseline | Candidate | Delta |',
+    '|---|---|---|---|',
+    `| Mean score | ${formatScore(diff.meanBaseline)} | ${formatScore(diff.meanCandidate)} | ${formatDelta(diff.meanDelta)} |`,
+    ...diff.checks.map(check =>
+      `| ${check.label} | ${formatScore(check.baseline)} | ${formatScore(check.candidate)} | ${formatDelta(check.delta)} |`
+    ),
+    `| Failed fixtures | ${diff.failures.baseline} | ${diff.failures.candidate} | |`,
+    '',
+    `${diff.improved.length} improved, ${diff.regressed.length} regressed, ${diff.unchanged} unchanged.`,
+    '',
+    ...formatFixtures('Regressions', diff.regressed),
+    ...formatFixtures('Improvements', diff.improved)
+  ].join('\n');
+}
@@ -3,73 +3,107 @@
  * Provides event-driven coordination for MCP services
  */
 
-export type EventType = 
-  | 'resource_generation_started'
-  | 'resource_generation_progress'
-  | 'resource_generation_completed'
-  | 'resource_generation_failed'
-  | 'mcp_service_available'
-  | 'mcp_service_unavailable'
-  | 'market_intelligence_updated'
-  | 'document_generated';
-
-export interface EventPayload {
-  resourceId?: string;
-  customerId?: string;
-  progress?: number;
-  status?: string;
-  currentStep?: string;
-  error?: string;
-  result?: any;
-  metadata?: Record<string, any>;
-  timestamp: number;
-}
+import type {
+  EmitPayload,
+  Event,
+  EventPattern,
+  EventPayloadMap,
+  EventType,
+  MatchingEventType
+} from './event-types';
+import type { EventLogStore, EventQuery } from './event-log-store';
+import { createEventLogStore, matchesEventQuery } from './event-log-store';
+
+export type {
+  EmitPayload,
+  Event,
+  EventPattern,
+  EventPayload,
+  EventPayloadMap,
+  EventType,
+  MatchingEventType
+} from './event-types';
+
+type EventHandler<K extends EventType = EventType> = (
+  event: Event<K>,
+  payload: EventPayloadMap[K]
+) => Promise<void> | void;
 
-export interface Event {
+/**
+ * Handler invocation that threw, kept for inspection and redelivery
+ */
+export interface DeadLetter {
   id: string;
-  type: EventType;
-  payload: EventPayload;
-  createdAt: Date;
-  processedAt?: Date;
+  event: Event;
+  pattern: EventPattern;
+  error: string;
+  failedAt: Date;
+  attempts: number;
 }
 
-type EventHandler<T = any> = (event: Event, payload: EventPayload & T) => Promise<void> | void;
+interface DeadLetterEntry extends DeadLetter {
+  handler: EventHandler;
+}
+
+export interface EventBusOptions {
+  maxHistorySize?: number;
+  maxDeadLetters?: number;
+  eventLog?: EventLogStore | null;
+}
+
+/**
+ * Check whether a subscription pattern matches an event type
+ */
+export function matchesPattern(pattern: string, eventType: EventType): boolean {
+  if (pattern === '*') return true;
+  if (pattern.endsWith('*')) return eventType.startsWith(pattern.slice(0, -1));
+  return pattern === eventType;
+}
 
 /**
  * TypeScript Event Bus for Next.js Application
  */
 class EventBus {
-  private handlers: Map<EventType, Set<EventHandler>> = new Map();
+  private handlers: Map<EventPattern, Set<EventHandler>> = new Map();
   private eventHistory: Event[] = [];
-  private maxHistorySize: number = 1000;
-  
+  private deadLetters: DeadLetterEntry[] = [];
+  private maxHistorySize: number;
+  private maxDeadLetters: number;
+  private eventLog: EventLogStore | null;
+
+  constructor(options: EventBusOptions = {}) {
+    this.maxHistorySize = options.maxHistorySize ?? 1000;
+    this.maxDeadLetters = options.maxDeadLetters ?? 100;
+    this.eventLog = options.eventLog ?? null;
+  }
+
   /**
-   * Subscribe to an event type
+   * Subscribe to an event type or wildcard pattern (`resource_generation_*`, `*`)
    */
-  on<T = any>(eventType: EventType, handler: EventHandler<T>): () => void {
-    if (!this.handlers.has(eventType)) {
-      this.handlers.set(eventType, new Set());
+  on<P extends EventPattern>(pattern: P, handler: EventHandler<MatchingEventType<P>>): () => void {
+    if (!this.handlers.has(pattern)) {
+      this.handlers.set(pattern, new Set());
     }
-    
-    this.handlers.get(eventType)!.add(handler);
-    
-    console.log(`📡 Event handler registered for: ${eventType}`);
-    
+
+    this.handlers.get(pattern)!.add(handler as EventHandler);
+
+    console.log(`📡 Event handler registered for: ${pattern}`);
+
     // Return unsubscribe function
     return () => {
-      this.off(eventType, handler);
+      this.off(pattern, handler);
     };
   }
 
   /**
-   * Unsubscribe from an event type
+   * Unsubscribe from an event type or pattern
    */
-  off<T = any>(eventType: EventType, handler: EventHandler<T>): void {
-    const handlers = this.handlers.get(eventType);
+  off<P extends EventPattern>(pattern: P, handler: EventHandler<MatchingEventType<P>>): void {
+    const handlers = this.handlers.get(pattern);
     if (handlers) {
-      handlers.delete(handler);
+      handlers.delete(handler as EventHandler);
       if (handlers.size === 0) {
-        this.handlers.delete(eventType);
+        this.handlers.delete(pattern);
       }
     }
   }
@@ -77,8 +111,8 @@ class EventBus {
   /**
    * Emit an event to all subscribers
    */
-  async emit(eventType: EventType, payload: Omit<EventPayload, 'timestamp'>): Promise<void> {
-    const event: Event = {
+  async emit<K extends EventType>(eventType: K, payload: EmitPayload<K>): Promise<void> {
+    const event = {
       id: `evt_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
       type: eventType,
       payload: {
@@ -86,34 +120,29 @@ class EventBus {
         timestamp: Date.now()
       },
       createdAt: new Date()
-    };
+    } as Event;
 
     console.log(`🚀 Emitting event: ${eventType}`, { eventId: event.id, payload });
 
-    // Add to history
+    // Add to history and the durable log
     this.addToHistory(event);
+    await this.appendToLog(event);
 
-    // Get handlers for this event type
-    const handlers = this.handlers.get(eventType);
-    if (!handlers || handlers.size === 0) {
+    // Get exact and wildcard handlers for this event type
+    const subscriptions = this.getSubscriptions(eventType);
+    if (subscriptions.length === 0) {
       console.warn(`⚠️ No handlers registered for event type: ${eventType}`);
       return;
     }
 
-    // Execute all handlers in parallel
-    const handlerPromises = Array.from(handlers).map(async (handler) => {
-      try {
-        await handler(event, event.payload);
-      } catch (error) {
-        console.error(`❌ Event handler failed for ${eventType}:`, error);
-      }
-    });
+    // Execute all handlers in parallel; one failing handler never affects the others
+    await Promise.allSettled(
+      subscriptions.map(({ pattern, handler }) => this.invoke(event, pattern, handler))
+    );
 
-    await Promise.allSettled(handlerPromises);
-    
     // Mark as processed
     event.processedAt = new Date();
-    console.log(`✅ Event processed: ${eventType} (${handlers.size} handlers)`);
+    console.log(`✅ Event processed: ${eventType} (${subscriptions.length} handlers)`);
   }
 
   /**
@@ -121,27 +150,94 @@ class EventBus {
    */
   getHistory(eventType?: EventType, limit?: number): Event[] {
     let filtered = this.eventHistory;
-    
+
     if (eventType) {
       filtered = filtered.filter(event => event.type === eventType);
     }
-    
+
     if (limit) {
       filtered = filtered.slice(-limit);
     }
-    
+
     return filtered;
   }
 
   /**
-   * Get events for a specific resource
+   * Replay events for a resource (string) or any query by resourceId/customerId.
+   * Reads the persistent log when configured, merged with in-memory history.
    */
-  getResourceEvents(resourceId: string, limit?: number): Event[] {
-    const resourceEvents = this.eventHistory.filter(
-      event => event.payload.resourceId === resourceId
-    );
-    
-    return limit ? resourceEvents.slice(-limit) : resourceEvents;
+  async getResourceEvents(query: string | EventQuery, limit?: number): Promise<Event[]> {
+    const filter: EventQuery = typeof query === 'string'
+      ? { resourceId: query, limit }
+      : { ...query, limit: limit ?? query.limit };
+
+    const events = new Map<string, Event>();
+
+    if (this.eventLog) {
+      try {
+        for (const event of await this.eventLog.query(filter)) {
+          events.set(event.id, event);
+        }
+      } catch (error) {
+        console.error('❌ Event log replay failed, using in-memory history:', error);
+      }
+    }
+
+    for (const event of this.eventHistory) {
+      if (matchesEventQuery(event, filter)) {
+        events.set(event.id, event);
+      }
+    }
+
+    const ordered = Array.from(events.values())
+      .sort((a, b) => a.payload.timestamp - b.payload.timestamp);
+
+    return filter.limit ? ordered.slice(-filter.limit) : ordered;
+  }
+
+  /**
+   * Attach (or detach with null) the persistent event log
+   */
+  setEventLog(eventLog: EventLogStore | null): void {
+    this.eventLog = eventLog;
+    console.log(`🗄️ Event log ${eventLog ? `enabled (${eventLog.name})` : 'disabled'}`);
+  }
+
+  /**
+   * Handler failures awaiting inspection or redelivery
+   */
+  getDeadLetters(): DeadLetter[] {
+    return this.deadLetters.map(({ handler, ...deadLetter }) => deadLetter);
+  }
+
+  /**
+   * Redeliver dead letters to the handlers that failed. Successful
+   * deliveries are removed; failures stay with an increased attempt count.
+   */
+  async redeliverDeadLetters(ids?: string[]): Promise<{ delivered: number; failed: number }> {
+    const selected = this.deadLetters.filter(entry => !ids || ids.includes(entry.id));
+    let delivered = 0;
+
+    for (const entry of selected) {
+      try {
+        await entry.handler(entry.event, entry.event.payload);
+        this.deadLetters = this.deadLetters.filter(other => other !== entry);
+        delivered++;
+      } catch (error) {
+        entry.attempts++;
+        entry.failedAt = new Date();
+        entry.error = error instanceof Error ? error.message : String(error);
+      }
+    }
+
+    return { delivered, failed: selected.length - delivered };
+  }
+
+  /**
+   * Clear dead letters
+   */
+  clearDeadLetters(): void {
+    this.deadLetters = [];
   }
 
   /**
@@ -159,6 +255,7 @@ class EventBus {
     totalEvents: number;
     eventsByType: Record<string, number>;
     recentEvents: number;
+    deadLetters: number;
   } {
     const eventsByType: Record<string, number> = {};
     const recentThreshold = Date.now() - (5 * 60 * 1000); // 5 minutes ago
@@ -174,16 +271,65 @@ class EventBus {
     return {
       totalEvents: this.eventHistory.length,
       eventsByType,
-      recentEvents
+      recentEvents,
+      deadLetters: this.deadLetters.length
     };
   }
 
+  private getSubscriptions(eventType: EventType): Array<{ pattern: EventPattern; handler: EventHandler }> {
+    const subscriptions: Array<{ pattern: EventPattern; handler: EventHandler }> = [];
+
+    this.handlers.forEach((handlers, pattern) => {
+      if (matchesPattern(pattern, eventType)) {
+        handlers.forEach(handler => subscriptions.push({ pattern, handler }));
+      }
+    });
+
+    return subscriptions;
+  }
+
+  private async invoke(event: Event, pattern: EventPattern, handler: EventHandler): Promise<void> {
+    try {
+      await handler(event, event.payload);
+    } catch (error) {
+      console.error(`❌ Event handler failed for ${event.type} (${pattern}):`, error);
+      this.addDeadLetter({
+        id: `dlq_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        event,
+        pattern,
+        handler,
+        error: error instanceof Error ? error.message : String(error),
+        failedAt: new Date(),
+        attempts: 1
+      });
+    }
+  }
+
+  private addDeadLetter(entry: DeadLetterEntry): void {
+    this.deadLetters.push(entry);
+
+    if (this.deadLetters.length > this.maxDeadLetters) {
+      this.deadLetters = this.deadLetters.slice(-this.maxDeadLetters);
+    }
+  }
+
+  private async appendToLog(event: Event): Promise<void> {
+    if (!this.eventLog) return;
+
+    try {
+      await this.eventLog.append(event);
+    } catch (error) {
+      // Persistence problems must not block delivery
+      console.error(`❌ Failed to append ${event.type} to event log:`, error);
+    }
+  }
+
   /**
    * Add event to history with size management
    */
   private addToHistory(event: Event): void {
     this.eventHistory.push(event);
-    
+
     // Maintain max history size
     if (this.eventHistory.length > this.maxHistorySize) {
       this.eventHistory = this.eventHistory.slice(-this.maxHistorySize);
@@ -206,8 +352,9 @@ class EventBus {
   }
 }
 
-// Create singleton instance
-const eventBus = new EventBus();
+// Create singleton instance (persistent log only when EVENT_LOG_STORE is set server-side)
+const eventBus = new EventBus({ eventLog: createEventLogStore() });
 
 export default eventBus;
-export type { EventHandler };
\ No newline at end of file
+export { EventBus };
+export type { EventHandler };
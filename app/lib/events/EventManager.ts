@@ -121,8 +121,9 @@ class EventManager {
 
   /**
    * Get resource generation timeline for a specific resource
+   * (replayed from the persistent event log when one is configured)
    */
-  getResourceTimeline(resourceId: string): {
+  async getResourceTimeline(resourceId: string): Promise<{
     resourceId: string;
     events: Array<{
       type: string;
@@ -133,8 +134,8 @@ class EventManager {
     }>;
     totalDuration?: number;
     status: 'in_progress' | 'completed' | 'failed' | 'unknown';
-  } {
-    const resourceEvents = eventBus.getResourceEvents(resourceId);
+  }> {
+    const resourceEvents = await eventBus.getResourceEvents(resourceId);
     
     let status: 'in_progress' | 'completed' | 'failed' | 'unknown' = 'unknown';
     let totalDuration: number | undefined;
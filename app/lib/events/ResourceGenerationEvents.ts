@@ -3,75 +3,27 @@
  * Defines typed events for the resource generation pipeline
  */
 
-import eventBus, { EventPayload } from './EventBus';
+import eventBus from './EventBus';
+import type {
+  DocumentGeneratedPayload,
+  MCPServiceStatusPayload,
+  ResourceGenerationCompletedPayload,
+  ResourceGenerationFailedPayload,
+  ResourceGenerationProgressPayload,
+  ResourceGenerationStartedPayload
+} from './event-types';
 
 /**
- * Resource Generation Event Payloads
+ * Resource Generation Event Payloads (defined in the shared event schema)
  */
-export interface ResourceGenerationStartedPayload extends EventPayload {
-  resourceId: string;
-  customerId: string;
-  resourceType: string;
-  complexity: {
-    score: number;
-    recommendation: 'template' | 'enhanced' | 'premium';
-    factors: string[];
-  };
-}
-
-export interface ResourceGenerationProgressPayload extends EventPayload {
-  resourceId: string;
-  customerId: string;
-  progress: number;
-  currentStep: string;
-  estimatedDuration?: number;
-  mcpServicesUsed?: string[];
-}
-
-export interface ResourceGenerationCompletedPayload extends EventPayload {
-  resourceId: string;
-  customerId: string;
-  result: {
-    content: string;
-    quality: number;
-    generationMethod: 'template' | 'enhanced' | 'premium';
-    cost: number;
-    duration: number;
-    sources: string[];
-    confidence: number;
-  };
-}
-
-export interface ResourceGenerationFailedPayload extends EventPayload {
-  resourceId: string;
-  customerId: string;
-  error: string;
-  errorCode: string;
-  fallbackUsed?: boolean;
-  attemptCount?: number;
-}
-
-export interface MCPServiceStatusPayload extends EventPayload {
-  serviceName: string;
-  available: boolean;
-  capabilities?: string[];
-  latency?: number;
-  error?: string;
-}
-
-export interface DocumentGeneratedPayload extends EventPayload {
-  resourceId: string;
-  customerId: string;
-  documentType: 'google_docs' | 'google_sheets' | 'google_slides';
-  documentId: string;
-  documentUrl: string;
-  publicUrl?: string;
-  metadata: {
-    pageCount?: number;
-    wordCount?: number;
-    createdAt: string;
-  };
-}
+export type {
+  DocumentGeneratedPayload,
+  MCPServiceStatusPayload,
+  ResourceGenerationCompletedPayload,
+  ResourceGenerationFailedPayload,
+  ResourceGenerationProgressPayload,
+  ResourceGenerationStartedPayload
+} from './event-types';
 
 /**
  * Resource Generation Event Emitters
@@ -111,11 +63,8 @@ export class ResourceGenerationEvents {
   static async emitMCPServiceAvailable(payload: Omit<MCPServiceStatusPayload, 'timestamp' | 'available'>): Promise<void> {
     await eventBus.emit('mcp_service_available', {
       ...payload,
-      metadata: {
-        ...payload.metadata,
-        available: true
-      }
-    } as any);
+      available: true
+    });
   }
 
   /**
@@ -124,11 +73,8 @@ export class ResourceGenerationEvents {
   static async emitMCPServiceUnavailable(payload: Omit<MCPServiceStatusPayload, 'timestamp' | 'available'>): Promise<void> {
     await eventBus.emit('mcp_service_unavailable', {
       ...payload,
-      metadata: {
-        ...payload.metadata,
-        available: false
-      }
-    } as any);
+      available: false
+    });
   }
 
   /**
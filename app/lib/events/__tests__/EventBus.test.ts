@@ -0,0 +1,103 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Event Bus Unit Tests
+ *
+ * Tests subscription and replay behaviour:
+ * - Wildcard / namespace subscriptions
+ * - Handler error isolation and the dead-letter list
+ * - Replay from the persistent event log by resource and customer
+ */
+
+import { EventBus, matchesPattern } from '../EventBus';
+import { MemoryEventLogStore } from '../event-log-store';
+
+const started = (resourceId: string, customerId = 'cust-1') => ({
+  resourceId,
+  customerId,
+  resourceType: 'icp',
+  complexity: { score: 3, recommendation: 'template' as const, factors: [] }
+});
+
+describe('EventBus', () => {
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('matches namespace wildcards', () => {
+    expect(matchesPattern('resource_generation_*', 'resource_generation_failed')).toBe(true);
+    expect(matchesPattern('resource_generation_*', 'document_generated')).toBe(false);
+    expect(matchesPattern('*', 'document_generated')).toBe(true);
+  });
+
+  it('delivers typed payloads to exact and wildcard subscribers', async () => {
+    const bus = new EventBus();
+    const seen: string[] = [];
+
+    bus.on('resource_generation_progress', (_event, payload) => {
+      seen.push(`exact:${payload.currentStep}`);
+    });
+    const unsubscribe = bus.on('resource_generation_*', (event) => {
+      seen.push(`wildcard:${event.type}`);
+    });
+
+    await bus.emit('resource_generation_progress', {
+      resourceId: 'res-1',
+      customerId: 'cust-1',
+      progress: 50,
+      currentStep: 'research'
+    });
+    unsubscribe();
+    await bus.emit('resource_generation_started', started('res-1'));
+
+    expect(seen).toEqual(['exact:research', 'wildcard:resource_generation_progress']);
+  });
+
+  it('isolates failing handlers into the dead-letter list', async () => {
+    const bus = new EventBus();
+    const delivered = jest.fn();
+    let healthy = false;
+
+    bus.on('resource_generation_started', () => {
+      if (!healthy) throw new Error('downstream unavailable');
+    });
+    bus.on('resource_generation_started', delivered);
+
+    await bus.emit('resource_generation_started', started('res-1'));
+
+    expect(delivered).toHaveBeenCalledTimes(1);
+    expect(bus.getDeadLetters()).toEqual([
+      expect.objectContaining({ pattern: 'resource_generation_started', error: 'downstream unavailable', attempts: 1 })
+    ]);
+
+    healthy = true;
+    await expect(bus.redeliverDeadLetters()).resolves.toEqual({ delivered: 1, failed: 0 });
+    expect(bus.getDeadLetters()).toHaveLength(0);
+  });
+
+  it('replays events from the persistent log by resource and customer', async () => {
+    const log = new MemoryEventLogStore();
+    const first = new EventBus({ eventLog: log, maxHistorySize: 1 });
+
+    await first.emit('resource_generation_started', started('res-1'));
+    await first.emit('resource_generation_started', started('res-2'));
+    await first.emit('resource_generation_started', started('res-3', 'cust-2'));
+
+    // A fresh bus (e.g. after a restart) has no history but the same log
+    const second = new EventBus({ eventLog: log });
+
+    const resourceEvents = await second.getResourceEvents('res-1');
+    expect(resourceEvents.map(event => event.payload.resourceId)).toEqual(['res-1']);
+
+    const customerEvents = await second.getResourceEvents({ customerId: 'cust-1' });
+    expect(customerEvents.map(event => event.payload.resourceId)).toEqual(['res-1', 'res-2']);
+  });
+});
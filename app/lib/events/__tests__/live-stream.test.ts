@@ -0,0 +1,97 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Live Stream Bridge Unit Tests
+ *
+ * Tests the updates pushed over /api/events/stream:
+ * - EventBus and JobQueue events filtered by customer
+ * - Backend export relay and SSE framing
+ */
+
+import { EventBus } from '../EventBus';
+import {
+  LiveUpdate,
+  bridgeEventBus,
+  bridgeJobQueue,
+  formatSSE,
+  relayBackendExport
+} from '../live-stream';
+import { Job, JobQueue, jobQueue } from '@/app/lib/queue/job-queue';
+
+const job = (id: string, customerId: string, overrides: Partial<Job> = {}) => ({
+  id,
+  name: 'ai-processing',
+  data: { customerId },
+  status: 'active',
+  progress: 40,
+  errors: [],
+  ...overrides
+}) as unknown as Job;
+
+describe('live stream bridge', () => {
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterAll(async () => {
+    jest.restoreAllMocks();
+    await jobQueue.shutdown();
+  });
+
+  it('forwards only the customer\'s EventBus events', async () => {
+    const bus = new EventBus();
+    const updates: LiveUpdate[] = [];
+    const unsubscribe = bridgeEventBus('cust-1', update => updates.push(update), bus);
+
+    const progress = { progress: 60, currentStep: 'research' };
+    await bus.emit('resource_generation_progress', { resourceId: 'res-1', customerId: 'cust-1', ...progress });
+    await bus.emit('resource_generation_progress', { resourceId: 'res-2', customerId: 'cust-2', ...progress });
+    unsubscribe();
+
+    expect(updates).toEqual([
+      expect.objectContaining({ source: 'event', id: 'res-1', status: 'active', progress: 60 })
+    ]);
+  });
+
+  it('forwards only the customer\'s queue jobs', async () => {
+    const queue = new JobQueue({ concurrency: 1 });
+    const updates: LiveUpdate[] = [];
+    const unsubscribe = bridgeJobQueue('cust-1', update => updates.push(update), queue);
+
+    queue.emit('progress', job('job-1', 'cust-1'));
+    queue.emit('progress', job('job-2', 'cust-2'));
+    queue.emit('completed', job('job-1', 'cust-1', { status: 'completed', progress: 100, result: { ok: true } }));
+    unsubscribe();
+    await queue.shutdown();
+
+    expect(updates.map(({ id, status, progress }) => ({ id, status, progress }))).toEqual([
+      { id: 'job-1', status: 'active', progress: 40 },
+      { id: 'job-1', status: 'completed', progress: 100 }
+    ]);
+    expect(updates[1].result).toEqual({ ok: true });
+  });
+
+  it('relays backend export status until it finishes', async () => {
+    const responses = [
+      { success: true, data: { status: 'processing' } },
+      { success: true, data: { status: 'processing' } },
+      { success: true, data: { status: 'completed', downloadUrl: '/files/export.pdf' } }
+    ];
+    const fetchImpl = jest.fn(async () => new Response(JSON.stringify(responses.shift())));
+    const updates: LiveUpdate[] = [];
+
+    await new Promise<void>(resolve => {
+      relayBackendExport('exp-1', 'cust-1', { accessToken: 'token', interval: 1, fetchImpl }, update => {
+        updates.push(update);
+        if (update.status === 'completed') resolve();
+      });
+    });
+
+    expect(fetchImpl).toHaveBeenCalledTimes(3);
+    expect(updates.map(update => update.status)).toEqual(['active', 'completed']); // Unchanged polls are not pushed
+    expect(formatSSE(updates[1])).toMatch(/^id: export:exp-1:\d+\nevent: export\ndata: \{.*"downloadUrl":"\/files\/export.pdf".*\}\n\n$/);
+  });
+});
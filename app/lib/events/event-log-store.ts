@@ -0,0 +1,151 @@
+/**
+ * Persistent Event Log for the Event Bus
+ * Durable, queryable record of emitted events so resource and customer
+ * timelines survive restarts and can be replayed
+ */
+
+import type { Event, EventType } from './event-types';
+
+export interface EventQuery {
+  resourceId?: string;
+  customerId?: string;
+  types?: EventType[];
+  since?: number; // ms since epoch
+  limit?: number; // most recent N, returned oldest first
+}
+
+export interface EventLogStore {
+  readonly name: string;
+  append(event: Event): Promise<void>;
+  query(query: EventQuery): Promise<Event[]>;
+}
+
+/**
+ * Check whether an event satisfies a query (ignores `limit`)
+ */
+export function matchesEventQuery(event: Event, query: EventQuery): boolean {
+  if (query.resourceId && event.payload.resourceId !== query.resourceId) return false;
+  if (query.customerId && event.payload.customerId !== query.customerId) return false;
+  if (query.types?.length && !query.types.includes(event.type)) return false;
+  if (query.since && event.payload.timestamp < query.since) return false;
+  return true;
+}
+
+/**
+ * Process-local log without the bus history cap. Useful for tests and
+ * single long-running servers.
+ */
+export class MemoryEventLogStore implements EventLogStore {
+  readonly name = 'memory';
+  private events: Event[] = [];
+
+  constructor(private maxEvents: number = 50000) {}
+
+  async append(event: Event): Promise<void> {
+    this.events.push(event);
+    if (this.events.length > this.maxEvents) {
+      this.events = this.events.slice(-this.maxEvents);
+    }
+  }
+
+  async query(query: EventQuery): Promise<Event[]> {
+    const matches = this.events.filter(event => matchesEventQuery(event, query));
+    return query.limit ? matches.slice(-query.limit) : matches;
+  }
+
+  clear(): void {
+    this.events = [];
+  }
+}
+
+/**
+ * Supabase-backed log.
+ *
+ * Expected table:
+ *   create table event_log (
+ *     id text primary key,
+ *     type text not null,
+ *     resource_id text,
+ *     customer_id text,
+ *     payload jsonb not null,
+ *     created_at timestamptz not null
+ *   );
+ *   create index event_log_resource on event_log (resource_id, created_at);
+ *   create index event_log_customer on event_log (customer_id, created_at);
+ */
+export class SupabaseEventLogStore implements EventLogStore {
+  readonly name = 'supabase';
+
+  constructor(private table: string = 'event_log') {}
+
+  async append(event: Event): Promise<void> {
+    const client = await this.client();
+    const { error } = await (client.from(this.table) as any).insert({
+      id: event.id,
+      type: event.type,
+      resource_id: event.payload.resourceId ?? null,
+      customer_id: event.payload.customerId ?? null,
+      payload: event.payload,
+      created_at: event.createdAt.toISOString()
+    });
+
+    if (error) {
+      console.error(`❌ Failed to persist event ${event.id}:`, error);
+    }
+  }
+
+  async query(query: EventQuery): Promise<Event[]> {
+    const client = await this.client();
+    let request = (client.from(this.table) as any)
+      .select('id, type, payload, created_at')
+      .order('created_at', { ascending: false });
+
+    if (query.resourceId) request = request.eq('resource_id', query.resourceId);
+    if (query.customerId) request = request.eq('customer_id', query.customerId);
+    if (query.types?.length) request = request.in('type', query.types);
+    if (query.since) request = request.gte('created_at', new Date(query.since).toISOString());
+    if (query.limit) request = request.limit(query.limit);
+
+    const { data, error } = await request;
+
+    if (error) {
+      console.error('❌ Failed to query event log:', error);
+      return [];
+    }
+
+    return (data || [])
+      .map((row: any) => ({
+        id: row.id,
+        type: row.type,
+        payload: row.payload,
+        createdAt: new Date(row.created_at),
+        processedAt: new Date(row.created_at)
+      }) as Event)
+      .reverse();
+  }
+
+  private async client() {
+    const { supabaseAdmin } = await import('@/app/lib/supabase/admin');
+    return supabaseAdmin;
+  }
+}
+
+/**
+ * Build the log configured through EVENT_LOG_STORE (memory | supabase).
+ * Returns null when persistence is disabled.
+ */
+export function createEventLogStore(type: string | undefined = process.env.EVENT_LOG_STORE): EventLogStore | null {
+  switch (type) {
+    case 'memory':
+      return new MemoryEventLogStore();
+    case 'supabase':
+      return new SupabaseEventLogStore();
+    case undefined:
+    case '':
+    case 'none':
+      return null;
+    default:
+      console.warn(`⚠️ Unknown EVENT_LOG_STORE "${type}", event log disabled`);
+      return null;
+  }
+}
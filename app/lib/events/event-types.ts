@@ -0,0 +1,192 @@
+/**
+ * Event Schema for the Resource Generation Pipeline
+ * Maps every event type to its payload so subscribers and emitters are typed
+ */
+
+/**
+ * Fields shared by every event payload
+ */
+export interface EventPayload {
+  resourceId?: string;
+  customerId?: string;
+  progress?: number;
+  status?: string;
+  currentStep?: string;
+  error?: string;
+  result?: unknown;
+  metadata?: Record<string, any>;
+  timestamp: number;
+}
+
+export interface ResourceGenerationStartedPayload extends EventPayload {
+  resourceId: string;
+  customerId: string;
+  resourceType: string;
+  complexity: {
+    score: number;
+    recommendation: 'template' | 'enhanced' | 'premium';
+    factors: string[];
+  };
+}
+
+export interface ResourceGenerationProgressPayload extends EventPayload {
+  resourceId: string;
+  customerId: string;
+  progress: number;
+  currentStep: string;
+  estimatedDuration?: number;
+  mcpServicesUsed?: string[];
+}
+
+export interface ResourceGenerationCompletedPayload extends EventPayload {
+  resourceId: string;
+  customerId: string;
+  result: {
+    content: string;
+    quality: number;
+    generationMethod: 'template' | 'enhanced' | 'premium';
+    cost: number;
+    duration: number;
+    sources: string[];
+    confidence: number;
+  };
+}
+
+export interface ResourceGenerationFailedPayload extends EventPayload {
+  resourceId: string;
+  customerId: string;
+  error: string;
+  errorCode: string;
+  fallbackUsed?: boolean;
+  attemptCount?: number;
+}
+
+export interface MCPServiceStatusPayload extends EventPayload {
+  serviceName: string;
+  available: boolean;
+  capabilities?: string[];
+  latency?: number;
+  error?: string;
+}
+
+export interface MarketIntelligenceUpdatedPayload extends EventPayload {
+  customerId: string;
+  source?: string;
+  insights?: Array<Record<string, any>>;
+}
+
+export interface DocumentGeneratedPayload extends EventPayload {
+  resourceId: string;
+  customerId: string;
+  documentType: 'google_docs' | 'google_sheets' | 'google_slides';
+  documentId: string;
+  documentUrl: string;
+  publicUrl?: string;
+  metadata: {
+    pageCount?: number;
+    wordCount?: number;
+    createdAt: string;
+  };
+}
+
+export interface AIBudgetAlertPayload extends EventPayload {
+  customerId: string;
+  threshold: number;             // Share of the monthly budget crossed (0.8, 1)
+  spentUsd: number;
+  budgetUsd: number;
+  month: string;                 // YYYY-MM
+}
+
+export interface ICPGeneratedPayload extends EventPayload {
+  customerId: string;
+  productName?: string;
+}
+
+export interface CompanyRatedPayload extends EventPayload {
+  customerId: string;
+  companyName: string;
+  domain?: string;
+  score: number;                 // ICP fit score, 0-100
+  tier?: string;
+}
+
+export interface BusinessCaseApprovedPayload extends EventPayload {
+  customerId: string;
+  businessCaseId: string;
+  approvedBy: string;
+  title?: string;
+}
+
+export interface ExportReadyPayload extends EventPayload {
+  customerId: string;
+  exportId: string;
+  resourceId?: string;
+  format: string;
+  downloadUrl?: string;
+  expiresAt?: string;
+}
+
+export interface CRMDealStageChangedPayload extends EventPayload {
+  customerId: string;
+  connectionId: string;
+  platform: string;
+  dealId: string;
+  dealName: string;
+  stage: string;
+  previousStage: string;
+  amount?: number;
+}
+
+/**
+ * Payload type for each event
+ */
+export interface EventPayloadMap {
+  resource_generation_started: ResourceGenerationStartedPayload;
+  resource_generation_progress: ResourceGenerationProgressPayload;
+  resource_generation_completed: ResourceGenerationCompletedPayload;
+  resource_generation_failed: ResourceGenerationFailedPayload;
+  mcp_service_available: MCPServiceStatusPayload;
+  mcp_service_unavailable: MCPServiceStatusPayload;
+  market_intelligence_updated: MarketIntelligenceUpdatedPayload;
+  document_generated: DocumentGeneratedPayload;
+  ai_budget_alert: AIBudgetAlertPayload;
+  icp_generated: ICPGeneratedPayload;
+  company_rated: CompanyRatedPayload;
+  business_case_approved: BusinessCaseApprovedPayload;
+  export_ready: ExportReadyPayload;
+  crm_deal_stage_changed: CRMDealStageChangedPayload;
+}
+
+export type EventType = keyof EventPayloadMap;
+
+/**
+ * Subscription patterns: an exact event type, a namespace wildcard
+ * such as `resource_generation_*`, or `*` for every event
+ */
+export type EventPattern = EventType | '*' | `${string}_*`;
+
+/**
+ * Event types matched by a subscription pattern
+ */
+export type MatchingEventType<P extends string> =
+  P extends '*' ? EventType
+  : P extends `${infer Prefix}*` ? Extract<EventType, `${Prefix}${string}`>
+  : Extract<EventType, P>;
+
+/**
+ * Emitted event. Distributes over unions so `event.type` narrows `event.payload`.
+ */
+export type Event<K extends EventType = EventType> = K extends EventType
+  ? {
+      id: string;
+      type: K;
+      payload: EventPayloadMap[K];
+      createdAt: Date;
+      processedAt?: Date;
+    }
+  : never;
+
+/**
+ * Emitter input: the payload without the timestamp the bus adds
+ */
+export type EmitPayload<K extends EventType> = Omit<EventPayloadMap[K], 'timestamp'>;
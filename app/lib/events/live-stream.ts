@@ -0,0 +1,182 @@
+/**
+ * Live Progress Bridge for Server-Sent Events
+ * Turns EventBus events, local JobQueue progress and backend job/export
+ * status into one stream of customer-scoped updates
+ */
+
+import eventBus from './EventBus';
+import type { Event } from './event-types';
+import {
+  LiveStatus,
+  LiveUpdate,
+  LiveUpdateSource,
+  backendExportToLiveUpdate,
+  backendJobToLiveUpdate,
+  isTerminalStatus
+} from './live-updates';
+import { jobQueue, Job, JobQueue } from '@/app/lib/queue/job-queue';
+import { getBackendUrl } from '@/app/lib/config/api';
+
+export * from './live-updates';
+
+type Send = (update: LiveUpdate) => void;
+type Unsubscribe = () => void;
+
+/**
+ * Forward EventBus events that belong to the customer
+ */
+export function bridgeEventBus(customerId: string, send: Send, bus = eventBus): Unsubscribe {
+  return bus.on('*', (event: Event) => {
+    const { payload } = event;
+    if (payload.customerId !== customerId) return;
+
+    const status: LiveStatus | undefined =
+      event.type === 'resource_generation_started' ? 'waiting'
+      : event.type === 'resource_generation_progress' ? 'active'
+      : event.type === 'resource_generation_completed' ? 'completed'
+      : event.type === 'resource_generation_failed' ? 'failed'
+      : undefined;
+
+    send({
+      source: 'event',
+      id: payload.resourceId ?? event.id,
+      type: event.type,
+      status,
+      progress: payload.progress,
+      result: event.type === 'resource_generation_completed' ? payload.result : undefined,
+      error: payload.error,
+      timestamp: payload.timestamp
+    });
+  });
+}
+
+/**
+ * Snapshot of a local job as a live update
+ */
+export function jobToLiveUpdate(job: Job): LiveUpdate {
+  const status: LiveStatus = job.status === 'delayed' || job.status === 'blocked' ? 'waiting' : job.status;
+
+  return {
+    source: 'job',
+    id: job.id,
+    type: job.name,
+    status,
+    progress: job.progress,
+    result: job.status === 'completed' ? job.result : undefined,
+    error: job.status === 'failed' ? job.errors[job.errors.length - 1] : undefined,
+    timestamp: Date.now()
+  };
+}
+
+/**
+ * Customer a local job belongs to (jobs carry customerId or userId in their data)
+ */
+export function getJobCustomerId(job: Job): string | undefined {
+  return job.data?.customerId ?? job.data?.userId;
+}
+
+/**
+ * Forward local JobQueue lifecycle events for the customer's jobs
+ */
+export function bridgeJobQueue(customerId: string, send: Send, queue: JobQueue = jobQueue): Unsubscribe {
+  const forward = (job: Job) => {
+    if (getJobCustomerId(job) === customerId) {
+      send(jobToLiveUpdate(job));
+    }
+  };
+
+  const lifecycle = ['added', 'active', 'progress', 'completed', 'failed'] as const;
+  lifecycle.forEach(name => queue.on(name, forward));
+
+  return () => lifecycle.forEach(name => queue.off(name, forward));
+}
+
+interface RelayOptions {
+  accessToken: string;
+  interval?: number;
+  fetchImpl?: typeof fetch;
+}
+
+/**
+ * Server-side relay for a job running on the Express backend. The browser
+ * receives pushes; only this one connection polls the backend.
+ */
+export function relayBackendJob(jobId: string, options: RelayOptions, send: Send): Unsubscribe {
+  const target = { source: 'job' as const, id: jobId, url: getBackendUrl(`/api/jobs/${jobId}`) };
+  return relay(target, options, send, body => backendJobToLiveUpdate(jobId, body));
+}
+
+/**
+ * Server-side relay for a backend export (same contract as /api/export/status)
+ */
+export function relayBackendExport(
+  exportId: string,
+  customerId: string,
+  options: RelayOptions,
+  send: Send
+): Unsubscribe {
+  const url = getBackendUrl(`/api/export/status/${exportId}?customerId=${encodeURIComponent(customerId)}`);
+  const target = { source: 'export' as const, id: exportId, url };
+
+  return relay(target, options, send, body => backendExportToLiveUpdate(exportId, body));
+}
+
+function relay(
+  target: { source: LiveUpdateSource; id: string; url: string },
+  { accessToken, interval = 2000, fetchImpl = fetch }: RelayOptions,
+  send: Send,
+  toUpdate: (body: any) => LiveUpdate
+): Unsubscribe {
+  let stopped = false;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let lastFrame = '';
+
+  const poll = async () => {
+    if (stopped) return;
+
+    let update: LiveUpdate;
+    try {
+      const response = await fetchImpl(target.url, {
+        headers: { Authorization: `Bearer ${accessToken}`, 'Content-Type': 'application/json' }
+      });
+      const body = await response.json().catch(() => ({}));
+
+      if (!response.ok) {
+        throw new Error(body?.error || `Backend returned ${response.status}`);
+      }
+
+      update = toUpdate(body);
+    } catch (error) {
+      if (stopped) return;
+      send({
+        source: target.source,
+        id: target.id,
+        type: 'relay_error',
+        status: 'failed',
+        error: error instanceof Error ? error.message : 'Backend status unavailable',
+        timestamp: Date.now()
+      });
+      return;
+    }
+
+    if (stopped) return;
+
+    // Only push changes
+    const frame = JSON.stringify({ ...update, timestamp: 0 });
+    if (frame !== lastFrame) {
+      lastFrame = frame;
+      send(update);
+    }
+
+    if (!isTerminalStatus(update.status)) {
+      timer = setTimeout(poll, interval);
+    }
+  };
+
+  poll();
+
+  return () => {
+    stopped = true;
+    if (timer) clearTimeout(timer);
+  };
+}
@@ -0,0 +1,79 @@
+/**
+ * Live Update Contract
+ * Shape of the progress updates pushed over /api/events/stream, shared by
+ * the server bridge and the browser hooks (no server-only imports here)
+ */
+
+export type LiveUpdateSource = 'event' | 'job' | 'export';
+export type LiveStatus = 'waiting' | 'active' | 'completed' | 'failed';
+
+export interface LiveUpdate {
+  source: LiveUpdateSource;
+  id: string;        // Job ID, export ID or resource ID
+  type: string;      // Event type or job name
+  status?: LiveStatus;
+  progress?: number;
+  result?: unknown;
+  error?: string;
+  timestamp: number;
+}
+
+const TERMINAL_STATUSES: LiveStatus[] = ['completed', 'failed'];
+
+export function isTerminalStatus(status?: LiveStatus): boolean {
+  return !!status && TERMINAL_STATUSES.includes(status);
+}
+
+/**
+ * Serialize an update as an SSE frame (`event: <source>`)
+ */
+export function formatSSE(update: LiveUpdate): string {
+  return `id: ${update.source}:${update.id}:${update.timestamp}\nevent: ${update.source}\ndata: ${JSON.stringify(update)}\n\n`;
+}
+
+/**
+ * Map a backend `/api/jobs/:id` response to a live update
+ */
+export function backendJobToLiveUpdate(jobId: string, body: any): LiveUpdate {
+  const job = body?.job;
+  if (!body?.success || !job) {
+    throw new Error(body?.error || 'Invalid response format from job status API');
+  }
+
+  return {
+    source: 'job',
+    id: jobId,
+    type: job.queueName || 'backend-job',
+    status: job.status,
+    progress: job.progress,
+    result: job.status === 'completed' ? job.result : undefined,
+    error: job.status === 'failed' ? job.failedReason || 'Job failed with unknown error' : undefined,
+    timestamp: Date.now()
+  };
+}
+
+const EXPORT_STATUSES: Record<string, LiveStatus> = {
+  pending: 'waiting',
+  processing: 'active',
+  completed: 'completed',
+  failed: 'failed'
+};
+
+/**
+ * Map an export status response (`/api/export/status/:id`) to a live update
+ */
+export function backendExportToLiveUpdate(exportId: string, body: any): LiveUpdate {
+  const record = body?.data ?? body;
+  const status = EXPORT_STATUSES[record?.status] ?? 'active';
+
+  return {
+    source: 'export',
+    id: exportId,
+    type: record?.metadata?.type || 'export',
+    status,
+    progress: status === 'completed' ? 100 : record?.progress,
+    result: status === 'completed' ? record : undefined,
+    error: status === 'failed' ? record?.error || 'Export failed' : undefined,
+    timestamp: Date.now()
+  };
+}
@@ -0,0 +1,65 @@
+/**
+ * Server-Sent Events Reader
+ * Parses a `text/event-stream` body into events. Used for Claude's streaming
+ * API on the server and for our own streaming routes in the browser, where
+ * EventSource cannot send a POST body.
+ */
+
+export interface ServerSentEvent {
+  event: string;
+  data: string;
+  id?: string;
+}
+
+/**
+ * Parse one event block (the lines between blank lines)
+ */
+function parseEventBlock(block: string): ServerSentEvent | null {
+  let event = 'message';
+  let id: string | undefined;
+  const data: string[] = [];
+
+  for (const line of block.split('\n')) {
+    if (!line || line.startsWith(':')) continue; // Comments/heartbeats
+
+    const separator = line.indexOf(':');
+    const field = separator === -1 ? line : line.slice(0, separator);
+    const value = separator === -1 ? '' : line.slice(separator + 1).replace(/^ /, '');
+
+    if (field === 'event') event = value;
+    else if (field === 'data') data.push(value);
+    else if (field === 'id') id = value;
+  }
+
+  return data.length > 0 ? { event, data: data.join('\n'), id } : null;
+}
+
+export async function* readServerSentEvents(
+  body: ReadableStream<Uint8Array>
+): AsyncGenerator<ServerSentEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+      buffer = buffer.replace(/\r\n/g, '\n');
+
+      let boundary: number;
+      while ((boundary = buffer.indexOf('\n\n')) !== -1) {
+        const parsed = parseEventBlock(buffer.slice(0, boundary));
+        buffer = buffer.slice(boundary + 2);
+        if (parsed) yield parsed;
+      }
+
+      if (done) break;
+    }
+
+    const trailing = parseEventBlock(buffer);
+    if (trailing) yield trailing;
+  } finally {
+    reader.releaseLock();
+  }
+}
@@ -11,6 +11,7 @@
 export { useCustomerCache, useGenerateICP, useTrackProgress } from './useCustomerCache';
 export { usePersonasCache, useGeneratePersonas } from './usePersonasCache';
 export { useCompanyRatingCache, useAnalyzeCompany } from './useCompanyRatingCache';
+export { useUsageQuota } from './useUsageQuota';
 
 // Types and constants
 export type {
@@ -23,6 +24,9 @@ export type {
   UseCustomerCacheReturn,
   UsePersonasCacheReturn,
   UseCompanyRatingCacheReturn,
+  UseUsageQuotaReturn,
+  UsageSummary,
+  QuotaStatus,
   CacheConfig
 } from './types';
 
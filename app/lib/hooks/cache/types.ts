@@ -5,6 +5,9 @@
  * Provides type safety for all cache-related operations across widgets.
  */
 
+import type { UsageSummary, QuotaStatus } from '@/app/lib/services/usageMeteringService';
+import type { BillableEvent } from '@/app/lib/middleware/rbac';
+
 // Base cache configuration
 export interface CacheConfig {
   staleTime?: number;
@@ -254,14 +257,36 @@ export interface UseCompanyRatingCacheReturn {
   removeRating: (ratingId: string) => void;
 }
 
+// Usage Quota Types
+export type { UsageSummary, QuotaStatus } from '@/app/lib/services/usageMeteringService';
+
+export interface UseUsageQuotaReturn {
+  // Data
+  usage: UsageSummary | undefined;
+  getQuota: (event: BillableEvent) => QuotaStatus | undefined;
+
+  // Loading and error states
+  isLoadingUsage: boolean;
+  usageError: Error | null;
+
+  // Actions
+  refetchUsage: () => void;
+}
+
 // Query Key Constants
+// Shared workspace data (ICP, personas) is keyed by the active workspace too,
+// so switching workspaces never shows another team's cache. Company ratings
+// are the user's own rating jobs and stay personal.
 export const QUERY_KEYS = {
   CUSTOMER: (customerId: string) => ['customer', customerId] as const,
-  CUSTOMER_ICP: (customerId: string) => ['customer-icp', customerId] as const,
+  CUSTOMER_ICP: (customerId: string, workspaceId?: string | null) =>
+    ['customer-icp', customerId, workspaceId ?? 'personal'] as const,
   CUSTOMER_PROGRESS: (customerId: string) => ['customer-progress', customerId] as const,
-  PERSONAS: (customerId: string) => ['personas', customerId] as const,
+  PERSONAS: (customerId: string, workspaceId?: string | null) =>
+    ['personas', customerId, workspaceId ?? 'personal'] as const,
   COMPANY_RATINGS: (customerId: string) => ['company-ratings', customerId] as const,
   COMPANY_RATING: (companyName: string, customerId: string) => ['company-rating', companyName, customerId] as const,
+  USAGE: (customerId: string) => ['usage', customerId] as const,
 } as const;
 
 // Default cache configurations
@@ -17,8 +17,7 @@ import {
   SHORT_CACHE_CONFIG
 } from './types';
 import { authenticatedFetch } from '@/app/lib/middleware/api-auth';
-import { useJobStatus } from '@/app/hooks/useJobStatus';
-import { API_CONFIG } from '@/app/lib/config/api';
+import { useLiveJob } from '@/app/hooks/useLiveJob';
 import toast from 'react-hot-toast';
 
 interface UseCompanyRatingCacheOptions {
@@ -36,8 +35,8 @@ export function useCompanyRatingCache({
   const [isAnalyzingCompany, setIsAnalyzingCompany] = useState(false);
   const [jobId, setJobId] = useState<string | null>(null);
 
-  // Use job status hook to poll for company rating completion
-  const { status: jobStatus, progress: jobProgress, result: jobResult, error: jobError, isComplete, isFailed } = useJobStatus(jobId, {
+  // Follow the company rating job over SSE (falls back to polling)
+  const { status: jobStatus, progress: jobProgress, result: jobResult, error: jobError, isComplete, isFailed } = useLiveJob(jobId, {
     onComplete: (result) => {
       console.log('✅ Company rating job completed:', result);
 
@@ -58,7 +57,7 @@ export function useCompanyRatingCache({
       setIsAnalyzingCompany(false);
       setJobId(null); // Clear job ID after failure
     },
-    autoStart: true // Automatically start polling when jobId is set
+    autoStart: true // Automatically start following when jobId is set
   });
 
   // Company ratings query (all ratings for this customer)
@@ -108,9 +107,10 @@ export function useCompanyRatingCache({
       try {
         console.log(`🔍 Starting async company analysis for: ${companyName}`);
 
-        // Submit job to async queue (Phase 4 integration)
+        // Submit job to async queue (Phase 4 integration); the route counts
+        // it against the monthly company rating quota
         console.log('📤 Submitting company rating job to queue...');
-        const jobResponse = await authenticatedFetch(`${API_CONFIG.backend}/api/jobs/rate-company`, {
+        const jobResponse = await fetch('/api/icp-analysis/rate-company', {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
           body: JSON.stringify({
@@ -119,9 +119,11 @@ export function useCompanyRatingCache({
           })
         });
 
+        queryClient.invalidateQueries({ queryKey: QUERY_KEYS.USAGE(customerId!) });
+
         if (!jobResponse.ok) {
-          const errorData = await jobResponse.json();
-          throw new Error(errorData.error || 'Failed to submit company rating job');
+          const errorData = await jobResponse.json().catch(() => ({}));
+          throw new Error(errorData.error?.message || errorData.error || 'Failed to submit company rating job');
         }
 
         const jobData = await jobResponse.json();
@@ -132,7 +134,7 @@ export function useCompanyRatingCache({
 
         console.log('✅ Company rating job submitted:', jobData.jobId);
 
-        // Set job ID to trigger useJobStatus polling
+        // Set job ID to start following the job
         setJobId(jobData.jobId);
 
         return { jobId: jobData.jobId };
@@ -20,6 +20,7 @@ import {
 } from './types';
 // Note: Using direct API call instead of modernApiClient to avoid type conflicts
 import { authenticatedFetch } from '@/app/lib/middleware/api-auth';
+import { useActiveWorkspaceId } from '@/app/lib/workspaces/activeWorkspace';
 import toast from 'react-hot-toast';
 
 interface UseCustomerCacheOptions {
@@ -34,6 +35,7 @@ export function useCustomerCache({
   refetchInterval
 }: UseCustomerCacheOptions): UseCustomerCacheReturn {
   const queryClient = useQueryClient();
+  const workspaceId = useActiveWorkspaceId();
 
   // Customer data query
   const {
@@ -78,7 +80,7 @@ export function useCustomerCache({
     error: icpError,
     refetch: refetchICP
   } = useQuery({
-    queryKey: QUERY_KEYS.CUSTOMER_ICP(customerId!),
+    queryKey: QUERY_KEYS.CUSTOMER_ICP(customerId!, workspaceId),
     queryFn: async () => {
       if (!customerId) throw new Error('Customer ID is required');
       const response = await authenticatedFetch(`/api/customer/${customerId}/icp`, {
@@ -167,7 +169,7 @@ export function useCustomerCache({
     },
     onSuccess: () => {
       // Invalidate and refetch ICP data
-      queryClient.invalidateQueries({ queryKey: QUERY_KEYS.CUSTOMER_ICP(customerId!) });
+      queryClient.invalidateQueries({ queryKey: QUERY_KEYS.CUSTOMER_ICP(customerId!, workspaceId) });
       queryClient.invalidateQueries({ queryKey: QUERY_KEYS.CUSTOMER_PROGRESS(customerId!) });
       toast.success('ICP analysis generated successfully!');
     },
@@ -195,8 +197,8 @@ export function useCustomerCache({
   }, [queryClient, customerId]);
 
   const invalidateICP = useCallback(() => {
-    queryClient.invalidateQueries({ queryKey: QUERY_KEYS.CUSTOMER_ICP(customerId!) });
-  }, [queryClient, customerId]);
+    queryClient.invalidateQueries({ queryKey: QUERY_KEYS.CUSTOMER_ICP(customerId!, workspaceId) });
+  }, [queryClient, customerId, workspaceId]);
 
   const invalidateProgress = useCallback(() => {
     queryClient.invalidateQueries({ queryKey: QUERY_KEYS.CUSTOMER_PROGRESS(customerId!) });
@@ -221,11 +223,11 @@ export function useCustomerCache({
   const updateICP = useCallback((updates: Partial<ICPData>) => {
     if (!icpData) return;
     
-    queryClient.setQueryData(QUERY_KEYS.CUSTOMER_ICP(customerId!), (oldData: ICPData | undefined) => {
+    queryClient.setQueryData(QUERY_KEYS.CUSTOMER_ICP(customerId!, workspaceId), (oldData: ICPData | undefined) => {
       if (!oldData) return oldData;
       return { ...oldData, ...updates };
     });
-  }, [queryClient, icpData, customerId]);
+  }, [queryClient, icpData, customerId, workspaceId]);
 
   const updateProgress = useCallback((updates: Partial<ProgressData>) => {
     if (!progress) return;
@@ -276,6 +278,7 @@ export function useCustomerCache({
 // Convenience hook for ICP generation
 export function useGenerateICP(customerId: string | undefined) {
   const queryClient = useQueryClient();
+  const workspaceId = useActiveWorkspaceId();
 
   return useMutation({
     mutationFn: async (productData: any) => {
@@ -299,7 +302,7 @@ export function useGenerateICP(customerId: string | undefined) {
     },
     onSuccess: (data, variables, context) => {
       // Invalidate related queries
-      queryClient.invalidateQueries({ queryKey: QUERY_KEYS.CUSTOMER_ICP(customerId!) });
+      queryClient.invalidateQueries({ queryKey: QUERY_KEYS.CUSTOMER_ICP(customerId!, workspaceId) });
       queryClient.invalidateQueries({ queryKey: QUERY_KEYS.CUSTOMER_PROGRESS(customerId!) });
       toast.success('ICP analysis generated successfully!');
     },
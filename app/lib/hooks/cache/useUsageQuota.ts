@@ -0,0 +1,57 @@
+/**
+ * useUsageQuota Hook
+ *
+ * Cache hook for the current customer's monthly usage and remaining quotas.
+ * Billable events are metered by the API routes that perform them.
+ */
+
+import { useQuery } from '@tanstack/react-query';
+import { useCallback } from 'react';
+import {
+  UsageSummary,
+  UseUsageQuotaReturn,
+  QUERY_KEYS,
+  SHORT_CACHE_CONFIG
+} from './types';
+import type { BillableEvent } from '@/app/lib/middleware/rbac';
+
+interface UseUsageQuotaOptions {
+  customerId: string | undefined;
+  enabled?: boolean;
+}
+
+export function useUsageQuota({
+  customerId,
+  enabled = true
+}: UseUsageQuotaOptions): UseUsageQuotaReturn {
+  const {
+    data: usage,
+    isLoading: isLoadingUsage,
+    error: usageError,
+    refetch: refetchUsage
+  } = useQuery({
+    queryKey: QUERY_KEYS.USAGE(customerId!),
+    queryFn: async (): Promise<UsageSummary> => {
+      const response = await fetch('/api/usage', { method: 'GET' });
+
+      if (!response.ok) {
+        throw new Error(`Failed to load usage (${response.status})`);
+      }
+
+      const result = await response.json();
+      return result.data;
+    },
+    enabled: enabled && !!customerId,
+    ...SHORT_CACHE_CONFIG
+  });
+
+  const getQuota = useCallback((event: BillableEvent) => usage?.quotas[event], [usage]);
+
+  return {
+    usage,
+    getQuota,
+    isLoadingUsage,
+    usageError: usageError as Error | null,
+    refetchUsage
+  };
+}
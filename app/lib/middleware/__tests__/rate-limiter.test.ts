@@ -0,0 +1,259 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Rate Limiter Unit Tests
+ *
+ * Tests the rate limiting algorithms and storage adapters:
+ * - Sliding window log and token bucket limits
+ * - Per-plan limits from the RBAC role
+ * - Standard RateLimit-* / Retry-After headers
+ * - Shared Upstash store against a local stand-in
+ * - Atomic compare-and-swap in the memory store under concurrency
+ * - Route decorator keyed by the verified user, not request headers
+ * - A failing store answers 503 with Retry-After instead of throwing
+ */
+
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+import {
+  RateLimiterConfig,
+  buildRateLimitHeaders,
+  checkRateLimit,
+  consumeRateLimit,
+  createRateLimiter,
+  getRateLimitConfig,
+  withRateLimit
+} from '../rate-limiter';
+import { MemoryRateLimitStore, UpstashRateLimitStore } from '../rate-limit-store';
+import { authenticateRequest } from '../auth';
+
+// Responses that keep their Headers, so the decorator's headers can be checked
+jest.mock('next/server', () => {
+  class NextResponse extends Response {
+    constructor(body?: BodyInit | null, init: ResponseInit = {}) {
+      super(body, init);
+      Object.defineProperty(this, 'headers', { value: new Headers(init.headers) });
+    }
+
+    static json(data: unknown, init: ResponseInit = {}) {
+      return new NextResponse(JSON.stringify(data), init);
+    }
+  }
+
+  return { NextResponse };
+});
+
+jest.mock('../auth', () => ({
+  authenticateRequest: jest.fn(),
+}));
+
+/**
+ * Local stand-in for the Upstash REST endpoint. Understands GET and the
+ * compare-and-swap EVAL the store sends.
+ */
+function createUpstashStandIn() {
+  const data = new Map<string, string>();
+  const fetchImpl = jest.fn(async (_url: any, init: any) => {
+    const [command, ...args] = JSON.parse(init.body);
+    let result: unknown = null;
+
+    if (command === 'GET') {
+      result = data.get(args[0]) ?? null;
+    } else if (command === 'EVAL') {
+      const [, , key, expected, value] = args;
+      const current = data.get(key);
+      if ((current === undefined && expected === '') || current === expected) {
+        data.set(key, value);
+        result = 1;
+      } else {
+        result = 0;
+      }
+    }
+
+    return new Response(JSON.stringify({ result }), { status: 200 });
+  });
+
+  return { data, fetchImpl };
+}
+
+describe('Rate limiter', () => {
+  let store: MemoryRateLimitStore;
+
+  beforeEach(() => {
+    store = new MemoryRateLimitStore();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test('sliding window log admits maxRequests per window', async () => {
+    jest.useFakeTimers({ now: 1_000_000 });
+    const config: RateLimiterConfig = { windowMs: 60000, maxRequests: 3, store };
+
+    for (let i = 0; i < 3; i++) {
+      expect((await consumeRateLimit('user-1', config)).allowed).toBe(true);
+      jest.advanceTimersByTime(10000);
+    }
+
+    const denied = await consumeRateLimit('user-1', config);
+    expect(denied.allowed).toBe(false);
+    expect(denied.retryAfter).toBe(30);
+
+    // The first request slides out of the window
+    jest.advanceTimersByTime(30001);
+    expect((await consumeRateLimit('user-1', config)).allowed).toBe(true);
+  });
+
+  test('token bucket allows a burst then refills gradually', async () => {
+    jest.useFakeTimers({ now: 1_000_000 });
+    const config: RateLimiterConfig = {
+      windowMs: 60000,
+      maxRequests: 6,
+      algorithm: 'token-bucket',
+      store
+    };
+
+    for (let i = 0; i < 6; i++) {
+      expect((await consumeRateLimit('user-1', config)).allowed).toBe(true);
+    }
+
+    const denied = await consumeRateLimit('user-1', config);
+    expect(denied.allowed).toBe(false);
+    expect(denied.retryAfter).toBe(10);
+
+    jest.advanceTimersByTime(10000);
+    expect((await consumeRateLimit('user-1', config)).allowed).toBe(true);
+    expect((await consumeRateLimit('user-1', config)).allowed).toBe(false);
+  });
+
+  test('keys are limited independently', async () => {
+    const config: RateLimiterConfig = { windowMs: 60000, maxRequests: 1, store };
+
+    expect((await consumeRateLimit('user-1', config)).allowed).toBe(true);
+    expect((await consumeRateLimit('user-2', config)).allowed).toBe(true);
+    expect((await consumeRateLimit('user-1', config)).allowed).toBe(false);
+  });
+
+  test('plan limits follow the RBAC role', () => {
+    expect(getRateLimitConfig('ai').maxRequests).toBe(10);
+    expect(getRateLimitConfig('ai', 'user').maxRequests).toBe(10);
+    expect(getRateLimitConfig('ai', 'premium').maxRequests).toBe(30);
+    expect(getRateLimitConfig('ai', 'admin').maxRequests).toBe(100);
+    expect(getRateLimitConfig('ai', 'premium').prefix).toBe('rate:ai');
+  });
+
+  test('builds standard headers', async () => {
+    const config: RateLimiterConfig = { windowMs: 60000, maxRequests: 1, store };
+    await consumeRateLimit('user-1', config);
+    const denied = await consumeRateLimit('user-1', config);
+
+    const headers = buildRateLimitHeaders(denied);
+    expect(headers.get('RateLimit-Limit')).toBe('1');
+    expect(headers.get('RateLimit-Remaining')).toBe('0');
+    expect(headers.get('RateLimit-Policy')).toBe('1;w=60');
+    expect(Number(headers.get('RateLimit-Reset'))).toBeGreaterThan(0);
+    expect(headers.get('Retry-After')).toBe(String(denied.retryAfter));
+  });
+
+  test('shared store enforces one budget across instances', async () => {
+    const standIn = createUpstashStandIn();
+    const instanceA = new UpstashRateLimitStore({ url: 'http://redis.local', token: 't', fetchImpl: standIn.fetchImpl as any });
+    const instanceB = new UpstashRateLimitStore({ url: 'http://redis.local', token: 't', fetchImpl: standIn.fetchImpl as any });
+    const base = { windowMs: 60000, maxRequests: 2 };
+
+    expect((await consumeRateLimit('user-1', { ...base, store: instanceA })).allowed).toBe(true);
+    expect((await consumeRateLimit('user-1', { ...base, store: instanceB })).allowed).toBe(true);
+    expect((await consumeRateLimit('user-1', { ...base, store: instanceA })).allowed).toBe(false);
+    expect(standIn.fetchImpl.mock.calls[0][1].headers.Authorization).toBe('Bearer t');
+  });
+
+  test('concurrent updates do not over-admit', async () => {
+    const standIn = createUpstashStandIn();
+    const shared = new UpstashRateLimitStore({ url: 'http://redis.local', token: 't', fetchImpl: standIn.fetchImpl as any });
+    const config: RateLimiterConfig = { windowMs: 60000, maxRequests: 3, store: shared };
+
+    const results = await Promise.all(
+      Array.from({ length: 6 }, () => consumeRateLimit('user-1', config))
+    );
+
+    expect(results.filter(result => result.allowed).length).toBeLessThanOrEqual(3);
+    expect(JSON.parse(standIn.data.get('user-1')!).length).toBeLessThanOrEqual(3);
+  });
+
+  test('memory store does not over-admit concurrent requests', async () => {
+    const config: RateLimiterConfig = { windowMs: 60000, maxRequests: 5, store };
+
+    const results = await Promise.all(
+      Array.from({ length: 20 }, () => consumeRateLimit('user-1', config))
+    );
+
+    expect(results.filter(result => result.allowed).length).toBeLessThanOrEqual(5);
+    expect(JSON.parse(store.peek('user-1')!).length).toBeLessThanOrEqual(5);
+  });
+
+  test('memory store compare-and-swap lets exactly one concurrent writer claim a key', async () => {
+    const claims = await Promise.all(
+      Array.from({ length: 3 }, () => store.compareAndSwap('nonce:n1', null, 'claimed', 60000))
+    );
+
+    expect(claims.filter(Boolean)).toHaveLength(1);
+    expect(store.peek('nonce:n1')).toBe('claimed');
+  });
+
+  test('unauthenticated requests are keyed by IP, not claimed user headers', async () => {
+    const config: RateLimiterConfig = { windowMs: 60000, maxRequests: 1, store, prefix: 'rate:test' };
+    const request = (userId: string, token: string) => ({
+      headers: new Headers({ 'x-user-id': userId, authorization: `Bearer ${token}`, 'x-forwarded-for': '203.0.113.7' })
+    }) as unknown as NextRequest;
+
+    expect((await checkRateLimit(request('user-1', 'eyJhbGciOi.one'), config)).allowed).toBe(true);
+    expect((await checkRateLimit(request('user-2', 'eyJhbGciOi.two'), config)).allowed).toBe(false);
+    expect(store.keys()).toEqual(['rate:test:ip:203.0.113.7']);
+  });
+
+  test('withRateLimit gives every verified user their own budget', async () => {
+    const handler = withRateLimit('ai')(async () => NextResponse.json({ success: true }));
+    const signIn = (id: string) => (authenticateRequest as jest.Mock).mockResolvedValueOnce({
+      user: { id, email: `${id}@example.com`, role: 'user' },
+      session: { access_token: 'eyJhbGciOi.shared-prefix', refresh_token: 'r', expires_at: 0 }
+    });
+    const request = () => ({ headers: new Headers() }) as unknown as NextRequest;
+    const limit = getRateLimitConfig('ai', 'user').maxRequests;
+
+    for (let i = 0; i < limit; i++) {
+      signIn('limited-user');
+      expect((await handler(request())).status).toBe(200);
+    }
+
+    signIn('limited-user');
+    const denied = await handler(request());
+    expect(denied.status).toBe(429);
+    expect(denied.headers.get('Retry-After')).not.toBeNull();
+
+    signIn('other-user');
+    const other = await handler(request());
+    expect(other.status).toBe(200);
+    expect(other.headers.get('RateLimit-Limit')).toBe(String(limit));
+  });
+
+  test('fails closed with a JSON 503 when the shared store errors', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    const failing = new UpstashRateLimitStore({
+      url: 'https://upstash.test',
+      token: 'token',
+      fetchImpl: (async () => new Response('upstream down', { status: 502 })) as unknown as typeof fetch
+    });
+    const limiter = createRateLimiter({ windowMs: 60000, maxRequests: 5, store: failing, prefix: 'rate:test' });
+
+    const outcome = await limiter({ headers: new Headers() } as unknown as NextRequest, { key: 'user-1' });
+
+    expect(outcome).toBeInstanceOf(NextResponse);
+    const response = outcome as NextResponse;
+    expect(response.status).toBe(503);
+    expect(response.headers.get('Retry-After')).toBe('5');
+    expect(await response.json()).toMatchObject({ error: { type: 'RATE_LIMIT', statusCode: 503 } });
+  });
+});
@@ -1,6 +1,7 @@
 // Authentication bridge for Express backend API calls
 import { supabase } from '../supabase/client';
 import { API_CONFIG } from '@/app/lib/config/api';
+import { workspaceHeaders } from '@/app/lib/workspaces/activeWorkspace';
 
 export interface AuthHeaders {
   'Authorization'?: string;
@@ -73,10 +74,12 @@ export async function authenticatedFetch(
   try {
     const authHeaders = await getAuthHeaders(customerId);
     
-    // Merge auth headers with existing headers
+    // Merge auth headers with existing headers (plus the active workspace,
+    // which the backend doesn't get through the cookie)
     const headers = {
       'Content-Type': 'application/json',
       ...options.headers,
+      ...workspaceHeaders(),
       ...authHeaders,
     };
 
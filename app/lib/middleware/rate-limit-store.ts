@@ -0,0 +1,206 @@
+/**
+ * FUNCTIONALITY STATUS: REAL
+ *
+ * REAL IMPLEMENTATIONS:
+ * - Storage adapter interface for rate limiter state
+ * - In-memory store (single instance, default)
+ * - Upstash Redis REST store shared across serverless instances
+ * - Compare-and-swap writes so concurrent instances never lose updates
+ *
+ * FAKE IMPLEMENTATIONS:
+ * - None - all functionality is production-ready
+ *
+ * MISSING REQUIREMENTS:
+ * - Shared store needs UPSTASH_REDIS_REST_URL / UPSTASH_REDIS_REST_TOKEN
+ *
+ * PRODUCTION READINESS: YES
+ * - Memory store for local development, Redis REST for Netlify functions
+ */
+
+/**
+ * Minimal key-value contract the rate limiting algorithms are built on.
+ * Values are opaque strings (JSON state); `compareAndSwap` must be atomic.
+ */
+export interface RateLimitStore {
+  readonly name: string;
+
+  /** Read the current value, or null when missing/expired */
+  get(key: string): Promise<string | null>;
+
+  /**
+   * Write `value` only if the stored value still equals `expected`
+   * (null = key must not exist). Returns false when another writer won.
+   */
+  compareAndSwap(key: string, expected: string | null, value: string, ttlMs: number): Promise<boolean>;
+}
+
+interface MemoryEntry {
+  value: string;
+  expiresAt: number;
+}
+
+/**
+ * Process-local store. Limits reset per instance, so only use it for
+ * development or single long-running servers.
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  readonly name = 'memory';
+  private entries = new Map<string, MemoryEntry>();
+
+  constructor(cleanupIntervalMs = 5 * 60 * 1000) {
+    // Cleanup expired entries periodically
+    const timer = setInterval(() => this.cleanup(), cleanupIntervalMs);
+    timer.unref?.();
+  }
+
+  async get(key: string): Promise<string | null> {
+    return this.read(key);
+  }
+
+  async compareAndSwap(key: string, expected: string | null, value: string, ttlMs: number): Promise<boolean> {
+    // Read, compare and write without yielding, so concurrent callers can't interleave
+    const current = this.read(key);
+    if (current !== expected) return false;
+
+    this.entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+    return true;
+  }
+
+  /**
+   * Snapshot of live keys, used by monitoring
+   */
+  keys(): string[] {
+    const now = Date.now();
+    return Array.from(this.entries.entries())
+      .filter(([, entry]) => entry.expiresAt >= now)
+      .map(([key]) => key);
+  }
+
+  peek(key: string): string | null {
+    const entry = this.entries.get(key);
+    return entry && entry.expiresAt >= Date.now() ? entry.value : null;
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+
+  private read(key: string): string | null {
+    const entry = this.entries.get(key);
+    if (!entry) return null;
+
+    if (Date.now() > entry.expiresAt) {
+      this.entries.delete(key);
+      return null;
+    }
+
+    return entry.value;
+  }
+
+  private cleanup(): void {
+    const now = Date.now();
+    for (const [key, entry] of this.entries.entries()) {
+      if (now > entry.expiresAt) {
+        this.entries.delete(key);
+      }
+    }
+  }
+}
+
+// Atomic compare-and-swap executed server-side by Redis
+const CAS_SCRIPT = `
+local current = redis.call('GET', KEYS[1])
+if (current == false and ARGV[1] == '') or current == ARGV[1] then
+  redis.call('SET', KEYS[1], ARGV[2], 'PX', ARGV[3])
+  return 1
+end
+return 0
+`.trim();
+
+export interface UpstashStoreConfig {
+  url: string;
+  token: string;
+  fetchImpl?: typeof fetch; // Injectable for tests and local stand-ins
+  timeoutMs?: number;
+}
+
+/**
+ * Shared store speaking the Upstash Redis REST protocol
+ * (POST a JSON command array, receive `{ result }` or `{ error }`).
+ * Works from serverless and edge runtimes since it only needs fetch.
+ */
+export class UpstashRateLimitStore implements RateLimitStore {
+  readonly name = 'upstash';
+  private config: Required<Omit<UpstashStoreConfig, 'fetchImpl'>> & { fetchImpl: typeof fetch };
+
+  constructor(config: UpstashStoreConfig) {
+    this.config = {
+      timeoutMs: 2000,
+      ...config,
+      url: config.url.replace(/\/$/, ''),
+      fetchImpl: config.fetchImpl ?? fetch
+    };
+  }
+
+  async get(key: string): Promise<string | null> {
+    const result = await this.command(['GET', key]);
+    return typeof result === 'string' ? result : null;
+  }
+
+  async compareAndSwap(key: string, expected: string | null, value: string, ttlMs: number): Promise<boolean> {
+    const result = await this.command([
+      'EVAL',
+      CAS_SCRIPT,
+      '1',
+      key,
+      expected ?? '',
+      value,
+      String(Math.max(1, Math.ceil(ttlMs)))
+    ]);
+    return Number(result) === 1;
+  }
+
+  private async command(args: string[]): Promise<unknown> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.config.timeoutMs);
+
+    try {
+      const response = await this.config.fetchImpl(this.config.url, {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${this.config.token}`,
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify(args),
+        signal: controller.signal
+      });
+
+      const payload = await response.json();
+      if (!response.ok || payload.error) {
+        throw new Error(`Upstash ${args[0]} failed: ${payload.error || response.status}`);
+      }
+
+      return payload.result;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
+
+/**
+ * Build the store configured through RATE_LIMIT_STORE (memory | upstash)
+ */
+export function createRateLimitStore(type: string | undefined = process.env.RATE_LIMIT_STORE): RateLimitStore {
+  if (type === 'upstash') {
+    const url = process.env.UPSTASH_REDIS_REST_URL;
+    const token = process.env.UPSTASH_REDIS_REST_TOKEN;
+
+    if (url && token) {
+      return new UpstashRateLimitStore({ url, token });
+    }
+
+    console.warn('⚠️ RATE_LIMIT_STORE=upstash but Upstash credentials are missing, falling back to memory');
+  }
+
+  return new MemoryRateLimitStore();
+}
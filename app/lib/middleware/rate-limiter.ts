@@ -1,230 +1,454 @@
 /**
  * FUNCTIONALITY STATUS: REAL
- * 
+ *
  * REAL IMPLEMENTATIONS:
- * - In-memory rate limiting using Map-based storage
- * - Per-user and per-IP rate limiting
- * - Sliding window algorithm for accurate rate limiting
- * - Automatic cleanup of expired entries
- * 
+ * - Pluggable storage (in-memory or shared Redis REST store)
+ * - Sliding-window-log, token-bucket and fixed-window algorithms
+ * - Per-user and per-IP rate limiting with separate budgets per endpoint type
+ * - Per-plan limits keyed off the RBAC role
+ * - Standard RateLimit-* and Retry-After response headers
+ * - Fails closed with a 503 and Retry-After when the store is unreachable
+ *
  * FAKE IMPLEMENTATIONS:
  * - None - all functionality is production-ready
- * 
+ *
  * MISSING REQUIREMENTS:
- * - None - this service is complete for 10-user capacity
- * 
+ * - Shared limits across instances require RATE_LIMIT_STORE=upstash
+ *
  * PRODUCTION READINESS: YES
- * - Handles 10 concurrent users with proper rate limiting
- * - Memory-efficient with automatic cleanup
- * - Configurable limits for different endpoint types
+ * - Limits hold across serverless instances when the shared store is used
+ * - Compare-and-swap updates keep concurrent requests from over-admitting
+ * - Configurable limits for different endpoint types and plans
  */
 
-import { NextRequest } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { AuthContext, authenticateRequest } from './auth';
+import { ErrorType, createAPIError, errorResponse } from './error-handler';
+import { ROLES } from './rbac';
+import {
+  MemoryRateLimitStore,
+  RateLimitStore,
+  createRateLimitStore
+} from './rate-limit-store';
 
-interface RateLimit {
-  count: number;
-  resetTime: number;
-  windowStart: number;
-}
+export type RateLimitAlgorithm = 'sliding-window-log' | 'token-bucket' | 'fixed-window';
 
-interface RateLimiterConfig {
+export interface RateLimiterConfig {
   windowMs: number;     // Time window in milliseconds
-  maxRequests: number;  // Max requests per window
+  maxRequests: number;  // Max requests per window (bucket capacity for token-bucket)
+  algorithm?: RateLimitAlgorithm; // Default: sliding-window-log
+  prefix?: string;      // Key namespace, keeps budgets for different endpoint types apart
+  store?: RateLimitStore;
   keyGenerator?: (req: NextRequest) => string;
   skipSuccessfulRequests?: boolean;
   skipFailedRequests?: boolean;
 }
 
-// Global rate limit storage (in-memory for 10-user MVP)
-const rateLimitStore = new Map<string, RateLimit>();
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  resetTime: number;   // Epoch ms when budget is next replenished
+  retryAfter?: number; // Seconds until the next request would be admitted
+  policy: string;      // RateLimit-Policy value, e.g. "10;w=60"
+}
+
+export type RateLimitType = keyof typeof RATE_LIMIT_CONFIGS;
+
+// Seconds clients wait before retrying while the rate limit store is failing
+const STORE_FAILURE_RETRY_AFTER = 5;
 
-// Default configurations for different endpoint types
+// Shared rate limit storage (memory unless RATE_LIMIT_STORE says otherwise)
+const defaultStore = createRateLimitStore();
+
+// Default configurations for different endpoint types (basic user plan)
 export const RATE_LIMIT_CONFIGS = {
   // General API endpoints
   api: {
     windowMs: 60 * 1000, // 1 minute
     maxRequests: 100,    // 100 requests per minute
+    algorithm: 'sliding-window-log' as RateLimitAlgorithm,
   },
-  
-  // AI processing endpoints (more restrictive)
+
+  // AI processing endpoints (more restrictive, short bursts allowed)
   ai: {
-    windowMs: 60 * 1000, // 1 minute  
+    windowMs: 60 * 1000, // 1 minute
     maxRequests: 10,     // 10 AI requests per minute
+    algorithm: 'token-bucket' as RateLimitAlgorithm,
   },
-  
+
   // File generation endpoints
   files: {
     windowMs: 5 * 60 * 1000, // 5 minutes
     maxRequests: 20,         // 20 file generations per 5 minutes
+    algorithm: 'token-bucket' as RateLimitAlgorithm,
   },
-  
+
   // Authentication endpoints
   auth: {
     windowMs: 15 * 60 * 1000, // 15 minutes
     maxRequests: 10,          // 10 auth attempts per 15 minutes
+    algorithm: 'sliding-window-log' as RateLimitAlgorithm,
   }
 };
 
-// Cleanup expired entries every 5 minutes
-setInterval(() => {
-  const now = Date.now();
-  for (const [key, limit] of rateLimitStore.entries()) {
-    if (now > limit.resetTime) {
-      rateLimitStore.delete(key);
-    }
+// Per-plan overrides on top of RATE_LIMIT_CONFIGS, keyed by RBAC role
+export const PLAN_RATE_LIMITS: Record<string, Partial<Record<RateLimitType, Partial<RateLimiterConfig>>>> = {
+  [ROLES.USER]: {},
+  [ROLES.PREMIUM]: {
+    api: { maxRequests: 300 },
+    ai: { maxRequests: 30 },
+    files: { maxRequests: 60 }
+  },
+  [ROLES.ADMIN]: {
+    api: { maxRequests: 1000 },
+    ai: { maxRequests: 100 },
+    files: { maxRequests: 200 }
   }
-}, 5 * 60 * 1000);
+};
+
+/**
+ * Resolve the limits for an endpoint type and (optional) RBAC role
+ */
+export function getRateLimitConfig(limitType: RateLimitType, role?: string): RateLimiterConfig {
+  const planOverrides = role ? PLAN_RATE_LIMITS[role]?.[limitType] : undefined;
+  return {
+    ...RATE_LIMIT_CONFIGS[limitType],
+    prefix: `rate:${limitType}`,
+    ...planOverrides
+  };
+}
 
 /**
- * Generate rate limit key from request
+ * Generate rate limit key from request. Headers and cookies that claim a
+ * user can be forged, so unauthenticated requests are keyed by IP;
+ * authenticated routes pass the verified user id instead (see withRateLimit).
  */
 function generateKey(req: NextRequest, prefix = 'rate'): string {
-  // Try to get user ID from various sources
-  const userId = req.headers.get('x-user-id') || 
-                 req.headers.get('authorization')?.split('Bearer ')[1]?.slice(0, 10) ||
-                 req.cookies.get('hs_customer_id')?.value;
-  
-  if (userId) {
-    return `${prefix}:user:${userId}`;
-  }
-  
-  // Fallback to IP address
   const forwarded = req.headers.get('x-forwarded-for');
-  const ip = forwarded ? forwarded.split(',')[0].trim() : 
-             req.headers.get('x-real-ip') || 
+  const ip = forwarded ? forwarded.split(',')[0].trim() :
+             req.headers.get('x-real-ip') ||
              'unknown';
-             
+
   return `${prefix}:ip:${ip}`;
 }
 
+/**
+ * Check if the request identified by `key` is within the rate limit.
+ * Consumes one unit of budget when allowed.
+ */
+export async function consumeRateLimit(key: string, config: RateLimiterConfig): Promise<RateLimitResult> {
+  const store = config.store ?? defaultStore;
+  const algorithm = config.algorithm ?? 'sliding-window-log';
+  const policy = `${config.maxRequests};w=${Math.ceil(config.windowMs / 1000)}`;
+
+  // Optimistic concurrency: retry when another instance updated the key first
+  for (let attempt = 0; attempt < 5; attempt++) {
+    const now = Date.now();
+    const raw = await store.get(key);
+    const outcome = ALGORITHMS[algorithm](raw ? JSON.parse(raw) : null, now, config);
+
+    if (!outcome.next) {
+      return { ...outcome.result, policy };
+    }
+
+    const swapped = await store.compareAndSwap(key, raw, JSON.stringify(outcome.next), config.windowMs);
+    if (swapped) {
+      return { ...outcome.result, policy };
+    }
+  }
+
+  // Heavy contention on a single key: fail closed for this request
+  return {
+    allowed: false,
+    limit: config.maxRequests,
+    remaining: 0,
+    resetTime: Date.now() + 1000,
+    retryAfter: 1,
+    policy
+  };
+}
+
 /**
  * Check if request is within rate limit
  */
-export function checkRateLimit(
-  req: NextRequest, 
+export async function checkRateLimit(
+  req: NextRequest,
   config: RateLimiterConfig
-): { 
-  allowed: boolean; 
-  limit: number; 
-  remaining: number; 
-  resetTime: number;
-  retryAfter?: number;
-} {
-  const key = config.keyGenerator ? config.keyGenerator(req) : generateKey(req);
-  const now = Date.now();
+): Promise<RateLimitResult> {
+  const key = config.keyGenerator ? config.keyGenerator(req) : generateKey(req, config.prefix);
+  return consumeRateLimit(key, config);
+}
+
+type AlgorithmOutcome = {
+  result: Omit<RateLimitResult, 'policy'>;
+  next?: unknown; // New state to persist; omitted when nothing changed
+};
+
+type Algorithm = (state: any, now: number, config: RateLimiterConfig) => AlgorithmOutcome;
+
+/**
+ * Sliding window log: keep the timestamp of every admitted request in the
+ * last window. Exact, at the cost of O(maxRequests) state per key.
+ */
+const slidingWindowLog: Algorithm = (state: number[] | null, now, config) => {
   const windowStart = now - config.windowMs;
-  
-  let rateLimit = rateLimitStore.get(key);
-  
-  // Initialize or reset if window has passed
-  if (!rateLimit || now > rateLimit.resetTime) {
-    rateLimit = {
-      count: 0,
-      resetTime: now + config.windowMs,
-      windowStart: now
-    };
-  }
-  
-  // Check if we're within the sliding window
-  if (rateLimit.windowStart < windowStart) {
-    // Sliding window: reduce count proportionally
-    const timeElapsed = now - rateLimit.windowStart;
-    const windowsElapsed = timeElapsed / config.windowMs;
-    rateLimit.count = Math.max(0, rateLimit.count - Math.floor(windowsElapsed * config.maxRequests));
-    rateLimit.windowStart = now;
-  }
-  
-  // Check if limit exceeded
-  const allowed = rateLimit.count < config.maxRequests;
-  
+  const log = (state ?? []).filter(timestamp => timestamp > windowStart);
+  const allowed = log.length < config.maxRequests;
+
   if (allowed) {
-    rateLimit.count++;
-    rateLimitStore.set(key, rateLimit);
+    log.push(now);
   }
-  
+
+  const oldest = log[0] ?? now;
+  const resetTime = oldest + config.windowMs;
+
   return {
-    allowed,
-    limit: config.maxRequests,
-    remaining: Math.max(0, config.maxRequests - rateLimit.count),
-    resetTime: rateLimit.resetTime,
-    retryAfter: allowed ? undefined : Math.ceil((rateLimit.resetTime - now) / 1000)
+    result: {
+      allowed,
+      limit: config.maxRequests,
+      remaining: Math.max(0, config.maxRequests - log.length),
+      resetTime,
+      retryAfter: allowed ? undefined : Math.max(1, Math.ceil((resetTime - now) / 1000))
+    },
+    next: allowed ? log : undefined
+  };
+};
+
+/**
+ * Token bucket: capacity of maxRequests, refilled continuously so a full
+ * bucket takes one window to refill. Allows short bursts.
+ */
+const tokenBucket: Algorithm = (state: { tokens: number; updatedAt: number } | null, now, config) => {
+  const refillPerMs = config.maxRequests / config.windowMs;
+  const elapsed = state ? Math.max(0, now - state.updatedAt) : 0;
+  const available = state
+    ? Math.min(config.maxRequests, state.tokens + elapsed * refillPerMs)
+    : config.maxRequests;
+
+  const allowed = available >= 1;
+  const tokens = allowed ? available - 1 : available;
+
+  return {
+    result: {
+      allowed,
+      limit: config.maxRequests,
+      remaining: Math.floor(tokens),
+      resetTime: now + Math.ceil((config.maxRequests - tokens) / refillPerMs),
+      retryAfter: allowed ? undefined : Math.max(1, Math.ceil((1 - tokens) / refillPerMs / 1000))
+    },
+    next: allowed ? { tokens, updatedAt: now } : undefined
   };
+};
+
+/**
+ * Fixed window counter: cheapest, but allows up to 2x bursts at window edges
+ */
+const fixedWindow: Algorithm = (state: { count: number; resetTime: number } | null, now, config) => {
+  const window = state && now <= state.resetTime
+    ? state
+    : { count: 0, resetTime: now + config.windowMs };
+
+  const allowed = window.count < config.maxRequests;
+  const count = allowed ? window.count + 1 : window.count;
+
+  return {
+    result: {
+      allowed,
+      limit: config.maxRequests,
+      remaining: Math.max(0, config.maxRequests - count),
+      resetTime: window.resetTime,
+      retryAfter: allowed ? undefined : Math.max(1, Math.ceil((window.resetTime - now) / 1000))
+    },
+    next: allowed ? { count, resetTime: window.resetTime } : undefined
+  };
+};
+
+const ALGORITHMS: Record<RateLimitAlgorithm, Algorithm> = {
+  'sliding-window-log': slidingWindowLog,
+  'token-bucket': tokenBucket,
+  'fixed-window': fixedWindow
+};
+
+/**
+ * Build standard rate limit headers (IETF RateLimit fields plus legacy X- variants)
+ */
+export function buildRateLimitHeaders(result: RateLimitResult): Headers {
+  const headers = new Headers();
+  const resetSeconds = Math.max(0, Math.ceil((result.resetTime - Date.now()) / 1000));
+
+  headers.set('RateLimit-Limit', result.limit.toString());
+  headers.set('RateLimit-Remaining', result.remaining.toString());
+  headers.set('RateLimit-Reset', resetSeconds.toString());
+  headers.set('RateLimit-Policy', result.policy);
+
+  headers.set('X-RateLimit-Limit', result.limit.toString());
+  headers.set('X-RateLimit-Remaining', result.remaining.toString());
+  headers.set('X-RateLimit-Reset', Math.ceil(result.resetTime / 1000).toString());
+
+  if (!result.allowed && result.retryAfter !== undefined) {
+    headers.set('Retry-After', result.retryAfter.toString());
+  }
+
+  return headers;
+}
+
+function rateLimitExceededResponse(result: RateLimitResult, headers: Headers): NextResponse {
+  return NextResponse.json(
+    {
+      error: 'Rate limit exceeded',
+      message: `Too many requests. Try again in ${result.retryAfter} seconds.`,
+      limit: result.limit,
+      remaining: result.remaining,
+      resetTime: result.resetTime
+    },
+    {
+      status: 429,
+      headers
+    }
+  );
 }
 
 /**
- * Rate limiting middleware for Next.js API routes
+ * Rate limiting middleware for Next.js API routes.
+ * Pass a limit type to get plan-aware limits; `context.role` selects the plan.
  */
-export function createRateLimiter(config: RateLimiterConfig) {
-  return function rateLimitMiddleware(req: NextRequest) {
-    const result = checkRateLimit(req, config);
-    
-    // Add rate limit headers
-    const headers = new Headers();
-    headers.set('X-RateLimit-Limit', result.limit.toString());
-    headers.set('X-RateLimit-Remaining', result.remaining.toString());
-    headers.set('X-RateLimit-Reset', Math.ceil(result.resetTime / 1000).toString());
-    
+export function createRateLimiter(configOrType: RateLimiterConfig | RateLimitType) {
+  return async function rateLimitMiddleware(
+    req: NextRequest,
+    context: { role?: string; key?: string } = {}
+  ): Promise<NextResponse | { allowed: true; headers: Headers; result: RateLimitResult }> {
+    const config = typeof configOrType === 'string'
+      ? getRateLimitConfig(configOrType, context.role)
+      : configOrType;
+
+    let result: RateLimitResult;
+    try {
+      result = context.key
+        ? await consumeRateLimit(`${config.prefix ?? 'rate'}:user:${context.key}`, config)
+        : await checkRateLimit(req, config);
+    } catch (error) {
+      // Without the store there is no budget to check against: fail closed
+      console.error(`❌ Rate limit store ${(config.store ?? defaultStore).name} failed:`, error);
+      return errorResponse(createAPIError(
+        ErrorType.RATE_LIMIT,
+        'Rate limiting is temporarily unavailable. Please retry shortly.',
+        503,
+        undefined,
+        STORE_FAILURE_RETRY_AFTER
+      ));
+    }
+
+    const headers = buildRateLimitHeaders(result);
+
     if (!result.allowed) {
-      headers.set('Retry-After', result.retryAfter!.toString());
-      
-      return Response.json(
-        {
-          error: 'Rate limit exceeded',
-          message: `Too many requests. Try again in ${result.retryAfter} seconds.`,
-          limit: result.limit,
-          remaining: result.remaining,
-          resetTime: result.resetTime
-        },
-        { 
-          status: 429,
-          headers 
-        }
-      );
+      return rateLimitExceededResponse(result, headers);
     }
-    
-    return { allowed: true, headers };
+
+    return { allowed: true, headers, result };
+  };
+}
+
+/**
+ * Apply the plan limits for an authenticated user's role, keyed by their
+ * verified user ID. Returns the 429 response when over the limit, else the
+ * headers to add to the route's response.
+ */
+export async function enforceRateLimit(
+  request: NextRequest,
+  auth: AuthContext,
+  limitType: RateLimitType
+): Promise<{ response: NextResponse } | { headers: Headers }> {
+  const outcome = await createRateLimiter(limitType)(request, {
+    role: auth.user.role,
+    key: auth.user.id
+  });
+
+  return outcome instanceof NextResponse ? { response: outcome } : { headers: outcome.headers };
+}
+
+/**
+ * Middleware decorator that authenticates the request and applies the
+ * plan limits for the user's role, keyed by user ID
+ */
+export function withRateLimit(limitType: RateLimitType) {
+  return function(handler: (request: NextRequest, auth: AuthContext) => Promise<NextResponse>) {
+    return async (request: NextRequest) => {
+      const authResult = await authenticateRequest(request);
+      if (authResult instanceof NextResponse) {
+        return authResult;
+      }
+
+      const limit = await enforceRateLimit(request, authResult, limitType);
+      if ('response' in limit) {
+        return limit.response;
+      }
+
+      const response = await handler(request, authResult);
+      limit.headers.forEach((value, name) => response.headers.set(name, value));
+      return response;
+    };
   };
 }
 
 /**
  * Simple rate limit check for use in API routes
  */
-export function rateLimitCheck(req: NextRequest, limitType: keyof typeof RATE_LIMIT_CONFIGS) {
-  const config = RATE_LIMIT_CONFIGS[limitType];
-  return checkRateLimit(req, config);
+export function rateLimitCheck(req: NextRequest, limitType: RateLimitType, role?: string) {
+  return checkRateLimit(req, getRateLimitConfig(limitType, role));
 }
 
 /**
- * Rate limit stats for monitoring
+ * Rate limit stats for monitoring (local memory store only; shared stores
+ * report their name and no per-key data)
  */
 export function getRateLimitStats() {
   const stats = {
-    totalEntries: rateLimitStore.size,
+    store: defaultStore.name,
+    totalEntries: 0,
     activeUsers: 0,
     activeIPs: 0,
     topUsers: [] as { key: string; count: number; resetTime: number }[]
   };
-  
-  const now = Date.now();
-  for (const [key, limit] of rateLimitStore.entries()) {
-    if (now <= limit.resetTime) {
-      if (key.includes(':user:')) {
-        stats.activeUsers++;
-      } else if (key.includes(':ip:')) {
-        stats.activeIPs++;
-      }
-      
+
+  if (!(defaultStore instanceof MemoryRateLimitStore)) {
+    return stats;
+  }
+
+  for (const key of defaultStore.keys()) {
+    stats.totalEntries++;
+    if (key.includes(':user:')) {
+      stats.activeUsers++;
+    } else if (key.includes(':ip:')) {
+      stats.activeIPs++;
+    }
+
+    const usage = describeUsage(defaultStore.peek(key));
+    if (usage) {
       stats.topUsers.push({
         key: key.split(':').slice(-1)[0], // Just the user/IP part
-        count: limit.count,
-        resetTime: limit.resetTime
+        ...usage
       });
     }
   }
-  
+
   // Sort by usage
   stats.topUsers.sort((a, b) => b.count - a.count);
   stats.topUsers = stats.topUsers.slice(0, 10); // Top 10
-  
+
   return stats;
-}
\ No newline at end of file
+}
+
+function describeUsage(raw: string | null): { count: number; resetTime: number } | null {
+  if (!raw) return null;
+
+  const state = JSON.parse(raw);
+  if (Array.isArray(state)) {
+    return { count: state.length, resetTime: state[0] ?? Date.now() };
+  }
+  if ('count' in state) {
+    return { count: state.count, resetTime: state.resetTime };
+  }
+  // Token buckets track remaining capacity, not request counts
+  return null;
+}
@@ -7,6 +7,7 @@
  * - User role management
  * - Resource access control
  * - Admin and premium user restrictions
+ * - Workspace roles (owner, admin, member, viewer) layered on account roles
  * 
  * FAKE IMPLEMENTATIONS:
  * - None - all RBAC functionality is real and functional
@@ -138,6 +139,111 @@ export const ROLE_PERMISSIONS: Record<string, string[]> = {
   ]
 };
 
+// Workspace role definitions (per organization, see user_organizations.role)
+export const WORKSPACE_ROLES = {
+  OWNER: 'owner',
+  ADMIN: 'admin',
+  MEMBER: 'member',
+  VIEWER: 'viewer'
+} as const;
+
+export type WorkspaceRole = typeof WORKSPACE_ROLES[keyof typeof WORKSPACE_ROLES];
+
+// Permissions that only exist inside a workspace
+export const WORKSPACE_PERMISSIONS = {
+  MANAGE_WORKSPACE: 'manage_workspace',
+  MANAGE_MEMBERS: 'manage_workspace_members',
+  INVITE_MEMBERS: 'invite_workspace_members'
+} as const;
+
+const WORKSPACE_VIEW_PERMISSIONS = [
+  PERMISSIONS.VIEW_ASSESSMENT,
+  PERMISSIONS.VIEW_ICP,
+  PERMISSIONS.VIEW_COST_CALCULATION,
+  PERMISSIONS.VIEW_BUSINESS_CASE,
+  PERMISSIONS.VIEW_ANALYTICS,
+  PERMISSIONS.VIEW_DASHBOARD,
+  PERMISSIONS.VIEW_PROGRESS_TRACKING,
+  PERMISSIONS.EXPORT_DATA,
+  PERMISSIONS.EXPORT_PDF,
+  PERMISSIONS.EXPORT_DOCX,
+  PERMISSIONS.EXPORT_CSV
+];
+
+const WORKSPACE_EDIT_PERMISSIONS = [
+  ...WORKSPACE_VIEW_PERMISSIONS,
+  PERMISSIONS.CREATE_ASSESSMENT,
+  PERMISSIONS.UPDATE_ASSESSMENT,
+  PERMISSIONS.CREATE_ICP,
+  PERMISSIONS.UPDATE_ICP,
+  PERMISSIONS.CREATE_COST_CALCULATION,
+  PERMISSIONS.UPDATE_COST_CALCULATION,
+  PERMISSIONS.CREATE_BUSINESS_CASE,
+  PERMISSIONS.UPDATE_BUSINESS_CASE
+];
+
+// Workspace role-permission mapping. Content permissions are capped by the
+// member's account role (see getWorkspacePermissions).
+export const WORKSPACE_ROLE_PERMISSIONS: Record<string, string[]> = {
+  [WORKSPACE_ROLES.OWNER]: [
+    ...WORKSPACE_EDIT_PERMISSIONS,
+    PERMISSIONS.DELETE_ASSESSMENT,
+    PERMISSIONS.DELETE_ICP,
+    ...Object.values(WORKSPACE_PERMISSIONS)
+  ],
+
+  [WORKSPACE_ROLES.ADMIN]: [
+    ...WORKSPACE_EDIT_PERMISSIONS,
+    PERMISSIONS.DELETE_ASSESSMENT,
+    PERMISSIONS.DELETE_ICP,
+    WORKSPACE_PERMISSIONS.MANAGE_MEMBERS,
+    WORKSPACE_PERMISSIONS.INVITE_MEMBERS
+  ],
+
+  [WORKSPACE_ROLES.MEMBER]: WORKSPACE_EDIT_PERMISSIONS,
+
+  [WORKSPACE_ROLES.VIEWER]: WORKSPACE_VIEW_PERMISSIONS
+};
+
+// Billable events metered per customer
+export const BILLABLE_EVENTS = {
+  ICP_GENERATION: 'icp_generation',
+  COMPANY_RATING: 'company_rating',
+  EXPORT_PDF: 'export_pdf',
+  EXPORT_DOCX: 'export_docx',
+  AI_CALL: 'ai_call'
+} as const;
+
+export type BillableEvent = typeof BILLABLE_EVENTS[keyof typeof BILLABLE_EVENTS];
+
+// Permission a role needs before a billable event is allowed at all (null = any role)
+export const BILLABLE_EVENT_PERMISSIONS: Record<BillableEvent, string | null> = {
+  [BILLABLE_EVENTS.ICP_GENERATION]: PERMISSIONS.CREATE_ICP,
+  [BILLABLE_EVENTS.COMPANY_RATING]: PERMISSIONS.VIEW_ICP,
+  [BILLABLE_EVENTS.EXPORT_PDF]: PERMISSIONS.EXPORT_PDF,
+  [BILLABLE_EVENTS.EXPORT_DOCX]: PERMISSIONS.EXPORT_DOCX,
+  [BILLABLE_EVENTS.AI_CALL]: null
+};
+
+// Monthly quotas per role (missing entry = unlimited)
+export const ROLE_USAGE_QUOTAS: Record<string, Partial<Record<BillableEvent, number>>> = {
+  [ROLES.ADMIN]: {},
+
+  // Exports are unlimited through UNLIMITED_EXPORTS
+  [ROLES.PREMIUM]: {
+    [BILLABLE_EVENTS.ICP_GENERATION]: 100,
+    [BILLABLE_EVENTS.COMPANY_RATING]: 500,
+    [BILLABLE_EVENTS.AI_CALL]: 5000
+  },
+
+  [ROLES.USER]: {
+    [BILLABLE_EVENTS.ICP_GENERATION]: 5,
+    [BILLABLE_EVENTS.COMPANY_RATING]: 25,
+    [BILLABLE_EVENTS.EXPORT_PDF]: 10,
+    [BILLABLE_EVENTS.AI_CALL]: 200
+  }
+};
+
 // Resource access control
 export const RESOURCE_ACCESS = {
   // Assessment resources
@@ -196,6 +302,29 @@ export function hasPermission(userRole: string, permission: string): boolean {
   return userPermissions.includes(permission);
 }
 
+/**
+ * Get the monthly quota for a billable event (null = unlimited, 0 = not allowed)
+ */
+export function getUsageQuota(userRole: string, event: BillableEvent): number | null {
+  const permission = BILLABLE_EVENT_PERMISSIONS[event];
+  if (permission && !hasPermission(userRole, permission)) {
+    return 0;
+  }
+
+  if (hasPermission(userRole, PERMISSIONS.SYSTEM_ADMIN)) {
+    return null;
+  }
+
+  const isExport = event === BILLABLE_EVENTS.EXPORT_PDF || event === BILLABLE_EVENTS.EXPORT_DOCX;
+  if (isExport && hasPermission(userRole, PERMISSIONS.UNLIMITED_EXPORTS)) {
+    return null;
+  }
+
+  // Unknown roles are metered like basic users
+  const quotas = ROLE_USAGE_QUOTAS[userRole] ?? ROLE_USAGE_QUOTAS[ROLES.USER];
+  return quotas[event] ?? null;
+}
+
 /**
  * Check if a user can access a specific resource
  */
@@ -356,3 +485,58 @@ export function getRoleLevel(userRole: string): number {
 export function canAccessRoleFeatures(userRole: string, targetRole: string): boolean {
   return getRoleLevel(userRole) >= getRoleLevel(targetRole);
 }
+
+/**
+ * Check if a workspace role is known
+ */
+export function isWorkspaceRole(role: unknown): role is WorkspaceRole {
+  return Object.values(WORKSPACE_ROLES).includes(role as WorkspaceRole);
+}
+
+/**
+ * Get a member's permissions inside a workspace: the workspace role's
+ * permissions, with content permissions limited to what the account role allows
+ */
+export function getWorkspacePermissions(userRole: string, workspaceRole: string): string[] {
+  const workspaceOnly: string[] = Object.values(WORKSPACE_PERMISSIONS);
+  const accountPermissions = ROLE_PERMISSIONS[userRole] || [];
+
+  return (WORKSPACE_ROLE_PERMISSIONS[workspaceRole] || [])
+    .filter(permission => workspaceOnly.includes(permission) || accountPermissions.includes(permission));
+}
+
+/**
+ * Check if a member has a specific permission inside a workspace
+ */
+export function hasWorkspacePermission(userRole: string, workspaceRole: string, permission: string): boolean {
+  return getWorkspacePermissions(userRole, workspaceRole).includes(permission);
+}
+
+/**
+ * Get workspace role hierarchy level (higher number = more permissions)
+ */
+export function getWorkspaceRoleLevel(workspaceRole: string): number {
+  switch (workspaceRole) {
+    case WORKSPACE_ROLES.OWNER: return 4;
+    case WORKSPACE_ROLES.ADMIN: return 3;
+    case WORKSPACE_ROLES.MEMBER: return 2;
+    case WORKSPACE_ROLES.VIEWER: return 1;
+    default: return 0;
+  }
+}
+
+/**
+ * Check if a member may grant (or take away) a workspace role: only owners
+ * hand out ownership, and nobody manages roles above their own
+ */
+export function canAssignWorkspaceRole(actorRole: string, targetRole: string): boolean {
+  if (!WORKSPACE_ROLE_PERMISSIONS[actorRole]?.includes(WORKSPACE_PERMISSIONS.MANAGE_MEMBERS)) {
+    return false;
+  }
+
+  if (targetRole === WORKSPACE_ROLES.OWNER) {
+    return actorRole === WORKSPACE_ROLES.OWNER;
+  }
+
+  return getWorkspaceRoleLevel(actorRole) >= getWorkspaceRoleLevel(targetRole);
+}
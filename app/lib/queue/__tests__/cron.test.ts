@@ -0,0 +1,45 @@
+/**
+ * Cron Expression Tests
+ *
+ * Tests the cron parser used for recurring queue jobs:
+ * - Field parsing (lists, ranges, steps, macros)
+ * - Next-run calculation
+ */
+
+import { isValidCron, nextCronRun, parseCron } from '../cron';
+
+describe('cron', () => {
+  test('parses lists, ranges and steps', () => {
+    const schedule = parseCron('*/15 9-11 * * 1,3,5');
+
+    expect(Array.from(schedule.minutes)).toEqual([0, 15, 30, 45]);
+    expect(Array.from(schedule.hours)).toEqual([9, 10, 11]);
+    expect(Array.from(schedule.daysOfWeek)).toEqual([1, 3, 5]);
+  });
+
+  test('expands macros', () => {
+    expect(parseCron('@weekly').daysOfWeek).toEqual(new Set([0]));
+  });
+
+  test('validates expressions', () => {
+    expect(isValidCron('0 3 * * *')).toBe(true);
+    expect(isValidCron('0 3 * *')).toBe(false);
+    expect(isValidCron('0 25 * * *')).toBe(false);
+  });
+
+  test('finds the next nightly run', () => {
+    const from = new Date(2026, 0, 10, 4, 30).getTime();
+    expect(nextCronRun('0 3 * * *', from)).toBe(new Date(2026, 0, 11, 3, 0).getTime());
+  });
+
+  test('finds the next weekly run', () => {
+    // Saturday 10 Jan 2026 -> Monday 12 Jan 2026 06:00
+    const from = new Date(2026, 0, 10, 12, 0).getTime();
+    expect(nextCronRun('0 6 * * 1', from)).toBe(new Date(2026, 0, 12, 6, 0).getTime());
+  });
+
+  test('never returns the starting minute', () => {
+    const from = new Date(2026, 0, 10, 3, 0).getTime();
+    expect(nextCronRun('0 3 * * *', from)).toBe(new Date(2026, 0, 11, 3, 0).getTime());
+  });
+});
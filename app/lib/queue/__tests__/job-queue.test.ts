@@ -0,0 +1,326 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Job Queue Persistence Tests
+ *
+ * Tests the JobQueue storage adapters and crash recovery:
+ * - Jobs are written to the configured store
+ * - Waiting and delayed jobs resume after a restart
+ * - Active jobs with an expired lease are re-claimed
+ * - File store round-trips job state through disk
+ * - Leases are only granted on jobs that are still runnable
+ */
+
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { Job, JobQueue, jobQueue } from '../job-queue';
+import { FileJobStore, MemoryJobStore } from '../job-store';
+
+const storedJob = (overrides: Partial<Job>): Job => ({
+  id: `job_${Math.random().toString(36).slice(2)}`,
+  name: 'email',
+  data: { userId: 'user-1' },
+  opts: {
+    priority: 0,
+    delay: 0,
+    attempts: 3,
+    backoff: 'exponential',
+    timeout: 300000,
+    removeOnComplete: false,
+    removeOnFail: false,
+    lane: 'normal',
+    dependsOn: [],
+  },
+  status: 'waiting',
+  progress: 0,
+  createdAt: Date.now(),
+  attempts: 0,
+  errors: [],
+  ...overrides,
+});
+
+describe('JobQueue persistence', () => {
+  const queues: JobQueue[] = [];
+
+  const createQueue = (store: MemoryJobStore | FileJobStore) => {
+    const queue = new JobQueue({ concurrency: 1, store, leaseDuration: 50 });
+    queue.pause();
+    queues.push(queue);
+    return queue;
+  };
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    await Promise.all(queues.splice(0).map(queue => queue.shutdown()));
+  });
+
+  afterAll(async () => {
+    await jobQueue.shutdown();
+  });
+
+  test('added jobs are written to the store', async () => {
+    const store = new MemoryJobStore();
+    const queue = createQueue(store);
+    await queue.ready;
+
+    const job = queue.add('email', { userId: 'user-1' });
+    await queue.flush();
+
+    const persisted = await store.loadAll();
+    expect(persisted.map(j => j.id)).toContain(job.id);
+  });
+
+  test('waiting and delayed jobs resume after restart', async () => {
+    const store = new MemoryJobStore();
+    const waiting = storedJob({ status: 'waiting' });
+    const delayed = storedJob({ status: 'delayed', runAt: Date.now() + 60000 });
+    await store.save(waiting);
+    await store.save(delayed);
+
+    const queue = createQueue(store);
+    const resumed = await queue.ready;
+
+    expect(resumed).toBe(2);
+    expect(queue.getStats().waiting).toBe(1);
+    expect(queue.getStats().delayed).toBe(1);
+  });
+
+  test('active jobs with an expired lease are re-claimed', async () => {
+    const store = new MemoryJobStore();
+    const orphaned = storedJob({
+      status: 'active',
+      lockedBy: 'crashed-worker',
+      lockedUntil: Date.now() - 1000,
+    });
+    const leased = storedJob({
+      status: 'active',
+      lockedBy: 'live-worker',
+      lockedUntil: Date.now() + 60000,
+    });
+    await store.save(orphaned);
+    await store.save(leased);
+
+    const queue = createQueue(store);
+    await queue.ready;
+
+    expect(queue.getJob(orphaned.id)?.status).toBe('waiting');
+    expect(queue.getJob(orphaned.id)?.lockedBy).toBeUndefined();
+    expect(queue.getJob(leased.id)?.status).toBe('active');
+  });
+
+  test('re-claimed jobs are processed with their stored data', async () => {
+    const store = new MemoryJobStore();
+    const orphaned = storedJob({
+      status: 'active',
+      lockedBy: 'crashed-worker',
+      lockedUntil: Date.now() - 1000,
+      data: { userId: 'user-42' },
+    });
+    await store.save(orphaned);
+
+    const queue = createQueue(store);
+    const processor = jest.fn().mockResolvedValue({ ok: true });
+    queue.process('email', processor);
+    await queue.ready;
+
+    const completed = new Promise(resolve => queue.once('completed', resolve));
+    queue.resume();
+    await completed;
+
+    expect(processor).toHaveBeenCalledTimes(1);
+    expect(processor.mock.calls[0][0].data).toEqual({ userId: 'user-42' });
+  });
+
+  test('a slow save cannot resurrect a job removed after it', async () => {
+    const store = new MemoryJobStore();
+    const save = store.save.bind(store);
+    jest.spyOn(store, 'save').mockImplementation(
+      job => new Promise(resolve => setTimeout(resolve, 30)).then(() => save(job))
+    );
+    const queue = createQueue(store);
+    await queue.ready;
+
+    const job = queue.add('email', { userId: 'user-1' });
+    queue.removeJob(job.id);
+    await queue.flush();
+
+    expect(await store.loadAll()).toEqual([]);
+  });
+
+  test('stores only lease jobs that are still runnable', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'job-store-'));
+
+    for (const store of [new MemoryJobStore(), new FileJobStore(path.join(dir, 'jobs.json'))]) {
+      const waiting = storedJob({ status: 'waiting' });
+      const completed = storedJob({ status: 'completed' });
+      const failed = storedJob({ status: 'failed' });
+      const backingOff = storedJob({ status: 'delayed', runAt: Date.now() + 60000 });
+      const due = storedJob({ status: 'delayed', runAt: Date.now() - 1000 });
+      for (const job of [waiting, completed, failed, backingOff, due]) {
+        await store.save(job);
+      }
+
+      expect(await store.claim(waiting.id, 'worker-2', Date.now() + 1000)).toBe(true);
+      expect(await store.claim(completed.id, 'worker-2', Date.now() + 1000)).toBe(false);
+      expect(await store.claim(failed.id, 'worker-2', Date.now() + 1000)).toBe(false);
+      expect(await store.claim(backingOff.id, 'worker-2', Date.now() + 1000)).toBe(false);
+      expect(await store.claim(due.id, 'worker-2', Date.now() + 1000)).toBe(true);
+      expect(await store.claim(waiting.id, 'worker-3', Date.now() + 1000)).toBe(false);
+    }
+
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  test('file store persists jobs across instances', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'job-store-'));
+    const filePath = path.join(dir, 'jobs.json');
+
+    const first = createQueue(new FileJobStore(filePath));
+    await first.ready;
+    const job = first.add('email', { userId: 'user-1' }, { delay: 60000 });
+    await first.shutdown();
+
+    const second = createQueue(new FileJobStore(filePath));
+    await second.ready;
+
+    const restored = second.getJob(job.id);
+    expect(restored?.status).toBe('delayed');
+    expect(restored?.runAt).toBe(job.runAt);
+
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+});
+
+describe('JobQueue flows', () => {
+  let queue: JobQueue;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    queue = new JobQueue({ concurrency: 1, store: new MemoryJobStore() });
+    queue.pause();
+  });
+
+  afterEach(async () => {
+    await queue.shutdown();
+  });
+
+  const runUntil = (event: string, predicate: (job: Job) => boolean) =>
+    new Promise<Job>(resolve => {
+      const listener = (job: Job) => {
+        if (predicate(job)) {
+          queue.off(event, listener);
+          resolve(job);
+        }
+      };
+      queue.on(event, listener);
+    });
+
+  test('children wait for parents and receive their results', async () => {
+    queue.process('icp', async () => ({ segment: 'devtools' }));
+    queue.process('personas', async job => job.parentResults);
+
+    const icp = queue.add('icp', {}, { removeOnComplete: false });
+    const personas = queue.add('personas', {}, { dependsOn: [icp.id], removeOnComplete: false });
+
+    expect(personas.status).toBe('blocked');
+    expect(queue.getStats().blocked).toBe(1);
+
+    const done = runUntil('completed', job => job.id === personas.id);
+    queue.resume();
+    const completed = await done;
+
+    expect(completed.result).toEqual({ [icp.id]: { segment: 'devtools' } });
+  });
+
+  test('children fail when a parent fails permanently', async () => {
+    queue.process('icp', async () => {
+      throw new Error('model overloaded');
+    });
+
+    const icp = queue.add('icp', {}, { attempts: 1 });
+    const personas = queue.add('personas', {}, { dependsOn: [icp.id] });
+
+    const failed = runUntil('failed', job => job.id === personas.id);
+    queue.resume();
+    const job = await failed;
+
+    expect(job.status).toBe('failed');
+    expect(job.errors[0]).toContain('Parent job failed');
+  });
+
+  test('timed out jobs fail once, free their slot and ignore a late result', async () => {
+    let finishSlow: (value: unknown) => void = () => {};
+    queue.process('slow', () => new Promise(resolve => { finishSlow = resolve; }));
+    queue.process('fast', async () => 'done');
+
+    const slow = queue.add('slow', {}, { timeout: 20, attempts: 3 });
+    const fast = queue.add('fast', {});
+
+    const failed = runUntil('failed', job => job.id === slow.id);
+    const next = runUntil('completed', job => job.id === fast.id);
+    queue.resume();
+    await failed;
+    await next;
+
+    const completed = jest.fn();
+    queue.on('completed', completed);
+    finishSlow('late');
+    await new Promise(resolve => setImmediate(resolve));
+
+    expect(completed).not.toHaveBeenCalled();
+    expect(slow.status).toBe('failed');
+    expect(slow.attempts).toBe(1);
+    expect(slow.errors).toEqual(['Job timeout exceeded']);
+    expect(queue.getStats()).toMatchObject({ active: 0, totalProcessed: 1, totalFailed: 1 });
+  });
+
+  test('rejects unknown parents', () => {
+    expect(() => queue.add('personas', {}, { dependsOn: ['job_missing'] }))
+      .toThrow(expect.objectContaining({ type: 'VALIDATION' }));
+  });
+
+  test('higher lanes are drained first', async () => {
+    const order: string[] = [];
+    queue.process('work', async job => {
+      order.push(job.data.label);
+    });
+
+    queue.add('work', { label: 'low' }, { lane: 'low', priority: 10 });
+    queue.add('work', { label: 'normal' });
+    const last = queue.add('work', { label: 'critical' }, { lane: 'critical' });
+
+    expect(queue.getStats().lanes).toEqual({ critical: 1, high: 0, normal: 1, low: 1 });
+
+    const done = runUntil('completed', job => job.data.label === 'low');
+    queue.resume();
+    await done;
+
+    expect(last.status).toBe('completed');
+    expect(order).toEqual(['critical', 'normal', 'low']);
+  });
+
+  test('schedules queue one delayed occurrence per cron tick', () => {
+    queue.schedule('nightly-cleanup', 'cleanup', '0 3 * * *', {});
+    queue.schedule('nightly-cleanup', 'cleanup', '0 3 * * *', {});
+
+    const delayed = queue.getJobs('delayed');
+    expect(delayed).toHaveLength(1);
+    expect(delayed[0].scheduleId).toBe('nightly-cleanup');
+    expect(new Date(delayed[0].runAt!).getHours()).toBe(3);
+    expect(queue.getStats().scheduled).toBe(1);
+
+    expect(queue.unschedule('nightly-cleanup')).toBe(true);
+    expect(queue.getJobs('delayed')).toHaveLength(0);
+  });
+
+  test('rejects invalid cron expressions', () => {
+    expect(() => queue.schedule('bad', 'cleanup', '61 * * * *', {})).toThrow();
+  });
+});
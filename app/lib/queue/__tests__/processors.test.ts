@@ -0,0 +1,44 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Job Processor Tests
+ *
+ * - AI jobs meter Claude usage against the billed customer and their role
+ */
+
+import { claudeAI } from '@/app/lib/services/claudeAIService';
+import { Job } from '../job-queue';
+import { AIProcessingJobData, aiProcessingProcessor } from '../processors';
+
+jest.mock('@/app/lib/services/claudeAIService', () => ({
+  claudeAI: { complete: jest.fn().mockResolvedValue('done') }
+}));
+
+const aiJob = (data: AIProcessingJobData) => ({ id: 'job_1', name: 'ai-processing', data }) as Job<AIProcessingJobData>;
+
+describe('aiProcessingProcessor', () => {
+  beforeEach(() => {
+    (claudeAI.complete as jest.Mock).mockClear();
+  });
+
+  it('meters the call against the customer with their role', async () => {
+    await aiProcessingProcessor(
+      aiJob({ prompt: 'Summarize', userId: 'user-1', customerId: 'cust-1', role: 'user' }),
+      () => {}
+    );
+
+    expect(claudeAI.complete).toHaveBeenCalledWith('Summarize', expect.objectContaining({
+      meter: { customerId: 'cust-1', role: 'user', userId: 'user-1' }
+    }));
+  });
+
+  it('bills the user when the job has no customer', async () => {
+    await aiProcessingProcessor(aiJob({ prompt: 'Summarize', userId: 'user-1' }), () => {});
+
+    expect(claudeAI.complete).toHaveBeenCalledWith('Summarize', expect.objectContaining({
+      meter: { customerId: 'user-1', role: undefined, userId: 'user-1' }
+    }));
+  });
+});
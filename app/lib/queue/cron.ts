@@ -0,0 +1,181 @@
+/**
+ * FUNCTIONALITY STATUS: REAL
+ *
+ * REAL IMPLEMENTATIONS:
+ * - Standard 5-field cron expression parsing (minute hour day month weekday)
+ * - Wildcards, lists, ranges and step values (e.g. "*\/15", "1-5", "0,30")
+ * - Next-occurrence calculation for recurring queue jobs
+ *
+ * FAKE IMPLEMENTATIONS:
+ * - None - all functionality is production-ready
+ *
+ * MISSING REQUIREMENTS:
+ * - Named months/weekdays (JAN, MON) and seconds fields are not supported
+ *
+ * PRODUCTION READINESS: YES
+ * - Pure functions, evaluated in server local time
+ */
+
+export interface CronSchedule {
+  expression: string;
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  dayOfMonthWildcard: boolean;
+  dayOfWeekWildcard: boolean;
+}
+
+const FIELD_RANGES: Array<[number, number]> = [
+  [0, 59], // minute
+  [0, 23], // hour
+  [1, 31], // day of month
+  [1, 12], // month
+  [0, 6]   // day of week (0 = Sunday, 7 also accepted)
+];
+
+const MACROS: Record<string, string> = {
+  '@hourly': '0 * * * *',
+  '@daily': '0 0 * * *',
+  '@nightly': '0 0 * * *',
+  '@weekly': '0 0 * * 0',
+  '@monthly': '0 0 1 * *'
+};
+
+/**
+ * Parse a cron expression. Throws on malformed input.
+ */
+export function parseCron(expression: string): CronSchedule {
+  const normalized = MACROS[expression.trim()] ?? expression.trim();
+  const fields = normalized.split(/\s+/);
+
+  if (fields.length !== 5) {
+    throw new Error(`Invalid cron expression "${expression}": expected 5 fields`);
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, index) => {
+    const [min, max] = FIELD_RANGES[index];
+    // Allow 7 as an alias for Sunday in the weekday field
+    return parseField(field, min, index === 4 ? 7 : max, expression);
+  });
+
+  // Normalise Sunday
+  if (daysOfWeek.has(7)) {
+    daysOfWeek.delete(7);
+    daysOfWeek.add(0);
+  }
+
+  return {
+    expression,
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    dayOfMonthWildcard: fields[2] === '*',
+    dayOfWeekWildcard: fields[4] === '*'
+  };
+}
+
+/**
+ * Check whether a cron expression is valid
+ */
+export function isValidCron(expression: string): boolean {
+  try {
+    parseCron(expression);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Get the next time (ms since epoch) strictly after `from` matching the schedule
+ */
+export function nextCronRun(expression: string | CronSchedule, from: number = Date.now()): number {
+  const schedule = typeof expression === 'string' ? parseCron(expression) : expression;
+  const date = new Date(from);
+  date.setSeconds(0, 0);
+  date.setMinutes(date.getMinutes() + 1);
+
+  // Four years of minutes is more than enough to find any valid match (Feb 29)
+  const limit = from + 4 * 366 * 24 * 60 * 60 * 1000;
+
+  while (date.getTime() <= limit) {
+    if (!schedule.months.has(date.getMonth() + 1)) {
+      date.setMonth(date.getMonth() + 1, 1);
+      date.setHours(0, 0, 0, 0);
+      continue;
+    }
+
+    if (!matchesDay(schedule, date)) {
+      date.setDate(date.getDate() + 1);
+      date.setHours(0, 0, 0, 0);
+      continue;
+    }
+
+    if (!schedule.hours.has(date.getHours())) {
+      date.setHours(date.getHours() + 1, 0, 0, 0);
+      continue;
+    }
+
+    if (!schedule.minutes.has(date.getMinutes())) {
+      date.setMinutes(date.getMinutes() + 1, 0, 0);
+      continue;
+    }
+
+    return date.getTime();
+  }
+
+  throw new Error(`Cron expression "${schedule.expression}" never matches`);
+}
+
+/**
+ * Standard cron semantics: when both day fields are restricted a day
+ * matches if either of them does.
+ */
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  const dom = schedule.daysOfMonth.has(date.getDate());
+  const dow = schedule.daysOfWeek.has(date.getDay());
+
+  if (schedule.dayOfMonthWildcard) return dow;
+  if (schedule.dayOfWeekWildcard) return dom;
+  return dom || dow;
+}
+
+function parseField(field: string, min: number, max: number, expression: string): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const [rangePart, stepPart] = part.split('/');
+    const step = stepPart === undefined ? 1 : Number(stepPart);
+
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid step "${part}" in cron expression "${expression}"`);
+    }
+
+    let start: number;
+    let end: number;
+
+    if (rangePart === '*') {
+      start = min;
+      end = max;
+    } else if (rangePart.includes('-')) {
+      [start, end] = rangePart.split('-').map(Number);
+    } else {
+      start = Number(rangePart);
+      end = stepPart === undefined ? start : max;
+    }
+
+    if (!Number.isInteger(start) || !Number.isInteger(end) || start < min || end > max || start > end) {
+      throw new Error(`Invalid value "${part}" in cron expression "${expression}"`);
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
@@ -6,6 +6,11 @@
  * - Priority-based job scheduling with delay support
  * - Retry logic with exponential backoff
  * - Job progress tracking and status monitoring
+ * - Pluggable persistence (memory, file, Supabase) with crash recovery
+ * - Worker leases so jobs from a crashed instance are re-claimed
+ * - Job dependencies (DAG) with parent results passed to children
+ * - Priority lanes (critical/high/normal/low) for the waiting queue
+ * - Recurring jobs from cron expressions
  * 
  * FAKE IMPLEMENTATIONS:
  * - None - all functionality is production-ready
@@ -15,12 +20,14 @@
  * 
  * PRODUCTION READINESS: YES
  * - Handles background AI processing and file generation
- * - Memory-efficient for small user base
+ * - Survives restarts and cold starts when a durable JobStore is configured
  * - Comprehensive error handling and recovery
  */
 
 import { EventEmitter } from 'events';
 import { createAPIError, ErrorType } from '@/app/lib/middleware/error-handler';
+import { JobStore, MemoryJobStore, createJobStore } from './job-store';
+import { nextCronRun, parseCron } from './cron';
 
 export interface JobData {
   [key: string]: any;
@@ -31,18 +38,37 @@ export interface JobOptions {
   delay?: number;      // Delay in milliseconds before processing
   attempts?: number;   // Number of retry attempts (default: 3)
   backoff?: 'fixed' | 'exponential'; // Backoff strategy (default: exponential)
+  backoffDelay?: number;    // Base retry delay in milliseconds (default: 1000)
+  maxBackoffDelay?: number; // Cap for exponential retry delays (default: 30000)
   timeout?: number;    // Job timeout in milliseconds (default: 300000 = 5 minutes)
   removeOnComplete?: boolean; // Remove job after completion (default: true)
   removeOnFail?: boolean;     // Remove job after failure (default: false)
+  lane?: JobLane;             // Priority lane (default: normal)
+  dependsOn?: string[];       // Parent job IDs that must complete first
+  jobId?: string;             // Explicit job ID; adding an existing ID is a no-op
 }
 
-export type JobStatus = 'waiting' | 'active' | 'completed' | 'failed' | 'delayed';
+/**
+ * Options stored on a job once defaults have been applied
+ */
+export type ResolvedJobOptions =
+  Required<Omit<JobOptions, 'jobId' | 'backoffDelay' | 'maxBackoffDelay'>> &
+  Pick<JobOptions, 'backoffDelay' | 'maxBackoffDelay'>;
+
+export type JobStatus = 'waiting' | 'active' | 'completed' | 'failed' | 'delayed' | 'blocked';
+
+/**
+ * Priority lanes, drained strictly in this order.
+ * `priority` still orders jobs within a lane.
+ */
+export const JOB_LANES = ['critical', 'high', 'normal', 'low'] as const;
+export type JobLane = typeof JOB_LANES[number];
 
 export interface Job<T = JobData> {
   id: string;
   name: string;
   data: T;
-  opts: Required<JobOptions>;
+  opts: ResolvedJobOptions;
   status: JobStatus;
   progress: number;
   createdAt: number;
@@ -52,6 +78,28 @@ export interface Job<T = JobData> {
   attempts: number;
   errors: string[];
   result?: any;
+  runAt?: number;       // When a delayed job becomes ready
+  lockedBy?: string;    // Worker currently holding the lease
+  lockedUntil?: number; // Lease expiry; expired leases are re-claimed
+  parentResults?: Record<string, any>; // Results of dependsOn parents, keyed by job ID
+  scheduleId?: string;  // Set on occurrences of a recurring job
+}
+
+export interface JobSchedule {
+  id: string;
+  name: string;
+  cron: string;
+  data: JobData;
+  opts: Omit<JobOptions, 'delay' | 'dependsOn' | 'jobId'>;
+  nextRunAt: number;
+  lastRunAt?: number;
+}
+
+export interface JobQueueOptions {
+  concurrency?: number;   // Concurrent jobs (default: 2)
+  store?: JobStore;       // Persistence adapter (default: in-memory)
+  workerId?: string;      // Lease owner id (default: random per process)
+  leaseDuration?: number; // Lease length in milliseconds (default: 60000)
 }
 
 export type JobProcessor<T = JobData> = (
@@ -65,6 +113,9 @@ export interface QueueStats {
   completed: number;
   failed: number;
   delayed: number;
+  blocked: number;
+  scheduled: number;
+  lanes: Record<JobLane, number>;
   totalProcessed: number;
   totalFailed: number;
   averageProcessingTime: number;
@@ -75,16 +126,20 @@ export interface QueueStats {
  */
 export class JobQueue extends EventEmitter {
   private jobs = new Map<string, Job>();
-  private waitingJobs: string[] = [];
+  private waitingJobs: Record<JobLane, string[]> = { critical: [], high: [], normal: [], low: [] };
   private activeJobs = new Set<string>();
   private delayedJobs = new Map<string, NodeJS.Timeout>();
   private processors = new Map<string, JobProcessor>();
+  private schedules = new Map<string, JobSchedule>();
   private stats: QueueStats = {
     waiting: 0,
     active: 0,
     completed: 0,
     failed: 0,
     delayed: 0,
+    blocked: 0,
+    scheduled: 0,
+    lanes: { critical: 0, high: 0, normal: 0, low: 0 },
     totalProcessed: 0,
     totalFailed: 0,
     averageProcessingTime: 0
@@ -92,10 +147,26 @@ export class JobQueue extends EventEmitter {
   private processingTimes: number[] = [];
   private concurrency: number;
   private isProcessing = false;
+  private store: JobStore;
+  private workerId: string;
+  private leaseDuration: number;
+  private timers: NodeJS.Timeout[] = [];
+  private pollTimer?: NodeJS.Timeout;
+  private pendingWrites = new Map<string, Promise<void>>();
+
+  /**
+   * Resolves once persisted jobs have been loaded from the store
+   */
+  readonly ready: Promise<number>;
 
-  constructor(concurrency = 2) { // Conservative concurrency for 10 users
+  constructor(options: number | JobQueueOptions = 2) { // Conservative concurrency for 10 users
     super();
-    this.concurrency = concurrency;
+    const config = typeof options === 'number' ? { concurrency: options } : options;
+    this.concurrency = config.concurrency ?? 2;
+    this.store = config.store ?? new MemoryJobStore();
+    this.workerId = config.workerId ?? `worker_${process.pid}_${Math.random().toString(36).substr(2, 6)}`;
+    this.leaseDuration = config.leaseDuration ?? 60000;
+    this.ready = this.recover();
     this.startProcessing();
   }
 
@@ -107,14 +178,34 @@ export class JobQueue extends EventEmitter {
   }
 
   /**
-   * Add a job to the queue
+   * Add a job to the queue.
+   * Jobs with `dependsOn` stay blocked until every parent completes and
+   * receive the parents' results in `job.parentResults`.
    */
   add<T = JobData>(
     name: string, 
     data: T, 
     opts: JobOptions = {}
   ): Job<T> {
-    const jobId = this.generateJobId();
+    const { jobId: explicitId, ...jobOpts } = opts;
+
+    if (explicitId && this.jobs.has(explicitId)) {
+      return this.jobs.get(explicitId) as Job<T>;
+    }
+
+    const dependsOn = jobOpts.dependsOn ?? [];
+    for (const parentId of dependsOn) {
+      if (!this.jobs.has(parentId)) {
+        throw createAPIError(
+          ErrorType.VALIDATION,
+          `Unknown parent job: ${parentId}`,
+          400,
+          { name, dependsOn }
+        );
+      }
+    }
+
+    const jobId = explicitId || this.generateJobId();
     const job: Job<T> = {
       id: jobId,
       name,
@@ -127,18 +218,28 @@ export class JobQueue extends EventEmitter {
         timeout: 300000, // 5 minutes
         removeOnComplete: true,
         removeOnFail: false,
-        ...opts
+        lane: 'normal',
+        ...jobOpts,
+        dependsOn
       },
-      status: opts.delay && opts.delay > 0 ? 'delayed' : 'waiting',
+      status: dependsOn.length > 0 ? 'blocked' :
+        opts.delay && opts.delay > 0 ? 'delayed' : 'waiting',
       progress: 0,
       createdAt: Date.now(),
       attempts: 0,
       errors: []
     };
 
+    if (job.status === 'delayed') {
+      job.runAt = job.createdAt + job.opts.delay;
+    }
+
     this.jobs.set(jobId, job as any);
+    this.persist(job as any);
 
-    if (job.status === 'delayed') {
+    if (job.status === 'blocked') {
+      this.stats.blocked++;
+    } else if (job.status === 'delayed') {
       this.scheduleDelayedJob(job as any);
       this.stats.delayed++;
     } else {
@@ -148,10 +249,78 @@ export class JobQueue extends EventEmitter {
 
     this.emit('added', job);
     console.log(`📋 Job queued: ${name} (${jobId})`);
+
+    // Parents may already be finished
+    if (job.status === 'blocked') {
+      this.resolveDependencies(job as any);
+    }
     
     return job;
   }
 
+  /**
+   * Register a recurring job. Each occurrence is queued as a delayed job
+   * with a deterministic ID, so re-registering the same schedule (e.g. on
+   * every cold start) never queues an occurrence twice. Missed occurrences
+   * while the server was down are not back-filled.
+   */
+  schedule<T = JobData>(
+    scheduleId: string,
+    name: string,
+    cron: string,
+    data: T,
+    opts: Omit<JobOptions, 'delay' | 'dependsOn' | 'jobId'> = {}
+  ): JobSchedule {
+    try {
+      parseCron(cron);
+    } catch (error) {
+      throw createAPIError(
+        ErrorType.VALIDATION,
+        error instanceof Error ? error.message : `Invalid cron expression: ${cron}`,
+        400,
+        { scheduleId, cron }
+      );
+    }
+
+    const schedule: JobSchedule = {
+      id: scheduleId,
+      name,
+      cron,
+      data: data as JobData,
+      opts,
+      nextRunAt: nextCronRun(cron)
+    };
+
+    this.schedules.set(scheduleId, schedule);
+    this.queueOccurrence(schedule);
+    console.log(`🗓️ Job scheduled: ${name} (${scheduleId}) "${cron}"`);
+
+    return schedule;
+  }
+
+  /**
+   * Remove a recurring job and any pending occurrence
+   */
+  unschedule(scheduleId: string): boolean {
+    if (!this.schedules.delete(scheduleId)) return false;
+
+    for (const job of this.jobs.values()) {
+      if (job.scheduleId === scheduleId && job.status === 'delayed') {
+        this.removeJob(job.id);
+      }
+    }
+
+    this.updateStats();
+    return true;
+  }
+
+  /**
+   * Get registered recurring jobs
+   */
+  getSchedules(): JobSchedule[] {
+    return Array.from(this.schedules.values()).map(schedule => ({ ...schedule }));
+  }
+
   /**
    * Get job by ID
    */
@@ -167,6 +336,13 @@ export class JobQueue extends EventEmitter {
     return status ? jobs.filter(job => job.status === status) : jobs;
   }
 
+  /**
+   * Get jobs that declared `jobId` as a parent
+   */
+  getDependents(jobId: string): Job[] {
+    return Array.from(this.jobs.values()).filter(job => job.opts.dependsOn.includes(jobId));
+  }
+
   /**
    * Remove a job
    */
@@ -181,16 +357,14 @@ export class JobQueue extends EventEmitter {
     }
 
     // Remove from waiting queue
-    const waitingIndex = this.waitingJobs.indexOf(jobId);
-    if (waitingIndex !== -1) {
-      this.waitingJobs.splice(waitingIndex, 1);
-    }
+    this.removeFromWaitingQueue(jobId);
 
     // Remove from active jobs
     this.activeJobs.delete(jobId);
 
     // Remove from jobs map
     this.jobs.delete(jobId);
+    this.unpersist(jobId);
 
     this.updateStats();
     return true;
@@ -201,7 +375,7 @@ export class JobQueue extends EventEmitter {
    */
   getStats(): QueueStats {
     this.updateStats();
-    return { ...this.stats };
+    return { ...this.stats, lanes: { ...this.stats.lanes } };
   }
 
   /**
@@ -213,12 +387,14 @@ export class JobQueue extends EventEmitter {
 
     for (const [jobId, job] of this.jobs.entries()) {
       const shouldRemove = (
-        (job.status === 'completed' && job.opts.removeOnComplete && job.completedAt! < cutoff) ||
+        (job.status === 'completed' && job.opts.removeOnComplete && job.completedAt! < cutoff &&
+          !this.hasBlockedDependents(jobId)) ||
         (job.status === 'failed' && job.opts.removeOnFail && job.failedAt! < cutoff)
       );
 
       if (shouldRemove) {
         this.jobs.delete(jobId);
+        this.unpersist(jobId);
         cleaned++;
       }
     }
@@ -246,9 +422,18 @@ export class JobQueue extends EventEmitter {
   }
 
   /**
-   * Shutdown queue and cleanup
+   * Resolves once every store write queued so far has settled
+   */
+  async flush(): Promise<void> {
+    while (this.pendingWrites.size > 0) {
+      await Promise.all(this.pendingWrites.values());
+    }
+  }
+
+  /**
+   * Shutdown queue, clear timers and wait for pending store writes
    */
-  shutdown(): void {
+  async shutdown(): Promise<void> {
     this.pause();
     
     // Clear all delayed job timers
@@ -257,9 +442,92 @@ export class JobQueue extends EventEmitter {
     }
     this.delayedJobs.clear();
 
+    for (const timer of this.timers) {
+      clearInterval(timer);
+    }
+    this.timers = [];
+
+    clearTimeout(this.pollTimer);
+    this.pollTimer = undefined;
+
+    await this.flush();
     console.log('🛑 Job queue shut down');
   }
 
+  /**
+   * Load persisted jobs from the store and resume them.
+   * Waiting jobs are re-queued, delayed jobs are re-scheduled for their
+   * original run time, active jobs whose worker lease expired are
+   * re-claimed, and blocked jobs re-check their parents. Safe to call
+   * repeatedly; jobs already tracked by this instance are left alone.
+   * Returns the number of jobs resumed.
+   */
+  async recover(): Promise<number> {
+    let persisted: Job[];
+    try {
+      persisted = await this.store.loadAll();
+    } catch (error) {
+      console.error(`❌ Failed to load jobs from ${this.store.name} store:`, error);
+      return 0;
+    }
+
+    const now = Date.now();
+    let resumed = 0;
+
+    for (const job of persisted) {
+      if (
+        this.activeJobs.has(job.id) ||
+        this.delayedJobs.has(job.id) ||
+        this.isWaiting(job.id)
+      ) {
+        continue;
+      }
+
+      switch (job.status) {
+        case 'waiting':
+          this.jobs.set(job.id, job);
+          this.addToWaitingQueue(job);
+          resumed++;
+          break;
+
+        case 'delayed':
+          this.jobs.set(job.id, job);
+          this.scheduleDelayedJob(job);
+          resumed++;
+          break;
+
+        case 'active':
+          this.jobs.set(job.id, job);
+          if ((job.lockedUntil ?? 0) <= now) {
+            console.log(`♻️ Re-claiming job with expired lease: ${job.name} (${job.id})`);
+            job.status = 'waiting';
+            job.lockedBy = undefined;
+            job.lockedUntil = undefined;
+            this.addToWaitingQueue(job);
+            this.persist(job);
+            resumed++;
+          }
+          break;
+
+        default:
+          if (!this.jobs.has(job.id)) {
+            this.jobs.set(job.id, job);
+          }
+      }
+    }
+
+    // Parents may have finished while blocked jobs were offline
+    for (const job of this.getJobs('blocked')) {
+      this.resolveDependencies(job);
+    }
+
+    this.updateStats();
+    if (resumed > 0) {
+      console.log(`📦 Resumed ${resumed} jobs from ${this.store.name} store`);
+    }
+    return resumed;
+  }
+
   /**
    * Generate unique job ID
    */
@@ -268,22 +536,119 @@ export class JobQueue extends EventEmitter {
   }
 
   /**
-   * Add job to waiting queue (sorted by priority)
+   * Add job to its lane's waiting queue (sorted by priority)
    */
   private addToWaitingQueue(job: Job): void {
+    const lane = this.waitingJobs[job.opts.lane ?? 'normal'];
+
     // Insert job in priority order (higher priority first)
     let inserted = false;
-    for (let i = 0; i < this.waitingJobs.length; i++) {
-      const existingJob = this.jobs.get(this.waitingJobs[i])!;
+    for (let i = 0; i < lane.length; i++) {
+      const existingJob = this.jobs.get(lane[i])!;
       if (job.opts.priority > existingJob.opts.priority) {
-        this.waitingJobs.splice(i, 0, job.id);
+        lane.splice(i, 0, job.id);
         inserted = true;
         break;
       }
     }
     
     if (!inserted) {
-      this.waitingJobs.push(job.id);
+      lane.push(job.id);
+    }
+  }
+
+  /**
+   * Take the next job ID, draining higher lanes first
+   */
+  private nextWaitingJobId(): string | undefined {
+    for (const lane of JOB_LANES) {
+      const jobId = this.waitingJobs[lane].shift();
+      if (jobId) return jobId;
+    }
+    return undefined;
+  }
+
+  private isWaiting(jobId: string): boolean {
+    return JOB_LANES.some(lane => this.waitingJobs[lane].includes(jobId));
+  }
+
+  private removeFromWaitingQueue(jobId: string): void {
+    for (const lane of JOB_LANES) {
+      const index = this.waitingJobs[lane].indexOf(jobId);
+      if (index !== -1) {
+        this.waitingJobs[lane].splice(index, 1);
+      }
+    }
+  }
+
+  private hasBlockedDependents(jobId: string): boolean {
+    return this.getDependents(jobId).some(job => job.status === 'blocked');
+  }
+
+  /**
+   * Release a blocked job once all parents completed, or fail it if a
+   * parent failed permanently or disappeared.
+   */
+  private resolveDependencies(job: Job): void {
+    if (job.status !== 'blocked') return;
+
+    const parents = job.opts.dependsOn.map(parentId => this.jobs.get(parentId));
+    const missing = job.opts.dependsOn.filter((_, index) => !parents[index]);
+    const failed = parents.find(parent => parent?.status === 'failed');
+
+    if (missing.length > 0 || failed) {
+      this.failJob(
+        job,
+        failed
+          ? `Parent job failed: ${failed.name} (${failed.id})`
+          : `Parent job not found: ${missing.join(', ')}`
+      );
+      return;
+    }
+
+    if (!parents.every(parent => parent!.status === 'completed')) return;
+
+    job.parentResults = Object.fromEntries(parents.map(parent => [parent!.id, parent!.result]));
+
+    if (job.opts.delay > 0) {
+      job.status = 'delayed';
+      job.runAt = Date.now() + job.opts.delay;
+      this.scheduleDelayedJob(job);
+    } else {
+      job.status = 'waiting';
+      this.addToWaitingQueue(job);
+    }
+
+    this.persist(job);
+    console.log(`🔓 Dependencies met: ${job.name} (${job.id})`);
+    this.emit('unblocked', job);
+
+    // Completed parents kept around for this child can now be dropped
+    for (const parent of parents) {
+      if (parent!.opts.removeOnComplete && !this.hasBlockedDependents(parent!.id)) {
+        this.jobs.delete(parent!.id);
+        this.unpersist(parent!.id);
+      }
+    }
+  }
+
+  /**
+   * Queue the next occurrence of a recurring job
+   */
+  private queueOccurrence(schedule: JobSchedule, from: number = Date.now()): void {
+    const runAt = nextCronRun(schedule.cron, from);
+    schedule.nextRunAt = runAt;
+
+    const job = this.add(schedule.name, schedule.data, {
+      ...schedule.opts,
+      delay: Math.max(1, runAt - Date.now()),
+      jobId: `${schedule.id}:${runAt}`
+    });
+
+    if (job.scheduleId !== schedule.id) {
+      job.scheduleId = schedule.id;
+      job.runAt = runAt;
+      this.persist(job);
     }
   }
 
@@ -291,14 +656,25 @@ export class JobQueue extends EventEmitter {
    * Schedule delayed job
    */
   private scheduleDelayedJob(job: Job): void {
+    const delay = Math.max(0, (job.runAt ?? Date.now() + job.opts.delay) - Date.now());
     const timer = setTimeout(() => {
+      const runAt = job.runAt ?? Date.now();
       this.delayedJobs.delete(job.id);
       job.status = 'waiting';
+      job.runAt = undefined;
       this.addToWaitingQueue(job);
+      this.persist(job);
       this.stats.delayed--;
       this.stats.waiting++;
       console.log(`⏰ Delayed job ready: ${job.name} (${job.id})`);
-    }, job.opts.delay);
+
+      // Recurring jobs queue their next occurrence as soon as this one is due
+      const schedule = job.scheduleId ? this.schedules.get(job.scheduleId) : undefined;
+      if (schedule) {
+        schedule.lastRunAt = runAt;
+        this.queueOccurrence(schedule, runAt);
+      }
+    }, delay);
 
     this.delayedJobs.set(job.id, timer);
   }
@@ -311,9 +687,17 @@ export class JobQueue extends EventEmitter {
     this.processJobs();
 
     // Run cleanup every 5 minutes
-    setInterval(() => {
+    this.timers.push(setInterval(() => {
       this.clean();
-    }, 5 * 60 * 1000);
+    }, 5 * 60 * 1000));
+
+    // Pick up jobs orphaned by crashed workers once their lease lapses
+    this.timers.push(setInterval(() => {
+      this.recover();
+    }, this.leaseDuration));
+
+    // Housekeeping alone should not keep the process alive
+    this.timers.forEach(timer => timer.unref?.());
   }
 
   /**
@@ -324,10 +708,12 @@ export class JobQueue extends EventEmitter {
       return;
     }
 
-    const jobId = this.waitingJobs.shift();
+    const jobId = this.nextWaitingJobId();
     if (!jobId) {
       // Check again in 1 second
-      setTimeout(() => this.processJobs(), 1000);
+      clearTimeout(this.pollTimer);
+      this.pollTimer = setTimeout(() => this.processJobs(), 1000);
+      this.pollTimer.unref?.();
       return;
     }
 
@@ -352,36 +738,76 @@ export class JobQueue extends EventEmitter {
    * Execute a single job
    */
   private async executeJob(job: Job, processor: JobProcessor): Promise<void> {
+    this.activeJobs.add(job.id);
+
+    // Take the worker lease once the job's own writes have landed; another
+    // instance may already own this job
+    await this.pendingWrites.get(job.id);
+    const claimed = await this.store
+      .claim(job.id, this.workerId, Date.now() + this.leaseDuration)
+      .catch(error => {
+        console.error(`❌ Failed to claim job ${job.id}:`, error);
+        return false;
+      });
+
+    if (!claimed) {
+      this.activeJobs.delete(job.id);
+      console.log(`🔒 Job ${job.id} is leased by another worker, skipping`);
+      return;
+    }
+
     job.status = 'active';
     job.startedAt = Date.now();
     job.attempts++;
-    this.activeJobs.add(job.id);
+    job.lockedBy = this.workerId;
+    job.lockedUntil = Date.now() + this.leaseDuration;
+    this.persist(job);
     this.stats.waiting--;
     this.stats.active++;
 
     console.log(`🚀 Processing job: ${job.name} (${job.id}) - Attempt ${job.attempts}`);
     this.emit('active', job);
 
+    // Set once the job has timed out; anything the processor does later is ignored
+    let timedOut = false;
+
     // Create progress update function
     const updateProgress = (progress: number) => {
+      if (timedOut) return;
       job.progress = Math.max(0, Math.min(100, progress));
+      this.persist(job);
       this.emit('progress', job, progress);
     };
 
-    // Setup timeout
-    const timeout = setTimeout(() => {
-      this.failJob(job, 'Job timeout exceeded');
-    }, job.opts.timeout);
+    // Keep the lease alive while the processor runs
+    const heartbeat = setInterval(() => {
+      job.lockedUntil = Date.now() + this.leaseDuration;
+      this.store
+        .claim(job.id, this.workerId, job.lockedUntil)
+        .catch(error => console.error(`❌ Failed to renew lease for job ${job.id}:`, error));
+    }, this.leaseDuration / 2);
+
+    // Setup timeout; the job fails without waiting for the processor to settle
+    let timeout: NodeJS.Timeout | undefined;
+    const expired = new Promise<never>((_, reject) => {
+      timeout = setTimeout(() => {
+        timedOut = true;
+        reject(new Error('Job timeout exceeded'));
+      }, job.opts.timeout);
+    });
 
     try {
       // Execute the processor
-      const result = await processor(job, updateProgress);
+      const result = await Promise.race([processor(job, updateProgress), expired]);
       
       clearTimeout(timeout);
+      clearInterval(heartbeat);
       job.result = result;
       job.progress = 100;
       job.completedAt = Date.now();
       job.status = 'completed';
+      job.lockedBy = undefined;
+      job.lockedUntil = undefined;
       
       this.activeJobs.delete(job.id);
       this.stats.active--;
@@ -398,27 +824,40 @@ export class JobQueue extends EventEmitter {
       console.log(`✅ Job completed: ${job.name} (${job.id}) in ${processingTime}ms`);
       this.emit('completed', job, result);
 
-      // Remove if configured
-      if (job.opts.removeOnComplete) {
+      for (const dependent of this.getDependents(job.id)) {
+        this.resolveDependencies(dependent);
+      }
+
+      // Remove if configured (kept while blocked children still need the result)
+      if (job.opts.removeOnComplete && !this.hasBlockedDependents(job.id)) {
         this.jobs.delete(job.id);
+        this.unpersist(job.id);
+      } else {
+        this.persist(job);
       }
 
     } catch (error) {
       clearTimeout(timeout);
+      clearInterval(heartbeat);
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      job.errors.push(errorMessage);
+      job.lockedBy = undefined;
+      job.lockedUntil = undefined;
 
-      // Check if we should retry
-      if (job.attempts < job.opts.attempts) {
+      // Timeouts are final; other errors retry while attempts remain
+      if (timedOut) {
+        this.failJob(job, errorMessage);
+      } else if (job.attempts < job.opts.attempts) {
+        job.errors.push(errorMessage);
         const delay = this.calculateBackoffDelay(job);
         console.log(`⚠️ Job failed, retrying in ${delay}ms: ${job.name} (${job.id})`);
-        
-        setTimeout(() => {
-          job.status = 'waiting';
-          this.addToWaitingQueue(job);
-          this.stats.waiting++;
-        }, delay);
+
+        // Retries go through the delayed path so the backoff survives a restart
+        job.status = 'delayed';
+        job.runAt = Date.now() + delay;
+        this.scheduleDelayedJob(job);
+        this.persist(job);
       } else {
+        job.errors.push(errorMessage);
         this.failJob(job, errorMessage);
       }
       
@@ -440,39 +879,92 @@ export class JobQueue extends EventEmitter {
     console.error(`❌ Job failed: ${job.name} (${job.id}) - ${error}`);
     this.emit('failed', job, error);
 
+    // Children can never run once a parent has failed for good
+    for (const dependent of this.getDependents(job.id)) {
+      this.resolveDependencies(dependent);
+    }
+
     // Remove if configured
     if (job.opts.removeOnFail) {
       this.jobs.delete(job.id);
+      this.unpersist(job.id);
+    } else {
+      this.persist(job);
     }
   }
 
+  /**
+   * Write job state to the store without blocking the caller
+   */
+  private persist(job: Job): void {
+    this.enqueueWrite(job.id, () => this.store.save(job), error => {
+      console.error(`❌ Failed to persist job ${job.id} to ${this.store.name} store:`, error);
+    });
+  }
+
+  /**
+   * Delete job state from the store without blocking the caller
+   */
+  private unpersist(jobId: string): void {
+    this.enqueueWrite(jobId, () => this.store.remove(jobId), error => {
+      console.error(`❌ Failed to remove job ${jobId} from ${this.store.name} store:`, error);
+    });
+  }
+
+  /**
+   * Chain a store write behind earlier writes for the same job, so a slow
+   * save can never land after the remove that followed it
+   */
+  private enqueueWrite(jobId: string, write: () => Promise<void>, onError: (error: unknown) => void): void {
+    const previous = this.pendingWrites.get(jobId);
+    const next = (previous ? previous.then(write) : write()).catch(onError);
+
+    this.pendingWrites.set(jobId, next);
+    next.then(() => {
+      if (this.pendingWrites.get(jobId) === next) {
+        this.pendingWrites.delete(jobId);
+      }
+    });
+  }
+
   /**
    * Calculate backoff delay for retries
    */
   private calculateBackoffDelay(job: Job): number {
+    const baseDelay = job.opts.backoffDelay ?? 1000;
+
     if (job.opts.backoff === 'fixed') {
-      return 1000; // 1 second fixed delay
+      return baseDelay; // 1 second fixed delay by default
     }
     
-    // Exponential backoff: 1s, 2s, 4s, 8s, etc.
-    return Math.min(1000 * Math.pow(2, job.attempts - 1), 30000);
+    // Exponential backoff: 1s, 2s, 4s, 8s, etc. (capped at 30s by default)
+    return Math.min(baseDelay * Math.pow(2, job.attempts - 1), job.opts.maxBackoffDelay ?? 30000);
   }
 
   /**
    * Update statistics
    */
   private updateStats(): void {
-    this.stats.waiting = this.waitingJobs.length;
+    this.stats.lanes = {
+      critical: this.waitingJobs.critical.length,
+      high: this.waitingJobs.high.length,
+      normal: this.waitingJobs.normal.length,
+      low: this.waitingJobs.low.length
+    };
+    this.stats.waiting = JOB_LANES.reduce((sum, lane) => sum + this.stats.lanes[lane], 0);
     this.stats.active = this.activeJobs.size;
     this.stats.delayed = this.delayedJobs.size;
+    this.stats.scheduled = this.schedules.size;
     
-    let completed = 0, failed = 0;
+    let completed = 0, failed = 0, blocked = 0;
     for (const job of this.jobs.values()) {
       if (job.status === 'completed') completed++;
       else if (job.status === 'failed') failed++;
+      else if (job.status === 'blocked') blocked++;
     }
     this.stats.completed = completed;
     this.stats.failed = failed;
+    this.stats.blocked = blocked;
 
     // Calculate average processing time
     if (this.processingTimes.length > 0) {
@@ -482,8 +974,11 @@ export class JobQueue extends EventEmitter {
   }
 }
 
-// Global job queue instance
-export const jobQueue = new JobQueue(2); // 2 concurrent jobs for 10 users
+// Global job queue instance (store selected via JOB_QUEUE_STORE)
+export const jobQueue = new JobQueue({
+  concurrency: 2, // 2 concurrent jobs for 10 users
+  store: createJobStore()
+});
 
 // Export job queue utilities
 export const queue = {
@@ -503,6 +998,32 @@ export const queue = {
    */
   getJobs: (status?: JobStatus) => jobQueue.getJobs(status),
 
+  /**
+   * Get jobs waiting on a parent job
+   */
+  getDependents: (jobId: string) => jobQueue.getDependents(jobId),
+
+  /**
+   * Register a recurring job from a cron expression
+   */
+  schedule: <T = JobData>(
+    scheduleId: string,
+    name: string,
+    cron: string,
+    data: T,
+    opts?: Omit<JobOptions, 'delay' | 'dependsOn' | 'jobId'>
+  ) => jobQueue.schedule(scheduleId, name, cron, data, opts),
+
+  /**
+   * Remove a recurring job
+   */
+  unschedule: (scheduleId: string) => jobQueue.unschedule(scheduleId),
+
+  /**
+   * Get registered recurring jobs
+   */
+  getSchedules: () => jobQueue.getSchedules(),
+
   /**
    * Remove a job
    */
@@ -534,6 +1055,11 @@ export const queue = {
    */
   resume: () => jobQueue.resume(),
 
+  /**
+   * Resume persisted jobs from the configured store
+   */
+  recover: () => jobQueue.recover(),
+
   /**
    * Shutdown queue
    */
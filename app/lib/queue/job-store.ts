@@ -0,0 +1,297 @@
+/**
+ * FUNCTIONALITY STATUS: REAL
+ *
+ * REAL IMPLEMENTATIONS:
+ * - Pluggable storage adapters for the job queue
+ * - In-memory store (default, matches previous behaviour)
+ * - File-backed store for single-instance deployments
+ * - Supabase table store for serverless / multi-instance deployments
+ * - Worker lease claiming so crashed jobs can be re-claimed
+ *
+ * FAKE IMPLEMENTATIONS:
+ * - None - all functionality is production-ready
+ *
+ * MISSING REQUIREMENTS:
+ * - Supabase store expects the `job_queue_jobs` table (see SupabaseJobStore)
+ *
+ * PRODUCTION READINESS: YES
+ * - Job state survives restarts and cold starts when a durable store is used
+ * - Lease-based claiming prevents two workers from running the same job
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import type { Job } from './job-queue';
+
+/**
+ * Storage adapter used by JobQueue to persist job state.
+ * All writes are fire-and-forget from the queue's point of view, so
+ * implementations should never throw for transient failures they can log.
+ */
+export interface JobStore {
+  /** Human readable adapter name, used in logs */
+  readonly name: string;
+
+  /** Insert or update a job */
+  save(job: Job): Promise<void>;
+
+  /** Delete a job */
+  remove(jobId: string): Promise<void>;
+
+  /** Load every persisted job (used for recovery after restart) */
+  loadAll(): Promise<Job[]>;
+
+  /**
+   * Atomically take the worker lease for a job.
+   * Returns false when another worker holds an unexpired lease, or the job
+   * is no longer runnable (finished, or delayed until later).
+   */
+  claim(jobId: string, workerId: string, leaseUntil: number): Promise<boolean>;
+}
+
+/** Statuses a worker may (still) run */
+const CLAIMABLE_STATUSES: Job['status'][] = ['waiting', 'delayed', 'active'];
+
+/**
+ * Whether `workerId` may take the lease on a stored job: it is runnable now
+ * and nobody else holds a live lease
+ */
+function isClaimable(job: Job, workerId: string, now: number): boolean {
+  if (!CLAIMABLE_STATUSES.includes(job.status) || (job.runAt ?? 0) > now) {
+    return false;
+  }
+
+  return !job.lockedBy || job.lockedBy === workerId || (job.lockedUntil ?? 0) <= now;
+}
+
+/**
+ * Default in-process store. Nothing survives a restart, which keeps the
+ * queue behaving exactly as it did before adapters existed.
+ */
+export class MemoryJobStore implements JobStore {
+  readonly name = 'memory';
+  private jobs = new Map<string, Job>();
+
+  async save(job: Job): Promise<void> {
+    this.jobs.set(job.id, job);
+  }
+
+  async remove(jobId: string): Promise<void> {
+    this.jobs.delete(jobId);
+  }
+
+  async loadAll(): Promise<Job[]> {
+    return Array.from(this.jobs.values());
+  }
+
+  async claim(jobId: string, workerId: string, leaseUntil: number): Promise<boolean> {
+    const job = this.jobs.get(jobId);
+    if (!job) return false;
+
+    if (!isClaimable(job, workerId, Date.now())) return false;
+
+    job.lockedBy = workerId;
+    job.lockedUntil = leaseUntil;
+    return true;
+  }
+}
+
+/**
+ * File-backed store. Keeps a single JSON document on disk and serialises
+ * writes through a promise chain so concurrent saves never interleave.
+ * Suitable for a single long-running server, not for serverless functions.
+ */
+export class FileJobStore implements JobStore {
+  readonly name = 'file';
+  private filePath: string;
+  private jobs: Map<string, Job> | null = null;
+  private writeChain: Promise<void> = Promise.resolve();
+
+  constructor(filePath: string = path.join(process.cwd(), '.data', 'job-queue.json')) {
+    this.filePath = filePath;
+  }
+
+  async save(job: Job): Promise<void> {
+    const jobs = await this.read();
+    jobs.set(job.id, cloneJob(job));
+    await this.flush();
+  }
+
+  async remove(jobId: string): Promise<void> {
+    const jobs = await this.read();
+    if (jobs.delete(jobId)) {
+      await this.flush();
+    }
+  }
+
+  async loadAll(): Promise<Job[]> {
+    const jobs = await this.read();
+    return Array.from(jobs.values()).map(cloneJob);
+  }
+
+  async claim(jobId: string, workerId: string, leaseUntil: number): Promise<boolean> {
+    const jobs = await this.read();
+    const job = jobs.get(jobId);
+    if (!job) return false;
+
+    if (!isClaimable(job, workerId, Date.now())) return false;
+
+    job.lockedBy = workerId;
+    job.lockedUntil = leaseUntil;
+    await this.flush();
+    return true;
+  }
+
+  private async read(): Promise<Map<string, Job>> {
+    if (this.jobs) return this.jobs;
+
+    try {
+      const raw = await fs.readFile(this.filePath, 'utf-8');
+      const parsed: Job[] = JSON.parse(raw);
+      this.jobs = new Map(parsed.map(job => [job.id, job]));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error(`❌ Failed to read job store ${this.filePath}:`, error);
+      }
+      this.jobs = new Map();
+    }
+
+    return this.jobs;
+  }
+
+  private flush(): Promise<void> {
+    this.writeChain = this.writeChain.then(async () => {
+      const snapshot = JSON.stringify(Array.from(this.jobs?.values() ?? []));
+      const tmpPath = `${this.filePath}.tmp`;
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      await fs.writeFile(tmpPath, snapshot);
+      await fs.rename(tmpPath, this.filePath);
+    }).catch(error => {
+      console.error(`❌ Failed to write job store ${this.filePath}:`, error);
+    });
+
+    return this.writeChain;
+  }
+}
+
+/**
+ * Supabase-backed store for serverless deployments.
+ *
+ * Expected table:
+ *   create table job_queue_jobs (
+ *     id text primary key,
+ *     name text not null,
+ *     status text not null,
+ *     payload jsonb not null,
+ *     locked_by text,
+ *     locked_until timestamptz,
+ *     run_at timestamptz,
+ *     updated_at timestamptz not null default now()
+ *   );
+ */
+export class SupabaseJobStore implements JobStore {
+  readonly name = 'supabase';
+  private table: string;
+
+  constructor(table = 'job_queue_jobs') {
+    this.table = table;
+  }
+
+  async save(job: Job): Promise<void> {
+    const client = await this.client();
+    const { error } = await (client.from(this.table) as any).upsert({
+      id: job.id,
+      name: job.name,
+      status: job.status,
+      payload: job,
+      locked_by: job.lockedBy ?? null,
+      locked_until: job.lockedUntil ? new Date(job.lockedUntil).toISOString() : null,
+      run_at: job.runAt ? new Date(job.runAt).toISOString() : null,
+      updated_at: new Date().toISOString()
+    });
+
+    if (error) {
+      console.error(`❌ Failed to persist job ${job.id}:`, error);
+    }
+  }
+
+  async remove(jobId: string): Promise<void> {
+    const client = await this.client();
+    const { error } = await (client.from(this.table) as any).delete().eq('id', jobId);
+
+    if (error) {
+      console.error(`❌ Failed to delete job ${jobId}:`, error);
+    }
+  }
+
+  async loadAll(): Promise<Job[]> {
+    const client = await this.client();
+    const { data, error } = await (client.from(this.table) as any)
+      .select('payload, locked_by, locked_until');
+
+    if (error) {
+      console.error('❌ Failed to load jobs from Supabase:', error);
+      return [];
+    }
+
+    return (data || []).map((row: any) => ({
+      ...row.payload,
+      lockedBy: row.locked_by ?? undefined,
+      lockedUntil: row.locked_until ? new Date(row.locked_until).getTime() : undefined
+    }));
+  }
+
+  async claim(jobId: string, workerId: string, leaseUntil: number): Promise<boolean> {
+    const client = await this.client();
+    const now = new Date().toISOString();
+
+    // Conditional update: only succeeds if the job is runnable now and
+    // nobody else holds a live lease
+    const { data, error } = await (client.from(this.table) as any)
+      .update({
+        locked_by: workerId,
+        locked_until: new Date(leaseUntil).toISOString(),
+        updated_at: now
+      })
+      .eq('id', jobId)
+      .in('status', CLAIMABLE_STATUSES)
+      .or(`run_at.is.null,run_at.lte.${now}`)
+      .or(`locked_until.is.null,locked_until.lte.${now},locked_by.eq.${workerId}`)
+      .select('id');
+
+    if (error) {
+      console.error(`❌ Failed to claim job ${jobId}:`, error);
+      return false;
+    }
+
+    return Array.isArray(data) && data.length > 0;
+  }
+
+  private async client() {
+    const { supabaseAdmin } = await import('@/app/lib/supabase/admin');
+    return supabaseAdmin;
+  }
+}
+
+/**
+ * Build the store configured through JOB_QUEUE_STORE (memory | file | supabase)
+ */
+export function createJobStore(type: string | undefined = process.env.JOB_QUEUE_STORE): JobStore {
+  switch (type) {
+    case 'file':
+      return new FileJobStore(process.env.JOB_QUEUE_FILE || undefined);
+    case 'supabase':
+      return new SupabaseJobStore();
+    case 'memory':
+    case undefined:
+    case '':
+      return new MemoryJobStore();
+    default:
+      console.warn(`⚠️ Unknown JOB_QUEUE_STORE "${type}", falling back to memory`);
+      return new MemoryJobStore();
+  }
+}
+
+function cloneJob(job: Job): Job {
+  return JSON.parse(JSON.stringify(job));
+}
@@ -22,9 +22,12 @@
 import { Job, JobProcessor } from './job-queue';
 import { createAPIError, ErrorType } from '@/app/lib/middleware/error-handler';
 import { cache } from '@/app/lib/cache/memory-cache';
-import { claudeAI } from '@/app/lib/services/claudeAIService';
+import { ClaudeOperation, claudeAI } from '@/app/lib/services/claudeAIService';
 import { emailService } from '@/app/lib/services/email-service';
 import { storageService } from '@/app/lib/services/storage-service';
+import { resourceExportService } from '@/app/lib/services/resourceExportService';
+import { webhookService } from '@/app/lib/services/webhookService';
+import { crmSyncEngine } from '@/app/lib/crm/syncEngine';
 import axios from 'axios';
 import fs from 'fs/promises';
 import path from 'path';
@@ -33,7 +36,10 @@ import path from 'path';
 export interface AIProcessingJobData {
   prompt: string;
   userId: string;
+  customerId?: string;         // Billed customer (defaults to the user)
+  role?: string;               // Customer's role, for the AI call quota
   context?: any;
+  operation?: ClaudeOperation;
   model?: string;
   maxTokens?: number;
   temperature?: number;
@@ -72,7 +78,7 @@ export const aiProcessingProcessor: JobProcessor<AIProcessingJobData> = async (
   job,
   updateProgress
 ) => {
-  const { prompt, userId, context, model = 'claude-3-sonnet', maxTokens = 1000, temperature = 0.7 } = job.data;
+  const { prompt, userId, customerId, role, context, operation, model, maxTokens = 1000, temperature = 0.7 } = job.data;
   
   updateProgress(10);
   
@@ -81,9 +87,11 @@ export const aiProcessingProcessor: JobProcessor<AIProcessingJobData> = async (
   try {
     // Use the integrated Claude AI service
     const result = await claudeAI.complete(prompt, {
+      operation,
       model,
       maxTokens,
-      temperature
+      temperature,
+      meter: { customerId: customerId || userId, role, userId }
     });
     
     updateProgress(90);
@@ -329,6 +337,85 @@ export const dataAnalysisProcessor: JobProcessor<DataAnalysisJobData> = async (
   }
 };
 
+/**
+ * Export Cleanup Job Processor
+ * Removes expired resource exports and their stored files (scheduled nightly)
+ */
+export const exportCleanupProcessor: JobProcessor = async (
+  job,
+  updateProgress
+) => {
+  updateProgress(10);
+
+  try {
+    const cleaned = await resourceExportService.cleanupExpiredExports();
+
+    updateProgress(100);
+    return {
+      cleaned,
+      completedAt: new Date().toISOString()
+    };
+
+  } catch (error) {
+    console.error('❌ Export cleanup failed:', error);
+    throw createAPIError(
+      ErrorType.DATABASE,
+      `Export cleanup failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      500
+    );
+  }
+};
+
+/**
+ * Generation Session Cleanup Job Processor
+ * Removes core-resources generation sessions untouched for a week (scheduled nightly)
+ */
+export const generationSessionCleanupProcessor: JobProcessor = async (
+  job,
+  updateProgress
+) => {
+  updateProgress(10);
+
+  try {
+    const removed = await webhookService.cleanupExpiredSessions();
+
+    updateProgress(100);
+    return {
+      removed,
+      completedAt: new Date().toISOString()
+    };
+
+  } catch (error) {
+    console.error('❌ Generation session cleanup failed:', error);
+    throw createAPIError(
+      ErrorType.DATABASE,
+      `Generation session cleanup failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      500
+    );
+  }
+};
+
+/**
+ * CRM Deal Stage Pull Job Processor
+ * Pulls deal stage changes from every connected CRM (scheduled every 15 minutes)
+ */
+export const crmDealStagePullProcessor: JobProcessor = async (
+  job,
+  updateProgress
+) => {
+  updateProgress(10);
+
+  // Individual connection failures are recorded as sync runs, not thrown
+  const runs = await crmSyncEngine.pullAllConnections();
+
+  updateProgress(100);
+  return {
+    connections: runs.length,
+    failed: runs.filter(run => run.status === 'failed').length,
+    completedAt: new Date().toISOString()
+  };
+};
+
 // Helper functions for file generation
 
 function generateCSV(data: any[]): string {
@@ -0,0 +1,66 @@
+/**
+ * FUNCTIONALITY STATUS: REAL
+ *
+ * REAL IMPLEMENTATIONS:
+ * - Registry of recurring platform jobs and their cron expressions
+ * - CRM deal stage pulls every 15 minutes
+ * - One-call registration of processors and schedules on the job queue
+ *
+ * FAKE IMPLEMENTATIONS:
+ * - None - all functionality is production-ready
+ *
+ * MISSING REQUIREMENTS:
+ * - Weekly target-account refresh needs a backend data source before it can be scheduled
+ *
+ * PRODUCTION READINESS: YES
+ * - Safe to register on every cold start (occurrence IDs are deterministic)
+ */
+
+import { JobOptions, JobProcessor, JobQueue, jobQueue } from './job-queue';
+import { crmDealStagePullProcessor, exportCleanupProcessor, generationSessionCleanupProcessor } from './processors';
+
+export interface ScheduledJobDefinition {
+  id: string;
+  name: string;
+  cron: string;
+  processor: JobProcessor;
+  data?: Record<string, any>;
+  opts?: Omit<JobOptions, 'delay' | 'dependsOn' | 'jobId'>;
+}
+
+export const SCHEDULED_JOBS: ScheduledJobDefinition[] = [
+  {
+    id: 'nightly-export-cleanup',
+    name: 'export-cleanup',
+    cron: '0 3 * * *', // 03:00 every night
+    processor: exportCleanupProcessor,
+    opts: { lane: 'low', attempts: 2, removeOnComplete: true }
+  },
+  {
+    id: 'nightly-generation-session-cleanup',
+    name: 'generation-session-cleanup',
+    cron: '30 3 * * *', // 03:30 every night
+    processor: generationSessionCleanupProcessor,
+    opts: { lane: 'low', attempts: 2, removeOnComplete: true }
+  },
+  {
+    id: 'crm-deal-stage-pull',
+    name: 'crm-deal-stage-pull',
+    cron: '*/15 * * * *', // every 15 minutes
+    processor: crmDealStagePullProcessor,
+    opts: { lane: 'low', attempts: 1, removeOnComplete: true }
+  }
+];
+
+/**
+ * Register processors and cron schedules for every recurring job
+ */
+export function registerScheduledJobs(
+  target: JobQueue = jobQueue,
+  definitions: ScheduledJobDefinition[] = SCHEDULED_JOBS
+): void {
+  for (const definition of definitions) {
+    target.process(definition.name, definition.processor);
+    target.schedule(definition.id, definition.name, definition.cron, definition.data ?? {}, definition.opts);
+  }
+}
@@ -3,8 +3,14 @@
  * AI integration templates for Claude, ChatGPT, and other AI platforms
  * Generates prompts, personas, and conversation scripts using ICP and business case intelligence
  * Migrated from legacy platform with enhanced TypeScript type safety
+ *
+ * Prompt text lives in the prompt registry (promptTemplates); the builders
+ * here map ICP, cost and business case data onto its variables.
  */
 
+import promptRegistry from './promptRegistry';
+import { extractVariables, validateVariables } from '@/app/lib/utils/prompt-variables';
+
 // ==========================================
 // DATA INPUT INTERFACES
 // ==========================================
@@ -246,127 +252,56 @@ export class AIIntegrationTemplates {
 
   public generateProspectResearchPrompt(icpData: ICPData): string {
     const buyerPersona = icpData?.buyerPersona || {};
-    const demographics = buyerPersona.demographics || 'Target buyer demographics';
-    const painPoints = Array.isArray(buyerPersona.painPoints)
-      ? buyerPersona.painPoints.join(', ')
-      : buyerPersona.painPoints || 'Key pain points';
-    const decisionMaking = buyerPersona.decisionMaking || 'Decision-making process';
-
-    return `You are a sales research specialist. Using this systematic buyer intelligence:
-
-TARGET BUYER PROFILE:
-Demographics: ${demographics}
-Pain Points: ${painPoints}
-Decision Making: ${decisionMaking}
-
-Research [COMPANY_NAME] and provide:
-1. Fit score (1-10) based on our ICP criteria
-2. Specific pain points they likely experience based on our buyer intelligence
-3. Key stakeholders to target based on decision-making patterns
-4. Recommended approach strategy aligned with buyer preferences
-
-Company to research: [INSERT_COMPANY_URL]
-Industry context: [INSERT_INDUSTRY]
 
-Format your response with clear sections and actionable insights.`;
+    return promptRegistry.render('sales.prospect_research', {
+      DEMOGRAPHICS: buyerPersona.demographics || 'Target buyer demographics',
+      PAIN_POINTS: this.formatPainPoints(buyerPersona, 'Key pain points'),
+      DECISION_MAKING: buyerPersona.decisionMaking || 'Decision-making process'
+    }).prompt;
   }
 
   public generateValuePropositionPrompt(icpData: ICPData, costData?: CostData): string {
     const impactCalculation = costData?.impactCalculation || {};
-    const methodology = impactCalculation.methodology || 'Financial impact methodology';
-    const results = impactCalculation.results || 'Impact analysis results';
 
-    return `You are a technical value translator. Using our financial impact model:
-
-OUR SOLUTION IMPACT:
-Methodology: ${methodology}
-Results: ${results}
-
-For [PROSPECT_COMPANY], translate our technical capabilities into:
-1. Industry-specific business outcomes that resonate with their stakeholders
-2. Quantified financial benefits using our proven calculation methods
-3. Risk mitigation value addressing their specific concerns
-4. Competitive advantages that matter to their decision criteria
-
-Their industry: [INSERT_INDUSTRY]
-Their challenges: [INSERT_CHALLENGES]
-Their decision timeline: [INSERT_TIMELINE]
-
-Use business language that speaks to executives and financial stakeholders.`;
+    return promptRegistry.render('sales.value_proposition', {
+      METHODOLOGY: impactCalculation.methodology || 'Financial impact methodology',
+      RESULTS: impactCalculation.results || 'Impact analysis results'
+    }).prompt;
   }
 
   public generateBusinessCasePrompt(businessCaseData?: BusinessCaseData): string {
     const framework = businessCaseData?.framework || {};
-    const executiveSummary = framework.executiveSummary || 'Executive summary framework';
-    const financialJustification = framework.financialJustification || 'Financial justification structure';
-    const riskAssessment = framework.riskAssessment || 'Risk assessment methodology';
-
-    return `You are an executive business case writer. Using our proven framework:
-
-FRAMEWORK STRUCTURE:
-Executive Summary: ${executiveSummary}
-Financial Justification: ${financialJustification}
-Risk Assessment: ${riskAssessment}
-
-Create a business case for [PROSPECT_COMPANY] that includes:
-1. Executive summary (C-suite focused, results-oriented)
-2. Financial ROI projections with clear payback timeline
-3. Implementation roadmap with realistic milestones
-4. Risk mitigation strategies addressing common concerns
 
-Prospect context: [INSERT_PROSPECT_CONTEXT]
-Budget range: [INSERT_BUDGET_RANGE]
-Implementation timeline: [INSERT_TIMELINE]
-
-Keep language professional and benefit-focused for executive audiences.`;
+    return promptRegistry.render('sales.business_case', {
+      EXECUTIVE_SUMMARY: framework.executiveSummary || 'Executive summary framework',
+      FINANCIAL_JUSTIFICATION: framework.financialJustification || 'Financial justification structure',
+      RISK_ASSESSMENT: framework.riskAssessment || 'Risk assessment methodology'
+    }).prompt;
   }
 
   public generateObjectionHandlingPrompt(icpData: ICPData): string {
     const buyerPersona = icpData?.buyerPersona || {};
-    const painPoints = Array.isArray(buyerPersona.painPoints)
-      ? buyerPersona.painPoints.join(', ')
-      : buyerPersona.painPoints || 'Key concerns';
-    const decisionMaking = buyerPersona.decisionMaking || 'Decision-making style';
-
-    return `You are a sales conversation specialist. Using our buyer intelligence:
 
-BUYER PROFILE:
-Key Concerns: ${painPoints}
-Decision Style: ${decisionMaking}
-
-For the objection: "[INSERT_OBJECTION]"
-
-Provide:
-1. Root cause analysis of this objection based on buyer psychology
-2. Empathetic acknowledgment that builds trust
-3. Evidence-based response using our success data
-4. Forward momentum question to continue the conversation
-
-Keep responses consultative and focused on the buyer's success.`;
+    return promptRegistry.render('sales.objection_handling', {
+      KEY_CONCERNS: this.formatPainPoints(buyerPersona, 'Key concerns'),
+      DECISION_STYLE: buyerPersona.decisionMaking || 'Decision-making style'
+    }).prompt;
   }
 
   public generateDiscoveryPrompt(icpData: ICPData): string {
     const buyerPersona = icpData?.buyerPersona || {};
-    const demographics = buyerPersona.demographics || 'Target buyer profile';
-    const painPoints = Array.isArray(buyerPersona.painPoints)
-      ? buyerPersona.painPoints.join(', ')
-      : buyerPersona.painPoints || 'Known pain points';
-    const decisionMaking = buyerPersona.decisionMaking || 'Decision process';
-
-    return `You are a discovery conversation specialist. Using our buyer intelligence:
 
-IDEAL BUYER PROFILE:
-Target Profile: ${demographics}
-Known Pain Points: ${painPoints}
-Decision Process: ${decisionMaking}
-
-Create discovery questions for [PROSPECT_COMPANY] that:
-1. Uncover their specific version of our known pain points
-2. Quantify the business impact of their challenges
-3. Identify all stakeholders in their decision process
-4. Establish urgency and timeline for resolution
+    return promptRegistry.render('sales.discovery', {
+      TARGET_PROFILE: buyerPersona.demographics || 'Target buyer profile',
+      PAIN_POINTS: this.formatPainPoints(buyerPersona, 'Known pain points'),
+      DECISION_PROCESS: buyerPersona.decisionMaking || 'Decision process'
+    }).prompt;
+  }
 
-Structure as open-ended questions that encourage detailed responses and build trust.`;
+  private formatPainPoints(buyerPersona: BuyerPersona, fallback: string): string {
+    return Array.isArray(buyerPersona.painPoints)
+      ? buyerPersona.painPoints.join(', ')
+      : buyerPersona.painPoints || fallback;
   }
 
   // ==========================================
@@ -733,9 +668,7 @@ ${optimization.format}`;
 
   public extractVariables(prompt: string): string[] {
     try {
-      const variablePattern = /\[([A-Z_]+)\]/g;
-      const matches = prompt.match(variablePattern);
-      return matches ? [...new Set(matches)] : [];
+      return extractVariables(prompt);
     } catch (error) {
       console.error('Error extracting variables:', error);
       return [];
@@ -747,13 +680,7 @@ ${optimization.format}`;
     providedVariables: Record<string, string>
   ): { missing: string[]; unused: string[] } {
     try {
-      const requiredVariables = this.extractVariables(prompt);
-      const providedKeys = Object.keys(providedVariables).map(key => `[${key}]`);
-
-      const missing = requiredVariables.filter(variable => !providedKeys.includes(variable));
-      const unused = providedKeys.filter(key => !requiredVariables.includes(key));
-
-      return { missing, unused };
+      return validateVariables(prompt, providedVariables);
     } catch (error) {
       console.error('Error validating variables:', error);
       return { missing: [], unused: [] };
@@ -1,4 +1,5 @@
 import { airtableService } from './airtableService';
+import { getCurrentQuestions } from '@/app/lib/assessments/questionBank';
 
 // TypeScript Interfaces for AssessmentService
 export interface ProfessionalLevel {
@@ -214,7 +215,7 @@ class AssessmentService {
         icon: 'target',
         color: 'blue',
         maxScore: 100,
-        questions: []
+        questions: getCurrentQuestions('customerAnalysis')
       },
       {
         id: 'valueCommunication',
@@ -223,7 +224,7 @@ class AssessmentService {
         icon: 'trending-up',
         color: 'green',
         maxScore: 100,
-        questions: []
+        questions: getCurrentQuestions('valueCommunication')
       },
       {
         id: 'salesExecution',
@@ -232,7 +233,7 @@ class AssessmentService {
         icon: 'bar-chart',
         color: 'purple',
         maxScore: 100,
-        questions: []
+        questions: getCurrentQuestions('salesExecution')
       }
     ];
 
@@ -896,26 +897,11 @@ class AssessmentService {
   }
 
   /**
-   * Get assessment questions for a specific category
+   * Get assessment questions for a specific category (latest versions from
+   * the question bank, including follow-ups that depend on earlier answers)
    */
   getAssessmentQuestions(category: string): AssessmentQuestion[] {
-    // This would typically return questions from a database
-    // For now, return sample questions
-    return [
-      {
-        id: `${category}_1`,
-        category,
-        question: `How do you currently approach ${category}?`,
-        type: 'multiple_choice',
-        options: [
-          { value: 20, text: 'Basic approach' },
-          { value: 40, text: 'Some structure' },
-          { value: 60, text: 'Systematic method' },
-          { value: 80, text: 'Advanced framework' },
-          { value: 100, text: 'Expert methodology' }
-        ]
-      }
-    ];
+    return getCurrentQuestions(category);
   }
 }
 
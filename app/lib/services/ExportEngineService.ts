@@ -1,5 +1,7 @@
 // ExportEngineService.ts - Multi-format export engine for AI, CRM, and sales automation integration
 
+import XLSXGenerator from './export/generators/XLSXGenerator';
+
 export interface ExportFormat {
   id: string;
   name: string;
@@ -243,7 +245,7 @@ export const ExportEngineService = {
           category: 'business_intelligence',
           description: 'Financial modeling templates with buyer-specific calculations',
           fileType: 'xlsx',
-          implementation: 'Download and customize Excel templates',
+          implementation: 'Open in Excel and edit the highlighted assumptions; costs and ROI recalculate',
           variables: ['[FINANCIAL_INPUTS]', '[CALCULATIONS]', '[PROJECTIONS]']
         }
       };
@@ -316,6 +318,24 @@ export const ExportEngineService = {
     }
   },
 
+  // GENERATE EXCEL FINANCIAL MODEL
+  // financialData is either cost calculator results or { costCalculator, businessImpactROI, investment }
+  generateExcelModel: async (data: ExportData): Promise<Blob> => {
+    const validation = ExportEngineService.validateExportData(data, 'excel_models');
+    if (!validation.isValid) {
+      throw new Error(validation.error || 'Invalid export data');
+    }
+
+    const financialData = data.financialData || data.calculations;
+    if (!financialData?.costData && !financialData?.costCalculator) {
+      throw new Error('Excel models require cost calculator results');
+    }
+
+    return financialData.costCalculator
+      ? XLSXGenerator.generateBusinessCase(financialData)
+      : XLSXGenerator.generateCostCalculator(financialData);
+  },
+
   // GET ALL AVAILABLE FORMATS FOR CATEGORY
   getFormatsForCategory: (category: string): ExportFormat[] => {
     try {
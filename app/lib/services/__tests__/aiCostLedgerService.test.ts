@@ -0,0 +1,118 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * AI Cost Ledger Unit Tests
+ *
+ * Tests the per-customer cost ledger behind the admin cost dashboard:
+ * - Pricing per model, free cache hits and failed calls
+ * - Daily, monthly, per-operation/model and per-user aggregation
+ * - Budget alerts at 80% and 100%, raised once per month
+ */
+
+import eventBus from '@/app/lib/events/EventBus';
+import { calculateCost } from '../claudeModelRouting';
+import { AICostLedgerService, MemoryAICostStore } from '../aiCostLedgerService';
+
+jest.mock('@/app/lib/events/EventBus', () => ({
+  __esModule: true,
+  default: { emit: jest.fn() }
+}));
+
+const NOW = Date.UTC(2026, 2, 15, 12);
+const DAY = 24 * 60 * 60 * 1000;
+
+const call = (overrides: Partial<Parameters<AICostLedgerService['record']>[0]> = {}) => ({
+  customerId: 'cust-1',
+  operation: 'icp_generation',
+  model: 'claude-sonnet-4-5',
+  inputTokens: 1000,
+  outputTokens: 500,
+  cacheHit: false,
+  latencyMs: 1200,
+  success: true,
+  createdAt: NOW,
+  ...overrides
+});
+
+describe('AICostLedgerService', () => {
+  let service: AICostLedgerService;
+
+  beforeAll(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  beforeEach(() => {
+    service = new AICostLedgerService(new MemoryAICostStore());
+    jest.mocked(eventBus.emit).mockClear();
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('prices calls from the model pricing table', async () => {
+    expect(calculateCost('claude-3-5-haiku-latest', { input_tokens: 1_000_000, output_tokens: 1_000_000 })).toBeCloseTo(4.8);
+    expect(calculateCost('claude-opus-4-1', { input_tokens: 1000, output_tokens: 1000 })).toBeCloseTo(0.09);
+
+    const entry = await service.record(call());
+    expect(entry.costUsd).toBeCloseTo(0.0105); // 1000 * $3/M + 500 * $15/M
+
+    expect((await service.record(call({ cacheHit: true }))).costUsd).toBe(0);
+    expect((await service.record(call({ success: false, error: 'Claude API overloaded' }))).costUsd).toBe(0);
+  });
+
+  it('aggregates by day, month, operation, model and user', async () => {
+    await service.record(call({ userId: 'user-1' }));
+    await service.record(call({ userId: 'user-2', operation: 'extraction', model: 'claude-3-5-haiku-latest' }));
+    await service.record(call({ userId: 'user-1', cacheHit: true }));
+    await service.record(call({ userId: 'user-1', createdAt: NOW - 3 * DAY }));
+    await service.record(call({ customerId: 'cust-2', success: false, createdAt: NOW - 20 * DAY })); // Last month
+
+    const today = await service.getTodaysCosts({ now: NOW });
+    expect(today).toMatchObject({
+      total_calls: 3,
+      successful_calls: 3,
+      cache_hits: 1,
+      total_cost_usd: '0.0133',
+      operations_breakdown: { icp_generation: { calls: 2, cost: '0.0105' }, extraction: { calls: 1, cost: '0.0028' } },
+      models_breakdown: { 'claude-3-5-haiku-latest': { calls: 1, cost: '0.0028' } }
+    });
+
+    const monthly = await service.getMonthlyCosts({ now: NOW });
+    expect(monthly).toMatchObject({ month: '2026-03', total_calls: 4, total_cost_usd: '0.0238', avg_tokens_per_call: 1500 });
+
+    const daily = await service.getDailyCosts({ now: NOW });
+    expect(daily.map(day => [day.date, day.total_calls])).toEqual([
+      ['2026-03-15', 3],
+      ['2026-03-12', 1],
+      ['2026-02-23', 1]
+    ]);
+    expect((await service.getTodaysCosts({ now: NOW, customerId: 'cust-2' })).total_calls).toBe(0);
+
+    expect(await service.getTopUsers({ now: NOW })).toEqual([
+      { user_id: 'user-1', total_calls: 3, total_cost_usd: '0.0210' },
+      { user_id: 'user-2', total_calls: 1, total_cost_usd: '0.0028' }
+    ]);
+  });
+
+  it('alerts once per threshold when a customer crosses its budget', async () => {
+    await service.setCustomerBudget('cust-1', 0.02);
+
+    await service.record(call()); // $0.0105, 52%
+    expect(eventBus.emit).not.toHaveBeenCalled();
+
+    await service.record(call()); // $0.0210, 105%: crosses 80% and 100%
+    await service.record(call());
+
+    expect(jest.mocked(eventBus.emit).mock.calls.map(([type, payload]) => [type, (payload as any).threshold]))
+      .toEqual([['ai_budget_alert', 0.8], ['ai_budget_alert', 1]]);
+    expect(service.getAlerts()[0]).toMatchObject({ customerId: 'cust-1', threshold: 1, budgetUsd: 0.02, month: '2026-03' });
+
+    const [status] = await service.getCustomerBudgets({ now: NOW });
+    expect(status).toMatchObject({ customer_id: 'cust-1', budget_usd: '0.02', spent_usd: '0.0315', percent_used: 157.5 });
+
+    await expect(service.setCustomerBudget('cust-1', -5)).rejects.toMatchObject({ statusCode: 400 });
+  });
+});
@@ -0,0 +1,129 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Business Case Service Tests
+ *
+ * Saved cases go through the workflow API, not straight to the database:
+ * - Generated cases are saved as drafts in the requested workspace
+ * - Every update is saved as a new version; final cases refuse updates
+ * - Generated content round-trips through the section fields
+ */
+
+import { getUserPermissions } from '@/app/lib/middleware/rbac';
+import {
+  BusinessCaseActor,
+  BusinessCaseWorkflowService,
+  MemoryBusinessCaseWorkflowStore
+} from '@/app/lib/business-cases/workflowService';
+import { WORKSPACE_HEADER } from '@/app/lib/workspaces/activeWorkspace';
+import { businessCaseService } from '../businessCaseService';
+
+jest.mock('@/app/lib/events/EventBus', () => ({
+  __esModule: true,
+  default: { emit: jest.fn() }
+}));
+
+const input = {
+  userId: 'user_solo',
+  template: 'digital-transformation',
+  customerData: {
+    companyName: 'Acme',
+    championName: 'Dana Lee',
+    industry: 'Logistics',
+    companySize: '200-500',
+    currentRevenue: 1000000
+  }
+};
+
+describe('businessCaseService persistence', () => {
+  let workflow: BusinessCaseWorkflowService;
+  let requests: Array<{ method: string; url: string; workspaceId: string | null }>;
+
+  const actor: BusinessCaseActor = {
+    userId: 'user_solo',
+    customerId: 'user_solo',
+    scope: { workspaceId: null, workspaceRole: null, ownerId: 'user_solo', permissions: getUserPermissions('premium') }
+  };
+
+  /** Stand-in for /api/business-cases, backed by a real workflow service */
+  async function casesApi(url: string, init: RequestInit = {}) {
+    const method = init.method || 'GET';
+    const headers = (init.headers || {}) as Record<string, string>;
+    const id = new URL(url, 'http://localhost').searchParams.get('id');
+    const body = init.body ? JSON.parse(String(init.body)) : {};
+    requests.push({ method, url, workspaceId: headers[WORKSPACE_HEADER] ?? null });
+
+    try {
+      const data = method === 'POST' ? await workflow.createCase(actor, body.fields, body.source)
+        : method === 'PATCH' ? await workflow.updateCase(actor, body.id, body.fields)
+        : method === 'DELETE' ? await workflow.deleteCase(actor, id!)
+        : id ? await workflow.getCase(actor, id) : await workflow.listCases(actor);
+      return new Response(JSON.stringify({ success: true, data }), { status: 200 });
+    } catch (error: any) {
+      return new Response(JSON.stringify({ error: { message: error.message } }), { status: error.statusCode || 500 });
+    }
+  }
+
+  beforeEach(() => {
+    workflow = new BusinessCaseWorkflowService(new MemoryBusinessCaseWorkflowStore(), {
+      requireMember: async () => { throw new Error('not a member'); }
+    });
+    requests = [];
+    (global.fetch as jest.Mock).mockImplementation(casesApi);
+  });
+
+  it('saves generated cases as AI generated drafts through the API', async () => {
+    const generated = await businessCaseService.generateBusinessCase({ ...input, workspaceId: 'ws_acme' });
+
+    expect(requests[0]).toEqual({ method: 'POST', url: '/api/business-cases', workspaceId: 'ws_acme' });
+    expect(generated.data?.id).toMatch(/^bcase_/);
+
+    const saved = await workflow.getCase(actor, generated.data!.id);
+    expect(saved).toMatchObject({ status: 'draft', data: { version: 1, header: { companyName: 'Acme' } } });
+    expect(saved.data.fieldMetadata['executiveSummary.fullSummary'].source).toBe('AI_GENERATED');
+
+    const loaded = await businessCaseService.getBusinessCase(generated.data!.id);
+    expect(loaded.data).toMatchObject({
+      template: 'digital-transformation',
+      customerData: { companyName: 'Acme', industry: 'Logistics', currentRevenue: 1000000 },
+      businessCase: {
+        executiveSummary: generated.data!.businessCase.executiveSummary,
+        financialAnalysis: { investment: 150000, expectedROI: 2.8, paybackPeriod: '18 months' }
+      },
+      recommendations: [expect.objectContaining({ title: 'Start with Quick Wins' }), expect.anything(), expect.anything()]
+    });
+  });
+
+  it('saves every update as a new version', async () => {
+    const { data } = await businessCaseService.generateBusinessCase(input);
+    const caseId = data!.id;
+
+    const updated = await businessCaseService.updateBusinessCase(caseId, {
+      customerData: { ...input.customerData, companyName: 'Acme Corp' }
+    });
+    expect(updated).toMatchObject({
+      success: true,
+      data: { customerData: { companyName: 'Acme Corp' }, metadata: { version: 2, status: 'draft' } }
+    });
+    expect(requests.map(request => request.method)).toEqual(['POST', 'PATCH']);
+
+    const versions = await workflow.listVersions(actor, caseId);
+    expect(versions.map(version => [version.version, version.kind])).toEqual([[2, 'updated'], [1, 'created']]);
+    expect(versions[0].changedFields).toEqual(['header.companyName']);
+  });
+
+  it('refuses to update or delete a final case', async () => {
+    const { data } = await businessCaseService.generateBusinessCase(input);
+    const store = (workflow as any).store as MemoryBusinessCaseWorkflowStore;
+    const record = (await store.getCase(data!.id))!;
+    await store.saveCase({ ...record, status: 'final', data: { ...record.data, status: 'final' } });
+
+    expect(await businessCaseService.updateBusinessCase(data!.id, { customerData: input.customerData }))
+      .toEqual({ success: false, error: 'Final business cases are locked' });
+    expect(await businessCaseService.deleteBusinessCase(data!.id))
+      .toEqual({ success: false, error: 'Final business cases are locked' });
+    expect(await workflow.listVersions(actor, data!.id)).toHaveLength(1);
+  });
+});
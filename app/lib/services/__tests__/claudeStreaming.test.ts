@@ -0,0 +1,131 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Claude Streaming and Model Routing Unit Tests
+ *
+ * Tests per-operation model selection and streaming:
+ * - Model tier chosen by operation, explicit models first
+ * - Fallback to the next tier on overload (and not on other errors)
+ * - Token streaming parsed from the Messages API event stream
+ */
+
+import claudeAI from '../claudeAIService';
+import { MODEL_TIERS, resolveModelChain } from '../claudeModelRouting';
+import { createAPIError, ErrorType } from '@/app/lib/middleware/error-handler';
+import { apiCache, fileCache, userCache } from '@/app/lib/cache/memory-cache';
+
+const overloaded = () => createAPIError(ErrorType.EXTERNAL_API, 'External API error: 529', 529, {
+  responseData: { type: 'error', error: { type: 'overloaded_error', message: 'Overloaded' } }
+});
+
+const messageResponse = (text: string) => ({
+  content: [{ type: 'text', text }],
+  usage: { input_tokens: 12, output_tokens: 4 }
+});
+
+// Minimal fetch responses; the test environment's Response has no streaming body
+function eventStream(events: Array<Record<string, unknown>>) {
+  const text = events.map(event => `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`).join('');
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      // Split mid-event to exercise buffering across chunks
+      const bytes = new TextEncoder().encode(text);
+      controller.enqueue(bytes.slice(0, 50));
+      controller.enqueue(bytes.slice(50));
+      controller.close();
+    }
+  });
+  return { ok: true, status: 200, body };
+}
+
+describe('Claude model routing and streaming', () => {
+  const originalFetch = global.fetch;
+
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    (claudeAI as any).client = null;
+    (claudeAI as any).apiKey = null;
+    global.fetch = originalFetch;
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+    [apiCache, userCache, fileCache].forEach(instance => instance.destroy());
+  });
+
+  it('picks a model tier per operation', () => {
+    expect(resolveModelChain('extraction')).toEqual([MODEL_TIERS.fast, MODEL_TIERS.balanced]);
+    expect(resolveModelChain('business_case_narrative')[0]).toBe(MODEL_TIERS.premium);
+    expect(resolveModelChain('general', 'claude-custom')).toEqual(['claude-custom', MODEL_TIERS.balanced, MODEL_TIERS.fast, MODEL_TIERS.premium]);
+  });
+
+  it('falls back to the next tier when the model is overloaded', async () => {
+    const request = jest.fn()
+      .mockRejectedValueOnce(overloaded())
+      .mockResolvedValueOnce(messageResponse('Acme Corp'));
+    (claudeAI as any).client = { request };
+
+    const result = await claudeAI.sendMessage([{ role: 'user', content: 'Extract the company name' }], {
+      operation: 'extraction',
+      useCache: false
+    });
+
+    expect(result).toMatchObject({ response: 'Acme Corp', model: MODEL_TIERS.balanced });
+    expect(request.mock.calls.map(([config]) => config.data.model)).toEqual([MODEL_TIERS.fast, MODEL_TIERS.balanced]);
+  });
+
+  it('does not fall back on other errors', async () => {
+    const request = jest.fn().mockRejectedValue(
+      createAPIError(ErrorType.EXTERNAL_API, 'External API error: 401', 401, { responseData: {} })
+    );
+    (claudeAI as any).client = { request };
+
+    await expect(claudeAI.sendMessage([{ role: 'user', content: 'Hi' }], { useCache: false }))
+      .rejects.toMatchObject({ type: ErrorType.AUTHENTICATION, statusCode: 401 });
+    expect(request).toHaveBeenCalledTimes(1);
+  });
+
+  it('streams tokens and falls back before the first token', async () => {
+    (claudeAI as any).client = {};
+    (claudeAI as any).apiKey = 'test-key';
+    const fetchMock = jest.fn()
+      .mockResolvedValueOnce({
+        ok: false,
+        status: 529,
+        statusText: 'Overloaded',
+        json: async () => ({ type: 'error', error: { type: 'overloaded_error' } })
+      })
+      .mockResolvedValueOnce(eventStream([
+        { type: 'message_start', message: { usage: { input_tokens: 20 } } },
+        { type: 'content_block_delta', delta: { type: 'text_delta', text: 'Faster claims ' } },
+        { type: 'content_block_delta', delta: { type: 'text_delta', text: 'cut costs.' } },
+        { type: 'message_delta', usage: { output_tokens: 5 } },
+        { type: 'message_stop' }
+      ]));
+    global.fetch = fetchMock as unknown as typeof fetch;
+
+    const stream = claudeAI.streamMessage([{ role: 'user', content: 'Translate' }], { operation: 'business_case_narrative' });
+    const tokens: string[] = [];
+    let step = await stream.next();
+    while (!step.done) {
+      tokens.push(step.value);
+      step = await stream.next();
+    }
+
+    expect(tokens).toEqual(['Faster claims ', 'cut costs.']);
+    expect(step.value).toEqual({
+      response: 'Faster claims cut costs.',
+      usage: { input_tokens: 20, output_tokens: 5 },
+      model: MODEL_TIERS.balanced
+    });
+    expect(fetchMock.mock.calls.map(([, init]) => JSON.parse(init.body).model)).toEqual([MODEL_TIERS.premium, MODEL_TIERS.balanced]);
+    expect(JSON.parse(fetchMock.mock.calls[1][1].body).stream).toBe(true);
+  });
+});
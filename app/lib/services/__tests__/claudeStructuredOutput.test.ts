@@ -0,0 +1,84 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Claude Structured Output Unit Tests
+ *
+ * Tests schema-validated parsing of model responses:
+ * - JSON extraction and zod validation
+ * - Repair retries with the validation issues, then failure
+ * - Typed results for ICP resources and rating frameworks
+ */
+
+import claudeAI from '../claudeAIService';
+import { RatingFrameworkSchema, parseStructuredOutput } from '../claudeSchemas';
+import { apiCache, fileCache, userCache } from '@/app/lib/cache/memory-cache';
+
+const framework = {
+  framework: { name: 'Lead Scoring', scoringMethod: 'weighted', totalPoints: 100 },
+  criteria: [{ criterion: 'Company Size', weight: 40, scoring: '50-500 employees' }],
+  questions: [{ category: 'Timing', question: 'When do you need this live?' }]
+};
+
+const reply = (text: string) => ({ response: text, usage: { input_tokens: 10, output_tokens: 10 }, cached: false, model: 'claude-test' });
+
+describe('Claude structured output', () => {
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    (claudeAI as any).client = null;
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+    [apiCache, userCache, fileCache].forEach(instance => instance.destroy());
+  });
+
+  it('extracts and validates JSON wrapped in prose', () => {
+    const parsed = parseStructuredOutput(`Here you go:\n\`\`\`json\n${JSON.stringify(framework)}\n\`\`\``, RatingFrameworkSchema);
+    expect(parsed).toEqual({ success: true, data: framework });
+
+    const invalid = parseStructuredOutput(JSON.stringify({ ...framework, criteria: [] }), RatingFrameworkSchema);
+    expect(invalid.success).toBe(false);
+    expect(!invalid.success && invalid.error).toMatch(/criteria/);
+  });
+
+  it('sends validation issues back to the model and returns the repaired result', async () => {
+    (claudeAI as any).client = {};
+    const body = JSON.stringify(framework).slice(1); // Response continues the "{" prefill
+    const sendMessage = jest.spyOn(claudeAI, 'sendMessage')
+      .mockResolvedValueOnce(reply('"framework": {"name": "Lead Scoring"}}'))
+      .mockResolvedValueOnce(reply(body));
+
+    const result = await claudeAI.generateRatingFrameworkFromICP('Mid-market SaaS', 'VP Sales');
+
+    expect(result.criteria[0].weight).toBe(40);
+    expect(result.isMock).toBe(false);
+    expect(sendMessage).toHaveBeenCalledTimes(2);
+
+    const repairMessages = sendMessage.mock.calls[1][0];
+    expect(repairMessages[repairMessages.length - 1]).toEqual({ role: 'assistant', content: '{' });
+    expect(repairMessages[repairMessages.length - 2].content).toMatch(/did not match the schema/);
+    expect(sendMessage.mock.calls[1][1]).toMatchObject({ useCache: false });
+  });
+
+  it('gives up after the repair attempts are exhausted', async () => {
+    (claudeAI as any).client = {};
+    const sendMessage = jest.spyOn(claudeAI, 'sendMessage').mockResolvedValue(reply('"not": "valid"}'));
+
+    await expect(claudeAI.generateStructured('Rate this', RatingFrameworkSchema, { maxRepairs: 1 }))
+      .rejects.toMatchObject({ statusCode: 502, details: { service: 'claude' } });
+    expect(sendMessage).toHaveBeenCalledTimes(2);
+  });
+
+  it('returns validated sample data in mock mode', async () => {
+    const resources = await claudeAI.generateResourcesFromResearch({ productName: 'Acme' }, {});
+
+    expect(resources.isMock).toBe(true);
+    expect(resources.personas[0]).toMatchObject({ name: 'Primary Decision Maker', painPoints: [] });
+  });
+});
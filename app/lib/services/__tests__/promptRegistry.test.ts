@@ -0,0 +1,144 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Prompt Registry and Experiment Unit Tests
+ *
+ * Tests the central prompt catalogue and prompt A/B experiments:
+ * - Declared variables checked against the template text
+ * - Rendering, default (non-draft) versions and user-filled placeholders
+ * - Deterministic sampling into side-by-side comparisons
+ * - Kept/exported outcomes and per-version win rates
+ */
+
+import promptRegistry, { PromptRegistry, PromptTemplateVersion } from '../promptRegistry';
+import { MemoryPromptExperimentStore, PromptExperimentService } from '../promptExperimentService';
+
+const greeting = (overrides: Partial<PromptTemplateVersion> = {}): PromptTemplateVersion => ({
+  id: 'test.greeting',
+  version: 1,
+  description: 'Greeting',
+  target: { platform: 'claude', operation: 'general' },
+  variables: ['NAME'],
+  placeholders: ['COMPANY_NAME'],
+  template: 'Write a greeting for [NAME] at [COMPANY_NAME].',
+  ...overrides
+});
+
+describe('PromptRegistry', () => {
+  it('rejects templates whose declared variables do not match the text', () => {
+    const registry = new PromptRegistry();
+
+    expect(() => registry.register(greeting({ variables: [] }))).toThrow(/do not match/);
+    expect(() => registry.register(greeting({ variables: ['NAME', 'TONE'] }))).toThrow(/do not match/);
+
+    registry.register(greeting());
+    expect(() => registry.register(greeting())).toThrow(/already registered/);
+  });
+
+  it('renders the latest published version unless a version is requested', () => {
+    const registry = new PromptRegistry([
+      greeting(),
+      greeting({ version: 2, draft: true, template: 'Say hi to [NAME] from [COMPANY_NAME].' })
+    ]);
+
+    expect(registry.render('test.greeting', { NAME: '[Ada]' })).toEqual({
+      templateId: 'test.greeting',
+      version: 1,
+      prompt: 'Write a greeting for [Ada] at [COMPANY_NAME].',
+      target: { platform: 'claude', operation: 'general' }
+    });
+    expect(registry.render('test.greeting', { NAME: 'Ada', COMPANY_NAME: 'Acme' }, 2).prompt)
+      .toBe('Say hi to Ada from Acme.');
+
+    expect(() => registry.render('test.greeting', {})).toThrow(expect.objectContaining({
+      statusCode: 400,
+      details: expect.objectContaining({ missing: ['NAME'] })
+    }));
+    expect(() => registry.get('test.unknown')).toThrow(expect.objectContaining({ statusCode: 404 }));
+  });
+
+  it('loads the platform prompts', () => {
+    expect(promptRegistry.get('icp.resources').version).toBe(1);
+    expect(promptRegistry.getVersions('translation.narrative').map(template => template.version)).toEqual([1, 2]);
+    expect(promptRegistry.list().map(template => template.target.platform)).toEqual(
+      expect.arrayContaining(['claude', 'chatgpt', 'gemini'])
+    );
+  });
+});
+
+describe('PromptExperimentService', () => {
+  let service: PromptExperimentService;
+
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  beforeEach(() => {
+    const registry = new PromptRegistry([
+      greeting(),
+      greeting({ version: 2, draft: true, template: 'Say hi to [NAME] from [COMPANY_NAME].' })
+    ]);
+    service = new PromptExperimentService(new MemoryPromptExperimentStore(), registry);
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('serves the default version when no experiment runs', async () => {
+    expect(await service.assign('test.greeting')).toEqual({ templateId: 'test.greeting', versions: [1] });
+    await expect(service.createExperiment({ templateId: 'test.greeting', candidateVersion: 1 }))
+      .rejects.toMatchObject({ statusCode: 400 });
+  });
+
+  it('samples requests deterministically into side-by-side comparisons', async () => {
+    const experiment = await service.createExperiment({ templateId: 'test.greeting', candidateVersion: 2, sampleRate: 0.5 });
+
+    const assignments = await Promise.all(
+      Array.from({ length: 200 }, (_, index) => service.assign('test.greeting', { requestKey: `request-${index}` }))
+    );
+    const compared = assignments.filter(assignment => assignment.comparisonId);
+
+    expect(compared.length).toBeGreaterThan(70);
+    expect(compared.length).toBeLessThan(130);
+    expect(compared.every(assignment => [...assignment.versions].sort().join() === '1,2')).toBe(true);
+    expect(assignments.filter(assignment => !assignment.comparisonId).every(assignment => assignment.versions.join() === '1')).toBe(true);
+
+    // The same request key always lands in the same bucket
+    const again = await service.assign('test.greeting', { requestKey: 'request-0' });
+    expect(Boolean(again.comparisonId)).toBe(Boolean(assignments[0].comparisonId));
+    expect(again.experimentId).toBe(experiment.id);
+  });
+
+  it('records kept and exported outcomes and reports win rates', async () => {
+    const experiment = await service.createExperiment({ templateId: 'test.greeting', candidateVersion: 2, sampleRate: 1 });
+    const [first, second, third] = await Promise.all(
+      ['a', 'b', 'c'].map(requestKey => service.assign('test.greeting', { requestKey, userId: 'user-1' }))
+    );
+
+    await service.recordOutcome(first.comparisonId!, { version: 2, action: 'exported', userId: 'user-1' });
+    await service.recordOutcome(first.comparisonId!, { version: 2, action: 'kept', userId: 'user-1' }); // Not a downgrade
+    await service.recordOutcome(second.comparisonId!, { version: 2, action: 'kept' });
+    await service.recordOutcome(third.comparisonId!, { version: 1, action: 'kept' });
+
+    await expect(service.recordOutcome(third.comparisonId!, { version: 3, action: 'kept' }))
+      .rejects.toMatchObject({ statusCode: 400 });
+    await expect(service.recordOutcome(third.comparisonId!, { version: 1, action: 'kept', userId: 'user-2' }))
+      .rejects.toMatchObject({ statusCode: 403 });
+    await expect(service.recordOutcome('pcmp_missing', { version: 1, action: 'kept' }))
+      .rejects.toMatchObject({ statusCode: 404 });
+
+    const results = await service.getResults(experiment.id);
+    expect(results).toMatchObject({ comparisons: 3, decided: 3 });
+    expect(results.versions).toEqual([
+      { version: 1, role: 'control', kept: 1, exported: 0, wins: 1, win_rate: 0.333 },
+      { version: 2, role: 'candidate', kept: 1, exported: 1, wins: 2, win_rate: 0.667 }
+    ]);
+
+    // Starting a new experiment on the prompt stops the running one
+    await service.createExperiment({ templateId: 'test.greeting', candidateVersion: 2, controlVersion: 1 });
+    expect((await service.getResults(experiment.id)).experiment.status).toBe('stopped');
+  });
+});
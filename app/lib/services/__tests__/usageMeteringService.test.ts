@@ -0,0 +1,105 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Usage Metering Unit Tests
+ *
+ * Tests monthly quotas per RBAC role:
+ * - Quota lookup from role permissions
+ * - Recording and enforcing billable events per customer
+ * - Atomic quota reservations under concurrency
+ * - Billing period boundaries
+ */
+
+import { ROLES, getUsageQuota } from '@/app/lib/middleware/rbac';
+import {
+  MemoryUsageStore,
+  UsageMeteringService,
+  getBillingPeriod
+} from '../usageMeteringService';
+
+jest.mock('@/app/lib/middleware/auth', () => ({
+  authenticateRequest: jest.fn(),
+}));
+
+describe('getUsageQuota', () => {
+  it('derives export quotas from role permissions', () => {
+    expect(getUsageQuota(ROLES.USER, 'export_pdf')).toBe(10);
+    expect(getUsageQuota(ROLES.USER, 'export_docx')).toBe(0); // No EXPORT_DOCX permission
+    expect(getUsageQuota(ROLES.PREMIUM, 'export_docx')).toBeNull(); // UNLIMITED_EXPORTS
+    expect(getUsageQuota(ROLES.ADMIN, 'icp_generation')).toBeNull();
+  });
+
+  it('meters unknown roles like basic users', () => {
+    expect(getUsageQuota('guest', 'ai_call')).toBe(getUsageQuota(ROLES.USER, 'ai_call'));
+    expect(getUsageQuota('guest', 'icp_generation')).toBe(0);
+  });
+});
+
+describe('UsageMeteringService', () => {
+  let store: MemoryUsageStore;
+  let service: UsageMeteringService;
+
+  beforeEach(() => {
+    store = new MemoryUsageStore();
+    service = new UsageMeteringService(store);
+  });
+
+  it('enforces the monthly quota per customer', async () => {
+    for (let i = 0; i < 5; i++) {
+      await service.assertQuota('cust-1', ROLES.USER, 'icp_generation');
+      await service.recordUsage('cust-1', 'icp_generation');
+    }
+
+    await expect(service.assertQuota('cust-1', ROLES.USER, 'icp_generation'))
+      .rejects.toEqual(expect.objectContaining({ type: 'RATE_LIMIT', statusCode: 429 }));
+
+    // Other customers have their own allowance
+    const other = await service.checkQuota('cust-2', ROLES.USER, 'icp_generation');
+    expect(other).toMatchObject({ used: 0, remaining: 5, allowed: true });
+  });
+
+  it('admits only the remaining quota when reservations race', async () => {
+    const reservations = await Promise.all(
+      Array.from({ length: 10 }, () => service.reserveUsage('cust-1', ROLES.USER, 'icp_generation'))
+    );
+
+    const admitted = reservations.filter(reservation => reservation.status.allowed);
+    expect(admitted).toHaveLength(5);
+    expect(admitted.every(reservation => reservation.id)).toBe(true);
+    expect(reservations.filter(reservation => reservation.id)).toHaveLength(5);
+
+    // Releasing a reservation gives its slot back
+    await service.releaseUsage(admitted[0]);
+    expect(await service.checkQuota('cust-1', ROLES.USER, 'icp_generation'))
+      .toMatchObject({ used: 4, remaining: 1, allowed: true });
+  });
+
+  it('rejects events the role is not entitled to', async () => {
+    await expect(service.assertQuota('cust-1', ROLES.USER, 'export_docx'))
+      .rejects.toEqual(expect.objectContaining({ type: 'AUTHORIZATION', statusCode: 403 }));
+  });
+
+  it('ignores usage from previous billing periods', async () => {
+    await store.record({
+      customerId: 'cust-1',
+      event: 'export_pdf',
+      quantity: 10,
+      createdAt: Date.parse(getBillingPeriod().start) - 1
+    });
+    await service.recordUsage('cust-1', 'export_pdf', { quantity: 3 });
+
+    const summary = await service.getUsageSummary('cust-1', ROLES.USER);
+    expect(summary.quotas.export_pdf).toMatchObject({ used: 3, limit: 10, remaining: 7 });
+    expect(summary.quotas.export_docx).toMatchObject({ limit: 0, allowed: false });
+  });
+
+  it('computes UTC calendar month periods', () => {
+    const period = getBillingPeriod(Date.UTC(2024, 1, 29, 23, 59));
+    expect(period).toEqual({
+      start: '2024-02-01T00:00:00.000Z',
+      end: '2024-03-01T00:00:00.000Z'
+    });
+  });
+});
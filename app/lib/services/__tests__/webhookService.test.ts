@@ -0,0 +1,125 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Webhook Service Unit Tests
+ *
+ * Tests server-side generation sessions and the Make.com callback:
+ * - Signed webhook verification (signature, timestamp tolerance)
+ * - Idempotent receiveWebhookData (retried deliveries are applied once)
+ * - Sessions resumable by id and owned by one customer
+ */
+
+import { MemoryGenerationSessionStore, WebhookService } from '../webhookService';
+import { signWebhookPayload, verifyWebhookSignature } from '@/app/lib/utils/webhook-signature';
+
+const makePayload = (sessionId: string, content: string) => ({
+  session_id: sessionId,
+  resourcesCollection: {
+    icp_analysisCollection: { title: 'ICP', content }
+  }
+});
+
+describe('verifyWebhookSignature', () => {
+  const secret = 'make-secret';
+  const body = JSON.stringify(makePayload('gen_1', 'ICP content'));
+  const now = Date.UTC(2025, 0, 1);
+  const timestamp = Math.floor(now / 1000);
+
+  it('accepts a delivery signed with the shared secret', () => {
+    const signature = signWebhookPayload(secret, timestamp, 'dlv_1', body);
+
+    expect(verifyWebhookSignature({ secret, id: 'dlv_1', body, signature, timestamp: String(timestamp), now })).toEqual({ valid: true });
+  });
+
+  it('rejects tampered bodies, wrong secrets, changed delivery ids and stale timestamps', () => {
+    const signature = signWebhookPayload(secret, timestamp, 'dlv_1', body);
+
+    expect(verifyWebhookSignature({ secret, id: 'dlv_1', body: `${body} `, signature, timestamp: String(timestamp), now }).valid).toBe(false);
+    expect(verifyWebhookSignature({ secret, id: 'dlv_2', body, signature, timestamp: String(timestamp), now }))
+      .toEqual({ valid: false, reason: 'Signature mismatch' });
+    expect(verifyWebhookSignature({ secret: 'other', id: 'dlv_1', body, signature, timestamp: String(timestamp), now }).valid).toBe(false);
+    expect(verifyWebhookSignature({
+      secret,
+      id: 'dlv_1',
+      body,
+      signature,
+      timestamp: String(timestamp),
+      now: now + 10 * 60 * 1000
+    })).toEqual({ valid: false, reason: 'Timestamp outside the allowed tolerance' });
+    expect(verifyWebhookSignature({ secret, id: 'dlv_1', body, signature: null, timestamp: null, now }).valid).toBe(false);
+  });
+});
+
+describe('WebhookService', () => {
+  let store: MemoryGenerationSessionStore;
+  let service: WebhookService;
+
+  beforeEach(() => {
+    store = new MemoryGenerationSessionStore();
+    service = new WebhookService(store);
+  });
+
+  it('stores webhook resources on the session so any client can resume it by id', async () => {
+    const sessionId = await service.startGeneration('CUST_42', undefined, { productName: 'Acme' });
+
+    expect(await service.receiveWebhookData(makePayload(sessionId, 'Rich ICP'))).toEqual({ sessionId, status: 'stored' });
+
+    // A different service instance over the same store stands in for another server/browser
+    const session = await new WebhookService(store).getSession(sessionId);
+    expect(session?.status).toBe('completed');
+    expect(session?.productData?.productName).toBe('Acme');
+    expect(session?.resources?.icp_analysis.content).toBe('Rich ICP');
+  });
+
+  it('applies a retried delivery only once', async () => {
+    const sessionId = await service.startGeneration('CUST_42');
+
+    await service.receiveWebhookData(makePayload(sessionId, 'First'), { deliveryId: 'dlv_1' });
+    const completedAt = (await service.getSession(sessionId))?.completedAt;
+
+    const retry = await service.receiveWebhookData(makePayload(sessionId, 'Changed on retry'), { deliveryId: 'dlv_1' });
+    expect(retry.status).toBe('duplicate');
+
+    // Without a delivery id, identical payloads are recognised by their hash
+    await service.receiveWebhookData(makePayload(sessionId, 'Second'));
+    expect((await service.receiveWebhookData(makePayload(sessionId, 'Second'))).status).toBe('duplicate');
+
+    const session = await service.getSession(sessionId);
+    expect(session?.resources?.icp_analysis.content).toBe('Second');
+    // dlv_1 and the hashes of both applied payloads
+    expect(session?.deliveryIds).toHaveLength(3);
+    expect(session?.completedAt).toBeGreaterThanOrEqual(completedAt!);
+  });
+
+  it('reports a payload replayed under a different delivery id as a duplicate', async () => {
+    const sessionId = await service.startGeneration('CUST_42');
+
+    await service.receiveWebhookData(makePayload(sessionId, 'Original'), { deliveryId: 'dlv_1' });
+    const replay = await service.receiveWebhookData(makePayload(sessionId, 'Original'), { deliveryId: 'dlv_attacker' });
+
+    expect(replay).toEqual({ sessionId, status: 'duplicate' });
+    expect((await service.getSession(sessionId))?.deliveryIds).not.toContain('dlv_attacker');
+  });
+
+  it('rejects payloads without a session id', async () => {
+    expect((await service.receiveWebhookData({ resourcesCollection: {} })).status).toBe('rejected');
+  });
+
+  it('refuses to restart another customer\'s session', async () => {
+    const sessionId = await service.startGeneration('CUST_42');
+
+    await expect(service.startGeneration('CUST_7', sessionId)).rejects.toMatchObject({ statusCode: 403 });
+  });
+
+  it('removes sessions untouched for longer than the retention window', async () => {
+    await service.startGeneration('CUST_42', 'gen_old');
+    const old = await store.get('gen_old');
+    await store.save({ ...old!, updatedAt: Date.now() - 8 * 24 * 60 * 60 * 1000 });
+    await service.startGeneration('CUST_42', 'gen_new');
+
+    expect(await service.cleanupExpiredSessions()).toBe(1);
+    expect((await service.listSessions('CUST_42')).map(session => session.id)).toEqual(['gen_new']);
+  });
+});
@@ -0,0 +1,560 @@
+/**
+ * FUNCTIONALITY STATUS: REAL
+ *
+ * REAL IMPLEMENTATIONS:
+ * - Ledger entry for every Claude call (customer, operation, model, tokens,
+ *   cost, cache hit, latency, success)
+ * - Cost from the per-model pricing table in claudeModelRouting
+ * - Per-customer monthly AI budgets with alerts at 80% and 100%
+ * - Daily, monthly, per-operation, per-model and per-user aggregation for
+ *   the admin cost dashboard
+ * - Pluggable ledger store (memory for development, Supabase for production)
+ *
+ * FAKE IMPLEMENTATIONS:
+ * - None - all functionality is production-ready
+ *
+ * MISSING REQUIREMENTS:
+ * - Supabase store needs the ai_cost_ledger and ai_cost_budgets tables
+ *   (see SupabaseAICostStore)
+ *
+ * PRODUCTION READINESS: YES
+ * - Aggregation loads the entries of the requested range; move it into SQL
+ *   views once the ledger grows past a few hundred thousand rows a month
+ * - Budget alerts are deduplicated per process, so each instance may alert once
+ */
+
+import { createAPIError, ErrorType } from '@/app/lib/middleware/error-handler';
+import { getBillingPeriod } from './usageMeteringService';
+import { calculateCost } from './claudeModelRouting';
+
+// ============================================================================
+// LEDGER STORE
+// ============================================================================
+
+export interface AICostEntry {
+  customerId: string | null;     // null for calls not billed to a customer
+  userId?: string;
+  operation: string;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;               // 0 for cache hits
+  cacheHit: boolean;
+  latencyMs: number;
+  success: boolean;
+  error?: string;
+  createdAt: number;
+}
+
+export interface AICostQuery {
+  since: number;                 // ms since epoch, inclusive
+  until?: number;                // ms since epoch, exclusive
+  customerId?: string;
+}
+
+export interface AICostStore {
+  readonly name: string;
+  record(entry: AICostEntry): Promise<void>;
+  list(query: AICostQuery): Promise<AICostEntry[]>;
+  /** Monthly budget override for a customer, null when the default applies */
+  getBudget(customerId: string): Promise<number | null>;
+  setBudget(customerId: string, monthlyBudgetUsd: number): Promise<void>;
+}
+
+/**
+ * Process-local store. The ledger resets on restart, so only use it for development.
+ */
+export class MemoryAICostStore implements AICostStore {
+  readonly name = 'memory';
+  private entries: AICostEntry[] = [];
+  private budgets = new Map<string, number>();
+
+  async record(entry: AICostEntry): Promise<void> {
+    this.entries.push(entry);
+  }
+
+  async list({ since, until = Infinity, customerId }: AICostQuery): Promise<AICostEntry[]> {
+    return this.entries.filter(entry =>
+      entry.createdAt >= since &&
+      entry.createdAt < until &&
+      (!customerId || entry.customerId === customerId)
+    );
+  }
+
+  async getBudget(customerId: string): Promise<number | null> {
+    return this.budgets.get(customerId) ?? null;
+  }
+
+  async setBudget(customerId: string, monthlyBudgetUsd: number): Promise<void> {
+    this.budgets.set(customerId, monthlyBudgetUsd);
+  }
+
+  clear(): void {
+    this.entries = [];
+    this.budgets.clear();
+  }
+}
+
+/**
+ * Supabase-backed store.
+ *
+ * Expected tables:
+ *   create table ai_cost_ledger (
+ *     id bigint generated always as identity primary key,
+ *     customer_id text,
+ *     user_id text,
+ *     operation text not null,
+ *     model text not null,
+ *     input_tokens integer not null default 0,
+ *     output_tokens integer not null default 0,
+ *     cost_usd numeric(12, 6) not null default 0,
+ *     cache_hit boolean not null default false,
+ *     latency_ms integer not null default 0,
+ *     success boolean not null default true,
+ *     error text,
+ *     created_at timestamptz not null default now()
+ *   );
+ *   create index ai_cost_ledger_created on ai_cost_ledger (created_at);
+ *   create index ai_cost_ledger_customer on ai_cost_ledger (customer_id, created_at);
+ *
+ *   create table ai_cost_budgets (
+ *     customer_id text primary key,
+ *     monthly_budget_usd numeric(12, 2) not null,
+ *     updated_at timestamptz not null default now()
+ *   );
+ */
+export class SupabaseAICostStore implements AICostStore {
+  readonly name = 'supabase';
+
+  async record(entry: AICostEntry): Promise<void> {
+    const client = await this.client();
+    const { error } = await (client.from('ai_cost_ledger') as any).insert({
+      customer_id: entry.customerId,
+      user_id: entry.userId ?? null,
+      operation: entry.operation,
+      model: entry.model,
+      input_tokens: entry.inputTokens,
+      output_tokens: entry.outputTokens,
+      cost_usd: entry.costUsd,
+      cache_hit: entry.cacheHit,
+      latency_ms: Math.round(entry.latencyMs),
+      success: entry.success,
+      error: entry.error ?? null,
+      created_at: new Date(entry.createdAt).toISOString()
+    });
+
+    if (error) {
+      console.error('❌ Failed to record AI cost entry:', error);
+    }
+  }
+
+  async list({ since, until, customerId }: AICostQuery): Promise<AICostEntry[]> {
+    const client = await this.client();
+    let query = (client.from('ai_cost_ledger') as any)
+      .select('*')
+      .gte('created_at', new Date(since).toISOString());
+
+    if (until !== undefined) query = query.lt('created_at', new Date(until).toISOString());
+    if (customerId) query = query.eq('customer_id', customerId);
+
+    const { data, error } = await query;
+    if (error) {
+      throw createAPIError(ErrorType.DATABASE, 'Failed to load AI cost ledger', 500, { customerId });
+    }
+
+    return ((data || []) as any[]).map(row => ({
+      customerId: row.customer_id,
+      userId: row.user_id ?? undefined,
+      operation: row.operation,
+      model: row.model,
+      inputTokens: row.input_tokens,
+      outputTokens: row.output_tokens,
+      costUsd: Number(row.cost_usd),
+      cacheHit: row.cache_hit,
+      latencyMs: row.latency_ms,
+      success: row.success,
+      error: row.error ?? undefined,
+      createdAt: Date.parse(row.created_at)
+    }));
+  }
+
+  async getBudget(customerId: string): Promise<number | null> {
+    const client = await this.client();
+    const { data, error } = await (client.from('ai_cost_budgets') as any)
+      .select('monthly_budget_usd')
+      .eq('customer_id', customerId)
+      .maybeSingle();
+
+    if (error) {
+      throw createAPIError(ErrorType.DATABASE, 'Failed to load AI budget', 500, { customerId });
+    }
+
+    return data ? Number(data.monthly_budget_usd) : null;
+  }
+
+  async setBudget(customerId: string, monthlyBudgetUsd: number): Promise<void> {
+    const client = await this.client();
+    const { error } = await (client.from('ai_cost_budgets') as any).upsert({
+      customer_id: customerId,
+      monthly_budget_usd: monthlyBudgetUsd,
+      updated_at: new Date().toISOString()
+    });
+
+    if (error) {
+      throw createAPIError(ErrorType.DATABASE, 'Failed to save AI budget', 500, { customerId });
+    }
+  }
+
+  private async client() {
+    const { supabaseAdmin } = await import('@/app/lib/supabase/admin');
+    return supabaseAdmin;
+  }
+}
+
+/**
+ * Build the store configured through AI_COST_STORE (memory | supabase)
+ */
+export function createAICostStore(type: string | undefined = process.env.AI_COST_STORE): AICostStore {
+  if (type === 'supabase') {
+    return new SupabaseAICostStore();
+  }
+
+  if (type && type !== 'memory') {
+    console.warn(`⚠️ Unknown AI_COST_STORE "${type}", falling back to memory`);
+  }
+
+  return new MemoryAICostStore();
+}
+
+// ============================================================================
+// BUDGETS
+// ============================================================================
+
+/**
+ * Platform-wide budgets shown on the cost dashboard
+ */
+export const PLATFORM_BUDGETS = {
+  dailyUsd: Number(process.env.AI_DAILY_BUDGET_USD) || 200,
+  monthlyUsd: Number(process.env.AI_MONTHLY_BUDGET_USD) || 5000
+};
+
+// Monthly budget for customers without an override
+export const DEFAULT_CUSTOMER_MONTHLY_BUDGET_USD = Number(process.env.AI_CUSTOMER_MONTHLY_BUDGET_USD) || 100;
+
+// Share of the budget at which an alert is raised
+export const BUDGET_ALERT_THRESHOLDS = [0.8, 1] as const;
+
+export interface BudgetAlert {
+  customerId: string;
+  month: string;                 // YYYY-MM
+  threshold: number;             // 0.8 or 1
+  spentUsd: number;
+  budgetUsd: number;
+  createdAt: number;
+}
+
+export interface CustomerBudgetStatus {
+  customer_id: string;
+  budget_usd: string;
+  spent_usd: string;
+  percent_used: number;
+}
+
+// ============================================================================
+// DASHBOARD AGGREGATES (snake_case, as served to app/admin/costs)
+// ============================================================================
+
+export interface CostBreakdown {
+  calls: number;
+  cost: string;
+}
+
+export interface CostSummary {
+  total_calls: number;
+  successful_calls: number;
+  failed_calls: number;
+  cache_hits: number;
+  total_cost_usd: string;
+  total_tokens: number;
+  operations_breakdown: Record<string, CostBreakdown>;
+  models_breakdown: Record<string, CostBreakdown>;
+}
+
+export interface MonthlyCostSummary {
+  month: string;
+  total_calls: number;
+  total_cost_usd: string;
+  total_tokens: number;
+  avg_cost_per_call: string;
+  avg_tokens_per_call: number;
+}
+
+export interface DailyCostSummary {
+  date: string;
+  total_calls: number;
+  total_cost_usd: string;
+  total_tokens: number;
+}
+
+export interface TopUserCost {
+  user_id: string;
+  total_calls: number;
+  total_cost_usd: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_ALERTS = 100;
+
+const formatUsd = (amount: number) => amount.toFixed(4);
+
+function startOfUTCDay(now: number): number {
+  const date = new Date(now);
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+}
+
+function addBreakdown(breakdown: Record<string, { calls: number; cost: number }>, key: string, cost: number) {
+  const current = breakdown[key] ?? { calls: 0, cost: 0 };
+  breakdown[key] = { calls: current.calls + 1, cost: current.cost + cost };
+}
+
+function formatBreakdown(breakdown: Record<string, { calls: number; cost: number }>): Record<string, CostBreakdown> {
+  return Object.fromEntries(
+    Object.entries(breakdown).map(([key, value]) => [key, { calls: value.calls, cost: formatUsd(value.cost) }])
+  );
+}
+
+/**
+ * Totals and per-operation/per-model breakdowns for a set of entries
+ */
+export function summarizeCosts(entries: AICostEntry[]): CostSummary {
+  const operations: Record<string, { calls: number; cost: number }> = {};
+  const models: Record<string, { calls: number; cost: number }> = {};
+  let cost = 0;
+  let tokens = 0;
+  let successful = 0;
+  let cacheHits = 0;
+
+  for (const entry of entries) {
+    cost += entry.costUsd;
+    tokens += entry.inputTokens + entry.outputTokens;
+    if (entry.success) successful++;
+    if (entry.cacheHit) cacheHits++;
+    addBreakdown(operations, entry.operation, entry.costUsd);
+    addBreakdown(models, entry.model, entry.costUsd);
+  }
+
+  return {
+    total_calls: entries.length,
+    successful_calls: successful,
+    failed_calls: entries.length - successful,
+    cache_hits: cacheHits,
+    total_cost_usd: formatUsd(cost),
+    total_tokens: tokens,
+    operations_breakdown: formatBreakdown(operations),
+    models_breakdown: formatBreakdown(models)
+  };
+}
+
+export class AICostLedgerService {
+  private store: AICostStore;
+  private monthlySpend = new Map<string, { month: string; usd: number }>();
+  private alertedKeys = new Set<string>();
+  private alerts: BudgetAlert[] = [];
+
+  constructor(store: AICostStore = createAICostStore()) {
+    this.store = store;
+  }
+
+  get storeName(): string {
+    return this.store.name;
+  }
+
+  /**
+   * Write a ledger entry, pricing it from the model and token counts, then
+   * check the customer's monthly budget
+   */
+  async record(
+    entry: Omit<AICostEntry, 'costUsd' | 'createdAt'> & { createdAt?: number }
+  ): Promise<AICostEntry> {
+    const recorded: AICostEntry = {
+      ...entry,
+      costUsd: entry.cacheHit || !entry.success
+        ? 0
+        : calculateCost(entry.model, { input_tokens: entry.inputTokens, output_tokens: entry.outputTokens }),
+      createdAt: entry.createdAt ?? Date.now()
+    };
+
+    await this.store.record(recorded);
+
+    if (recorded.customerId && recorded.costUsd > 0) {
+      await this.trackBudget(recorded.customerId, recorded.costUsd, recorded.createdAt);
+    }
+
+    return recorded;
+  }
+
+  async getTodaysCosts(options: { customerId?: string; now?: number } = {}): Promise<CostSummary> {
+    const since = startOfUTCDay(options.now ?? Date.now());
+    return summarizeCosts(await this.store.list({ since, customerId: options.customerId }));
+  }
+
+  async getMonthlyCosts(options: { customerId?: string; now?: number } = {}): Promise<MonthlyCostSummary> {
+    const period = getBillingPeriod(options.now);
+    const entries = await this.store.list({ since: Date.parse(period.start), customerId: options.customerId });
+    const summary = summarizeCosts(entries);
+    const cost = parseFloat(summary.total_cost_usd);
+
+    return {
+      month: period.start.slice(0, 7),
+      total_calls: summary.total_calls,
+      total_cost_usd: summary.total_cost_usd,
+      total_tokens: summary.total_tokens,
+      avg_cost_per_call: formatUsd(summary.total_calls ? cost / summary.total_calls : 0),
+      avg_tokens_per_call: summary.total_calls ? Math.round(summary.total_tokens / summary.total_calls) : 0
+    };
+  }
+
+  /**
+   * Days with activity in the last `days` days, most recent first
+   */
+  async getDailyCosts(options: { customerId?: string; days?: number; now?: number } = {}): Promise<DailyCostSummary[]> {
+    const { days = 30, now = Date.now() } = options;
+    const since = startOfUTCDay(now) - (days - 1) * DAY_MS;
+    const byDate = new Map<string, DailyCostSummary & { cost: number }>();
+
+    for (const entry of await this.store.list({ since, customerId: options.customerId })) {
+      const date = new Date(entry.createdAt).toISOString().slice(0, 10);
+      const day = byDate.get(date) ?? { date, total_calls: 0, total_cost_usd: '0', total_tokens: 0, cost: 0 };
+      day.total_calls++;
+      day.total_tokens += entry.inputTokens + entry.outputTokens;
+      day.cost += entry.costUsd;
+      byDate.set(date, day);
+    }
+
+    return Array.from(byDate.values())
+      .sort((a, b) => b.date.localeCompare(a.date))
+      .map(({ cost, ...day }) => ({ ...day, total_cost_usd: formatUsd(cost) }));
+  }
+
+  /**
+   * Highest spending users this month (customer when the user is unknown)
+   */
+  async getTopUsers(options: { limit?: number; now?: number } = {}): Promise<TopUserCost[]> {
+    const { limit = 10 } = options;
+    const since = Date.parse(getBillingPeriod(options.now).start);
+    const byUser = new Map<string, { calls: number; cost: number }>();
+
+    for (const entry of await this.store.list({ since })) {
+      const userId = entry.userId ?? entry.customerId;
+      if (!userId) continue;
+      const current = byUser.get(userId) ?? { calls: 0, cost: 0 };
+      byUser.set(userId, { calls: current.calls + 1, cost: current.cost + entry.costUsd });
+    }
+
+    return Array.from(byUser.entries())
+      .sort(([, a], [, b]) => b.cost - a.cost)
+      .slice(0, limit)
+      .map(([userId, value]) => ({ user_id: userId, total_calls: value.calls, total_cost_usd: formatUsd(value.cost) }));
+  }
+
+  async getCustomerBudget(customerId: string): Promise<number> {
+    return (await this.store.getBudget(customerId)) ?? DEFAULT_CUSTOMER_MONTHLY_BUDGET_USD;
+  }
+
+  async setCustomerBudget(customerId: string, monthlyBudgetUsd: number): Promise<void> {
+    if (!Number.isFinite(monthlyBudgetUsd) || monthlyBudgetUsd < 0) {
+      throw createAPIError(ErrorType.VALIDATION, 'monthlyBudgetUsd must be a non-negative number', 400, { customerId });
+    }
+    await this.store.setBudget(customerId, monthlyBudgetUsd);
+  }
+
+  /**
+   * Month-to-date spend against budget for every customer with spend this
+   * month, highest share first
+   */
+  async getCustomerBudgets(options: { now?: number } = {}): Promise<CustomerBudgetStatus[]> {
+    const since = Date.parse(getBillingPeriod(options.now).start);
+    const spend = new Map<string, number>();
+
+    for (const entry of await this.store.list({ since })) {
+      if (!entry.customerId) continue;
+      spend.set(entry.customerId, (spend.get(entry.customerId) ?? 0) + entry.costUsd);
+    }
+
+    const statuses = await Promise.all(Array.from(spend.entries()).map(async ([customerId, spent]) => {
+      const budget = await this.getCustomerBudget(customerId);
+      return {
+        customer_id: customerId,
+        budget_usd: budget.toFixed(2),
+        spent_usd: formatUsd(spent),
+        percent_used: budget > 0 ? Math.round((spent / budget) * 1000) / 10 : 100
+      };
+    }));
+
+    return statuses.sort((a, b) => b.percent_used - a.percent_used);
+  }
+
+  /**
+   * Budget alerts raised by this process, most recent first
+   */
+  getAlerts(): BudgetAlert[] {
+    return [...this.alerts].reverse();
+  }
+
+  /**
+   * Add to the customer's month-to-date spend and alert on crossed thresholds
+   */
+  private async trackBudget(customerId: string, costUsd: number, now: number): Promise<void> {
+    try {
+      const period = getBillingPeriod(now);
+      const month = period.start.slice(0, 7);
+      let spend = this.monthlySpend.get(customerId);
+
+      if (!spend || spend.month !== month) {
+        // First call this month for the process: load what other instances spent
+        const entries = await this.store.list({ since: Date.parse(period.start), customerId });
+        spend = { month, usd: entries.reduce((sum, entry) => sum + entry.costUsd, 0) };
+      } else {
+        spend.usd += costUsd;
+      }
+      this.monthlySpend.set(customerId, spend);
+
+      const budgetUsd = await this.getCustomerBudget(customerId);
+      for (const threshold of BUDGET_ALERT_THRESHOLDS) {
+        const key = `${customerId}:${month}:${threshold}`;
+        if (spend.usd < budgetUsd * threshold || this.alertedKeys.has(key)) continue;
+
+        this.alertedKeys.add(key);
+        await this.raiseAlert({ customerId, month, threshold, spentUsd: spend.usd, budgetUsd, createdAt: now });
+      }
+    } catch (error) {
+      // Budget tracking must never fail a completed call
+      console.error(`❌ Failed to check AI budget for ${customerId}:`, error);
+    }
+  }
+
+  private async raiseAlert(alert: BudgetAlert): Promise<void> {
+    this.alerts.push(alert);
+    if (this.alerts.length > MAX_ALERTS) {
+      this.alerts.shift();
+    }
+
+    console.warn(
+      `⚠️ AI budget alert: ${alert.customerId} spent $${alert.spentUsd.toFixed(2)} of $${alert.budgetUsd.toFixed(2)} ` +
+      `(${Math.round(alert.threshold * 100)}%) in ${alert.month}`
+    );
+
+    const { default: eventBus } = await import('@/app/lib/events/EventBus');
+    await eventBus.emit('ai_budget_alert', {
+      customerId: alert.customerId,
+      threshold: alert.threshold,
+      spentUsd: alert.spentUsd,
+      budgetUsd: alert.budgetUsd,
+      month: alert.month
+    });
+  }
+}
+
+// Export singleton instance
+export const aiCostLedgerService = new AICostLedgerService();
+export default aiCostLedgerService;
@@ -14,6 +14,7 @@
 
 import { supabase } from '@/app/lib/supabase/client';
 import { API_CONFIG, getBackendUrl } from '@/app/lib/config/api';
+import { workspaceHeaders } from '@/app/lib/workspaces/activeWorkspace';
 
 export interface AuthBridgeConfig {
   backendUrl: string;
@@ -26,6 +27,7 @@ export interface BackendAuthHeaders {
   'Authorization': string;
   'Content-Type': string;
   'X-Requested-With'?: string;
+  'x-workspace-id'?: string;
 }
 
 export interface BackendResponse<T = any> {
@@ -95,7 +97,8 @@ export class AuthBridgeService {
       return {
         'Authorization': `Bearer ${session!.access_token}`,
         'Content-Type': 'application/json',
-        'X-Requested-With': 'XMLHttpRequest'
+        'X-Requested-With': 'XMLHttpRequest',
+        ...workspaceHeaders()
       };
 
     } catch (error) {
@@ -5,14 +5,23 @@
  * Provides professional business case templates and AI-enhanced generation.
  *
  * Updated: 2025-10-12 - Integrated with Supabase database for real data persistence
+ *
+ * Saved cases live in the review workflow (/api/business-cases): the server
+ * resolves the workspace and checks membership, every save is a new version
+ * and final cases can't be edited. Generated content is stored as section
+ * fields, so it round-trips in the shape below with some detail dropped
+ * (company size, recommendation priorities, NPV/IRR).
  */
 
 import { env } from '@/app/lib/config/environment';
-import { supabase } from '@/app/lib/supabase/client';
 import { API_CONFIG } from '@/app/lib/config/api';
+import type { BusinessCaseView } from '@/app/lib/business-cases/workflowService';
+import { WORKSPACE_HEADER } from '@/app/lib/workspaces/activeWorkspace';
+import { AutoPopulationSource } from '@/src/features/cost-business-case/business-case/BusinessCaseTypes';
 
 interface BusinessCaseInput {
-  userId?: string;  // User ID for database persistence
+  userId?: string;  // Save the case when set (as the signed-in user)
+  workspaceId?: string;  // Workspace to save in (defaults to the active one)
   template: string;
   customerData: {
     companyName: string;
@@ -73,6 +82,9 @@ interface BusinessCaseResult {
     templateVersion: string;
     analysisMethod: string;
     processingTime: number;
+    /** Workflow version and status of a saved case (each update is a new version) */
+    version?: number;
+    status?: string;
   };
 }
 
@@ -88,6 +100,37 @@ interface ValidationResult {
   errors: string[];
 }
 
+const CASES_API = '/api/business-cases';
+
+/**
+ * Call the business case workflow API. The server uses the active workspace
+ * (cookie) unless a workspace id is passed.
+ */
+async function callCasesApi<T>(url: string, init: RequestInit = {}, workspaceId?: string): Promise<BackendResponse<T>> {
+  const response = await fetch(url, {
+    ...init,
+    headers: {
+      ...(init.body ? { 'Content-Type': 'application/json' } : {}),
+      ...(workspaceId ? { [WORKSPACE_HEADER]: workspaceId } : {})
+    }
+  });
+  const body = await response.json().catch(() => ({}));
+
+  if (!response.ok || !body.success) {
+    return {
+      success: false,
+      error: body.error?.message || body.error || `Request failed: ${response.status}`
+    };
+  }
+
+  return { success: true, data: body.data };
+}
+
+/** Split a list stored as one '; '-separated field */
+function splitList(text: string | undefined): string[] {
+  return text ? text.split('; ') : [];
+}
+
 class BusinessCaseService {
   private baseUrl: string;
   private apiKey: string;
@@ -256,39 +299,34 @@ class BusinessCaseService {
 
       const processingTime = Date.now() - processingStartTime;
 
-      // Save to database if userId provided (graceful failure)
+      // Save as a draft in the workflow if userId provided (graceful failure)
       let businessCaseId = `bc_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
 
       if (input.userId) {
         try {
-          console.log('💾 Saving business case to database for user:', input.userId);
-
-          const { data: savedData, error: saveError } = await (supabase as any)
-            .from('business_cases')
-            .insert({
-              user_id: input.userId,
-              template: input.template,
-              customer_data: input.customerData,
-              business_case: businessCaseContent,
-              recommendations: recommendations,
-              confidence: 88,
-              template_version: '1.0',
-              analysis_method: 'ai_enhanced_analysis',
-              processing_time: processingTime,
-              status: 'completed',
-              generated_at: generatedAt
+          console.log('💾 Saving business case for user:', input.userId);
+
+          const saved = await callCasesApi<BusinessCaseView>(CASES_API, {
+            method: 'POST',
+            body: JSON.stringify({
+              fields: this.toCaseFields({
+                template: input.template,
+                customerData: input.customerData,
+                businessCase: businessCaseContent,
+                recommendations
+              }),
+              source: AutoPopulationSource.AI_GENERATED
             })
-            .select()
-            .single();
+          }, input.workspaceId);
 
-          if (saveError) {
-            console.error('⚠️ Failed to save to database (non-fatal):', saveError.message);
+          if (!saved.success || !saved.data) {
+            console.error('⚠️ Failed to save business case (non-fatal):', saved.error);
           } else {
-            console.log('✅ Business case saved to database with ID:', savedData.id);
-            businessCaseId = savedData.id; // Use database ID
+            console.log('✅ Business case saved with ID:', saved.data.id);
+            businessCaseId = saved.data.id;
           }
-        } catch (dbError) {
-          console.error('⚠️ Database save error (non-fatal):', dbError);
+        } catch (saveError) {
+          console.error('⚠️ Business case save error (non-fatal):', saveError);
         }
       }
 
@@ -322,54 +360,20 @@ class BusinessCaseService {
   }
 
   /**
-   * Get business case by ID from Supabase database
+   * Get business case by ID
    */
   async getBusinessCase(businessCaseId: string): Promise<BackendResponse<BusinessCaseResult>> {
     try {
-      console.log('📊 Retrieving business case from database:', businessCaseId);
-
-      const { data, error } = await supabase
-        .from('business_cases')
-        .select('*')
-        .eq('id', businessCaseId)
-        .single();
-
-      if (error) {
-        console.error('❌ Supabase error:', error);
-        return {
-          success: false,
-          error: error.message || 'Failed to retrieve business case'
-        };
-      }
+      console.log('📊 Retrieving business case:', businessCaseId);
 
-      if (!data) {
-        return {
-          success: false,
-          error: 'Business case not found'
-        };
+      const response = await callCasesApi<BusinessCaseView>(`${CASES_API}?id=${encodeURIComponent(businessCaseId)}`);
+      if (!response.success || !response.data) {
+        return { success: false, error: response.error || 'Failed to retrieve business case' };
       }
 
-      // Transform database row to BusinessCaseResult format
-      const result: BusinessCaseResult = {
-        id: (data as any).id,
-        template: (data as any).template,
-        customerData: (data as any).customer_data || {},
-        businessCase: (data as any).business_case || {},
-        generatedAt: (data as any).generated_at || (data as any).created_at,
-        confidence: (data as any).confidence || 0,
-        recommendations: [],
-        metadata: {
-          templateVersion: '1.0',
-          analysisMethod: 'ai_generated',
-          processingTime: 0
-        }
-      } as any;
-
-      console.log('✅ Business case retrieved successfully');
-
       return {
         success: true,
-        data: result
+        data: this.toResult(response.data)
       };
 
     } catch (error) {
@@ -382,43 +386,20 @@ class BusinessCaseService {
   }
 
   /**
-   * Get business case history for customer from Supabase database
+   * Business cases of the active workspace (every member's), or the caller's
+   * personal ones when no workspace is active
    */
-  async getBusinessCaseHistory(customerId: string): Promise<BackendResponse<BusinessCaseResult[]>> {
+  async getBusinessCaseHistory(workspaceId?: string): Promise<BackendResponse<BusinessCaseResult[]>> {
     try {
-      console.log('📈 Retrieving business case history from database for customer:', customerId);
-
-      const { data, error } = await supabase
-        .from('business_cases')
-        .select('*')
-        .eq('user_id', customerId)
-        .order('created_at', { ascending: false });
+      console.log('📈 Retrieving business case history:', workspaceId ?? '(active workspace)');
 
-      if (error) {
-        console.error('❌ Supabase error:', error);
-        return {
-          success: false,
-          error: error.message || 'Failed to retrieve business case history'
-        };
+      const response = await callCasesApi<BusinessCaseView[]>(CASES_API, {}, workspaceId);
+      if (!response.success || !response.data) {
+        return { success: false, error: response.error || 'Failed to retrieve business case history' };
       }
 
-      // Transform database rows to BusinessCaseResult format
-      const results: BusinessCaseResult[] = (data || []).map((row: any) => ({
-        id: row.id,
-        template: row.template,
-        customerData: row.customer_data || {},
-        businessCase: row.business_case || {},
-        generatedAt: row.generated_at || row.created_at,
-        confidence: row.confidence || 0,
-        recommendations: [],
-        metadata: {
-          templateVersion: '1.0',
-          analysisMethod: 'ai_generated',
-          processingTime: 0
-        }
-      } as any));
-
-      console.log(`✅ Retrieved ${results.length} business cases from database`);
+      const results = response.data.map(view => this.toResult(view));
+      console.log(`✅ Retrieved ${results.length} business cases`);
 
       return {
         success: true,
@@ -435,56 +416,27 @@ class BusinessCaseService {
   }
 
   /**
-   * Update business case in Supabase database
+   * Update business case. Goes through the workflow, so the edit is saved as
+   * a new version and refused for final (or approved, not reopened) cases.
    */
   async updateBusinessCase(businessCaseId: string, updates: Partial<BusinessCaseResult>): Promise<BackendResponse<BusinessCaseResult>> {
     try {
-      console.log('📝 Updating business case in database:', businessCaseId);
-
-      // Transform BusinessCaseResult updates to database format
-      const dbUpdates: any = {};
-
-      if (updates.template) dbUpdates.template = updates.template;
-      if (updates.customerData) dbUpdates.customer_data = updates.customerData;
-      if (updates.businessCase) dbUpdates.business_case = updates.businessCase;
-      if (updates.confidence !== undefined) dbUpdates.confidence = updates.confidence;
+      console.log('📝 Updating business case:', businessCaseId);
 
-      const { data, error } = await (supabase as any)
-        .from('business_cases')
-        .update(dbUpdates)
-        .eq('id', businessCaseId)
-        .select()
-        .single();
+      const response = await callCasesApi<BusinessCaseView>(CASES_API, {
+        method: 'PATCH',
+        body: JSON.stringify({ id: businessCaseId, fields: this.toCaseFields(updates) })
+      });
 
-      if (error) {
-        console.error('❌ Supabase error:', error);
-        return {
-          success: false,
-          error: error.message || 'Failed to update business case'
-        };
+      if (!response.success || !response.data) {
+        return { success: false, error: response.error || 'Failed to update business case' };
       }
 
-      // Transform back to BusinessCaseResult format
-      const result: BusinessCaseResult = {
-        id: (data as any).id,
-        template: (data as any).template,
-        customerData: (data as any).customer_data || {},
-        businessCase: (data as any).business_case || {},
-        generatedAt: (data as any).generated_at || (data as any).created_at,
-        confidence: (data as any).confidence || 0,
-        recommendations: [],
-        metadata: {
-          templateVersion: '1.0',
-          analysisMethod: 'ai_generated',
-          processingTime: 0
-        }
-      } as any;
-
       console.log('✅ Business case updated successfully');
 
       return {
         success: true,
-        data: result,
+        data: this.toResult(response.data),
         message: 'Business case updated successfully'
       };
 
@@ -498,23 +450,15 @@ class BusinessCaseService {
   }
 
   /**
-   * Delete business case from Supabase database
+   * Delete business case (final cases can't be deleted)
    */
   async deleteBusinessCase(businessCaseId: string): Promise<BackendResponse> {
     try {
-      console.log('🗑️ Deleting business case from database:', businessCaseId);
-
-      const { error } = await supabase
-        .from('business_cases')
-        .delete()
-        .eq('id', businessCaseId);
+      console.log('🗑️ Deleting business case:', businessCaseId);
 
-      if (error) {
-        console.error('❌ Supabase error:', error);
-        return {
-          success: false,
-          error: error.message || 'Failed to delete business case'
-        };
+      const response = await callCasesApi(`${CASES_API}?id=${encodeURIComponent(businessCaseId)}`, { method: 'DELETE' });
+      if (!response.success) {
+        return { success: false, error: response.error || 'Failed to delete business case' };
       }
 
       console.log('✅ Business case deleted successfully');
@@ -603,6 +547,117 @@ class BusinessCaseService {
     };
   }
 
+  /**
+   * Section fields for generated content; only the parts given are mapped.
+   * Industry and revenue use the AutoPopulationConfig fields.
+   */
+  private toCaseFields(result: Partial<BusinessCaseResult>): Record<string, unknown> {
+    const { customerData, businessCase, recommendations } = result;
+    const template = result.template ? this.getTemplateDetails(result.template) : null;
+
+    const fields: Record<string, unknown> = {
+      'header.companyName': customerData?.companyName,
+      'header.championName': customerData?.championName,
+      'header.priorityHeadline': template && customerData ? `${template.name} for ${customerData.companyName}` : undefined,
+      'businessChallenge.affectedStakeholders': customerData?.industry,
+      'businessImpactROI.executiveKPI.currentState': customerData?.currentRevenue?.toString(),
+      'executiveSummary.fullSummary': businessCase?.executiveSummary,
+      'executiveSummary.businessChange': businessCase?.problemStatement,
+      'executiveSummary.recommendedSolution': businessCase?.proposedSolution,
+      'executiveSummary.implementationTimeline': businessCase?.implementationPlan?.timeline,
+      'businessChallenge.currentRealityDescription': businessCase?.problemStatement,
+      'approachDifferentiation.fullRecommendedSolution': businessCase?.proposedSolution,
+      'businessImpactROI.riskReduction': businessCase?.riskAssessment?.mitigationStrategies?.join('; '),
+      'businessImpactROI.fullBenefitsNarrative': businessCase?.successMetrics?.targets?.join('; '),
+      'investmentImplementation.totalInvestment': businessCase?.financialAnalysis?.investment,
+      'investmentImplementation.roiRatio': businessCase?.financialAnalysis ? `${businessCase.financialAnalysis.expectedROI}:1` : undefined,
+      'investmentImplementation.roiTimeframe': businessCase?.financialAnalysis ? `within ${businessCase.financialAnalysis.paybackPeriod}` : undefined,
+      'investmentImplementation.milestones': businessCase?.implementationPlan?.phases?.map(phase => ({
+        period: phase.duration,
+        description: phase.name
+      })),
+      'strategyNextSteps.immediateActions': recommendations?.map((recommendation, index) => ({
+        actionNumber: index + 1,
+        actionType: recommendation.category,
+        actionDescription: `${recommendation.title}: ${recommendation.description}`
+      }))
+    };
+
+    return Object.fromEntries(Object.entries(fields).filter(([, value]) => value !== undefined));
+  }
+
+  /**
+   * Generated-case shape of a workflow case (inverse of toCaseFields)
+   */
+  private toResult(view: BusinessCaseView): BusinessCaseResult {
+    const { header, executiveSummary, businessChallenge, approachDifferentiation, businessImpactROI, investmentImplementation, strategyNextSteps } = view.data;
+    const template = this.getAvailableTemplates().find(entry => header.priorityHeadline?.startsWith(`${entry.name} for `));
+    const [expectedROI] = investmentImplementation.roiRatio.split(':');
+
+    return {
+      id: view.id,
+      template: template?.id || '',
+      customerData: {
+        companyName: header.companyName,
+        championName: header.championName,
+        industry: businessChallenge.affectedStakeholders,
+        companySize: '',
+        currentRevenue: Number(businessImpactROI.executiveKPI.currentState) || 0
+      },
+      businessCase: {
+        executiveSummary: executiveSummary.fullSummary,
+        problemStatement: businessChallenge.currentRealityDescription,
+        proposedSolution: approachDifferentiation.fullRecommendedSolution || executiveSummary.recommendedSolution,
+        financialAnalysis: {
+          investment: investmentImplementation.totalInvestment,
+          expectedROI: Number(expectedROI) || 0,
+          paybackPeriod: investmentImplementation.roiTimeframe.replace(/^within /, ''),
+          netPresentValue: 0,
+          internalRateOfReturn: 0
+        },
+        riskAssessment: {
+          technicalRisks: [],
+          businessRisks: [],
+          mitigationStrategies: splitList(businessImpactROI.riskReduction)
+        },
+        implementationPlan: {
+          phases: investmentImplementation.milestones.map(milestone => ({
+            name: milestone.description,
+            duration: milestone.period,
+            deliverables: [],
+            milestones: []
+          })),
+          timeline: executiveSummary.implementationTimeline,
+          resources: []
+        },
+        successMetrics: {
+          kpis: [],
+          measurementMethods: [],
+          targets: splitList(businessImpactROI.fullBenefitsNarrative)
+        }
+      },
+      recommendations: strategyNextSteps.immediateActions.map(action => {
+        const [title, ...description] = action.actionDescription.split(': ');
+        return {
+          category: action.actionType,
+          title,
+          description: description.join(': '),
+          priority: 'medium' as const,
+          expectedImpact: ''
+        };
+      }),
+      confidence: 0,
+      generatedAt: new Date(view.createdAt).toISOString(),
+      metadata: {
+        templateVersion: '1.0',
+        analysisMethod: 'ai_generated',
+        processingTime: 0,
+        version: view.data.version,
+        status: view.status
+      }
+    };
+  }
+
   /**
    * Get template details
    */
@@ -3,12 +3,17 @@
  * 
  * REAL IMPLEMENTATIONS:
  * - Claude AI API integration with proper authentication
- * - Streaming response support for real-time AI interaction
- * - Token usage tracking and cost monitoring
+ * - Token streaming (SSE) through an async iterator for real-time AI interaction
+ * - Per-operation model routing (fast/balanced/premium) with tier fallback on overload
+ * - Token usage tracking and per-customer cost ledger (aiCostLedgerService)
+ * - Per-customer metering and monthly quotas (via the `meter` option)
+ * - Schema-validated structured output (zod) with JSON prefill and repair retries
  * - Content safety validation and filtering
  * 
  * FAKE IMPLEMENTATIONS:
  * - Mock responses when API key not configured (development)
+ * - Sample personas/criteria/questions and industry frameworks for structured
+ *   output in mock mode
  * 
  * MISSING REQUIREMENTS:
  * - None - this service is complete for Claude AI integration
@@ -19,9 +24,25 @@
  * - Comprehensive error handling and retry logic
  */
 
-import { ExternalServiceClient, createServiceClient } from './external-service-client';
+import { ExternalServiceClient, RetryConfig, SERVICE_CONFIGS, createServiceClient } from './external-service-client';
 import { createAPIError, ErrorType } from '@/app/lib/middleware/error-handler';
 import { cache } from '@/app/lib/cache/memory-cache';
+import { readServerSentEvents } from '@/app/lib/events/sse-reader';
+import { z } from 'zod';
+import {
+  ICPResources,
+  ICPResourcesSchema,
+  RatingFramework,
+  RatingFrameworkSchema,
+  buildJSONSystemPrompt,
+  parseStructuredOutput
+} from './claudeSchemas';
+import { ClaudeOperation, calculateCost, resolveModelChain } from './claudeModelRouting';
+import { IndustryFrameworkSchema } from '@/app/lib/technical-translation/frameworks';
+import type { IndustryFramework } from '@/src/lib/services/TechnicalTranslationService';
+import promptRegistry from './promptRegistry';
+
+export type { ClaudeOperation } from './claudeModelRouting';
 
 export interface ClaudeMessage {
   role: 'user' | 'assistant' | 'system';
@@ -55,6 +76,38 @@ export interface ClaudeResponse {
   };
 }
 
+/**
+ * Bill the call to a customer. Quotas are enforced when the role is known,
+ * otherwise the call is only recorded.
+ */
+export interface ClaudeUsageMeter {
+  customerId: string;
+  role?: string;
+  userId?: string;             // Attributed in the cost ledger
+}
+
+/**
+ * Options shared by every call. `operation` picks the model tier (see
+ * claudeModelRouting); `model` pins a model ahead of that tier.
+ */
+export interface ClaudeMessageOptions {
+  operation?: ClaudeOperation;
+  model?: string;
+  maxTokens?: number;
+  temperature?: number;
+  systemPrompt?: string;
+  meter?: ClaudeUsageMeter;
+}
+
+export interface ClaudeMessageResult {
+  response: string;
+  usage: ClaudeResponse['usage'];
+  cached: boolean;
+  model: string;               // Model that produced the response
+}
+
+export type ClaudeStreamResult = Omit<ClaudeMessageResult, 'cached'>;
+
 export interface ClaudeUsageStats {
   totalRequests: number;
   totalInputTokens: number;
@@ -63,6 +116,86 @@ export interface ClaudeUsageStats {
   averageResponseTime: number;
 }
 
+const ANTHROPIC_VERSION = '2023-06-01';
+
+// Delay between words when streaming a mock response
+const MOCK_STREAM_DELAY = 20;
+
+// Overloaded models fall back to another tier instead of retrying the same one
+const CLAUDE_RETRY: Partial<RetryConfig> = {
+  retryCondition: (error: any) => {
+    const status = error.response?.status;
+    return status === undefined || (status !== 529 && (status >= 500 || status === 408 || status === 429));
+  }
+};
+
+/**
+ * Whether a normalized Claude error means the model is overloaded
+ */
+export function isOverloadedError(error: any): boolean {
+  return error?.details?.service === 'claude' && error.details.overloaded === true;
+}
+
+/**
+ * Prompt for ICP resources; exported so the UI can stream the same request
+ */
+export function buildICPResourcesPrompt(productData: any, researchData: any): string {
+  return promptRegistry.render('icp.resources', {
+    PRODUCT_NAME: String(productData.productName),
+    PRODUCT_DESCRIPTION: String(productData.productDescription),
+    BUSINESS_TYPE: String(productData.businessType),
+    RESEARCH_DATA: JSON.stringify(researchData, null, 2)
+  }).prompt;
+}
+
+// Sample structured output returned in mock mode (API key not configured)
+const MOCK_ICP_RESOURCES: ICPResources = {
+  personas: [
+    { name: 'Primary Decision Maker', role: 'VP/Director', characteristics: 'Strategic thinker, budget authority', painPoints: [], goals: [] },
+    { name: 'Technical Evaluator', role: 'Manager/Lead', characteristics: 'Hands-on, detail-oriented', painPoints: [], goals: [] }
+  ],
+  insights: [
+    { category: 'Market Opportunity', insight: 'Strong demand in mid-market segment' },
+    { category: 'Competition', insight: 'Differentiation through ease of use' }
+  ],
+  recommendations: [
+    { priority: 'high', action: 'Focus on pain point messaging' },
+    { priority: 'medium', action: 'Develop case studies for key verticals' }
+  ],
+  confidenceScore: 5
+};
+
+const MOCK_RATING_FRAMEWORK: RatingFramework = {
+  framework: { name: 'ICP Rating Framework', scoringMethod: 'weighted', totalPoints: 100 },
+  criteria: [
+    { criterion: 'Company Size', weight: 25, scoring: '10-50 employees: 25pts, 51-200: 20pts' },
+    { criterion: 'Budget Authority', weight: 20, scoring: 'Confirmed: 20pts, Likely: 15pts' }
+  ],
+  questions: [
+    { category: 'Qualification', question: 'What is your current team size?' },
+    { category: 'Timing', question: 'What is your implementation timeline?' }
+  ]
+};
+
+function mockIndustryFramework(industry: string): IndustryFramework {
+  return {
+    name: industry,
+    stakeholders: ['CFO', 'COO', 'Head of Operations', 'IT Director'],
+    painPoints: {
+      operating_costs: `Operating costs in ${industry}`,
+      manual_processes: 'Manual, error-prone processes'
+    },
+    translationTemplates: {
+      processing_speed: {
+        technical: 'processing speed improvement',
+        business: 'reduces operating costs and turnaround time',
+        cfoLanguage: 'cost per processed unit',
+        cooLanguage: 'throughput and turnaround time'
+      }
+    }
+  };
+}
+
 class ClaudeAIService {
   private client: ExternalServiceClient | null = null;
   private apiKey: string | null = null;
@@ -86,7 +219,7 @@ class ClaudeAIService {
       this.client = createServiceClient('anthropic', {
         defaultHeaders: {
           'x-api-key': this.apiKey,
-          'anthropic-version': '2023-06-01'
+          'anthropic-version': ANTHROPIC_VERSION
         }
       });
       console.log('✅ Claude AI service initialized with real API key');
@@ -100,94 +233,214 @@ class ClaudeAIService {
    */
   async sendMessage(
     messages: ClaudeMessage[],
-    options: {
-      model?: string;
-      maxTokens?: number;
-      temperature?: number;
-      systemPrompt?: string;
-      useCache?: boolean;
-    } = {}
-  ): Promise<{ response: string; usage: ClaudeResponse['usage']; cached: boolean }> {
+    options: ClaudeMessageOptions & { useCache?: boolean } = {}
+  ): Promise<ClaudeMessageResult> {
     const startTime = Date.now();
     
     const {
-      model = 'claude-3-sonnet-20240229',
+      operation,
+      model,
       maxTokens = 1000,
       temperature = 0.7,
       systemPrompt,
-      useCache = true
+      useCache = true,
+      meter
     } = options;
 
+    const models = resolveModelChain(operation, model);
+
     // Generate cache key for GET-like behavior
-    const cacheKey = this.generateCacheKey(messages, model, maxTokens, temperature, systemPrompt);
+    const cacheKey = this.generateCacheKey(messages, models[0], maxTokens, temperature, systemPrompt);
     
     // Check cache first
     if (useCache) {
-      const cached = cache.get<{ response: string; usage: ClaudeResponse['usage'] }>(cacheKey);
+      const cached = cache.get<Omit<ClaudeMessageResult, 'cached'>>(cacheKey);
       if (cached) {
         console.log('🎯 Claude AI cache hit');
+        await this.recordLedgerEntry(meter, {
+          operation,
+          model: cached.model,
+          usage: cached.usage,
+          cacheHit: true,
+          latencyMs: Date.now() - startTime
+        });
         return { ...cached, cached: true };
       }
     }
 
+    // Cache hits are free, everything past this point is billable
+    if (meter?.role) {
+      const { usageMeteringService } = await import('./usageMeteringService');
+      await usageMeteringService.assertQuota(meter.customerId, meter.role, 'ai_call');
+    }
+
     // If no real API key, return mock response
     if (!this.client) {
-      return this.generateMockResponse(messages, model);
+      const mock = await this.generateMockResponse(messages, models[0]);
+      await this.recordMeteredCall(meter, models[0], mock.usage);
+      return { ...mock, model: models[0] };
     }
 
+    const client = this.client;
+
     try {
-      const request: ClaudeRequest = {
-        model,
+      const request: Omit<ClaudeRequest, 'model'> = {
         max_tokens: maxTokens,
         temperature,
         messages,
         ...(systemPrompt && { system: systemPrompt })
       };
 
-      const response = await this.client.post<ClaudeResponse>('/messages', request);
+      const { result: response, model: usedModel } = await this.withModelFallback(models, candidate =>
+        client.request<ClaudeResponse>(
+          { method: 'POST', url: '/messages', data: { ...request, model: candidate } },
+          { customRetry: CLAUDE_RETRY }
+        )
+      );
       
       // Record response time
       const responseTime = Date.now() - startTime;
-      this.responseTimes.push(responseTime);
-      if (this.responseTimes.length > 100) {
-        this.responseTimes.shift(); // Keep only last 100
-      }
+      this.recordResponseTime(responseTime);
 
       // Update usage stats
-      this.updateUsageStats(response, responseTime);
+      this.updateUsageStats(response.usage, usedModel);
+      await this.recordMeteredCall(meter, usedModel, response.usage);
+      await this.recordLedgerEntry(meter, { operation, model: usedModel, usage: response.usage, latencyMs: responseTime });
 
-      const result = {
+      const result: ClaudeMessageResult = {
         response: response.content[0]?.text || '',
         usage: response.usage,
-        cached: false
+        cached: false,
+        model: usedModel
       };
 
       // Cache the result
       if (useCache) {
-        cache.set(cacheKey, { response: result.response, usage: result.usage }, 3600000); // 1 hour
+        cache.set(cacheKey, { response: result.response, usage: result.usage, model: usedModel }, 3600000); // 1 hour
       }
 
-      console.log(`🤖 Claude AI response: ${result.response.length} chars, ${response.usage.input_tokens}+${response.usage.output_tokens} tokens`);
+      console.log(`🤖 Claude AI response (${usedModel}): ${result.response.length} chars, ${response.usage.input_tokens}+${response.usage.output_tokens} tokens`);
       
       return result;
 
     } catch (error) {
       console.error('❌ Claude AI request failed:', error);
-      throw this.normalizeClaudeError(error);
+      const normalized = this.normalizeClaudeError(error);
+      await this.recordLedgerEntry(meter, { operation, model: models[0], latencyMs: Date.now() - startTime, error: normalized });
+      throw normalized;
     }
   }
 
+  /**
+   * Stream a message from Claude AI token by token. Yields text deltas and
+   * returns the full response with usage once the stream ends. An overloaded
+   * model falls back to the next tier only until the first token is yielded.
+   *
+   * @example
+   * ```typescript
+   * const stream = claudeAI.streamMessage(messages, { operation: 'technical_translation' });
+   * for await (const token of stream) process.stdout.write(token);
+   * ```
+   */
+  async *streamMessage(
+    messages: ClaudeMessage[],
+    options: ClaudeMessageOptions & { signal?: AbortSignal } = {}
+  ): AsyncGenerator<string, ClaudeStreamResult> {
+    const startTime = Date.now();
+    const { operation, model, maxTokens = 1000, temperature = 0.7, systemPrompt, meter, signal } = options;
+    const models = resolveModelChain(operation, model);
+
+    if (meter?.role) {
+      const { usageMeteringService } = await import('./usageMeteringService');
+      await usageMeteringService.assertQuota(meter.customerId, meter.role, 'ai_call');
+    }
+
+    // Mock mode streams the mock response word by word
+    if (!this.client) {
+      const mock = await this.generateMockResponse(messages, models[0]);
+      for (const word of mock.response.match(/\S+\s*/g) ?? []) {
+        await new Promise(resolve => setTimeout(resolve, MOCK_STREAM_DELAY));
+        yield word;
+      }
+      await this.recordMeteredCall(meter, models[0], mock.usage);
+      return { response: mock.response, usage: mock.usage, model: models[0] };
+    }
+
+    const request: Omit<ClaudeRequest, 'model'> = {
+      max_tokens: maxTokens,
+      temperature,
+      messages,
+      stream: true,
+      ...(systemPrompt && { system: systemPrompt })
+    };
+
+    for (let index = 0; index < models.length; index++) {
+      const candidate = models[index];
+      const usage: ClaudeResponse['usage'] = { input_tokens: 0, output_tokens: 0 };
+      let text = '';
+
+      try {
+        const body = await this.openMessageStream({ ...request, model: candidate }, signal);
+
+        for await (const event of readServerSentEvents(body)) {
+          const payload = JSON.parse(event.data);
+
+          if (payload.type === 'message_start') {
+            usage.input_tokens = payload.message?.usage?.input_tokens ?? 0;
+          } else if (payload.type === 'content_block_delta' && payload.delta?.type === 'text_delta') {
+            text += payload.delta.text;
+            yield payload.delta.text;
+          } else if (payload.type === 'message_delta') {
+            usage.output_tokens = payload.usage?.output_tokens ?? usage.output_tokens;
+          } else if (payload.type === 'error') {
+            throw createAPIError(
+              ErrorType.EXTERNAL_API,
+              payload.error?.message || 'Claude stream error',
+              payload.error?.type === 'overloaded_error' ? 529 : 500,
+              { responseData: payload }
+            );
+          }
+        }
+      } catch (error) {
+        const normalized = this.normalizeClaudeError(error);
+
+        // Once tokens reached the caller the response cannot switch models
+        if (text || !isOverloadedError(normalized) || index === models.length - 1) {
+          console.error('❌ Claude AI stream failed:', normalized);
+          await this.recordLedgerEntry(meter, {
+            operation,
+            model: candidate,
+            usage,
+            latencyMs: Date.now() - startTime,
+            error: normalized
+          });
+          throw normalized;
+        }
+
+        console.warn(`⚠️ Claude model ${candidate} overloaded, falling back to ${models[index + 1]}`);
+        continue;
+      }
+
+      const responseTime = Date.now() - startTime;
+      this.recordResponseTime(responseTime);
+      this.updateUsageStats(usage, candidate);
+      await this.recordMeteredCall(meter, candidate, usage);
+      await this.recordLedgerEntry(meter, { operation, model: candidate, usage, latencyMs: responseTime });
+
+      console.log(`🤖 Claude AI stream (${candidate}): ${text.length} chars, ${usage.input_tokens}+${usage.output_tokens} tokens`);
+
+      return { response: text, usage, model: candidate };
+    }
+
+    throw createAPIError(ErrorType.EXTERNAL_API, 'No Claude model available', 503, { service: 'claude' });
+  }
+
   /**
    * Generate text completion
    */
   async complete(
     prompt: string,
-    options: {
-      model?: string;
-      maxTokens?: number;
-      temperature?: number;
-      systemPrompt?: string;
-    } = {}
+    options: ClaudeMessageOptions = {}
   ): Promise<string> {
     const messages: ClaudeMessage[] = [
       { role: 'user', content: prompt }
@@ -203,12 +456,7 @@ class ClaudeAIService {
   async chat(
     userMessage: string,
     conversationHistory: ClaudeMessage[] = [],
-    options: {
-      model?: string;
-      maxTokens?: number;
-      temperature?: number;
-      systemPrompt?: string;
-    } = {}
+    options: ClaudeMessageOptions = {}
   ): Promise<{ response: string; updatedHistory: ClaudeMessage[] }> {
     const messages = [
       ...conversationHistory,
@@ -273,6 +521,7 @@ class ClaudeAIService {
     }
 
     return this.complete(prompt, {
+      operation: analysisType === 'summary' || analysisType === 'custom' ? 'analysis' : 'classification',
       systemPrompt,
       temperature: 0.3, // Lower temperature for more consistent analysis
       maxTokens: 500
@@ -319,6 +568,7 @@ class ClaudeAIService {
       await this.sendMessage([
         { role: 'user', content: 'Hello' }
       ], {
+        operation: 'extraction',
         maxTokens: 10,
         useCache: false
       });
@@ -375,9 +625,7 @@ class ClaudeAIService {
     const inputTokens = Math.floor(prompt.length / 4); // Rough token estimation
     const outputTokens = Math.floor(mockResponse.length / 4);
 
-    this.updateUsageStats({
-      usage: { input_tokens: inputTokens, output_tokens: outputTokens }
-    } as ClaudeResponse, 1500);
+    this.updateUsageStats({ input_tokens: inputTokens, output_tokens: outputTokens }, model);
 
     console.log(`🤖 Mock Claude AI response: ${mockResponse.length} chars (API key not configured)`);
 
@@ -391,151 +639,295 @@ class ClaudeAIService {
     };
   }
 
-  private updateUsageStats(response: ClaudeResponse, responseTime: number): void {
+  private recordResponseTime(responseTime: number): void {
+    this.responseTimes.push(responseTime);
+    if (this.responseTimes.length > 100) {
+      this.responseTimes.shift(); // Keep only last 100
+    }
+  }
+
+  /**
+   * Run a call against each model in the chain until one is not overloaded
+   */
+  private async withModelFallback<T>(
+    models: string[],
+    call: (model: string) => Promise<T>
+  ): Promise<{ result: T; model: string }> {
+    for (let index = 0; ; index++) {
+      try {
+        return { result: await call(models[index]), model: models[index] };
+      } catch (error) {
+        const normalized = this.normalizeClaudeError(error);
+        if (!isOverloadedError(normalized) || index === models.length - 1) {
+          throw normalized;
+        }
+        console.warn(`⚠️ Claude model ${models[index]} overloaded, falling back to ${models[index + 1]}`);
+      }
+    }
+  }
+
+  /**
+   * Open a streaming Messages API request. Uses fetch directly since the
+   * service client buffers whole responses.
+   */
+  private async openMessageStream(request: ClaudeRequest, signal?: AbortSignal): Promise<ReadableStream<Uint8Array>> {
+    const response = await fetch(`${SERVICE_CONFIGS.anthropic.baseURL}/messages`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': this.apiKey as string,
+        'anthropic-version': ANTHROPIC_VERSION
+      },
+      body: JSON.stringify(request),
+      signal
+    });
+
+    if (!response.ok || !response.body) {
+      throw createAPIError(
+        ErrorType.EXTERNAL_API,
+        `External API error: ${response.status} ${response.statusText}`,
+        response.status,
+        { url: '/messages', method: 'POST', responseData: await response.json().catch(() => null) }
+      );
+    }
+
+    return response.body;
+  }
+
+  private updateUsageStats(usage: ClaudeResponse['usage'], model: string): void {
     this.usageStats.totalRequests++;
-    this.usageStats.totalInputTokens += response.usage.input_tokens;
-    this.usageStats.totalOutputTokens += response.usage.output_tokens;
-    
-    // Estimate cost (approximate Claude pricing)
-    const inputCost = (response.usage.input_tokens / 1000) * 0.003; // $3 per 1M input tokens
-    const outputCost = (response.usage.output_tokens / 1000) * 0.015; // $15 per 1M output tokens
-    this.usageStats.estimatedCost += inputCost + outputCost;
+    this.usageStats.totalInputTokens += usage.input_tokens;
+    this.usageStats.totalOutputTokens += usage.output_tokens;
+    this.usageStats.estimatedCost += calculateCost(model, usage);
+  }
+
+  private async recordMeteredCall(
+    meter: ClaudeUsageMeter | undefined,
+    model: string,
+    usage: ClaudeResponse['usage']
+  ): Promise<void> {
+    if (!meter) return;
+
+    try {
+      const { usageMeteringService } = await import('./usageMeteringService');
+      await usageMeteringService.recordUsage(meter.customerId, 'ai_call', {
+        metadata: { model, inputTokens: usage.input_tokens, outputTokens: usage.output_tokens }
+      });
+    } catch (error) {
+      // Metering must never fail a completed call
+      console.error('❌ Failed to record Claude usage:', error);
+    }
+  }
+
+  /**
+   * Map a service client (or stream) error to a Claude API error. 529 and
+   * `overloaded_error` come back flagged `overloaded` for tier fallback.
+   */
+  /**
+   * Write the call to the AI cost ledger (real API calls and cache hits;
+   * mock responses are not recorded)
+   */
+  private async recordLedgerEntry(
+    meter: ClaudeUsageMeter | undefined,
+    entry: {
+      operation?: ClaudeOperation;
+      model: string;
+      usage?: ClaudeResponse['usage'];
+      cacheHit?: boolean;
+      latencyMs: number;
+      error?: { message: string };
+    }
+  ): Promise<void> {
+    try {
+      const { aiCostLedgerService } = await import('./aiCostLedgerService');
+      await aiCostLedgerService.record({
+        customerId: meter?.customerId ?? null,
+        userId: meter?.userId,
+        operation: entry.operation ?? 'general',
+        model: entry.model,
+        inputTokens: entry.usage?.input_tokens ?? 0,
+        outputTokens: entry.usage?.output_tokens ?? 0,
+        cacheHit: entry.cacheHit ?? false,
+        latencyMs: entry.latencyMs,
+        success: !entry.error,
+        error: entry.error?.message
+      });
+    } catch (error) {
+      // The ledger must never fail a completed call
+      console.error('❌ Failed to record Claude cost:', error);
+    }
   }
 
   private normalizeClaudeError(error: any) {
-    if (error.response?.status === 401) {
+    if (error?.details?.service === 'claude') {
+      return error; // Already normalized
+    }
+
+    const status = error?.statusCode ?? error?.response?.status;
+    const apiError = (error?.details?.responseData ?? error?.response?.data)?.error;
+
+    if (status === 529 || apiError?.type === 'overloaded_error') {
+      return createAPIError(
+        ErrorType.EXTERNAL_API,
+        'Claude API overloaded',
+        529,
+        { service: 'claude', overloaded: true }
+      );
+    } else if (status === 401) {
       return createAPIError(
         ErrorType.AUTHENTICATION,
         'Invalid Claude API key',
         401,
         { service: 'claude' }
       );
-    } else if (error.response?.status === 429) {
+    } else if (status === 429) {
       return createAPIError(
         ErrorType.RATE_LIMIT,
         'Claude API rate limit exceeded',
         429,
         { service: 'claude', retryAfter: 60 }
       );
-    } else if (error.response?.status === 400) {
+    } else if (status === 400) {
       return createAPIError(
         ErrorType.VALIDATION,
-        `Claude API validation error: ${error.response.data?.error?.message || 'Invalid request'}`,
+        `Claude API validation error: ${apiError?.message || 'Invalid request'}`,
         400,
         { service: 'claude' }
       );
     } else {
       return createAPIError(
         ErrorType.EXTERNAL_API,
-        `Claude API error: ${error.message}`,
-        error.response?.status || 500,
+        `Claude API error: ${apiError?.message || error?.message}`,
+        status || 500,
         { service: 'claude' }
       );
     }
   }
 
   /**
-   * Generate ICP resources from research data
+   * Ask for JSON matching a zod schema. The response is prefilled with "{" to
+   * keep the model in JSON mode; output that fails validation is sent back
+   * with the validation issues for repair, up to `maxRepairs` times.
    */
-  async generateResourcesFromResearch(productData: any, researchData: any): Promise<any> {
-    const prompt = `Based on the following product and research data, generate comprehensive ICP resources including personas, use cases, and market insights:
+  async generateStructured<T>(
+    prompt: string,
+    schema: z.ZodType<T>,
+    options: ClaudeMessageOptions & {
+      maxRepairs?: number;
+      mockData?: T;
+    } = {}
+  ): Promise<{ data: T; rawResponse: string; isMock: boolean }> {
+    const { maxRepairs = 2, mockData, systemPrompt, ...sendOptions } = options;
+
+    // Mock mode: the sample data stands in for the model, still validated
+    if (!this.client && mockData !== undefined) {
+      console.log('🤖 Mock Claude AI structured output (API key not configured)');
+      return { data: schema.parse(mockData), rawResponse: JSON.stringify(mockData), isMock: true };
+    }
 
-Product: ${productData.productName}
-Description: ${productData.productDescription}
-Business Type: ${productData.businessType}
+    const jsonSystemPrompt = buildJSONSystemPrompt(schema, systemPrompt);
 
-Research Data: ${JSON.stringify(researchData, null, 2)}
+    const messages: ClaudeMessage[] = [{ role: 'user', content: prompt }];
+    let lastError = '';
 
-Please provide detailed buyer personas, ideal customer profiles, and actionable insights.`;
+    for (let attempt = 0; attempt <= maxRepairs; attempt++) {
+      const result = await this.sendMessage([...messages, { role: 'assistant', content: '{' }], {
+        ...sendOptions,
+        systemPrompt: jsonSystemPrompt,
+        useCache: attempt === 0
+      });
 
-    const response = await this.complete(prompt, {
-      model: 'claude-3-sonnet',
+      const rawResponse = `{${result.response}`;
+      const parsed = parseStructuredOutput(rawResponse, schema);
+      if (parsed.success) {
+        return { data: parsed.data, rawResponse, isMock: false };
+      }
+
+      lastError = parsed.error;
+      console.warn(`⚠️ Claude structured output failed validation (attempt ${attempt + 1}/${maxRepairs + 1}): ${parsed.error}`);
+
+      messages.push(
+        { role: 'assistant', content: rawResponse },
+        { role: 'user', content: `That response did not match the schema:\n${parsed.error}\n\nReply with the corrected JSON object only.` }
+      );
+    }
+
+    throw createAPIError(
+      ErrorType.EXTERNAL_API,
+      'Claude API returned output that does not match the expected schema',
+      502,
+      { service: 'claude', issues: lastError }
+    );
+  }
+
+  /**
+   * Generate ICP resources from research data
+   */
+  async generateResourcesFromResearch(
+    productData: any,
+    researchData: any,
+    options: { meter?: ClaudeUsageMeter } = {}
+  ): Promise<ICPResources & { rawResponse: string; isMock: boolean }> {
+    const prompt = buildICPResourcesPrompt(productData, researchData);
+
+    const { data, rawResponse, isMock } = await this.generateStructured(prompt, ICPResourcesSchema, {
+      operation: 'icp_generation',
       maxTokens: 4000,
-      temperature: 0.7
+      temperature: 0.7,
+      meter: options.meter,
+      mockData: MOCK_ICP_RESOURCES
     });
 
-    return {
-      personas: this.extractPersonas(response),
-      insights: this.extractInsights(response),
-      recommendations: this.extractRecommendations(response),
-      rawResponse: response
-    };
+    return { ...data, rawResponse, isMock };
   }
 
   /**
    * Generate rating framework from ICP data
    */
-  async generateRatingFrameworkFromICP(icpData: string, personasData: string): Promise<any> {
-    const prompt = `Based on the following ICP and personas data, create a comprehensive lead rating framework:
-
-ICP Definition:
-${icpData}
-
-Personas:
-${personasData}
-
-Please generate:
-1. Rating criteria and scoring system
-2. Qualification questions
-3. Prioritization framework
-4. Implementation guidelines`;
+  async generateRatingFrameworkFromICP(
+    icpData: string,
+    personasData: string,
+    options: { meter?: ClaudeUsageMeter } = {}
+  ): Promise<RatingFramework & { rawResponse: string; isMock: boolean }> {
+    const { prompt } = promptRegistry.render('icp.rating_framework', {
+      ICP_DEFINITION: icpData,
+      PERSONAS: personasData
+    });
 
-    const response = await this.complete(prompt, {
-      model: 'claude-3-sonnet',
+    const { data, rawResponse, isMock } = await this.generateStructured(prompt, RatingFrameworkSchema, {
+      operation: 'icp_generation',
       maxTokens: 3000,
-      temperature: 0.7
+      temperature: 0.7,
+      meter: options.meter,
+      mockData: MOCK_RATING_FRAMEWORK
     });
 
-    return {
-      framework: this.extractFramework(response),
-      criteria: this.extractCriteria(response),
-      questions: this.extractQuestions(response),
-      rawResponse: response
-    };
-  }
-
-  private extractPersonas(response: string): any[] {
-    // Mock extraction - in production, use structured parsing
-    return [
-      { name: 'Primary Decision Maker', role: 'VP/Director', characteristics: 'Strategic thinker, budget authority' },
-      { name: 'Technical Evaluator', role: 'Manager/Lead', characteristics: 'Hands-on, detail-oriented' }
-    ];
-  }
-
-  private extractInsights(response: string): any[] {
-    return [
-      { category: 'Market Opportunity', insight: 'Strong demand in mid-market segment' },
-      { category: 'Competition', insight: 'Differentiation through ease of use' }
-    ];
+    return { ...data, rawResponse, isMock };
   }
 
-  private extractRecommendations(response: string): any[] {
-    return [
-      { priority: 'high', action: 'Focus on pain point messaging' },
-      { priority: 'medium', action: 'Develop case studies for key verticals' }
-    ];
-  }
-
-  private extractFramework(response: string): any {
-    return {
-      name: 'ICP Rating Framework',
-      scoringMethod: 'weighted',
-      totalPoints: 100
-    };
-  }
+  /**
+   * Draft an industry framework for the technical translator, modelled on an
+   * existing one
+   */
+  async generateIndustryFramework(
+    industry: string,
+    exampleFramework: IndustryFramework,
+    options: { meter?: ClaudeUsageMeter } = {}
+  ): Promise<{ framework: IndustryFramework; isMock: boolean }> {
+    const { prompt } = promptRegistry.render('translation.industry_framework', {
+      INDUSTRY: industry,
+      EXAMPLE_FRAMEWORK: JSON.stringify(exampleFramework, null, 2)
+    });
 
-  private extractCriteria(response: string): any[] {
-    return [
-      { criterion: 'Company Size', weight: 25, scoring: '10-50 employees: 25pts, 51-200: 20pts' },
-      { criterion: 'Budget Authority', weight: 20, scoring: 'Confirmed: 20pts, Likely: 15pts' }
-    ];
-  }
+    const { data, isMock } = await this.generateStructured(prompt, IndustryFrameworkSchema, {
+      operation: 'technical_translation',
+      maxTokens: 2000,
+      temperature: 0.5,
+      meter: options.meter,
+      mockData: mockIndustryFramework(industry)
+    });
 
-  private extractQuestions(response: string): any[] {
-    return [
-      { category: 'Qualification', question: 'What is your current team size?' },
-      { category: 'Timing', question: 'What is your implementation timeline?' }
-    ];
+    return { framework: data, isMock };
   }
 }
 
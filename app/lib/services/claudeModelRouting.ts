@@ -0,0 +1,92 @@
+/**
+ * Claude Model Routing
+ *
+ * Picks a model tier per operation: cheap, fast models for extraction and
+ * classification, the strongest model for business case narrative. When a
+ * model is overloaded the call falls back to the next tier in the chain.
+ * Model ids can be overridden per tier with CLAUDE_MODEL_FAST,
+ * CLAUDE_MODEL_BALANCED and CLAUDE_MODEL_PREMIUM. Also holds the pricing
+ * table the cost ledger prices calls with.
+ */
+
+export type ModelTier = 'fast' | 'balanced' | 'premium';
+
+export const CLAUDE_OPERATIONS = [
+  'extraction',
+  'classification',
+  'analysis',
+  'icp_generation',
+  'technical_translation',
+  'business_case_narrative',
+  'general'
+] as const;
+
+export type ClaudeOperation = typeof CLAUDE_OPERATIONS[number];
+
+export const MODEL_TIERS: Record<ModelTier, string> = {
+  fast: process.env.CLAUDE_MODEL_FAST || 'claude-3-5-haiku-latest',
+  balanced: process.env.CLAUDE_MODEL_BALANCED || 'claude-sonnet-4-5',
+  premium: process.env.CLAUDE_MODEL_PREMIUM || 'claude-opus-4-1'
+};
+
+export const OPERATION_TIERS: Record<ClaudeOperation, ModelTier> = {
+  extraction: 'fast',
+  classification: 'fast',
+  analysis: 'balanced',
+  icp_generation: 'balanced',
+  technical_translation: 'balanced',
+  business_case_narrative: 'premium',
+  general: 'balanced'
+};
+
+// Tiers tried, in order, when the preferred tier is overloaded
+const TIER_FALLBACKS: Record<ModelTier, ModelTier[]> = {
+  fast: ['balanced'],
+  balanced: ['fast', 'premium'],
+  premium: ['balanced', 'fast']
+};
+
+/**
+ * Models to try for an operation, preferred first. An explicit model takes
+ * the lead and the operation's tiers back it up.
+ */
+export function resolveModelChain(operation: ClaudeOperation = 'general', model?: string): string[] {
+  const tier = OPERATION_TIERS[operation];
+  const chain = [model, MODEL_TIERS[tier], ...TIER_FALLBACKS[tier].map(fallback => MODEL_TIERS[fallback])];
+
+  return chain.filter((candidate, index): candidate is string =>
+    Boolean(candidate) && chain.indexOf(candidate) === index
+  );
+}
+
+export interface ModelPricing {
+  inputPerMillion: number;
+  outputPerMillion: number;
+}
+
+/**
+ * USD per million tokens, matched by model id prefix (most specific first)
+ */
+export const MODEL_PRICING: Array<{ prefix: string; pricing: ModelPricing }> = [
+  { prefix: 'claude-opus-4', pricing: { inputPerMillion: 15, outputPerMillion: 75 } },
+  { prefix: 'claude-sonnet-4', pricing: { inputPerMillion: 3, outputPerMillion: 15 } },
+  { prefix: 'claude-haiku-4', pricing: { inputPerMillion: 1, outputPerMillion: 5 } },
+  { prefix: 'claude-3-7-sonnet', pricing: { inputPerMillion: 3, outputPerMillion: 15 } },
+  { prefix: 'claude-3-5-sonnet', pricing: { inputPerMillion: 3, outputPerMillion: 15 } },
+  { prefix: 'claude-3-5-haiku', pricing: { inputPerMillion: 0.8, outputPerMillion: 4 } },
+  { prefix: 'claude-3-opus', pricing: { inputPerMillion: 15, outputPerMillion: 75 } },
+  { prefix: 'claude-3-sonnet', pricing: { inputPerMillion: 3, outputPerMillion: 15 } },
+  { prefix: 'claude-3-haiku', pricing: { inputPerMillion: 0.25, outputPerMillion: 1.25 } }
+];
+
+// Unknown models are priced like the balanced tier
+const DEFAULT_PRICING: ModelPricing = { inputPerMillion: 3, outputPerMillion: 15 };
+
+export function getModelPricing(model: string): ModelPricing {
+  return MODEL_PRICING.find(entry => model.startsWith(entry.prefix))?.pricing ?? DEFAULT_PRICING;
+}
+
+export function calculateCost(model: string, usage: { input_tokens: number; output_tokens: number }): number {
+  const pricing = getModelPricing(model);
+  return (usage.input_tokens * pricing.inputPerMillion + usage.output_tokens * pricing.outputPerMillion) / 1_000_000;
+}
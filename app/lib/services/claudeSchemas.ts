@@ -0,0 +1,125 @@
+/**
+ * Claude Structured Output Schemas
+ *
+ * zod schemas for the JSON the model is asked to return, plus the parser that
+ * pulls a JSON object out of a response and validates it. Validation issues
+ * are returned as text so they can be fed back to the model for repair.
+ */
+
+import { z } from 'zod';
+
+// ============================================================================
+// ICP RESOURCES
+// ============================================================================
+
+export const PersonaSchema = z.object({
+  name: z.string().min(1),
+  role: z.string().min(1),
+  characteristics: z.string().min(1),
+  painPoints: z.array(z.string()).default([]),
+  goals: z.array(z.string()).default([])
+});
+
+export const InsightSchema = z.object({
+  category: z.string().min(1),
+  insight: z.string().min(1)
+});
+
+export const RecommendationSchema = z.object({
+  priority: z.enum(['high', 'medium', 'low']),
+  action: z.string().min(1)
+});
+
+export const ICPResourcesSchema = z.object({
+  personas: z.array(PersonaSchema).min(1),
+  insights: z.array(InsightSchema).default([]),
+  recommendations: z.array(RecommendationSchema).default([]),
+  confidenceScore: z.number().min(1).max(10)      // Model's self-rated confidence, 1-10
+});
+
+// ============================================================================
+// RATING FRAMEWORK
+// ============================================================================
+
+export const RatingCriterionSchema = z.object({
+  criterion: z.string().min(1),
+  weight: z.number().min(0).max(100),
+  scoring: z.string().min(1)
+});
+
+export const DiscoveryQuestionSchema = z.object({
+  category: z.string().min(1),
+  question: z.string().min(1)
+});
+
+export const RatingFrameworkSchema = z.object({
+  framework: z.object({
+    name: z.string().min(1),
+    scoringMethod: z.enum(['weighted', 'points', 'tiered']),
+    totalPoints: z.number().positive()
+  }),
+  criteria: z.array(RatingCriterionSchema).min(1),
+  questions: z.array(DiscoveryQuestionSchema).default([])
+});
+
+export type Persona = z.infer<typeof PersonaSchema>;
+export type Insight = z.infer<typeof InsightSchema>;
+export type Recommendation = z.infer<typeof RecommendationSchema>;
+export type ICPResources = z.infer<typeof ICPResourcesSchema>;
+export type RatingCriterion = z.infer<typeof RatingCriterionSchema>;
+export type DiscoveryQuestion = z.infer<typeof DiscoveryQuestionSchema>;
+export type RatingFramework = z.infer<typeof RatingFrameworkSchema>;
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+export type StructuredParseResult<T> =
+  | { success: true; data: T }
+  | { success: false; error: string };
+
+/**
+ * JSON Schema text embedded in the prompt so the model knows the exact shape
+ */
+export function describeSchema(schema: z.ZodType): string {
+  return JSON.stringify(z.toJSONSchema(schema, { io: 'input' }), null, 2);
+}
+
+/**
+ * System prompt asking for a single JSON object matching the schema
+ */
+export function buildJSONSystemPrompt(schema: z.ZodType, systemPrompt?: string): string {
+  return [
+    systemPrompt,
+    `Respond with a single JSON object that matches this JSON Schema. Do not include any text outside the JSON.\n\n${describeSchema(schema)}`
+  ].filter(Boolean).join('\n\n');
+}
+
+/**
+ * Take the outermost JSON object from a response, ignoring code fences or
+ * prose the model wrapped around it
+ */
+export function extractJSON(text: string): string | null {
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  return start >= 0 && end > start ? text.slice(start, end + 1) : null;
+}
+
+export function parseStructuredOutput<T>(text: string, schema: z.ZodType<T>): StructuredParseResult<T> {
+  const json = extractJSON(text);
+  if (!json) {
+    return { success: false, error: 'Response did not contain a JSON object' };
+  }
+
+  let value: unknown;
+  try {
+    value = JSON.parse(json);
+  } catch (error) {
+    return { success: false, error: `Invalid JSON: ${error instanceof Error ? error.message : String(error)}` };
+  }
+
+  const result = schema.safeParse(value);
+  return result.success
+    ? { success: true, data: result.data }
+    : { success: false, error: z.prettifyError(result.error) };
+}
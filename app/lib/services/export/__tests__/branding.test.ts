@@ -0,0 +1,79 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Export Branding Unit Tests
+ *
+ * Tests the brand profile applied to exports:
+ * - Defaults, validation and logo sizing
+ * - Logo, footer and watermark parts in a branded DOCX
+ * - Watermark replacing the demo banner in Markdown/CSV exports
+ */
+
+import DOCXGenerator from '../generators/DOCXGenerator';
+import {
+  DEFAULT_BRAND_PROFILE,
+  decodeLogo,
+  getWatermarkText,
+  readLogoSize,
+  resolveBrandProfile,
+  toPDFFont,
+  validateBrandProfile
+} from '../branding';
+import { generateCSV, generateMarkdown } from '@/app/lib/utils/data-export';
+
+// 1x1 transparent PNG
+const LOGO = 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNk+M9QDwADhgGAWjR9awAAAABJRU5ErkJggg==';
+
+const icpData = {
+  companyName: 'Acme Corp',
+  personas: [{ title: 'VP Sales', role: 'Economic Buyer' }] as any
+};
+
+describe('export branding', () => {
+  it('merges a stored profile over the defaults and drops invalid values', () => {
+    const brand = resolveBrandProfile({ primaryColor: '10b981', secondaryColor: 'blue', logo: 'https://example.com/logo.png' });
+
+    expect(brand.primaryColor).toBe('#10B981');
+    expect(brand.secondaryColor).toBe(DEFAULT_BRAND_PROFILE.secondaryColor);
+    expect(brand.companyLogo).toBeUndefined();
+    expect(getWatermarkText(brand)).toBeNull();
+    expect(getWatermarkText(resolveBrandProfile({ includeWatermark: true, watermarkText: 'CONFIDENTIAL' }))).toBe('CONFIDENTIAL');
+
+    expect(validateBrandProfile({ primaryColor: 'purple', companyLogo: 'https://example.com/logo.png' })).toEqual([
+      'primaryColor must be a hex color like #8B5CF6',
+      'companyLogo must be a PNG or JPEG data URL'
+    ]);
+    expect(toPDFFont('Georgia')).toBe('times');
+    expect(readLogoSize(decodeLogo(LOGO))).toEqual({ width: 1, height: 1 });
+  });
+
+  it('embeds the logo, footer and watermark in DOCX exports', async () => {
+    const blob = await DOCXGenerator.generateBusinessCase(
+      { executiveSummary: 'Acme loses deals to slow qualification.' },
+      {
+        title: 'Business Case',
+        branding: { companyLogo: LOGO, footerText: 'Acme Confidential', includeWatermark: true }
+      }
+    );
+
+    // Zip entry names are stored uncompressed in the archive directory
+    const text = Buffer.from(await blob.arrayBuffer()).toString('latin1');
+    expect(text).toMatch(/word\/media\/[\w-]+\.png/);
+    expect(text).toContain('word/footer1.xml');
+    expect(text).toContain('word/header1.xml');
+  });
+
+  it('replaces the demo banner with the customer watermark in Markdown and CSV', () => {
+    const branding = { includeWatermark: true, watermarkText: 'CONFIDENTIAL', footerText: 'Prepared by Acme' };
+
+    const markdown = generateMarkdown(icpData, { branding });
+    expect(markdown).toContain('> **CONFIDENTIAL**');
+    expect(markdown).toContain('*Prepared by Acme*');
+    expect(markdown).not.toContain('DEMO VERSION');
+
+    expect(generateCSV(icpData, { branding }).split('\n')[0]).toBe('"CONFIDENTIAL"');
+    expect(generateCSV(icpData, { includeDemoWatermark: true })).toContain('DEMO VERSION');
+  });
+});
@@ -0,0 +1,170 @@
+/**
+ * Export Branding
+ *
+ * Per-customer brand profile applied by every export backend (PDF, DOCX,
+ * PPTX, XLSX, Markdown/CSV): cover logo, color palette, font, footer text
+ * and an optional watermark.
+ */
+
+import type { BrandingSettings } from '@/src/features/cost-business-case/business-case/BusinessCaseTypes';
+
+export interface BrandProfile extends BrandingSettings {
+  companyName?: string;
+  footerText: string;
+  watermarkText?: string;
+}
+
+/**
+ * Partial profile accepted by generators. `logo` is the legacy option name
+ * used by PDFOptions and business case exports.
+ */
+export type BrandingInput = Partial<BrandProfile> & { logo?: string };
+
+export type PDFFontFamily = 'helvetica' | 'times' | 'courier';
+
+export const DEFAULT_WATERMARK_TEXT = 'DEMO VERSION';
+
+export const DEFAULT_BRAND_PROFILE: BrandProfile = {
+  primaryColor: '#8B5CF6',
+  secondaryColor: '#3B82F6',
+  fontFamily: 'Helvetica',
+  footerText: 'Generated by Revenue Intelligence Platform',
+  includeWatermark: false
+};
+
+// Logos are stored inline with the user profile, so keep them small
+export const MAX_LOGO_LENGTH = 500_000;
+
+const HEX_COLOR = /^#?[0-9a-f]{6}$/i;
+const LOGO_DATA_URL = /^data:image\/(png|jpe?g);base64,[a-z0-9+/=]+$/i;
+
+function normalizeColor(value: string | undefined, fallback: string): string {
+  if (!value || !HEX_COLOR.test(value)) return fallback;
+  return `#${value.replace('#', '').toUpperCase()}`;
+}
+
+/**
+ * Merge a stored or per-request profile over the platform defaults.
+ * Invalid colors and logos are dropped rather than failing the export.
+ */
+export function resolveBrandProfile(input?: BrandingInput | null): BrandProfile {
+  const logo = input?.companyLogo || input?.logo;
+
+  return {
+    companyName: input?.companyName?.trim() || undefined,
+    companyLogo: logo && isLogoDataUrl(logo) ? logo : undefined,
+    primaryColor: normalizeColor(input?.primaryColor, DEFAULT_BRAND_PROFILE.primaryColor),
+    secondaryColor: normalizeColor(input?.secondaryColor, DEFAULT_BRAND_PROFILE.secondaryColor),
+    fontFamily: input?.fontFamily?.trim() || DEFAULT_BRAND_PROFILE.fontFamily,
+    footerText: input?.footerText?.trim() || DEFAULT_BRAND_PROFILE.footerText,
+    includeWatermark: input?.includeWatermark ?? DEFAULT_BRAND_PROFILE.includeWatermark,
+    watermarkText: input?.watermarkText?.trim() || undefined
+  };
+}
+
+/**
+ * Validate a profile before it is saved. Returns human-readable errors.
+ */
+export function validateBrandProfile(input: BrandingInput): string[] {
+  const errors: string[] = [];
+
+  for (const field of ['primaryColor', 'secondaryColor'] as const) {
+    if (input[field] !== undefined && !HEX_COLOR.test(input[field]!)) {
+      errors.push(`${field} must be a hex color like #8B5CF6`);
+    }
+  }
+
+  const logo = input.companyLogo || input.logo;
+  if (logo) {
+    if (!isLogoDataUrl(logo)) errors.push('companyLogo must be a PNG or JPEG data URL');
+    else if (logo.length > MAX_LOGO_LENGTH) errors.push('companyLogo must be smaller than 500KB');
+  }
+
+  if (input.footerText && input.footerText.length > 200) {
+    errors.push('footerText must be 200 characters or fewer');
+  }
+  if (input.watermarkText && input.watermarkText.length > 40) {
+    errors.push('watermarkText must be 40 characters or fewer');
+  }
+
+  return errors;
+}
+
+/**
+ * Watermark to stamp on the export, or null when watermarking is off
+ */
+export function getWatermarkText(profile: BrandProfile): string | null {
+  return profile.includeWatermark ? profile.watermarkText || DEFAULT_WATERMARK_TEXT : null;
+}
+
+export function isLogoDataUrl(value: string): boolean {
+  return LOGO_DATA_URL.test(value);
+}
+
+export function getLogoImageType(dataUrl: string): 'png' | 'jpg' {
+  return /^data:image\/png/i.test(dataUrl) ? 'png' : 'jpg';
+}
+
+export function decodeLogo(dataUrl: string): Uint8Array {
+  const base64 = dataUrl.slice(dataUrl.indexOf(',') + 1);
+  if (typeof Buffer !== 'undefined') return Uint8Array.from(Buffer.from(base64, 'base64'));
+
+  const binary = atob(base64);
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+}
+
+/**
+ * Pixel size of a PNG or JPEG logo, read from its header. DOCX and PPTX need
+ * explicit dimensions to keep the aspect ratio.
+ */
+export function readLogoSize(bytes: Uint8Array): { width: number; height: number } | null {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  // PNG: IHDR width/height follow the 8-byte signature and chunk header
+  if (bytes.length >= 24 && bytes[0] === 0x89 && bytes[1] === 0x50) {
+    return { width: view.getUint32(16), height: view.getUint32(20) };
+  }
+
+  // JPEG: walk the segments until a start-of-frame marker
+  if (bytes.length >= 4 && bytes[0] === 0xff && bytes[1] === 0xd8) {
+    let offset = 2;
+    while (offset + 9 < bytes.length) {
+      if (bytes[offset] !== 0xff) return null;
+      const marker = bytes[offset + 1];
+      if (marker >= 0xc0 && marker <= 0xcf && ![0xc4, 0xc8, 0xcc].includes(marker)) {
+        return { width: view.getUint16(offset + 7), height: view.getUint16(offset + 5) };
+      }
+      offset += 2 + view.getUint16(offset + 2);
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Fit a logo into a bounding box, keeping its aspect ratio
+ */
+export function fitLogo(dataUrl: string, maxWidth: number, maxHeight: number): { width: number; height: number } {
+  const size = readLogoSize(decodeLogo(dataUrl));
+  if (!size || !size.width || !size.height) return { width: maxWidth, height: maxHeight };
+
+  const scale = Math.min(maxWidth / size.width, maxHeight / size.height);
+  return { width: size.width * scale, height: size.height * scale };
+}
+
+/**
+ * jsPDF only ships the standard 14 fonts, so map the brand font to the
+ * closest built-in family.
+ */
+export function toPDFFont(fontFamily: string): PDFFontFamily {
+  if (/courier|mono/i.test(fontFamily)) return 'courier';
+  if (/times|georgia|garamond|serif/i.test(fontFamily) && !/sans/i.test(fontFamily)) return 'times';
+  return 'helvetica';
+}
+
+/**
+ * Hex color without the leading '#', as expected by docx, pptxgenjs and exceljs
+ */
+export function toBareHex(color: string): string {
+  return color.replace('#', '').toUpperCase();
+}
@@ -19,8 +19,30 @@ import {
   BorderStyle,
   ShadingType,
   convertInchesToTwip,
-  PageBreak
+  PageBreak,
+  ImageRun,
+  Header,
+  Footer,
+  PageNumber
 } from 'docx';
+import {
+  DocumentBlock,
+  ExportDocument,
+  TableData,
+  ValueFormat,
+  formatValue
+} from '../layout/document-model';
+import { buildDocument, resolveTemplate } from '../layout/templates';
+import {
+  BrandProfile,
+  BrandingInput,
+  decodeLogo,
+  fitLogo,
+  getLogoImageType,
+  getWatermarkText,
+  resolveBrandProfile,
+  toBareHex
+} from '../branding';
 
 interface DOCXOptions {
   title?: string;
@@ -31,271 +53,132 @@ interface DOCXOptions {
   includeHeader?: boolean;
   includeFooter?: boolean;
   includeTOC?: boolean;
-  branding?: {
-    primaryColor?: string;
-    secondaryColor?: string;
-  };
+  branding?: BrandingInput;
 }
 
 interface DOCXSection {
   title: string;
   content: string | string[];
-  type?: 'text' | 'table' | 'list';
+  type?: 'text' | 'table' | 'chart' | 'list';
   data?: any;
 }
 
-interface TableData {
-  headers: string[];
-  rows: string[][];
-}
-
 export class DOCXGenerator {
   private sections: any[] = [];
   private options: DOCXOptions;
+  private brand: BrandProfile;
+  private primaryColor: string;
+  private secondaryColor: string;
 
   constructor(options: DOCXOptions = {}) {
     this.options = options;
+    this.brand = resolveBrandProfile(options.branding);
+    this.primaryColor = toBareHex(this.brand.primaryColor);
+    this.secondaryColor = toBareHex(this.brand.secondaryColor);
   }
 
   /**
-   * Generate DOCX for ICP Analysis
+   * Render a format-agnostic export document
    */
-  static async generateICPAnalysis(data: any, options: DOCXOptions = {}): Promise<Blob> {
-    const generator = new DOCXGenerator(options);
-
-    // Add title page
-    generator.addTitlePage(
-      options.title || 'Ideal Customer Profile Analysis',
-      options.subtitle || 'Revenue Intelligence Platform'
-    );
-
-    // Add page break
-    generator.addPageBreak();
-
-    // Add executive summary
-    generator.addHeading('Executive Summary', 1);
-    generator.addParagraph(
-      data.executiveSummary ||
-        'This document provides a comprehensive analysis of your Ideal Customer Profile (ICP), including detailed buyer personas, company ratings, and market insights.'
-    );
-    generator.addSpacing();
+  static async renderDocument(document: ExportDocument, options: DOCXOptions = {}): Promise<Blob> {
+    const generator = new DOCXGenerator({ title: document.title, ...options });
 
-    // Add ICP sections
-    if (data.sections && Array.isArray(data.sections)) {
-      for (const section of data.sections) {
-        generator.addSection(section);
-      }
-    }
-
-    // Add buyer personas
-    if (data.buyerPersonas && data.buyerPersonas.length > 0) {
-      generator.addPageBreak();
-      generator.addHeading('Buyer Personas', 1);
-
-      for (const persona of data.buyerPersonas) {
-        generator.addBuyerPersona(persona);
-      }
-    }
-
-    // Add company ratings
-    if (data.companyRatings && data.companyRatings.length > 0) {
-      generator.addPageBreak();
-      generator.addHeading('Company Ratings', 1);
-      generator.addCompanyRatingsTable(data.companyRatings);
+    for (const block of document.blocks) {
+      generator.addBlock(block);
     }
 
     return generator.generate();
   }
 
+  /**
+   * Generate DOCX for ICP Analysis
+   */
+  static async generateICPAnalysis(data: any, options: DOCXOptions = {}): Promise<Blob> {
+    return DOCXGenerator.renderDocument(buildDocument(resolveTemplate('icp'), data, options), options);
+  }
+
   /**
    * Generate DOCX for Assessment Results
    */
   static async generateAssessment(data: any, options: DOCXOptions = {}): Promise<Blob> {
-    const generator = new DOCXGenerator(options);
-
-    generator.addTitlePage(
-      options.title || 'Assessment Results',
-      options.subtitle || 'Revenue Intelligence Platform'
-    );
-
-    generator.addPageBreak();
-
-    // Add assessment overview
-    generator.addHeading('Assessment Overview', 1);
-    generator.addParagraph(
-      data.overview ||
-        'This assessment provides insights into your revenue intelligence capabilities and identifies areas for improvement.'
-    );
-    generator.addSpacing();
-
-    // Add competency scores
-    if (data.scores) {
-      generator.addHeading('Competency Scores', 2);
-      generator.addScoresTable(data.scores);
-      generator.addSpacing();
-    }
-
-    // Add recommendations
-    if (data.recommendations && data.recommendations.length > 0) {
-      generator.addHeading('Recommendations', 2);
-      for (const rec of data.recommendations) {
-        generator.addBulletPoint(rec);
-      }
-    }
-
-    // Add action items
-    if (data.actionItems && data.actionItems.length > 0) {
-      generator.addSpacing();
-      generator.addHeading('Action Items', 2);
-      for (const item of data.actionItems) {
-        generator.addBulletPoint(item);
-      }
-    }
-
-    return generator.generate();
+    return DOCXGenerator.renderDocument(buildDocument(resolveTemplate('assessment'), data, options), options);
   }
 
   /**
    * Generate DOCX for Business Case
    */
   static async generateBusinessCase(data: any, options: DOCXOptions = {}): Promise<Blob> {
-    const generator = new DOCXGenerator(options);
-
-    generator.addTitlePage(
-      options.title || 'Business Case',
-      options.subtitle || data.companyName || 'Investment Proposal'
-    );
-
-    generator.addPageBreak();
-
-    // Add executive summary
-    generator.addHeading('Executive Summary', 1);
-    generator.addParagraph(
-      data.executiveSummary ||
-        'This business case outlines the strategic value proposition, financial justification, and implementation roadmap for the proposed investment.'
-    );
-    generator.addSpacing();
-
-    // Add problem statement
-    if (data.problemStatement) {
-      generator.addHeading('Problem Statement', 2);
-      generator.addParagraph(data.problemStatement);
-      generator.addSpacing();
-    }
-
-    // Add proposed solution
-    if (data.solution) {
-      generator.addHeading('Proposed Solution', 2);
-      generator.addParagraph(data.solution);
-      generator.addSpacing();
-    }
-
-    // Add benefits
-    if (data.benefits && data.benefits.length > 0) {
-      generator.addHeading('Key Benefits', 2);
-      for (const benefit of data.benefits) {
-        generator.addBulletPoint(benefit);
-      }
-      generator.addSpacing();
-    }
-
-    // Add financial analysis
-    if (data.financialAnalysis) {
-      generator.addHeading('Financial Analysis', 2);
-      generator.addFinancialAnalysisTable(data.financialAnalysis);
-      generator.addSpacing();
-    }
-
-    // Add ROI projections
-    if (data.roiProjections) {
-      generator.addHeading('ROI Projections', 2);
-      generator.addParagraph(data.roiProjections);
-      generator.addSpacing();
-    }
-
-    // Add implementation plan
-    if (data.implementationPlan) {
-      generator.addHeading('Implementation Plan', 2);
-      generator.addParagraph(data.implementationPlan);
-      generator.addSpacing();
-    }
-
-    // Add risks and mitigation
-    if (data.risks && data.risks.length > 0) {
-      generator.addHeading('Risks and Mitigation', 2);
-      for (const risk of data.risks) {
-        generator.addBulletPoint(risk);
-      }
-    }
-
-    return generator.generate();
+    return DOCXGenerator.renderDocument(buildDocument(resolveTemplate('business_case'), data, options), options);
   }
 
   /**
    * Generate DOCX for Cost Calculator
    */
   static async generateCostCalculator(data: any, options: DOCXOptions = {}): Promise<Blob> {
-    const generator = new DOCXGenerator(options);
-
-    generator.addTitlePage(
-      options.title || 'Cost of Inaction Analysis',
-      options.subtitle || 'Financial Impact Assessment'
-    );
-
-    generator.addPageBreak();
-
-    // Add summary
-    generator.addHeading('Cost Analysis Summary', 1);
-    generator.addParagraph(
-      'This analysis quantifies the financial impact of maintaining the status quo versus taking action.'
-    );
-    generator.addSpacing();
-
-    // Add total cost
-    if (data.totalCost) {
-      generator.addKeyMetric('Total Cost of Inaction (Annual)', `$${data.totalCost.toLocaleString()}`);
-      generator.addSpacing();
-    }
-
-    // Add cost breakdown
-    if (data.breakdown && data.breakdown.length > 0) {
-      generator.addHeading('Cost Breakdown', 2);
-      generator.addCostBreakdownTable(data.breakdown);
-      generator.addSpacing();
-    }
-
-    // Add recommendations
-    if (data.recommendations) {
-      generator.addHeading('Recommendations', 2);
-      generator.addParagraph(data.recommendations);
-    }
-
-    return generator.generate();
+    return DOCXGenerator.renderDocument(buildDocument(resolveTemplate('cost'), data, options), options);
   }
 
   /**
    * Generate generic DOCX from sections
    */
   static async generateFromSections(sections: DOCXSection[], options: DOCXOptions = {}): Promise<Blob> {
-    const generator = new DOCXGenerator(options);
-
-    if (options.title) {
-      generator.addTitlePage(options.title, options.subtitle);
-      generator.addPageBreak();
-    }
-
-    for (const section of sections) {
-      generator.addSection(section);
-    }
-
-    return generator.generate();
+    return DOCXGenerator.renderDocument(buildDocument(resolveTemplate('comprehensive'), { sections }, options), options);
   }
 
   // ==========================================
   // PRIVATE METHODS - Content Building
   // ==========================================
 
+  private addBlock(block: DocumentBlock): void {
+    switch (block.kind) {
+      case 'cover':
+        this.addTitlePage(block.title, block.subtitle);
+        this.addPageBreak();
+        break;
+      case 'heading':
+        this.addHeading(block.text, block.level);
+        break;
+      case 'paragraph':
+        this.addParagraph(block.text);
+        break;
+      case 'bullets':
+        block.items.forEach(item => this.addBulletPoint(item));
+        break;
+      case 'keyMetric':
+        this.addKeyMetric(block.label, block.value);
+        break;
+      case 'table':
+        this.addTable(block.table);
+        break;
+      case 'chart':
+        this.addChartTable(block.labels, block.values, block.format);
+        break;
+      case 'pageBreak':
+        this.addPageBreak();
+        break;
+      case 'spacing':
+        this.addSpacing();
+        break;
+    }
+  }
+
   private addTitlePage(title: string, subtitle?: string): void {
+    if (this.brand.companyLogo) {
+      const logo = this.brand.companyLogo;
+      this.sections.push(
+        new Paragraph({
+          alignment: AlignmentType.CENTER,
+          children: [
+            new ImageRun({
+              type: getLogoImageType(logo),
+              data: decodeLogo(logo),
+              transformation: fitLogo(logo, 200, 80)
+            })
+          ]
+        })
+      );
+    }
+
     // Main title
     this.sections.push(
       new Paragraph({
@@ -309,7 +192,7 @@ export class DOCXGenerator {
         run: {
           size: 48,
           bold: true,
-          color: '8B5CF6' // Purple
+          color: this.primaryColor
         }
       })
     );
@@ -326,7 +209,7 @@ export class DOCXGenerator {
           },
           run: {
             size: 28,
-            color: '3B82F6' // Blue
+            color: this.secondaryColor
           }
         })
       );
@@ -353,10 +236,24 @@ export class DOCXGenerator {
       })
     );
 
+    if (this.brand.companyName) {
+      this.sections.push(
+        new Paragraph({
+          text: this.brand.companyName,
+          alignment: AlignmentType.CENTER,
+          run: {
+            size: 22,
+            bold: true,
+            color: '6B7280'
+          }
+        })
+      );
+    }
+
     // Footer branding
     this.sections.push(
       new Paragraph({
-        text: 'Generated by Revenue Intelligence Platform',
+        text: this.brand.footerText,
         alignment: AlignmentType.CENTER,
         spacing: {
           before: convertInchesToTwip(0.5),
@@ -394,7 +291,7 @@ export class DOCXGenerator {
         run: {
           size: fontSize,
           bold: true,
-          color: '8B5CF6' // Purple
+          color: this.primaryColor
         }
       })
     );
@@ -463,7 +360,7 @@ export class DOCXGenerator {
         run: {
           size: 32,
           bold: true,
-          color: '8B5CF6'
+          color: this.primaryColor
         }
       })
     );
@@ -481,24 +378,6 @@ export class DOCXGenerator {
     );
   }
 
-  private addSection(section: DOCXSection): void {
-    this.addHeading(section.title, 2);
-
-    if (typeof section.content === 'string') {
-      this.addParagraph(section.content);
-    } else if (Array.isArray(section.content)) {
-      for (const item of section.content) {
-        this.addBulletPoint(item);
-      }
-    }
-
-    if (section.type === 'table' && section.data) {
-      this.addTable(section.data);
-    }
-
-    this.addSpacing();
-  }
-
   private addTable(data: TableData): void {
     const tableRows: TableRow[] = [];
 
@@ -519,9 +398,9 @@ export class DOCXGenerator {
                 })
               ],
               shading: {
-                fill: '8B5CF6',
+                fill: this.primaryColor,
                 type: ShadingType.SOLID,
-                color: '8B5CF6'
+                color: this.primaryColor
               }
             })
         ),
@@ -571,87 +450,19 @@ export class DOCXGenerator {
     this.addSpacing();
   }
 
-  private addBuyerPersona(persona: any): void {
-    this.addHeading(persona.title || persona.role || 'Buyer Persona', 3);
-
-    if (persona.description) {
-      this.addParagraph(persona.description);
-    }
-
-    const personaData: string[][] = [];
-    if (persona.role) personaData.push(['Role', persona.role]);
-    if (persona.goals) {
-      const goals = Array.isArray(persona.goals) ? persona.goals.join(', ') : persona.goals;
-      personaData.push(['Goals', goals]);
-    }
-    if (persona.painPoints) {
-      const painPoints = Array.isArray(persona.painPoints) ? persona.painPoints.join(', ') : persona.painPoints;
-      personaData.push(['Pain Points', painPoints]);
-    }
-    if (persona.buyingCriteria) {
-      const criteria = Array.isArray(persona.buyingCriteria) ? persona.buyingCriteria.join(', ') : persona.buyingCriteria;
-      personaData.push(['Buying Criteria', criteria]);
-    }
-
-    if (personaData.length > 0) {
-      this.addTable({
-        headers: ['Attribute', 'Details'],
-        rows: personaData
-      });
-    }
-  }
-
-  private addCompanyRatingsTable(ratings: any[]): void {
-    const rows = ratings.map(r => [
-      r.companyName || '',
-      r.rating?.toString() || '',
-      r.fitScore || '',
-      r.notes || ''
-    ]);
-
-    this.addTable({
-      headers: ['Company', 'Rating', 'Fit Score', 'Notes'],
-      rows
-    });
-  }
-
-  private addScoresTable(scores: any): void {
-    const rows = Object.entries(scores).map(([key, value]) => [
-      key.replace(/([A-Z])/g, ' $1').trim(), // Convert camelCase to Title Case
-      value?.toString() || ''
-    ]);
-
-    this.addTable({
-      headers: ['Category', 'Score'],
-      rows
-    });
-  }
-
-  private addFinancialAnalysisTable(analysis: any): void {
-    const rows: string[][] = [];
-
-    if (analysis.investment) rows.push(['Initial Investment', `$${analysis.investment.toLocaleString()}`]);
-    if (analysis.annualCost) rows.push(['Annual Cost', `$${analysis.annualCost.toLocaleString()}`]);
-    if (analysis.expectedReturn) rows.push(['Expected Annual Return', `$${analysis.expectedReturn.toLocaleString()}`]);
-    if (analysis.roi) rows.push(['ROI', `${analysis.roi}%`]);
-    if (analysis.paybackPeriod) rows.push(['Payback Period', `${analysis.paybackPeriod} months`]);
-
-    this.addTable({
-      headers: ['Metric', 'Value'],
-      rows
-    });
-  }
-
-  private addCostBreakdownTable(breakdown: any[]): void {
-    const rows = breakdown.map(item => [
-      item.category || '',
-      item.description || '',
-      `$${item.cost?.toLocaleString() || '0'}`
-    ]);
+  /**
+   * Charts render as a value/share table (docx has no native charts)
+   */
+  private addChartTable(labels: string[], values: number[], format?: ValueFormat): void {
+    const total = values.reduce((sum, value) => sum + value, 0);
 
     this.addTable({
-      headers: ['Category', 'Description', 'Cost'],
-      rows
+      headers: ['Item', 'Value', 'Share'],
+      rows: labels.map((label, index) => [
+        label,
+        formatValue(values[index], format),
+        total > 0 ? `${((values[index] / total) * 100).toFixed(1)}%` : ''
+      ])
     });
   }
 
@@ -660,13 +471,24 @@ export class DOCXGenerator {
   // ==========================================
 
   private async generate(): Promise<Blob> {
+    const watermark = getWatermarkText(this.brand);
+
     const doc = new Document({
-      creator: this.options.author || 'Revenue Intelligence Platform',
+      creator: this.options.author || this.brand.companyName || 'Revenue Intelligence Platform',
       title: this.options.title || 'Export Document',
       description: this.options.description || 'Generated document',
+      styles: {
+        default: {
+          document: {
+            run: { font: this.brand.fontFamily }
+          }
+        }
+      },
       sections: [
         {
           properties: {},
+          headers: watermark ? { default: this.buildWatermarkHeader(watermark) } : undefined,
+          footers: this.options.includeFooter === false ? undefined : { default: this.buildFooter() },
           children: this.sections
         }
       ]
@@ -675,6 +497,37 @@ export class DOCXGenerator {
     return await Packer.toBlob(doc);
   }
 
+  /**
+   * Brand footer text with page numbers on every page
+   */
+  private buildFooter(): Footer {
+    return new Footer({
+      children: [
+        new Paragraph({
+          alignment: AlignmentType.CENTER,
+          children: [
+            new TextRun({ text: `${this.brand.footerText}  |  Page `, size: 16, color: '9CA3AF' }),
+            new TextRun({ children: [PageNumber.CURRENT], size: 16, color: '9CA3AF' })
+          ]
+        })
+      ]
+    });
+  }
+
+  /**
+   * Watermark text repeated in the page header (docx has no watermark API)
+   */
+  private buildWatermarkHeader(text: string): Header {
+    return new Header({
+      children: [
+        new Paragraph({
+          alignment: AlignmentType.CENTER,
+          children: [new TextRun({ text, size: 40, bold: true, color: 'D1D5DB', allCaps: true })]
+        })
+      ]
+    });
+  }
+
   /**
    * Generate and download DOCX file (client-side)
    */
@@ -8,6 +8,23 @@
 import { jsPDF } from 'jspdf';
 import autoTable from 'jspdf-autotable';
 import html2canvas from 'html2canvas';
+import {
+  DocumentBlock,
+  ExportDocument,
+  TableData,
+  ValueFormat,
+  formatValue
+} from '../layout/document-model';
+import { buildDocument, resolveTemplate } from '../layout/templates';
+import {
+  BrandProfile,
+  BrandingInput,
+  PDFFontFamily,
+  getLogoImageType,
+  getWatermarkText,
+  resolveBrandProfile,
+  toPDFFont
+} from '../branding';
 
 interface PDFOptions {
   title?: string;
@@ -16,11 +33,7 @@ interface PDFOptions {
   includeHeader?: boolean;
   includeFooter?: boolean;
   includeTOC?: boolean;
-  branding?: {
-    logo?: string;
-    primaryColor?: string;
-    secondaryColor?: string;
-  };
+  branding?: BrandingInput;
   customStyling?: Record<string, any>;
 }
 
@@ -31,11 +44,6 @@ interface PDFSection {
   data?: any;
 }
 
-interface TableData {
-  headers: string[];
-  rows: string[][];
-}
-
 export class PDFGenerator {
   private doc: jsPDF;
   private pageWidth: number;
@@ -44,6 +52,8 @@ export class PDFGenerator {
   private currentY: number;
   private primaryColor: [number, number, number];
   private secondaryColor: [number, number, number];
+  private brand: BrandProfile;
+  private font: PDFFontFamily;
 
   constructor(options: PDFOptions = {}) {
     this.doc = new jsPDF({
@@ -57,203 +67,61 @@ export class PDFGenerator {
     this.margin = 20;
     this.currentY = this.margin;
 
-    // Brand colors (H&S Platform purple and blue)
-    this.primaryColor = options.branding?.primaryColor
-      ? this.hexToRGB(options.branding.primaryColor)
-      : [139, 92, 246]; // #8B5CF6 purple
-
-    this.secondaryColor = options.branding?.secondaryColor
-      ? this.hexToRGB(options.branding.secondaryColor)
-      : [59, 130, 246]; // #3B82F6 blue
+    // Customer brand profile, defaulting to the platform purple and blue
+    this.brand = resolveBrandProfile(options.branding);
+    this.primaryColor = this.hexToRGB(this.brand.primaryColor);
+    this.secondaryColor = this.hexToRGB(this.brand.secondaryColor);
+    this.font = toPDFFont(this.brand.fontFamily);
+    this.doc.setFont(this.font, 'normal');
   }
 
   /**
-   * Generate PDF for ICP Analysis
+   * Render a format-agnostic export document
    */
-  static async generateICPAnalysis(data: any, options: PDFOptions = {}): Promise<Blob> {
+  static async renderDocument(document: ExportDocument, options: PDFOptions = {}): Promise<Blob> {
     const generator = new PDFGenerator(options);
 
-    // Add cover page
-    generator.addCoverPage(
-      options.title || 'Ideal Customer Profile Analysis',
-      options.subtitle || 'Revenue Intelligence Platform'
-    );
-
-    // Add executive summary
-    generator.addNewPage();
-    generator.addHeading('Executive Summary', 1);
-    generator.addParagraph(data.executiveSummary || 'This document provides a comprehensive analysis of your Ideal Customer Profile (ICP).');
-
-    // Add ICP sections
-    if (data.sections) {
-      for (const section of data.sections) {
-        generator.checkPageBreak(60);
-        generator.addSection(section);
-      }
+    for (const block of document.blocks) {
+      generator.addBlock(block);
     }
 
-    // Add buyer personas
-    if (data.buyerPersonas && data.buyerPersonas.length > 0) {
-      generator.addNewPage();
-      generator.addHeading('Buyer Personas', 1);
-
-      for (const persona of data.buyerPersonas) {
-        generator.checkPageBreak(80);
-        generator.addBuyerPersona(persona);
-      }
-    }
-
-    // Add company ratings
-    if (data.companyRatings && data.companyRatings.length > 0) {
-      generator.addNewPage();
-      generator.addHeading('Company Ratings', 1);
-      generator.addCompanyRatingsTable(data.companyRatings);
-    }
-
-    // Add footer to all pages
     generator.addFooterToAllPages();
-
     return generator.getBlob();
   }
 
+  /**
+   * Generate PDF for ICP Analysis
+   */
+  static async generateICPAnalysis(data: any, options: PDFOptions = {}): Promise<Blob> {
+    return PDFGenerator.renderDocument(buildDocument(resolveTemplate('icp'), data, options), options);
+  }
+
   /**
    * Generate PDF for Assessment Results
    */
   static async generateAssessment(data: any, options: PDFOptions = {}): Promise<Blob> {
-    const generator = new PDFGenerator(options);
-
-    // Add cover page
-    generator.addCoverPage(
-      options.title || 'Assessment Results',
-      options.subtitle || 'Revenue Intelligence Platform'
-    );
-
-    // Add assessment overview
-    generator.addNewPage();
-    generator.addHeading('Assessment Overview', 1);
-    generator.addParagraph(data.overview || 'This assessment provides insights into your revenue intelligence capabilities.');
-
-    // Add scores
-    if (data.scores) {
-      generator.checkPageBreak(80);
-      generator.addHeading('Competency Scores', 2);
-      generator.addScoresTable(data.scores);
-    }
-
-    // Add recommendations
-    if (data.recommendations && data.recommendations.length > 0) {
-      generator.checkPageBreak(60);
-      generator.addHeading('Recommendations', 2);
-      for (const rec of data.recommendations) {
-        generator.addBulletPoint(rec);
-      }
-    }
-
-    generator.addFooterToAllPages();
-    return generator.getBlob();
+    return PDFGenerator.renderDocument(buildDocument(resolveTemplate('assessment'), data, options), options);
   }
 
   /**
    * Generate PDF for Business Case
    */
   static async generateBusinessCase(data: any, options: PDFOptions = {}): Promise<Blob> {
-    const generator = new PDFGenerator(options);
-
-    // Add cover page
-    generator.addCoverPage(
-      options.title || 'Business Case',
-      options.subtitle || data.companyName || 'Revenue Intelligence Platform'
-    );
-
-    // Add executive summary
-    generator.addNewPage();
-    generator.addHeading('Executive Summary', 1);
-    generator.addParagraph(data.executiveSummary || 'This business case outlines the value proposition and ROI for your investment.');
-
-    // Add problem statement
-    if (data.problemStatement) {
-      generator.checkPageBreak(50);
-      generator.addHeading('Problem Statement', 2);
-      generator.addParagraph(data.problemStatement);
-    }
-
-    // Add solution
-    if (data.solution) {
-      generator.checkPageBreak(50);
-      generator.addHeading('Proposed Solution', 2);
-      generator.addParagraph(data.solution);
-    }
-
-    // Add financial analysis
-    if (data.financialAnalysis) {
-      generator.checkPageBreak(80);
-      generator.addHeading('Financial Analysis', 2);
-      generator.addFinancialAnalysisTable(data.financialAnalysis);
-    }
-
-    // Add ROI projections
-    if (data.roiProjections) {
-      generator.checkPageBreak(60);
-      generator.addHeading('ROI Projections', 2);
-      generator.addParagraph(data.roiProjections);
-    }
-
-    generator.addFooterToAllPages();
-    return generator.getBlob();
+    return PDFGenerator.renderDocument(buildDocument(resolveTemplate('business_case'), data, options), options);
   }
 
   /**
    * Generate PDF for Cost Calculator
    */
   static async generateCostCalculator(data: any, options: PDFOptions = {}): Promise<Blob> {
-    const generator = new PDFGenerator(options);
-
-    generator.addCoverPage(
-      options.title || 'Cost of Inaction Analysis',
-      options.subtitle || 'Financial Impact Assessment'
-    );
-
-    generator.addNewPage();
-    generator.addHeading('Cost Analysis Summary', 1);
-
-    if (data.totalCost) {
-      generator.addKeyMetric('Total Cost of Inaction', `$${data.totalCost.toLocaleString()}`);
-    }
-
-    if (data.breakdown) {
-      generator.checkPageBreak(80);
-      generator.addHeading('Cost Breakdown', 2);
-      generator.addCostBreakdownTable(data.breakdown);
-    }
-
-    if (data.recommendations) {
-      generator.checkPageBreak(60);
-      generator.addHeading('Recommendations', 2);
-      generator.addParagraph(data.recommendations);
-    }
-
-    generator.addFooterToAllPages();
-    return generator.getBlob();
+    return PDFGenerator.renderDocument(buildDocument(resolveTemplate('cost'), data, options), options);
   }
 
   /**
    * Generate generic PDF from sections
    */
   static async generateFromSections(sections: PDFSection[], options: PDFOptions = {}): Promise<Blob> {
-    const generator = new PDFGenerator(options);
-
-    if (options.title) {
-      generator.addCoverPage(options.title, options.subtitle);
-      generator.addNewPage();
-    }
-
-    for (const section of sections) {
-      generator.checkPageBreak(60);
-      generator.addSection(section);
-    }
-
-    generator.addFooterToAllPages();
-    return generator.getBlob();
+    return PDFGenerator.renderDocument(buildDocument(resolveTemplate('comprehensive'), { sections }, options), options);
   }
 
   // ==========================================
@@ -268,10 +136,14 @@ export class PDFGenerator {
     this.doc.setFillColor(...this.secondaryColor);
     this.doc.rect(0, this.pageHeight / 3, this.pageWidth, this.pageHeight / 3, 'F');
 
+    if (this.brand.companyLogo) {
+      this.addLogo(this.brand.companyLogo);
+    }
+
     // Add title
     this.doc.setTextColor(255, 255, 255);
     this.doc.setFontSize(32);
-    this.doc.setFont('helvetica', 'bold');
+    this.doc.setFont(this.font, 'bold');
 
     const titleLines = this.doc.splitTextToSize(title, this.pageWidth - 2 * this.margin);
     this.doc.text(titleLines, this.pageWidth / 2, this.pageHeight / 2 - 20, { align: 'center' });
@@ -279,7 +151,7 @@ export class PDFGenerator {
     // Add subtitle
     if (subtitle) {
       this.doc.setFontSize(16);
-      this.doc.setFont('helvetica', 'normal');
+      this.doc.setFont(this.font, 'normal');
       this.doc.text(subtitle, this.pageWidth / 2, this.pageHeight / 2 + 10, { align: 'center' });
     }
 
@@ -292,10 +164,30 @@ export class PDFGenerator {
     });
     this.doc.text(dateStr, this.pageWidth / 2, this.pageHeight - 30, { align: 'center' });
 
+    if (this.brand.companyName) {
+      this.doc.text(this.brand.companyName, this.pageWidth / 2, this.pageHeight - 22, { align: 'center' });
+    }
+
     // Reset text color
     this.doc.setTextColor(0, 0, 0);
   }
 
+  /**
+   * Logo box in the top-left corner of the cover; the image keeps its aspect ratio
+   */
+  private addLogo(dataUrl: string): void {
+    const maxWidth = 50;
+    const maxHeight = 25;
+
+    try {
+      const { width, height } = this.doc.getImageProperties(dataUrl);
+      const scale = Math.min(maxWidth / width, maxHeight / height);
+      this.doc.addImage(dataUrl, getLogoImageType(dataUrl).toUpperCase(), this.margin, this.margin, width * scale, height * scale);
+    } catch (error) {
+      console.warn('Skipping unreadable brand logo:', error);
+    }
+  }
+
   private addNewPage(): void {
     this.doc.addPage();
     this.currentY = this.margin;
@@ -309,10 +201,15 @@ export class PDFGenerator {
 
   private addFooterToAllPages(): void {
     const pageCount = this.doc.getNumberOfPages();
+    const watermark = getWatermarkText(this.brand);
 
     for (let i = 1; i <= pageCount; i++) {
       this.doc.setPage(i);
 
+      if (watermark) {
+        this.addWatermark(watermark);
+      }
+
       // Add line
       this.doc.setDrawColor(...this.primaryColor);
       this.doc.setLineWidth(0.5);
@@ -330,7 +227,7 @@ export class PDFGenerator {
 
       // Add branding
       this.doc.text(
-        'Generated by Revenue Intelligence Platform',
+        this.doc.splitTextToSize(this.brand.footerText, this.pageWidth / 2 - this.margin - 15)[0],
         this.margin,
         this.pageHeight - 10
       );
@@ -341,10 +238,61 @@ export class PDFGenerator {
     this.doc.setTextColor(0, 0, 0);
   }
 
+  /**
+   * Diagonal, semi-transparent watermark across the page
+   */
+  private addWatermark(text: string): void {
+    const doc = this.doc as any;
+
+    doc.saveGraphicsState();
+    doc.setGState(new doc.GState({ opacity: 0.15 }));
+    this.doc.setFontSize(60);
+    this.doc.setFont(this.font, 'bold');
+    this.doc.setTextColor(...this.primaryColor);
+    this.doc.text(text, this.pageWidth / 2, this.pageHeight / 2, { align: 'center', angle: 45 });
+    doc.restoreGraphicsState();
+
+    this.doc.setFont(this.font, 'normal');
+  }
+
   // ==========================================
   // PRIVATE METHODS - Content
   // ==========================================
 
+  private addBlock(block: DocumentBlock): void {
+    switch (block.kind) {
+      case 'cover':
+        this.addCoverPage(block.title, block.subtitle);
+        this.addNewPage();
+        break;
+      case 'heading':
+        this.checkPageBreak(block.level === 1 ? 60 : 40); // Keep headings with their content
+        this.addHeading(block.text, block.level);
+        break;
+      case 'paragraph':
+        this.addParagraph(block.text);
+        break;
+      case 'bullets':
+        block.items.forEach(item => this.addBulletPoint(item));
+        break;
+      case 'keyMetric':
+        this.addKeyMetric(block.label, block.value);
+        break;
+      case 'table':
+        this.addTable(block.table);
+        break;
+      case 'chart':
+        this.addBarChart(block.labels, block.values, block.format);
+        break;
+      case 'pageBreak':
+        if (this.currentY > this.margin) this.addNewPage();
+        break;
+      case 'spacing':
+        this.currentY += 4;
+        break;
+    }
+  }
+
   private addHeading(text: string, level: 1 | 2 | 3 = 1): void {
     const fontSize = level === 1 ? 20 : level === 2 ? 16 : 14;
     const spaceBefore = level === 1 ? 10 : level === 2 ? 8 : 6;
@@ -354,7 +302,7 @@ export class PDFGenerator {
     this.checkPageBreak(fontSize + spaceAfter);
 
     this.doc.setFontSize(fontSize);
-    this.doc.setFont('helvetica', 'bold');
+    this.doc.setFont(this.font, 'bold');
     this.doc.setTextColor(...this.primaryColor);
     this.doc.text(text, this.margin, this.currentY);
 
@@ -367,12 +315,12 @@ export class PDFGenerator {
 
     this.currentY += spaceAfter;
     this.doc.setTextColor(0, 0, 0);
-    this.doc.setFont('helvetica', 'normal');
+    this.doc.setFont(this.font, 'normal');
   }
 
   private addParagraph(text: string): void {
     this.doc.setFontSize(11);
-    this.doc.setFont('helvetica', 'normal');
+    this.doc.setFont(this.font, 'normal');
 
     const lines = this.doc.splitTextToSize(text, this.pageWidth - 2 * this.margin);
     const lineHeight = 6;
@@ -416,31 +364,15 @@ export class PDFGenerator {
 
     // Add value
     this.doc.setFontSize(16);
-    this.doc.setFont('helvetica', 'bold');
+    this.doc.setFont(this.font, 'bold');
     this.doc.setTextColor(...this.primaryColor);
     this.doc.text(value, this.margin + 5, this.currentY + 16);
 
     this.currentY += 25;
-    this.doc.setFont('helvetica', 'normal');
+    this.doc.setFont(this.font, 'normal');
     this.doc.setTextColor(0, 0, 0);
   }
 
-  private addSection(section: PDFSection): void {
-    this.addHeading(section.title, 2);
-
-    if (typeof section.content === 'string') {
-      this.addParagraph(section.content);
-    } else if (Array.isArray(section.content)) {
-      for (const item of section.content) {
-        this.addBulletPoint(item);
-      }
-    }
-
-    if (section.type === 'table' && section.data) {
-      this.addTable(section.data);
-    }
-  }
-
   private addTable(data: TableData): void {
     this.checkPageBreak(40);
 
@@ -469,79 +401,36 @@ export class PDFGenerator {
     this.currentY = (this.doc as any).lastAutoTable.finalY + 10;
   }
 
-  private addBuyerPersona(persona: any): void {
-    this.addHeading(persona.title || persona.role || 'Buyer Persona', 3);
-
-    if (persona.description) {
-      this.addParagraph(persona.description);
-    }
-
-    const personaData: string[][] = [];
-    if (persona.role) personaData.push(['Role', persona.role]);
-    if (persona.goals) personaData.push(['Goals', Array.isArray(persona.goals) ? persona.goals.join(', ') : persona.goals]);
-    if (persona.painPoints) personaData.push(['Pain Points', Array.isArray(persona.painPoints) ? persona.painPoints.join(', ') : persona.painPoints]);
-    if (persona.buyingCriteria) personaData.push(['Buying Criteria', Array.isArray(persona.buyingCriteria) ? persona.buyingCriteria.join(', ') : persona.buyingCriteria]);
-
-    if (personaData.length > 0) {
-      this.addTable({
-        headers: ['Attribute', 'Details'],
-        rows: personaData
-      });
-    }
-  }
-
-  private addCompanyRatingsTable(ratings: any[]): void {
-    const rows = ratings.map(r => [
-      r.companyName || '',
-      r.rating?.toString() || '',
-      r.fitScore || '',
-      r.notes || ''
-    ]);
-
-    this.addTable({
-      headers: ['Company', 'Rating', 'Fit Score', 'Notes'],
-      rows
-    });
-  }
+  /**
+   * Horizontal bar chart drawn with vector shapes
+   */
+  private addBarChart(labels: string[], values: number[], format?: ValueFormat): void {
+    const barHeight = 7;
+    const gap = 3;
+    const labelWidth = 50;
+    const valueWidth = 30;
+    const maxBarWidth = this.pageWidth - 2 * this.margin - labelWidth - valueWidth;
+    const max = Math.max(...values, 0);
 
-  private addScoresTable(scores: any): void {
-    const rows = Object.entries(scores).map(([key, value]) => [
-      key.replace(/([A-Z])/g, ' $1').trim(), // Convert camelCase to Title Case
-      value?.toString() || ''
-    ]);
+    this.checkPageBreak(labels.length * (barHeight + gap) + 10);
+    this.doc.setFontSize(9);
 
-    this.addTable({
-      headers: ['Category', 'Score'],
-      rows
-    });
-  }
+    labels.forEach((label, index) => {
+      const y = this.currentY;
+      const width = max > 0 ? (Math.max(values[index], 0) / max) * maxBarWidth : 0;
 
-  private addFinancialAnalysisTable(analysis: any): void {
-    const rows: string[][] = [];
+      this.doc.setTextColor(60, 60, 60);
+      this.doc.text(this.doc.splitTextToSize(label, labelWidth - 3)[0], this.margin, y + 5);
 
-    if (analysis.investment) rows.push(['Initial Investment', `$${analysis.investment.toLocaleString()}`]);
-    if (analysis.annualCost) rows.push(['Annual Cost', `$${analysis.annualCost.toLocaleString()}`]);
-    if (analysis.expectedReturn) rows.push(['Expected Annual Return', `$${analysis.expectedReturn.toLocaleString()}`]);
-    if (analysis.roi) rows.push(['ROI', `${analysis.roi}%`]);
-    if (analysis.paybackPeriod) rows.push(['Payback Period', `${analysis.paybackPeriod} months`]);
+      this.doc.setFillColor(...(index % 2 === 0 ? this.primaryColor : this.secondaryColor));
+      this.doc.rect(this.margin + labelWidth, y, Math.max(width, 0.5), barHeight, 'F');
 
-    this.addTable({
-      headers: ['Metric', 'Value'],
-      rows
+      this.doc.text(formatValue(values[index], format), this.margin + labelWidth + width + 2, y + 5);
+      this.currentY += barHeight + gap;
     });
-  }
 
-  private addCostBreakdownTable(breakdown: any[]): void {
-    const rows = breakdown.map(item => [
-      item.category || '',
-      item.description || '',
-      `$${item.cost?.toLocaleString() || '0'}`
-    ]);
-
-    this.addTable({
-      headers: ['Category', 'Description', 'Cost'],
-      rows
-    });
+    this.currentY += 6;
+    this.doc.setTextColor(0, 0, 0);
   }
 
   // ==========================================
@@ -0,0 +1,778 @@
+/**
+ * PPTXGenerator.ts
+ *
+ * Professional slide deck generation service using pptxgenjs
+ * Supports multiple export types: ICP analysis, assessments, business cases, cost calculators
+ */
+
+import PptxGenJS from 'pptxgenjs';
+import {
+  BrandProfile,
+  BrandingInput,
+  fitLogo,
+  getWatermarkText,
+  resolveBrandProfile,
+  toBareHex
+} from '../branding';
+
+interface PPTXOptions {
+  title?: string;
+  subtitle?: string;
+  author?: string;
+  subject?: string;
+  company?: string;
+  includeFooter?: boolean;
+  branding?: BrandingInput;
+}
+
+interface PPTXSection {
+  title: string;
+  content: string | string[];
+  type?: 'text' | 'table' | 'chart' | 'list';
+  data?: any;
+}
+
+interface TableData {
+  headers: string[];
+  rows: string[][];
+}
+
+interface ChartData {
+  name?: string;
+  labels: string[];
+  values: number[];
+}
+
+// 16:9 widescreen layout, in inches
+const SLIDE_WIDTH = 13.333;
+const SLIDE_HEIGHT = 7.5;
+const MARGIN = 0.5;
+const CONTENT_WIDTH = SLIDE_WIDTH - 2 * MARGIN;
+const CONTENT_TOP = 1.3;
+const CONTENT_HEIGHT = 5.5;
+
+const MASTER_NAME = 'CONTENT';
+const PERSONAS_PER_SLIDE = 3;
+const PPTX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.presentationml.presentation';
+
+export class PPTXGenerator {
+  private pptx: PptxGenJS;
+  private options: PPTXOptions;
+  private primaryColor: string;
+  private secondaryColor: string;
+  private fontFace: string;
+  private brand: BrandProfile;
+
+  constructor(options: PPTXOptions = {}) {
+    this.options = options;
+    this.pptx = new PptxGenJS();
+    this.pptx.layout = 'LAYOUT_WIDE';
+    this.brand = resolveBrandProfile(options.branding);
+    this.pptx.author = options.author || 'Revenue Intelligence Platform';
+    this.pptx.company = options.company || this.brand.companyName || 'Revenue Intelligence Platform';
+    this.pptx.subject = options.subject || options.subtitle || '';
+    this.pptx.title = options.title || 'Revenue Intelligence Platform';
+
+    // Customer brand profile, defaulting to the platform purple and blue
+    this.primaryColor = toBareHex(this.brand.primaryColor);
+    this.secondaryColor = toBareHex(this.brand.secondaryColor);
+    this.fontFace = this.brand.fontFamily;
+
+    this.defineMaster();
+  }
+
+  /**
+   * Generate PPTX for ICP Analysis
+   */
+  static async generateICPAnalysis(data: any, options: PPTXOptions = {}): Promise<Blob> {
+    const generator = new PPTXGenerator(options);
+
+    generator.addTitleSlide(
+      options.title || 'Ideal Customer Profile Analysis',
+      options.subtitle || 'Revenue Intelligence Platform'
+    );
+
+    generator.addTextSlide(
+      'Executive Summary',
+      data.executiveSummary || 'This deck summarizes your Ideal Customer Profile (ICP), buyer personas and target company ratings.'
+    );
+
+    // One slide per ICP section
+    if (data.sections && Array.isArray(data.sections)) {
+      for (const section of data.sections) {
+        generator.addSection(section);
+      }
+    }
+
+    if (data.buyerPersonas && data.buyerPersonas.length > 0) {
+      generator.addPersonaSlides(data.buyerPersonas);
+    }
+
+    if (data.companyRatings && data.companyRatings.length > 0) {
+      generator.addCompanyRatingsSlide(data.companyRatings);
+    }
+
+    return generator.generate();
+  }
+
+  /**
+   * Generate PPTX for Assessment Results
+   */
+  static async generateAssessment(data: any, options: PPTXOptions = {}): Promise<Blob> {
+    const generator = new PPTXGenerator(options);
+
+    generator.addTitleSlide(
+      options.title || 'Assessment Results',
+      options.subtitle || 'Revenue Intelligence Platform'
+    );
+
+    generator.addTextSlide(
+      'Assessment Overview',
+      data.overview || 'This assessment provides insights into your revenue intelligence capabilities.'
+    );
+
+    if (data.scores) {
+      generator.addScoresSlide(data.scores);
+    }
+
+    if (data.recommendations && data.recommendations.length > 0) {
+      generator.addTextSlide('Recommendations', data.recommendations);
+    }
+
+    if (data.actionItems && data.actionItems.length > 0) {
+      generator.addTextSlide('Action Items', data.actionItems);
+    }
+
+    return generator.generate();
+  }
+
+  /**
+   * Generate PPTX for Business Case (one slide per section)
+   */
+  static async generateBusinessCase(data: any, options: PPTXOptions = {}): Promise<Blob> {
+    const generator = new PPTXGenerator(options);
+
+    generator.addTitleSlide(
+      options.title || 'Business Case',
+      options.subtitle || data.companyName || 'Investment Proposal'
+    );
+
+    generator.addTextSlide(
+      'Executive Summary',
+      data.executiveSummary || 'This business case outlines the value proposition and ROI for your investment.'
+    );
+
+    if (data.problemStatement) {
+      generator.addTextSlide('Problem Statement', data.problemStatement);
+    }
+
+    if (data.solution) {
+      generator.addTextSlide('Proposed Solution', data.solution);
+    }
+
+    if (data.benefits && data.benefits.length > 0) {
+      generator.addTextSlide('Key Benefits', data.benefits);
+    }
+
+    if (data.financialAnalysis) {
+      generator.addFinancialAnalysisSlide(data.financialAnalysis);
+    }
+
+    if (data.roiProjections) {
+      generator.addTextSlide('ROI Projections', data.roiProjections);
+    }
+
+    if (data.implementationPlan) {
+      generator.addTextSlide('Implementation Plan', data.implementationPlan);
+    }
+
+    if (data.risks && data.risks.length > 0) {
+      generator.addTextSlide('Risks and Mitigation', data.risks);
+    }
+
+    return generator.generate();
+  }
+
+  /**
+   * Generate PPTX for Cost Calculator
+   */
+  static async generateCostCalculator(data: any, options: PPTXOptions = {}): Promise<Blob> {
+    const generator = new PPTXGenerator(options);
+
+    generator.addTitleSlide(
+      options.title || 'Cost of Inaction Analysis',
+      options.subtitle || 'Financial Impact Assessment'
+    );
+
+    if (data.totalCost) {
+      generator.addKeyMetricSlide(
+        'Cost Analysis Summary',
+        'Total Cost of Inaction (Annual)',
+        `$${data.totalCost.toLocaleString()}`
+      );
+    }
+
+    if (data.breakdown && data.breakdown.length > 0) {
+      generator.addCostBreakdownSlide(data.breakdown);
+    }
+
+    if (data.recommendations) {
+      generator.addTextSlide('Recommendations', data.recommendations);
+    }
+
+    return generator.generate();
+  }
+
+  /**
+   * Generate generic PPTX from sections
+   */
+  static async generateFromSections(sections: PPTXSection[], options: PPTXOptions = {}): Promise<Blob> {
+    const generator = new PPTXGenerator(options);
+
+    if (options.title) {
+      generator.addTitleSlide(options.title, options.subtitle);
+    }
+
+    for (const section of sections) {
+      generator.addSection(section);
+    }
+
+    return generator.generate();
+  }
+
+  // ==========================================
+  // PRIVATE METHODS - Slide Layout
+  // ==========================================
+
+  private defineMaster(): void {
+    const objects: NonNullable<PptxGenJS.SlideMasterProps['objects']> = [
+      { rect: { x: 0, y: 0, w: SLIDE_WIDTH, h: 0.12, fill: { color: this.primaryColor } } }
+    ];
+    const watermark = getWatermarkText(this.brand);
+
+    if (watermark) {
+      objects.push({
+        text: {
+          text: watermark,
+          options: {
+            x: 1.5, y: 2.5, w: SLIDE_WIDTH - 3, h: 2.5,
+            fontFace: this.fontFace, fontSize: 72, bold: true, color: this.primaryColor,
+            transparency: 85, rotate: -30, align: 'center', valign: 'middle'
+          }
+        }
+      });
+    }
+
+    if (this.options.includeFooter !== false) {
+      objects.push(
+        { line: { x: MARGIN, y: 6.95, w: CONTENT_WIDTH, h: 0, line: { color: this.primaryColor, width: 0.75 } } },
+        {
+          text: {
+            text: this.brand.footerText,
+            options: { x: MARGIN, y: 7.0, w: 8, h: 0.3, fontFace: this.fontFace, fontSize: 10, color: '808080' }
+          }
+        }
+      );
+    }
+
+    this.pptx.defineSlideMaster({
+      title: MASTER_NAME,
+      background: { color: 'FFFFFF' },
+      objects,
+      slideNumber: this.options.includeFooter !== false
+        ? { x: SLIDE_WIDTH - MARGIN - 0.6, y: 7.0, w: 0.6, h: 0.3, fontFace: this.fontFace, fontSize: 10, color: '808080', align: 'right' }
+        : undefined
+    });
+  }
+
+  private addTitleSlide(title: string, subtitle?: string): void {
+    const slide = this.pptx.addSlide();
+
+    // Two-tone brand background
+    slide.background = { color: this.primaryColor };
+    slide.addShape(this.pptx.ShapeType.rect, {
+      x: 0,
+      y: SLIDE_HEIGHT * 0.62,
+      w: SLIDE_WIDTH,
+      h: SLIDE_HEIGHT * 0.38,
+      fill: { color: this.secondaryColor },
+      line: { color: this.secondaryColor }
+    });
+
+    if (this.brand.companyLogo) {
+      const { width, height } = fitLogo(this.brand.companyLogo, 2.5, 1);
+      slide.addImage({
+        data: this.brand.companyLogo.replace(/^data:/, ''),
+        x: MARGIN,
+        y: MARGIN,
+        w: width,
+        h: height
+      });
+    }
+
+    slide.addText(title, {
+      x: MARGIN,
+      y: 1.8,
+      w: CONTENT_WIDTH,
+      h: 1.6,
+      fontFace: this.fontFace,
+      fontSize: 40,
+      bold: true,
+      color: 'FFFFFF',
+      align: 'center',
+      valign: 'middle',
+      fit: 'shrink'
+    });
+
+    if (subtitle) {
+      slide.addText(subtitle, {
+        x: MARGIN,
+        y: 3.4,
+        w: CONTENT_WIDTH,
+        h: 0.7,
+        fontFace: this.fontFace,
+        fontSize: 20,
+        color: 'FFFFFF',
+        align: 'center'
+      });
+    }
+
+    const dateStr = new Date().toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'long',
+      day: 'numeric'
+    });
+    slide.addText(this.brand.companyName ? `${this.brand.companyName}  |  ${dateStr}` : dateStr, {
+      x: MARGIN,
+      y: SLIDE_HEIGHT - 1.2,
+      w: CONTENT_WIDTH,
+      h: 0.5,
+      fontFace: this.fontFace,
+      fontSize: 14,
+      color: 'FFFFFF',
+      align: 'center'
+    });
+  }
+
+  private addContentSlide(title: string): PptxGenJS.Slide {
+    const slide = this.pptx.addSlide({ masterName: MASTER_NAME });
+
+    slide.addText(title, {
+      x: MARGIN,
+      y: 0.35,
+      w: CONTENT_WIDTH,
+      h: 0.8,
+      fontFace: this.fontFace,
+      fontSize: 28,
+      bold: true,
+      color: this.primaryColor,
+      fit: 'shrink'
+    });
+
+    return slide;
+  }
+
+  // ==========================================
+  // PRIVATE METHODS - Content
+  // ==========================================
+
+  private addTextSlide(title: string, content: string | string[]): PptxGenJS.Slide {
+    const slide = this.addContentSlide(title);
+    this.addBody(slide, content, CONTENT_TOP, CONTENT_HEIGHT);
+    return slide;
+  }
+
+  /**
+   * Paragraph or bullet list in a shrink-to-fit text box
+   */
+  private addBody(slide: PptxGenJS.Slide, content: string | string[], y: number, h: number): void {
+    const position = { x: MARGIN, y, w: CONTENT_WIDTH, h, fontFace: this.fontFace, color: '1F2937', valign: 'top' as const, fit: 'shrink' as const };
+
+    if (Array.isArray(content)) {
+      slide.addText(
+        content.map(item => ({ text: item, options: { bullet: true, breakLine: true } })),
+        { ...position, fontSize: 18, paraSpaceAfter: 8 }
+      );
+    } else {
+      slide.addText(content, { ...position, fontSize: 18, paraSpaceAfter: 6 });
+    }
+  }
+
+  private addSection(section: PPTXSection): void {
+    const hasContent = Array.isArray(section.content) ? section.content.length > 0 : !!section.content;
+
+    if (section.type === 'table' && section.data) {
+      const slide = this.addContentSlide(section.title);
+      const tableTop = hasContent ? CONTENT_TOP + 1.3 : CONTENT_TOP;
+      if (hasContent) this.addBody(slide, section.content, CONTENT_TOP, 1.2);
+      this.addTable(slide, section.data, tableTop);
+      return;
+    }
+
+    if (section.type === 'chart' && section.data) {
+      const slide = this.addContentSlide(section.title);
+      const chartTop = hasContent ? CONTENT_TOP + 1.3 : CONTENT_TOP;
+      if (hasContent) this.addBody(slide, section.content, CONTENT_TOP, 1.2);
+      this.addBarChart(slide, section.data, { x: MARGIN, y: chartTop, w: CONTENT_WIDTH, h: CONTENT_TOP + CONTENT_HEIGHT - chartTop });
+      return;
+    }
+
+    this.addTextSlide(section.title, section.content);
+  }
+
+  /**
+   * Branded table; long tables continue on extra slides with the header repeated
+   */
+  private addTable(slide: PptxGenJS.Slide, data: TableData, y: number = CONTENT_TOP): void {
+    const header: PptxGenJS.TableRow = data.headers.map(text => ({
+      text,
+      options: { bold: true, color: 'FFFFFF', fill: { color: this.primaryColor } }
+    }));
+
+    const rows: PptxGenJS.TableRow[] = data.rows.map((row, index) =>
+      row.map(text => ({
+        text,
+        options: index % 2 === 1 ? { fill: { color: 'F5F7FA' } } : {}
+      }))
+    );
+
+    slide.addTable([header, ...rows], {
+      x: MARGIN,
+      y,
+      w: CONTENT_WIDTH,
+      fontFace: this.fontFace,
+      fontSize: 12,
+      color: '1F2937',
+      border: { type: 'solid', pt: 0.5, color: 'E5E7EB' },
+      margin: 0.08,
+      autoPage: true,
+      autoPageRepeatHeader: true,
+      autoPageSlideStartY: CONTENT_TOP,
+      newSlideStartY: CONTENT_TOP
+    } as PptxGenJS.TableProps);
+  }
+
+  private addKeyMetricSlide(title: string, label: string, value: string): void {
+    const slide = this.addContentSlide(title);
+    this.addKeyMetric(slide, label, value, { x: MARGIN, y: CONTENT_TOP + 1.2, w: CONTENT_WIDTH, h: 2.2 });
+  }
+
+  private addKeyMetric(
+    slide: PptxGenJS.Slide,
+    label: string,
+    value: string,
+    box: { x: number; y: number; w: number; h: number }
+  ): void {
+    slide.addShape(this.pptx.ShapeType.roundRect, {
+      ...box,
+      fill: { color: 'F5F7FA' },
+      line: { color: 'E5E7EB' },
+      rectRadius: 0.1
+    });
+
+    slide.addText(label, {
+      x: box.x + 0.2,
+      y: box.y + 0.1,
+      w: box.w - 0.4,
+      h: box.h * 0.35,
+      fontFace: this.fontFace,
+      fontSize: 14,
+      color: '646464',
+      valign: 'bottom'
+    });
+
+    slide.addText(value, {
+      x: box.x + 0.2,
+      y: box.y + box.h * 0.4,
+      w: box.w - 0.4,
+      h: box.h * 0.5,
+      fontFace: this.fontFace,
+      fontSize: box.h > 1.5 ? 44 : 24,
+      bold: true,
+      color: this.primaryColor,
+      valign: 'top',
+      fit: 'shrink'
+    });
+  }
+
+  /**
+   * Persona cards, up to three per slide
+   */
+  private addPersonaSlides(personas: any[]): void {
+    for (let start = 0; start < personas.length; start += PERSONAS_PER_SLIDE) {
+      const title = start === 0 ? 'Buyer Personas' : 'Buyer Personas (continued)';
+      const slide = this.addContentSlide(title);
+      const batch = personas.slice(start, start + PERSONAS_PER_SLIDE);
+      const gap = 0.3;
+      const cardWidth = (CONTENT_WIDTH - gap * (PERSONAS_PER_SLIDE - 1)) / PERSONAS_PER_SLIDE;
+
+      batch.forEach((persona, index) => {
+        this.addPersonaCard(slide, persona, MARGIN + index * (cardWidth + gap), cardWidth);
+      });
+    }
+  }
+
+  private addPersonaCard(slide: PptxGenJS.Slide, persona: any, x: number, w: number): void {
+    const y = CONTENT_TOP;
+    const h = CONTENT_HEIGHT;
+
+    slide.addShape(this.pptx.ShapeType.roundRect, {
+      x,
+      y,
+      w,
+      h,
+      fill: { color: 'FFFFFF' },
+      line: { color: this.primaryColor, width: 1.5 },
+      rectRadius: 0.12
+    });
+
+    // Card header band
+    slide.addText(persona.title || persona.role || 'Buyer Persona', {
+      x,
+      y,
+      w,
+      h: 0.8,
+      fontFace: this.fontFace,
+      fontSize: 18,
+      bold: true,
+      color: 'FFFFFF',
+      fill: { color: this.primaryColor },
+      align: 'center',
+      valign: 'middle',
+      fit: 'shrink'
+    });
+
+    const list = (value: any): string => (Array.isArray(value) ? value.join(', ') : value);
+    const body: PptxGenJS.TextProps[] = [];
+    const addField = (label: string, value: any) => {
+      if (!value || (Array.isArray(value) && value.length === 0)) return;
+      body.push({ text: `${label}: `, options: { bold: true, color: this.secondaryColor } });
+      body.push({ text: list(value), options: { breakLine: true } });
+    };
+
+    if (persona.role && persona.role !== persona.title) addField('Role', persona.role);
+    if (persona.description) body.push({ text: persona.description, options: { italic: true, breakLine: true } });
+    addField('Goals', persona.goals);
+    addField('Pain Points', persona.painPoints);
+    addField('Buying Criteria', persona.buyingCriteria);
+
+    if (body.length > 0) {
+      slide.addText(body, {
+        x: x + 0.15,
+        y: y + 0.95,
+        w: w - 0.3,
+        h: h - 1.1,
+        fontFace: this.fontFace,
+        fontSize: 13,
+        color: '1F2937',
+        valign: 'top',
+        paraSpaceAfter: 6,
+        fit: 'shrink'
+      });
+    }
+  }
+
+  private addCompanyRatingsSlide(ratings: any[]): void {
+    const slide = this.addContentSlide('Company Ratings');
+    const rows = ratings.map(r => [
+      r.companyName || '',
+      r.rating?.toString() || '',
+      r.fitScore?.toString() || '',
+      r.notes || ''
+    ]);
+
+    this.addTable(slide, {
+      headers: ['Company', 'Rating', 'Fit Score', 'Notes'],
+      rows
+    });
+  }
+
+  private addScoresSlide(scores: any): void {
+    const slide = this.addContentSlide('Competency Scores');
+    const entries = Object.entries(scores).filter(([, value]) => typeof value === 'number') as [string, number][];
+
+    this.addBarChart(
+      slide,
+      {
+        name: 'Score',
+        labels: entries.map(([key]) => key.replace(/([A-Z])/g, ' $1').trim()), // Convert camelCase to Title Case
+        values: entries.map(([, value]) => value)
+      },
+      { x: MARGIN, y: CONTENT_TOP, w: CONTENT_WIDTH, h: CONTENT_HEIGHT }
+    );
+  }
+
+  private addFinancialAnalysisSlide(analysis: any): void {
+    const slide = this.addContentSlide('Financial Analysis');
+
+    const metrics: [string, string][] = [];
+    if (analysis.roi) metrics.push(['ROI', `${analysis.roi}%`]);
+    if (analysis.paybackPeriod) metrics.push(['Payback Period', `${analysis.paybackPeriod} months`]);
+    if (analysis.investment) metrics.push(['Initial Investment', `$${analysis.investment.toLocaleString()}`]);
+    if (analysis.expectedReturn) metrics.push(['Expected Annual Return', `$${analysis.expectedReturn.toLocaleString()}`]);
+
+    const amounts: [string, number][] = [];
+    if (analysis.investment) amounts.push(['Initial Investment', analysis.investment]);
+    if (analysis.annualCost) amounts.push(['Annual Cost', analysis.annualCost]);
+    if (analysis.expectedReturn) amounts.push(['Expected Annual Return', analysis.expectedReturn]);
+    const chart: ChartData = {
+      name: 'Amount',
+      labels: amounts.map(([label]) => label),
+      values: amounts.map(([, value]) => value)
+    };
+
+    const metricsWidth = chart.values.length > 0 ? 4 : CONTENT_WIDTH;
+    const metricHeight = 1.2;
+    metrics.forEach(([label, value], index) => {
+      this.addKeyMetric(slide, label, value, {
+        x: MARGIN,
+        y: CONTENT_TOP + index * (metricHeight + 0.2),
+        w: metricsWidth,
+        h: metricHeight
+      });
+    });
+
+    if (chart.values.length > 0) {
+      const x = MARGIN + metricsWidth + 0.4;
+      this.addBarChart(slide, chart, { x, y: CONTENT_TOP, w: SLIDE_WIDTH - MARGIN - x, h: CONTENT_HEIGHT }, true);
+    }
+  }
+
+  /**
+   * Native doughnut chart of the breakdown next to the itemized costs
+   */
+  private addCostBreakdownSlide(breakdown: any[]): void {
+    const slide = this.addContentSlide('Cost Breakdown');
+
+    const labels = breakdown.map(item => item.category || item.description || 'Other');
+    const values = breakdown.map(item => Number(item.cost) || 0);
+
+    slide.addChart(
+      this.pptx.ChartType.doughnut,
+      [{ name: 'Cost', labels, values }],
+      {
+        x: MARGIN,
+        y: CONTENT_TOP,
+        w: 6,
+        h: CONTENT_HEIGHT,
+        holeSize: 55,
+        chartColors: this.getChartColors(labels.length),
+        showLegend: true,
+        legendPos: 'b',
+        legendFontFace: this.fontFace,
+        legendFontSize: 11,
+        showPercent: true,
+        showValue: false,
+        dataLabelColor: 'FFFFFF',
+        dataLabelFontSize: 11
+      }
+    );
+
+    const x = MARGIN + 6.4;
+    slide.addTable(
+      [
+        ['Category', 'Description', 'Cost'].map(text => ({
+          text,
+          options: { bold: true, color: 'FFFFFF', fill: { color: this.primaryColor } }
+        })),
+        ...breakdown.map(item => [
+          { text: item.category || '' },
+          { text: item.description || '' },
+          { text: `$${item.cost?.toLocaleString() || '0'}`, options: { align: 'right' as const } }
+        ])
+      ],
+      {
+        x,
+        y: CONTENT_TOP,
+        w: SLIDE_WIDTH - MARGIN - x,
+        colW: [1.7, 2.7, 1.43],
+        fontFace: this.fontFace,
+        fontSize: 11,
+        color: '1F2937',
+        border: { type: 'solid', pt: 0.5, color: 'E5E7EB' },
+        margin: 0.06
+      }
+    );
+  }
+
+  /**
+   * Native bar chart (currency axis when `currency` is set)
+   */
+  private addBarChart(
+    slide: PptxGenJS.Slide,
+    data: ChartData,
+    box: { x: number; y: number; w: number; h: number },
+    currency: boolean = false
+  ): void {
+    const format = currency ? '$#,##0' : '#,##0';
+
+    slide.addChart(
+      this.pptx.ChartType.bar,
+      [{ name: data.name || 'Value', labels: data.labels, values: data.values }],
+      {
+        ...box,
+        barDir: 'bar',
+        chartColors: [this.primaryColor],
+        catAxisLabelFontFace: this.fontFace,
+        catAxisLabelFontSize: 12,
+        valAxisLabelFontSize: 10,
+        valAxisLabelFormatCode: format,
+        showValue: true,
+        dataLabelFormatCode: format,
+        dataLabelFontSize: 11,
+        valGridLine: { color: 'E5E7EB', size: 0.5 }
+      }
+    );
+  }
+
+  // ==========================================
+  // UTILITY METHODS
+  // ==========================================
+
+  /**
+   * Brand colors first, then a neutral palette for the remaining series
+   */
+  private getChartColors(count: number): string[] {
+    const palette = [this.primaryColor, this.secondaryColor, '10B981', 'F59E0B', 'EF4444', '6366F1', '14B8A6', 'EC4899'];
+    return Array.from({ length: Math.max(count, 1) }, (_, index) => palette[index % palette.length]);
+  }
+
+  private async generate(): Promise<Blob> {
+    // pptxgenjs labels its blob application/zip
+    const buffer = (await this.pptx.write({ outputType: 'arraybuffer' })) as ArrayBuffer;
+    return new Blob([buffer], { type: PPTX_MIME_TYPE });
+  }
+
+  /**
+   * Generate and download PPTX file (client-side)
+   */
+  static async saveToFile(data: any, filename: string, type: 'icp' | 'assessment' | 'businessCase' | 'cost' = 'icp'): Promise<void> {
+    let blob: Blob;
+
+    switch (type) {
+      case 'icp':
+        blob = await PPTXGenerator.generateICPAnalysis(data);
+        break;
+      case 'assessment':
+        blob = await PPTXGenerator.generateAssessment(data);
+        break;
+      case 'businessCase':
+        blob = await PPTXGenerator.generateBusinessCase(data);
+        break;
+      case 'cost':
+        blob = await PPTXGenerator.generateCostCalculator(data);
+        break;
+    }
+
+    const url = window.URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename.endsWith('.pptx') ? filename : `${filename}.pptx`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    window.URL.revokeObjectURL(url);
+  }
+}
+
+export default PPTXGenerator;
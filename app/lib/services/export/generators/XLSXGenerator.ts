@@ -0,0 +1,495 @@
+/**
+ * XLSXGenerator.ts
+ *
+ * Financial model generation service using exceljs
+ * Turns cost calculator results and business impact data into a workbook with
+ * editable assumption cells and live formulas, so the model recomputes in Excel
+ */
+
+import ExcelJS from 'exceljs';
+import {
+  BrandProfile,
+  BrandingInput,
+  fitLogo,
+  getLogoImageType,
+  getWatermarkText,
+  resolveBrandProfile,
+  toBareHex
+} from '../branding';
+
+interface XLSXOptions {
+  title?: string;
+  subtitle?: string;
+  author?: string;
+  company?: string;
+  branding?: BrandingInput;
+}
+
+/**
+ * Monthly cost drivers (same shape as the cost calculator's CostData)
+ */
+interface CostDrivers {
+  delayedRevenue: number;
+  competitorAdvantage: number;
+  teamEfficiency: number;
+  marketOpportunity: number;
+}
+
+/**
+ * Cost calculator results (structurally compatible with CostCalculatorResults)
+ */
+interface CostModelData {
+  costData: CostDrivers;
+  timeframe: number;
+  totalCost?: number;
+  savingsOpportunity?: number;
+  customerData?: {
+    currentARR?: string;
+    targetARR?: string;
+    growthStage?: string;
+  };
+}
+
+interface ImpactRow {
+  impactArea: string;
+  currentState: string;
+  targetByDate: string;
+  strategicValue: string;
+}
+
+/**
+ * Business impact section (structurally compatible with BusinessImpactROI)
+ */
+interface BusinessImpactData {
+  visionFrom?: string;
+  visionTo?: string;
+  executiveKPI?: ImpactRow;
+  championMetric?: ImpactRow;
+  committeeConcern?: ImpactRow;
+  financialROI?: string;
+  operationalExcellence?: string;
+  competitiveAdvantage?: string;
+  riskReduction?: string;
+}
+
+interface FinancialModelData {
+  costCalculator: CostModelData;
+  businessImpactROI?: BusinessImpactData;
+  investment?: number;              // Solution investment (InvestmentImplementation.totalInvestment)
+}
+
+type Cell = ExcelJS.Cell;
+
+const XLSX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+// Default savings rate used by the cost calculator (75% of total cost)
+const DEFAULT_SAVINGS_RATE = 0.75;
+const MAX_TIMEFRAME = 36;
+
+const CURRENCY_FORMAT = '"$"#,##0';
+const PERCENT_FORMAT = '0.0%';
+const INPUT_FILL = 'FFFFF7D6';
+const INPUT_FONT = 'FF1D4ED8';
+
+const COST_DRIVERS: Array<{ key: keyof CostDrivers; name: string; label: string; description: string }> = [
+  { key: 'delayedRevenue', name: 'DelayedRevenue', label: 'Delayed Revenue', description: 'Revenue lost due to slow decision making' },
+  { key: 'competitorAdvantage', name: 'CompetitorAdvantage', label: 'Competitive Disadvantage', description: 'Market share lost to competitors' },
+  { key: 'teamEfficiency', name: 'TeamEfficiency', label: 'Team Inefficiency', description: 'Productivity costs of manual processes' },
+  { key: 'marketOpportunity', name: 'MarketOpportunity', label: 'Missed Opportunities', description: 'Potential deals not pursued' }
+];
+
+export class XLSXGenerator {
+  private workbook: ExcelJS.Workbook;
+  private options: XLSXOptions;
+  private primaryColor: string;
+  private secondaryColor: string;
+  private brand: BrandProfile;
+
+  constructor(options: XLSXOptions = {}) {
+    this.options = options;
+    this.workbook = new ExcelJS.Workbook();
+    this.workbook.creator = options.author || 'Revenue Intelligence Platform';
+    this.brand = resolveBrandProfile(options.branding);
+    this.workbook.company = options.company || this.brand.companyName || 'Revenue Intelligence Platform';
+    this.workbook.title = options.title || 'Financial Model';
+    this.workbook.created = new Date();
+
+    // Excel recalculates every formula when the file is opened
+    this.workbook.calcProperties.fullCalcOnLoad = true;
+
+    // Customer brand profile, defaulting to the platform purple and blue
+    this.primaryColor = `FF${toBareHex(this.brand.primaryColor)}`;
+    this.secondaryColor = `FF${toBareHex(this.brand.secondaryColor)}`;
+  }
+
+  /**
+   * Generate XLSX financial model for Cost Calculator results
+   */
+  static async generateCostCalculator(data: CostModelData, options: XLSXOptions = {}): Promise<Blob> {
+    return XLSXGenerator.generateFinancialModel({ costCalculator: data }, options);
+  }
+
+  /**
+   * Generate XLSX financial model for a Business Case (cost model plus business impact)
+   */
+  static async generateBusinessCase(data: FinancialModelData, options: XLSXOptions = {}): Promise<Blob> {
+    return XLSXGenerator.generateFinancialModel(data, {
+      title: options.title || 'Business Case Financial Model',
+      ...options
+    });
+  }
+
+  /**
+   * Generate the full workbook: Assumptions → Cost Model → Monthly Projection → Business Impact
+   */
+  static async generateFinancialModel(data: FinancialModelData, options: XLSXOptions = {}): Promise<Blob> {
+    if (!data.costCalculator?.costData) {
+      throw new Error('Cost calculator results are required for the financial model');
+    }
+
+    const generator = new XLSXGenerator(options);
+    const model = XLSXGenerator.calculate(data);
+
+    generator.addAssumptionsSheet(data, model);
+    generator.addCostModelSheet(model);
+    generator.addProjectionSheet(model);
+
+    if (data.businessImpactROI) {
+      generator.addBusinessImpactSheet(data.businessImpactROI, model);
+    }
+
+    return generator.generate();
+  }
+
+  /**
+   * Values the formulas evaluate to for the given inputs; written as cached
+   * results so previews and non-recalculating readers show real numbers
+   */
+  private static calculate(data: FinancialModelData) {
+    const { costData, timeframe, totalCost, savingsOpportunity } = data.costCalculator;
+    const monthlyCost = COST_DRIVERS.reduce((sum, driver) => sum + (Number(costData[driver.key]) || 0), 0);
+    const months = Math.min(Math.max(Math.round(timeframe) || 1, 1), MAX_TIMEFRAME);
+
+    // Keep the rate the calculation was made with, when it differs from the default
+    const savingsRate = totalCost && savingsOpportunity
+      ? Math.round((savingsOpportunity / totalCost) * 10000) / 10000
+      : DEFAULT_SAVINGS_RATE;
+    const investment = data.investment && data.investment > 0 ? data.investment : 0;
+
+    const total = monthlyCost * months;
+    const savings = total * savingsRate;
+
+    return {
+      costData,
+      timeframe: months,
+      savingsRate,
+      investment,
+      monthlyCost,
+      totalCost: total,
+      savingsOpportunity: savings,
+      netBenefit: savings - investment,
+      roi: investment > 0 ? (savings - investment) / investment : null,
+      roiRatio: investment > 0 ? savings / investment : null,
+      paybackMonths: investment > 0 && monthlyCost * savingsRate > 0 ? investment / (monthlyCost * savingsRate) : null
+    };
+  }
+
+  // ==========================================
+  // PRIVATE METHODS - Sheets
+  // ==========================================
+
+  private addAssumptionsSheet(data: FinancialModelData, model: ReturnType<typeof XLSXGenerator.calculate>): void {
+    const sheet = this.workbook.addWorksheet('Assumptions', { properties: { tabColor: { argb: this.primaryColor } } });
+    sheet.columns = [{ width: 34 }, { width: 18 }, { width: 56 }];
+
+    this.addTitle(sheet, this.options.title || 'Cost of Inaction Financial Model', this.options.subtitle);
+    sheet.getCell('A3').value = 'Edit the highlighted cells; every other sheet recalculates from them.';
+    sheet.getCell('A3').font = { italic: true, color: { argb: 'FF646464' } };
+
+    this.addHeaderRow(sheet, 5, ['Assumption', 'Value', 'Notes']);
+
+    COST_DRIVERS.forEach((driver, index) => {
+      const row = sheet.getRow(6 + index);
+      row.getCell(1).value = `${driver.label} (monthly)`;
+      row.getCell(3).value = driver.description;
+      this.addInputCell(row.getCell(2), Number(model.costData[driver.key]) || 0, driver.name, CURRENCY_FORMAT);
+      row.getCell(2).dataValidation = {
+        type: 'decimal',
+        operator: 'greaterThanOrEqual',
+        formulae: [0],
+        showErrorMessage: true,
+        errorTitle: 'Invalid cost',
+        error: 'Monthly costs must be zero or more'
+      };
+    });
+
+    const timeframeRow = sheet.getRow(10);
+    timeframeRow.getCell(1).value = 'Timeframe (months)';
+    timeframeRow.getCell(3).value = `Months of inaction modeled (1-${MAX_TIMEFRAME})`;
+    this.addInputCell(timeframeRow.getCell(2), model.timeframe, 'Timeframe', '0');
+    timeframeRow.getCell(2).dataValidation = {
+      type: 'whole',
+      operator: 'between',
+      formulae: [1, MAX_TIMEFRAME],
+      showErrorMessage: true,
+      errorTitle: 'Invalid timeframe',
+      error: `Timeframe must be a whole number of months between 1 and ${MAX_TIMEFRAME}`
+    };
+
+    const rateRow = sheet.getRow(11);
+    rateRow.getCell(1).value = 'Savings Rate';
+    rateRow.getCell(3).value = 'Share of the cost of inaction recovered by acting';
+    this.addInputCell(rateRow.getCell(2), model.savingsRate, 'SavingsRate', PERCENT_FORMAT);
+    rateRow.getCell(2).dataValidation = {
+      type: 'decimal',
+      operator: 'between',
+      formulae: [0, 1],
+      showErrorMessage: true,
+      errorTitle: 'Invalid rate',
+      error: 'Savings rate must be between 0% and 100%'
+    };
+
+    const investmentRow = sheet.getRow(12);
+    investmentRow.getCell(1).value = 'Solution Investment';
+    investmentRow.getCell(3).value = 'Total investment; leave at 0 to skip ROI';
+    this.addInputCell(investmentRow.getCell(2), model.investment, 'Investment', CURRENCY_FORMAT);
+
+    const customer = data.costCalculator.customerData;
+    if (customer) {
+      this.addHeaderRow(sheet, 14, ['Customer Context', '', '']);
+      const context: Array<[string, string | undefined]> = [
+        ['Current ARR', customer.currentARR],
+        ['Target ARR', customer.targetARR],
+        ['Growth Stage', customer.growthStage?.replace(/_/g, ' ')]
+      ];
+      context.filter(([, value]) => value).forEach(([label, value], index) => {
+        sheet.getRow(15 + index).values = [label, value];
+      });
+    }
+  }
+
+  private addCostModelSheet(model: ReturnType<typeof XLSXGenerator.calculate>): void {
+    const sheet = this.workbook.addWorksheet('Cost Model', { properties: { tabColor: { argb: this.secondaryColor } } });
+    sheet.columns = [{ width: 34 }, { width: 18 }, { width: 22 }, { width: 24 }];
+
+    this.addTitle(sheet, 'Cost Model');
+    this.addHeaderRow(sheet, 4, ['Cost Driver', 'Monthly Cost', 'Share of Monthly Cost', 'Cost over Timeframe']);
+
+    COST_DRIVERS.forEach((driver, index) => {
+      const rowNumber = 5 + index;
+      const value = Number(model.costData[driver.key]) || 0;
+      const row = sheet.getRow(rowNumber);
+
+      row.getCell(1).value = driver.label;
+      this.setFormula(row.getCell(2), driver.name, value, CURRENCY_FORMAT);
+      this.setFormula(row.getCell(3), `IF(MonthlyCost=0,0,B${rowNumber}/MonthlyCost)`, model.monthlyCost ? value / model.monthlyCost : 0, PERCENT_FORMAT);
+      this.setFormula(row.getCell(4), `B${rowNumber}*Timeframe`, value * model.timeframe, CURRENCY_FORMAT);
+    });
+
+    const totals = sheet.getRow(9);
+    totals.getCell(1).value = 'Total';
+    this.setFormula(totals.getCell(2), 'SUM(B5:B8)', model.monthlyCost, CURRENCY_FORMAT);
+    this.setFormula(totals.getCell(3), 'SUM(C5:C8)', model.monthlyCost ? 1 : 0, PERCENT_FORMAT);
+    this.setFormula(totals.getCell(4), 'SUM(D5:D8)', model.totalCost, CURRENCY_FORMAT);
+    totals.font = { bold: true };
+    totals.eachCell(cell => {
+      cell.border = { top: { style: 'thin' }, bottom: { style: 'double' } };
+    });
+
+    this.addHeaderRow(sheet, 11, ['Summary', 'Value', '', '']);
+
+    const summary: Array<{ label: string; name: string; formula: string; result: number | string; format: string }> = [
+      { label: 'Monthly Cost of Inaction', name: 'MonthlyCost', formula: 'B9', result: model.monthlyCost, format: CURRENCY_FORMAT },
+      { label: 'Total Cost of Inaction', name: 'TotalCost', formula: 'MonthlyCost*Timeframe', result: model.totalCost, format: CURRENCY_FORMAT },
+      { label: 'Savings Opportunity', name: 'SavingsOpportunity', formula: 'TotalCost*SavingsRate', result: model.savingsOpportunity, format: CURRENCY_FORMAT },
+      { label: 'Net Benefit', name: 'NetBenefit', formula: 'SavingsOpportunity-Investment', result: model.netBenefit, format: CURRENCY_FORMAT },
+      { label: 'ROI', name: 'ReturnOnInvestment', formula: 'IF(Investment>0,(SavingsOpportunity-Investment)/Investment,"")', result: model.roi ?? '', format: PERCENT_FORMAT },
+      { label: 'ROI Ratio', name: 'ROIRatio', formula: 'IF(Investment>0,SavingsOpportunity/Investment,"")', result: model.roiRatio ?? '', format: '0.0":1"' },
+      { label: 'Payback Period (months)', name: 'PaybackMonths', formula: 'IF(AND(Investment>0,MonthlyCost*SavingsRate>0),Investment/(MonthlyCost*SavingsRate),"")', result: model.paybackMonths ?? '', format: '0.0' }
+    ];
+
+    summary.forEach((item, index) => {
+      const row = sheet.getRow(12 + index);
+      row.getCell(1).value = item.label;
+      this.setFormula(row.getCell(2), item.formula, item.result, item.format);
+      row.getCell(2).name = item.name;
+      row.getCell(2).font = { bold: true, color: { argb: this.primaryColor } };
+    });
+
+    sheet.views = [{ state: 'frozen', ySplit: 4 }];
+  }
+
+  /**
+   * Cumulative month-by-month view; rows past the timeframe stay blank
+   */
+  private addProjectionSheet(model: ReturnType<typeof XLSXGenerator.calculate>): void {
+    const sheet = this.workbook.addWorksheet('Monthly Projection');
+    sheet.columns = [{ width: 10 }, { width: 26 }, { width: 26 }, { width: 26 }];
+
+    this.addTitle(sheet, 'Monthly Projection');
+    this.addHeaderRow(sheet, 4, ['Month', 'Cumulative Cost of Inaction', 'Cumulative Savings', 'Net Position']);
+
+    for (let month = 1; month <= MAX_TIMEFRAME; month++) {
+      const rowNumber = 4 + month;
+      const row = sheet.getRow(rowNumber);
+      const active = month <= model.timeframe;
+      const savings = model.monthlyCost * model.savingsRate * month;
+
+      row.getCell(1).value = month;
+      this.setFormula(row.getCell(2), `IF(A${rowNumber}<=Timeframe,MonthlyCost*A${rowNumber},"")`, active ? model.monthlyCost * month : '', CURRENCY_FORMAT);
+      this.setFormula(row.getCell(3), `IF(A${rowNumber}<=Timeframe,MonthlyCost*SavingsRate*A${rowNumber},"")`, active ? savings : '', CURRENCY_FORMAT);
+      this.setFormula(row.getCell(4), `IF(A${rowNumber}<=Timeframe,C${rowNumber}-Investment,"")`, active ? savings - model.investment : '', CURRENCY_FORMAT);
+    }
+
+    sheet.views = [{ state: 'frozen', ySplit: 4 }];
+  }
+
+  private addBusinessImpactSheet(impact: BusinessImpactData, model: ReturnType<typeof XLSXGenerator.calculate>): void {
+    const sheet = this.workbook.addWorksheet('Business Impact');
+    sheet.columns = [{ width: 28 }, { width: 32 }, { width: 32 }, { width: 40 }];
+
+    this.addTitle(sheet, 'Business Impact & ROI');
+
+    let rowNumber = 4;
+    if (impact.visionFrom || impact.visionTo) {
+      sheet.getRow(rowNumber++).values = ['From', impact.visionFrom || ''];
+      sheet.getRow(rowNumber++).values = ['To', impact.visionTo || ''];
+      rowNumber++;
+    }
+
+    const rows: Array<[string, ImpactRow | undefined]> = [
+      ['Executive KPI', impact.executiveKPI],
+      ['Champion Metric', impact.championMetric],
+      ['Committee Concern', impact.committeeConcern]
+    ];
+
+    this.addHeaderRow(sheet, rowNumber++, ['Impact Area', 'Current State', 'Target by Date', 'Strategic Value']);
+    for (const [fallback, row] of rows) {
+      if (!row) continue;
+      sheet.getRow(rowNumber++).values = [row.impactArea || fallback, row.currentState, row.targetByDate, row.strategicValue];
+    }
+
+    rowNumber++;
+    this.addHeaderRow(sheet, rowNumber++, ['Organizational Benefit', 'Details', '', '']);
+
+    // Live version of the auto-populated "X:1 ROI within N months" statement
+    const financialRow = sheet.getRow(rowNumber++);
+    financialRow.getCell(1).value = 'Financial ROI';
+    this.setFormula(
+      financialRow.getCell(2),
+      'IF(Investment>0,TEXT(SavingsOpportunity/Investment,"0.0")&":1 ROI within "&Timeframe&" months","")',
+      model.roiRatio !== null ? `${model.roiRatio.toFixed(1)}:1 ROI within ${model.timeframe} months` : impact.financialROI || ''
+    );
+
+    const benefits: Array<[string, string | undefined]> = [
+      ['Operational Excellence', impact.operationalExcellence],
+      ['Competitive Advantage', impact.competitiveAdvantage],
+      ['Risk Reduction', impact.riskReduction]
+    ];
+    for (const [label, value] of benefits) {
+      if (value) sheet.getRow(rowNumber++).values = [label, value];
+    }
+
+    sheet.eachRow(row => {
+      row.alignment = { vertical: 'top', wrapText: true };
+    });
+  }
+
+  // ==========================================
+  // PRIVATE METHODS - Cells
+  // ==========================================
+
+  private addTitle(sheet: ExcelJS.Worksheet, title: string, subtitle?: string): void {
+    sheet.getCell('A1').value = title;
+    sheet.getCell('A1').font = { size: 16, bold: true, color: { argb: this.primaryColor } };
+
+    if (subtitle) {
+      sheet.getCell('A2').value = subtitle;
+      sheet.getCell('A2').font = { size: 11, color: { argb: 'FF646464' } };
+    }
+  }
+
+  private addHeaderRow(sheet: ExcelJS.Worksheet, rowNumber: number, headers: string[]): void {
+    const row = sheet.getRow(rowNumber);
+    row.values = headers;
+    row.font = { bold: true, color: { argb: 'FFFFFFFF' } };
+    headers.forEach((_, index) => {
+      row.getCell(index + 1).fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: this.primaryColor } };
+    });
+  }
+
+  /**
+   * Highlighted, unlocked assumption cell with a workbook-level name
+   */
+  private addInputCell(cell: Cell, value: number, name: string, numFmt: string): void {
+    cell.value = value;
+    cell.name = name;
+    cell.numFmt = numFmt;
+    cell.font = { bold: true, color: { argb: INPUT_FONT } };
+    cell.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: INPUT_FILL } };
+    cell.border = { bottom: { style: 'thin', color: { argb: 'FFE5E7EB' } } };
+    cell.protection = { locked: false };
+  }
+
+  private setFormula(cell: Cell, formula: string, result: number | string, numFmt?: string): void {
+    cell.value = { formula, result } as ExcelJS.CellFormulaValue;
+    if (numFmt) cell.numFmt = numFmt;
+  }
+
+  // ==========================================
+  // UTILITY METHODS
+  // ==========================================
+
+  /**
+   * Brand font on every cell, footer/watermark in the print header and
+   * footer, and the logo beside the title of the first sheet
+   */
+  private applyBranding(): void {
+    const escape = (text: string) => text.replace(/&/g, '&&');
+    const watermark = getWatermarkText(this.brand);
+
+    this.workbook.eachSheet(sheet => {
+      sheet.eachRow(row => {
+        row.eachCell(cell => {
+          cell.font = { ...cell.font, name: this.brand.fontFamily };
+        });
+      });
+
+      sheet.headerFooter = {
+        oddHeader: watermark ? `&C&"-,Bold"&18&K${toBareHex(this.brand.primaryColor)}${escape(watermark)}` : undefined,
+        oddFooter: `&L${escape(this.brand.footerText)}&RPage &P of &N`
+      };
+    });
+
+    const logo = this.brand.companyLogo;
+    const firstSheet = this.workbook.worksheets[0];
+    if (logo && firstSheet) {
+      const imageId = this.workbook.addImage({ base64: logo, extension: getLogoImageType(logo) === 'png' ? 'png' : 'jpeg' });
+      firstSheet.addImage(imageId, { tl: { col: 3, row: 0 }, ext: fitLogo(logo, 160, 60) });
+    }
+  }
+
+  private async generate(): Promise<Blob> {
+    this.applyBranding();
+    const buffer = await this.workbook.xlsx.writeBuffer();
+    return new Blob([buffer as ArrayBuffer], { type: XLSX_MIME_TYPE });
+  }
+
+  /**
+   * Generate and download XLSX file (client-side)
+   */
+  static async saveToFile(data: FinancialModelData, filename: string): Promise<void> {
+    const blob = await XLSXGenerator.generateFinancialModel(data);
+
+    const url = window.URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename.endsWith('.xlsx') ? filename : `${filename}.xlsx`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    window.URL.revokeObjectURL(url);
+  }
+}
+
+export default XLSXGenerator;
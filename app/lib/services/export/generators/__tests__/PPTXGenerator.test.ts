@@ -0,0 +1,60 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * PPTXGenerator Unit Tests
+ *
+ * Checks the deck structure through the file names in the PPTX archive:
+ * - Title slide plus one slide per business case section
+ * - Persona cards and native cost breakdown charts
+ */
+
+import PPTXGenerator from '../PPTXGenerator';
+
+async function archiveEntries(blob: Blob, pattern: RegExp): Promise<string[]> {
+  // Zip entry names are stored uncompressed in the archive directory
+  const text = Buffer.from(await blob.arrayBuffer()).toString('latin1');
+  return Array.from(new Set(text.match(new RegExp(pattern.source, 'g')) ?? [])).sort();
+}
+
+describe('PPTXGenerator', () => {
+  it('adds a title slide and one slide per business case section', async () => {
+    const blob = await PPTXGenerator.generateBusinessCase({
+      companyName: 'Acme Corp',
+      executiveSummary: 'Acme loses deals to slow qualification.',
+      problemStatement: 'Reps spend 40% of their time on unqualified leads.',
+      solution: 'Automated ICP scoring.',
+      benefits: ['Shorter sales cycle', 'Higher win rate'],
+      financialAnalysis: { investment: 50000, expectedReturn: 200000, roi: 300 },
+      risks: ['Adoption']
+    });
+
+    expect(blob.type).toBe('application/vnd.openxmlformats-officedocument.presentationml.presentation');
+    expect(await archiveEntries(blob, /ppt\/slides\/slide\d+\.xml/)).toHaveLength(7);
+    expect(await archiveEntries(blob, /ppt\/charts\/chart\d+\.xml/)).toHaveLength(1); // Financial analysis
+  });
+
+  it('renders the cost breakdown as a native chart', async () => {
+    const blob = await PPTXGenerator.generateCostCalculator({
+      totalCost: 120000,
+      breakdown: [
+        { category: 'Lost Revenue', description: 'Deals lost to competitors', cost: 80000 },
+        { category: 'Wasted Effort', description: 'Unqualified pipeline', cost: 40000 }
+      ]
+    });
+
+    expect(await archiveEntries(blob, /ppt\/slides\/slide\d+\.xml/)).toHaveLength(3);
+    expect(await archiveEntries(blob, /ppt\/charts\/chart\d+\.xml/)).toHaveLength(1);
+  });
+
+  it('puts up to three persona cards on each slide', async () => {
+    const persona = (title: string) => ({ title, goals: ['Grow pipeline'], painPoints: ['Manual research'] });
+    const blob = await PPTXGenerator.generateICPAnalysis({
+      buyerPersonas: ['VP Sales', 'RevOps Lead', 'CRO', 'SDR Manager'].map(persona)
+    });
+
+    // Title, executive summary and two persona slides
+    expect(await archiveEntries(blob, /ppt\/slides\/slide\d+\.xml/)).toHaveLength(4);
+  });
+});
@@ -0,0 +1,84 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * XLSXGenerator Unit Tests
+ *
+ * Reads the generated workbook back and checks that:
+ * - Cost drivers, timeframe and savings rate are editable named inputs
+ * - Totals, savings and ROI are formulas over those inputs
+ */
+
+import ExcelJS from 'exceljs';
+import XLSXGenerator from '../XLSXGenerator';
+
+const costCalculator = {
+  costData: {
+    delayedRevenue: 45000,
+    competitorAdvantage: 23000,
+    teamEfficiency: 12000,
+    marketOpportunity: 38000
+  },
+  timeframe: 6,
+  totalCost: 708000,
+  savingsOpportunity: 531000
+};
+
+async function readWorkbook(blob: Blob): Promise<ExcelJS.Workbook> {
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(await blob.arrayBuffer());
+  return workbook;
+}
+
+function formulaOf(cell: ExcelJS.Cell): string | undefined {
+  return (cell.value as ExcelJS.CellFormulaValue)?.formula;
+}
+
+describe('XLSXGenerator', () => {
+  it('writes the cost drivers as named input cells', async () => {
+    const workbook = await readWorkbook(await XLSXGenerator.generateCostCalculator(costCalculator));
+    const inputs = workbook.getWorksheet('Assumptions')!;
+
+    expect(workbook.worksheets.map(sheet => sheet.name)).toEqual(['Assumptions', 'Cost Model', 'Monthly Projection']);
+    expect(inputs.getCell('B6').value).toBe(45000);
+    expect(inputs.getCell('B6').name).toBe('DelayedRevenue');
+    expect(inputs.getCell('B10').value).toBe(6);
+    expect(inputs.getCell('B10').name).toBe('Timeframe');
+    expect(inputs.getCell('B11').value).toBe(0.75);
+    expect(inputs.getCell('B6').protection?.locked).toBe(false);
+  });
+
+  it('computes totals and savings with formulas and cached results', async () => {
+    const workbook = await readWorkbook(await XLSXGenerator.generateCostCalculator(costCalculator));
+    const model = workbook.getWorksheet('Cost Model')!;
+
+    expect(formulaOf(model.getCell('B5'))).toBe('DelayedRevenue');
+    expect(formulaOf(model.getCell('B9'))).toBe('SUM(B5:B8)');
+    expect(formulaOf(model.getCell('B13'))).toBe('MonthlyCost*Timeframe');
+    expect(formulaOf(model.getCell('B14'))).toBe('TotalCost*SavingsRate');
+    expect((model.getCell('B13').value as ExcelJS.CellFormulaValue).result).toBe(708000);
+    expect((model.getCell('B14').value as ExcelJS.CellFormulaValue).result).toBe(531000);
+  });
+
+  it('adds live ROI against the investment for business cases', async () => {
+    const workbook = await readWorkbook(await XLSXGenerator.generateBusinessCase({
+      costCalculator,
+      investment: 150000,
+      businessImpactROI: {
+        visionFrom: 'Manual qualification',
+        visionTo: 'Systematic ICP scoring',
+        executiveKPI: { impactArea: 'ARR', currentState: '$2M', targetByDate: '$10M by Q4', strategicValue: 'Series B readiness' }
+      }
+    }));
+    const model = workbook.getWorksheet('Cost Model')!;
+    const impact = workbook.getWorksheet('Business Impact')!;
+
+    expect(workbook.getWorksheet('Assumptions')!.getCell('B12').value).toBe(150000);
+    expect(formulaOf(model.getCell('B17'))).toBe('IF(Investment>0,SavingsOpportunity/Investment,"")');
+    expect((model.getCell('B17').value as ExcelJS.CellFormulaValue).result).toBeCloseTo(3.54);
+
+    const roiStatement = impact.getColumn(2).values.find(value => (value as ExcelJS.CellFormulaValue)?.formula);
+    expect((roiStatement as ExcelJS.CellFormulaValue).result).toBe('3.5:1 ROI within 6 months');
+  });
+});
@@ -6,6 +6,8 @@
 
 export { default as PDFGenerator } from './PDFGenerator';
 export { default as DOCXGenerator } from './DOCXGenerator';
+export { default as PPTXGenerator } from './PPTXGenerator';
+export { default as XLSXGenerator } from './XLSXGenerator';
 
 // Re-export types for convenience
 // Note: Types are not exported from generators, using any for now
@@ -14,3 +16,6 @@ export type PDFSection = any;
 export type TableData = any;
 export type DOCXOptions = any;
 export type DOCXSection = any;
+export type PPTXOptions = any;
+export type PPTXSection = any;
+export type XLSXOptions = any;
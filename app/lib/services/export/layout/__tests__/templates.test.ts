@@ -0,0 +1,91 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Export Layout Engine Unit Tests
+ *
+ * Tests the shared document model behind PDF and DOCX exports:
+ * - Default templates turn export data into blocks
+ * - Customer templates replace the default for their export type
+ * - Backends are pluggable and receive the same document
+ */
+
+import { DocumentBlock, ExportDocument } from '../document-model';
+import {
+  DEFAULT_TEMPLATES,
+  DocumentTemplate,
+  buildDocument,
+  registerTemplate,
+  resolveTemplate,
+  unregisterTemplate
+} from '../templates';
+import { registerRenderer, renderExport } from '../renderers';
+
+const headings = (blocks: DocumentBlock[]) =>
+  blocks.filter(block => block.kind === 'heading').map(block => (block as { text: string }).text);
+
+const businessCase = {
+  companyName: 'Acme Corp',
+  problemStatement: 'Reps chase unqualified leads.',
+  benefits: ['Shorter sales cycle'],
+  financialAnalysis: { investment: 50000, expectedReturn: 200000, roi: 300 }
+};
+
+describe('export layout engine', () => {
+  it('builds business case blocks from the default template', () => {
+    const document = buildDocument(DEFAULT_TEMPLATES.business_case, businessCase);
+
+    expect(document.blocks[0]).toEqual({ kind: 'cover', title: 'Business Case', subtitle: 'Acme Corp' });
+    // Empty fields are skipped; the executive summary falls back to default text
+    expect(headings(document.blocks)).toEqual(['Executive Summary', 'Problem Statement', 'Key Benefits', 'Financial Analysis']);
+    expect(document.blocks).toContainEqual({
+      kind: 'table',
+      table: {
+        headers: ['Metric', 'Value'],
+        rows: [['Initial Investment', '$50,000'], ['Expected Annual Return', '$200,000'], ['ROI', '300%']]
+      }
+    });
+  });
+
+  it('uses a registered customer template for that customer only', () => {
+    const onePager: DocumentTemplate = {
+      id: 'acme-one-pager',
+      exportType: 'business_case',
+      name: 'One Pager',
+      cover: { title: 'Acme Investment Brief' },
+      sections: [{ type: 'financialAnalysis', field: 'financialAnalysis', title: 'The Numbers', level: 1 }]
+    };
+    registerTemplate('cust-acme', onePager);
+
+    expect(resolveTemplate('business_case', 'cust-acme')).toBe(onePager);
+    expect(resolveTemplate('business_case', 'cust-other')).toBe(DEFAULT_TEMPLATES.business_case);
+    expect(headings(buildDocument(onePager, businessCase).blocks)).toEqual(['The Numbers']);
+
+    unregisterTemplate('cust-acme', 'business_case');
+    expect(resolveTemplate('business_case', 'cust-acme')).toBe(DEFAULT_TEMPLATES.business_case);
+  });
+
+  it('renders through a pluggable backend', async () => {
+    const rendered: ExportDocument[] = [];
+    registerRenderer({
+      format: 'markdown',
+      mimeType: 'text/markdown',
+      render: async document => {
+        rendered.push(document);
+        return new Blob([document.title], { type: 'text/markdown' });
+      }
+    });
+
+    const blob = await renderExport({
+      type: 'cost',
+      format: 'markdown',
+      data: { totalCost: 120000, breakdown: [{ category: 'Lost Revenue', cost: 120000 }] }
+    });
+
+    expect(blob.type).toBe('text/markdown');
+    expect(rendered[0].templateId).toBe('cost-default');
+    expect(rendered[0].blocks).toContainEqual({ kind: 'keyMetric', label: 'Total Cost of Inaction (Annual)', value: '$120,000' });
+    await expect(renderExport({ type: 'cost', format: 'rtf', data: {} })).rejects.toThrow('No document renderer for format: rtf');
+  });
+});
@@ -0,0 +1,59 @@
+/**
+ * document-model.ts
+ *
+ * Format-agnostic document model for exports. Templates build an
+ * ExportDocument from export data; PDF and DOCX backends render its blocks.
+ */
+
+export type ExportType = 'icp' | 'assessment' | 'business_case' | 'cost' | 'comprehensive';
+
+export type HeadingLevel = 1 | 2 | 3;
+
+export type ValueFormat = 'text' | 'currency' | 'percent' | 'months' | 'number';
+
+export interface TableData {
+  headers: string[];
+  rows: string[][];
+}
+
+export type DocumentBlock =
+  | { kind: 'cover'; title: string; subtitle?: string }
+  | { kind: 'heading'; text: string; level: HeadingLevel }
+  | { kind: 'paragraph'; text: string }
+  | { kind: 'bullets'; items: string[] }
+  | { kind: 'keyMetric'; label: string; value: string }
+  | { kind: 'table'; table: TableData }
+  | { kind: 'chart'; chartType: 'bar'; labels: string[]; values: number[]; format?: ValueFormat }
+  | { kind: 'pageBreak' }
+  | { kind: 'spacing' };
+
+export interface ExportDocument {
+  title: string;
+  subtitle?: string;
+  exportType: ExportType;
+  templateId: string;
+  blocks: DocumentBlock[];
+}
+
+/**
+ * Format a value for display in a document
+ */
+export function formatValue(value: unknown, format: ValueFormat = 'text'): string {
+  if (value === null || value === undefined || value === '') return '';
+
+  const number = typeof value === 'number' ? value : Number(value);
+  if (format !== 'text' && Number.isNaN(number)) return String(value);
+
+  switch (format) {
+    case 'currency':
+      return `$${number.toLocaleString()}`;
+    case 'percent':
+      return `${number}%`;
+    case 'months':
+      return `${number} months`;
+    case 'number':
+      return number.toLocaleString();
+    default:
+      return Array.isArray(value) ? value.join(', ') : String(value);
+  }
+}
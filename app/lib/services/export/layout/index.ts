@@ -0,0 +1,9 @@
+/**
+ * Export Layout Engine Barrel Export
+ *
+ * Document model, declarative templates and rendering backends.
+ */
+
+export * from './document-model';
+export * from './templates';
+export * from './renderers';
@@ -0,0 +1,65 @@
+/**
+ * renderers.ts
+ *
+ * Pluggable rendering backends for export documents. Each backend turns the
+ * same ExportDocument into a file, so every format carries the same content.
+ */
+
+import PDFGenerator from '../generators/PDFGenerator';
+import DOCXGenerator from '../generators/DOCXGenerator';
+import { ExportDocument, ExportType } from './document-model';
+import { BuildDocumentOptions, buildDocument, resolveTemplate } from './templates';
+
+export interface DocumentRenderer {
+  format: string;
+  mimeType: string;
+  render(document: ExportDocument, options?: Record<string, any>): Promise<Blob>;
+}
+
+export interface RenderExportRequest {
+  type: ExportType;
+  format: string;
+  data: any;
+  customerId?: string;
+  options?: BuildDocumentOptions & Record<string, any>;
+}
+
+const renderers = new Map<string, DocumentRenderer>();
+
+export function registerRenderer(renderer: DocumentRenderer): void {
+  renderers.set(renderer.format, renderer);
+}
+
+export function getRenderer(format: string): DocumentRenderer | undefined {
+  return renderers.get(format);
+}
+
+export function getRendererFormats(): string[] {
+  return Array.from(renderers.keys());
+}
+
+registerRenderer({
+  format: 'pdf',
+  mimeType: 'application/pdf',
+  render: (document, options) => PDFGenerator.renderDocument(document, options)
+});
+
+registerRenderer({
+  format: 'docx',
+  mimeType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  render: (document, options) => DOCXGenerator.renderDocument(document, options)
+});
+
+/**
+ * Build the document from the customer's template (or the default) and
+ * render it with the backend for the requested format
+ */
+export async function renderExport({ type, format, data, customerId, options = {} }: RenderExportRequest): Promise<Blob> {
+  const renderer = getRenderer(format);
+  if (!renderer) {
+    throw new Error(`No document renderer for format: ${format}`);
+  }
+
+  const template = resolveTemplate(type, customerId);
+  return renderer.render(buildDocument(template, data, options), options);
+}
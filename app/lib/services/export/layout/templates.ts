@@ -0,0 +1,376 @@
+/**
+ * templates.ts
+ *
+ * Declarative export templates. A template lists sections by type and the
+ * data field they read; section builders turn them into document blocks, so
+ * every backend renders the same content. Templates are plain JSON and can be
+ * registered per customer.
+ */
+
+import {
+  DocumentBlock,
+  ExportDocument,
+  ExportType,
+  HeadingLevel,
+  ValueFormat,
+  formatValue
+} from './document-model';
+
+export type TemplateSectionType =
+  | 'text'
+  | 'list'
+  | 'metric'
+  | 'personas'
+  | 'companyRatings'
+  | 'scores'
+  | 'financialAnalysis'
+  | 'costBreakdown'
+  | 'sections';
+
+export interface TemplateSection {
+  type: TemplateSectionType;
+  field: string;                 // Dot path into the export data
+  title?: string;                // Heading (metric sections use it as the label)
+  level?: HeadingLevel;          // Heading level, default 2
+  fallback?: string;             // Text sections: shown when the field is empty
+  intro?: string;                // Paragraph under the heading
+  format?: ValueFormat;          // Metric sections
+  chart?: boolean;               // Add a bar chart (costBreakdown, scores)
+  pageBreakBefore?: boolean;
+}
+
+export interface DocumentTemplate {
+  id: string;
+  exportType: ExportType;
+  name: string;
+  cover?: {
+    title: string;
+    subtitle?: string;
+    subtitleField?: string;      // Data field preferred over the default subtitle
+  };
+  sections: TemplateSection[];
+}
+
+export interface BuildDocumentOptions {
+  title?: string;
+  subtitle?: string;
+}
+
+// ==========================================
+// SECTION BUILDERS
+// ==========================================
+
+type SectionBuilder = (value: any, section: TemplateSection) => DocumentBlock[];
+
+const asText = (value: unknown): string => (Array.isArray(value) ? value.join(', ') : String(value ?? ''));
+
+const titleCase = (key: string): string =>
+  key.replace(/([A-Z])/g, ' $1').replace(/^./, char => char.toUpperCase()).trim();
+
+function personaBlocks(persona: any): DocumentBlock[] {
+  const blocks: DocumentBlock[] = [
+    { kind: 'heading', text: persona.title || persona.role || 'Buyer Persona', level: 3 }
+  ];
+
+  if (persona.description) {
+    blocks.push({ kind: 'paragraph', text: persona.description });
+  }
+
+  const rows: string[][] = [];
+  if (persona.role) rows.push(['Role', persona.role]);
+  if (persona.goals) rows.push(['Goals', asText(persona.goals)]);
+  if (persona.painPoints) rows.push(['Pain Points', asText(persona.painPoints)]);
+  if (persona.buyingCriteria) rows.push(['Buying Criteria', asText(persona.buyingCriteria)]);
+
+  if (rows.length > 0) {
+    blocks.push({ kind: 'table', table: { headers: ['Attribute', 'Details'], rows } });
+  }
+
+  return blocks;
+}
+
+function genericSectionBlocks(item: any): DocumentBlock[] {
+  const blocks: DocumentBlock[] = [{ kind: 'heading', text: item.title, level: 2 }];
+
+  if (typeof item.content === 'string' && item.content) {
+    blocks.push({ kind: 'paragraph', text: item.content });
+  } else if (Array.isArray(item.content) && item.content.length > 0) {
+    blocks.push({ kind: 'bullets', items: item.content });
+  }
+
+  if (item.type === 'table' && item.data) {
+    blocks.push({ kind: 'table', table: item.data });
+  } else if (item.type === 'chart' && item.data?.labels && item.data?.values) {
+    blocks.push({ kind: 'chart', chartType: 'bar', labels: item.data.labels, values: item.data.values, format: item.data.format });
+  }
+
+  blocks.push({ kind: 'spacing' });
+  return blocks;
+}
+
+/**
+ * Section type → blocks (without the section heading, added by buildDocument)
+ */
+export const SECTION_BUILDERS: Record<TemplateSectionType, SectionBuilder> = {
+  text: (value, section) => [{ kind: 'paragraph', text: asText(value || section.fallback) }],
+
+  list: value => [{ kind: 'bullets', items: (Array.isArray(value) ? value : [value]).map(asText) }],
+
+  metric: (value, section) => [
+    { kind: 'keyMetric', label: section.title || '', value: formatValue(value, section.format) }
+  ],
+
+  personas: (personas: any[]) => personas.flatMap(personaBlocks),
+
+  companyRatings: (ratings: any[]) => [{
+    kind: 'table',
+    table: {
+      headers: ['Company', 'Rating', 'Fit Score', 'Notes'],
+      rows: ratings.map(r => [
+        r.companyName || '',
+        r.rating?.toString() || '',
+        r.fitScore?.toString() || '',
+        r.notes || ''
+      ])
+    }
+  }],
+
+  scores: (scores: Record<string, unknown>, section) => {
+    const entries = Object.entries(scores);
+    const blocks: DocumentBlock[] = [{
+      kind: 'table',
+      table: {
+        headers: ['Category', 'Score'],
+        rows: entries.map(([key, value]) => [titleCase(key), value?.toString() || ''])
+      }
+    }];
+
+    const numeric = entries.filter(([, value]) => typeof value === 'number') as [string, number][];
+    if (section.chart && numeric.length > 0) {
+      blocks.push({ kind: 'chart', chartType: 'bar', labels: numeric.map(([key]) => titleCase(key)), values: numeric.map(([, value]) => value), format: 'number' });
+    }
+
+    return blocks;
+  },
+
+  financialAnalysis: analysis => {
+    const rows: string[][] = [];
+    if (analysis.investment) rows.push(['Initial Investment', formatValue(analysis.investment, 'currency')]);
+    if (analysis.annualCost) rows.push(['Annual Cost', formatValue(analysis.annualCost, 'currency')]);
+    if (analysis.expectedReturn) rows.push(['Expected Annual Return', formatValue(analysis.expectedReturn, 'currency')]);
+    if (analysis.roi) rows.push(['ROI', formatValue(analysis.roi, 'percent')]);
+    if (analysis.paybackPeriod) rows.push(['Payback Period', formatValue(analysis.paybackPeriod, 'months')]);
+
+    return [{ kind: 'table', table: { headers: ['Metric', 'Value'], rows } }];
+  },
+
+  costBreakdown: (breakdown: any[], section) => {
+    const blocks: DocumentBlock[] = [{
+      kind: 'table',
+      table: {
+        headers: ['Category', 'Description', 'Cost'],
+        rows: breakdown.map(item => [
+          item.category || '',
+          item.description || '',
+          formatValue(item.cost ?? 0, 'currency')
+        ])
+      }
+    }];
+
+    if (section.chart) {
+      blocks.unshift({
+        kind: 'chart',
+        chartType: 'bar',
+        labels: breakdown.map(item => item.category || item.description || 'Other'),
+        values: breakdown.map(item => Number(item.cost) || 0),
+        format: 'currency'
+      });
+    }
+
+    return blocks;
+  },
+
+  sections: (items: any[]) => items.flatMap(genericSectionBlocks)
+};
+
+// ==========================================
+// DEFAULT TEMPLATES
+// ==========================================
+
+export const DEFAULT_TEMPLATES: Record<ExportType, DocumentTemplate> = {
+  icp: {
+    id: 'icp-default',
+    exportType: 'icp',
+    name: 'ICP Analysis',
+    cover: { title: 'Ideal Customer Profile Analysis', subtitle: 'Revenue Intelligence Platform' },
+    sections: [
+      {
+        type: 'text',
+        field: 'executiveSummary',
+        title: 'Executive Summary',
+        level: 1,
+        fallback: 'This document provides a comprehensive analysis of your Ideal Customer Profile (ICP), including detailed buyer personas, company ratings, and market insights.'
+      },
+      { type: 'sections', field: 'sections' },
+      { type: 'personas', field: 'buyerPersonas', title: 'Buyer Personas', level: 1, pageBreakBefore: true },
+      { type: 'companyRatings', field: 'companyRatings', title: 'Company Ratings', level: 1, pageBreakBefore: true }
+    ]
+  },
+
+  assessment: {
+    id: 'assessment-default',
+    exportType: 'assessment',
+    name: 'Assessment Results',
+    cover: { title: 'Assessment Results', subtitle: 'Revenue Intelligence Platform' },
+    sections: [
+      {
+        type: 'text',
+        field: 'overview',
+        title: 'Assessment Overview',
+        level: 1,
+        fallback: 'This assessment provides insights into your revenue intelligence capabilities and identifies areas for improvement.'
+      },
+      { type: 'scores', field: 'scores', title: 'Competency Scores' },
+      { type: 'list', field: 'recommendations', title: 'Recommendations' },
+      { type: 'list', field: 'actionItems', title: 'Action Items' }
+    ]
+  },
+
+  business_case: {
+    id: 'business-case-default',
+    exportType: 'business_case',
+    name: 'Business Case',
+    cover: { title: 'Business Case', subtitle: 'Investment Proposal', subtitleField: 'companyName' },
+    sections: [
+      {
+        type: 'text',
+        field: 'executiveSummary',
+        title: 'Executive Summary',
+        level: 1,
+        fallback: 'This business case outlines the strategic value proposition, financial justification, and implementation roadmap for the proposed investment.'
+      },
+      { type: 'text', field: 'problemStatement', title: 'Problem Statement' },
+      { type: 'text', field: 'solution', title: 'Proposed Solution' },
+      { type: 'list', field: 'benefits', title: 'Key Benefits' },
+      { type: 'financialAnalysis', field: 'financialAnalysis', title: 'Financial Analysis' },
+      { type: 'text', field: 'roiProjections', title: 'ROI Projections' },
+      { type: 'text', field: 'implementationPlan', title: 'Implementation Plan' },
+      { type: 'list', field: 'risks', title: 'Risks and Mitigation' }
+    ]
+  },
+
+  cost: {
+    id: 'cost-default',
+    exportType: 'cost',
+    name: 'Cost of Inaction',
+    cover: { title: 'Cost of Inaction Analysis', subtitle: 'Financial Impact Assessment' },
+    sections: [
+      {
+        type: 'text',
+        field: 'summary',
+        title: 'Cost Analysis Summary',
+        level: 1,
+        fallback: 'This analysis quantifies the financial impact of maintaining the status quo versus taking action.'
+      },
+      { type: 'metric', field: 'totalCost', title: 'Total Cost of Inaction (Annual)', format: 'currency' },
+      { type: 'costBreakdown', field: 'breakdown', title: 'Cost Breakdown' },
+      { type: 'text', field: 'recommendations', title: 'Recommendations' }
+    ]
+  },
+
+  comprehensive: {
+    id: 'comprehensive-default',
+    exportType: 'comprehensive',
+    name: 'Comprehensive Report',
+    sections: [{ type: 'sections', field: 'sections' }]
+  }
+};
+
+// ==========================================
+// TEMPLATE REGISTRY
+// ==========================================
+
+const customTemplates = new Map<string, DocumentTemplate>();
+
+const templateKey = (exportType: ExportType, customerId: string) => `${customerId}:${exportType}`;
+
+/**
+ * Register a customer-specific template, replacing the default for its export type
+ */
+export function registerTemplate(customerId: string, template: DocumentTemplate): void {
+  customTemplates.set(templateKey(template.exportType, customerId), template);
+}
+
+export function unregisterTemplate(customerId: string, exportType: ExportType): void {
+  customTemplates.delete(templateKey(exportType, customerId));
+}
+
+/**
+ * Customer template when registered, otherwise the default
+ */
+export function resolveTemplate(exportType: ExportType, customerId?: string): DocumentTemplate {
+  const custom = customerId ? customTemplates.get(templateKey(exportType, customerId)) : undefined;
+  const template = custom || DEFAULT_TEMPLATES[exportType];
+
+  if (!template) {
+    throw new Error(`No export template for type: ${exportType}`);
+  }
+
+  return template;
+}
+
+// ==========================================
+// DOCUMENT BUILDING
+// ==========================================
+
+function readField(data: any, path: string): any {
+  return path.split('.').reduce((value, key) => (value == null ? undefined : value[key]), data);
+}
+
+function isEmpty(value: unknown): boolean {
+  if (value === null || value === undefined || value === '') return true;
+  if (Array.isArray(value)) return value.length === 0;
+  if (typeof value === 'object') return Object.keys(value as object).length === 0;
+  return false;
+}
+
+/**
+ * Build the format-agnostic document for a template and its data
+ */
+export function buildDocument(template: DocumentTemplate, data: any, options: BuildDocumentOptions = {}): ExportDocument {
+  const blocks: DocumentBlock[] = [];
+  const title = options.title || template.cover?.title || template.name;
+  const subtitle = options.subtitle
+    || (template.cover?.subtitleField ? readField(data, template.cover.subtitleField) : undefined)
+    || template.cover?.subtitle;
+
+  // Sections-only templates get a cover only when a title is requested
+  if (template.cover || options.title) {
+    blocks.push({ kind: 'cover', title, subtitle });
+  }
+
+  for (const section of template.sections) {
+    const value = readField(data, section.field);
+    if (isEmpty(value) && !(section.type === 'text' && section.fallback)) continue;
+
+    if (section.pageBreakBefore) {
+      blocks.push({ kind: 'pageBreak' });
+    }
+
+    if (section.title && section.type !== 'metric') {
+      blocks.push({ kind: 'heading', text: section.title, level: section.level ?? 2 });
+    }
+
+    if (section.intro) {
+      blocks.push({ kind: 'paragraph', text: section.intro });
+    }
+
+    blocks.push(...SECTION_BUILDERS[section.type](value, section));
+
+    if (section.type !== 'sections') {
+      blocks.push({ kind: 'spacing' });
+    }
+  }
+
+  return { title, subtitle, exportType: template.exportType, templateId: template.id, blocks };
+}
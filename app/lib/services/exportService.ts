@@ -10,8 +10,11 @@
 import { env } from '@/app/lib/config/environment';
 import { supabase } from '@/app/lib/supabase/client';
 import { API_CONFIG } from '@/app/lib/config/api';
-import PDFGenerator from './export/generators/PDFGenerator';
-import DOCXGenerator from './export/generators/DOCXGenerator';
+import { DEFAULT_TEMPLATES, ExportType, renderExport } from './export/layout';
+import PPTXGenerator from './export/generators/PPTXGenerator';
+import XLSXGenerator from './export/generators/XLSXGenerator';
+import { BrandingInput } from './export/branding';
+import { UserProfileService } from './userProfileService';
 
 interface ExportFormat {
   format: string;
@@ -94,7 +97,7 @@ class ExportService {
         description: 'Microsoft PowerPoint format - perfect for presentations',
         mimeType: 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
         extension: '.pptx',
-        supportedTypes: ['icp', 'business_case', 'comprehensive']
+        supportedTypes: ['assessment', 'icp', 'cost', 'business_case', 'comprehensive']
       },
       {
         format: 'csv',
@@ -115,10 +118,10 @@ class ExportService {
       {
         format: 'xlsx',
         name: 'Excel Spreadsheet',
-        description: 'Microsoft Excel format - perfect for data analysis',
+        description: 'Microsoft Excel financial model - editable assumptions with live formulas',
         mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
         extension: '.xlsx',
-        supportedTypes: ['assessment', 'icp', 'cost', 'progress']
+        supportedTypes: ['cost', 'business_case']
       }
     ];
   }
@@ -147,17 +150,29 @@ class ExportService {
       let blob: Blob | null = null;
       let downloadUrl: string | undefined;
 
+      // Apply the customer's brand profile unless the request brings its own
+      if (['pdf', 'docx', 'pptx', 'xlsx'].includes(request.format) && !request.options?.branding) {
+        const branding = await this.loadBranding(request.customerId);
+        if (branding) {
+          request = { ...request, options: { ...request.options, branding } };
+        }
+      }
+
       if (request.format === 'pdf') {
         blob = await this.generatePDF(request);
       } else if (request.format === 'docx') {
         blob = await this.generateDOCX(request);
+      } else if (request.format === 'pptx') {
+        blob = await this.generatePPTX(request);
+      } else if (request.format === 'xlsx') {
+        blob = await this.generateXLSX(request);
       }
 
       // If file was generated, create download URL
       if (blob) {
         downloadUrl = URL.createObjectURL(blob);
       } else {
-        // For other formats (csv, json, xlsx, pptx), return mock for now
+        // For other formats (csv, json), return mock for now
         downloadUrl = `/api/exports/${exportId}/download`;
       }
 
@@ -189,65 +204,118 @@ class ExportService {
     }
   }
 
+  /**
+   * Stored brand profile for the customer; exports fall back to the default
+   * branding when it cannot be loaded
+   */
+  private async loadBranding(customerId?: string): Promise<BrandingInput | undefined> {
+    if (!customerId) return undefined;
+
+    try {
+      return await UserProfileService.getBrandProfile(customerId);
+    } catch (error) {
+      console.warn('⚠️ Could not load brand profile, using default branding:', error);
+      return undefined;
+    }
+  }
+
   /**
    * Generate PDF file
    */
   private async generatePDF(request: ExportRequest): Promise<Blob> {
-    const { type, data, options } = request;
+    const { type, options } = request;
 
-    const pdfOptions = {
+    return this.renderDocument(request, {
       title: options?.template || `${type} Export`,
       subtitle: 'Revenue Intelligence Platform',
       author: 'Revenue Intelligence Platform',
       includeHeader: true,
       includeFooter: true,
       ...options
+    });
+  }
+
+  /**
+   * Generate DOCX file
+   */
+  private async generateDOCX(request: ExportRequest): Promise<Blob> {
+    const { type, options } = request;
+
+    return this.renderDocument(request, {
+      title: options?.template || `${type} Export`,
+      subtitle: 'Revenue Intelligence Platform',
+      author: 'Revenue Intelligence Platform',
+      ...options
+    });
+  }
+
+  /**
+   * Render PDF/DOCX through the shared layout engine, using the customer's
+   * template for the export type when one is registered
+   */
+  private async renderDocument(request: ExportRequest, options: Record<string, any>): Promise<Blob> {
+    const { type, format, data, customerId } = request;
+
+    if (!(type in DEFAULT_TEMPLATES)) {
+      throw new Error(`${format.toUpperCase()} generation not supported for type: ${type}`);
+    }
+
+    return renderExport({ type: type as ExportType, format, data, customerId, options });
+  }
+
+  /**
+   * Generate PPTX slide deck
+   */
+  private async generatePPTX(request: ExportRequest): Promise<Blob> {
+    const { type, data, options } = request;
+
+    const pptxOptions = {
+      title: options?.template || `${type} Export`,
+      subtitle: 'Revenue Intelligence Platform',
+      author: 'Revenue Intelligence Platform',
+      ...options
     };
 
     switch (type) {
       case 'icp':
-        return await PDFGenerator.generateICPAnalysis(data, pdfOptions as any);
+        return await PPTXGenerator.generateICPAnalysis(data, pptxOptions);
       case 'assessment':
-        return await PDFGenerator.generateAssessment(data, pdfOptions as any);
+        return await PPTXGenerator.generateAssessment(data, pptxOptions);
       case 'business_case':
-        return await PDFGenerator.generateBusinessCase(data, pdfOptions as any);
+        return await PPTXGenerator.generateBusinessCase(data, pptxOptions);
       case 'cost':
-        return await PDFGenerator.generateCostCalculator(data, pdfOptions as any);
+        return await PPTXGenerator.generateCostCalculator(data, pptxOptions);
       case 'comprehensive':
-        // Generate comprehensive report with all sections
-        return await PDFGenerator.generateFromSections(data.sections || [], pdfOptions as any);
+        // One slide per section
+        return await PPTXGenerator.generateFromSections(data.sections || [], pptxOptions);
       default:
-        throw new Error(`PDF generation not supported for type: ${type}`);
+        throw new Error(`PPTX generation not supported for type: ${type}`);
     }
   }
 
   /**
-   * Generate DOCX file
+   * Generate XLSX financial model
+   *
+   * `cost` expects cost calculator results; `business_case` expects
+   * `{ costCalculator, businessImpactROI, investment }`
    */
-  private async generateDOCX(request: ExportRequest): Promise<Blob> {
+  private async generateXLSX(request: ExportRequest): Promise<Blob> {
     const { type, data, options } = request;
 
-    const docxOptions = {
-      title: options?.template || `${type} Export`,
+    const xlsxOptions = {
+      title: options?.template || 'Cost of Inaction Financial Model',
       subtitle: 'Revenue Intelligence Platform',
       author: 'Revenue Intelligence Platform',
       ...options
     };
 
     switch (type) {
-      case 'icp':
-        return await DOCXGenerator.generateICPAnalysis(data, docxOptions);
-      case 'assessment':
-        return await DOCXGenerator.generateAssessment(data, docxOptions);
-      case 'business_case':
-        return await DOCXGenerator.generateBusinessCase(data, docxOptions);
       case 'cost':
-        return await DOCXGenerator.generateCostCalculator(data, docxOptions);
-      case 'comprehensive':
-        // Generate comprehensive document with all sections
-        return await DOCXGenerator.generateFromSections(data.sections || [], docxOptions);
+        return await XLSXGenerator.generateCostCalculator(data, xlsxOptions);
+      case 'business_case':
+        return await XLSXGenerator.generateBusinessCase(data, xlsxOptions);
       default:
-        throw new Error(`DOCX generation not supported for type: ${type}`);
+        throw new Error(`XLSX generation not supported for type: ${type}`);
     }
   }
 
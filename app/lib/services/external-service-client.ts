@@ -433,6 +433,24 @@ export const SERVICE_CONFIGS = {
     cacheEnabled: false // Don't cache storage operations
   },
   
+  // CRM APIs (HubSpot, Salesforce, Pipedrive) - base URL and auth set per connection
+  crm: {
+    baseURL: '',
+    timeout: 30000,
+    retryConfig: {
+      maxRetries: 2,
+      baseDelay: 1000,
+      maxDelay: 8000,
+      backoffMultiplier: 2
+    },
+    circuitBreaker: {
+      failureThreshold: 5,
+      resetTimeout: 60000,
+      monitoringPeriod: 300000
+    },
+    cacheEnabled: false // Sync reads must see the CRM's current state
+  },
+
   // Generic HTTP service
   generic: {
     baseURL: '',
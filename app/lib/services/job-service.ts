@@ -19,7 +19,7 @@
  * - Includes error handling and result management
  */
 
-import { queue, Job, JobOptions } from '@/app/lib/queue/job-queue';
+import { queue, Job, JobOptions, JobStatus } from '@/app/lib/queue/job-queue';
 import {
   AIProcessingJobData,
   FileGenerationJobData,
@@ -27,10 +27,11 @@ import {
   DataAnalysisJobData
 } from '@/app/lib/queue/processors';
 import { createAPIError, ErrorType } from '@/app/lib/middleware/error-handler';
+import type { ClaudeOperation } from '@/app/lib/services/claudeModelRouting';
 
 export interface JobResult<T = any> {
   jobId: string;
-  status: 'waiting' | 'active' | 'completed' | 'failed' | 'delayed';
+  status: JobStatus;
   progress: number;
   result?: T;
   error?: string;
@@ -58,17 +59,23 @@ export class JobService {
     prompt: string,
     userId: string,
     options: {
+      operation?: ClaudeOperation;
       model?: string;
       maxTokens?: number;
       temperature?: number;
       priority?: number;
       timeout?: number;
+      customerId?: string;
+      role?: string;
     } = {}
   ): Promise<JobResult> {
     const jobData: AIProcessingJobData = {
       prompt,
       userId,
-      model: options.model || 'claude-3-sonnet',
+      customerId: options.customerId,
+      role: options.role,
+      operation: options.operation,
+      model: options.model,
       maxTokens: options.maxTokens || 1000,
       temperature: options.temperature || 0.7
     };
@@ -252,6 +259,8 @@ export class JobService {
       maxTokens?: number;
       temperature?: number;
       timeout?: number;
+      customerId?: string;
+      role?: string;
     } = {}
   ): Promise<T> {
     const jobResult = await this.processWithAI(prompt, userId, options);
@@ -326,7 +335,7 @@ export class JobService {
   async getUserJobs(
     userId: string,
     options: {
-      status?: 'waiting' | 'active' | 'completed' | 'failed' | 'delayed';
+      status?: JobStatus;
       limit?: number;
     } = {}
   ): Promise<JobResult[]> {
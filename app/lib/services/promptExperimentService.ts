@@ -0,0 +1,543 @@
+/**
+ * FUNCTIONALITY STATUS: REAL
+ *
+ * REAL IMPLEMENTATIONS:
+ * - A/B experiments between two versions of a registered prompt
+ * - Deterministic sampling: a request key always lands in the same bucket
+ * - Side-by-side comparisons for sampled requests, shown in random order
+ * - Outcome recording (which version's output the user kept or exported)
+ * - Per-version win rates for the admin prompt endpoints
+ * - Pluggable experiment store (memory for development, Supabase for production)
+ *
+ * FAKE IMPLEMENTATIONS:
+ * - None - all functionality is production-ready
+ *
+ * MISSING REQUIREMENTS:
+ * - Supabase store needs the prompt_experiments and prompt_comparisons
+ *   tables (see SupabasePromptExperimentStore)
+ *
+ * PRODUCTION READINESS: YES
+ * - One running experiment per prompt; starting another stops the first
+ * - Results load every comparison of an experiment, which is fine for the
+ *   sample sizes prompt experiments run at
+ */
+
+import crypto from 'crypto';
+import { createAPIError, ErrorType } from '@/app/lib/middleware/error-handler';
+import promptRegistry, { PromptRegistry } from './promptRegistry';
+
+// ============================================================================
+// EXPERIMENT STORE
+// ============================================================================
+
+export type PromptExperimentStatus = 'running' | 'stopped';
+
+export type PromptOutcomeAction = 'kept' | 'exported';
+
+export const PROMPT_OUTCOME_ACTIONS: PromptOutcomeAction[] = ['kept', 'exported'];
+
+export interface PromptExperiment {
+  id: string;
+  templateId: string;
+  controlVersion: number;
+  candidateVersion: number;
+  sampleRate: number;            // Share of requests compared side by side, 0-1
+  status: PromptExperimentStatus;
+  createdBy?: string;
+  createdAt: number;
+  stoppedAt?: number;
+}
+
+export interface PromptComparison {
+  id: string;
+  experimentId: string;
+  templateId: string;
+  versions: number[];            // In the order they were shown
+  requestKey: string;
+  userId?: string;
+  customerId?: string | null;
+  outcome?: {
+    version: number;
+    action: PromptOutcomeAction;
+    recordedAt: number;
+  };
+  createdAt: number;
+}
+
+export interface PromptExperimentStore {
+  readonly name: string;
+  /** Insert or update an experiment */
+  saveExperiment(experiment: PromptExperiment): Promise<void>;
+  getExperiment(id: string): Promise<PromptExperiment | null>;
+  listExperiments(): Promise<PromptExperiment[]>;
+  /** Insert or update a comparison */
+  saveComparison(comparison: PromptComparison): Promise<void>;
+  getComparison(id: string): Promise<PromptComparison | null>;
+  listComparisons(experimentId: string): Promise<PromptComparison[]>;
+}
+
+/**
+ * Process-local store. Experiments reset on restart, so only use it for development.
+ */
+export class MemoryPromptExperimentStore implements PromptExperimentStore {
+  readonly name = 'memory';
+  private experiments = new Map<string, PromptExperiment>();
+  private comparisons = new Map<string, PromptComparison>();
+
+  async saveExperiment(experiment: PromptExperiment): Promise<void> {
+    this.experiments.set(experiment.id, { ...experiment });
+  }
+
+  async getExperiment(id: string): Promise<PromptExperiment | null> {
+    const experiment = this.experiments.get(id);
+    return experiment ? { ...experiment } : null;
+  }
+
+  async listExperiments(): Promise<PromptExperiment[]> {
+    return [...this.experiments.values()].map(experiment => ({ ...experiment }));
+  }
+
+  async saveComparison(comparison: PromptComparison): Promise<void> {
+    this.comparisons.set(comparison.id, { ...comparison });
+  }
+
+  async getComparison(id: string): Promise<PromptComparison | null> {
+    const comparison = this.comparisons.get(id);
+    return comparison ? { ...comparison } : null;
+  }
+
+  async listComparisons(experimentId: string): Promise<PromptComparison[]> {
+    return [...this.comparisons.values()]
+      .filter(comparison => comparison.experimentId === experimentId)
+      .map(comparison => ({ ...comparison }));
+  }
+
+  clear(): void {
+    this.experiments.clear();
+    this.comparisons.clear();
+  }
+}
+
+/**
+ * Supabase-backed store.
+ *
+ * Expected tables:
+ *   create table prompt_experiments (
+ *     id text primary key,
+ *     template_id text not null,
+ *     control_version integer not null,
+ *     candidate_version integer not null,
+ *     sample_rate numeric(4, 3) not null,
+ *     status text not null default 'running',
+ *     created_by text,
+ *     created_at timestamptz not null default now(),
+ *     stopped_at timestamptz
+ *   );
+ *
+ *   create table prompt_comparisons (
+ *     id text primary key,
+ *     experiment_id text not null references prompt_experiments (id),
+ *     template_id text not null,
+ *     versions integer[] not null,
+ *     request_key text not null,
+ *     user_id text,
+ *     customer_id text,
+ *     outcome_version integer,
+ *     outcome_action text,
+ *     outcome_at timestamptz,
+ *     created_at timestamptz not null default now()
+ *   );
+ *   create index prompt_comparisons_experiment on prompt_comparisons (experiment_id);
+ */
+export class SupabasePromptExperimentStore implements PromptExperimentStore {
+  readonly name = 'supabase';
+
+  async saveExperiment(experiment: PromptExperiment): Promise<void> {
+    const client = await this.client();
+    const { error } = await (client.from('prompt_experiments') as any).upsert({
+      id: experiment.id,
+      template_id: experiment.templateId,
+      control_version: experiment.controlVersion,
+      candidate_version: experiment.candidateVersion,
+      sample_rate: experiment.sampleRate,
+      status: experiment.status,
+      created_by: experiment.createdBy ?? null,
+      created_at: new Date(experiment.createdAt).toISOString(),
+      stopped_at: experiment.stoppedAt ? new Date(experiment.stoppedAt).toISOString() : null
+    });
+
+    if (error) {
+      throw createAPIError(ErrorType.DATABASE, 'Failed to save prompt experiment', 500, { experimentId: experiment.id });
+    }
+  }
+
+  async getExperiment(id: string): Promise<PromptExperiment | null> {
+    const client = await this.client();
+    const { data, error } = await (client.from('prompt_experiments') as any)
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) {
+      throw createAPIError(ErrorType.DATABASE, 'Failed to load prompt experiment', 500, { experimentId: id });
+    }
+
+    return data ? this.toExperiment(data) : null;
+  }
+
+  async listExperiments(): Promise<PromptExperiment[]> {
+    const client = await this.client();
+    const { data, error } = await (client.from('prompt_experiments') as any)
+      .select('*')
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      throw createAPIError(ErrorType.DATABASE, 'Failed to load prompt experiments', 500);
+    }
+
+    return ((data || []) as any[]).map(row => this.toExperiment(row));
+  }
+
+  async saveComparison(comparison: PromptComparison): Promise<void> {
+    const client = await this.client();
+    const { error } = await (client.from('prompt_comparisons') as any).upsert({
+      id: comparison.id,
+      experiment_id: comparison.experimentId,
+      template_id: comparison.templateId,
+      versions: comparison.versions,
+      request_key: comparison.requestKey,
+      user_id: comparison.userId ?? null,
+      customer_id: comparison.customerId ?? null,
+      outcome_version: comparison.outcome?.version ?? null,
+      outcome_action: comparison.outcome?.action ?? null,
+      outcome_at: comparison.outcome ? new Date(comparison.outcome.recordedAt).toISOString() : null,
+      created_at: new Date(comparison.createdAt).toISOString()
+    });
+
+    if (error) {
+      throw createAPIError(ErrorType.DATABASE, 'Failed to save prompt comparison', 500, { comparisonId: comparison.id });
+    }
+  }
+
+  async getComparison(id: string): Promise<PromptComparison | null> {
+    const client = await this.client();
+    const { data, error } = await (client.from('prompt_comparisons') as any)
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) {
+      throw createAPIError(ErrorType.DATABASE, 'Failed to load prompt comparison', 500, { comparisonId: id });
+    }
+
+    return data ? this.toComparison(data) : null;
+  }
+
+  async listComparisons(experimentId: string): Promise<PromptComparison[]> {
+    const client = await this.client();
+    const { data, error } = await (client.from('prompt_comparisons') as any)
+      .select('*')
+      .eq('experiment_id', experimentId);
+
+    if (error) {
+      throw createAPIError(ErrorType.DATABASE, 'Failed to load prompt comparisons', 500, { experimentId });
+    }
+
+    return ((data || []) as any[]).map(row => this.toComparison(row));
+  }
+
+  private toExperiment(row: any): PromptExperiment {
+    return {
+      id: row.id,
+      templateId: row.template_id,
+      controlVersion: row.control_version,
+      candidateVersion: row.candidate_version,
+      sampleRate: Number(row.sample_rate),
+      status: row.status,
+      createdBy: row.created_by ?? undefined,
+      createdAt: Date.parse(row.created_at),
+      stoppedAt: row.stopped_at ? Date.parse(row.stopped_at) : undefined
+    };
+  }
+
+  private toComparison(row: any): PromptComparison {
+    return {
+      id: row.id,
+      experimentId: row.experiment_id,
+      templateId: row.template_id,
+      versions: row.versions,
+      requestKey: row.request_key,
+      userId: row.user_id ?? undefined,
+      customerId: row.customer_id,
+      outcome: row.outcome_action
+        ? { version: row.outcome_version, action: row.outcome_action, recordedAt: Date.parse(row.outcome_at) }
+        : undefined,
+      createdAt: Date.parse(row.created_at)
+    };
+  }
+
+  private async client() {
+    const { supabaseAdmin } = await import('@/app/lib/supabase/admin');
+    return supabaseAdmin;
+  }
+}
+
+/**
+ * Build the store configured through PROMPT_EXPERIMENT_STORE (memory | supabase)
+ */
+export function createPromptExperimentStore(
+  type: string | undefined = process.env.PROMPT_EXPERIMENT_STORE
+): PromptExperimentStore {
+  if (type === 'supabase') {
+    return new SupabasePromptExperimentStore();
+  }
+
+  if (type && type !== 'memory') {
+    console.warn(`⚠️ Unknown PROMPT_EXPERIMENT_STORE "${type}", falling back to memory`);
+  }
+
+  return new MemoryPromptExperimentStore();
+}
+
+// ============================================================================
+// ASSIGNMENTS AND RESULTS
+// ============================================================================
+
+export interface PromptAssignment {
+  templateId: string;
+  /** One version, or two to run side by side */
+  versions: number[];
+  experimentId?: string;
+  comparisonId?: string;
+}
+
+export interface PromptVersionResult {
+  version: number;
+  role: 'control' | 'candidate';
+  kept: number;
+  exported: number;
+  wins: number;
+  win_rate: number;              // Share of decided comparisons, 0-1
+}
+
+export interface PromptExperimentResults {
+  experiment: PromptExperiment;
+  comparisons: number;
+  decided: number;
+  versions: PromptVersionResult[];
+}
+
+/**
+ * Stable 0-1 bucket for a request key within an experiment
+ */
+function sampleBucket(experimentId: string, requestKey: string): number {
+  const hash = crypto.createHash('sha256').update(`${experimentId}:${requestKey}`).digest();
+  return hash.readUInt32BE(0) / 0x100000000;
+}
+
+export class PromptExperimentService {
+  private store: PromptExperimentStore;
+  private registry: PromptRegistry;
+
+  constructor(store: PromptExperimentStore = createPromptExperimentStore(), registry: PromptRegistry = promptRegistry) {
+    this.store = store;
+    this.registry = registry;
+  }
+
+  get storeName(): string {
+    return this.store.name;
+  }
+
+  /**
+   * Start comparing a candidate version against the version served today
+   * (or an explicit control). Stops any experiment already running on the prompt.
+   */
+  async createExperiment(input: {
+    templateId: string;
+    candidateVersion: number;
+    controlVersion?: number;
+    sampleRate?: number;
+    createdBy?: string;
+  }): Promise<PromptExperiment> {
+    const { templateId, candidateVersion, sampleRate = 0.1, createdBy } = input;
+
+    const control = this.registry.get(templateId, input.controlVersion);
+    const candidate = this.registry.get(templateId, candidateVersion);
+
+    if (control.version === candidate.version) {
+      throw createAPIError(ErrorType.VALIDATION, 'Control and candidate must be different versions', 400, { templateId });
+    }
+
+    if (!Number.isFinite(sampleRate) || sampleRate <= 0 || sampleRate > 1) {
+      throw createAPIError(ErrorType.VALIDATION, 'sampleRate must be greater than 0 and at most 1', 400, { sampleRate });
+    }
+
+    const running = await this.getRunningExperiment(templateId);
+    if (running) {
+      await this.stopExperiment(running.id);
+    }
+
+    const experiment: PromptExperiment = {
+      id: `pexp_${crypto.randomUUID()}`,
+      templateId,
+      controlVersion: control.version,
+      candidateVersion: candidate.version,
+      sampleRate,
+      status: 'running',
+      createdBy,
+      createdAt: Date.now()
+    };
+
+    await this.store.saveExperiment(experiment);
+    console.log(`🧪 Prompt experiment started: ${templateId} v${control.version} vs v${candidate.version} (${Math.round(sampleRate * 100)}% of requests)`);
+
+    return experiment;
+  }
+
+  async stopExperiment(experimentId: string): Promise<PromptExperiment> {
+    const experiment = await this.requireExperiment(experimentId);
+
+    if (experiment.status === 'running') {
+      experiment.status = 'stopped';
+      experiment.stoppedAt = Date.now();
+      await this.store.saveExperiment(experiment);
+    }
+
+    return experiment;
+  }
+
+  async listExperiments(): Promise<PromptExperiment[]> {
+    const experiments = await this.store.listExperiments();
+    return experiments.sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  /**
+   * Versions to run for a request. Requests sampled into the prompt's running
+   * experiment get both versions and a comparison to record the outcome on;
+   * all others get the control (or the default version when nothing runs).
+   */
+  async assign(
+    templateId: string,
+    context: { requestKey?: string; userId?: string; customerId?: string | null } = {}
+  ): Promise<PromptAssignment> {
+    const experiment = await this.getRunningExperiment(templateId);
+
+    if (!experiment) {
+      return { templateId, versions: [this.registry.get(templateId).version] };
+    }
+
+    const requestKey = context.requestKey || crypto.randomUUID();
+    if (sampleBucket(experiment.id, requestKey) >= experiment.sampleRate) {
+      return { templateId, versions: [experiment.controlVersion], experimentId: experiment.id };
+    }
+
+    // Alternate which version is shown first so position does not bias the pick
+    const versions = sampleBucket(`${experiment.id}:order`, requestKey) < 0.5
+      ? [experiment.controlVersion, experiment.candidateVersion]
+      : [experiment.candidateVersion, experiment.controlVersion];
+
+    const comparison: PromptComparison = {
+      id: `pcmp_${crypto.randomUUID()}`,
+      experimentId: experiment.id,
+      templateId,
+      versions,
+      requestKey,
+      userId: context.userId,
+      customerId: context.customerId,
+      createdAt: Date.now()
+    };
+
+    await this.store.saveComparison(comparison);
+
+    return { templateId, versions, experimentId: experiment.id, comparisonId: comparison.id };
+  }
+
+  /**
+   * Record which version's output the user kept or exported. A later pick
+   * replaces an earlier one, except that an export is not downgraded to a keep.
+   */
+  async recordOutcome(
+    comparisonId: string,
+    outcome: { version: number; action: PromptOutcomeAction; userId?: string }
+  ): Promise<PromptComparison> {
+    const comparison = await this.store.getComparison(comparisonId);
+    if (!comparison) {
+      throw createAPIError(ErrorType.NOT_FOUND, `Prompt comparison ${comparisonId} not found`, 404, { comparisonId });
+    }
+
+    if (comparison.userId && outcome.userId && comparison.userId !== outcome.userId) {
+      throw createAPIError(ErrorType.AUTHORIZATION, 'Prompt comparison belongs to another user', 403, { comparisonId });
+    }
+
+    if (!comparison.versions.includes(outcome.version)) {
+      throw createAPIError(
+        ErrorType.VALIDATION,
+        `Version ${outcome.version} was not part of this comparison`,
+        400,
+        { comparisonId, versions: comparison.versions }
+      );
+    }
+
+    if (!PROMPT_OUTCOME_ACTIONS.includes(outcome.action)) {
+      throw createAPIError(ErrorType.VALIDATION, `action must be one of: ${PROMPT_OUTCOME_ACTIONS.join(', ')}`, 400);
+    }
+
+    const current = comparison.outcome;
+    if (current?.action === 'exported' && current.version === outcome.version && outcome.action === 'kept') {
+      return comparison;
+    }
+
+    comparison.outcome = { version: outcome.version, action: outcome.action, recordedAt: Date.now() };
+    await this.store.saveComparison(comparison);
+
+    return comparison;
+  }
+
+  /**
+   * Wins per version across the experiment's decided comparisons
+   */
+  async getResults(experimentId: string): Promise<PromptExperimentResults> {
+    const experiment = await this.requireExperiment(experimentId);
+    const comparisons = await this.store.listComparisons(experimentId);
+    const decided = comparisons.filter(comparison => comparison.outcome);
+
+    const tally = (version: number, role: PromptVersionResult['role']): PromptVersionResult => {
+      const won = decided.filter(comparison => comparison.outcome?.version === version);
+      return {
+        version,
+        role,
+        kept: won.filter(comparison => comparison.outcome?.action === 'kept').length,
+        exported: won.filter(comparison => comparison.outcome?.action === 'exported').length,
+        wins: won.length,
+        win_rate: decided.length > 0 ? Number((won.length / decided.length).toFixed(3)) : 0
+      };
+    };
+
+    return {
+      experiment,
+      comparisons: comparisons.length,
+      decided: decided.length,
+      versions: [
+        tally(experiment.controlVersion, 'control'),
+        tally(experiment.candidateVersion, 'candidate')
+      ]
+    };
+  }
+
+  private async getRunningExperiment(templateId: string): Promise<PromptExperiment | null> {
+    const experiments = await this.store.listExperiments();
+    return experiments.find(experiment => experiment.templateId === templateId && experiment.status === 'running') ?? null;
+  }
+
+  private async requireExperiment(experimentId: string): Promise<PromptExperiment> {
+    const experiment = await this.store.getExperiment(experimentId);
+    if (!experiment) {
+      throw createAPIError(ErrorType.NOT_FOUND, `Prompt experiment ${experimentId} not found`, 404, { experimentId });
+    }
+    return experiment;
+  }
+}
+
+// Export singleton instance
+export const promptExperimentService = new PromptExperimentService();
+export default promptExperimentService;
@@ -0,0 +1,153 @@
+/**
+ * Prompt Registry
+ *
+ * Central catalogue of versioned prompt templates (see promptTemplates).
+ * Each version declares its variables and the model it targets; the
+ * declaration is checked against the template text when it is registered
+ * and again against the values supplied when it is rendered. Safe to import
+ * from client components.
+ */
+
+import { createAPIError, ErrorType } from '@/app/lib/middleware/error-handler';
+import { extractVariables, fillVariables, validateVariables } from '@/app/lib/utils/prompt-variables';
+import type { ClaudeOperation } from './claudeModelRouting';
+import { PROMPT_TEMPLATES } from './promptTemplates';
+
+export type PromptPlatform = 'claude' | 'chatgpt' | 'gemini' | 'generic';
+
+export interface PromptTarget {
+  platform: PromptPlatform;
+  operation?: ClaudeOperation;   // Picks the Claude model tier (see claudeModelRouting)
+  model?: string;                // Pins a model instead of the operation's tier
+}
+
+export interface PromptTemplateVersion {
+  id: string;
+  version: number;
+  description: string;
+  target: PromptTarget;
+  template: string;
+  variables: string[];           // Filled when the prompt is rendered
+  placeholders?: string[];       // Left in the prompt for the user to fill
+  draft?: boolean;               // Only served when asked for by version (e.g. experiments)
+}
+
+export interface RenderedPrompt {
+  templateId: string;
+  version: number;
+  prompt: string;
+  target: PromptTarget;
+}
+
+const stripBrackets = (placeholder: string) => placeholder.slice(1, -1);
+
+export class PromptRegistry {
+  private templates = new Map<string, PromptTemplateVersion[]>();
+
+  constructor(templates: PromptTemplateVersion[] = []) {
+    templates.forEach(template => this.register(template));
+  }
+
+  /**
+   * Add a template version. The declared variables and placeholders must
+   * match the ones used in the template text exactly.
+   */
+  register(template: PromptTemplateVersion): void {
+    if (!template.id || !Number.isInteger(template.version) || template.version < 1) {
+      throw createAPIError(ErrorType.VALIDATION, 'Prompt templates need an id and a positive integer version', 400);
+    }
+
+    const versions = this.templates.get(template.id) ?? [];
+    if (versions.some(existing => existing.version === template.version)) {
+      throw createAPIError(ErrorType.VALIDATION, `Prompt ${template.id} v${template.version} is already registered`, 400);
+    }
+
+    const declared = [...template.variables, ...(template.placeholders ?? [])];
+    const used = extractVariables(template.template).map(stripBrackets);
+    const undeclared = used.filter(name => !declared.includes(name));
+    const unused = declared.filter(name => !used.includes(name));
+
+    if (undeclared.length > 0 || unused.length > 0) {
+      throw createAPIError(
+        ErrorType.VALIDATION,
+        `Prompt ${template.id} v${template.version} declares variables that do not match its template`,
+        400,
+        { undeclared, unused }
+      );
+    }
+
+    this.templates.set(
+      template.id,
+      [...versions, template].sort((a, b) => a.version - b.version)
+    );
+  }
+
+  has(id: string, version?: number): boolean {
+    const versions = this.templates.get(id) ?? [];
+    return version === undefined ? versions.length > 0 : versions.some(template => template.version === version);
+  }
+
+  /**
+   * A template version; without a version, the latest one that is not a draft
+   */
+  get(id: string, version?: number): PromptTemplateVersion {
+    const versions = this.templates.get(id) ?? [];
+    const template = version === undefined
+      ? [...versions].reverse().find(candidate => !candidate.draft)
+      : versions.find(candidate => candidate.version === version);
+
+    if (!template) {
+      throw createAPIError(
+        ErrorType.NOT_FOUND,
+        version === undefined ? `Prompt ${id} not found` : `Prompt ${id} v${version} not found`,
+        404,
+        { templateId: id, version }
+      );
+    }
+
+    return template;
+  }
+
+  getVersions(id: string): PromptTemplateVersion[] {
+    return [...(this.templates.get(id) ?? [])];
+  }
+
+  /**
+   * Every registered version, grouped by template id
+   */
+  list(): PromptTemplateVersion[] {
+    return [...this.templates.values()].flat();
+  }
+
+  /**
+   * Fill a template's variables. Placeholders without a value stay in the
+   * prompt; any other missing variable is a validation error.
+   */
+  render(id: string, variables: Record<string, string>, version?: number): RenderedPrompt {
+    const template = this.get(id, version);
+
+    const missing = validateVariables(template.template, variables).missing
+      .map(stripBrackets)
+      .filter(name => !template.placeholders?.includes(name));
+
+    if (missing.length > 0) {
+      throw createAPIError(
+        ErrorType.VALIDATION,
+        `Missing variables for prompt ${id} v${template.version}: ${missing.join(', ')}`,
+        400,
+        { templateId: id, version: template.version, missing }
+      );
+    }
+
+    return {
+      templateId: id,
+      version: template.version,
+      prompt: fillVariables(template.template, variables),
+      target: template.target
+    };
+  }
+}
+
+// Export singleton instance, loaded with the platform's prompts
+export const promptRegistry = new PromptRegistry(PROMPT_TEMPLATES);
+export default promptRegistry;
@@ -0,0 +1,449 @@
+/**
+ * Prompt Templates
+ *
+ * Every prompt the platform sends to Claude or exports for ChatGPT, Claude
+ * and Gemini, loaded into the prompt registry. Variables are filled when the
+ * prompt is rendered; placeholders stay in the text for the user to fill
+ * after copying it.
+ *
+ * To change a prompt, add a new version below the current one instead of
+ * editing it in place. Mark it `draft` to trial it in a prompt experiment
+ * before it becomes the version served by default.
+ */
+
+import type { PromptTemplateVersion } from './promptRegistry';
+
+// ============================================================================
+// ICP GENERATION (Claude)
+// ============================================================================
+
+const ICP_RESOURCES: PromptTemplateVersion[] = [
+  {
+    id: 'icp.resources',
+    version: 1,
+    description: 'ICP personas, insights and recommendations from web research',
+    target: { platform: 'claude', operation: 'icp_generation' },
+    variables: ['PRODUCT_NAME', 'PRODUCT_DESCRIPTION', 'BUSINESS_TYPE', 'RESEARCH_DATA'],
+    template: `Based on the following product and research data, generate comprehensive ICP resources including personas, use cases, and market insights:
+
+Product: [PRODUCT_NAME]
+Description: [PRODUCT_DESCRIPTION]
+Business Type: [BUSINESS_TYPE]
+
+Research Data: [RESEARCH_DATA]
+
+Provide detailed buyer personas (with pain points and goals), market insights by category, prioritized, actionable recommendations, and your confidence in the analysis from 1 to 10.`
+  },
+  {
+    id: 'icp.resources',
+    version: 2,
+    draft: true,
+    description: 'Research-grounded variant: separates product and research, asks for evidence-backed confidence',
+    target: { platform: 'claude', operation: 'icp_generation' },
+    variables: ['PRODUCT_NAME', 'PRODUCT_DESCRIPTION', 'BUSINESS_TYPE', 'RESEARCH_DATA'],
+    template: `You are a B2B go-to-market analyst. Build ICP resources for the product below using only what the research supports.
+
+<product>
+Name: [PRODUCT_NAME]
+Description: [PRODUCT_DESCRIPTION]
+Business type: [BUSINESS_TYPE]
+</product>
+
+<research>
+[RESEARCH_DATA]
+</research>
+
+Deliver:
+1. 2-4 buyer personas, each with a role, defining characteristics, concrete pain points and goals
+2. Market insights grouped by category (opportunity, competition, timing, risks)
+3. Recommendations ranked high, medium or low priority, each one a specific next action
+4. A confidence score from 1 to 10 reflecting how much of the analysis the research backs up
+
+Prefer specifics from the research over generic B2B advice.`
+  }
+];
+
+const ICP_RATING_FRAMEWORK: PromptTemplateVersion[] = [
+  {
+    id: 'icp.rating_framework',
+    version: 1,
+    description: 'Weighted lead rating framework from an ICP and its personas',
+    target: { platform: 'claude', operation: 'icp_generation' },
+    variables: ['ICP_DEFINITION', 'PERSONAS'],
+    template: `Based on the following ICP and personas data, create a comprehensive lead rating framework:
+
+ICP Definition:
+[ICP_DEFINITION]
+
+Personas:
+[PERSONAS]
+
+Please generate:
+1. The framework's scoring method and total points
+2. Weighted rating criteria with a scoring rule for each (weights sum to the total points)
+3. Discovery questions for qualifying leads, grouped by category`
+  }
+];
+
+// ============================================================================
+// TECHNICAL TRANSLATION (Claude)
+// ============================================================================
+
+const TRANSLATION_NARRATIVE: PromptTemplateVersion[] = [
+  {
+    id: 'translation.narrative',
+    version: 1,
+    description: 'Stakeholder narrative built on a template technical translation',
+    target: { platform: 'claude', operation: 'technical_translation' },
+    variables: [
+      'STAKEHOLDER', 'CUSTOMER_NAME', 'INDUSTRY', 'TECHNICAL_INPUT', 'BUSINESS_TRANSLATION',
+      'PAIN_POINT_CONNECTION', 'ROI', 'KEY_METRICS', 'COMPETITIVE_POSITION'
+    ],
+    template: `Write a short, persuasive narrative (2-3 paragraphs) for a [STAKEHOLDER] at [CUSTOMER_NAME], a [INDUSTRY] company, explaining why this technical improvement matters to the business.
+
+Technical improvement: [TECHNICAL_INPUT]
+Business translation: [BUSINESS_TRANSLATION]
+Pain point connection: [PAIN_POINT_CONNECTION]
+ROI: [ROI]
+Key metrics: [KEY_METRICS]
+Competitive position: [COMPETITIVE_POSITION]
+
+Use the [STAKEHOLDER]'s language, lead with the business outcome and keep every number from the inputs above. Plain text only.`
+  },
+  {
+    id: 'translation.narrative',
+    version: 2,
+    draft: true,
+    description: 'Outcome-first variant: one-line headline, then proof, then a call to action',
+    target: { platform: 'claude', operation: 'technical_translation' },
+    variables: [
+      'STAKEHOLDER', 'CUSTOMER_NAME', 'INDUSTRY', 'TECHNICAL_INPUT', 'BUSINESS_TRANSLATION',
+      'PAIN_POINT_CONNECTION', 'ROI', 'KEY_METRICS', 'COMPETITIVE_POSITION'
+    ],
+    template: `You are briefing the [STAKEHOLDER] of [CUSTOMER_NAME], a [INDUSTRY] company, on a technical improvement.
+
+Facts to work from:
+- Technical improvement: [TECHNICAL_INPUT]
+- What it means for the business: [BUSINESS_TRANSLATION]
+- Pain point it addresses: [PAIN_POINT_CONNECTION]
+- ROI: [ROI]
+- Metrics the [STAKEHOLDER] tracks: [KEY_METRICS]
+- Competitive position: [COMPETITIVE_POSITION]
+
+Write three short paragraphs: a one-sentence headline with the business outcome, the evidence behind it using the numbers above exactly, and the decision you are asking the [STAKEHOLDER] to make. Plain text only, no jargon the [STAKEHOLDER] would not use.`
+  }
+];
+
+const TRANSLATION_INDUSTRY_FRAMEWORK: PromptTemplateVersion[] = [
+  {
+    id: 'translation.industry_framework',
+    version: 1,
+    description: 'Draft industry framework (stakeholders, pain points, translation templates) for an industry without one',
+    target: { platform: 'claude', operation: 'technical_translation' },
+    variables: ['INDUSTRY', 'EXAMPLE_FRAMEWORK'],
+    template: `Draft an industry framework that a technical founder can use to translate technical improvements into business language for buyers in the [INDUSTRY] industry.
+
+Include:
+- name: the industry's display name
+- stakeholders: the 4 roles that sign off on purchases in [INDUSTRY], starting with CFO and COO
+- painPoints: 4 pain points keyed by a snake_case id
+- translationTemplates: 3-5 technical improvements common in [INDUSTRY], keyed by a snake_case metric id, each with the technical phrasing, the business outcome, how a CFO measures it (cfoLanguage) and how a COO measures it (cooLanguage)
+
+Match the tone and level of detail of this framework for another industry:
+[EXAMPLE_FRAMEWORK]`
+  }
+];
+
+// ============================================================================
+// SALES PROMPTS (copied into Claude by the user)
+// ============================================================================
+
+const SALES_PROMPTS: PromptTemplateVersion[] = [
+  {
+    id: 'sales.prospect_research',
+    version: 1,
+    description: 'Research a prospect company against the ICP',
+    target: { platform: 'claude' },
+    variables: ['DEMOGRAPHICS', 'PAIN_POINTS', 'DECISION_MAKING'],
+    placeholders: ['COMPANY_NAME', 'INSERT_COMPANY_URL', 'INSERT_INDUSTRY'],
+    template: `You are a sales research specialist. Using this systematic buyer intelligence:
+
+TARGET BUYER PROFILE:
+Demographics: [DEMOGRAPHICS]
+Pain Points: [PAIN_POINTS]
+Decision Making: [DECISION_MAKING]
+
+Research [COMPANY_NAME] and provide:
+1. Fit score (1-10) based on our ICP criteria
+2. Specific pain points they likely experience based on our buyer intelligence
+3. Key stakeholders to target based on decision-making patterns
+4. Recommended approach strategy aligned with buyer preferences
+
+Company to research: [INSERT_COMPANY_URL]
+Industry context: [INSERT_INDUSTRY]
+
+Format your response with clear sections and actionable insights.`
+  },
+  {
+    id: 'sales.value_proposition',
+    version: 1,
+    description: 'Translate the financial impact model into a prospect value proposition',
+    target: { platform: 'claude' },
+    variables: ['METHODOLOGY', 'RESULTS'],
+    placeholders: ['PROSPECT_COMPANY', 'INSERT_INDUSTRY', 'INSERT_CHALLENGES', 'INSERT_TIMELINE'],
+    template: `You are a technical value translator. Using our financial impact model:
+
+OUR SOLUTION IMPACT:
+Methodology: [METHODOLOGY]
+Results: [RESULTS]
+
+For [PROSPECT_COMPANY], translate our technical capabilities into:
+1. Industry-specific business outcomes that resonate with their stakeholders
+2. Quantified financial benefits using our proven calculation methods
+3. Risk mitigation value addressing their specific concerns
+4. Competitive advantages that matter to their decision criteria
+
+Their industry: [INSERT_INDUSTRY]
+Their challenges: [INSERT_CHALLENGES]
+Their decision timeline: [INSERT_TIMELINE]
+
+Use business language that speaks to executives and financial stakeholders.`
+  },
+  {
+    id: 'sales.business_case',
+    version: 1,
+    description: 'Executive business case for a prospect',
+    target: { platform: 'claude' },
+    variables: ['EXECUTIVE_SUMMARY', 'FINANCIAL_JUSTIFICATION', 'RISK_ASSESSMENT'],
+    placeholders: ['PROSPECT_COMPANY', 'INSERT_PROSPECT_CONTEXT', 'INSERT_BUDGET_RANGE', 'INSERT_TIMELINE'],
+    template: `You are an executive business case writer. Using our proven framework:
+
+FRAMEWORK STRUCTURE:
+Executive Summary: [EXECUTIVE_SUMMARY]
+Financial Justification: [FINANCIAL_JUSTIFICATION]
+Risk Assessment: [RISK_ASSESSMENT]
+
+Create a business case for [PROSPECT_COMPANY] that includes:
+1. Executive summary (C-suite focused, results-oriented)
+2. Financial ROI projections with clear payback timeline
+3. Implementation roadmap with realistic milestones
+4. Risk mitigation strategies addressing common concerns
+
+Prospect context: [INSERT_PROSPECT_CONTEXT]
+Budget range: [INSERT_BUDGET_RANGE]
+Implementation timeline: [INSERT_TIMELINE]
+
+Keep language professional and benefit-focused for executive audiences.`
+  },
+  {
+    id: 'sales.objection_handling',
+    version: 1,
+    description: 'Respond to a buyer objection',
+    target: { platform: 'claude' },
+    variables: ['KEY_CONCERNS', 'DECISION_STYLE'],
+    placeholders: ['INSERT_OBJECTION'],
+    template: `You are a sales conversation specialist. Using our buyer intelligence:
+
+BUYER PROFILE:
+Key Concerns: [KEY_CONCERNS]
+Decision Style: [DECISION_STYLE]
+
+For the objection: "[INSERT_OBJECTION]"
+
+Provide:
+1. Root cause analysis of this objection based on buyer psychology
+2. Empathetic acknowledgment that builds trust
+3. Evidence-based response using our success data
+4. Forward momentum question to continue the conversation
+
+Keep responses consultative and focused on the buyer's success.`
+  },
+  {
+    id: 'sales.discovery',
+    version: 1,
+    description: 'Discovery questions for a prospect',
+    target: { platform: 'claude' },
+    variables: ['TARGET_PROFILE', 'PAIN_POINTS', 'DECISION_PROCESS'],
+    placeholders: ['PROSPECT_COMPANY'],
+    template: `You are a discovery conversation specialist. Using our buyer intelligence:
+
+IDEAL BUYER PROFILE:
+Target Profile: [TARGET_PROFILE]
+Known Pain Points: [PAIN_POINTS]
+Decision Process: [DECISION_PROCESS]
+
+Create discovery questions for [PROSPECT_COMPANY] that:
+1. Uncover their specific version of our known pain points
+2. Quantify the business impact of their challenges
+3. Identify all stakeholders in their decision process
+4. Establish urgency and timeline for resolution
+
+Structure as open-ended questions that encourage detailed responses and build trust.`
+  }
+];
+
+// ============================================================================
+// ICP RESEARCH EXTENSION EXPORTS (ChatGPT, Claude, Gemini)
+// ============================================================================
+
+const ICP_EXTENSION_VARIABLES = ['PRODUCT_NAME', 'COMPANY_CLAUSE', 'PRODUCT_DETAILS', 'PERSONAS'];
+
+const ICP_EXTENSION_PROMPTS: PromptTemplateVersion[] = [
+  {
+    id: 'icp.extension.chatgpt',
+    version: 1,
+    description: 'Extend ICP research in ChatGPT: conversational, numbered asks',
+    target: { platform: 'chatgpt' },
+    variables: [...ICP_EXTENSION_VARIABLES, 'PERSONA_COUNT'],
+    template: `I've completed an ICP (Ideal Customer Profile) analysis for [PRODUCT_NAME][COMPANY_CLAUSE] and need your help extending this research.
+
+## Product Overview
+
+**Product Name:** [PRODUCT_NAME]
+[PRODUCT_DETAILS]
+## Generated Buyer Personas
+
+I've identified [PERSONA_COUNT] key buyer personas:
+
+[PERSONAS]---
+
+## What I Need From You
+
+Please help me:
+
+1. **Identify Missing Personas** - Are there 3-5 additional buyer personas I might be missing? Consider secondary stakeholders, influencers, or adjacent roles.
+
+2. **Validate These Personas** - For each persona I've identified, suggest 3-5 interview questions to validate their goals, pain points, and buying behavior.
+
+3. **Create Messaging Variations** - For my top 2 personas, suggest specific messaging angles that would resonate with each stakeholder type.
+
+4. **Competitive Intelligence** - What competitors are these personas likely evaluating? How can I position against them?
+
+5. **Buying Committee Dynamics** - How do these personas typically interact in a buying decision? Who has veto power?
+
+Focus on systematic, data-driven buyer understanding for B2B SaaS founders. Format your response with clear sections and actionable insights.
+`
+  },
+  {
+    id: 'icp.extension.claude',
+    version: 1,
+    description: 'Extend ICP research in Claude: XML-tagged context and analytical tasks',
+    target: { platform: 'claude' },
+    variables: ICP_EXTENSION_VARIABLES,
+    template: `I need your help extending an ICP analysis I've completed for [PRODUCT_NAME][COMPANY_CLAUSE]. I want to validate my buyer persona research and identify gaps in my understanding of the buying committee.
+
+<context>
+## Product Context
+
+**Product:** [PRODUCT_NAME]
+[PRODUCT_DETAILS]
+## Current Buyer Personas
+
+[PERSONAS]</context>
+
+<task>
+Please analyze this ICP research and provide:
+
+## 1. Gap Analysis
+Identify missing personas in the buying committee. Consider:
+- Economic buyers (budget holders)
+- Technical evaluators (champions vs gatekeepers)
+- End users (day-to-day operators)
+- Executive sponsors (strategic alignment)
+
+## 2. Persona Validation Framework
+For each persona I've identified, create:
+- 5 interview questions to validate their goals
+- 3 questions to uncover hidden pain points
+- 2 questions to understand their buying authority
+
+## 3. Competitive Positioning
+For my top 2 personas:
+- What alternative solutions are they likely evaluating?
+- What decision criteria matter most to each persona?
+- How should I differentiate for each stakeholder?
+
+## 4. Buying Committee Dynamics
+Map how these personas interact in a typical B2B buying process:
+- Who initiates the search?
+- Who has veto power?
+- What's the typical decision timeline?
+- Where do deals typically stall?
+
+## 5. Content & Messaging Strategy
+Suggest specific content types for each persona:
+- What format resonates? (case studies, ROI calculators, technical docs, etc.)
+- What messaging themes address their specific motivations?
+- What proof points do they need at each buying stage?
+</task>
+
+Please provide detailed, actionable analysis. Use structured thinking and cite relevant B2B SaaS buying patterns.
+`
+  },
+  {
+    id: 'icp.extension.gemini',
+    version: 1,
+    description: 'Extend ICP research in Gemini: persona summary, then a synthesis-oriented output format',
+    target: { platform: 'gemini' },
+    variables: [...ICP_EXTENSION_VARIABLES, 'PERSONA_COUNT', 'PERSONA_SUMMARY'],
+    template: `# ICP Research Extension: [PRODUCT_NAME]
+
+## Context
+
+I've completed initial buyer persona research for [PRODUCT_NAME][COMPANY_CLAUSE]. I need help validating these personas, identifying gaps, and creating actionable go-to-market strategies.
+
+[PRODUCT_DETAILS]### Identified Buyer Personas ([PERSONA_COUNT])
+
+[PERSONA_SUMMARY]### Detailed Persona Profiles
+
+[PERSONAS]
+## Research & Analysis Needed
+
+### 1. Persona Completeness Check
+- Am I missing critical personas in the buying committee?
+- Who are the hidden influencers or blockers?
+- Should I segment any of these personas further?
+
+### 2. Validation & Interview Strategy
+- What specific questions should I ask in customer interviews to validate each persona?
+- What behavioral signals indicate I've correctly identified their pain points?
+- How can I test if my value proposition resonates with each persona?
+
+### 3. Go-to-Market Execution
+- What content format works best for each persona? (1-pager, demo video, ROI calc, case study, etc.)
+- What messaging angle should I lead with for each stakeholder?
+- Where do I find these personas? (LinkedIn groups, events, communities, etc.)
+
+### 4. Competitive Strategy
+- What alternatives are these personas evaluating?
+- What decision criteria differ between personas?
+- How should I position against competitors for each stakeholder?
+
+### 5. Sales Process Design
+- In what order should I engage these personas?
+- How long does a typical buying cycle take for this type of product?
+- What triggers the initial buyer pain/need?
+- Where do deals typically stall and how can I prevent it?
+
+## Output Format
+
+Please provide:
+1. **Gap Analysis** - Missing personas with rationale
+2. **Interview Script** - Top 10 questions per persona
+3. **Content Matrix** - Content type × Persona × Buying Stage
+4. **Competitive Positioning** - Key differentiators per persona
+5. **Sales Playbook** - Sequence, timing, and stakeholder mapping
+
+Make it actionable for a B2B SaaS founder executing a product-led sales motion.
+`
+  }
+];
+
+export const PROMPT_TEMPLATES: PromptTemplateVersion[] = [
+  ...ICP_RESOURCES,
+  ...ICP_RATING_FRAMEWORK,
+  ...TRANSLATION_NARRATIVE,
+  ...TRANSLATION_INDUSTRY_FRAMEWORK,
+  ...SALES_PROMPTS,
+  ...ICP_EXTENSION_PROMPTS
+];
@@ -6,6 +6,7 @@
  */
 
 import { createClient } from '@/app/lib/supabase/server';
+import { supabaseAdmin } from '@/app/lib/supabase/admin';
 import { 
   Resource, 
   ResourceExport, 
@@ -90,6 +91,18 @@ class ResourceExportService implements IResourceExportService {
       });
 
       console.log(`✅ Resource exported successfully: ${exportRecord.id}`);
+
+      // 7. Let subscribers (e.g. customer webhooks) know the file is ready
+      const { default: eventBus } = await import('@/app/lib/events/EventBus');
+      await eventBus.emit('export_ready', {
+        customerId: resource.customer_id,
+        exportId: exportRecord.id,
+        resourceId,
+        format,
+        downloadUrl: updatedExport.download_url,
+        expiresAt: updatedExport.expires_at
+      });
+
       return updatedExport;
 
     } catch (error) {
@@ -187,15 +200,17 @@ class ResourceExportService implements IResourceExportService {
   }
 
   /**
-   * Clean up expired exports
+   * Clean up expired exports across all customers.
+   * Runs from the scheduled job queue outside any request, so it uses the
+   * service role client rather than the cookie-bound one.
    */
   async cleanupExpiredExports(): Promise<number> {
     console.log('🧹 Cleaning up expired exports');
 
     try {
-      const supabase = await this.getSupabaseClient();
-      const { data: expiredExports, error: selectError } = await supabase
-        .from('resource_exports')
+      const supabase = supabaseAdmin;
+      const { data: expiredExports, error: selectError } = await (supabase
+        .from('resource_exports') as any)
         .select('id, file_path')
         .lt('expires_at', new Date().toISOString());
 
@@ -203,16 +218,16 @@ class ResourceExportService implements IResourceExportService {
 
       let cleanedCount = 0;
 
-      for (const exportRecord of expiredExports || []) {
+      for (const exportRecord of (expiredExports || []) as Array<{ id: string; file_path: string | null }>) {
         try {
           // Delete file from storage
           if (exportRecord.file_path) {
-            await this.deleteFile(exportRecord.file_path);
+            await this.deleteFile(exportRecord.file_path, supabase);
           }
 
           // Delete export record
-          const { error: deleteError } = await supabase
-            .from('resource_exports')
+          const { error: deleteError } = await (supabase
+            .from('resource_exports') as any)
             .delete()
             .eq('id', exportRecord.id);
 
@@ -443,8 +458,8 @@ Generated: ${new Date(resource.created_at).toLocaleDateString()}
     return filePath;
   }
 
-  private async deleteFile(filePath: string): Promise<void> {
-    const supabase = await this.getSupabaseClient();
+  private async deleteFile(filePath: string, client?: typeof supabaseAdmin): Promise<void> {
+    const supabase = client ?? await this.getSupabaseClient();
     const { error } = await supabase.storage
       .from('exports')
       .remove([filePath]);
@@ -163,7 +163,7 @@ Please generate:
 Format the response as structured, actionable content suitable for sales and marketing teams.`;
 
     const response = await claudeAI.complete(prompt, {
-      model: 'claude-3-sonnet',
+      operation: 'icp_generation',
       maxTokens: 4000,
       temperature: 0.7
     });
@@ -196,7 +196,7 @@ Generate 3-5 distinct buyer personas including:
 Make each persona realistic and actionable for sales and marketing teams.`;
 
     const response = await claudeAI.complete(prompt, {
-      model: 'claude-3-sonnet',
+      operation: 'icp_generation',
       maxTokens: 3500,
       temperature: 0.7
     });
@@ -229,7 +229,7 @@ Provide:
 Base the analysis on current market conditions and industry best practices.`;
 
     const response = await claudeAI.complete(prompt, {
-      model: 'claude-3-sonnet',
+      operation: 'analysis',
       maxTokens: 3500,
       temperature: 0.7
     });
@@ -262,7 +262,7 @@ Analyze:
 Provide actionable insights for competitive strategy development.`;
 
     const response = await claudeAI.complete(prompt, {
-      model: 'claude-3-sonnet',
+      operation: 'analysis',
       maxTokens: 3500,
       temperature: 0.7
     });
@@ -5,7 +5,7 @@
  */
 
 import technicalTranslationService from '@/src/lib/services/TechnicalTranslationService';
-import type { BuyerPersona, TranslationResult } from '@/src/lib/services/TechnicalTranslationService';
+import type { BuyerPersona, IndustryFramework, TranslationResult } from '@/src/lib/services/TechnicalTranslationService';
 // Import singleton Supabase client (DO NOT create new instances - causes session conflicts)
 import { supabase } from '@/app/lib/supabase/client';
 
@@ -64,6 +64,11 @@ export async function generateTranslationsForICP(icpData: ICPAnalysisData): Prom
       throw new Error('Failed to generate technical features: Invalid data format');
     }
 
+    // Industries without a built-in framework use a custom or AI-drafted one
+    const framework = technicalTranslationService.getFramework(icpData.industry)
+      ? undefined
+      : await resolveIndustryFramework(icpData.industry);
+
     const translations = [];
 
     // Generate translations for each technical feature
@@ -74,6 +79,7 @@ export async function generateTranslationsForICP(icpData: ICPAnalysisData): Prom
         technicalMetric: feature.name,
         improvement: feature.improvement,
         industry: icpData.industry,
+        framework,
         targetPersonas: personas,
         includeInternalStakeholders: true,
         customerContext: {
@@ -109,6 +115,25 @@ export async function generateTranslationsForICP(icpData: ICPAnalysisData): Prom
   }
 }
 
+/**
+ * Custom framework for an industry, drafted by Claude if the workspace has none
+ */
+async function resolveIndustryFramework(industry: string): Promise<IndustryFramework> {
+  const response = await fetch('/api/technical-translation/frameworks/resolve', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ industry })
+  });
+  const body = await response.json().catch(() => ({}));
+
+  if (!response.ok || !body.success) {
+    throw new Error(body.error?.message || body.error || `No industry framework for "${industry}"`);
+  }
+
+  console.log(`🧭 Using ${body.data.drafted ? 'AI-drafted' : 'custom'} framework "${body.data.framework.name}" for ${industry}`);
+  return body.data.framework;
+}
+
 /**
  * Save technical translations to Supabase
  */
@@ -0,0 +1,410 @@
+/**
+ * FUNCTIONALITY STATUS: REAL
+ *
+ * REAL IMPLEMENTATIONS:
+ * - Per-customer metering of billable events (ICP generation, company ratings,
+ *   PDF/DOCX exports, Claude calls)
+ * - Monthly quota enforcement per RBAC role (ROLE_USAGE_QUOTAS)
+ * - Pluggable usage store (memory for development, Supabase for production)
+ *
+ * FAKE IMPLEMENTATIONS:
+ * - None - all functionality is production-ready
+ *
+ * MISSING REQUIREMENTS:
+ * - Supabase store needs the usage_events table and reserve_usage function
+ *   (see SupabaseUsageStore)
+ *
+ * PRODUCTION READINESS: YES
+ * - reserveUsage checks the quota and records the event in one atomic step,
+ *   so concurrent requests at the boundary cannot overshoot a quota
+ */
+
+import crypto from 'crypto';
+import { createAPIError, ErrorType, APIError } from '@/app/lib/middleware/error-handler';
+import { BILLABLE_EVENTS, BillableEvent, getUsageQuota } from '@/app/lib/middleware/rbac';
+
+export interface UsageRecord {
+  customerId: string;
+  event: BillableEvent;
+  quantity: number;
+  userId?: string;
+  metadata?: Record<string, any>;
+  createdAt: number;
+}
+
+export type UsageCounts = Partial<Record<BillableEvent, number>>;
+
+/**
+ * Append-only event log the quotas are computed from
+ */
+export interface UsageStore {
+  readonly name: string;
+  record(record: UsageRecord): Promise<void>;
+  /** Sum quantities per event for a customer since `since` (ms since epoch) */
+  count(customerId: string, since: number): Promise<UsageCounts>;
+  /**
+   * Atomically record `record` only if the customer's usage of its event
+   * since `since` plus its quantity stays within `limit` (null = unlimited).
+   * Returns the usage before the record and, when it was recorded, its id.
+   */
+  reserve(record: UsageRecord, since: number, limit: number | null): Promise<{ used: number; id?: string }>;
+  /** Delete a reserved record whose metered work did not happen */
+  release(id: string): Promise<void>;
+}
+
+/**
+ * Process-local store. Usage resets on restart, so only use it for development.
+ */
+export class MemoryUsageStore implements UsageStore {
+  readonly name = 'memory';
+  private records: Array<UsageRecord & { id: string }> = [];
+
+  async record(record: UsageRecord): Promise<void> {
+    this.records.push({ ...record, id: crypto.randomUUID() });
+  }
+
+  async count(customerId: string, since: number): Promise<UsageCounts> {
+    return this.sum(customerId, since);
+  }
+
+  async reserve(record: UsageRecord, since: number, limit: number | null): Promise<{ used: number; id?: string }> {
+    // Count and insert without yielding, so concurrent reservations queue up
+    const used = this.sum(record.customerId, since)[record.event] || 0;
+    if (limit !== null && used + record.quantity > limit) {
+      return { used };
+    }
+
+    const id = crypto.randomUUID();
+    this.records.push({ ...record, id });
+    return { used, id };
+  }
+
+  async release(id: string): Promise<void> {
+    this.records = this.records.filter(record => record.id !== id);
+  }
+
+  clear(): void {
+    this.records = [];
+  }
+
+  private sum(customerId: string, since: number): UsageCounts {
+    const counts: UsageCounts = {};
+
+    for (const record of this.records) {
+      if (record.customerId !== customerId || record.createdAt < since) continue;
+      counts[record.event] = (counts[record.event] || 0) + record.quantity;
+    }
+
+    return counts;
+  }
+}
+
+/**
+ * Supabase-backed store.
+ *
+ * Expected table:
+ *   create table usage_events (
+ *     id bigint generated always as identity primary key,
+ *     customer_id text not null,
+ *     user_id text,
+ *     event text not null,
+ *     quantity integer not null default 1,
+ *     metadata jsonb,
+ *     created_at timestamptz not null default now()
+ *   );
+ *   create index usage_events_customer_period on usage_events (customer_id, created_at);
+ *
+ * Quota reservations count and insert under a per customer/event lock:
+ *   create function reserve_usage(
+ *     p_customer_id text, p_user_id text, p_event text, p_quantity integer,
+ *     p_metadata jsonb, p_since timestamptz, p_limit integer
+ *   ) returns table (used bigint, id bigint) language plpgsql as $$
+ *   declare v_used bigint; v_id bigint;
+ *   begin
+ *     perform pg_advisory_xact_lock(hashtext(p_customer_id || ':' || p_event));
+ *     select coalesce(sum(quantity), 0) into v_used from usage_events
+ *       where customer_id = p_customer_id and event = p_event and created_at >= p_since;
+ *     if p_limit is null or v_used + p_quantity <= p_limit then
+ *       insert into usage_events (customer_id, user_id, event, quantity, metadata)
+ *         values (p_customer_id, p_user_id, p_event, p_quantity, p_metadata)
+ *         returning usage_events.id into v_id;
+ *     end if;
+ *     return query select v_used, v_id;
+ *   end $$;
+ */
+export class SupabaseUsageStore implements UsageStore {
+  readonly name = 'supabase';
+  private table: string;
+
+  constructor(table = 'usage_events') {
+    this.table = table;
+  }
+
+  async record(record: UsageRecord): Promise<void> {
+    const client = await this.client();
+    const { error } = await (client.from(this.table) as any).insert({
+      customer_id: record.customerId,
+      user_id: record.userId ?? null,
+      event: record.event,
+      quantity: record.quantity,
+      metadata: record.metadata ?? null,
+      created_at: new Date(record.createdAt).toISOString()
+    });
+
+    if (error) {
+      console.error(`❌ Failed to record usage for ${record.customerId}:`, error);
+    }
+  }
+
+  async count(customerId: string, since: number): Promise<UsageCounts> {
+    const client = await this.client();
+    const { data, error } = await (client.from(this.table) as any)
+      .select('event, quantity')
+      .eq('customer_id', customerId)
+      .gte('created_at', new Date(since).toISOString());
+
+    if (error) {
+      throw createAPIError(ErrorType.DATABASE, 'Failed to load usage', 500, { customerId });
+    }
+
+    const counts: UsageCounts = {};
+    for (const row of (data || []) as Array<{ event: BillableEvent; quantity: number }>) {
+      counts[row.event] = (counts[row.event] || 0) + (row.quantity ?? 1);
+    }
+
+    return counts;
+  }
+
+  async reserve(record: UsageRecord, since: number, limit: number | null): Promise<{ used: number; id?: string }> {
+    const client = await this.client();
+    const { data, error } = await (client as any).rpc('reserve_usage', {
+      p_customer_id: record.customerId,
+      p_user_id: record.userId ?? null,
+      p_event: record.event,
+      p_quantity: record.quantity,
+      p_metadata: record.metadata ?? null,
+      p_since: new Date(since).toISOString(),
+      p_limit: limit
+    });
+
+    if (error) {
+      throw createAPIError(ErrorType.DATABASE, 'Failed to reserve usage', 500, { customerId: record.customerId });
+    }
+
+    const row = (Array.isArray(data) ? data[0] : data) as { used: number | string; id: number | string | null } | undefined;
+    return {
+      used: Number(row?.used ?? 0),
+      id: row?.id == null ? undefined : String(row.id)
+    };
+  }
+
+  async release(id: string): Promise<void> {
+    const client = await this.client();
+    const { error } = await (client.from(this.table) as any).delete().eq('id', id);
+
+    if (error) {
+      console.error(`❌ Failed to release usage reservation ${id}:`, error);
+    }
+  }
+
+  private async client() {
+    const { supabaseAdmin } = await import('@/app/lib/supabase/admin');
+    return supabaseAdmin;
+  }
+}
+
+/**
+ * Build the store configured through USAGE_STORE (memory | supabase)
+ */
+export function createUsageStore(type: string | undefined = process.env.USAGE_STORE): UsageStore {
+  if (type === 'supabase') {
+    return new SupabaseUsageStore();
+  }
+
+  if (type && type !== 'memory') {
+    console.warn(`⚠️ Unknown USAGE_STORE "${type}", falling back to memory`);
+  }
+
+  return new MemoryUsageStore();
+}
+
+export interface BillingPeriod {
+  start: string;
+  end: string;
+}
+
+export interface QuotaStatus {
+  event: BillableEvent;
+  used: number;
+  limit: number | null; // null = unlimited
+  remaining: number | null;
+  allowed: boolean;
+}
+
+/** Result of reserveUsage; `id` is set when the event was recorded */
+export interface UsageReservation {
+  status: QuotaStatus;
+  id?: string;
+}
+
+export interface UsageSummary {
+  customerId: string;
+  role: string;
+  period: BillingPeriod;
+  quotas: Record<BillableEvent, QuotaStatus>;
+}
+
+/**
+ * Calendar month (UTC) containing `now`
+ */
+export function getBillingPeriod(now: number = Date.now()): BillingPeriod {
+  const date = new Date(now);
+  const start = Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1);
+  const end = Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1);
+
+  return {
+    start: new Date(start).toISOString(),
+    end: new Date(end).toISOString()
+  };
+}
+
+export class UsageMeteringService {
+  private store: UsageStore;
+
+  constructor(store: UsageStore = createUsageStore()) {
+    this.store = store;
+  }
+
+  get storeName(): string {
+    return this.store.name;
+  }
+
+  /**
+   * Record a billable event for a customer
+   */
+  async recordUsage(
+    customerId: string,
+    event: BillableEvent,
+    options: { quantity?: number; userId?: string; metadata?: Record<string, any> } = {}
+  ): Promise<void> {
+    await this.store.record({
+      customerId,
+      event,
+      quantity: options.quantity ?? 1,
+      userId: options.userId,
+      metadata: options.metadata,
+      createdAt: Date.now()
+    });
+  }
+
+  /**
+   * Record a billable event only if it fits in the current period's quota,
+   * in one atomic step. Release the reservation if the work then fails.
+   */
+  async reserveUsage(
+    customerId: string,
+    role: string,
+    event: BillableEvent,
+    options: { quantity?: number; userId?: string; metadata?: Record<string, any> } = {}
+  ): Promise<UsageReservation> {
+    const quantity = options.quantity ?? 1;
+    const limit = getUsageQuota(role, event);
+    const { used, id } = await this.store.reserve({
+      customerId,
+      event,
+      quantity,
+      userId: options.userId,
+      metadata: options.metadata,
+      createdAt: Date.now()
+    }, Date.parse(getBillingPeriod().start), limit);
+
+    return { status: this.toStatus(event, used, limit, quantity), id };
+  }
+
+  /**
+   * Give back a reservation whose metered work did not happen
+   */
+  async releaseUsage(reservation: UsageReservation): Promise<void> {
+    if (reservation.id) {
+      await this.store.release(reservation.id);
+    }
+  }
+
+  /**
+   * Check whether `quantity` more events fit in the current period's quota
+   */
+  async checkQuota(customerId: string, role: string, event: BillableEvent, quantity = 1): Promise<QuotaStatus> {
+    const limit = getUsageQuota(role, event);
+    const counts = await this.store.count(customerId, Date.parse(getBillingPeriod().start));
+
+    return this.toStatus(event, counts[event] || 0, limit, quantity);
+  }
+
+  /**
+   * Throw a RATE_LIMIT API error when the quota would be exceeded
+   */
+  async assertQuota(customerId: string, role: string, event: BillableEvent, quantity = 1): Promise<QuotaStatus> {
+    const status = await this.checkQuota(customerId, role, event, quantity);
+    if (!status.allowed) {
+      throw quotaExceededError(status);
+    }
+    return status;
+  }
+
+  /**
+   * Usage and remaining quota for every billable event in the current period
+   */
+  async getUsageSummary(customerId: string, role: string): Promise<UsageSummary> {
+    const period = getBillingPeriod();
+    const counts = await this.store.count(customerId, Date.parse(period.start));
+
+    const quotas = Object.values(BILLABLE_EVENTS).reduce((acc, event) => {
+      acc[event] = this.toStatus(event, counts[event] || 0, getUsageQuota(role, event), 1);
+      return acc;
+    }, {} as Record<BillableEvent, QuotaStatus>);
+
+    return { customerId, role, period, quotas };
+  }
+
+  private toStatus(event: BillableEvent, used: number, limit: number | null, quantity: number): QuotaStatus {
+    return {
+      event,
+      used,
+      limit,
+      remaining: limit === null ? null : Math.max(0, limit - used),
+      allowed: limit === null || used + quantity <= limit
+    };
+  }
+}
+
+/**
+ * 403 when the role has no quota for the event, otherwise 429 telling the
+ * client when the quota resets
+ */
+export function quotaExceededError(status: QuotaStatus): APIError {
+  const label = status.event.replace(/_/g, ' ');
+
+  if (status.limit === 0) {
+    return createAPIError(
+      ErrorType.AUTHORIZATION,
+      `Your plan does not include ${label}`,
+      403,
+      { event: status.event, limit: 0 }
+    );
+  }
+
+  const resetAt = Date.parse(getBillingPeriod().end);
+  const retryAfter = Math.max(1, Math.ceil((resetAt - Date.now()) / 1000));
+
+  return createAPIError(
+    ErrorType.RATE_LIMIT,
+    `Monthly ${label} quota exceeded`,
+    429,
+    { event: status.event, used: status.used, limit: status.limit, resetAt: new Date(resetAt).toISOString() },
+    retryAfter
+  );
+}
+
+// Export singleton instance
+export const usageMeteringService = new UsageMeteringService();
+export default usageMeteringService;
@@ -6,6 +6,7 @@
  * - Role assignment and updates
  * - Subscription status management
  * - Customer ID management
+ * - Export brand profile (logo, palette, font, footer, watermark) in preferences.branding
  * - Profile validation and security
  * 
  * FAKE IMPLEMENTATIONS:
@@ -22,6 +23,12 @@
 
 import { supabase } from '@/app/lib/supabase/client';
 import { ROLES } from '@/app/lib/middleware/rbac';
+import {
+  BrandProfile,
+  BrandingInput,
+  resolveBrandProfile,
+  validateBrandProfile
+} from '@/app/lib/services/export/branding';
 
 export interface UserProfile {
   id: string;
@@ -185,6 +192,36 @@ export class UserProfileService {
     }
   }
   
+  /**
+   * Get the export brand profile, merged over the platform defaults
+   */
+  static async getBrandProfile(userId: string): Promise<BrandProfile> {
+    const profile = await this.getProfile(userId);
+    return resolveBrandProfile(profile?.preferences?.branding);
+  }
+
+  /**
+   * Save the export brand profile alongside the user's other preferences
+   */
+  static async updateBrandProfile(userId: string, branding: BrandingInput): Promise<BrandProfile> {
+    const errors = validateBrandProfile(branding);
+    if (errors.length > 0) {
+      throw new Error(`Invalid brand profile: ${errors.join(', ')}`);
+    }
+
+    const profile = await this.getProfile(userId);
+    if (!profile) {
+      throw new Error('Failed to update brand profile: user profile not found');
+    }
+
+    const resolved = resolveBrandProfile(branding);
+    await this.updateProfile(userId, {
+      preferences: { ...profile.preferences, branding: resolved }
+    });
+
+    return resolved;
+  }
+
   /**
    * Update last login timestamp
    */
@@ -1,11 +1,31 @@
-import webResearchService from './webResearchService';
-
 /**
- * Webhook Service for receiving Make.com completion notifications
- * Manages resource generation status and results storage
+ * FUNCTIONALITY STATUS: REAL
+ *
+ * REAL IMPLEMENTATIONS:
+ * - Server-side generation sessions (status, progress, product data, resources)
+ * - Make.com completion callbacks, authenticated by the inbound webhook framework
+ *   (app/lib/webhooks, source make-core-resources)
+ * - Idempotent webhook processing: a delivery already applied to a session is ignored
+ * - Resume by session id from any browser through /api/generation/sessions
+ * - Pluggable session store (memory for development, Supabase for production)
+ * - Realistic fallback resources (with web research) when Make.com doesn't answer
+ *
+ * FAKE IMPLEMENTATIONS:
+ * - Airtable sync of completed resources is stubbed out (see completeGeneration)
+ *
+ * MISSING REQUIREMENTS:
+ * - Supabase store needs the generation_sessions table (see SupabaseGenerationSessionStore)
+ * - MAKE_WEBHOOK_SECRET shared with the Make.com scenario
+ *
+ * PRODUCTION READINESS: YES
+ * - Sessions are removed a week after their last update by the nightly cleanup job
  */
 
-interface GenerationStatus {
+import crypto from 'crypto';
+import { createAPIError, ErrorType } from '@/app/lib/middleware/error-handler';
+import webResearchService from './webResearchService';
+
+export interface GenerationStatus {
   customerId: string;
   status: 'processing' | 'completed' | 'failed';
   startTime: number;
@@ -21,7 +41,7 @@ interface GenerationStatus {
   };
 }
 
-interface Resource {
+export interface Resource {
   title: string;
   confidence_score: number;
   generation_date: string;
@@ -30,7 +50,7 @@ interface Resource {
   [key: string]: any;
 }
 
-interface ResourceSet {
+export interface ResourceSet {
   icp_analysis: Resource;
   buyer_personas: Resource;
   empathy_map: Resource;
@@ -46,7 +66,7 @@ interface ResourceSet {
   };
 }
 
-interface ProductData {
+export interface ProductData {
   productName?: string;
   businessType?: string;
   productDescription?: string;
@@ -104,88 +124,257 @@ interface ICPTemplate {
   [key: string]: any;
 }
 
-class WebhookService {
-  private generationStatus: Record<string, GenerationStatus> = {};
-  private completedResources: Record<string, ResourceSet> = {};
+
+// ============================================================================
+// SESSION STORE
+// ============================================================================
+
+export interface GenerationSession extends GenerationStatus {
+  id: string;
+  productData?: ProductData;
+  resources?: ResourceSet;
+  /** Ids and payload hashes of webhook deliveries already applied to this session, oldest first */
+  deliveryIds: string[];
+  updatedAt: number;
+}
+
+export interface WebhookReceipt {
+  sessionId?: string;
+  /** rejected: the payload is unusable; failed: storing it failed and a retry may succeed */
+  status: 'stored' | 'duplicate' | 'rejected' | 'failed';
+  error?: string;
+}
+
+export interface GenerationSessionStore {
+  readonly name: string;
+  /** Insert or update a session */
+  save(session: GenerationSession): Promise<void>;
+  get(id: string): Promise<GenerationSession | null>;
+  /** A customer's sessions, most recently started first */
+  listByCustomer(customerId: string, limit: number): Promise<GenerationSession[]>;
+  /** Remove sessions last updated before `cutoff` (epoch ms); returns how many */
+  deleteOlderThan(cutoff: number): Promise<number>;
+}
+
+/**
+ * Process-local store. Sessions reset on restart and aren't shared between
+ * instances, so only use it for development.
+ */
+export class MemoryGenerationSessionStore implements GenerationSessionStore {
+  readonly name = 'memory';
+  private sessions = new Map<string, GenerationSession>();
+
+  async save(session: GenerationSession): Promise<void> {
+    this.sessions.set(session.id, { ...session, deliveryIds: [...session.deliveryIds] });
+  }
+
+  async get(id: string): Promise<GenerationSession | null> {
+    const session = this.sessions.get(id);
+    return session ? { ...session, deliveryIds: [...session.deliveryIds] } : null;
+  }
+
+  async listByCustomer(customerId: string, limit: number): Promise<GenerationSession[]> {
+    return [...this.sessions.values()]
+      .filter(session => session.customerId === customerId)
+      .sort((a, b) => b.startTime - a.startTime)
+      .slice(0, limit)
+      .map(session => ({ ...session, deliveryIds: [...session.deliveryIds] }));
+  }
+
+  async deleteOlderThan(cutoff: number): Promise<number> {
+    let removed = 0;
+    for (const [id, session] of this.sessions) {
+      if (session.updatedAt < cutoff) {
+        this.sessions.delete(id);
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  clear(): void {
+    this.sessions.clear();
+  }
+}
+
+/**
+ * Supabase-backed store.
+ *
+ * Expected table:
+ *   create table generation_sessions (
+ *     id text primary key,
+ *     customer_id text not null,
+ *     status text not null,
+ *     progress integer not null default 0,
+ *     current_step text,
+ *     product_data jsonb,
+ *     resources jsonb,
+ *     delivery_ids text[] not null default '{}',
+ *     airtable_sync jsonb,
+ *     started_at timestamptz not null,
+ *     completed_at timestamptz,
+ *     updated_at timestamptz not null default now()
+ *   );
+ *   create index generation_sessions_customer on generation_sessions (customer_id, started_at desc);
+ */
+export class SupabaseGenerationSessionStore implements GenerationSessionStore {
+  readonly name = 'supabase';
+
+  async save(session: GenerationSession): Promise<void> {
+    const client = await this.client();
+    const { error } = await (client.from('generation_sessions') as any).upsert({
+      id: session.id,
+      customer_id: session.customerId,
+      status: session.status,
+      progress: session.progress,
+      current_step: session.currentStep,
+      product_data: session.productData ?? null,
+      resources: session.resources ?? null,
+      delivery_ids: session.deliveryIds,
+      airtable_sync: session.airtableSync ?? null,
+      started_at: new Date(session.startTime).toISOString(),
+      completed_at: session.completedAt ? new Date(session.completedAt).toISOString() : null,
+      updated_at: new Date(session.updatedAt).toISOString()
+    });
+
+    if (error) {
+      throw createAPIError(ErrorType.DATABASE, 'Failed to save generation session', 500, { sessionId: session.id });
+    }
+  }
+
+  async get(id: string): Promise<GenerationSession | null> {
+    const client = await this.client();
+    const { data, error } = await (client.from('generation_sessions') as any)
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) {
+      throw createAPIError(ErrorType.DATABASE, 'Failed to load generation session', 500, { sessionId: id });
+    }
+
+    return data ? this.toSession(data) : null;
+  }
+
+  async listByCustomer(customerId: string, limit: number): Promise<GenerationSession[]> {
+    const client = await this.client();
+    const { data, error } = await (client.from('generation_sessions') as any)
+      .select('*')
+      .eq('customer_id', customerId)
+      .order('started_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      throw createAPIError(ErrorType.DATABASE, 'Failed to load generation sessions', 500, { customerId });
+    }
+
+    return ((data || []) as any[]).map(row => this.toSession(row));
+  }
+
+  async deleteOlderThan(cutoff: number): Promise<number> {
+    const client = await this.client();
+    const { data, error } = await (client.from('generation_sessions') as any)
+      .delete()
+      .lt('updated_at', new Date(cutoff).toISOString())
+      .select('id');
+
+    if (error) {
+      throw createAPIError(ErrorType.DATABASE, 'Failed to remove old generation sessions', 500);
+    }
+
+    return (data || []).length;
+  }
+
+  private toSession(row: any): GenerationSession {
+    return {
+      id: row.id,
+      customerId: row.customer_id,
+      status: row.status,
+      progress: row.progress,
+      currentStep: row.current_step ?? '',
+      startTime: Date.parse(row.started_at),
+      completedAt: row.completed_at ? Date.parse(row.completed_at) : undefined,
+      airtableSync: row.airtable_sync ?? undefined,
+      productData: row.product_data ?? undefined,
+      resources: row.resources ?? undefined,
+      deliveryIds: row.delivery_ids ?? [],
+      updatedAt: Date.parse(row.updated_at)
+    };
+  }
+
+  private async client() {
+    const { supabaseAdmin } = await import('@/app/lib/supabase/admin');
+    return supabaseAdmin;
+  }
+}
+
+/**
+ * Build the store configured through GENERATION_SESSION_STORE (memory | supabase)
+ */
+export function createGenerationSessionStore(
+  type: string | undefined = process.env.GENERATION_SESSION_STORE
+): GenerationSessionStore {
+  if (type === 'supabase') {
+    return new SupabaseGenerationSessionStore();
+  }
+
+  if (type && type !== 'memory') {
+    console.warn(`⚠️ Unknown GENERATION_SESSION_STORE "${type}", falling back to memory`);
+  }
+
+  return new MemoryGenerationSessionStore();
+}
+
+// ============================================================================
+// WEBHOOK SERVICE
+// ============================================================================
+
+const SESSION_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+const MAX_DELIVERY_IDS = 20;
+
+export class WebhookService {
+  private store: GenerationSessionStore;
+
+  constructor(store: GenerationSessionStore = createGenerationSessionStore()) {
+    this.store = store;
+  }
 
   /**
    * Start a new generation process
    */
-  startGeneration(customerId: string, sessionId?: string): string {
-    const id = sessionId || Date.now().toString();
-    
-    // Clear any existing resources for this session to prevent cache conflicts
+  async startGeneration(customerId: string, sessionId?: string, productData?: ProductData): Promise<string> {
+    const id = sessionId || `gen_${crypto.randomUUID()}`;
+
+    const existing = sessionId ? await this.store.get(id) : null;
+    if (existing && existing.customerId !== customerId) {
+      throw createAPIError(ErrorType.AUTHORIZATION, 'Generation session belongs to another customer', 403, { sessionId: id });
+    }
+
+    // Restarting a session replaces its resources and forgets applied deliveries
     console.log(`🧹 Starting fresh generation for session: ${id}`);
-    delete this.completedResources[id];
-    
-    this.generationStatus[id] = {
+    const now = Date.now();
+    await this.store.save({
+      id,
       customerId,
       status: 'processing',
-      startTime: Date.now(),
+      startTime: now,
       progress: 0,
-      currentStep: 'Initializing AI engines...'
-    };
-    
-    // Store session ID in localStorage for persistence (with quota handling)
-    if (typeof window !== 'undefined') {
-      try {
-        // Clear old resources to free up space and remove stale data for this session
-        this.cleanupOldResources();
-        localStorage.removeItem(`resources_${id}`); // Clear any existing resources for this session
-        localStorage.setItem('current_generation_id', id);
-      } catch (e) {
-        console.warn('localStorage quota exceeded, continuing without persistence:', e);
-        // Continue without localStorage - the process will still work
-      }
-    }
-    
+      currentStep: 'Initializing AI engines...',
+      productData,
+      deliveryIds: [],
+      updatedAt: now
+    });
+
     return id;
   }
-  
-  /**
-   * Clean up old resources from localStorage to prevent quota issues
-   */
-  private cleanupOldResources(): void {
-    if (typeof window === 'undefined') return;
-    
-    const keysToRemove: string[] = [];
-    const oneWeekAgo = Date.now() - (7 * 24 * 60 * 60 * 1000);
-    
-    for (const key in localStorage) {
-      // Remove old resource data
-      if (key.startsWith('resources_') || key.startsWith('pendingSalesSage')) {
-        try {
-          const data = JSON.parse(localStorage.getItem(key) || '{}');
-          if (data.timestamp && new Date(data.timestamp).getTime() < oneWeekAgo) {
-            keysToRemove.push(key);
-          }
-        } catch {
-          // If we can't parse it, it's probably old/corrupted, remove it
-          keysToRemove.push(key);
-        }
-      }
-    }
-    
-    // Remove old keys
-    keysToRemove.forEach(key => localStorage.removeItem(key));
-    
-    // If still having issues, remove the oldest resources
-    if (keysToRemove.length === 0) {
-      const resourceKeys = Object.keys(localStorage).filter(k => k.startsWith('resources_'));
-      if (resourceKeys.length > 5) {
-        // Keep only the 5 most recent
-        resourceKeys.slice(0, -5).forEach(key => localStorage.removeItem(key));
-      }
-    }
-  }
 
   /**
    * Update generation progress (called by timer or webhook)
    */
-  updateProgress(sessionId: string, progress: number, currentStep: string): void {
-    if (this.generationStatus[sessionId]) {
-      this.generationStatus[sessionId].progress = progress;
-      this.generationStatus[sessionId].currentStep = currentStep;
+  async updateProgress(sessionId: string, progress: number, currentStep: string): Promise<void> {
+    const session = await this.store.get(sessionId);
+    if (session?.status === 'processing') {
+      await this.store.save({ ...session, progress, currentStep, updatedAt: Date.now() });
     }
   }
 
@@ -193,177 +382,132 @@ class WebhookService {
    * Complete generation process (called by webhook or timer)
    */
   async completeGeneration(sessionId: string, resources?: ResourceSet): Promise<boolean> {
-    if (this.generationStatus[sessionId]) {
-      this.generationStatus[sessionId].status = 'completed';
-      this.generationStatus[sessionId].progress = 100;
-      this.generationStatus[sessionId].completedAt = Date.now();
-      
-      // Store completed resources
-      this.completedResources[sessionId] = resources || this.getMockResources();
-      
-      // Also store in localStorage for persistence (with error handling)
-      if (typeof window !== 'undefined') {
-        try {
-          // Clean up old data first
-          this.cleanupOldResources();
-          localStorage.setItem(`resources_${sessionId}`, JSON.stringify(this.completedResources[sessionId]));
-        } catch (e) {
-          console.warn('Could not persist to localStorage:', e);
-          // Resources are still available in memory
-        }
-      }
+    const session = await this.store.get(sessionId);
+    if (!session) {
+      return false;
+    }
 
-      // Sync generated resources to Airtable customer record
-      try {
-        const customerId = this.generationStatus[sessionId]?.customerId;
-        console.log('🔍 Checking Airtable sync for session:', sessionId, 'customer:', customerId);
-        
-        const testCustomerId = process.env.NEXT_PUBLIC_TEST_CUSTOMER_ID || 'CUST_0001';
-        if (customerId && customerId !== testCustomerId) { // Skip test customer
-          console.log('🔄 Syncing generated resources to Airtable for:', customerId);
-          console.log('📦 Resources to sync:', Object.keys(this.completedResources[sessionId] || {}));
-          
-          // Note: airtableService would need to be imported and adapted for TypeScript
-          // For now, commented out to avoid import issues
-          /*
-          const syncResult = await airtableService.syncGeneratedResourcesToAirtable(customerId, this.completedResources[sessionId]);
-          
-          if (syncResult.success) {
-            console.log('✅ Successfully synced to Airtable:', syncResult.updatedFields?.join(', '));
-            
-            // Store sync status in the session
-            this.generationStatus[sessionId].airtableSync = {
-              success: true,
-              syncedAt: Date.now(),
-              updatedFields: syncResult.updatedFields
-            };
-
-            // Trigger UserIntelligenceContext refresh via event
-            if (typeof window !== 'undefined') {
-              window.dispatchEvent(new CustomEvent('airtableDataUpdated', { 
-                detail: { 
-                  customerId, 
-                  updatedFields: syncResult.updatedFields,
-                  sessionId 
-                } 
-              }));
-            }
-          } else {
-            console.warn('⚠️ Airtable sync failed:', syncResult.error);
-            this.generationStatus[sessionId].airtableSync = {
-              success: false,
-              error: syncResult.error,
-              attemptedAt: Date.now()
-            };
-          }
-          */
+    const completed: GenerationSession = {
+      ...session,
+      status: 'completed',
+      progress: 100,
+      currentStep: 'Resources ready',
+      completedAt: Date.now(),
+      resources: resources || this.getMockResources()
+    };
+
+    // Sync generated resources to Airtable customer record
+    try {
+      const customerId = completed.customerId;
+      console.log('🔍 Checking Airtable sync for session:', sessionId, 'customer:', customerId);
+
+      const testCustomerId = process.env.NEXT_PUBLIC_TEST_CUSTOMER_ID || 'CUST_0001';
+      if (customerId && customerId !== testCustomerId) { // Skip test customer
+        console.log('🔄 Syncing generated resources to Airtable for:', customerId);
+        console.log('📦 Resources to sync:', Object.keys(completed.resources || {}));
+
+        // Note: airtableService would need to be imported and adapted for TypeScript
+        // For now, commented out to avoid import issues
+        /*
+        const syncResult = await airtableService.syncGeneratedResourcesToAirtable(customerId, completed.resources);
+
+        if (syncResult.success) {
+          console.log('✅ Successfully synced to Airtable:', syncResult.updatedFields?.join(', '));
+
+          // Store sync status in the session
+          completed.airtableSync = {
+            success: true,
+            syncedAt: Date.now(),
+            updatedFields: syncResult.updatedFields
+          };
         } else {
-          console.log('⏭️ Skipping Airtable sync for test/demo customer');
-        }
-      } catch (error: any) {
-        console.error('❌ Error during Airtable sync:', error);
-        if (this.generationStatus[sessionId]) {
-          this.generationStatus[sessionId].airtableSync = {
+          console.warn('⚠️ Airtable sync failed:', syncResult.error);
+          completed.airtableSync = {
             success: false,
-            error: error.message,
+            error: syncResult.error,
             attemptedAt: Date.now()
           };
         }
+        */
+      } else {
+        console.log('⏭️ Skipping Airtable sync for test/demo customer');
       }
-      
-      return true;
+    } catch (error: any) {
+      console.error('❌ Error during Airtable sync:', error);
+      completed.airtableSync = {
+        success: false,
+        error: error.message,
+        attemptedAt: Date.now()
+      };
     }
-    return false;
+
+    await this.store.save({ ...completed, updatedAt: Date.now() });
+    return true;
+  }
+
+  /**
+   * Full session, including product data and resources
+   */
+  async getSession(sessionId: string): Promise<GenerationSession | null> {
+    return this.store.get(sessionId);
+  }
+
+  /**
+   * A customer's most recent sessions, newest first
+   */
+  async listSessions(customerId: string, limit: number = 10): Promise<GenerationSession[]> {
+    return this.store.listByCustomer(customerId, limit);
   }
 
   /**
    * Get current generation status
    */
-  getStatus(sessionId: string): GenerationStatus | null {
-    return this.generationStatus[sessionId] || null;
+  async getStatus(sessionId: string): Promise<GenerationStatus | null> {
+    const session = await this.store.get(sessionId);
+    if (!session) {
+      return null;
+    }
+
+    return {
+      customerId: session.customerId,
+      status: session.status,
+      startTime: session.startTime,
+      progress: session.progress,
+      currentStep: session.currentStep,
+      completedAt: session.completedAt,
+      airtableSync: session.airtableSync
+    };
   }
 
   /**
-   * Get completed resources - prioritize fresh webhook data over cached localStorage
+   * Get completed resources for a session
    */
   async getResources(sessionId: string): Promise<ResourceSet | null> {
     console.log(`🔍 Getting resources for session: ${sessionId}`);
-    
-    // Check memory first (most recent)
-    if (this.completedResources[sessionId]) {
-      console.log('📦 Found resources in memory');
-      return this.completedResources[sessionId];
-    }
-    
-    // Skip Netlify function check (stateless functions can't share data) - rely on localStorage
-    console.log('ℹ️ Skipping Netlify function check (stateless limitation) - using localStorage approach');
-    
-    if (typeof window === 'undefined') {
+
+    const session = await this.store.get(sessionId);
+    if (!session?.resources) {
       console.log('❌ No resources found for session:', sessionId);
       return null;
     }
-    
-    // Check localStorage as fallback (but check if it's stale)
-    const stored = localStorage.getItem(`resources_${sessionId}`);
-    if (stored) {
-      try {
-        const storedData = JSON.parse(stored);
-        const isStale = storedData._timestamp && (Date.now() - storedData._timestamp) > 300000; // 5 minutes
-        const source = storedData._source || 'unknown';
-        
-        // Enhanced payload analysis for debugging differences
-        const payloadAnalysis = {
-          source,
-          isStale,
-          timestamp: storedData._timestamp,
-          contentSizes: {} as Record<string, number>,
-          contentQuality: {} as Record<string, boolean>,
-          totalSize: stored.length
-        };
-
-        // Analyze resource content sizes and quality
-        if (storedData.icp_analysis?.content) {
-          payloadAnalysis.contentSizes.icp = storedData.icp_analysis.content.length;
-          payloadAnalysis.contentQuality.icpIsRich = storedData.icp_analysis.content.length > 5000;
-        }
-        if (storedData.buyer_personas?.content) {
-          payloadAnalysis.contentSizes.personas = storedData.buyer_personas.content.length;
-          payloadAnalysis.contentQuality.personaIsRich = storedData.buyer_personas.content.length > 3000;
-        }
-        if (storedData.empathy_map?.content) {
-          payloadAnalysis.contentSizes.empathy = storedData.empathy_map.content.length;
-          payloadAnalysis.contentQuality.empathyIsRich = storedData.empathy_map.content.length > 3000;
-        }
-        if (storedData.product_assessment?.content) {
-          payloadAnalysis.contentSizes.assessment = storedData.product_assessment.content.length;
-          payloadAnalysis.contentQuality.assessmentIsRich = storedData.product_assessment.content.length > 3000;
-        }
 
-        console.log(`📋 Found localStorage resources:`, payloadAnalysis);
-        
-        if (!isStale || !storedData._timestamp) {
-          // Remove metadata before returning
-          const { _timestamp, _source, ...resources } = storedData;
-          // Cache in memory for faster access
-          this.completedResources[sessionId] = resources as ResourceSet;
-          return resources as ResourceSet;
-        } else {
-          console.log('🗑️ Removing stale localStorage resources');
-          localStorage.removeItem(`resources_${sessionId}`);
-        }
-      } catch (parseError) {
-        console.error('❌ Error parsing stored resources:', parseError);
-        localStorage.removeItem(`resources_${sessionId}`);
-      }
+    return session.resources;
+  }
+
+  /**
+   * Remove sessions nobody has touched for a week (scheduled nightly)
+   */
+  async cleanupExpiredSessions(maxAge: number = SESSION_RETENTION_MS): Promise<number> {
+    const removed = await this.store.deleteOlderThan(Date.now() - maxAge);
+    if (removed > 0) {
+      console.log(`🧹 Removed ${removed} expired generation sessions`);
     }
-    
-    console.log('❌ No resources found for session:', sessionId);
-    return null;
+    return removed;
   }
 
   /**
    * Simulate webhook reception (for local development)
-   * In production, this would be an actual API endpoint
+   * In production, Make.com calls /api/webhook/core-resources
    */
   simulateWebhookCompletion(sessionId: string, delay: number = 120000): void {
     setTimeout(async () => {
@@ -421,48 +565,66 @@ class WebhookService {
   }
 
   /**
-   * Production webhook endpoint URL for Make.com to call
-   * Now includes a direct localStorage method for immediate storage
+   * Webhook endpoint URL for the Make.com scenario to call
    */
   getWebhookUrl(): string {
-    if (typeof window !== 'undefined') {
-      // Use Netlify function in production
-      if (window.location.hostname === 'platform.andru-ai.com') {
-        return 'https://platform.andru-ai.com/.netlify/functions/core-resources-webhook';
-      }
-    }
-    // Fallback to localhost for development
-    return 'http://localhost:3001/api/webhook/core-resources';
+    const baseUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
+    return `${baseUrl.replace(/\/$/, '')}/api/webhook/core-resources`;
   }
 
   /**
-   * Direct webhook receiver for client-side storage
-   * This bypasses the stateless Netlify function issue
+   * Store a Make.com completion callback on its session. Signature, replay and
+   * schema checks happen before this, in the make-core-resources webhook source.
+   *
+   * Idempotent: a delivery (the x-webhook-id header, the payload's delivery_id,
+   * or else a hash of the payload) is applied to a session at most once, so
+   * Make.com retries don't overwrite resources or restart anything. The
+   * payload hash is recorded as well, so the same payload resent under a new
+   * delivery id is a duplicate too.
    */
-  receiveWebhookData(data: any): boolean {
-    const sessionId = data.session_id || data.sessionId;
+  async receiveWebhookData(data: any, options: { deliveryId?: string } = {}): Promise<WebhookReceipt> {
+    const sessionId = data?.session_id || data?.sessionId;
     if (!sessionId) {
       console.error('No session ID in webhook data');
-      return false;
+      return { status: 'rejected', error: 'No session ID in webhook data' };
     }
 
+    const payloadHash = crypto.createHash('sha256').update(JSON.stringify(data)).digest('hex');
+    const deliveryId = options.deliveryId || data.delivery_id || payloadHash;
+    const deliveryKeys = [...new Set([deliveryId, payloadHash])];
+
     try {
+      const session = await this.store.get(sessionId);
+      if (deliveryKeys.some(key => session?.deliveryIds.includes(key))) {
+        console.log(`↩️ Webhook delivery ${deliveryId} already applied to session ${sessionId}`);
+        return { sessionId, status: 'duplicate' };
+      }
+
       // Transform webhook data to our format
       const resources = this.transformMakeComData(data);
-      
-      // Store immediately in localStorage and memory
-      this.completedResources[sessionId] = resources;
-      
-      if (typeof window !== 'undefined') {
-        this.cleanupOldResources();
-        localStorage.setItem(`resources_${sessionId}`, JSON.stringify(resources));
-      }
-      
+      const now = Date.now();
+
+      await this.store.save({
+        // Callbacks for sessions this store never saw (started before a deploy) still land
+        ...(session ?? {
+          id: sessionId,
+          customerId: data.customer_id || data.customerId || 'CUST_UNKNOWN',
+          startTime: now
+        }),
+        status: 'completed',
+        progress: 100,
+        currentStep: 'Resources ready',
+        completedAt: now,
+        resources,
+        deliveryIds: [...(session?.deliveryIds ?? []), ...deliveryKeys].slice(-MAX_DELIVERY_IDS),
+        updatedAt: now
+      });
+
       console.log('✅ Webhook data received and stored for session:', sessionId);
-      return true;
+      return { sessionId, status: 'stored' };
     } catch (error: any) {
       console.error('Error processing webhook data:', error);
-      return false;
+      return { sessionId, status: 'failed', error: error.message };
     }
   }
 
@@ -532,8 +694,8 @@ class WebhookService {
   }
 
   /**
-   * Poll for completion from webhook server
-   * Enhanced with localStorage priority and faster fallback
+   * Poll the session store until the webhook delivers resources, falling back
+   * to realistic resources built from the session's product data
    */
   async pollForCompletion(sessionId: string, maxAttempts: number = 60, interval: number = 15000): Promise<ResourceSet> {
     let attempts = 0;
@@ -543,10 +705,12 @@ class WebhookService {
         attempts++;
         
         try {
-          const resources = await this.getResources(sessionId);
-          if (resources) {
-            await this.completeGeneration(sessionId, resources);
-            resolve(resources);
+          const session = await this.store.get(sessionId);
+          if (session?.resources) {
+            if (session.status !== 'completed') {
+              await this.completeGeneration(sessionId, session.resources);
+            }
+            resolve(session.resources);
             return;
           }
         } catch (error: any) {
@@ -558,19 +722,7 @@ class WebhookService {
         if (attempts >= Math.min(maxAttempts, 15)) {
           console.log('⏰ Polling timeout after 225 seconds - generating realistic resources based on product input');
           
-          // Try to get product data from localStorage for realistic generation
-          let productData: ProductData = {};
-          
-          if (typeof window !== 'undefined') {
-            const storedProductData = localStorage.getItem('currentProductData');
-            if (storedProductData) {
-              try {
-                productData = JSON.parse(storedProductData);
-              } catch (e) {
-                console.warn('Could not parse stored product data, using defaults');
-              }
-            }
-          }
+          const productData = (await this.store.get(sessionId).catch(() => null))?.productData ?? {};
           
           console.log('🚀 Using Enhanced Fallback System with web research');
           const enhancedResources = await this.generateEnhancedRealisticResources(productData);
@@ -589,26 +741,20 @@ class WebhookService {
 
   /**
    * Alternative: Force completion with realistic resources
-   * This can be called when Make.com webhook completes but Netlify functions fail
+   * This can be called when the Make.com webhook never arrives
    * Ensures Airtable sync happens for fallback data
    */
   async forceCompleteWithRealisticData(sessionId: string, productData: ProductData): Promise<ResourceSet> {
     console.log('🎯 Forcing completion with realistic data for session:', sessionId);
     
-    // Ensure generation status exists with customer ID
-    if (!this.generationStatus[sessionId]) {
-      console.warn('⚠️ Generation status not found for session, creating minimal status');
-      this.generationStatus[sessionId] = {
-        customerId: productData.customerId || 'CUST_UNKNOWN',
-        status: 'processing',
-        startTime: Date.now(),
-        progress: 0,
-        currentStep: 'Initializing...'
-      };
+    // Ensure the session exists with a customer ID
+    const session = await this.store.get(sessionId);
+    if (!session) {
+      console.warn('⚠️ Generation session not found, creating minimal session');
+      await this.startGeneration(productData.customerId || 'CUST_UNKNOWN', sessionId, productData);
     }
     
-    const customerId = this.generationStatus[sessionId]?.customerId;
-    console.log('👤 Customer ID for fallback sync:', customerId);
+    console.log('👤 Customer ID for fallback sync:', session?.customerId ?? productData.customerId);
     
     console.log('🚀 Using Enhanced Fallback System with web research for force completion');
     const enhancedResources = await this.generateEnhancedRealisticResources(productData);
@@ -1249,11 +1395,6 @@ ${productName} shows strong market potential with clear customer demand. Recomme
 }
 
 // Create singleton instance
-const webhookService = new WebhookService();
-
-// Make available globally for debugging
-if (typeof window !== 'undefined') {
-  (window as any).webhookService = webhookService;
-}
+export const webhookService = new WebhookService();
 
 export default webhookService;
\ No newline at end of file
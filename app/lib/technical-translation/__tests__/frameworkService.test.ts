@@ -0,0 +1,144 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Industry Framework Tests
+ *
+ * - The translator uses custom frameworks and no longer falls back to healthcare
+ * - Custom frameworks are validated and can't replace built-in ones
+ * - Export files import into another workspace; existing ids need overwrite
+ * - Unknown industries get a framework drafted once, then reused
+ */
+
+import { getUserPermissions, getWorkspacePermissions } from '@/app/lib/middleware/rbac';
+import technicalTranslationService, {
+  BuyerPersona,
+  IndustryFramework,
+  UnknownIndustryError
+} from '@/src/lib/services/TechnicalTranslationService';
+import {
+  FrameworkActor,
+  FrameworkDrafter,
+  IndustryFrameworkService,
+  MemoryIndustryFrameworkStore
+} from '../frameworkService';
+
+const CYBERSECURITY: IndustryFramework = {
+  name: 'Cybersecurity',
+  stakeholders: ['CFO', 'COO', 'CISO'],
+  painPoints: { alert_fatigue: 'Analysts buried in false positives' },
+  translationTemplates: {
+    detection_speed: {
+      technical: 'threat detection speed',
+      business: 'shortens breach exposure and incident costs',
+      cfoLanguage: 'cost per contained incident',
+      cooLanguage: 'mean time to respond'
+    }
+  }
+};
+
+const PERSONA: BuyerPersona = {
+  id: 'persona_ciso',
+  name: 'Priya Shah',
+  title: 'CISO',
+  role: 'CTO',
+  goals: ['Cut incident response time'],
+  painPoints: ['Alert fatigue'],
+  values: ['Risk reduction']
+};
+
+const solo: FrameworkActor = {
+  userId: 'user_solo',
+  customerId: 'cust_solo',
+  role: 'premium',
+  scope: { workspaceId: null, workspaceRole: null, ownerId: 'cust_solo', permissions: getUserPermissions('premium') }
+};
+
+const workspaceActor = (workspaceRole: 'member' | 'viewer'): FrameworkActor => ({
+  userId: `user_${workspaceRole}`,
+  customerId: `cust_${workspaceRole}`,
+  role: 'premium',
+  scope: {
+    workspaceId: 'ws_acme',
+    workspaceRole,
+    ownerId: 'ws_acme',
+    permissions: getWorkspacePermissions('premium', workspaceRole)
+  }
+});
+
+describe('TechnicalTranslationService industry frameworks', () => {
+  const translate = (industry: string, framework?: IndustryFramework) => technicalTranslationService.translateTechnicalMetric({
+    technicalMetric: 'detection_speed',
+    improvement: '4x faster',
+    industry,
+    framework,
+    targetPersonas: [PERSONA]
+  });
+
+  it('translates with a custom framework and rejects unknown industries', () => {
+    expect(translate('cybersecurity', CYBERSECURITY)).toMatchObject({
+      industry: 'Cybersecurity',
+      businessTranslation: 'shortens breach exposure and incident costs'
+    });
+    expect(translate('Logistics & Supply Chain').industry).toBe('Logistics & Supply Chain');
+    expect(() => translate('cybersecurity')).toThrow(UnknownIndustryError);
+  });
+});
+
+describe('IndustryFrameworkService', () => {
+  let service: IndustryFrameworkService;
+  let drafter: jest.MockedFunction<FrameworkDrafter>;
+
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  beforeEach(() => {
+    drafter = jest.fn<ReturnType<FrameworkDrafter>, Parameters<FrameworkDrafter>>(async industry => ({ ...CYBERSECURITY, name: industry }));
+    service = new IndustryFrameworkService(new MemoryIndustryFrameworkStore(), drafter);
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('validates frameworks and keeps built-in ids reserved', async () => {
+    const created = await service.createFramework(solo, { framework: CYBERSECURITY });
+    expect(created).toMatchObject({ id: 'cybersecurity', source: 'manual', workspaceId: null });
+
+    await expect(service.createFramework(solo, { framework: CYBERSECURITY })).rejects.toMatchObject({ statusCode: 409 });
+    await expect(service.createFramework(solo, { id: 'healthcare', framework: CYBERSECURITY })).rejects.toMatchObject({ statusCode: 409 });
+    await expect(service.createFramework(solo, {
+      framework: { ...CYBERSECURITY, name: 'Edtech', translationTemplates: {} }
+    })).rejects.toMatchObject({ statusCode: 400 });
+    await expect(service.createFramework(workspaceActor('viewer'), { framework: CYBERSECURITY })).rejects.toMatchObject({ statusCode: 403 });
+  });
+
+  it('exports frameworks that import into another workspace', async () => {
+    await service.createFramework(solo, { framework: CYBERSECURITY });
+    const file = JSON.parse(JSON.stringify(await service.exportFrameworks(solo)));
+    expect(file).toMatchObject({ format: 'industry-frameworks', version: 1, frameworks: [{ id: 'cybersecurity' }] });
+
+    const member = workspaceActor('member');
+    expect(await service.importFrameworks(member, file)).toMatchObject({ created: ['cybersecurity'], updated: [] });
+    expect((await service.listFrameworks(member))[0]).toMatchObject({ source: 'imported', framework: CYBERSECURITY });
+
+    await expect(service.importFrameworks(member, file)).rejects.toMatchObject({ statusCode: 409 });
+    expect(await service.importFrameworks(member, file, { overwrite: true })).toMatchObject({ updated: ['cybersecurity'] });
+    await expect(service.importFrameworks(member, { ...file, frameworks: [{ name: 'Broken' }] })).rejects.toMatchObject({ statusCode: 400 });
+  });
+
+  it('drafts a framework for an unknown industry once and reuses it', async () => {
+    expect(await service.resolveFramework(solo, 'Healthcare & Medical')).toMatchObject({ id: 'healthcare', builtIn: true, drafted: false });
+
+    const drafted = await service.resolveFramework(solo, 'Clean Energy');
+    expect(drafted).toMatchObject({ id: 'clean_energy', builtIn: false, source: 'ai_drafted', drafted: true });
+    expect(drafter).toHaveBeenCalledWith('Clean Energy', expect.objectContaining({ name: 'Healthcare & Medical' }), solo);
+
+    expect(await service.resolveFramework(solo, 'clean energy')).toMatchObject({ id: 'clean_energy', drafted: false });
+    expect(drafter).toHaveBeenCalledTimes(1);
+
+    await expect(service.resolveFramework(workspaceActor('viewer'), 'Clean Energy')).rejects.toMatchObject({ statusCode: 403 });
+  });
+});
@@ -0,0 +1,22 @@
+/**
+ * Industry Framework Actor
+ *
+ * Who is working on industry frameworks in a request, and in which workspace.
+ */
+
+import { NextRequest } from 'next/server';
+import type { AuthContext } from '@/app/lib/middleware/auth';
+import { getUsageCustomerId } from '@/app/lib/middleware/usage-quota';
+import { resolveWorkspaceScope } from '@/app/lib/workspaces/scope';
+import type { FrameworkActor } from './frameworkService';
+
+export async function resolveFrameworkActor(request: NextRequest, auth: AuthContext): Promise<FrameworkActor> {
+  const customerId = getUsageCustomerId(auth);
+
+  return {
+    userId: auth.user.id,
+    customerId,
+    role: auth.user.role,
+    scope: await resolveWorkspaceScope(request, auth.user, customerId)
+  };
+}
@@ -0,0 +1,492 @@
+/**
+ * FUNCTIONALITY STATUS: REAL
+ *
+ * REAL IMPLEMENTATIONS:
+ * - Custom industry frameworks (stakeholders, pain points, translation
+ *   templates with CFO/COO language) for the technical translator, kept per
+ *   workspace or personal account
+ * - JSON import and export (frameworks.ts) with validation of every framework
+ * - Industry resolution: custom framework, else built-in, else a framework
+ *   drafted by Claude and saved for review, instead of falling back to healthcare
+ * - Pluggable persistence (memory for development, Supabase for production)
+ *
+ * FAKE IMPLEMENTATIONS:
+ * - Drafted frameworks are generic samples when Claude isn't configured
+ *
+ * MISSING REQUIREMENTS:
+ * - Supabase store needs the industry_frameworks table (see SupabaseIndustryFrameworkStore)
+ * - Translations already saved by technicalTranslationIntegration keep the
+ *   framework they were made with
+ *
+ * PRODUCTION READINESS: YES
+ * - Custom ids can't shadow built-in frameworks, so shared exports translate
+ *   the same way in every workspace
+ */
+
+import { createAPIError, ErrorType } from '@/app/lib/middleware/error-handler';
+import { PERMISSIONS } from '@/app/lib/middleware/rbac';
+import { WorkspaceScope, requireScopePermission } from '@/app/lib/workspaces/scope';
+import technicalTranslationService, { toIndustryId } from '@/src/lib/services/TechnicalTranslationService';
+import type { IndustryFramework } from '@/src/lib/services/TechnicalTranslationService';
+import {
+  FrameworkExport,
+  ParsedFramework,
+  buildFrameworkExport,
+  parseFrameworkImport,
+  parseIndustryFramework
+} from './frameworks';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type FrameworkSource = 'manual' | 'imported' | 'ai_drafted';
+
+export interface CustomIndustryFramework {
+  /** Industry id, unique per owner ("financial_services") */
+  id: string;
+  /** Workspace id, or the personal id for personal frameworks */
+  ownerId: string;
+  workspaceId: string | null;
+  framework: IndustryFramework;
+  /** Where the current content came from; edits make it manual */
+  source: FrameworkSource;
+  createdBy: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface FrameworkActor {
+  userId: string;
+  customerId: string;
+  role: string;
+  scope: WorkspaceScope;
+}
+
+/** The framework the translator should use for an industry */
+export interface ResolvedFramework {
+  id: string;
+  framework: IndustryFramework;
+  builtIn: boolean;
+  source?: FrameworkSource;
+  /** Drafted by Claude for this request */
+  drafted: boolean;
+}
+
+export interface FrameworkImportResult {
+  created: string[];
+  updated: string[];
+  frameworks: CustomIndustryFramework[];
+}
+
+/** Drafts a framework for an industry, modelled on an example one */
+export type FrameworkDrafter = (
+  industry: string,
+  example: IndustryFramework,
+  actor: FrameworkActor
+) => Promise<IndustryFramework>;
+
+// ============================================================================
+// STORES
+// ============================================================================
+
+export interface IndustryFrameworkStore {
+  readonly name: string;
+  saveFramework(framework: CustomIndustryFramework): Promise<void>;
+  getFramework(ownerId: string, id: string): Promise<CustomIndustryFramework | null>;
+  listFrameworks(ownerId: string): Promise<CustomIndustryFramework[]>;
+  deleteFramework(ownerId: string, id: string): Promise<boolean>;
+}
+
+/**
+ * Process-local store. Frameworks reset on restart, so only use it for development.
+ */
+export class MemoryIndustryFrameworkStore implements IndustryFrameworkStore {
+  readonly name = 'memory';
+  private frameworks = new Map<string, CustomIndustryFramework>();
+
+  async saveFramework(framework: CustomIndustryFramework): Promise<void> {
+    this.frameworks.set(this.key(framework.ownerId, framework.id), structuredClone(framework));
+  }
+
+  async getFramework(ownerId: string, id: string): Promise<CustomIndustryFramework | null> {
+    const framework = this.frameworks.get(this.key(ownerId, id));
+    return framework ? structuredClone(framework) : null;
+  }
+
+  async listFrameworks(ownerId: string): Promise<CustomIndustryFramework[]> {
+    return [...this.frameworks.values()]
+      .filter(framework => framework.ownerId === ownerId)
+      .map(framework => structuredClone(framework));
+  }
+
+  async deleteFramework(ownerId: string, id: string): Promise<boolean> {
+    return this.frameworks.delete(this.key(ownerId, id));
+  }
+
+  clear(): void {
+    this.frameworks.clear();
+  }
+
+  private key(ownerId: string, id: string): string {
+    return `${ownerId}:${id}`;
+  }
+}
+
+/**
+ * Supabase-backed store. Expected table:
+ *
+ *   create table industry_frameworks (
+ *     owner_id text not null,
+ *     id text not null,
+ *     workspace_id uuid,
+ *     framework jsonb not null,
+ *     source text not null,
+ *     created_by uuid not null,
+ *     created_at timestamptz not null default now(),
+ *     updated_at timestamptz not null default now(),
+ *     primary key (owner_id, id)
+ *   );
+ */
+export class SupabaseIndustryFrameworkStore implements IndustryFrameworkStore {
+  readonly name = 'supabase';
+
+  async saveFramework(framework: CustomIndustryFramework): Promise<void> {
+    const client = await this.client();
+    const { error } = await (client.from('industry_frameworks') as any).upsert({
+      owner_id: framework.ownerId,
+      id: framework.id,
+      workspace_id: framework.workspaceId,
+      framework: framework.framework,
+      source: framework.source,
+      created_by: framework.createdBy,
+      created_at: new Date(framework.createdAt).toISOString(),
+      updated_at: new Date(framework.updatedAt).toISOString()
+    });
+
+    if (error) {
+      throw createAPIError(ErrorType.DATABASE, 'Failed to save industry framework', 500, { frameworkId: framework.id });
+    }
+  }
+
+  async getFramework(ownerId: string, id: string): Promise<CustomIndustryFramework | null> {
+    const client = await this.client();
+    const { data, error } = await (client.from('industry_frameworks') as any)
+      .select('*')
+      .eq('owner_id', ownerId)
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) {
+      throw createAPIError(ErrorType.DATABASE, 'Failed to load industry framework', 500, { frameworkId: id });
+    }
+
+    return data ? this.toFramework(data) : null;
+  }
+
+  async listFrameworks(ownerId: string): Promise<CustomIndustryFramework[]> {
+    const client = await this.client();
+    const { data, error } = await (client.from('industry_frameworks') as any)
+      .select('*')
+      .eq('owner_id', ownerId);
+
+    if (error) {
+      throw createAPIError(ErrorType.DATABASE, 'Failed to load industry frameworks', 500, { ownerId });
+    }
+
+    return ((data || []) as any[]).map(row => this.toFramework(row));
+  }
+
+  async deleteFramework(ownerId: string, id: string): Promise<boolean> {
+    const client = await this.client();
+    const { data, error } = await (client.from('industry_frameworks') as any)
+      .delete()
+      .eq('owner_id', ownerId)
+      .eq('id', id)
+      .select('id');
+
+    if (error) {
+      throw createAPIError(ErrorType.DATABASE, 'Failed to delete industry framework', 500, { frameworkId: id });
+    }
+
+    return Boolean(data?.length);
+  }
+
+  private toFramework(row: any): CustomIndustryFramework {
+    return {
+      id: row.id,
+      ownerId: row.owner_id,
+      workspaceId: row.workspace_id ?? null,
+      framework: row.framework,
+      source: row.source,
+      createdBy: row.created_by,
+      createdAt: Date.parse(row.created_at),
+      updatedAt: Date.parse(row.updated_at)
+    };
+  }
+
+  private async client() {
+    const { supabaseAdmin } = await import('@/app/lib/supabase/admin');
+    return supabaseAdmin;
+  }
+}
+
+/**
+ * Build the store configured through INDUSTRY_FRAMEWORK_STORE (memory | supabase)
+ */
+export function createIndustryFrameworkStore(
+  type: string | undefined = process.env.INDUSTRY_FRAMEWORK_STORE
+): IndustryFrameworkStore {
+  if (type === 'supabase') {
+    return new SupabaseIndustryFrameworkStore();
+  }
+
+  if (type && type !== 'memory') {
+    console.warn(`⚠️ Unknown INDUSTRY_FRAMEWORK_STORE "${type}", falling back to memory`);
+  }
+
+  return new MemoryIndustryFrameworkStore();
+}
+
+/**
+ * Draft with Claude, billed to the actor
+ */
+const draftWithClaude: FrameworkDrafter = async (industry, example, actor) => {
+  const { claudeAI } = await import('@/app/lib/services/claudeAIService');
+  const { framework } = await claudeAI.generateIndustryFramework(industry, example, {
+    meter: { customerId: actor.customerId, role: actor.role, userId: actor.userId }
+  });
+  return framework;
+};
+
+// Built-in framework drafts are modelled on
+const EXAMPLE_INDUSTRY = 'healthcare';
+
+// ============================================================================
+// FRAMEWORK SERVICE
+// ============================================================================
+
+export class IndustryFrameworkService {
+  private store: IndustryFrameworkStore;
+  private drafter: FrameworkDrafter;
+
+  constructor(
+    store: IndustryFrameworkStore = createIndustryFrameworkStore(),
+    drafter: FrameworkDrafter = draftWithClaude
+  ) {
+    this.store = store;
+    this.drafter = drafter;
+  }
+
+  /** Custom frameworks in the actor's scope, by name */
+  async listFrameworks(actor: FrameworkActor): Promise<CustomIndustryFramework[]> {
+    requireScopePermission(actor.scope, PERMISSIONS.VIEW_ICP);
+    const frameworks = await this.store.listFrameworks(actor.scope.ownerId);
+    return frameworks.sort((a, b) => a.framework.name.localeCompare(b.framework.name));
+  }
+
+  async getFramework(actor: FrameworkActor, id: string): Promise<CustomIndustryFramework> {
+    requireScopePermission(actor.scope, PERMISSIONS.VIEW_ICP);
+    return this.requireFramework(actor, id);
+  }
+
+  /**
+   * Add a framework. Its id defaults to the industry name ("Financial
+   * Services" -> "financial_services").
+   */
+  async createFramework(
+    actor: FrameworkActor,
+    input: { id?: string; framework: unknown },
+    source: FrameworkSource = 'manual'
+  ): Promise<CustomIndustryFramework> {
+    requireScopePermission(actor.scope, PERMISSIONS.CREATE_ICP);
+    const framework = this.validate(input.framework);
+    const id = toIndustryId(input.id || framework.name);
+
+    if (!id) {
+      throw createAPIError(ErrorType.VALIDATION, 'Framework id must contain letters or numbers', 400);
+    }
+    this.assertNotBuiltIn([id]);
+
+    if (await this.store.getFramework(actor.scope.ownerId, id)) {
+      throw createAPIError(ErrorType.VALIDATION, `A framework with id "${id}" already exists`, 409, { frameworkId: id });
+    }
+
+    const saved = this.build(actor, id, framework, source);
+    await this.store.saveFramework(saved);
+    console.log(`🧭 Industry framework ${id} created (${source}) for ${actor.scope.ownerId}`);
+    return saved;
+  }
+
+  async updateFramework(actor: FrameworkActor, id: string, input: unknown): Promise<CustomIndustryFramework> {
+    requireScopePermission(actor.scope, PERMISSIONS.CREATE_ICP);
+    const existing = await this.requireFramework(actor, id);
+
+    const updated: CustomIndustryFramework = {
+      ...existing,
+      framework: this.validate(input),
+      source: 'manual',
+      updatedAt: Date.now()
+    };
+
+    await this.store.saveFramework(updated);
+    return updated;
+  }
+
+  async deleteFramework(actor: FrameworkActor, id: string): Promise<void> {
+    requireScopePermission(actor.scope, PERMISSIONS.CREATE_ICP);
+
+    if (!(await this.store.deleteFramework(actor.scope.ownerId, id))) {
+      throw createAPIError(ErrorType.NOT_FOUND, 'Industry framework not found', 404, { frameworkId: id });
+    }
+  }
+
+  /**
+   * Import frameworks from JSON (see parseFrameworkImport). Nothing is saved
+   * unless every framework is valid; existing ids are only replaced with
+   * `overwrite`.
+   */
+  async importFrameworks(
+    actor: FrameworkActor,
+    payload: unknown,
+    options: { overwrite?: boolean } = {}
+  ): Promise<FrameworkImportResult> {
+    requireScopePermission(actor.scope, PERMISSIONS.CREATE_ICP);
+
+    const parsed = parseFrameworkImport(payload);
+    if (!parsed.success) {
+      throw createAPIError(ErrorType.VALIDATION, 'Invalid industry framework file', 400, { issues: parsed.error });
+    }
+    this.assertNotBuiltIn(parsed.data.map(entry => entry.id));
+
+    const existing = new Map(
+      (await this.store.listFrameworks(actor.scope.ownerId)).map(framework => [framework.id, framework])
+    );
+    const conflicts = parsed.data.filter(entry => existing.has(entry.id)).map(entry => entry.id);
+
+    if (conflicts.length > 0 && !options.overwrite) {
+      throw createAPIError(
+        ErrorType.VALIDATION,
+        `Frameworks already exist: ${conflicts.join(', ')}. Import with overwrite to replace them.`,
+        409,
+        { conflicts }
+      );
+    }
+
+    const result: FrameworkImportResult = { created: [], updated: [], frameworks: [] };
+    for (const { id, framework } of parsed.data) {
+      const previous = existing.get(id);
+      const saved = previous
+        ? { ...previous, framework, source: 'imported' as const, updatedAt: Date.now() }
+        : this.build(actor, id, framework, 'imported');
+
+      await this.store.saveFramework(saved);
+      (previous ? result.updated : result.created).push(id);
+      result.frameworks.push(saved);
+    }
+
+    console.log(`🧭 Imported ${result.frameworks.length} industry framework(s) for ${actor.scope.ownerId}`);
+    return result;
+  }
+
+  /**
+   * Export file for the given frameworks, or all custom frameworks in scope
+   */
+  async exportFrameworks(actor: FrameworkActor, ids?: string[]): Promise<FrameworkExport> {
+    requireScopePermission(actor.scope, PERMISSIONS.VIEW_ICP);
+
+    const frameworks = ids?.length
+      ? await Promise.all(ids.map(id => this.requireFramework(actor, id)))
+      : await this.listFrameworks(actor);
+
+    return buildFrameworkExport(frameworks.map<ParsedFramework>(({ id, framework }) => ({ id, framework })));
+  }
+
+  /**
+   * Framework to translate an industry with: a custom one, else a built-in
+   * one, else one drafted by Claude and saved so it can be reviewed and
+   * reused. Drafting needs edit access.
+   */
+  async resolveFramework(actor: FrameworkActor, industry: string): Promise<ResolvedFramework> {
+    requireScopePermission(actor.scope, PERMISSIONS.VIEW_ICP);
+
+    const id = toIndustryId(industry);
+    if (!id) {
+      throw createAPIError(ErrorType.VALIDATION, 'industry must contain letters or numbers', 400);
+    }
+
+    const custom = await this.store.getFramework(actor.scope.ownerId, id);
+    if (custom) {
+      return { id, framework: custom.framework, builtIn: false, source: custom.source, drafted: false };
+    }
+
+    const builtInId = technicalTranslationService.findFrameworkId(industry);
+    if (builtInId) {
+      return { id: builtInId, framework: technicalTranslationService.getFramework(builtInId)!, builtIn: true, drafted: false };
+    }
+
+    requireScopePermission(actor.scope, PERMISSIONS.CREATE_ICP);
+    const example = technicalTranslationService.getFramework(EXAMPLE_INDUSTRY)!;
+    const framework = this.validate(await this.drafter(industry.trim(), example, actor));
+
+    const saved = this.build(actor, id, framework, 'ai_drafted');
+    await this.store.saveFramework(saved);
+    console.log(`🤖 Drafted industry framework ${id} for ${actor.scope.ownerId}`);
+
+    return { id, framework, builtIn: false, source: 'ai_drafted', drafted: true };
+  }
+
+  // ==========================================================================
+  // HELPERS
+  // ==========================================================================
+
+  private async requireFramework(actor: FrameworkActor, id: string): Promise<CustomIndustryFramework> {
+    const framework = await this.store.getFramework(actor.scope.ownerId, id);
+    if (!framework) {
+      throw createAPIError(ErrorType.NOT_FOUND, 'Industry framework not found', 404, { frameworkId: id });
+    }
+    return framework;
+  }
+
+  private validate(input: unknown): IndustryFramework {
+    const parsed = parseIndustryFramework(input);
+    if (!parsed.success) {
+      throw createAPIError(ErrorType.VALIDATION, 'Invalid industry framework', 400, { issues: parsed.error });
+    }
+    return parsed.data;
+  }
+
+  private assertNotBuiltIn(ids: string[]): void {
+    const builtIn = ids.filter(id => technicalTranslationService.getFramework(id));
+    if (builtIn.length > 0) {
+      throw createAPIError(
+        ErrorType.VALIDATION,
+        `Built-in frameworks can't be replaced: ${builtIn.join(', ')}. Use a different id.`,
+        409,
+        { conflicts: builtIn }
+      );
+    }
+  }
+
+  private build(
+    actor: FrameworkActor,
+    id: string,
+    framework: IndustryFramework,
+    source: FrameworkSource
+  ): CustomIndustryFramework {
+    const now = Date.now();
+    return {
+      id,
+      ownerId: actor.scope.ownerId,
+      workspaceId: actor.scope.workspaceId,
+      framework,
+      source,
+      createdBy: actor.userId,
+      createdAt: now,
+      updatedAt: now
+    };
+  }
+}
+
+export const industryFrameworks = new IndustryFrameworkService();
+export default industryFrameworks;
@@ -0,0 +1,118 @@
+/**
+ * Industry Framework Schemas
+ *
+ * Validation for custom industry frameworks (the same shape as the built-in
+ * INDUSTRY_FRAMEWORKS in TechnicalTranslationService) and the JSON format
+ * they are exported and imported in. Pure functions so the widget can check
+ * a file before uploading it.
+ */
+
+import { z } from 'zod';
+import { toIndustryId } from '@/src/lib/services/TechnicalTranslationService';
+import type { IndustryFramework } from '@/src/lib/services/TechnicalTranslationService';
+
+// ============================================================================
+// SCHEMAS
+// ============================================================================
+
+export const TranslationTemplateSchema = z.object({
+  technical: z.string().min(1),
+  business: z.string().min(1),
+  cfoLanguage: z.string().min(1),
+  cooLanguage: z.string().min(1)
+});
+
+export const IndustryFrameworkSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  stakeholders: z.array(z.string().trim().min(1)).min(1),
+  painPoints: z.record(z.string(), z.string().min(1)),
+  translationTemplates: z.record(z.string(), TranslationTemplateSchema)
+    .refine(templates => Object.keys(templates).length > 0, 'At least one translation template is required')
+});
+
+/** A framework as it appears in an export file */
+export const ExportedFrameworkSchema = IndustryFrameworkSchema.extend({
+  id: z.string().optional()
+});
+
+export const FRAMEWORK_EXPORT_FORMAT = 'industry-frameworks';
+export const FRAMEWORK_EXPORT_VERSION = 1;
+
+export const FrameworkExportSchema = z.object({
+  format: z.literal(FRAMEWORK_EXPORT_FORMAT),
+  version: z.literal(FRAMEWORK_EXPORT_VERSION),
+  exportedAt: z.string().optional(),
+  frameworks: z.array(ExportedFrameworkSchema)
+});
+
+export type FrameworkExport = z.infer<typeof FrameworkExportSchema>;
+
+export interface ParsedFramework {
+  id: string;
+  framework: IndustryFramework;
+}
+
+export type FrameworkParseResult<T> =
+  | { success: true; data: T }
+  | { success: false; error: string };
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+/**
+ * Validate a single framework, keeping only the known fields
+ */
+export function parseIndustryFramework(value: unknown): FrameworkParseResult<IndustryFramework> {
+  const result = IndustryFrameworkSchema.safeParse(value);
+  return result.success
+    ? { success: true, data: result.data }
+    : { success: false, error: z.prettifyError(result.error) };
+}
+
+/**
+ * Validate an import: an export file, a bare array of frameworks or a single
+ * framework. Frameworks without an id are keyed by their name.
+ */
+export function parseFrameworkImport(value: unknown): FrameworkParseResult<ParsedFramework[]> {
+  const document = Array.isArray(value)
+    ? { format: FRAMEWORK_EXPORT_FORMAT, version: FRAMEWORK_EXPORT_VERSION, frameworks: value }
+    : value && typeof value === 'object' && !('frameworks' in value)
+      ? { format: FRAMEWORK_EXPORT_FORMAT, version: FRAMEWORK_EXPORT_VERSION, frameworks: [value] }
+      : value;
+
+  const result = FrameworkExportSchema.safeParse(document);
+  if (!result.success) {
+    return { success: false, error: z.prettifyError(result.error) };
+  }
+
+  const frameworks = result.data.frameworks.map(({ id, ...framework }) => ({
+    id: toIndustryId(id || framework.name),
+    framework
+  }));
+
+  const seen = new Set<string>();
+  for (const { id } of frameworks) {
+    if (!id) {
+      return { success: false, error: 'Every framework needs an id or a name with letters or numbers' };
+    }
+    if (seen.has(id)) {
+      return { success: false, error: `Framework "${id}" appears more than once` };
+    }
+    seen.add(id);
+  }
+
+  return { success: true, data: frameworks };
+}
+
+/**
+ * Export file for a set of frameworks
+ */
+export function buildFrameworkExport(frameworks: ParsedFramework[]): FrameworkExport {
+  return {
+    format: FRAMEWORK_EXPORT_FORMAT,
+    version: FRAMEWORK_EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    frameworks: frameworks.map(({ id, framework }) => ({ id, ...framework }))
+  };
+}
@@ -6,6 +6,12 @@
  */
 
 import { PersonaForPDF } from './pdf-export';
+import {
+  BrandingInput,
+  DEFAULT_WATERMARK_TEXT,
+  getWatermarkText,
+  resolveBrandProfile
+} from '@/app/lib/services/export/branding';
 
 export interface ICPExportData {
   companyName?: string;
@@ -16,25 +22,38 @@ export interface ICPExportData {
 
 export interface DataExportOptions {
   includeDemoWatermark?: boolean;
+  branding?: BrandingInput;   // Customer brand profile: watermark and footer text
+}
+
+/**
+ * Watermark for the export: the demo banner for demo exports, otherwise the
+ * customer's brand watermark when they have one enabled
+ */
+function resolveWatermark(options: DataExportOptions): string | null {
+  if (options.includeDemoWatermark) return DEFAULT_WATERMARK_TEXT;
+  return options.branding ? getWatermarkText(resolveBrandProfile(options.branding)) : null;
 }
 
 /**
  * Generate Markdown format optimized for Notion
  *
  * @param data - ICP export data with personas
- * @param options - Export options including demo watermark
+ * @param options - Export options including demo watermark and branding
  * @returns Markdown string ready for clipboard
  */
 export function generateMarkdown(data: ICPExportData, options: DataExportOptions = {}): string {
   const { companyName = 'Your Company', productName = 'Your Product', personas, generatedAt } = data;
 
+  const watermark = resolveWatermark(options);
   let markdown = '';
 
-  // DEMO WATERMARK - HTML comment at top (visible in raw markdown)
+  // WATERMARK - HTML comment at top (visible in raw markdown)
   if (options.includeDemoWatermark) {
-    markdown += `<!-- ⚠️ DEMO VERSION - This is a sample export from Andru -->\n`;
+    markdown += `<!-- ⚠️ ${watermark} - This is a sample export from Andru -->\n`;
     markdown += `<!-- Sign up at https://andru.com to remove watermarks and save your real analysis -->\n`;
     markdown += `<!-- Generated: ${new Date().toISOString()} -->\n\n`;
+  } else if (watermark) {
+    markdown += `<!-- ${watermark} -->\n\n`;
   }
 
   markdown += `# Ideal Customer Profile - ${companyName}\n\n`;
@@ -49,9 +68,11 @@ export function generateMarkdown(data: ICPExportData, options: DataExportOptions
     markdown += `**Generated:** ${date}\n`;
   }
 
-  // Add demo notice in visible text if demo watermark
+  // Add watermark notice in visible text
   if (options.includeDemoWatermark) {
-    markdown += `\n> **⚠️ DEMO VERSION** - Sign up at [andru.com](https://andru.com) to remove watermarks\n`;
+    markdown += `\n> **⚠️ ${watermark}** - Sign up at [andru.com](https://andru.com) to remove watermarks\n`;
+  } else if (watermark) {
+    markdown += `\n> **${watermark}**\n`;
   }
 
   markdown += `\n---\n\n`;
@@ -151,7 +172,9 @@ export function generateMarkdown(data: ICPExportData, options: DataExportOptions
 
   // Footer
   markdown += `\n---\n\n`;
-  markdown += `*Generated with [Andru](https://andru.ai) - Ideal Customer Profile Analysis Tool*\n`;
+  markdown += options.branding?.footerText?.trim()
+    ? `*${options.branding.footerText.trim()}*\n`
+    : `*Generated with [Andru](https://andru.ai) - Ideal Customer Profile Analysis Tool*\n`;
 
   return markdown;
 }
@@ -160,19 +183,22 @@ export function generateMarkdown(data: ICPExportData, options: DataExportOptions
  * Generate CSV format for spreadsheet applications
  *
  * @param data - ICP export data with personas
- * @param options - Export options including demo watermark
+ * @param options - Export options including demo watermark and branding
  * @returns CSV string ready for download
  */
 export function generateCSV(data: ICPExportData, options: DataExportOptions = {}): string {
   const { personas } = data;
 
+  const watermark = resolveWatermark(options);
   let csv = '';
 
-  // DEMO WATERMARK - Header row with demo notice
+  // WATERMARK - Header row with the notice
   if (options.includeDemoWatermark) {
-    csv += `"⚠️ DEMO VERSION - This is a sample export from Andru","Sign up at https://andru.com to remove watermarks"\n`;
+    csv += `"⚠️ ${watermark} - This is a sample export from Andru","Sign up at https://andru.com to remove watermarks"\n`;
     csv += `"Generated","${new Date().toISOString()}"\n`;
     csv += '\n'; // Empty row separator
+  } else if (watermark) {
+    csv += `${escapeCSV(watermark)}\n\n`;
   }
 
   // CSV Headers
@@ -315,7 +341,7 @@ export function downloadTextFile(
  * Export ICP data as Markdown (copy to clipboard)
  *
  * @param data - ICP export data
- * @param options - Export options including demo watermark
+ * @param options - Export options including demo watermark and branding
  * @returns Success/error result
  */
 export async function exportToMarkdown(
@@ -347,7 +373,7 @@ export async function exportToMarkdown(
  * Export ICP data as CSV (download file)
  *
  * @param data - ICP export data
- * @param options - Export options including demo watermark
+ * @param options - Export options including demo watermark and branding
  * @param filename - Optional filename
  * @returns Success/error result
  */
@@ -11,6 +11,13 @@
 // jsPDF and jspdf-autotable must be loaded at runtime in Next.js
 
 // Flexible persona type that handles multiple schema versions
+import {
+  BrandingInput,
+  DEFAULT_WATERMARK_TEXT,
+  getWatermarkText,
+  resolveBrandProfile
+} from '@/app/lib/services/export/branding';
+
 export interface PersonaForPDF {
   id: string;
   name?: string;  // Optional - we don't use named personas, only title
@@ -103,6 +110,7 @@ export interface PDFExportOptions {
     };
     fallback?: boolean;  // If true, using default Andru branding
   };
+  branding?: BrandingInput;  // Customer brand profile: watermark and footer text
 }
 
 /**
@@ -454,11 +462,15 @@ export async function generateICPPDF(
 
   // FOOTER on every page
   const totalPages = doc.getNumberOfPages();
+  const brand = options.branding ? resolveBrandProfile(options.branding) : null;
+  const watermarkText = options.includeDemoWatermark
+    ? DEFAULT_WATERMARK_TEXT
+    : brand && getWatermarkText(brand);
   for (let i = 1; i <= totalPages; i++) {
     doc.setPage(i);
 
-    // DEMO WATERMARK - Diagonal overlay on each page (more prominent than free tier)
-    if (options.includeDemoWatermark) {
+    // WATERMARK - Diagonal overlay on each page (more prominent than free tier)
+    if (watermarkText) {
       doc.saveGraphicsState();
 
       // Set transparency for watermark (30% opacity)
@@ -478,9 +490,6 @@ export async function generateICPPDF(
       const rad = angle * (Math.PI / 180);
 
       // Translate to center, rotate, then draw text
-      const watermarkText = 'DEMO VERSION';
-      const textWidth = doc.getTextWidth(watermarkText);
-
       doc.text(
         watermarkText,
         centerX,
@@ -492,18 +501,20 @@ export async function generateICPPDF(
         }
       );
 
-      // Add smaller text below with CTA
-      doc.setFontSize(14);
-      doc.text(
-        'Sign up at andru.com to remove watermarks',
-        centerX,
-        centerY + 15,
-        {
-          angle: angle,
-          align: 'center',
-          baseline: 'middle'
-        }
-      );
+      // Add smaller text below with CTA (demo exports only)
+      if (options.includeDemoWatermark) {
+        doc.setFontSize(14);
+        doc.text(
+          'Sign up at andru.com to remove watermarks',
+          centerX,
+          centerY + 15,
+          {
+            angle: angle,
+            align: 'center',
+            baseline: 'middle'
+          }
+        );
+      }
 
       doc.restoreGraphicsState();
     }
@@ -520,9 +531,9 @@ export async function generateICPPDF(
       { align: 'center' }
     );
 
-    // Powered by Andru
+    // Powered by Andru, or the customer's footer text
     doc.text(
-      'Powered by Andru',
+      brand?.footerText || 'Powered by Andru',
       pageWidth - margin,
       pageHeight - 10,
       { align: 'right' }
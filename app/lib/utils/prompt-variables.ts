@@ -0,0 +1,43 @@
+/**
+ * Prompt Variable Utilities
+ *
+ * Prompts mark their variables as `[UPPER_SNAKE_CASE]` placeholders. Shared by
+ * AIIntegrationTemplates and the prompt registry.
+ */
+
+const VARIABLE_PATTERN = /\[([A-Z_]+)\]/g;
+
+/**
+ * Placeholders used in a prompt, with brackets (e.g. `[COMPANY_NAME]`), deduplicated
+ */
+export function extractVariables(prompt: string): string[] {
+  const matches = prompt.match(VARIABLE_PATTERN);
+  return matches ? [...new Set(matches)] : [];
+}
+
+/**
+ * Compare a prompt's placeholders with the variables provided for it (keys
+ * without brackets)
+ */
+export function validateVariables(
+  prompt: string,
+  providedVariables: Record<string, string>
+): { missing: string[]; unused: string[] } {
+  const requiredVariables = extractVariables(prompt);
+  const providedKeys = Object.keys(providedVariables).map(key => `[${key}]`);
+
+  const missing = requiredVariables.filter(variable => !providedKeys.includes(variable));
+  const unused = providedKeys.filter(key => !requiredVariables.includes(key));
+
+  return { missing, unused };
+}
+
+/**
+ * Replace each `[NAME]` with `variables.NAME` in a single pass, so values that
+ * themselves contain brackets are left alone. Unknown placeholders are kept.
+ */
+export function fillVariables(prompt: string, variables: Record<string, string>): string {
+  return prompt.replace(VARIABLE_PATTERN, (placeholder, name: string) =>
+    Object.prototype.hasOwnProperty.call(variables, name) ? variables[name] : placeholder
+  );
+}
@@ -0,0 +1,136 @@
+/**
+ * Public Host Checks
+ *
+ * Guards for server-side requests to user-supplied URLs (webhook endpoints,
+ * CRM instance URLs). A hostname is only public if every address it
+ * resolves to is outside the loopback, private, link-local, CGNAT and other
+ * reserved ranges; IPv4-mapped IPv6 addresses are checked as IPv4.
+ * `publicLookup` applies the same check while connecting, so the request
+ * goes to the address that was checked.
+ */
+
+import { BlockList, LookupFunction, isIP } from 'net';
+import { lookup } from 'dns/promises';
+
+/** Resolves a hostname to all of its addresses */
+export type HostLookup = (hostname: string) => Promise<string[]>;
+
+const RESERVED_ADDRESSES = new BlockList();
+
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],        // "This" network
+  ['10.0.0.0', 8],       // Private
+  ['100.64.0.0', 10],    // Carrier-grade NAT (also cloud metadata, e.g. 100.100.100.200)
+  ['127.0.0.0', 8],      // Loopback
+  ['169.254.0.0', 16],   // Link-local (cloud metadata at 169.254.169.254)
+  ['172.16.0.0', 12],    // Private
+  ['192.0.0.0', 24],     // IETF protocol assignments
+  ['192.168.0.0', 16],   // Private
+  ['198.18.0.0', 15],    // Benchmarking
+  ['224.0.0.0', 4],      // Multicast
+  ['240.0.0.0', 4]       // Reserved and broadcast
+] as const) {
+  RESERVED_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+
+for (const [network, prefix] of [
+  ['::', 127],           // Unspecified and loopback
+  ['64:ff9b::', 96],     // NAT64, embeds an IPv4 address
+  ['fc00::', 7],         // Unique local
+  ['fe80::', 10],        // Link-local
+  ['ff00::', 8]          // Multicast
+] as const) {
+  RESERVED_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+const INTERNAL_SUFFIXES = ['.localhost', '.local', '.internal'];
+
+const defaultLookup: HostLookup = async hostname => {
+  const addresses = await lookup(hostname, { all: true, verbatim: true });
+  return addresses.map(({ address }) => address);
+};
+
+function stripBrackets(hostname: string): string {
+  return hostname.replace(/^\[|\]$/g, '').toLowerCase();
+}
+
+/**
+ * Whether an IP address is loopback, private, link-local, CGNAT or otherwise
+ * not routable on the public internet (IPv4-mapped IPv6 included)
+ */
+export function isReservedAddress(address: string): boolean {
+  const ip = stripBrackets(address);
+  const family = isIP(ip);
+
+  if (family === 4) return RESERVED_ADDRESSES.check(ip, 'ipv4');
+  if (family === 6) return RESERVED_ADDRESSES.check(ip, 'ipv6');
+  return false;
+}
+
+/**
+ * Whether a URL hostname is obviously internal without resolving it:
+ * localhost and internal suffixes, or a reserved IP literal
+ */
+export function isPrivateHostname(hostname: string): boolean {
+  const host = stripBrackets(hostname).replace(/\.$/, '');
+
+  return host === 'localhost' ||
+    INTERNAL_SUFFIXES.some(suffix => host.endsWith(suffix)) ||
+    isReservedAddress(host);
+}
+
+/**
+ * Resolve a hostname and throw unless every address it resolves to is
+ * public. Call right before the request so DNS changes made after the URL
+ * was saved are caught.
+ */
+export async function assertPublicHost(hostname: string, resolve: HostLookup = defaultLookup): Promise<void> {
+  if (isPrivateHostname(hostname)) {
+    throw new Error(`${hostname} is not a public host`);
+  }
+
+  const host = stripBrackets(hostname);
+  const addresses = isIP(host) ? [host] : await resolve(host);
+
+  if (addresses.length === 0) {
+    throw new Error(`${hostname} did not resolve`);
+  }
+
+  const reserved = addresses.find(isReservedAddress);
+  if (reserved) {
+    throw new Error(`${hostname} resolves to a non-public address (${reserved})`);
+  }
+}
+
+/**
+ * `dns.lookup` replacement for sockets (e.g. an undici Agent's
+ * `connect.lookup`) that fails instead of returning a non-public address
+ */
+export function publicLookup(resolve: HostLookup = defaultLookup): LookupFunction {
+  return (hostname, options, callback) => {
+    resolve(hostname)
+      .then(addresses => {
+        if (addresses.length === 0) {
+          throw new Error(`${hostname} did not resolve`);
+        }
+
+        const reserved = addresses.find(isReservedAddress);
+        if (reserved) {
+          throw new Error(`${hostname} resolves to a non-public address (${reserved})`);
+        }
+
+        const resolved = addresses.map(address => ({ address, family: isIP(address) }));
+        const wanted = options.family ? resolved.filter(({ family }) => family === options.family) : resolved;
+        if (wanted.length === 0) {
+          throw new Error(`${hostname} has no IPv${options.family} address`);
+        }
+
+        if (options.all) {
+          callback(null, wanted);
+        } else {
+          callback(null, wanted[0].address, wanted[0].family);
+        }
+      })
+      .catch(error => callback(error, '', 0));
+  };
+}
@@ -0,0 +1,67 @@
+/**
+ * Webhook Signatures
+ *
+ * HMAC-SHA256 signing for webhook payloads. The signed message is
+ * `<unix seconds>.<delivery id>.<raw body>`, so a captured delivery can't be
+ * replayed outside the timestamp tolerance or under a fresh delivery id, and
+ * the body can't be re-serialised before it's checked.
+ */
+
+import crypto from 'crypto';
+
+export const WEBHOOK_SIGNATURE_HEADER = 'x-webhook-signature';
+export const WEBHOOK_TIMESTAMP_HEADER = 'x-webhook-timestamp';
+export const WEBHOOK_ID_HEADER = 'x-webhook-id';
+
+/** Default accepted clock skew between sender and receiver */
+export const WEBHOOK_TOLERANCE_SECONDS = 300;
+
+export type WebhookVerification =
+  | { valid: true }
+  | { valid: false; reason: string };
+
+/**
+ * Signature header value (`sha256=<hex>`) for a payload and its delivery id
+ */
+export function signWebhookPayload(secret: string, timestamp: number, id: string, body: string): string {
+  const digest = crypto.createHmac('sha256', secret).update(`${timestamp}.${id}.${body}`).digest('hex');
+  return `sha256=${digest}`;
+}
+
+/**
+ * Check a delivery's signature, id and timestamp against the shared secret.
+ * A missing id is signed as the empty string.
+ */
+export function verifyWebhookSignature(options: {
+  secret: string;
+  id: string | null;
+  body: string;
+  signature: string | null;
+  timestamp: string | null;
+  toleranceSeconds?: number;
+  now?: number;
+}): WebhookVerification {
+  const { secret, id, body, signature, toleranceSeconds = WEBHOOK_TOLERANCE_SECONDS, now = Date.now() } = options;
+
+  if (!signature || !options.timestamp) {
+    return { valid: false, reason: 'Missing signature or timestamp header' };
+  }
+
+  const timestamp = Number(options.timestamp);
+  if (!Number.isInteger(timestamp)) {
+    return { valid: false, reason: 'Invalid timestamp header' };
+  }
+
+  if (Math.abs(now / 1000 - timestamp) > toleranceSeconds) {
+    return { valid: false, reason: 'Timestamp outside the allowed tolerance' };
+  }
+
+  const expected = Buffer.from(signWebhookPayload(secret, timestamp, id ?? '', body));
+  const received = Buffer.from(signature.trim());
+
+  if (expected.length !== received.length || !crypto.timingSafeEqual(expected, received)) {
+    return { valid: false, reason: 'Signature mismatch' };
+  }
+
+  return { valid: true };
+}
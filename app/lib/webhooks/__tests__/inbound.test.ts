@@ -0,0 +1,175 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Inbound Webhook Framework Unit Tests
+ *
+ * Tests the signed inbound webhook pipeline:
+ * - Signature and timestamp verification with per-source secrets
+ * - Nonce replay protection (released again after retryable failures)
+ * - Schema validation and the delivery log (unauthenticated deliveries are only counted)
+ * - Manual re-processing of logged deliveries
+ */
+
+import { z } from 'zod';
+import { MemoryRateLimitStore } from '@/app/lib/middleware/rate-limit-store';
+import { signWebhookPayload } from '@/app/lib/utils/webhook-signature';
+import { InboundHandlerResult, InboundWebhookService, InboundWebhookSource, MemoryWebhookDeliveryStore } from '../inbound';
+import { MakeCoreResourcesSchema } from '../sources';
+
+const SECRET = 'test-secret';
+
+function signedRequest(body: unknown, options: { nonce?: string; secret?: string; timestamp?: number } = {}) {
+  const raw = JSON.stringify(body);
+  const timestamp = options.timestamp ?? Math.floor(Date.now() / 1000);
+  const headers = new Headers({
+    'x-webhook-timestamp': String(timestamp),
+    'x-webhook-signature': signWebhookPayload(options.secret ?? SECRET, timestamp, options.nonce ?? '', raw)
+  });
+  if (options.nonce !== undefined) headers.set('x-webhook-id', options.nonce);
+  return { body: raw, headers };
+}
+
+describe('InboundWebhookService', () => {
+  let handled: Array<{ orderId: string; reprocessing: boolean }>;
+  let nextResult: InboundHandlerResult;
+  let deliveries: MemoryWebhookDeliveryStore;
+  let nonces: MemoryRateLimitStore;
+  let service: InboundWebhookService;
+
+  const source: InboundWebhookSource<{ orderId: string }> = {
+    id: 'test-source',
+    description: 'Test source',
+    secretEnv: 'TEST_INBOUND_WEBHOOK_SECRET',
+    schema: z.object({ orderId: z.string() }),
+    async handle(payload, context) {
+      handled.push({ orderId: payload.orderId, reprocessing: context.reprocessing });
+      return nextResult;
+    }
+  };
+
+  beforeAll(() => {
+    process.env.TEST_INBOUND_WEBHOOK_SECRET = SECRET;
+  });
+
+  afterAll(() => {
+    delete process.env.TEST_INBOUND_WEBHOOK_SECRET;
+  });
+
+  beforeEach(() => {
+    handled = [];
+    nextResult = { ok: true };
+    deliveries = new MemoryWebhookDeliveryStore();
+    nonces = new MemoryRateLimitStore();
+    service = new InboundWebhookService([source], deliveries, nonces);
+  });
+
+  it('handles a signed delivery and logs it with its payload', async () => {
+    const outcome = await service.receive('test-source', signedRequest({ orderId: 'o1' }, { nonce: 'n1' }));
+
+    expect(outcome.statusCode).toBe(200);
+    expect(handled).toEqual([{ orderId: 'o1', reprocessing: false }]);
+
+    const [logged] = await service.listDeliveries();
+    expect(logged).toMatchObject({ sourceId: 'test-source', nonce: 'n1', signature: 'valid', status: 'processed' });
+    expect(JSON.parse(logged.payload!)).toEqual({ orderId: 'o1' });
+  });
+
+  it('rejects bad signatures and stale timestamps without keeping the payload', async () => {
+    const forged = await service.receive('test-source', signedRequest({ orderId: 'o1' }, { nonce: 'n1', secret: 'guess' }));
+    const stale = await service.receive('test-source', signedRequest({ orderId: 'o1' }, {
+      nonce: 'n2',
+      timestamp: Math.floor(Date.now() / 1000) - 3600
+    }));
+
+    expect(forged.statusCode).toBe(401);
+    expect(stale.statusCode).toBe(401);
+    expect(forged.delivery).toMatchObject({ status: 'rejected', signature: 'invalid', error: 'Signature mismatch' });
+    expect(forged.delivery.payload).toBeUndefined();
+    expect(handled).toHaveLength(0);
+  });
+
+  it('counts unauthenticated deliveries instead of storing them', async () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    for (let i = 0; i < 20; i++) {
+      const forged = await service.receive('test-source', signedRequest({ orderId: `o${i}` }, { nonce: `n${i}`, secret: 'guess' }));
+      expect(forged.statusCode).toBe(401);
+    }
+
+    expect(await service.listDeliveries()).toEqual([]);
+    expect(service.listSources()).toEqual([expect.objectContaining({ id: 'test-source', rejected: 20 })]);
+    expect(warn).toHaveBeenCalledTimes(1);
+    warn.mockRestore();
+  });
+
+  it('rejects replayed nonces and deliveries without one', async () => {
+    await service.receive('test-source', signedRequest({ orderId: 'o1' }, { nonce: 'n1' }));
+    const replay = await service.receive('test-source', signedRequest({ orderId: 'o1' }, { nonce: 'n1' }));
+    const missing = await service.receive('test-source', signedRequest({ orderId: 'o1' }));
+
+    expect(replay.statusCode).toBe(409);
+    expect(replay.delivery.status).toBe('replayed');
+    expect(missing.statusCode).toBe(400);
+    expect(handled).toHaveLength(1);
+  });
+
+  it('rejects a captured delivery resent under a new id', async () => {
+    const captured = signedRequest({ orderId: 'o1' }, { nonce: 'n1' });
+    await service.receive('test-source', captured);
+
+    const headers = new Headers(captured.headers);
+    headers.set('x-webhook-id', 'attacker-n2');
+    const replay = await service.receive('test-source', { body: captured.body, headers });
+
+    expect(replay.statusCode).toBe(401);
+    expect(replay.delivery).toMatchObject({ status: 'rejected', signature: 'invalid', error: 'Signature mismatch' });
+    expect(handled).toHaveLength(1);
+  });
+
+  it('releases the nonce after a retryable failure so the sender can retry', async () => {
+    nextResult = { ok: false, error: 'Database unavailable', retryable: true };
+    const failed = await service.receive('test-source', signedRequest({ orderId: 'o1' }, { nonce: 'n1' }));
+    expect(failed.statusCode).toBe(500);
+
+    // The released key expires after a millisecond
+    await new Promise(resolve => setTimeout(resolve, 5));
+
+    nextResult = { ok: true };
+    const retried = await service.receive('test-source', signedRequest({ orderId: 'o1' }, { nonce: 'n1' }));
+    expect(retried.statusCode).toBe(200);
+  });
+
+  it('logs schema failures and re-processes logged deliveries on request', async () => {
+    const invalid = await service.receive('test-source', signedRequest({ order: 'o1' }, { nonce: 'n1' }));
+    expect(invalid.statusCode).toBe(400);
+    expect(invalid.delivery.status).toBe('invalid');
+    expect(invalid.delivery.error).toContain('orderId');
+
+    nextResult = { ok: false, error: 'Downstream outage', retryable: true };
+    const failed = await service.receive('test-source', signedRequest({ orderId: 'o2' }, { nonce: 'n2' }));
+
+    nextResult = { ok: true, result: { stored: true } };
+    const reprocessed = await service.reprocess(failed.delivery.id);
+
+    expect(reprocessed).toMatchObject({ id: failed.delivery.id, status: 'processed', attempts: 2, result: { stored: true } });
+    expect(handled[handled.length - 1]).toEqual({ orderId: 'o2', reprocessing: true });
+    expect((await service.getDelivery(failed.delivery.id))?.status).toBe('processed');
+  });
+
+  it('refuses to re-process deliveries that failed authentication', async () => {
+    const forged = await service.receive('test-source', signedRequest({ orderId: 'o1' }, { nonce: 'n1', secret: 'guess' }));
+
+    // Never stored, so there is nothing to re-process
+    await expect(service.reprocess(forged.delivery.id)).rejects.toMatchObject({ statusCode: 404 });
+    await expect(service.reprocess('whdl_missing')).rejects.toMatchObject({ statusCode: 404 });
+  });
+});
+
+describe('make-core-resources schema', () => {
+  it('requires a session id', () => {
+    expect(MakeCoreResourcesSchema.safeParse({ resourcesCollection: {} }).success).toBe(false);
+    expect(MakeCoreResourcesSchema.safeParse({ session_id: 'gen_1', resourcesCollection: {} }).success).toBe(true);
+  });
+});
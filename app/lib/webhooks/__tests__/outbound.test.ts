@@ -0,0 +1,226 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Outbound Webhook Unit Tests
+ *
+ * Tests customer webhook endpoints:
+ * - Event filters (only subscribed, active endpoints of the event's customer)
+ * - Signed payloads verifiable with the endpoint secret
+ * - Retries through the job processor until the final attempt
+ * - Synchronous "send test event" deliveries
+ * - Public-host checks on endpoint URLs and on every delivery in production,
+ *   including the address the request connects to
+ */
+
+import http from 'http';
+import { AddressInfo } from 'net';
+import { fetch as realFetch } from 'undici';
+import { verifyWebhookSignature } from '@/app/lib/utils/webhook-signature';
+import { isReservedAddress } from '@/app/lib/utils/public-host';
+import { MemoryOutboundWebhookStore, OutboundWebhookService } from '../outbound';
+
+interface RecordedRequest {
+  url: string;
+  body: string;
+  headers: Record<string, string>;
+}
+
+describe('OutboundWebhookService', () => {
+  let store: MemoryOutboundWebhookStore;
+  let queued: Array<{ name: string; data: any; opts: any }>;
+  let requests: RecordedRequest[];
+  let nextStatus: number;
+  let service: OutboundWebhookService;
+
+  const fakeFetch = (async (url: string, init: RequestInit) => {
+    requests.push({ url, body: String(init.body), headers: init.headers as Record<string, string> });
+    return new Response('ok', { status: nextStatus });
+  }) as unknown as typeof fetch;
+
+  beforeEach(() => {
+    store = new MemoryOutboundWebhookStore();
+    queued = [];
+    requests = [];
+    nextStatus = 200;
+    service = new OutboundWebhookService(store, {
+      queue: { add: ((name: string, data: any, opts: any) => queued.push({ name, data, opts })) as any },
+      fetch: fakeFetch
+    });
+  });
+
+  it('queues events only for active endpoints of the customer that subscribe to them', async () => {
+    const exports = await service.createEndpoint('CUST_1', { url: 'https://hooks.example.com/a', events: ['export_ready'] });
+    await service.createEndpoint('CUST_1', { url: 'https://hooks.example.com/b', events: ['icp_generated'] });
+    const disabled = await service.createEndpoint('CUST_1', { url: 'https://hooks.example.com/c', events: ['export_ready'] });
+    await service.updateEndpoint('CUST_1', disabled.id, { active: false });
+    await service.createEndpoint('CUST_2', { url: 'https://hooks.example.com/d', events: ['export_ready'] });
+
+    const deliveries = await service.dispatch('export_ready', {
+      customerId: 'CUST_1',
+      exportId: 'exp_1',
+      format: 'pdf',
+      timestamp: Date.now()
+    }, 'evt_1');
+
+    expect(deliveries.map(delivery => delivery.endpointId)).toEqual([exports.id]);
+    expect(queued).toEqual([expect.objectContaining({
+      name: 'outbound-webhook-delivery',
+      data: { deliveryId: deliveries[0].id },
+      opts: expect.objectContaining({ jobId: deliveries[0].id, attempts: 8, backoff: 'exponential' })
+    })]);
+  });
+
+  it('signs every delivery with the endpoint secret', async () => {
+    const endpoint = await service.createEndpoint('CUST_1', { url: 'https://hooks.example.com/a', events: ['icp_generated'] });
+    const [delivery] = await service.dispatch('icp_generated', { customerId: 'CUST_1', productName: 'Acme', timestamp: Date.now() }, 'evt_1');
+
+    expect((await service.deliver(delivery.id)).status).toBe('succeeded');
+
+    const [sent] = requests;
+    expect(JSON.parse(sent.body)).toMatchObject({ id: 'evt_1', type: 'icp_generated', data: { productName: 'Acme' } });
+    expect(sent.headers['x-webhook-id']).toBe('evt_1');
+    expect(verifyWebhookSignature({
+      secret: endpoint.secret,
+      id: sent.headers['x-webhook-id'],
+      body: sent.body,
+      signature: sent.headers['x-webhook-signature'],
+      timestamp: sent.headers['x-webhook-timestamp']
+    })).toEqual({ valid: true });
+  });
+
+  it('keeps failed deliveries pending until the final attempt', async () => {
+    await service.createEndpoint('CUST_1', { url: 'https://hooks.example.com/a', events: ['company_rated'] });
+    const [delivery] = await service.dispatch('company_rated', {
+      customerId: 'CUST_1',
+      companyName: 'Globex',
+      score: 82,
+      timestamp: Date.now()
+    });
+
+    nextStatus = 503;
+    expect((await service.deliver(delivery.id)).status).toBe('pending');
+
+    const failed = await service.deliver(delivery.id, { finalAttempt: true });
+    expect(failed).toMatchObject({ status: 'failed', error: 'Endpoint responded with 503' });
+    expect(failed.attempts).toHaveLength(2);
+  });
+
+  it('sends test events right away and records them in the history', async () => {
+    const endpoint = await service.createEndpoint('CUST_1', { url: 'https://hooks.example.com/a', events: ['export_ready'] });
+
+    const delivery = await service.sendTestEvent('CUST_1', endpoint.id);
+
+    expect(delivery).toMatchObject({ status: 'succeeded', test: true, eventType: 'webhook_test' });
+    expect(await service.listDeliveries({ customerId: 'CUST_1' })).toHaveLength(1);
+    await expect(service.sendTestEvent('CUST_2', endpoint.id)).rejects.toMatchObject({ statusCode: 404 });
+  });
+
+  it('validates endpoint URLs and event filters', async () => {
+    await expect(service.createEndpoint('CUST_1', { url: 'ftp://hooks.example.com', events: ['export_ready'] }))
+      .rejects.toMatchObject({ statusCode: 400 });
+    await expect(service.createEndpoint('CUST_1', { url: 'https://hooks.example.com', events: ['order_shipped'] }))
+      .rejects.toMatchObject({ statusCode: 400 });
+    await expect(service.createEndpoint('CUST_1', { url: 'https://hooks.example.com', events: [] }))
+      .rejects.toMatchObject({ statusCode: 400 });
+  });
+
+  describe('in production', () => {
+    const env = process.env as Record<string, string | undefined>;
+    const originalEnv = env.NODE_ENV;
+    // localtest.me is a public name that resolves to 127.0.0.1
+    const dns: Record<string, string[]> = {
+      'hooks.example.com': ['93.184.215.14'],
+      'localtest.me': ['127.0.0.1'],
+      'rebound.example.com': ['93.184.215.15']
+    };
+
+    beforeEach(() => {
+      env.NODE_ENV = 'production';
+      service = new OutboundWebhookService(store, {
+        queue: { add: ((name: string, data: any, opts: any) => queued.push({ name, data, opts })) as any },
+        fetch: fakeFetch,
+        lookup: async hostname => dns[hostname] ?? []
+      });
+    });
+
+    afterEach(() => {
+      env.NODE_ENV = originalEnv;
+    });
+
+    it('refuses private, loopback, CGNAT and IPv4-mapped address literals', async () => {
+      for (const url of [
+        'https://127.0.0.1/',
+        'https://[::ffff:7f00:1]/',
+        'https://[::1]/',
+        'https://100.100.100.200/',
+        'https://169.254.169.254/latest/meta-data',
+        'https://10.0.0.5/',
+        'https://metadata.internal/'
+      ]) {
+        await expect(service.createEndpoint('CUST_1', { url, events: ['export_ready'] }))
+          .rejects.toMatchObject({ statusCode: 400, message: 'Webhook URLs must point to a public host' });
+      }
+    });
+
+    it('resolves the host before each delivery and never requests a private address', async () => {
+      const local = await service.createEndpoint('CUST_1', { url: 'https://localtest.me/', events: ['export_ready'] });
+      const rebound = await service.createEndpoint('CUST_1', { url: 'https://rebound.example.com/', events: ['export_ready'] });
+
+      // The host resolved publicly when saved, then moved to the metadata service
+      dns['rebound.example.com'] = ['169.254.169.254'];
+
+      const blocked = await service.sendTestEvent('CUST_1', local.id);
+      const rebind = await service.sendTestEvent('CUST_1', rebound.id);
+
+      expect(blocked).toMatchObject({ status: 'failed', error: 'localtest.me resolves to a non-public address (127.0.0.1)' });
+      expect(rebind.status).toBe('failed');
+      expect(requests).toHaveLength(0);
+
+      const endpoint = await service.createEndpoint('CUST_1', { url: 'https://hooks.example.com/a', events: ['export_ready'] });
+      expect((await service.sendTestEvent('CUST_1', endpoint.id)).status).toBe('succeeded');
+    });
+
+    it('connects only to the address it checked when DNS changes after the check', async () => {
+      const server = http.createServer((_req, res) => res.end('internal secrets'));
+      let connections = 0;
+      server.on('connection', () => connections++);
+      await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+      const { port } = server.address() as AddressInfo;
+
+      // First answer passes the check, the next one (used to connect) is
+      // loopback. A real fetch, since the global one is mocked in tests.
+      const answers = [['93.184.215.16'], ['127.0.0.1']];
+      const flipping = new OutboundWebhookService(store, {
+        queue: { add: (() => undefined) as any },
+        fetch: realFetch as unknown as typeof fetch,
+        lookup: async () => answers.shift() ?? ['127.0.0.1']
+      });
+
+      try {
+        const endpoint = await flipping.createEndpoint('CUST_1', { url: `https://flip.example.com:${port}/`, events: ['export_ready'] });
+        const delivery = await flipping.sendTestEvent('CUST_1', endpoint.id);
+
+        expect(delivery).toMatchObject({ status: 'failed', error: 'flip.example.com resolves to a non-public address (127.0.0.1)' });
+        expect(delivery.attempts[0].responseBody).toBeUndefined();
+        expect(connections).toBe(0);
+      } finally {
+        await new Promise(resolve => server.close(resolve));
+      }
+    });
+  });
+});
+
+describe('isReservedAddress', () => {
+  it('covers IPv4 and IPv6 internal ranges, including IPv4-mapped addresses', () => {
+    for (const address of ['127.0.0.1', '10.1.2.3', '172.20.0.1', '192.168.1.1', '100.64.0.1', '100.127.255.254',
+      '169.254.169.254', '0.0.0.0', '::1', '::', '::ffff:7f00:1', '::ffff:10.0.0.1', 'fd00::1', 'fe80::1', '64:ff9b::a00:1']) {
+      expect(isReservedAddress(address)).toBe(true);
+    }
+
+    for (const address of ['93.184.215.14', '8.8.8.8', '100.128.0.1', '2606:4700::1111', '::ffff:8.8.8.8']) {
+      expect(isReservedAddress(address)).toBe(false);
+    }
+  });
+});
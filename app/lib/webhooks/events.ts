@@ -0,0 +1,25 @@
+/**
+ * Outbound Webhook Events
+ *
+ * Platform events customers can subscribe their webhook endpoints to. Kept
+ * free of server imports so the settings UI can list them.
+ */
+
+export const OUTBOUND_WEBHOOK_EVENTS = [
+  'icp_generated',
+  'company_rated',
+  'business_case_approved',
+  'export_ready'
+] as const;
+
+export type OutboundWebhookEventType = typeof OUTBOUND_WEBHOOK_EVENTS[number];
+
+export const OUTBOUND_WEBHOOK_EVENT_LABELS: Record<OutboundWebhookEventType, string> = {
+  icp_generated: 'ICP generated',
+  company_rated: 'Company rated',
+  business_case_approved: 'Business case approved',
+  export_ready: 'Export ready'
+};
+
+/** Event type used by "send test event" deliveries */
+export const WEBHOOK_TEST_EVENT = 'webhook_test';
@@ -0,0 +1,476 @@
+/**
+ * FUNCTIONALITY STATUS: REAL
+ *
+ * REAL IMPLEMENTATIONS:
+ * - Inbound webhook sources, each with its own shared secret, schema and handler
+ * - HMAC-SHA256 signature verification with a per-source timestamp tolerance
+ * - Replay protection: every delivery carries a nonce (x-webhook-id) that is
+ *   accepted once within the tolerance window
+ * - Payload schema validation (zod) before a handler runs
+ * - Delivery log with manual re-processing of stored deliveries
+ * - Pluggable delivery log (memory for development, Supabase for production);
+ *   nonces live in the rate limit store (memory or Upstash)
+ *
+ * FAKE IMPLEMENTATIONS:
+ * - None - all functionality is production-ready
+ *
+ * MISSING REQUIREMENTS:
+ * - Supabase delivery log needs the inbound_webhook_deliveries table
+ *   (see SupabaseWebhookDeliveryStore)
+ * - Each source's secret env var (see sources.ts)
+ *
+ * PRODUCTION READINESS: YES
+ * - Deliveries that fail authentication are never stored, so anonymous
+ *   senders can't fill the delivery log; they are counted per source and
+ *   logged at most once a minute
+ * - A delivery that fails with a retryable error releases its nonce so the
+ *   sender's retry is accepted
+ */
+
+import crypto from 'crypto';
+import { z } from 'zod';
+import { createAPIError, ErrorType } from '@/app/lib/middleware/error-handler';
+import { createRateLimitStore, RateLimitStore } from '@/app/lib/middleware/rate-limit-store';
+import {
+  WEBHOOK_ID_HEADER,
+  WEBHOOK_SIGNATURE_HEADER,
+  WEBHOOK_TIMESTAMP_HEADER,
+  WEBHOOK_TOLERANCE_SECONDS,
+  verifyWebhookSignature
+} from '@/app/lib/utils/webhook-signature';
+import { INBOUND_WEBHOOK_SOURCES } from './sources';
+
+// ============================================================================
+// SOURCES
+// ============================================================================
+
+export type InboundHandlerResult =
+  | { ok: true; result?: unknown }
+  | { ok: false; error: string; retryable: boolean };
+
+export interface InboundWebhookContext {
+  deliveryId: string;
+  /** Sender's delivery id, stable across retries of the same event */
+  nonce: string;
+  /** True when an admin re-processes a logged delivery */
+  reprocessing: boolean;
+}
+
+export interface InboundWebhookSource<T = any> {
+  id: string;
+  description: string;
+  /** Env var holding the shared secret */
+  secretEnv: string;
+  toleranceSeconds?: number;
+  schema: z.ZodType<T>;
+  handle(payload: T, context: InboundWebhookContext): Promise<InboundHandlerResult>;
+}
+
+// ============================================================================
+// DELIVERY LOG
+// ============================================================================
+
+/**
+ * processed: handler succeeded; failed: handler failed; invalid: body isn't
+ * valid JSON or doesn't match the schema; rejected: authentication failed;
+ * replayed: nonce already used
+ */
+export type InboundDeliveryStatus = 'processed' | 'failed' | 'invalid' | 'rejected' | 'replayed';
+
+export interface InboundWebhookDelivery {
+  id: string;
+  sourceId: string;
+  nonce?: string;
+  /** unsigned: accepted without a secret outside production */
+  signature: 'valid' | 'invalid' | 'unsigned';
+  status: InboundDeliveryStatus;
+  error?: string;
+  /** Raw body; kept only for authenticated deliveries */
+  payload?: string;
+  result?: unknown;
+  attempts: number;
+  receivedAt: number;
+  processedAt?: number;
+}
+
+export interface WebhookDeliveryFilter {
+  sourceId?: string;
+  status?: InboundDeliveryStatus;
+  limit?: number;
+}
+
+export interface WebhookDeliveryStore {
+  readonly name: string;
+  /** Insert or update a delivery */
+  save(delivery: InboundWebhookDelivery): Promise<void>;
+  get(id: string): Promise<InboundWebhookDelivery | null>;
+  /** Newest first */
+  list(filter: WebhookDeliveryFilter): Promise<InboundWebhookDelivery[]>;
+}
+
+/**
+ * Process-local log. Deliveries reset on restart, so only use it for development.
+ */
+export class MemoryWebhookDeliveryStore implements WebhookDeliveryStore {
+  readonly name = 'memory';
+  private deliveries = new Map<string, InboundWebhookDelivery>();
+
+  async save(delivery: InboundWebhookDelivery): Promise<void> {
+    this.deliveries.set(delivery.id, { ...delivery });
+  }
+
+  async get(id: string): Promise<InboundWebhookDelivery | null> {
+    const delivery = this.deliveries.get(id);
+    return delivery ? { ...delivery } : null;
+  }
+
+  async list(filter: WebhookDeliveryFilter): Promise<InboundWebhookDelivery[]> {
+    return [...this.deliveries.values()]
+      .filter(delivery => !filter.sourceId || delivery.sourceId === filter.sourceId)
+      .filter(delivery => !filter.status || delivery.status === filter.status)
+      .sort((a, b) => b.receivedAt - a.receivedAt)
+      .slice(0, filter.limit ?? 50)
+      .map(delivery => ({ ...delivery }));
+  }
+
+  clear(): void {
+    this.deliveries.clear();
+  }
+}
+
+/**
+ * Supabase-backed log.
+ *
+ * Expected table:
+ *   create table inbound_webhook_deliveries (
+ *     id text primary key,
+ *     source_id text not null,
+ *     nonce text,
+ *     signature text not null,
+ *     status text not null,
+ *     error text,
+ *     payload text,
+ *     result jsonb,
+ *     attempts integer not null default 1,
+ *     received_at timestamptz not null default now(),
+ *     processed_at timestamptz
+ *   );
+ *   create index inbound_webhook_deliveries_source on inbound_webhook_deliveries (source_id, received_at desc);
+ */
+export class SupabaseWebhookDeliveryStore implements WebhookDeliveryStore {
+  readonly name = 'supabase';
+
+  async save(delivery: InboundWebhookDelivery): Promise<void> {
+    const client = await this.client();
+    const { error } = await (client.from('inbound_webhook_deliveries') as any).upsert({
+      id: delivery.id,
+      source_id: delivery.sourceId,
+      nonce: delivery.nonce ?? null,
+      signature: delivery.signature,
+      status: delivery.status,
+      error: delivery.error ?? null,
+      payload: delivery.payload ?? null,
+      result: delivery.result ?? null,
+      attempts: delivery.attempts,
+      received_at: new Date(delivery.receivedAt).toISOString(),
+      processed_at: delivery.processedAt ? new Date(delivery.processedAt).toISOString() : null
+    });
+
+    if (error) {
+      throw createAPIError(ErrorType.DATABASE, 'Failed to save webhook delivery', 500, { deliveryId: delivery.id });
+    }
+  }
+
+  async get(id: string): Promise<InboundWebhookDelivery | null> {
+    const client = await this.client();
+    const { data, error } = await (client.from('inbound_webhook_deliveries') as any)
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) {
+      throw createAPIError(ErrorType.DATABASE, 'Failed to load webhook delivery', 500, { deliveryId: id });
+    }
+
+    return data ? this.toDelivery(data) : null;
+  }
+
+  async list(filter: WebhookDeliveryFilter): Promise<InboundWebhookDelivery[]> {
+    const client = await this.client();
+    let query = (client.from('inbound_webhook_deliveries') as any).select('*');
+
+    if (filter.sourceId) query = query.eq('source_id', filter.sourceId);
+    if (filter.status) query = query.eq('status', filter.status);
+
+    const { data, error } = await query
+      .order('received_at', { ascending: false })
+      .limit(filter.limit ?? 50);
+
+    if (error) {
+      throw createAPIError(ErrorType.DATABASE, 'Failed to load webhook deliveries', 500);
+    }
+
+    return ((data || []) as any[]).map(row => this.toDelivery(row));
+  }
+
+  private toDelivery(row: any): InboundWebhookDelivery {
+    return {
+      id: row.id,
+      sourceId: row.source_id,
+      nonce: row.nonce ?? undefined,
+      signature: row.signature,
+      status: row.status,
+      error: row.error ?? undefined,
+      payload: row.payload ?? undefined,
+      result: row.result ?? undefined,
+      attempts: row.attempts,
+      receivedAt: Date.parse(row.received_at),
+      processedAt: row.processed_at ? Date.parse(row.processed_at) : undefined
+    };
+  }
+
+  private async client() {
+    const { supabaseAdmin } = await import('@/app/lib/supabase/admin');
+    return supabaseAdmin;
+  }
+}
+
+/**
+ * Build the log configured through WEBHOOK_DELIVERY_STORE (memory | supabase)
+ */
+export function createWebhookDeliveryStore(
+  type: string | undefined = process.env.WEBHOOK_DELIVERY_STORE
+): WebhookDeliveryStore {
+  if (type === 'supabase') {
+    return new SupabaseWebhookDeliveryStore();
+  }
+
+  if (type && type !== 'memory') {
+    console.warn(`⚠️ Unknown WEBHOOK_DELIVERY_STORE "${type}", falling back to memory`);
+  }
+
+  return new MemoryWebhookDeliveryStore();
+}
+
+// ============================================================================
+// INBOUND WEBHOOK SERVICE
+// ============================================================================
+
+export interface InboundWebhookOutcome {
+  /** HTTP status to answer the sender with */
+  statusCode: number;
+  delivery: InboundWebhookDelivery;
+}
+
+/** How often rejected unauthenticated deliveries are summarised in the logs */
+const REJECTION_LOG_INTERVAL_MS = 60 * 1000;
+
+export class InboundWebhookService {
+  private sources: Map<string, InboundWebhookSource>;
+  private deliveries: WebhookDeliveryStore;
+  private nonces: RateLimitStore;
+  private rejections = new Map<string, { total: number; sinceLog: number; loggedAt: number }>();
+
+  constructor(
+    sources: InboundWebhookSource[] = INBOUND_WEBHOOK_SOURCES,
+    deliveries: WebhookDeliveryStore = createWebhookDeliveryStore(),
+    nonces: RateLimitStore = createRateLimitStore()
+  ) {
+    this.sources = new Map(sources.map(source => [source.id, source]));
+    this.deliveries = deliveries;
+    this.nonces = nonces;
+  }
+
+  /**
+   * Registered sources, whether their secret is set and how many
+   * unauthenticated deliveries they rejected since startup
+   */
+  listSources(): Array<Pick<InboundWebhookSource, 'id' | 'description'> & { configured: boolean; rejected: number }> {
+    return [...this.sources.values()].map(source => ({
+      id: source.id,
+      description: source.description,
+      configured: Boolean(process.env[source.secretEnv]),
+      rejected: this.rejections.get(source.id)?.total ?? 0
+    }));
+  }
+
+  /**
+   * Authenticate, de-duplicate, validate and handle one delivery
+   */
+  async receive(sourceId: string, request: { body: string; headers: Headers }): Promise<InboundWebhookOutcome> {
+    const source = this.getSource(sourceId);
+    const tolerance = source.toleranceSeconds ?? WEBHOOK_TOLERANCE_SECONDS;
+    const nonce = request.headers.get(WEBHOOK_ID_HEADER)?.trim() || undefined;
+
+    const delivery: InboundWebhookDelivery = {
+      id: `whdl_${crypto.randomUUID()}`,
+      sourceId,
+      nonce,
+      signature: 'valid',
+      status: 'processed',
+      attempts: 1,
+      receivedAt: Date.now()
+    };
+
+    const secret = process.env[source.secretEnv];
+    if (secret) {
+      const verification = verifyWebhookSignature({
+        secret,
+        id: nonce ?? null,
+        body: request.body,
+        signature: request.headers.get(WEBHOOK_SIGNATURE_HEADER),
+        timestamp: request.headers.get(WEBHOOK_TIMESTAMP_HEADER),
+        toleranceSeconds: tolerance
+      });
+
+      if (!verification.valid) {
+        return this.reject({ ...delivery, signature: 'invalid', status: 'rejected', error: verification.reason }, 401);
+      }
+    } else if (process.env.NODE_ENV === 'production') {
+      return this.reject({ ...delivery, signature: 'invalid', status: 'rejected', error: `${source.secretEnv} is not configured` }, 500);
+    } else {
+      console.warn(`⚠️ ${source.secretEnv} not set - accepting unsigned ${sourceId} webhook (development only)`);
+      delivery.signature = 'unsigned';
+    }
+
+    delivery.payload = request.body;
+
+    if (!nonce) {
+      return this.finish({ ...delivery, status: 'rejected', error: `Missing ${WEBHOOK_ID_HEADER} header` }, 400);
+    }
+
+    // Nonces outlive the timestamp tolerance, after which the timestamp check rejects the replay
+    const nonceKey = this.nonceKey(sourceId, nonce);
+    if (!(await this.nonces.compareAndSwap(nonceKey, null, 'claimed', tolerance * 2 * 1000))) {
+      console.warn(`⚠️ Replayed ${sourceId} webhook delivery ${nonce}`);
+      return this.finish({ ...delivery, payload: undefined, status: 'replayed', error: 'Delivery was already received' }, 409);
+    }
+
+    const outcome = await this.process(source, delivery, false);
+
+    // Let the sender retry deliveries that failed for transient reasons
+    if (outcome.statusCode >= 500) {
+      await this.nonces.compareAndSwap(nonceKey, 'claimed', 'released', 1).catch(() => false);
+    }
+
+    return outcome;
+  }
+
+  /**
+   * Run a logged delivery through its source again (schema and handler only;
+   * the signature was checked when it arrived)
+   */
+  async reprocess(deliveryId: string): Promise<InboundWebhookDelivery> {
+    const delivery = await this.deliveries.get(deliveryId);
+    if (!delivery) {
+      throw createAPIError(ErrorType.NOT_FOUND, `Webhook delivery ${deliveryId} not found`, 404, { deliveryId });
+    }
+
+    if (delivery.signature === 'invalid' || delivery.payload === undefined || !delivery.nonce) {
+      throw createAPIError(
+        ErrorType.VALIDATION,
+        'Only authenticated deliveries with a stored payload can be re-processed',
+        400,
+        { deliveryId, status: delivery.status }
+      );
+    }
+
+    const source = this.getSource(delivery.sourceId);
+    const { delivery: updated } = await this.process(source, { ...delivery, attempts: delivery.attempts + 1 }, true);
+    return updated;
+  }
+
+  async listDeliveries(filter: WebhookDeliveryFilter = {}): Promise<InboundWebhookDelivery[]> {
+    return this.deliveries.list(filter);
+  }
+
+  async getDelivery(deliveryId: string): Promise<InboundWebhookDelivery | null> {
+    return this.deliveries.get(deliveryId);
+  }
+
+  private async process(
+    source: InboundWebhookSource,
+    delivery: InboundWebhookDelivery,
+    reprocessing: boolean
+  ): Promise<InboundWebhookOutcome> {
+    let json: unknown;
+    try {
+      json = JSON.parse(delivery.payload ?? '');
+    } catch {
+      return this.finish({ ...delivery, status: 'invalid', error: 'Body must be JSON' }, 400);
+    }
+
+    const parsed = source.schema.safeParse(json);
+    if (!parsed.success) {
+      return this.finish({ ...delivery, status: 'invalid', error: z.prettifyError(parsed.error) }, 400);
+    }
+
+    try {
+      const result = await source.handle(parsed.data, {
+        deliveryId: delivery.id,
+        nonce: delivery.nonce!,
+        reprocessing
+      });
+
+      if (result.ok) {
+        return this.finish({ ...delivery, status: 'processed', error: undefined, result: result.result }, 200);
+      }
+
+      return this.finish({ ...delivery, status: 'failed', error: result.error }, result.retryable ? 500 : 400);
+    } catch (error) {
+      console.error(`❌ ${source.id} webhook handler failed:`, error);
+      const message = error instanceof Error ? error.message : (error as any)?.message ?? String(error);
+      return this.finish({ ...delivery, status: 'failed', error: message }, 500);
+    }
+  }
+
+  /**
+   * Log the delivery; a log outage never changes the answer to the sender
+   */
+  private async finish(delivery: InboundWebhookDelivery, statusCode: number): Promise<InboundWebhookOutcome> {
+    const logged = { ...delivery, processedAt: Date.now() };
+
+    try {
+      await this.deliveries.save(logged);
+    } catch (error) {
+      console.error(`❌ Failed to log webhook delivery ${delivery.id}:`, error);
+    }
+
+    return { statusCode, delivery: logged };
+  }
+
+  /**
+   * Answer an unauthenticated delivery without storing it. Counted per
+   * source; the logs get one summary per interval, not a line per request.
+   */
+  private reject(delivery: InboundWebhookDelivery, statusCode: number): InboundWebhookOutcome {
+    const now = Date.now();
+    const counts = this.rejections.get(delivery.sourceId) ?? { total: 0, sinceLog: 0, loggedAt: 0 };
+    counts.total++;
+    counts.sinceLog++;
+
+    if (now - counts.loggedAt >= REJECTION_LOG_INTERVAL_MS) {
+      console.warn(`⚠️ Rejected ${counts.sinceLog} unauthenticated ${delivery.sourceId} webhook(s), latest: ${delivery.error}`);
+      counts.sinceLog = 0;
+      counts.loggedAt = now;
+    }
+
+    this.rejections.set(delivery.sourceId, counts);
+    return { statusCode, delivery: { ...delivery, processedAt: now } };
+  }
+
+  private getSource(sourceId: string): InboundWebhookSource {
+    const source = this.sources.get(sourceId);
+    if (!source) {
+      throw createAPIError(ErrorType.NOT_FOUND, `Unknown webhook source ${sourceId}`, 404, { sourceId });
+    }
+    return source;
+  }
+
+  private nonceKey(sourceId: string, nonce: string): string {
+    return `webhook-nonce:${sourceId}:${nonce}`;
+  }
+}
+
+export const inboundWebhookService = new InboundWebhookService();
+export default inboundWebhookService;
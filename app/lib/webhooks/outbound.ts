@@ -0,0 +1,829 @@
+/**
+ * FUNCTIONALITY STATUS: REAL
+ *
+ * REAL IMPLEMENTATIONS:
+ * - Customer-configurable webhook endpoints with per-endpoint event filters
+ * - Platform events (ICP generated, company rated, business case approved,
+ *   export ready) fanned out from the event bus to every subscribed endpoint
+ * - HMAC-SHA256 signed payloads (same x-webhook-* headers and signing scheme
+ *   as our inbound webhooks), with a per-endpoint secret that can be rotated
+ * - Delivery through the job queue with exponential backoff (8 attempts over
+ *   roughly an hour)
+ * - Delivery history with every attempt's status code, error and latency
+ * - "Send test event" delivered synchronously so the result shows immediately
+ * - Pluggable persistence (memory for development, Supabase for production)
+ *
+ * FAKE IMPLEMENTATIONS:
+ * - None - all functionality is production-ready
+ *
+ * MISSING REQUIREMENTS:
+ * - Supabase store needs the webhook_endpoints and outbound_webhook_deliveries
+ *   tables (see SupabaseOutboundWebhookStore)
+ * - Retries survive a restart only when the job queue uses a durable JobStore
+ *
+ * PRODUCTION READINESS: YES
+ * - Endpoints must use https and point at a public host in production; the
+ *   host is resolved before every delivery and private, loopback,
+ *   link-local, CGNAT and IPv4-mapped addresses are refused. The request
+ *   connects through the same check, so a DNS answer that changes between
+ *   the check and the request never reaches an internal address
+ * - Secrets are only returned when an endpoint is created or rotated
+ */
+
+import crypto from 'crypto';
+import { Agent } from 'undici';
+import { createAPIError, ErrorType } from '@/app/lib/middleware/error-handler';
+import {
+  WEBHOOK_ID_HEADER,
+  WEBHOOK_SIGNATURE_HEADER,
+  WEBHOOK_TIMESTAMP_HEADER,
+  signWebhookPayload
+} from '@/app/lib/utils/webhook-signature';
+import type { EventPayloadMap } from '@/app/lib/events/event-types';
+import type { JobProcessor, JobQueue } from '@/app/lib/queue/job-queue';
+import { HostLookup, assertPublicHost, isPrivateHostname, publicLookup } from '@/app/lib/utils/public-host';
+import { OUTBOUND_WEBHOOK_EVENTS, OutboundWebhookEventType, WEBHOOK_TEST_EVENT } from './events';
+
+export * from './events';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface WebhookEndpoint {
+  id: string;
+  customerId: string;
+  url: string;
+  description?: string;
+  events: OutboundWebhookEventType[];
+  /** Signing secret (whsec_...) */
+  secret: string;
+  active: boolean;
+  createdAt: number;
+  updatedAt: number;
+}
+
+/** Endpoint as shown after creation: the secret reduced to its last characters */
+export type WebhookEndpointView = Omit<WebhookEndpoint, 'secret'> & { secretPreview: string };
+
+/**
+ * Body POSTed to customer endpoints
+ */
+export interface OutboundWebhookEvent {
+  id: string;
+  type: OutboundWebhookEventType | typeof WEBHOOK_TEST_EVENT;
+  createdAt: string;
+  data: Record<string, unknown>;
+}
+
+export interface OutboundDeliveryAttempt {
+  attemptedAt: number;
+  statusCode?: number;
+  error?: string;
+  /** First 500 characters of the endpoint's response */
+  responseBody?: string;
+  durationMs: number;
+}
+
+/**
+ * pending: waiting for its next attempt; succeeded: the endpoint answered 2xx;
+ * failed: out of attempts (or the endpoint was removed)
+ */
+export type OutboundDeliveryStatus = 'pending' | 'succeeded' | 'failed';
+
+export interface OutboundWebhookDelivery {
+  id: string;
+  endpointId: string;
+  customerId: string;
+  eventId: string;
+  eventType: OutboundWebhookEvent['type'];
+  /** Serialized OutboundWebhookEvent, signed as-is on every attempt */
+  payload: string;
+  status: OutboundDeliveryStatus;
+  error?: string;
+  attempts: OutboundDeliveryAttempt[];
+  test: boolean;
+  createdAt: number;
+  completedAt?: number;
+}
+
+export interface OutboundDeliveryFilter {
+  customerId: string;
+  endpointId?: string;
+  limit?: number;
+}
+
+// ============================================================================
+// STORES
+// ============================================================================
+
+export interface OutboundWebhookStore {
+  readonly name: string;
+  saveEndpoint(endpoint: WebhookEndpoint): Promise<void>;
+  getEndpoint(id: string): Promise<WebhookEndpoint | null>;
+  listEndpoints(customerId: string): Promise<WebhookEndpoint[]>;
+  /** Removes the endpoint and its delivery history */
+  deleteEndpoint(id: string): Promise<void>;
+  saveDelivery(delivery: OutboundWebhookDelivery): Promise<void>;
+  getDelivery(id: string): Promise<OutboundWebhookDelivery | null>;
+  /** Newest first */
+  listDeliveries(filter: OutboundDeliveryFilter): Promise<OutboundWebhookDelivery[]>;
+}
+
+/**
+ * Process-local store. Endpoints reset on restart, so only use it for development.
+ */
+export class MemoryOutboundWebhookStore implements OutboundWebhookStore {
+  readonly name = 'memory';
+  private endpoints = new Map<string, WebhookEndpoint>();
+  private deliveries = new Map<string, OutboundWebhookDelivery>();
+
+  async saveEndpoint(endpoint: WebhookEndpoint): Promise<void> {
+    this.endpoints.set(endpoint.id, { ...endpoint, events: [...endpoint.events] });
+  }
+
+  async getEndpoint(id: string): Promise<WebhookEndpoint | null> {
+    const endpoint = this.endpoints.get(id);
+    return endpoint ? { ...endpoint, events: [...endpoint.events] } : null;
+  }
+
+  async listEndpoints(customerId: string): Promise<WebhookEndpoint[]> {
+    return [...this.endpoints.values()]
+      .filter(endpoint => endpoint.customerId === customerId)
+      .sort((a, b) => a.createdAt - b.createdAt)
+      .map(endpoint => ({ ...endpoint, events: [...endpoint.events] }));
+  }
+
+  async deleteEndpoint(id: string): Promise<void> {
+    this.endpoints.delete(id);
+    for (const [deliveryId, delivery] of this.deliveries) {
+      if (delivery.endpointId === id) this.deliveries.delete(deliveryId);
+    }
+  }
+
+  async saveDelivery(delivery: OutboundWebhookDelivery): Promise<void> {
+    this.deliveries.set(delivery.id, { ...delivery, attempts: [...delivery.attempts] });
+  }
+
+  async getDelivery(id: string): Promise<OutboundWebhookDelivery | null> {
+    const delivery = this.deliveries.get(id);
+    return delivery ? { ...delivery, attempts: [...delivery.attempts] } : null;
+  }
+
+  async listDeliveries(filter: OutboundDeliveryFilter): Promise<OutboundWebhookDelivery[]> {
+    return [...this.deliveries.values()]
+      .filter(delivery => delivery.customerId === filter.customerId)
+      .filter(delivery => !filter.endpointId || delivery.endpointId === filter.endpointId)
+      .sort((a, b) => b.createdAt - a.createdAt)
+      .slice(0, filter.limit ?? 50)
+      .map(delivery => ({ ...delivery, attempts: [...delivery.attempts] }));
+  }
+
+  clear(): void {
+    this.endpoints.clear();
+    this.deliveries.clear();
+  }
+}
+
+/**
+ * Supabase-backed store.
+ *
+ * Expected tables:
+ *   create table webhook_endpoints (
+ *     id text primary key,
+ *     customer_id text not null,
+ *     url text not null,
+ *     description text,
+ *     events text[] not null,
+ *     secret text not null,
+ *     active boolean not null default true,
+ *     created_at timestamptz not null default now(),
+ *     updated_at timestamptz not null default now()
+ *   );
+ *   create index webhook_endpoints_customer on webhook_endpoints (customer_id);
+ *
+ *   create table outbound_webhook_deliveries (
+ *     id text primary key,
+ *     endpoint_id text not null references webhook_endpoints (id) on delete cascade,
+ *     customer_id text not null,
+ *     event_id text not null,
+ *     event_type text not null,
+ *     payload text not null,
+ *     status text not null,
+ *     error text,
+ *     attempts jsonb not null default '[]',
+ *     test boolean not null default false,
+ *     created_at timestamptz not null default now(),
+ *     completed_at timestamptz
+ *   );
+ *   create index outbound_webhook_deliveries_customer on outbound_webhook_deliveries (customer_id, created_at desc);
+ */
+export class SupabaseOutboundWebhookStore implements OutboundWebhookStore {
+  readonly name = 'supabase';
+
+  async saveEndpoint(endpoint: WebhookEndpoint): Promise<void> {
+    const client = await this.client();
+    const { error } = await (client.from('webhook_endpoints') as any).upsert({
+      id: endpoint.id,
+      customer_id: endpoint.customerId,
+      url: endpoint.url,
+      description: endpoint.description ?? null,
+      events: endpoint.events,
+      secret: endpoint.secret,
+      active: endpoint.active,
+      created_at: new Date(endpoint.createdAt).toISOString(),
+      updated_at: new Date(endpoint.updatedAt).toISOString()
+    });
+
+    if (error) {
+      throw createAPIError(ErrorType.DATABASE, 'Failed to save webhook endpoint', 500, { endpointId: endpoint.id });
+    }
+  }
+
+  async getEndpoint(id: string): Promise<WebhookEndpoint | null> {
+    const client = await this.client();
+    const { data, error } = await (client.from('webhook_endpoints') as any)
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) {
+      throw createAPIError(ErrorType.DATABASE, 'Failed to load webhook endpoint', 500, { endpointId: id });
+    }
+
+    return data ? this.toEndpoint(data) : null;
+  }
+
+  async listEndpoints(customerId: string): Promise<WebhookEndpoint[]> {
+    const client = await this.client();
+    const { data, error } = await (client.from('webhook_endpoints') as any)
+      .select('*')
+      .eq('customer_id', customerId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      throw createAPIError(ErrorType.DATABASE, 'Failed to load webhook endpoints', 500, { customerId });
+    }
+
+    return ((data || []) as any[]).map(row => this.toEndpoint(row));
+  }
+
+  async deleteEndpoint(id: string): Promise<void> {
+    const client = await this.client();
+    const { error } = await (client.from('webhook_endpoints') as any).delete().eq('id', id);
+
+    if (error) {
+      throw createAPIError(ErrorType.DATABASE, 'Failed to delete webhook endpoint', 500, { endpointId: id });
+    }
+  }
+
+  async saveDelivery(delivery: OutboundWebhookDelivery): Promise<void> {
+    const client = await this.client();
+    const { error } = await (client.from('outbound_webhook_deliveries') as any).upsert({
+      id: delivery.id,
+      endpoint_id: delivery.endpointId,
+      customer_id: delivery.customerId,
+      event_id: delivery.eventId,
+      event_type: delivery.eventType,
+      payload: delivery.payload,
+      status: delivery.status,
+      error: delivery.error ?? null,
+      attempts: delivery.attempts,
+      test: delivery.test,
+      created_at: new Date(delivery.createdAt).toISOString(),
+      completed_at: delivery.completedAt ? new Date(delivery.completedAt).toISOString() : null
+    });
+
+    if (error) {
+      throw createAPIError(ErrorType.DATABASE, 'Failed to save webhook delivery', 500, { deliveryId: delivery.id });
+    }
+  }
+
+  async getDelivery(id: string): Promise<OutboundWebhookDelivery | null> {
+    const client = await this.client();
+    const { data, error } = await (client.from('outbound_webhook_deliveries') as any)
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) {
+      throw createAPIError(ErrorType.DATABASE, 'Failed to load webhook delivery', 500, { deliveryId: id });
+    }
+
+    return data ? this.toDelivery(data) : null;
+  }
+
+  async listDeliveries(filter: OutboundDeliveryFilter): Promise<OutboundWebhookDelivery[]> {
+    const client = await this.client();
+    let query = (client.from('outbound_webhook_deliveries') as any)
+      .select('*')
+      .eq('customer_id', filter.customerId);
+
+    if (filter.endpointId) query = query.eq('endpoint_id', filter.endpointId);
+
+    const { data, error } = await query
+      .order('created_at', { ascending: false })
+      .limit(filter.limit ?? 50);
+
+    if (error) {
+      throw createAPIError(ErrorType.DATABASE, 'Failed to load webhook deliveries', 500);
+    }
+
+    return ((data || []) as any[]).map(row => this.toDelivery(row));
+  }
+
+  private toEndpoint(row: any): WebhookEndpoint {
+    return {
+      id: row.id,
+      customerId: row.customer_id,
+      url: row.url,
+      description: row.description ?? undefined,
+      events: row.events ?? [],
+      secret: row.secret,
+      active: row.active,
+      createdAt: Date.parse(row.created_at),
+      updatedAt: Date.parse(row.updated_at)
+    };
+  }
+
+  private toDelivery(row: any): OutboundWebhookDelivery {
+    return {
+      id: row.id,
+      endpointId: row.endpoint_id,
+      customerId: row.customer_id,
+      eventId: row.event_id,
+      eventType: row.event_type,
+      payload: row.payload,
+      status: row.status,
+      error: row.error ?? undefined,
+      attempts: row.attempts ?? [],
+      test: Boolean(row.test),
+      createdAt: Date.parse(row.created_at),
+      completedAt: row.completed_at ? Date.parse(row.completed_at) : undefined
+    };
+  }
+
+  private async client() {
+    const { supabaseAdmin } = await import('@/app/lib/supabase/admin');
+    return supabaseAdmin;
+  }
+}
+
+/**
+ * Build the store configured through OUTBOUND_WEBHOOK_STORE (memory | supabase)
+ */
+export function createOutboundWebhookStore(
+  type: string | undefined = process.env.OUTBOUND_WEBHOOK_STORE
+): OutboundWebhookStore {
+  if (type === 'supabase') {
+    return new SupabaseOutboundWebhookStore();
+  }
+
+  if (type && type !== 'memory') {
+    console.warn(`⚠️ Unknown OUTBOUND_WEBHOOK_STORE "${type}", falling back to memory`);
+  }
+
+  return new MemoryOutboundWebhookStore();
+}
+
+// ============================================================================
+// OUTBOUND WEBHOOK SERVICE
+// ============================================================================
+
+export const OUTBOUND_WEBHOOK_JOB = 'outbound-webhook-delivery';
+
+/** Attempts per delivery; with a 30s base delay the last retry runs about an hour in */
+export const MAX_DELIVERY_ATTEMPTS = 8;
+const RETRY_BASE_DELAY_MS = 30 * 1000;
+const RETRY_MAX_DELAY_MS = 60 * 60 * 1000;
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+const MAX_ENDPOINTS_PER_CUSTOMER = 10;
+
+export interface OutboundDeliveryJobData {
+  deliveryId: string;
+}
+
+export interface WebhookEndpointInput {
+  url: string;
+  events: string[];
+  description?: string;
+}
+
+export interface WebhookEndpointChanges extends Partial<WebhookEndpointInput> {
+  active?: boolean;
+}
+
+export interface OutboundWebhookServiceOptions {
+  /** Queue retried deliveries run on (default: the shared job queue) */
+  queue?: Pick<JobQueue, 'add'>;
+  fetch?: typeof fetch;
+  /** DNS resolution for the public-host check before each delivery */
+  lookup?: HostLookup;
+}
+
+/**
+ * Hide all but the last characters of an endpoint's secret
+ */
+export function redactEndpoint(endpoint: WebhookEndpoint): WebhookEndpointView {
+  const { secret, ...view } = endpoint;
+  return { ...view, secretPreview: `whsec_••••${secret.slice(-4)}` };
+}
+
+export class OutboundWebhookService {
+  private store: OutboundWebhookStore;
+  private queue?: Pick<JobQueue, 'add'>;
+  private fetchImpl: typeof fetch;
+  private lookup?: HostLookup;
+  private publicAgent?: Agent;
+
+  constructor(
+    store: OutboundWebhookStore = createOutboundWebhookStore(),
+    options: OutboundWebhookServiceOptions = {}
+  ) {
+    this.store = store;
+    this.queue = options.queue;
+    this.fetchImpl = options.fetch ?? ((input, init) => fetch(input, init));
+    this.lookup = options.lookup;
+  }
+
+  // ==========================================================================
+  // ENDPOINTS
+  // ==========================================================================
+
+  async createEndpoint(customerId: string, input: WebhookEndpointInput): Promise<WebhookEndpoint> {
+    const existing = await this.store.listEndpoints(customerId);
+    if (existing.length >= MAX_ENDPOINTS_PER_CUSTOMER) {
+      throw createAPIError(
+        ErrorType.VALIDATION,
+        `A workspace can have at most ${MAX_ENDPOINTS_PER_CUSTOMER} webhook endpoints`,
+        400,
+        { customerId }
+      );
+    }
+
+    const now = Date.now();
+    const endpoint: WebhookEndpoint = {
+      id: `whep_${crypto.randomUUID()}`,
+      customerId,
+      url: this.validateUrl(input.url),
+      description: input.description?.trim() || undefined,
+      events: this.validateEvents(input.events),
+      secret: this.generateSecret(),
+      active: true,
+      createdAt: now,
+      updatedAt: now
+    };
+
+    await this.store.saveEndpoint(endpoint);
+    console.log(`🔗 Webhook endpoint ${endpoint.id} created for ${customerId}`);
+    return endpoint;
+  }
+
+  async listEndpoints(customerId: string): Promise<WebhookEndpoint[]> {
+    return this.store.listEndpoints(customerId);
+  }
+
+  async updateEndpoint(customerId: string, endpointId: string, changes: WebhookEndpointChanges): Promise<WebhookEndpoint> {
+    const endpoint = await this.getOwnedEndpoint(customerId, endpointId);
+
+    const updated: WebhookEndpoint = {
+      ...endpoint,
+      url: changes.url !== undefined ? this.validateUrl(changes.url) : endpoint.url,
+      events: changes.events !== undefined ? this.validateEvents(changes.events) : endpoint.events,
+      description: changes.description !== undefined ? changes.description.trim() || undefined : endpoint.description,
+      active: changes.active ?? endpoint.active,
+      updatedAt: Date.now()
+    };
+
+    await this.store.saveEndpoint(updated);
+    return updated;
+  }
+
+  /**
+   * Issue a new signing secret; deliveries signed with the old one stop verifying
+   */
+  async rotateSecret(customerId: string, endpointId: string): Promise<WebhookEndpoint> {
+    const endpoint = await this.getOwnedEndpoint(customerId, endpointId);
+    const updated = { ...endpoint, secret: this.generateSecret(), updatedAt: Date.now() };
+
+    await this.store.saveEndpoint(updated);
+    return updated;
+  }
+
+  async deleteEndpoint(customerId: string, endpointId: string): Promise<void> {
+    await this.getOwnedEndpoint(customerId, endpointId);
+    await this.store.deleteEndpoint(endpointId);
+  }
+
+  // ==========================================================================
+  // DELIVERIES
+  // ==========================================================================
+
+  /**
+   * Queue a delivery of the event to every active endpoint of its customer
+   * that subscribes to it
+   */
+  async dispatch<K extends OutboundWebhookEventType>(
+    eventType: K,
+    payload: EventPayloadMap[K],
+    eventId: string = `evt_${crypto.randomUUID()}`
+  ): Promise<OutboundWebhookDelivery[]> {
+    const endpoints = (await this.store.listEndpoints(payload.customerId))
+      .filter(endpoint => endpoint.active && endpoint.events.includes(eventType));
+
+    if (endpoints.length === 0) return [];
+
+    const { timestamp, ...data } = payload;
+    const body = JSON.stringify({
+      id: eventId,
+      type: eventType,
+      createdAt: new Date(timestamp).toISOString(),
+      data
+    } satisfies OutboundWebhookEvent);
+
+    const queue = await this.getQueue();
+    const deliveries: OutboundWebhookDelivery[] = [];
+
+    for (const endpoint of endpoints) {
+      const delivery = this.newDelivery(endpoint, eventId, eventType, body, false);
+      await this.store.saveDelivery(delivery);
+
+      queue.add<OutboundDeliveryJobData>(OUTBOUND_WEBHOOK_JOB, { deliveryId: delivery.id }, {
+        jobId: delivery.id,
+        attempts: MAX_DELIVERY_ATTEMPTS,
+        backoff: 'exponential',
+        backoffDelay: RETRY_BASE_DELAY_MS,
+        maxBackoffDelay: RETRY_MAX_DELAY_MS,
+        timeout: REQUEST_TIMEOUT_MS * 2
+      });
+
+      deliveries.push(delivery);
+    }
+
+    console.log(`📤 Queued ${eventType} for ${deliveries.length} webhook endpoint(s)`);
+    return deliveries;
+  }
+
+  /**
+   * Make one delivery attempt. Failures stay pending until `finalAttempt`,
+   * so the caller (the job processor) decides whether to retry.
+   */
+  async deliver(deliveryId: string, options: { finalAttempt?: boolean } = {}): Promise<OutboundWebhookDelivery> {
+    const delivery = await this.store.getDelivery(deliveryId);
+    if (!delivery) {
+      throw createAPIError(ErrorType.NOT_FOUND, `Webhook delivery ${deliveryId} not found`, 404, { deliveryId });
+    }
+
+    if (delivery.status !== 'pending') return delivery;
+
+    const endpoint = await this.store.getEndpoint(delivery.endpointId);
+    if (!endpoint || (!endpoint.active && !delivery.test)) {
+      return this.saveDelivery({
+        ...delivery,
+        status: 'failed',
+        error: endpoint ? 'Endpoint was disabled' : 'Endpoint was removed',
+        completedAt: Date.now()
+      });
+    }
+
+    const attempt = await this.post(endpoint, delivery);
+    const succeeded = attempt.statusCode !== undefined && attempt.statusCode >= 200 && attempt.statusCode < 300;
+    const status: OutboundDeliveryStatus = succeeded ? 'succeeded' : options.finalAttempt ? 'failed' : 'pending';
+
+    return this.saveDelivery({
+      ...delivery,
+      status,
+      error: succeeded ? undefined : attempt.error,
+      attempts: [...delivery.attempts, attempt],
+      completedAt: status === 'pending' ? undefined : Date.now()
+    });
+  }
+
+  /**
+   * Deliver a sample event to one endpoint right away (single attempt)
+   */
+  async sendTestEvent(customerId: string, endpointId: string): Promise<OutboundWebhookDelivery> {
+    const endpoint = await this.getOwnedEndpoint(customerId, endpointId);
+    const eventId = `evt_${crypto.randomUUID()}`;
+    const body = JSON.stringify({
+      id: eventId,
+      type: WEBHOOK_TEST_EVENT,
+      createdAt: new Date().toISOString(),
+      data: {
+        customerId,
+        message: 'This is a test event. Verify its signature the same way as real events.',
+        subscribedEvents: endpoint.events
+      }
+    } satisfies OutboundWebhookEvent);
+
+    const delivery = this.newDelivery(endpoint, eventId, WEBHOOK_TEST_EVENT, body, true);
+    await this.store.saveDelivery(delivery);
+
+    return this.deliver(delivery.id, { finalAttempt: true });
+  }
+
+  async listDeliveries(filter: OutboundDeliveryFilter): Promise<OutboundWebhookDelivery[]> {
+    return this.store.listDeliveries(filter);
+  }
+
+  // ==========================================================================
+  // HELPERS
+  // ==========================================================================
+
+  private async post(endpoint: WebhookEndpoint, delivery: OutboundWebhookDelivery): Promise<OutboundDeliveryAttempt> {
+    const attemptedAt = Date.now();
+    const timestamp = Math.floor(attemptedAt / 1000);
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+
+    try {
+      // Resolved on every attempt: the host may point somewhere internal by
+      // now. The connection re-checks the address it actually dials.
+      const production = process.env.NODE_ENV === 'production';
+      if (production) {
+        await assertPublicHost(new URL(endpoint.url).hostname, this.lookup);
+      }
+
+      const response = await this.fetchImpl(endpoint.url, {
+        ...(production ? { dispatcher: this.getPublicAgent() } : {}),
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'Andru-Webhooks/1.0',
+          'x-webhook-event': delivery.eventType,
+          // The event id stays the same across retries so receivers can de-duplicate
+          [WEBHOOK_ID_HEADER]: delivery.eventId,
+          [WEBHOOK_TIMESTAMP_HEADER]: String(timestamp),
+          [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(endpoint.secret, timestamp, delivery.eventId, delivery.payload)
+        },
+        body: delivery.payload,
+        redirect: 'manual',
+        signal: controller.signal
+      });
+      const responseBody = (await response.text().catch(() => '')).slice(0, 500);
+
+      return {
+        attemptedAt,
+        statusCode: response.status,
+        error: response.ok ? undefined : `Endpoint responded with ${response.status}`,
+        responseBody: responseBody || undefined,
+        durationMs: Date.now() - attemptedAt
+      };
+    } catch (error) {
+      // fetch reports connection failures (a refused address included) as its cause
+      const cause = error instanceof Error && error.cause instanceof Error ? error.cause : error;
+      const message = controller.signal.aborted
+        ? `Timed out after ${REQUEST_TIMEOUT_MS / 1000}s`
+        : cause instanceof Error ? cause.message : String(cause);
+
+      return { attemptedAt, error: message, durationMs: Date.now() - attemptedAt };
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Connection pool that only dials public addresses
+   */
+  private getPublicAgent(): Agent {
+    this.publicAgent ??= new Agent({ connect: { lookup: publicLookup(this.lookup) } });
+    return this.publicAgent;
+  }
+
+  private newDelivery(
+    endpoint: WebhookEndpoint,
+    eventId: string,
+    eventType: OutboundWebhookDelivery['eventType'],
+    payload: string,
+    test: boolean
+  ): OutboundWebhookDelivery {
+    return {
+      id: `whod_${crypto.randomUUID()}`,
+      endpointId: endpoint.id,
+      customerId: endpoint.customerId,
+      eventId,
+      eventType,
+      payload,
+      status: 'pending',
+      attempts: [],
+      test,
+      createdAt: Date.now()
+    };
+  }
+
+  private async saveDelivery(delivery: OutboundWebhookDelivery): Promise<OutboundWebhookDelivery> {
+    await this.store.saveDelivery(delivery);
+    return delivery;
+  }
+
+  private async getOwnedEndpoint(customerId: string, endpointId: string): Promise<WebhookEndpoint> {
+    const endpoint = await this.store.getEndpoint(endpointId);
+
+    // Someone else's endpoint is reported as missing rather than forbidden
+    if (!endpoint || endpoint.customerId !== customerId) {
+      throw createAPIError(ErrorType.NOT_FOUND, `Webhook endpoint ${endpointId} not found`, 404, { endpointId });
+    }
+
+    return endpoint;
+  }
+
+  private validateUrl(url: string): string {
+    let parsed: URL;
+    try {
+      parsed = new URL(url.trim());
+    } catch {
+      throw createAPIError(ErrorType.VALIDATION, 'Webhook URL is not a valid URL', 400, { url });
+    }
+
+    const production = process.env.NODE_ENV === 'production';
+    const localHttp = parsed.protocol === 'http:' && isPrivateHostname(parsed.hostname) && !production;
+
+    if (parsed.protocol !== 'https:' && !localHttp) {
+      throw createAPIError(ErrorType.VALIDATION, 'Webhook URLs must use https', 400, { url });
+    }
+
+    if (production && isPrivateHostname(parsed.hostname)) {
+      throw createAPIError(ErrorType.VALIDATION, 'Webhook URLs must point to a public host', 400, { url });
+    }
+
+    if (parsed.username || parsed.password) {
+      throw createAPIError(ErrorType.VALIDATION, 'Webhook URLs must not contain credentials', 400);
+    }
+
+    return parsed.toString();
+  }
+
+  private validateEvents(events: string[]): OutboundWebhookEventType[] {
+    const unique = [...new Set(events)];
+    const unknown = unique.filter(event => !(OUTBOUND_WEBHOOK_EVENTS as readonly string[]).includes(event));
+
+    if (unknown.length > 0) {
+      throw createAPIError(ErrorType.VALIDATION, `Unknown webhook events: ${unknown.join(', ')}`, 400, {
+        allowed: OUTBOUND_WEBHOOK_EVENTS
+      });
+    }
+
+    if (unique.length === 0) {
+      throw createAPIError(ErrorType.VALIDATION, 'Select at least one event', 400);
+    }
+
+    return unique as OutboundWebhookEventType[];
+  }
+
+  private generateSecret(): string {
+    return `whsec_${crypto.randomBytes(24).toString('hex')}`;
+  }
+
+  private async getQueue(): Promise<Pick<JobQueue, 'add'>> {
+    if (this.queue) return this.queue;
+    const { jobQueue } = await import('@/app/lib/queue/job-queue');
+    return jobQueue;
+  }
+}
+
+export const outboundWebhookService = new OutboundWebhookService();
+
+// ============================================================================
+// REGISTRATION
+// ============================================================================
+
+/**
+ * Job processor: one attempt per run; throwing hands the delivery back to the
+ * queue's backoff until its last attempt
+ */
+export const outboundWebhookDeliveryProcessor: JobProcessor<OutboundDeliveryJobData> = async (job) => {
+  const finalAttempt = job.attempts >= job.opts.attempts;
+  const delivery = await outboundWebhookService.deliver(job.data.deliveryId, { finalAttempt });
+
+  if (delivery.status === 'pending') {
+    throw new Error(`Webhook delivery ${delivery.id} failed (attempt ${job.attempts}/${job.opts.attempts}): ${delivery.error}`);
+  }
+
+  return { deliveryId: delivery.id, status: delivery.status };
+};
+
+let registered = false;
+
+/**
+ * Subscribe customer webhooks to platform events and register the delivery
+ * processor. Safe to call more than once.
+ */
+export async function registerOutboundWebhooks(): Promise<void> {
+  if (registered) return;
+  registered = true;
+
+  const [{ jobQueue }, { default: eventBus }] = await Promise.all([
+    import('@/app/lib/queue/job-queue'),
+    import('@/app/lib/events/EventBus')
+  ]);
+
+  jobQueue.process(OUTBOUND_WEBHOOK_JOB, outboundWebhookDeliveryProcessor);
+
+  for (const eventType of OUTBOUND_WEBHOOK_EVENTS) {
+    eventBus.on(eventType, async (event, payload) => {
+      await outboundWebhookService.dispatch(eventType, payload, event.id);
+    });
+  }
+}
+
+export default outboundWebhookService;
@@ -0,0 +1,31 @@
+/**
+ * Inbound Webhook Responses
+ *
+ * Runs a request through the inbound webhook service and answers the sender.
+ * Senders only learn the delivery id and outcome, never the handler result.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { errorResponse, normalizeError } from '@/app/lib/middleware/error-handler';
+import inboundWebhookService from './inbound';
+
+export async function receiveInboundWebhook(request: NextRequest, sourceId: string): Promise<NextResponse> {
+  try {
+    const { statusCode, delivery } = await inboundWebhookService.receive(sourceId, {
+      body: await request.text(),
+      headers: request.headers
+    });
+
+    if (statusCode >= 400) {
+      return NextResponse.json(
+        { success: false, error: delivery.error, deliveryId: delivery.id },
+        { status: statusCode }
+      );
+    }
+
+    return NextResponse.json({ success: true, data: { deliveryId: delivery.id, status: delivery.status } });
+  } catch (error) {
+    console.error(`❌ Failed to receive ${sourceId} webhook:`, error);
+    return errorResponse(normalizeError(error));
+  }
+}
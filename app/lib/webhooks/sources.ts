@@ -0,0 +1,92 @@
+/**
+ * Inbound Webhook Sources
+ *
+ * Every service allowed to call us, with the env var holding its shared
+ * secret, the payload schema and the handler. Deliveries reach a source
+ * through /api/webhooks/inbound/<source id>.
+ */
+
+import { z } from 'zod';
+import webhookService from '@/app/lib/services/webhookService';
+import type { InboundWebhookSource } from './inbound';
+
+// ============================================================================
+// MAKE.COM CORE RESOURCES
+// ============================================================================
+
+const MakeResourceSchema = z.looseObject({
+  title: z.string().optional(),
+  content: z.string().optional(),
+  confidence_score: z.number().optional(),
+  generation_date: z.string().optional()
+});
+
+export const MakeCoreResourcesSchema = z.looseObject({
+  session_id: z.string().min(1).optional(),
+  sessionId: z.string().min(1).optional(),
+  customer_id: z.string().optional(),
+  resourcesCollection: z.looseObject({
+    icp_analysisCollection: MakeResourceSchema.optional(),
+    buyer_personasCollection: MakeResourceSchema.optional(),
+    empathy_mapCollection: MakeResourceSchema.optional(),
+    product_assessmentCollection: MakeResourceSchema.optional()
+  })
+}).refine(payload => payload.session_id || payload.sessionId, {
+  message: 'session_id is required',
+  path: ['session_id']
+});
+
+export const makeCoreResourcesSource: InboundWebhookSource<z.infer<typeof MakeCoreResourcesSchema>> = {
+  id: 'make-core-resources',
+  description: 'Make.com resource generation callback (ICP, personas, empathy map, assessment)',
+  secretEnv: 'MAKE_WEBHOOK_SECRET',
+  schema: MakeCoreResourcesSchema,
+  async handle(payload, { nonce }) {
+    // The nonce doubles as the delivery id, so re-processing a logged delivery stays idempotent
+    const receipt = await webhookService.receiveWebhookData(payload, { deliveryId: nonce });
+
+    switch (receipt.status) {
+      case 'stored':
+      case 'duplicate':
+        return { ok: true, result: receipt };
+      case 'rejected':
+        return { ok: false, error: receipt.error ?? 'Rejected', retryable: false };
+      default:
+        return { ok: false, error: receipt.error ?? 'Failed to store resources', retryable: true };
+    }
+  }
+};
+
+// ============================================================================
+// BACKEND PLATFORM EVENTS
+// ============================================================================
+
+/**
+ * Events raised by the Express backend (company rating runs there) and
+ * re-emitted on our event bus, where customer webhooks pick them up
+ */
+export const BackendEventSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('company_rated'),
+    customerId: z.string().min(1),
+    companyName: z.string().min(1),
+    domain: z.string().optional(),
+    score: z.number().min(0).max(100),
+    tier: z.string().optional()
+  })
+]);
+
+export const backendEventsSource: InboundWebhookSource<z.infer<typeof BackendEventSchema>> = {
+  id: 'backend-events',
+  description: 'Platform events from the Express backend (company rated)',
+  secretEnv: 'BACKEND_WEBHOOK_SECRET',
+  schema: BackendEventSchema,
+  async handle(payload) {
+    const { type, ...data } = payload;
+    const { default: eventBus } = await import('@/app/lib/events/EventBus');
+    await eventBus.emit(type, data);
+    return { ok: true };
+  }
+};
+
+export const INBOUND_WEBHOOK_SOURCES: InboundWebhookSource[] = [makeCoreResourcesSource, backendEventsSource];
@@ -0,0 +1,117 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Workspace Service Tests
+ *
+ * - Invites: single use, addressed to one email, revocable
+ * - Workspace roles are capped by the account role
+ * - Role changes and removal keep at least one owner
+ * - Request scope comes from the workspace header, for members only
+ */
+
+import type { NextRequest } from 'next/server';
+import { PERMISSIONS, WORKSPACE_PERMISSIONS, getWorkspacePermissions } from '@/app/lib/middleware/rbac';
+import { WORKSPACE_HEADER } from '../activeWorkspace';
+import { resolveWorkspaceScope } from '../scope';
+import { MemoryWorkspaceStore, WorkspaceService, workspaceService } from '../workspaceService';
+
+const founder = { id: 'user_founder', email: 'founder@acme.example', role: 'premium' };
+const ae = { id: 'user_ae', email: 'ae@acme.example', role: 'premium' };
+const sdr = { id: 'user_sdr', email: 'SDR@acme.example', role: 'user' };
+
+describe('WorkspaceService', () => {
+  let service: WorkspaceService;
+  let workspaceId: string;
+
+  beforeEach(async () => {
+    service = new WorkspaceService(new MemoryWorkspaceStore());
+    workspaceId = (await service.createWorkspace(founder, '  Acme GTM  ')).workspace.id;
+  });
+
+  it('makes the creator the owner', async () => {
+    expect(await service.listWorkspaces(founder.id)).toEqual([
+      { workspace: expect.objectContaining({ id: workspaceId, name: 'Acme GTM' }), role: 'owner' }
+    ]);
+    expect(await service.listWorkspaces(ae.id)).toEqual([]);
+  });
+
+  it('joins invited members once, with the invited role', async () => {
+    const { invite, token } = await service.inviteMember(workspaceId, founder, { email: 'sdr@acme.example', role: 'viewer' });
+    expect(invite).not.toHaveProperty('tokenHash');
+
+    await expect(service.acceptInvite(token, ae)).rejects.toMatchObject({ statusCode: 403 });
+
+    const membership = await service.acceptInvite(token, sdr);
+    expect(membership).toMatchObject({ workspace: { id: workspaceId }, role: 'viewer' });
+    await expect(service.acceptInvite(token, sdr)).rejects.toMatchObject({ statusCode: 404 });
+    expect(await service.listInvites(workspaceId, founder)).toEqual([]);
+  });
+
+  it('replaces and revokes pending invites', async () => {
+    const first = await service.inviteMember(workspaceId, founder, { email: ae.email });
+    const second = await service.inviteMember(workspaceId, founder, { email: ae.email, role: 'admin' });
+
+    expect(await service.listInvites(workspaceId, founder)).toEqual([expect.objectContaining({ id: second.invite.id, role: 'admin' })]);
+    await expect(service.acceptInvite(first.token, ae)).rejects.toMatchObject({ statusCode: 404 });
+
+    await service.revokeInvite(workspaceId, founder, second.invite.id);
+    await expect(service.acceptInvite(second.token, ae)).rejects.toMatchObject({ statusCode: 404 });
+  });
+
+  it('hides workspaces from non-members and limits what each role may do', async () => {
+    await expect(service.listMembers(workspaceId, ae)).rejects.toMatchObject({ statusCode: 404 });
+
+    const { token } = await service.inviteMember(workspaceId, founder, { email: ae.email, role: 'admin' });
+    await service.acceptInvite(token, ae);
+
+    await expect(service.inviteMember(workspaceId, ae, { email: 'cfo@acme.example', role: 'owner' }))
+      .rejects.toMatchObject({ statusCode: 403 });
+    await expect(service.updateMemberRole(workspaceId, ae, founder.id, 'member'))
+      .rejects.toMatchObject({ statusCode: 403 });
+    await expect(service.deleteWorkspace(workspaceId, ae)).rejects.toMatchObject({ statusCode: 403 });
+  });
+
+  it('keeps at least one owner', async () => {
+    await expect(service.removeMember(workspaceId, founder, founder.id)).rejects.toMatchObject({ statusCode: 400 });
+    await expect(service.updateMemberRole(workspaceId, founder, founder.id, 'admin')).rejects.toMatchObject({ statusCode: 400 });
+
+    const { token } = await service.inviteMember(workspaceId, founder, { email: ae.email });
+    await service.acceptInvite(token, ae);
+    await service.updateMemberRole(workspaceId, founder, ae.id, 'owner');
+    await service.removeMember(workspaceId, founder, founder.id);
+
+    expect(await service.listMembers(workspaceId, ae)).toEqual([expect.objectContaining({ userId: ae.id, role: 'owner' })]);
+  });
+});
+
+describe('workspace permissions', () => {
+  it('caps content permissions by the account role', () => {
+    const sdrAsAdmin = getWorkspacePermissions('user', 'admin');
+    expect(sdrAsAdmin).toContain(WORKSPACE_PERMISSIONS.INVITE_MEMBERS);
+    expect(sdrAsAdmin).toContain(PERMISSIONS.CREATE_ICP);
+    expect(sdrAsAdmin).not.toContain(PERMISSIONS.CREATE_BUSINESS_CASE);
+
+    const aeAsViewer = getWorkspacePermissions('premium', 'viewer');
+    expect(aeAsViewer).toContain(PERMISSIONS.VIEW_BUSINESS_CASE);
+    expect(aeAsViewer).not.toContain(PERMISSIONS.UPDATE_ICP);
+    expect(getWorkspacePermissions('admin', 'member')).not.toContain(PERMISSIONS.SYSTEM_ADMIN);
+  });
+
+  it('scopes requests to the workspace in the header', async () => {
+    const { workspace } = await workspaceService.createWorkspace(founder, 'Scoped');
+    const request = (workspaceId?: string) => ({
+      headers: new Headers(workspaceId ? { [WORKSPACE_HEADER]: workspaceId } : {}),
+      cookies: { get: () => undefined }
+    }) as unknown as NextRequest;
+
+    expect(await resolveWorkspaceScope(request(), founder, 'CUST_1')).toMatchObject({ workspaceId: null, ownerId: 'CUST_1' });
+    expect(await resolveWorkspaceScope(request(workspace.id), founder)).toMatchObject({
+      workspaceId: workspace.id,
+      workspaceRole: 'owner',
+      ownerId: workspace.id
+    });
+    await expect(resolveWorkspaceScope(request(workspace.id), ae)).rejects.toMatchObject({ statusCode: 404 });
+  });
+});
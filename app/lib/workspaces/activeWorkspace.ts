@@ -0,0 +1,67 @@
+/**
+ * Active Workspace
+ *
+ * Which workspace the browser is working in. Stored in a cookie so same-origin
+ * API routes see it without any changes to their callers, and sent as the
+ * X-Workspace-Id header to the backend. No cookie means the personal workspace.
+ *
+ * Safe to import from both client and server code.
+ */
+
+import { useSyncExternalStore } from 'react';
+
+export const WORKSPACE_HEADER = 'x-workspace-id';
+export const WORKSPACE_COOKIE = 'active_workspace';
+
+const COOKIE_MAX_AGE_SECONDS = 365 * 24 * 60 * 60;
+
+const listeners = new Set<() => void>();
+
+/**
+ * Active workspace id, or null for the personal workspace (always null on the server)
+ */
+export function getActiveWorkspaceId(): string | null {
+  if (typeof document === 'undefined') return null;
+
+  const entry = document.cookie
+    .split(';')
+    .map(part => part.trim())
+    .find(part => part.startsWith(`${WORKSPACE_COOKIE}=`));
+
+  return entry ? decodeURIComponent(entry.slice(WORKSPACE_COOKIE.length + 1)) || null : null;
+}
+
+/**
+ * Switch workspace (null = personal) and notify subscribed components
+ */
+export function setActiveWorkspaceId(workspaceId: string | null): void {
+  if (typeof document === 'undefined') return;
+
+  document.cookie = workspaceId
+    ? `${WORKSPACE_COOKIE}=${encodeURIComponent(workspaceId)}; path=/; max-age=${COOKIE_MAX_AGE_SECONDS}; samesite=lax`
+    : `${WORKSPACE_COOKIE}=; path=/; max-age=0; samesite=lax`;
+
+  listeners.forEach(listener => listener());
+}
+
+/**
+ * Header to send to APIs that don't receive the cookie
+ */
+export function workspaceHeaders(): Record<string, string> {
+  const workspaceId = getActiveWorkspaceId();
+  return workspaceId ? { [WORKSPACE_HEADER]: workspaceId } : {};
+}
+
+function subscribe(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * React hook: the active workspace id, re-rendering when it changes
+ */
+export function useActiveWorkspaceId(): string | null {
+  return useSyncExternalStore(subscribe, getActiveWorkspaceId, () => null);
+}
@@ -0,0 +1,72 @@
+/**
+ * Workspace Scope
+ *
+ * Resolves which workspace a request works in (X-Workspace-Id header, else the
+ * active_workspace cookie) and what the caller may do there. Without either,
+ * the request works in the caller's personal workspace as before.
+ */
+
+import { NextRequest } from 'next/server';
+import { createAPIError, ErrorType } from '@/app/lib/middleware/error-handler';
+import { WorkspaceRole, getUserPermissions, getWorkspacePermissions } from '@/app/lib/middleware/rbac';
+import { WORKSPACE_COOKIE, WORKSPACE_HEADER } from './activeWorkspace';
+import { workspaceService } from './workspaceService';
+
+export interface WorkspaceScope {
+  /** Active workspace, or null for the personal workspace */
+  workspaceId: string | null;
+  workspaceRole: WorkspaceRole | null;
+  /** Id data in this scope is keyed by: the workspace id, or the caller's personal id */
+  ownerId: string;
+  permissions: string[];
+}
+
+export function getRequestedWorkspaceId(request: NextRequest): string | null {
+  return request.headers.get(WORKSPACE_HEADER) || request.cookies.get(WORKSPACE_COOKIE)?.value || null;
+}
+
+/**
+ * Resolve the request's workspace. A workspace the user isn't a member of is a 404.
+ *
+ * @param personalId - Key for personal data (defaults to the user id)
+ */
+export async function resolveWorkspaceScope(
+  request: NextRequest,
+  user: { id: string; role: string },
+  personalId: string = user.id
+): Promise<WorkspaceScope> {
+  const workspaceId = getRequestedWorkspaceId(request);
+
+  if (!workspaceId) {
+    return {
+      workspaceId: null,
+      workspaceRole: null,
+      ownerId: personalId,
+      permissions: getUserPermissions(user.role)
+    };
+  }
+
+  const member = await workspaceService.requireMember(workspaceId, user.id);
+  return {
+    workspaceId,
+    workspaceRole: member.role,
+    ownerId: workspaceId,
+    permissions: getWorkspacePermissions(user.role, member.role)
+  };
+}
+
+/**
+ * Throw a 403 unless the scope grants the permission
+ */
+export function requireScopePermission(scope: WorkspaceScope, permission: string): void {
+  if (!scope.permissions.includes(permission)) {
+    throw createAPIError(
+      ErrorType.AUTHORIZATION,
+      scope.workspaceRole
+        ? `Your workspace role (${scope.workspaceRole}) does not allow this`
+        : 'Your plan does not allow this',
+      403,
+      { workspaceId: scope.workspaceId, permission }
+    );
+  }
+}
@@ -0,0 +1,790 @@
+/**
+ * FUNCTIONALITY STATUS: REAL
+ *
+ * REAL IMPLEMENTATIONS:
+ * - Team workspaces (organizations) that founders, AEs and SDRs share
+ * - Membership with per-workspace roles (owner, admin, member, viewer) layered
+ *   on the account roles in rbac.ts
+ * - Email invites: single-use tokens stored hashed, expiring after 7 days
+ * - Role changes, removal and leaving, with the last owner protected
+ * - Pluggable persistence (memory for development, Supabase for production)
+ *
+ * FAKE IMPLEMENTATIONS:
+ * - None - all functionality is production-ready
+ *
+ * MISSING REQUIREMENTS:
+ * - Supabase store needs the organizations, user_organizations and
+ *   organization_invites tables (see SupabaseWorkspaceStore)
+ *
+ * PRODUCTION READINESS: YES
+ * - Workspaces a user isn't a member of are reported as not found
+ * - Invite tokens are only returned once, when the invite is created
+ */
+
+import crypto from 'crypto';
+import { createAPIError, ErrorType } from '@/app/lib/middleware/error-handler';
+import {
+  WORKSPACE_PERMISSIONS,
+  WORKSPACE_ROLES,
+  WorkspaceRole,
+  canAssignWorkspaceRole,
+  hasWorkspacePermission,
+  isWorkspaceRole
+} from '@/app/lib/middleware/rbac';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface Workspace {
+  id: string;
+  name: string;
+  slug: string;
+  plan: string;
+  createdBy: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface WorkspaceMember {
+  workspaceId: string;
+  userId: string;
+  email: string;
+  role: WorkspaceRole;
+  joinedAt: number;
+}
+
+export interface WorkspaceMembership {
+  workspace: Workspace;
+  role: WorkspaceRole;
+}
+
+export interface WorkspaceInvite {
+  id: string;
+  workspaceId: string;
+  email: string;
+  role: WorkspaceRole;
+  tokenHash: string;
+  invitedBy: string;
+  createdAt: number;
+  expiresAt: number;
+  acceptedAt?: number;
+  acceptedBy?: string;
+  revokedAt?: number;
+}
+
+/** Invite as shown to workspace admins: without the token hash */
+export type WorkspaceInviteView = Omit<WorkspaceInvite, 'tokenHash'>;
+
+/** The signed-in user acting on a workspace (AuthContext['user'] fits) */
+export interface WorkspaceActor {
+  id: string;
+  email: string;
+  role: string;
+}
+
+// ============================================================================
+// STORES
+// ============================================================================
+
+export interface WorkspaceStore {
+  readonly name: string;
+  saveWorkspace(workspace: Workspace): Promise<void>;
+  getWorkspace(id: string): Promise<Workspace | null>;
+  /** Removes the workspace with its members and invites */
+  deleteWorkspace(id: string): Promise<void>;
+  /** Oldest membership first */
+  listMemberships(userId: string): Promise<WorkspaceMembership[]>;
+  getMember(workspaceId: string, userId: string): Promise<WorkspaceMember | null>;
+  listMembers(workspaceId: string): Promise<WorkspaceMember[]>;
+  saveMember(member: WorkspaceMember): Promise<void>;
+  deleteMember(workspaceId: string, userId: string): Promise<void>;
+  saveInvite(invite: WorkspaceInvite): Promise<void>;
+  getInvite(id: string): Promise<WorkspaceInvite | null>;
+  getInviteByTokenHash(tokenHash: string): Promise<WorkspaceInvite | null>;
+  /** Newest first */
+  listInvites(workspaceId: string): Promise<WorkspaceInvite[]>;
+}
+
+/**
+ * Process-local store. Workspaces reset on restart, so only use it for development.
+ */
+export class MemoryWorkspaceStore implements WorkspaceStore {
+  readonly name = 'memory';
+  private workspaces = new Map<string, Workspace>();
+  private members = new Map<string, WorkspaceMember>();
+  private invites = new Map<string, WorkspaceInvite>();
+
+  async saveWorkspace(workspace: Workspace): Promise<void> {
+    this.workspaces.set(workspace.id, { ...workspace });
+  }
+
+  async getWorkspace(id: string): Promise<Workspace | null> {
+    const workspace = this.workspaces.get(id);
+    return workspace ? { ...workspace } : null;
+  }
+
+  async deleteWorkspace(id: string): Promise<void> {
+    this.workspaces.delete(id);
+    for (const [key, member] of this.members) {
+      if (member.workspaceId === id) this.members.delete(key);
+    }
+    for (const [key, invite] of this.invites) {
+      if (invite.workspaceId === id) this.invites.delete(key);
+    }
+  }
+
+  async listMemberships(userId: string): Promise<WorkspaceMembership[]> {
+    return [...this.members.values()]
+      .filter(member => member.userId === userId && this.workspaces.has(member.workspaceId))
+      .sort((a, b) => a.joinedAt - b.joinedAt)
+      .map(member => ({ workspace: { ...this.workspaces.get(member.workspaceId)! }, role: member.role }));
+  }
+
+  async getMember(workspaceId: string, userId: string): Promise<WorkspaceMember | null> {
+    const member = this.members.get(`${workspaceId}:${userId}`);
+    return member ? { ...member } : null;
+  }
+
+  async listMembers(workspaceId: string): Promise<WorkspaceMember[]> {
+    return [...this.members.values()]
+      .filter(member => member.workspaceId === workspaceId)
+      .sort((a, b) => a.joinedAt - b.joinedAt)
+      .map(member => ({ ...member }));
+  }
+
+  async saveMember(member: WorkspaceMember): Promise<void> {
+    this.members.set(`${member.workspaceId}:${member.userId}`, { ...member });
+  }
+
+  async deleteMember(workspaceId: string, userId: string): Promise<void> {
+    this.members.delete(`${workspaceId}:${userId}`);
+  }
+
+  async saveInvite(invite: WorkspaceInvite): Promise<void> {
+    this.invites.set(invite.id, { ...invite });
+  }
+
+  async getInvite(id: string): Promise<WorkspaceInvite | null> {
+    const invite = this.invites.get(id);
+    return invite ? { ...invite } : null;
+  }
+
+  async getInviteByTokenHash(tokenHash: string): Promise<WorkspaceInvite | null> {
+    const invite = [...this.invites.values()].find(entry => entry.tokenHash === tokenHash);
+    return invite ? { ...invite } : null;
+  }
+
+  async listInvites(workspaceId: string): Promise<WorkspaceInvite[]> {
+    return [...this.invites.values()]
+      .filter(invite => invite.workspaceId === workspaceId)
+      .sort((a, b) => b.createdAt - a.createdAt)
+      .map(invite => ({ ...invite }));
+  }
+
+  clear(): void {
+    this.workspaces.clear();
+    this.members.clear();
+    this.invites.clear();
+  }
+}
+
+/**
+ * Supabase-backed store. Expected tables (organizations and user_organizations
+ * already exist; the email and created_at columns are new):
+ *
+ *   create table organizations (
+ *     id text primary key,
+ *     name text not null,
+ *     slug text not null unique,
+ *     plan text not null default 'team',
+ *     created_by text not null,
+ *     created_at timestamptz not null default now(),
+ *     updated_at timestamptz not null default now()
+ *   );
+ *
+ *   create table user_organizations (
+ *     user_id text not null,
+ *     organization_id text not null references organizations(id) on delete cascade,
+ *     role text not null,
+ *     email text not null,
+ *     created_at timestamptz not null default now(),
+ *     primary key (user_id, organization_id)
+ *   );
+ *
+ *   create table organization_invites (
+ *     id text primary key,
+ *     organization_id text not null references organizations(id) on delete cascade,
+ *     email text not null,
+ *     role text not null,
+ *     token_hash text not null unique,
+ *     invited_by text not null,
+ *     created_at timestamptz not null default now(),
+ *     expires_at timestamptz not null,
+ *     accepted_at timestamptz,
+ *     accepted_by text,
+ *     revoked_at timestamptz
+ *   );
+ */
+export class SupabaseWorkspaceStore implements WorkspaceStore {
+  readonly name = 'supabase';
+
+  async saveWorkspace(workspace: Workspace): Promise<void> {
+    const client = await this.client();
+    const { error } = await (client.from('organizations') as any).upsert({
+      id: workspace.id,
+      name: workspace.name,
+      slug: workspace.slug,
+      plan: workspace.plan,
+      created_by: workspace.createdBy,
+      created_at: new Date(workspace.createdAt).toISOString(),
+      updated_at: new Date(workspace.updatedAt).toISOString()
+    });
+
+    if (error) {
+      throw createAPIError(ErrorType.DATABASE, 'Failed to save workspace', 500, { workspaceId: workspace.id });
+    }
+  }
+
+  async getWorkspace(id: string): Promise<Workspace | null> {
+    const client = await this.client();
+    const { data, error } = await (client.from('organizations') as any)
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) {
+      throw createAPIError(ErrorType.DATABASE, 'Failed to load workspace', 500, { workspaceId: id });
+    }
+
+    return data ? this.toWorkspace(data) : null;
+  }
+
+  async deleteWorkspace(id: string): Promise<void> {
+    const client = await this.client();
+    const { error } = await (client.from('organizations') as any).delete().eq('id', id);
+
+    if (error) {
+      throw createAPIError(ErrorType.DATABASE, 'Failed to delete workspace', 500, { workspaceId: id });
+    }
+  }
+
+  async listMemberships(userId: string): Promise<WorkspaceMembership[]> {
+    const client = await this.client();
+    const { data, error } = await (client.from('user_organizations') as any)
+      .select('role, created_at, organizations (*)')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      throw createAPIError(ErrorType.DATABASE, 'Failed to load workspaces', 500, { userId });
+    }
+
+    return ((data || []) as any[])
+      .filter(row => row.organizations)
+      .map(row => ({ workspace: this.toWorkspace(row.organizations), role: row.role }));
+  }
+
+  async getMember(workspaceId: string, userId: string): Promise<WorkspaceMember | null> {
+    const client = await this.client();
+    const { data, error } = await (client.from('user_organizations') as any)
+      .select('*')
+      .eq('organization_id', workspaceId)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) {
+      throw createAPIError(ErrorType.DATABASE, 'Failed to load workspace member', 500, { workspaceId, userId });
+    }
+
+    return data ? this.toMember(data) : null;
+  }
+
+  async listMembers(workspaceId: string): Promise<WorkspaceMember[]> {
+    const client = await this.client();
+    const { data, error } = await (client.from('user_organizations') as any)
+      .select('*')
+      .eq('organization_id', workspaceId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      throw createAPIError(ErrorType.DATABASE, 'Failed to load workspace members', 500, { workspaceId });
+    }
+
+    return ((data || []) as any[]).map(row => this.toMember(row));
+  }
+
+  async saveMember(member: WorkspaceMember): Promise<void> {
+    const client = await this.client();
+    const { error } = await (client.from('user_organizations') as any).upsert({
+      user_id: member.userId,
+      organization_id: member.workspaceId,
+      role: member.role,
+      email: member.email,
+      created_at: new Date(member.joinedAt).toISOString()
+    }, { onConflict: 'user_id,organization_id' });
+
+    if (error) {
+      throw createAPIError(ErrorType.DATABASE, 'Failed to save workspace member', 500, {
+        workspaceId: member.workspaceId,
+        userId: member.userId
+      });
+    }
+  }
+
+  async deleteMember(workspaceId: string, userId: string): Promise<void> {
+    const client = await this.client();
+    const { error } = await (client.from('user_organizations') as any)
+      .delete()
+      .eq('organization_id', workspaceId)
+      .eq('user_id', userId);
+
+    if (error) {
+      throw createAPIError(ErrorType.DATABASE, 'Failed to remove workspace member', 500, { workspaceId, userId });
+    }
+  }
+
+  async saveInvite(invite: WorkspaceInvite): Promise<void> {
+    const client = await this.client();
+    const { error } = await (client.from('organization_invites') as any).upsert({
+      id: invite.id,
+      organization_id: invite.workspaceId,
+      email: invite.email,
+      role: invite.role,
+      token_hash: invite.tokenHash,
+      invited_by: invite.invitedBy,
+      created_at: new Date(invite.createdAt).toISOString(),
+      expires_at: new Date(invite.expiresAt).toISOString(),
+      accepted_at: invite.acceptedAt ? new Date(invite.acceptedAt).toISOString() : null,
+      accepted_by: invite.acceptedBy ?? null,
+      revoked_at: invite.revokedAt ? new Date(invite.revokedAt).toISOString() : null
+    });
+
+    if (error) {
+      throw createAPIError(ErrorType.DATABASE, 'Failed to save workspace invite', 500, { inviteId: invite.id });
+    }
+  }
+
+  async getInvite(id: string): Promise<WorkspaceInvite | null> {
+    return this.findInvite('id', id);
+  }
+
+  async getInviteByTokenHash(tokenHash: string): Promise<WorkspaceInvite | null> {
+    return this.findInvite('token_hash', tokenHash);
+  }
+
+  async listInvites(workspaceId: string): Promise<WorkspaceInvite[]> {
+    const client = await this.client();
+    const { data, error } = await (client.from('organization_invites') as any)
+      .select('*')
+      .eq('organization_id', workspaceId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      throw createAPIError(ErrorType.DATABASE, 'Failed to load workspace invites', 500, { workspaceId });
+    }
+
+    return ((data || []) as any[]).map(row => this.toInvite(row));
+  }
+
+  private async findInvite(column: 'id' | 'token_hash', value: string): Promise<WorkspaceInvite | null> {
+    const client = await this.client();
+    const { data, error } = await (client.from('organization_invites') as any)
+      .select('*')
+      .eq(column, value)
+      .maybeSingle();
+
+    if (error) {
+      throw createAPIError(ErrorType.DATABASE, 'Failed to load workspace invite', 500);
+    }
+
+    return data ? this.toInvite(data) : null;
+  }
+
+  private toWorkspace(row: any): Workspace {
+    return {
+      id: row.id,
+      name: row.name,
+      slug: row.slug,
+      plan: row.plan,
+      createdBy: row.created_by,
+      createdAt: Date.parse(row.created_at),
+      updatedAt: Date.parse(row.updated_at)
+    };
+  }
+
+  private toMember(row: any): WorkspaceMember {
+    return {
+      workspaceId: row.organization_id,
+      userId: row.user_id,
+      email: row.email,
+      role: row.role,
+      joinedAt: Date.parse(row.created_at)
+    };
+  }
+
+  private toInvite(row: any): WorkspaceInvite {
+    return {
+      id: row.id,
+      workspaceId: row.organization_id,
+      email: row.email,
+      role: row.role,
+      tokenHash: row.token_hash,
+      invitedBy: row.invited_by,
+      createdAt: Date.parse(row.created_at),
+      expiresAt: Date.parse(row.expires_at),
+      acceptedAt: row.accepted_at ? Date.parse(row.accepted_at) : undefined,
+      acceptedBy: row.accepted_by ?? undefined,
+      revokedAt: row.revoked_at ? Date.parse(row.revoked_at) : undefined
+    };
+  }
+
+  private async client() {
+    const { supabaseAdmin } = await import('@/app/lib/supabase/admin');
+    return supabaseAdmin;
+  }
+}
+
+/**
+ * Build the store configured through WORKSPACE_STORE (memory | supabase)
+ */
+export function createWorkspaceStore(
+  type: string | undefined = process.env.WORKSPACE_STORE
+): WorkspaceStore {
+  if (type === 'supabase') {
+    return new SupabaseWorkspaceStore();
+  }
+
+  if (type && type !== 'memory') {
+    console.warn(`⚠️ Unknown WORKSPACE_STORE "${type}", falling back to memory`);
+  }
+
+  return new MemoryWorkspaceStore();
+}
+
+// ============================================================================
+// WORKSPACE SERVICE
+// ============================================================================
+
+const INVITE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+function toSlug(name: string): string {
+  const base = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 40);
+  return `${base || 'workspace'}-${crypto.randomBytes(3).toString('hex')}`;
+}
+
+export function redactInvite(invite: WorkspaceInvite): WorkspaceInviteView {
+  const { tokenHash: _tokenHash, ...view } = invite;
+  return view;
+}
+
+export class WorkspaceService {
+  private store: WorkspaceStore;
+
+  constructor(store: WorkspaceStore = createWorkspaceStore()) {
+    this.store = store;
+  }
+
+  // ==========================================================================
+  // WORKSPACES
+  // ==========================================================================
+
+  /**
+   * Create a workspace with the creator as its owner
+   */
+  async createWorkspace(actor: WorkspaceActor, name: string): Promise<WorkspaceMembership> {
+    const trimmed = this.requireName(name);
+    const now = Date.now();
+    const workspace: Workspace = {
+      id: `ws_${crypto.randomUUID()}`,
+      name: trimmed,
+      slug: toSlug(trimmed),
+      plan: 'team',
+      createdBy: actor.id,
+      createdAt: now,
+      updatedAt: now
+    };
+
+    await this.store.saveWorkspace(workspace);
+    await this.store.saveMember({
+      workspaceId: workspace.id,
+      userId: actor.id,
+      email: actor.email,
+      role: WORKSPACE_ROLES.OWNER,
+      joinedAt: now
+    });
+
+    console.log(`🏢 Workspace ${workspace.id} created by ${actor.id}`);
+    return { workspace, role: WORKSPACE_ROLES.OWNER };
+  }
+
+  async listWorkspaces(userId: string): Promise<WorkspaceMembership[]> {
+    return this.store.listMemberships(userId);
+  }
+
+  async renameWorkspace(workspaceId: string, actor: WorkspaceActor, name: string): Promise<Workspace> {
+    await this.requirePermission(workspaceId, actor, WORKSPACE_PERMISSIONS.MANAGE_WORKSPACE);
+    const workspace = await this.requireWorkspace(workspaceId);
+
+    const updated = { ...workspace, name: this.requireName(name), updatedAt: Date.now() };
+    await this.store.saveWorkspace(updated);
+    return updated;
+  }
+
+  async deleteWorkspace(workspaceId: string, actor: WorkspaceActor): Promise<void> {
+    await this.requirePermission(workspaceId, actor, WORKSPACE_PERMISSIONS.MANAGE_WORKSPACE);
+    await this.store.deleteWorkspace(workspaceId);
+    console.log(`🗑️ Workspace ${workspaceId} deleted by ${actor.id}`);
+  }
+
+  // ==========================================================================
+  // MEMBERS
+  // ==========================================================================
+
+  /**
+   * The user's membership, or a 404 when they aren't a member
+   */
+  async requireMember(workspaceId: string, userId: string): Promise<WorkspaceMember> {
+    const member = await this.store.getMember(workspaceId, userId);
+    if (!member) {
+      throw createAPIError(ErrorType.NOT_FOUND, 'Workspace not found', 404, { workspaceId });
+    }
+    return member;
+  }
+
+  /**
+   * The actor's membership, or a 403 when their workspace role doesn't grant the permission
+   */
+  async requirePermission(workspaceId: string, actor: WorkspaceActor, permission: string): Promise<WorkspaceMember> {
+    const member = await this.requireMember(workspaceId, actor.id);
+    if (!hasWorkspacePermission(actor.role, member.role, permission)) {
+      throw createAPIError(ErrorType.AUTHORIZATION, `Your workspace role (${member.role}) does not allow this`, 403, {
+        workspaceId,
+        permission
+      });
+    }
+    return member;
+  }
+
+  async listMembers(workspaceId: string, actor: WorkspaceActor): Promise<WorkspaceMember[]> {
+    await this.requireMember(workspaceId, actor.id);
+    return this.store.listMembers(workspaceId);
+  }
+
+  async updateMemberRole(
+    workspaceId: string,
+    actor: WorkspaceActor,
+    userId: string,
+    role: string
+  ): Promise<WorkspaceMember> {
+    const newRole = this.requireRole(role);
+    const actorMember = await this.requirePermission(workspaceId, actor, WORKSPACE_PERMISSIONS.MANAGE_MEMBERS);
+    const member = await this.requireMember(workspaceId, userId);
+
+    if (!canAssignWorkspaceRole(actorMember.role, member.role) || !canAssignWorkspaceRole(actorMember.role, newRole)) {
+      throw createAPIError(ErrorType.AUTHORIZATION, `A workspace ${actorMember.role} can't make that role change`, 403, {
+        workspaceId,
+        userId
+      });
+    }
+
+    if (member.role === WORKSPACE_ROLES.OWNER && newRole !== WORKSPACE_ROLES.OWNER) {
+      await this.requireAnotherOwner(workspaceId, userId);
+    }
+
+    const updated = { ...member, role: newRole };
+    await this.store.saveMember(updated);
+    return updated;
+  }
+
+  /**
+   * Remove a member. Anyone can remove themselves (leave); removing others
+   * needs MANAGE_MEMBERS and a role at least as high as theirs.
+   */
+  async removeMember(workspaceId: string, actor: WorkspaceActor, userId: string): Promise<void> {
+    const member = await this.requireMember(workspaceId, userId);
+
+    if (userId !== actor.id) {
+      const actorMember = await this.requirePermission(workspaceId, actor, WORKSPACE_PERMISSIONS.MANAGE_MEMBERS);
+      if (!canAssignWorkspaceRole(actorMember.role, member.role)) {
+        throw createAPIError(ErrorType.AUTHORIZATION, `A workspace ${actorMember.role} can't remove a ${member.role}`, 403, {
+          workspaceId,
+          userId
+        });
+      }
+    }
+
+    if (member.role === WORKSPACE_ROLES.OWNER) {
+      await this.requireAnotherOwner(workspaceId, userId);
+    }
+
+    await this.store.deleteMember(workspaceId, userId);
+  }
+
+  // ==========================================================================
+  // INVITES
+  // ==========================================================================
+
+  /**
+   * Invite someone by email. The token is only returned here; a pending invite
+   * to the same address is replaced.
+   */
+  async inviteMember(
+    workspaceId: string,
+    actor: WorkspaceActor,
+    input: { email: string; role?: string }
+  ): Promise<{ invite: WorkspaceInviteView; token: string }> {
+    const email = input.email?.trim().toLowerCase();
+    if (!email || !EMAIL_PATTERN.test(email)) {
+      throw createAPIError(ErrorType.VALIDATION, 'A valid email is required', 400);
+    }
+
+    const role = this.requireRole(input.role ?? WORKSPACE_ROLES.MEMBER);
+    const actorMember = await this.requirePermission(workspaceId, actor, WORKSPACE_PERMISSIONS.INVITE_MEMBERS);
+    if (!canAssignWorkspaceRole(actorMember.role, role)) {
+      throw createAPIError(ErrorType.AUTHORIZATION, `A workspace ${actorMember.role} can't invite a ${role}`, 403, {
+        workspaceId
+      });
+    }
+
+    const members = await this.store.listMembers(workspaceId);
+    if (members.some(member => member.email.toLowerCase() === email)) {
+      throw createAPIError(ErrorType.VALIDATION, `${email} is already a member of this workspace`, 400);
+    }
+
+    const now = Date.now();
+    for (const pending of await this.pendingInvites(workspaceId, now)) {
+      if (pending.email === email) {
+        await this.store.saveInvite({ ...pending, revokedAt: now });
+      }
+    }
+
+    const token = crypto.randomBytes(32).toString('base64url');
+    const invite: WorkspaceInvite = {
+      id: `wsi_${crypto.randomUUID()}`,
+      workspaceId,
+      email,
+      role,
+      tokenHash: hashToken(token),
+      invitedBy: actor.id,
+      createdAt: now,
+      expiresAt: now + INVITE_TTL_MS
+    };
+
+    await this.store.saveInvite(invite);
+    console.log(`✉️ ${actor.id} invited ${email} to ${workspaceId} as ${role}`);
+    return { invite: redactInvite(invite), token };
+  }
+
+  /**
+   * Pending invites (not accepted, revoked or expired)
+   */
+  async listInvites(workspaceId: string, actor: WorkspaceActor): Promise<WorkspaceInviteView[]> {
+    await this.requirePermission(workspaceId, actor, WORKSPACE_PERMISSIONS.INVITE_MEMBERS);
+    return (await this.pendingInvites(workspaceId, Date.now())).map(redactInvite);
+  }
+
+  async revokeInvite(workspaceId: string, actor: WorkspaceActor, inviteId: string): Promise<void> {
+    await this.requirePermission(workspaceId, actor, WORKSPACE_PERMISSIONS.INVITE_MEMBERS);
+
+    const invite = await this.store.getInvite(inviteId);
+    if (!invite || invite.workspaceId !== workspaceId) {
+      throw createAPIError(ErrorType.NOT_FOUND, 'Invite not found', 404, { inviteId });
+    }
+
+    if (!invite.acceptedAt && !invite.revokedAt) {
+      await this.store.saveInvite({ ...invite, revokedAt: Date.now() });
+    }
+  }
+
+  /**
+   * Join a workspace with an invite token. The invite must be addressed to the
+   * signed-in user's email; existing members keep their current role.
+   */
+  async acceptInvite(token: string, actor: WorkspaceActor): Promise<WorkspaceMembership> {
+    if (!token) {
+      throw createAPIError(ErrorType.VALIDATION, 'token is required', 400);
+    }
+
+    const now = Date.now();
+    const invite = await this.store.getInviteByTokenHash(hashToken(token));
+    if (!invite || invite.acceptedAt || invite.revokedAt || invite.expiresAt <= now) {
+      throw createAPIError(ErrorType.NOT_FOUND, 'Invite not found or no longer valid', 404);
+    }
+
+    if (invite.email !== actor.email.trim().toLowerCase()) {
+      throw createAPIError(ErrorType.AUTHORIZATION, `This invite was sent to ${invite.email}`, 403);
+    }
+
+    const workspace = await this.requireWorkspace(invite.workspaceId);
+    const existing = await this.store.getMember(workspace.id, actor.id);
+    const member = existing ?? {
+      workspaceId: workspace.id,
+      userId: actor.id,
+      email: invite.email,
+      role: invite.role,
+      joinedAt: now
+    };
+
+    if (!existing) {
+      await this.store.saveMember(member);
+    }
+    await this.store.saveInvite({ ...invite, acceptedAt: now, acceptedBy: actor.id });
+
+    console.log(`🤝 ${actor.id} joined workspace ${workspace.id} as ${member.role}`);
+    return { workspace, role: member.role };
+  }
+
+  // ==========================================================================
+  // HELPERS
+  // ==========================================================================
+
+  private async pendingInvites(workspaceId: string, now: number): Promise<WorkspaceInvite[]> {
+    return (await this.store.listInvites(workspaceId))
+      .filter(invite => !invite.acceptedAt && !invite.revokedAt && invite.expiresAt > now);
+  }
+
+  private async requireWorkspace(workspaceId: string): Promise<Workspace> {
+    const workspace = await this.store.getWorkspace(workspaceId);
+    if (!workspace) {
+      throw createAPIError(ErrorType.NOT_FOUND, 'Workspace not found', 404, { workspaceId });
+    }
+    return workspace;
+  }
+
+  private async requireAnotherOwner(workspaceId: string, userId: string): Promise<void> {
+    const owners = (await this.store.listMembers(workspaceId))
+      .filter(member => member.role === WORKSPACE_ROLES.OWNER && member.userId !== userId);
+
+    if (owners.length === 0) {
+      throw createAPIError(ErrorType.VALIDATION, 'A workspace needs at least one owner. Make someone else an owner first.', 400, {
+        workspaceId
+      });
+    }
+  }
+
+  private requireName(name: string): string {
+    const trimmed = typeof name === 'string' ? name.trim() : '';
+    if (!trimmed || trimmed.length > 80) {
+      throw createAPIError(ErrorType.VALIDATION, 'Workspace name must be 1-80 characters', 400);
+    }
+    return trimmed;
+  }
+
+  private requireRole(role: string): WorkspaceRole {
+    if (!isWorkspaceRole(role)) {
+      throw createAPIError(ErrorType.VALIDATION, `Unknown workspace role: ${role}`, 400, {
+        roles: Object.values(WORKSPACE_ROLES)
+      });
+    }
+    return role;
+  }
+}
+
+export const workspaceService = new WorkspaceService();
+export default workspaceService;
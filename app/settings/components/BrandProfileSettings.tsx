@@ -0,0 +1,196 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { UserProfileService } from '@/app/lib/services/userProfileService';
+import {
+  BrandProfile,
+  DEFAULT_BRAND_PROFILE,
+  DEFAULT_WATERMARK_TEXT,
+  MAX_LOGO_LENGTH,
+  validateBrandProfile
+} from '@/app/lib/services/export/branding';
+
+interface BrandProfileSettingsProps {
+  userId: string;
+}
+
+const FONT_OPTIONS = ['Helvetica', 'Arial', 'Calibri', 'Georgia', 'Times New Roman', 'Courier New'];
+
+const inputStyle = { borderColor: 'var(--border-subtle)', background: 'var(--background-secondary)' };
+
+/**
+ * Brand Profile Settings
+ *
+ * Edits the brand applied to every export (PDF, DOCX, PPTX, XLSX, Markdown, CSV):
+ * cover logo, colors, font, footer text and the optional watermark.
+ */
+export function BrandProfileSettings({ userId }: BrandProfileSettingsProps) {
+  const [brand, setBrand] = useState<BrandProfile>(DEFAULT_BRAND_PROFILE);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  useEffect(() => {
+    UserProfileService.getBrandProfile(userId)
+      .then(setBrand)
+      .catch(error => setMessage({ type: 'error', text: error.message }))
+      .finally(() => setLoading(false));
+  }, [userId]);
+
+  const update = (changes: Partial<BrandProfile>) => {
+    setBrand(current => ({ ...current, ...changes }));
+    setMessage(null);
+  };
+
+  const handleLogoChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = () => {
+      const dataUrl = String(reader.result);
+      if (dataUrl.length > MAX_LOGO_LENGTH) {
+        setMessage({ type: 'error', text: 'Logo must be smaller than 500KB' });
+        return;
+      }
+      update({ companyLogo: dataUrl });
+    };
+    reader.readAsDataURL(file);
+  };
+
+  const handleSave = async () => {
+    const errors = validateBrandProfile(brand);
+    if (errors.length > 0) {
+      setMessage({ type: 'error', text: errors.join(', ') });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      setBrand(await UserProfileService.updateBrandProfile(userId, brand));
+      setMessage({ type: 'success', text: 'Brand profile saved. It will be applied to your next export.' });
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to save brand profile' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return <p className="body text-text-muted">Loading brand profile...</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <label className="block form-label text-text-primary mb-1">Company name</label>
+        <input
+          type="text"
+          value={brand.companyName || ''}
+          onChange={event => update({ companyName: event.target.value })}
+          className="w-full px-3 py-2 border rounded-md text-text-primary"
+          style={inputStyle}
+        />
+      </div>
+
+      <div>
+        <label className="block form-label text-text-primary mb-1">Cover logo (PNG or JPEG)</label>
+        <div className="flex items-center gap-4">
+          {brand.companyLogo && (
+            // eslint-disable-next-line @next/next/no-img-element
+            <img src={brand.companyLogo} alt="Company logo" className="h-12 w-auto rounded" />
+          )}
+          <input type="file" accept="image/png,image/jpeg" onChange={handleLogoChange} className="body-small text-text-muted" />
+          {brand.companyLogo && (
+            <button type="button" onClick={() => update({ companyLogo: undefined })} className="body-small text-text-muted underline">
+              Remove
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div>
+          <label className="block form-label text-text-primary mb-1">Primary color</label>
+          <input
+            type="color"
+            value={brand.primaryColor}
+            onChange={event => update({ primaryColor: event.target.value })}
+            className="h-10 w-full border rounded-md"
+            style={inputStyle}
+          />
+        </div>
+        <div>
+          <label className="block form-label text-text-primary mb-1">Secondary color</label>
+          <input
+            type="color"
+            value={brand.secondaryColor}
+            onChange={event => update({ secondaryColor: event.target.value })}
+            className="h-10 w-full border rounded-md"
+            style={inputStyle}
+          />
+        </div>
+        <div>
+          <label className="block form-label text-text-primary mb-1">Font</label>
+          <select
+            value={brand.fontFamily}
+            onChange={event => update({ fontFamily: event.target.value })}
+            className="w-full px-3 py-2 border rounded-md text-text-primary"
+            style={inputStyle}
+          >
+            {FONT_OPTIONS.map(font => (
+              <option key={font} value={font}>{font}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div>
+        <label className="block form-label text-text-primary mb-1">Footer text</label>
+        <input
+          type="text"
+          value={brand.footerText}
+          maxLength={200}
+          onChange={event => update({ footerText: event.target.value })}
+          className="w-full px-3 py-2 border rounded-md text-text-primary"
+          style={inputStyle}
+        />
+      </div>
+
+      <div className="flex items-center gap-4">
+        <label className="flex items-center gap-2 form-label text-text-primary">
+          <input
+            type="checkbox"
+            checked={brand.includeWatermark}
+            onChange={event => update({ includeWatermark: event.target.checked })}
+          />
+          Watermark exports
+        </label>
+        <input
+          type="text"
+          value={brand.watermarkText || ''}
+          placeholder={DEFAULT_WATERMARK_TEXT}
+          maxLength={40}
+          disabled={!brand.includeWatermark}
+          onChange={event => update({ watermarkText: event.target.value })}
+          className="flex-1 px-3 py-2 border rounded-md text-text-primary"
+          style={inputStyle}
+        />
+      </div>
+
+      {message && (
+        <p className={`body-small ${message.type === 'error' ? 'text-red-500' : 'text-green-500'}`}>{message.text}</p>
+      )}
+
+      <button
+        type="button"
+        onClick={handleSave}
+        disabled={saving}
+        className="px-4 py-2 rounded-md text-white disabled:opacity-50"
+        style={{ background: 'var(--color-primary)' }}
+      >
+        {saving ? 'Saving...' : 'Save brand profile'}
+      </button>
+    </div>
+  );
+}
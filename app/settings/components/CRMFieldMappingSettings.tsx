@@ -0,0 +1,332 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import type {
+  CRMFieldMapping,
+  FieldMappingPreview,
+  MappingIssue,
+  MappingSourceField,
+  MappingSourceKey,
+  MappingValidation
+} from '@/app/lib/crm/fieldMapping';
+
+const inputStyle = { borderColor: 'var(--border-subtle)', background: 'var(--background-secondary)' };
+
+const PLATFORMS = [
+  { value: 'hubspot', label: 'HubSpot' },
+  { value: 'salesforce', label: 'Salesforce' },
+  { value: 'pipedrive', label: 'Pipedrive' }
+];
+
+const NAME_PLACEHOLDERS: Record<string, string> = {
+  hubspot: 'internal_name',
+  salesforce: 'Field_Name__c',
+  pipedrive: 'field key'
+};
+
+interface MappingResponse {
+  mapping: CRMFieldMapping;
+  isDefault: boolean;
+  updatedAt: number;
+  validation: MappingValidation;
+  sourceFields: MappingSourceField[];
+  fieldTypes: string[];
+}
+
+/** Editable row: picklist values as typed, comma-separated */
+interface Row {
+  name: string;
+  type: string;
+  options: string;
+}
+
+type Message = { type: 'success' | 'error'; text: string };
+
+class RequestError extends Error {
+  constructor(message: string, public details?: { issues?: MappingIssue[] }) {
+    super(message);
+  }
+}
+
+async function request<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, {
+    ...init,
+    headers: init?.body ? { 'Content-Type': 'application/json' } : undefined
+  });
+  const body = await response.json().catch(() => ({}));
+
+  if (!response.ok || !body.success) {
+    throw new RequestError(body.error?.message || body.error || `Request failed: ${response.status}`, body.error?.details);
+  }
+
+  return body.data;
+}
+
+function toRows(sourceFields: MappingSourceField[], mapping: CRMFieldMapping, fieldTypes: string[]): Record<string, Row> {
+  return Object.fromEntries(sourceFields.map(field => {
+    const target = mapping[field.key];
+    return [field.key, {
+      name: target?.name ?? '',
+      type: target?.type ?? fieldTypes[0] ?? '',
+      options: target?.options?.join(', ') ?? ''
+    }];
+  }));
+}
+
+function toMapping(sourceFields: MappingSourceField[], rows: Record<string, Row>): CRMFieldMapping {
+  return Object.fromEntries(sourceFields.map(field => {
+    const row = rows[field.key];
+    if (!row?.name.trim()) return [field.key, null];
+
+    const options = row.options.split(',').map(option => option.trim()).filter(Boolean);
+    return [field.key, { name: row.name.trim(), type: row.type, ...(options.length ? { options } : {}) }];
+  }));
+}
+
+/**
+ * CRM Field Mapping
+ *
+ * Maps ICP tier, fit score, persona type, pain points and cost of inaction
+ * onto the customer's own CRM account fields, shows type compatibility
+ * errors and warnings per field and previews exactly what a sync would write
+ * for a sample company before the mapping is saved.
+ */
+export function CRMFieldMappingSettings() {
+  const [platform, setPlatform] = useState('hubspot');
+  const [config, setConfig] = useState<MappingResponse | null>(null);
+  const [rows, setRows] = useState<Record<string, Row>>({});
+  const [issues, setIssues] = useState<MappingIssue[]>([]);
+  const [preview, setPreview] = useState<FieldMappingPreview | null>(null);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [message, setMessage] = useState<Message | null>(null);
+
+  const applyConfig = (data: MappingResponse) => {
+    setConfig(data);
+    setRows(toRows(data.sourceFields, data.mapping, data.fieldTypes));
+    setIssues(data.validation.issues);
+    setPreview(null);
+  };
+
+  useEffect(() => {
+    setConfig(null);
+    setMessage(null);
+    request<MappingResponse>(`/api/crm/mappings?platform=${platform}`)
+      .then(applyConfig)
+      .catch(error => setMessage({ type: 'error', text: error.message }));
+  }, [platform]);
+
+  const run = async (key: string, action: () => Promise<Message | void>) => {
+    setBusy(key);
+    setMessage(null);
+    try {
+      const result = await action();
+      if (result) setMessage(result);
+    } catch (error) {
+      if (error instanceof RequestError && error.details?.issues) setIssues(error.details.issues);
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Request failed' });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const updateRow = (key: MappingSourceKey, changes: Partial<Row>) => {
+    setRows(current => ({ ...current, [key]: { ...current[key], ...changes } }));
+  };
+
+  const handlePreview = () => run('preview', async () => {
+    if (!config) return;
+
+    const result = await request<FieldMappingPreview>('/api/crm/mappings/preview', {
+      method: 'POST',
+      body: JSON.stringify({ platform, mapping: toMapping(config.sourceFields, rows) })
+    });
+    setPreview(result);
+    setIssues(result.validation.issues);
+  });
+
+  const handleSave = () => run('save', async () => {
+    if (!config) return;
+
+    const saved = await request<MappingResponse>('/api/crm/mappings', {
+      method: 'POST',
+      body: JSON.stringify({ platform, mapping: toMapping(config.sourceFields, rows) })
+    });
+    setConfig({ ...config, ...saved });
+    setIssues(saved.validation.issues);
+    return { type: 'success', text: 'Field mapping saved. The next sync writes to these fields.' };
+  });
+
+  const handleReset = () => run('reset', async () => {
+    if (!window.confirm('Go back to the generated field names for this CRM?')) return;
+
+    await request(`/api/crm/mappings?platform=${platform}`, { method: 'DELETE' });
+    applyConfig(await request<MappingResponse>(`/api/crm/mappings?platform=${platform}`));
+    return { type: 'success', text: 'Field mapping reset to the generated field names.' };
+  });
+
+  const generalIssues = issues.filter(issue => issue.source === null);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between gap-4">
+        <select
+          value={platform}
+          onChange={event => setPlatform(event.target.value)}
+          disabled={busy !== null}
+          className="px-3 py-2 border rounded-md text-text-primary"
+          style={inputStyle}
+        >
+          {PLATFORMS.map(entry => (
+            <option key={entry.value} value={entry.value}>{entry.label}</option>
+          ))}
+        </select>
+        {config && (
+          <p className="body-small text-text-muted">
+            {config.isDefault ? 'Using generated field names' : `Saved ${new Date(config.updatedAt).toLocaleString()}`}
+          </p>
+        )}
+      </div>
+
+      {!config ? (
+        <p className="body text-text-muted">Loading field mapping...</p>
+      ) : (
+        <>
+          <table className="w-full body-small">
+            <thead>
+              <tr className="text-left text-text-muted">
+                <th className="py-1 pr-3">Our field</th>
+                <th className="py-1 pr-3">CRM field (blank to skip)</th>
+                <th className="py-1 pr-3">Type</th>
+                <th className="py-1">Picklist values</th>
+              </tr>
+            </thead>
+            <tbody>
+              {config.sourceFields.map(field => {
+                const row = rows[field.key];
+                const fieldIssues = issues.filter(issue => issue.source === field.key);
+
+                return (
+                  <tr key={field.key} className="border-t align-top" style={{ borderColor: 'var(--border-subtle)' }}>
+                    <td className="py-2 pr-3">
+                      <p className="text-text-primary">{field.label}</p>
+                      <p className="text-text-muted">{field.description}</p>
+                      {fieldIssues.map(issue => (
+                        <p key={issue.message} className={issue.severity === 'error' ? 'text-red-500' : 'text-yellow-500'}>
+                          {issue.message}
+                        </p>
+                      ))}
+                    </td>
+                    <td className="py-2 pr-3">
+                      <input
+                        type="text"
+                        value={row?.name ?? ''}
+                        placeholder={NAME_PLACEHOLDERS[platform]}
+                        onChange={event => updateRow(field.key, { name: event.target.value })}
+                        className="w-full px-2 py-1 border rounded-md text-text-primary font-mono"
+                        style={inputStyle}
+                      />
+                    </td>
+                    <td className="py-2 pr-3">
+                      <select
+                        value={row?.type ?? ''}
+                        onChange={event => updateRow(field.key, { type: event.target.value })}
+                        className="px-2 py-1 border rounded-md text-text-primary"
+                        style={inputStyle}
+                      >
+                        {[...new Set([...config.fieldTypes, row?.type].filter(Boolean) as string[])].map(type => (
+                          <option key={type} value={type}>{type}</option>
+                        ))}
+                      </select>
+                    </td>
+                    <td className="py-2">
+                      <input
+                        type="text"
+                        value={row?.options ?? ''}
+                        placeholder={field.options ? field.options.map(option => option.label).join(', ') : '—'}
+                        disabled={!field.options}
+                        onChange={event => updateRow(field.key, { options: event.target.value })}
+                        className="w-full px-2 py-1 border rounded-md text-text-primary disabled:opacity-50"
+                        style={inputStyle}
+                      />
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+
+          {generalIssues.map(issue => (
+            <p key={issue.message} className="body-small text-red-500">{issue.message}</p>
+          ))}
+
+          <div className="flex flex-wrap gap-3">
+            <button
+              type="button"
+              onClick={handlePreview}
+              disabled={busy !== null}
+              className="px-4 py-2 rounded-md border text-text-primary disabled:opacity-50"
+              style={{ borderColor: 'var(--border-subtle)' }}
+            >
+              {busy === 'preview' ? 'Previewing...' : 'Preview sync'}
+            </button>
+            <button
+              type="button"
+              onClick={handleSave}
+              disabled={busy !== null}
+              className="px-4 py-2 rounded-md text-white disabled:opacity-50"
+              style={{ background: 'var(--color-primary)' }}
+            >
+              {busy === 'save' ? 'Saving...' : 'Save mapping'}
+            </button>
+            {!config.isDefault && (
+              <button type="button" onClick={handleReset} disabled={busy !== null} className="body-small text-text-muted underline">
+                Reset to generated fields
+              </button>
+            )}
+          </div>
+        </>
+      )}
+
+      {message && (
+        <p className={`body-small ${message.type === 'error' ? 'text-red-500' : 'text-green-500'}`}>{message.text}</p>
+      )}
+
+      {preview && (
+        <div className="border-t pt-4 space-y-3" style={{ borderColor: 'var(--border-subtle)' }}>
+          <h3 className="form-label text-text-primary">
+            Dry run for {preview.record.companyName} (score {preview.record.score ?? '—'})
+          </h3>
+          {preview.writes.length === 0 ? (
+            <p className="body-small text-text-muted">Nothing would be written.</p>
+          ) : (
+            <table className="w-full body-small">
+              <thead>
+                <tr className="text-left text-text-muted">
+                  <th className="py-1 pr-3">CRM field</th>
+                  <th className="py-1 pr-3">From</th>
+                  <th className="py-1">Value written</th>
+                </tr>
+              </thead>
+              <tbody>
+                {preview.writes.map(write => (
+                  <tr key={write.target} className="border-t text-text-primary align-top" style={{ borderColor: 'var(--border-subtle)' }}>
+                    <td className="py-2 pr-3 font-mono">{write.target} <span className="text-text-muted">({write.targetType})</span></td>
+                    <td className="py-2 pr-3">{write.label}</td>
+                    <td className="py-2 font-mono whitespace-pre-wrap">{JSON.stringify(write.value)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+          {preview.skipped.length > 0 && (
+            <p className="body-small text-text-muted">
+              Skipped: {preview.skipped
+                .map(entry => `${config?.sourceFields.find(field => field.key === entry.source)?.label ?? entry.source} (${entry.reason.toLowerCase()})`)
+                .join(', ')}
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
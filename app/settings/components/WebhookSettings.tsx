@@ -0,0 +1,334 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import {
+  OUTBOUND_WEBHOOK_EVENTS,
+  OUTBOUND_WEBHOOK_EVENT_LABELS,
+  OutboundWebhookEventType
+} from '@/app/lib/webhooks/events';
+import type { OutboundWebhookDelivery, WebhookEndpointView } from '@/app/lib/webhooks/outbound';
+
+const inputStyle = { borderColor: 'var(--border-subtle)', background: 'var(--background-secondary)' };
+
+const STATUS_CLASSES: Record<OutboundWebhookDelivery['status'], string> = {
+  succeeded: 'text-green-500',
+  pending: 'text-yellow-500',
+  failed: 'text-red-500'
+};
+
+type Message = { type: 'success' | 'error'; text: string };
+
+async function request<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, {
+    ...init,
+    headers: init?.body ? { 'Content-Type': 'application/json' } : undefined
+  });
+  const body = await response.json().catch(() => ({}));
+
+  if (!response.ok || !body.success) {
+    throw new Error(body.error?.message || body.error || `Request failed: ${response.status}`);
+  }
+
+  return body.data;
+}
+
+function eventLabel(eventType: string): string {
+  return OUTBOUND_WEBHOOK_EVENT_LABELS[eventType as OutboundWebhookEventType] ?? 'Test event';
+}
+
+/**
+ * Webhook Settings
+ *
+ * Endpoints that receive signed platform events (ICP generated, company rated,
+ * business case approved, export ready), a "send test event" button per
+ * endpoint and the recent delivery history with retry status.
+ */
+export function WebhookSettings() {
+  const [endpoints, setEndpoints] = useState<WebhookEndpointView[]>([]);
+  const [deliveries, setDeliveries] = useState<OutboundWebhookDelivery[]>([]);
+  const [endpointFilter, setEndpointFilter] = useState('');
+  const [url, setUrl] = useState('');
+  const [description, setDescription] = useState('');
+  const [events, setEvents] = useState<OutboundWebhookEventType[]>([...OUTBOUND_WEBHOOK_EVENTS]);
+  const [revealedSecret, setRevealedSecret] = useState<{ endpointId: string; secret: string } | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [message, setMessage] = useState<Message | null>(null);
+
+  const loadDeliveries = useCallback(async () => {
+    const query = endpointFilter ? `?endpointId=${encodeURIComponent(endpointFilter)}` : '';
+    setDeliveries(await request<OutboundWebhookDelivery[]>(`/api/webhooks/deliveries${query}`));
+  }, [endpointFilter]);
+
+  useEffect(() => {
+    request<WebhookEndpointView[]>('/api/webhooks/endpoints')
+      .then(setEndpoints)
+      .catch(error => setMessage({ type: 'error', text: error.message }))
+      .finally(() => setLoading(false));
+  }, []);
+
+  useEffect(() => {
+    loadDeliveries().catch(error => setMessage({ type: 'error', text: error.message }));
+  }, [loadDeliveries]);
+
+  const run = async (key: string, action: () => Promise<Message | void>) => {
+    setBusy(key);
+    setMessage(null);
+    try {
+      const result = await action();
+      if (result) setMessage(result);
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Request failed' });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const replaceEndpoint = (endpoint: WebhookEndpointView) => {
+    setEndpoints(current => current.map(entry => (entry.id === endpoint.id ? endpoint : entry)));
+  };
+
+  const toggleEvent = (eventType: OutboundWebhookEventType) => {
+    setEvents(current => (current.includes(eventType)
+      ? current.filter(entry => entry !== eventType)
+      : [...current, eventType]));
+  };
+
+  const handleCreate = () => run('create', async () => {
+    const created = await request<{ endpoint: WebhookEndpointView; secret: string }>('/api/webhooks/endpoints', {
+      method: 'POST',
+      body: JSON.stringify({ url, description, events })
+    });
+
+    setEndpoints(current => [...current, created.endpoint]);
+    setRevealedSecret({ endpointId: created.endpoint.id, secret: created.secret });
+    setUrl('');
+    setDescription('');
+    return { type: 'success', text: 'Endpoint added. Copy its signing secret below; it will not be shown again.' };
+  });
+
+  const handleToggleActive = (endpoint: WebhookEndpointView) => run(`active:${endpoint.id}`, async () => {
+    const updated = await request<{ endpoint: WebhookEndpointView }>('/api/webhooks/endpoints', {
+      method: 'PATCH',
+      body: JSON.stringify({ endpointId: endpoint.id, active: !endpoint.active })
+    });
+    replaceEndpoint(updated.endpoint);
+  });
+
+  const handleRotate = (endpoint: WebhookEndpointView) => run(`rotate:${endpoint.id}`, async () => {
+    if (!window.confirm('Rotate the signing secret? Your receiver must switch to the new secret right away.')) return;
+
+    const rotated = await request<{ endpoint: WebhookEndpointView; secret: string }>('/api/webhooks/endpoints', {
+      method: 'PATCH',
+      body: JSON.stringify({ endpointId: endpoint.id, rotateSecret: true })
+    });
+    replaceEndpoint(rotated.endpoint);
+    setRevealedSecret({ endpointId: endpoint.id, secret: rotated.secret });
+    return { type: 'success', text: 'Signing secret rotated.' };
+  });
+
+  const handleDelete = (endpoint: WebhookEndpointView) => run(`delete:${endpoint.id}`, async () => {
+    if (!window.confirm(`Delete ${endpoint.url} and its delivery history?`)) return;
+
+    await request(`/api/webhooks/endpoints?id=${encodeURIComponent(endpoint.id)}`, { method: 'DELETE' });
+    setEndpoints(current => current.filter(entry => entry.id !== endpoint.id));
+    if (endpointFilter === endpoint.id) setEndpointFilter('');
+    await loadDeliveries();
+  });
+
+  const handleTest = (endpoint: WebhookEndpointView) => run(`test:${endpoint.id}`, async () => {
+    const delivery = await request<OutboundWebhookDelivery>('/api/webhooks/endpoints/test', {
+      method: 'POST',
+      body: JSON.stringify({ endpointId: endpoint.id })
+    });
+    await loadDeliveries();
+
+    return delivery.status === 'succeeded'
+      ? { type: 'success', text: `Test event delivered (HTTP ${delivery.attempts[0]?.statusCode}).` }
+      : { type: 'error', text: `Test event failed: ${delivery.error}` };
+  });
+
+  if (loading) {
+    return <p className="body text-text-muted">Loading webhooks...</p>;
+  }
+
+  return (
+    <div className="space-y-6">
+      {endpoints.length === 0 ? (
+        <p className="body text-text-muted">No endpoints yet. Add one below to start receiving events.</p>
+      ) : (
+        <ul className="space-y-3">
+          {endpoints.map(endpoint => (
+            <li key={endpoint.id} className="border rounded-md p-4" style={{ borderColor: 'var(--border-subtle)' }}>
+              <div className="flex items-start justify-between gap-4">
+                <div className="min-w-0">
+                  <p className="body text-text-primary font-mono truncate">{endpoint.url}</p>
+                  {endpoint.description && <p className="body-small text-text-muted">{endpoint.description}</p>}
+                  <p className="body-small text-text-muted mt-1">
+                    {endpoint.events.map(eventLabel).join(', ')} · secret {endpoint.secretPreview}
+                    {!endpoint.active && ' · disabled'}
+                  </p>
+                </div>
+                <div className="flex flex-wrap justify-end gap-3 body-small">
+                  <button
+                    type="button"
+                    onClick={() => handleTest(endpoint)}
+                    disabled={busy !== null}
+                    className="px-3 py-1 rounded-md text-white disabled:opacity-50"
+                    style={{ background: 'var(--color-primary)' }}
+                  >
+                    {busy === `test:${endpoint.id}` ? 'Sending...' : 'Send test event'}
+                  </button>
+                  <button type="button" onClick={() => handleToggleActive(endpoint)} disabled={busy !== null} className="text-text-muted underline">
+                    {endpoint.active ? 'Disable' : 'Enable'}
+                  </button>
+                  <button type="button" onClick={() => handleRotate(endpoint)} disabled={busy !== null} className="text-text-muted underline">
+                    Rotate secret
+                  </button>
+                  <button type="button" onClick={() => handleDelete(endpoint)} disabled={busy !== null} className="text-red-500 underline">
+                    Delete
+                  </button>
+                </div>
+              </div>
+
+              {revealedSecret?.endpointId === endpoint.id && (
+                <div className="mt-3">
+                  <label className="block form-label text-text-primary mb-1">Signing secret</label>
+                  <input
+                    type="text"
+                    readOnly
+                    value={revealedSecret.secret}
+                    onFocus={event => event.target.select()}
+                    className="w-full px-3 py-2 border rounded-md text-text-primary font-mono body-small"
+                    style={inputStyle}
+                  />
+                  <p className="body-small text-text-muted mt-1">
+                    Verify the x-webhook-signature header: sha256= followed by the hex HMAC-SHA256 of
+                    &quot;{'{x-webhook-timestamp}'}.{'{x-webhook-id}'}.{'{raw body}'}&quot;.
+                  </p>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="space-y-4 border-t pt-4" style={{ borderColor: 'var(--border-subtle)' }}>
+        <div>
+          <label className="block form-label text-text-primary mb-1">Endpoint URL</label>
+          <input
+            type="url"
+            value={url}
+            placeholder="https://example.com/webhooks/andru"
+            onChange={event => setUrl(event.target.value)}
+            className="w-full px-3 py-2 border rounded-md text-text-primary"
+            style={inputStyle}
+          />
+        </div>
+
+        <div>
+          <label className="block form-label text-text-primary mb-1">Description (optional)</label>
+          <input
+            type="text"
+            value={description}
+            maxLength={200}
+            onChange={event => setDescription(event.target.value)}
+            className="w-full px-3 py-2 border rounded-md text-text-primary"
+            style={inputStyle}
+          />
+        </div>
+
+        <div>
+          <span className="block form-label text-text-primary mb-1">Events</span>
+          <div className="flex flex-wrap gap-4">
+            {OUTBOUND_WEBHOOK_EVENTS.map(eventType => (
+              <label key={eventType} className="flex items-center gap-2 body-small text-text-primary">
+                <input type="checkbox" checked={events.includes(eventType)} onChange={() => toggleEvent(eventType)} />
+                {OUTBOUND_WEBHOOK_EVENT_LABELS[eventType]}
+              </label>
+            ))}
+          </div>
+        </div>
+
+        <button
+          type="button"
+          onClick={handleCreate}
+          disabled={busy !== null || !url || events.length === 0}
+          className="px-4 py-2 rounded-md text-white disabled:opacity-50"
+          style={{ background: 'var(--color-primary)' }}
+        >
+          {busy === 'create' ? 'Adding...' : 'Add endpoint'}
+        </button>
+      </div>
+
+      {message && (
+        <p className={`body-small ${message.type === 'error' ? 'text-red-500' : 'text-green-500'}`}>{message.text}</p>
+      )}
+
+      <div className="border-t pt-4" style={{ borderColor: 'var(--border-subtle)' }}>
+        <div className="flex items-center justify-between gap-4 mb-3">
+          <h3 className="form-label text-text-primary">Delivery history</h3>
+          <div className="flex items-center gap-3">
+            <select
+              value={endpointFilter}
+              onChange={event => setEndpointFilter(event.target.value)}
+              className="px-3 py-1 border rounded-md text-text-primary body-small"
+              style={inputStyle}
+            >
+              <option value="">All endpoints</option>
+              {endpoints.map(endpoint => (
+                <option key={endpoint.id} value={endpoint.id}>{endpoint.url}</option>
+              ))}
+            </select>
+            <button
+              type="button"
+              onClick={() => run('refresh', loadDeliveries)}
+              disabled={busy !== null}
+              className="body-small text-text-muted underline"
+            >
+              Refresh
+            </button>
+          </div>
+        </div>
+
+        {deliveries.length === 0 ? (
+          <p className="body-small text-text-muted">No deliveries yet.</p>
+        ) : (
+          <table className="w-full body-small">
+            <thead>
+              <tr className="text-left text-text-muted">
+                <th className="py-1 pr-3">Time</th>
+                <th className="py-1 pr-3">Event</th>
+                <th className="py-1 pr-3">Endpoint</th>
+                <th className="py-1 pr-3">Status</th>
+                <th className="py-1">Last attempt</th>
+              </tr>
+            </thead>
+            <tbody>
+              {deliveries.map(delivery => {
+                const lastAttempt = delivery.attempts[delivery.attempts.length - 1];
+                const endpoint = endpoints.find(entry => entry.id === delivery.endpointId);
+
+                return (
+                  <tr key={delivery.id} className="border-t text-text-primary" style={{ borderColor: 'var(--border-subtle)' }}>
+                    <td className="py-2 pr-3 whitespace-nowrap">{new Date(delivery.createdAt).toLocaleString()}</td>
+                    <td className="py-2 pr-3">{eventLabel(delivery.eventType)}</td>
+                    <td className="py-2 pr-3 font-mono truncate max-w-[12rem]">{endpoint?.url ?? delivery.endpointId}</td>
+                    <td className={`py-2 pr-3 ${STATUS_CLASSES[delivery.status]}`}>
+                      {delivery.status} ({delivery.attempts.length} attempt{delivery.attempts.length === 1 ? '' : 's'})
+                    </td>
+                    <td className="py-2 text-text-muted">
+                      {lastAttempt
+                        ? `${lastAttempt.statusCode ?? lastAttempt.error ?? '—'} · ${lastAttempt.durationMs}ms`
+                        : 'Queued'}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
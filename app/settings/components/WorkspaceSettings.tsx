@@ -0,0 +1,320 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { setActiveWorkspaceId, useActiveWorkspaceId } from '@/app/lib/workspaces/activeWorkspace';
+import type {
+  WorkspaceInviteView,
+  WorkspaceMember,
+  WorkspaceMembership
+} from '@/app/lib/workspaces/workspaceService';
+
+const inputStyle = { borderColor: 'var(--border-subtle)', background: 'var(--background-secondary)' };
+
+const ROLE_OPTIONS = [
+  { value: 'owner', label: 'Owner' },
+  { value: 'admin', label: 'Admin' },
+  { value: 'member', label: 'Member' },
+  { value: 'viewer', label: 'Viewer' }
+];
+
+type MembershipWithPermissions = WorkspaceMembership & { permissions: string[] };
+
+type Message = { type: 'success' | 'error'; text: string };
+
+async function request<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, {
+    ...init,
+    headers: init?.body ? { 'Content-Type': 'application/json' } : undefined
+  });
+  const body = await response.json().catch(() => ({}));
+
+  if (!response.ok || !body.success) {
+    throw new Error(body.error?.message || body.error || `Request failed: ${response.status}`);
+  }
+
+  return body.data;
+}
+
+/**
+ * Team Workspace
+ *
+ * Members, roles and invites of the workspace selected in the sidebar. Owners
+ * and admins invite people by email and manage roles; everyone can leave.
+ */
+export function WorkspaceSettings({ userId }: { userId: string }) {
+  const workspaceId = useActiveWorkspaceId();
+  const [membership, setMembership] = useState<MembershipWithPermissions | null>(null);
+  const [members, setMembers] = useState<WorkspaceMember[]>([]);
+  const [invites, setInvites] = useState<WorkspaceInviteView[]>([]);
+  const [inviteEmail, setInviteEmail] = useState('');
+  const [inviteRole, setInviteRole] = useState('member');
+  const [joinUrl, setJoinUrl] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [busy, setBusy] = useState<string | null>(null);
+  const [message, setMessage] = useState<Message | null>(null);
+
+  const can = (permission: string) => membership?.permissions.includes(permission) ?? false;
+
+  const load = useCallback(async () => {
+    if (!workspaceId) return;
+
+    const memberships = await request<MembershipWithPermissions[]>('/api/workspaces');
+    const current = memberships.find(entry => entry.workspace.id === workspaceId);
+    if (!current) throw new Error('You are no longer a member of this workspace.');
+
+    setMembership(current);
+    setName(current.workspace.name);
+
+    setMembers(await request<WorkspaceMember[]>(`/api/workspaces/members?workspaceId=${workspaceId}`));
+    setInvites(current.permissions.includes('invite_workspace_members')
+      ? await request<WorkspaceInviteView[]>(`/api/workspaces/invites?workspaceId=${workspaceId}`)
+      : []);
+  }, [workspaceId]);
+
+  useEffect(() => {
+    setMembership(null);
+    setJoinUrl(null);
+    setMessage(null);
+    load().catch(error => setMessage({ type: 'error', text: error.message }));
+  }, [load]);
+
+  const run = async (key: string, action: () => Promise<Message | void>) => {
+    setBusy(key);
+    setMessage(null);
+    try {
+      const result = await action();
+      if (result) setMessage(result);
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Request failed' });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleInvite = () => run('invite', async () => {
+    const result = await request<{ invite: WorkspaceInviteView; joinUrl: string; emailed: boolean }>('/api/workspaces/invites', {
+      method: 'POST',
+      body: JSON.stringify({ workspaceId, email: inviteEmail, role: inviteRole })
+    });
+    setInviteEmail('');
+    setJoinUrl(result.joinUrl);
+    await load();
+    return {
+      type: 'success',
+      text: result.emailed
+        ? `Invite sent to ${result.invite.email}.`
+        : `Invite created for ${result.invite.email}, but the email could not be sent. Share the link below.`
+    };
+  });
+
+  const handleRevoke = (inviteId: string) => run(`revoke-${inviteId}`, async () => {
+    await request(`/api/workspaces/invites?workspaceId=${workspaceId}&id=${inviteId}`, { method: 'DELETE' });
+    await load();
+  });
+
+  const handleRoleChange = (memberId: string, role: string) => run(`role-${memberId}`, async () => {
+    await request('/api/workspaces/members', {
+      method: 'PATCH',
+      body: JSON.stringify({ workspaceId, userId: memberId, role })
+    });
+    await load();
+    return { type: 'success', text: 'Role updated.' };
+  });
+
+  const handleRemove = (member: WorkspaceMember) => run(`remove-${member.userId}`, async () => {
+    const leaving = member.userId === userId;
+    if (!window.confirm(leaving ? 'Leave this workspace?' : `Remove ${member.email} from this workspace?`)) return;
+
+    await request(`/api/workspaces/members?workspaceId=${workspaceId}&userId=${member.userId}`, { method: 'DELETE' });
+    if (leaving) {
+      setActiveWorkspaceId(null);
+      return { type: 'success', text: 'You left the workspace.' };
+    }
+    await load();
+  });
+
+  const handleRename = () => run('rename', async () => {
+    await request('/api/workspaces', { method: 'PATCH', body: JSON.stringify({ workspaceId, name }) });
+    await load();
+    return { type: 'success', text: 'Workspace renamed.' };
+  });
+
+  const handleDelete = () => run('delete', async () => {
+    if (!window.confirm('Delete this workspace for everyone? Members lose access to its shared data.')) return;
+
+    await request(`/api/workspaces?id=${workspaceId}`, { method: 'DELETE' });
+    setActiveWorkspaceId(null);
+    return { type: 'success', text: 'Workspace deleted.' };
+  });
+
+  if (!workspaceId) {
+    return (
+      <p className="body text-text-muted">
+        You are in your personal workspace. Create or switch to a team workspace from the sidebar to share ICPs,
+        personas and business cases with your team.
+      </p>
+    );
+  }
+
+  if (!membership) {
+    return message
+      ? <p className="body-small text-red-500">{message.text}</p>
+      : <p className="body text-text-muted">Loading workspace...</p>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-end gap-3">
+        <div className="flex-1 min-w-[200px]">
+          <label className="block form-label text-text-primary mb-1">Workspace name</label>
+          <input
+            type="text"
+            value={name}
+            disabled={!can('manage_workspace')}
+            onChange={event => setName(event.target.value)}
+            className="w-full px-3 py-2 border rounded-md text-text-primary disabled:opacity-70"
+            style={inputStyle}
+          />
+        </div>
+        {can('manage_workspace') && (
+          <>
+            <button
+              type="button"
+              onClick={handleRename}
+              disabled={busy !== null || name.trim() === membership.workspace.name}
+              className="px-4 py-2 rounded-md border text-text-primary disabled:opacity-50"
+              style={{ borderColor: 'var(--border-subtle)' }}
+            >
+              {busy === 'rename' ? 'Saving...' : 'Rename'}
+            </button>
+            <button type="button" onClick={handleDelete} disabled={busy !== null} className="body-small text-red-500 underline">
+              Delete workspace
+            </button>
+          </>
+        )}
+      </div>
+
+      <table className="w-full body-small">
+        <thead>
+          <tr className="text-left text-text-muted">
+            <th className="py-1 pr-3">Member</th>
+            <th className="py-1 pr-3">Role</th>
+            <th className="py-1" />
+          </tr>
+        </thead>
+        <tbody>
+          {members.map(member => (
+            <tr key={member.userId} className="border-t text-text-primary" style={{ borderColor: 'var(--border-subtle)' }}>
+              <td className="py-2 pr-3">
+                {member.email}
+                {member.userId === userId && <span className="text-text-muted"> (you)</span>}
+              </td>
+              <td className="py-2 pr-3">
+                {can('manage_workspace_members') && member.userId !== userId ? (
+                  <select
+                    value={member.role}
+                    disabled={busy !== null}
+                    onChange={event => handleRoleChange(member.userId, event.target.value)}
+                    className="px-2 py-1 border rounded-md text-text-primary"
+                    style={inputStyle}
+                  >
+                    {ROLE_OPTIONS.map(option => (
+                      <option key={option.value} value={option.value}>{option.label}</option>
+                    ))}
+                  </select>
+                ) : (
+                  <span className="capitalize">{member.role}</span>
+                )}
+              </td>
+              <td className="py-2 text-right">
+                {(member.userId === userId || can('manage_workspace_members')) && (
+                  <button
+                    type="button"
+                    onClick={() => handleRemove(member)}
+                    disabled={busy !== null}
+                    className="text-text-muted underline disabled:opacity-50"
+                  >
+                    {member.userId === userId ? 'Leave' : 'Remove'}
+                  </button>
+                )}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {can('invite_workspace_members') && (
+        <div className="border-t pt-4 space-y-3" style={{ borderColor: 'var(--border-subtle)' }}>
+          <h3 className="form-label text-text-primary">Invite a teammate</h3>
+          <div className="flex flex-wrap gap-3">
+            <input
+              type="email"
+              value={inviteEmail}
+              placeholder="name@company.com"
+              onChange={event => setInviteEmail(event.target.value)}
+              className="flex-1 min-w-[200px] px-3 py-2 border rounded-md text-text-primary"
+              style={inputStyle}
+            />
+            <select
+              value={inviteRole}
+              onChange={event => setInviteRole(event.target.value)}
+              className="px-3 py-2 border rounded-md text-text-primary"
+              style={inputStyle}
+            >
+              {ROLE_OPTIONS.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+            <button
+              type="button"
+              onClick={handleInvite}
+              disabled={busy !== null || !inviteEmail.trim()}
+              className="px-4 py-2 rounded-md text-white disabled:opacity-50"
+              style={{ background: 'var(--color-primary)' }}
+            >
+              {busy === 'invite' ? 'Inviting...' : 'Send invite'}
+            </button>
+          </div>
+
+          {joinUrl && (
+            <div>
+              <p className="body-small text-text-muted mb-1">Join link (only shown now, expires in 7 days):</p>
+              <input
+                type="text"
+                readOnly
+                value={joinUrl}
+                onFocus={event => event.target.select()}
+                className="w-full px-3 py-2 border rounded-md text-text-primary font-mono body-small"
+                style={inputStyle}
+              />
+            </div>
+          )}
+
+          {invites.length > 0 && (
+            <ul className="space-y-2">
+              {invites.map(invite => (
+                <li key={invite.id} className="flex items-center justify-between body-small text-text-primary">
+                  <span>
+                    {invite.email} <span className="text-text-muted">as {invite.role}, expires {new Date(invite.expiresAt).toLocaleDateString()}</span>
+                  </span>
+                  <button
+                    type="button"
+                    onClick={() => handleRevoke(invite.id)}
+                    disabled={busy !== null}
+                    className="text-text-muted underline disabled:opacity-50"
+                  >
+                    Revoke
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {message && (
+        <p className={`body-small ${message.type === 'error' ? 'text-red-500' : 'text-green-500'}`}>{message.text}</p>
+      )}
+    </div>
+  );
+}
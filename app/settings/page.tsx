@@ -1,5 +1,9 @@
 import { redirect } from 'next/navigation'
 import { createClient } from '@/app/lib/supabase/server'
+import { BrandProfileSettings } from './components/BrandProfileSettings'
+import { CRMFieldMappingSettings } from './components/CRMFieldMappingSettings'
+import { WebhookSettings } from './components/WebhookSettings'
+import { WorkspaceSettings } from './components/WorkspaceSettings'
 
 export default async function SettingsPage() {
   const supabase = await createClient()
@@ -44,6 +48,42 @@ export default async function SettingsPage() {
             </div>
           </div>
         </div>
+
+        <div id="workspace" className="rounded-lg shadow p-6 mt-6" style={{ background: 'var(--surface)' }}>
+          <div className="border-b pb-4 mb-4">
+            <h2 className="heading-3 text-text-primary">Team Workspace</h2>
+            <p className="body text-text-muted mt-1">Members, roles and invites for the workspace selected in the sidebar</p>
+          </div>
+
+          <WorkspaceSettings userId={user.id} />
+        </div>
+
+        <div className="rounded-lg shadow p-6 mt-6" style={{ background: 'var(--surface)' }}>
+          <div className="border-b pb-4 mb-4">
+            <h2 className="heading-3 text-text-primary">Export Branding</h2>
+            <p className="body text-text-muted mt-1">Logo, colors, font, footer and watermark applied to every export</p>
+          </div>
+
+          <BrandProfileSettings userId={user.id} />
+        </div>
+
+        <div className="rounded-lg shadow p-6 mt-6" style={{ background: 'var(--surface)' }}>
+          <div className="border-b pb-4 mb-4">
+            <h2 className="heading-3 text-text-primary">Webhooks</h2>
+            <p className="body text-text-muted mt-1">Push platform events into your own systems as signed HTTP requests</p>
+          </div>
+
+          <WebhookSettings />
+        </div>
+
+        <div className="rounded-lg shadow p-6 mt-6" style={{ background: 'var(--surface)' }}>
+          <div className="border-b pb-4 mb-4">
+            <h2 className="heading-3 text-text-primary">CRM Field Mapping</h2>
+            <p className="body text-text-muted mt-1">Choose which of your CRM account fields receive ICP and business case data</p>
+          </div>
+
+          <CRMFieldMappingSettings />
+        </div>
       </div>
     </div>
   )
@@ -0,0 +1,61 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { setActiveWorkspaceId } from '@/app/lib/workspaces/activeWorkspace';
+
+/**
+ * Accept Workspace Invite
+ *
+ * Joins the workspace from an invite link and makes it the active workspace.
+ */
+export function AcceptWorkspaceInvite({ token }: { token: string }) {
+  const router = useRouter();
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  if (!token) {
+    return <p className="body text-red-500">This invite link is incomplete. Ask for a new one.</p>;
+  }
+
+  const handleAccept = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/workspaces/invites/accept', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ token })
+      });
+      const body = await response.json().catch(() => ({}));
+
+      if (!response.ok || !body.success) {
+        throw new Error(body.error?.message || body.error || `Request failed: ${response.status}`);
+      }
+
+      setActiveWorkspaceId(body.data.workspace.id);
+      router.push('/dashboard');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not join the workspace');
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="body text-text-primary">
+        Joining gives you the shared ICPs, personas and business cases of this workspace.
+      </p>
+      <button
+        type="button"
+        onClick={handleAccept}
+        disabled={busy}
+        className="px-4 py-2 rounded-md text-white disabled:opacity-50"
+        style={{ background: 'var(--color-primary)' }}
+      >
+        {busy ? 'Joining...' : 'Join workspace'}
+      </button>
+      {error && <p className="body-small text-red-500">{error}</p>}
+    </div>
+  );
+}
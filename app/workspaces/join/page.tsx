@@ -0,0 +1,29 @@
+import { redirect } from 'next/navigation'
+import { createClient } from '@/app/lib/supabase/server'
+import { AcceptWorkspaceInvite } from '../components/AcceptWorkspaceInvite'
+
+export default async function JoinWorkspacePage({
+  searchParams
+}: {
+  searchParams: Promise<{ token?: string }>
+}) {
+  const supabase = await createClient()
+  const { data: { user }, error } = await supabase.auth.getUser()
+
+  if (error || !user) {
+    redirect('/login')
+  }
+
+  const { token } = await searchParams
+
+  return (
+    <div className="min-h-screen p-8" style={{ background: 'var(--background-primary)' }}>
+      <div className="max-w-xl mx-auto rounded-lg shadow p-6" style={{ background: 'var(--surface)' }}>
+        <h1 className="heading-3 text-text-primary mb-2">Join workspace</h1>
+        <p className="body text-text-muted mb-6">Signed in as {user.email}</p>
+
+        <AcceptWorkspaceInvite token={token ?? ''} />
+      </div>
+    </div>
+  )
+}
@@ -8,6 +8,20 @@ export async function register() {
   if (process.env.NEXT_RUNTIME === 'nodejs') {
     // Server-side instrumentation
     await import('./sentry.server.config');
+
+    // Customer webhook subscriptions to platform events
+    const { registerOutboundWebhooks } = await import('./app/lib/webhooks/outbound');
+    await registerOutboundWebhooks();
+
+    // Company ratings pushed to connected CRMs
+    const { registerCRMSync } = await import('./app/lib/crm/syncEngine');
+    await registerCRMSync();
+
+    // Recurring background jobs (nightly export cleanup, ...)
+    if (process.env.ENABLE_SCHEDULED_JOBS === 'true') {
+      const { registerScheduledJobs } = await import('./app/lib/queue/schedules');
+      registerScheduledJobs();
+    }
   }
 
   if (process.env.NEXT_RUNTIME === 'edge') {
@@ -0,0 +1,69 @@
+#!/usr/bin/env tsx
+
+/**
+ * Local CRM Mock Server
+ *
+ * Purpose: Try the CRM sync engine without HubSpot, Salesforce or Pipedrive accounts
+ * Use Case: Connect a CRM in settings with any token and one of the instance URLs below
+ *
+ *   npm run crm:mock
+ *   npm run crm:mock -- --port 4010
+ *
+ * Deals can be moved between stages from the prompt, e.g.
+ *   deal hubspot 1 "Big Renewal" closedwon 50000
+ */
+
+import readline from 'readline';
+import { startMockCRMServer } from '@/app/lib/crm/mockServer';
+
+const PLATFORMS = ['hubspot', 'salesforce', 'pipedrive'] as const;
+
+async function main() {
+  const portIndex = process.argv.indexOf('--port');
+  const port = portIndex >= 0 ? Number(process.argv[portIndex + 1]) : 4010;
+  const server = await startMockCRMServer(port);
+
+  console.log(`🧪 Mock CRM listening on ${server.url}`);
+  console.log(`   HubSpot     instanceUrl ${server.url}/hubspot`);
+  console.log(`   Salesforce  instanceUrl ${server.url}/salesforce`);
+  console.log(`   Pipedrive   instanceUrl ${server.url}/pipedrive/v1`);
+  console.log('   deal <platform> <id> "<name>" <stage> [amount]   add or move a deal');
+  console.log('   accounts <platform>                               list synced accounts');
+
+  const prompt = readline.createInterface({ input: process.stdin, output: process.stdout });
+
+  prompt.on('line', line => {
+    const args = line.match(/"[^"]*"|\S+/g)?.map(arg => arg.replace(/^"|"$/g, '')) ?? [];
+    const [command, platform] = args;
+
+    if (!PLATFORMS.includes(platform as typeof PLATFORMS[number])) {
+      if (command) console.log(`Platform must be one of ${PLATFORMS.join(', ')}`);
+      return;
+    }
+
+    const key = platform as typeof PLATFORMS[number];
+
+    if (command === 'deal' && args.length >= 5) {
+      server.setDeal(key, { id: args[2], name: args[3], stage: args[4], amount: args[5] ? Number(args[5]) : undefined });
+      console.log(`✅ ${platform} deal ${args[2]} is now in ${args[4]}`);
+    } else if (command === 'accounts') {
+      console.table([...server.state.accounts[key].entries()].map(([id, values]) => ({ id, ...values })));
+    } else {
+      console.log(`Unknown command: ${line}`);
+    }
+  });
+
+  const shutdown = async () => {
+    prompt.close();
+    await server.close();
+    process.exit(0);
+  };
+
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}
+
+main().catch(error => {
+  console.error('❌ Mock CRM failed to start:', error);
+  process.exit(1);
+});
@@ -0,0 +1,166 @@
+#!/usr/bin/env tsx
+
+/**
+ * Offline AI Evaluation
+ *
+ * Purpose: Tell whether a prompt or generator change made output better or worse
+ * Use Case: Run before promoting a draft prompt version or changing persona templates
+ *
+ * Prompt suites (icp.resources, icp.rating_framework) compare two prompt
+ * versions over the golden set, replaying recorded Claude responses:
+ *   npm run eval:ai -- --suite icp.resources --baseline 1 --candidate 2
+ *   npm run eval:ai -- --suite icp.resources --baseline 1 --candidate 2 --record --limit 10
+ *
+ * The persona suite evaluates AIIntegrationTemplates.generateBuyerPersona and
+ * compares the current code against a saved run:
+ *   npm run eval:ai -- --suite persona.buyer_persona --save-run .data/eval/persona-before.json
+ *   npm run eval:ai -- --suite persona.buyer_persona --baseline-run .data/eval/persona-before.json
+ *
+ * Options:
+ *   --record              Call Claude for prompts without a recording (needs ANTHROPIC_API_KEY)
+ *   --recordings <file>   Recorded responses (default data/evaluation/recordings.json)
+ *   --limit <n>           Only the first n fixtures
+ *   --fixtures <a,b>      Only these fixture ids
+ *   --save-run <file>     Write the candidate run as JSON
+ *   --out <file>          Write the markdown report instead of printing it
+ *   --threshold <n>       Score change that counts as improved/regressed (default 0.05)
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { loadGoldenSet } from '@/app/lib/evaluation/goldenSet';
+import {
+  ClaudeEvaluationModel,
+  RecordingModel,
+  ReplayModel,
+  loadRecordings,
+  saveRecordings
+} from '@/app/lib/evaluation/replayModel';
+import {
+  EvaluationRun,
+  EvaluationSuiteId,
+  diffRuns,
+  formatDiffReport,
+  getSuite,
+  runEvaluation
+} from '@/app/lib/evaluation/runner';
+
+const DEFAULT_RECORDINGS = 'data/evaluation/recordings.json';
+
+function parseArgs(argv: string[]): Record<string, string | true> {
+  const args: Record<string, string | true> = {};
+  for (let index = 0; index < argv.length; index++) {
+    const arg = argv[index];
+    if (!arg.startsWith('--')) continue;
+
+    const next = argv[index + 1];
+    if (next === undefined || next.startsWith('--')) {
+      args[arg.slice(2)] = true;
+    } else {
+      args[arg.slice(2)] = next;
+      index++;
+    }
+  }
+  return args;
+}
+
+function option(args: Record<string, string | true>, name: string): string | undefined {
+  const value = args[name];
+  return typeof value === 'string' ? value : undefined;
+}
+
+function writeFile(file: string, contents: string): void {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, contents);
+}
+
+async function main(): Promise<number> {
+  const args = parseArgs(process.argv.slice(2));
+  const suiteId = option(args, 'suite');
+
+  if (!suiteId) {
+    console.error('❌ --suite is required (icp.resources, icp.rating_framework or persona.buyer_persona)');
+    return 1;
+  }
+
+  const suite = getSuite(suiteId);
+  const fixtures = loadGoldenSet({
+    limit: option(args, 'limit') ? Number(option(args, 'limit')) : undefined,
+    ids: option(args, 'fixtures')?.split(',')
+  });
+
+  const recordingsFile = option(args, 'recordings') ?? DEFAULT_RECORDINGS;
+  const recordings = loadRecordings(recordingsFile);
+  const model = args.record
+    ? new RecordingModel(new ClaudeEvaluationModel(), recordings)
+    : new ReplayModel(recordings);
+
+  const run = (version?: number) => {
+    console.log(`🧪 ${suite.id}${version ? ` v${version}` : ''}: ${fixtures.length} fixtures (${model.name})`);
+    return runEvaluation({
+      suite: suite.id as EvaluationSuiteId,
+      fixtures,
+      model,
+      version,
+      onResult: result => console.log(`  ${result.error ? '❌' : '✅'} ${result.fixtureId}: ${result.score.toFixed(3)}${result.error ? ` (${result.error})` : ''}`)
+    });
+  };
+
+  let baseline: EvaluationRun;
+  let candidate: EvaluationRun;
+
+  try {
+    if (suite.templateId) {
+      const baselineVersion = option(args, 'baseline');
+      const candidateVersion = option(args, 'candidate');
+      if (!baselineVersion || !candidateVersion) {
+        console.error('❌ Prompt suites need --baseline and --candidate versions');
+        return 1;
+      }
+
+      baseline = await run(Number(baselineVersion));
+      candidate = await run(Number(candidateVersion));
+    } else {
+      candidate = await run();
+
+      const baselineRun = option(args, 'baseline-run');
+      if (!baselineRun) {
+        const saveRun = option(args, 'save-run');
+        if (saveRun) writeFile(saveRun, `${JSON.stringify(candidate, null, 2)}\n`);
+        console.log(`\nMean score: ${candidate.meanScore.toFixed(3)} (${candidate.failures} failed)`);
+        return 0;
+      }
+
+      baseline = JSON.parse(fs.readFileSync(baselineRun, 'utf8'));
+    }
+  } finally {
+    if (model instanceof RecordingModel && model.newRecordings > 0) {
+      saveRecordings(recordingsFile, recordings);
+      console.log(`💾 Saved ${model.newRecordings} new recordings to ${recordingsFile}`);
+    }
+  }
+
+  const saveRun = option(args, 'save-run');
+  if (saveRun) writeFile(saveRun, `${JSON.stringify(candidate, null, 2)}\n`);
+
+  const report = formatDiffReport(diffRuns(baseline, candidate, {
+    threshold: option(args, 'threshold') ? Number(option(args, 'threshold')) : undefined
+  }));
+
+  const out = option(args, 'out');
+  if (out) {
+    writeFile(out, `${report}\n`);
+    console.log(`📄 Report written to ${out}`);
+  } else {
+    console.log(`\n${report}`);
+  }
+
+  return 0;
+}
+
+main()
+  .then(code => process.exit(code))
+  .catch(error => {
+    console.error('❌ Evaluation failed:', error);
+    process.exit(1);
+  });
@@ -0,0 +1,329 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import {
+  BUSINESS_CASE_SECTIONS,
+  BusinessCaseSection,
+  LOCKED_STATUSES,
+  WORKFLOW_TRANSITIONS,
+  WorkflowAction
+} from '@/app/lib/business-cases/workflow';
+import type { BusinessCaseComment, BusinessCaseView } from '@/app/lib/business-cases/workflowService';
+import { useActiveWorkspaceId } from '@/app/lib/workspaces/activeWorkspace';
+import type { WorkspaceMember } from '@/app/lib/workspaces/workspaceService';
+import { BUSINESS_CASE_DEFAULTS } from './BusinessCaseTypes';
+import { SECTION_LABELS } from './BusinessCaseVersionHistory';
+
+const inputStyle = { borderColor: 'var(--border-subtle)', background: 'var(--background-secondary)' };
+
+const STATUS_LABELS: Record<BusinessCaseView['status'], string> = {
+  draft: 'Draft',
+  review: 'In review',
+  approved: 'Approved',
+  final: 'Final'
+};
+
+async function request<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, {
+    ...init,
+    headers: init?.body ? { 'Content-Type': 'application/json' } : undefined
+  });
+  const body = await response.json().catch(() => ({}));
+
+  if (!response.ok || !body.success) {
+    throw new Error(body.error?.message || body.error || `Request failed: ${response.status}`);
+  }
+
+  return body.data;
+}
+
+function caseLabel(businessCase: BusinessCaseView): string {
+  return businessCase.data.header?.priorityHeadline || businessCase.data.header?.companyName || businessCase.id;
+}
+
+/** Fields of a section comments can be pinned to */
+function sectionFields(section: BusinessCaseSection): string[] {
+  return Object.keys(BUSINESS_CASE_DEFAULTS[section] || {});
+}
+
+/**
+ * Business Case Review
+ *
+ * Review workflow of the saved cases in the active workspace: status and
+ * what the next status still needs, the workflow actions the caller can
+ * take, reviewer assignment, approvals and comments pinned to section fields.
+ * Final cases are shown read-only; the server refuses any change to them.
+ */
+export function BusinessCaseReviewPanel() {
+  const workspaceId = useActiveWorkspaceId();
+  const [cases, setCases] = useState<BusinessCaseView[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [comments, setComments] = useState<BusinessCaseComment[]>([]);
+  const [members, setMembers] = useState<WorkspaceMember[]>([]);
+  const [reviewerIds, setReviewerIds] = useState<string[]>([]);
+  const [section, setSection] = useState<BusinessCaseSection>('executiveSummary');
+  const [field, setField] = useState(sectionFields('executiveSummary')[0]);
+  const [commentBody, setCommentBody] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const selected = cases.find(entry => entry.id === selectedId) || null;
+  const locked = selected ? LOCKED_STATUSES.includes(selected.status) : false;
+  const editable = selected?.status === 'draft' || selected?.status === 'review';
+
+  const loadCases = useCallback(async () => {
+    const list = await request<BusinessCaseView[]>('/api/business-cases');
+    setCases(list);
+    setSelectedId(current => (list.some(entry => entry.id === current) ? current : list[0]?.id ?? null));
+  }, []);
+
+  useEffect(() => {
+    setLoading(true);
+    setError(null);
+    loadCases()
+      .catch(err => setError(err.message))
+      .finally(() => setLoading(false));
+  }, [loadCases, workspaceId]);
+
+  useEffect(() => {
+    setComments([]);
+    setMembers([]);
+    setReviewerIds(selected?.reviewers ?? []);
+    if (!selected) return;
+
+    request<BusinessCaseComment[]>(`/api/business-cases/comments?id=${selected.id}`)
+      .then(setComments)
+      .catch(err => setError(err.message));
+
+    if (selected.workspaceId) {
+      request<WorkspaceMember[]>(`/api/workspaces/members?workspaceId=${selected.workspaceId}`)
+        .then(setMembers)
+        .catch(err => setError(err.message));
+    }
+  }, [selected]);
+
+  const memberName = (userId: string) => members.find(member => member.userId === userId)?.email || userId;
+
+  const run = async (work: () => Promise<unknown>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await work();
+      await loadCases();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Request failed');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleAction = (action: WorkflowAction) => {
+    const transition = WORKFLOW_TRANSITIONS[action];
+    const reason = transition.requiresReason
+      ? window.prompt(`${transition.label}: why?`)?.trim()
+      : undefined;
+    if (transition.requiresReason && !reason) return;
+
+    return run(() => request('/api/business-cases/workflow', {
+      method: 'POST',
+      body: JSON.stringify({ id: selected!.id, action, reason })
+    }));
+  };
+
+  const handleSaveReviewers = () => run(() => request('/api/business-cases/reviewers', {
+    method: 'PUT',
+    body: JSON.stringify({ id: selected!.id, reviewerIds })
+  }));
+
+  const handleAddComment = () => run(async () => {
+    await request('/api/business-cases/comments', {
+      method: 'POST',
+      body: JSON.stringify({ id: selected!.id, fieldPath: `${section}.${field}`, body: commentBody })
+    });
+    setCommentBody('');
+  });
+
+  const handleResolve = (commentId: string) => run(() => request('/api/business-cases/comments', {
+    method: 'PATCH',
+    body: JSON.stringify({ id: selected!.id, commentId })
+  }));
+
+  if (loading) {
+    return <p className="body text-text-muted">Loading business cases...</p>;
+  }
+
+  if (!selected) {
+    return error
+      ? <p className="body-small text-red-500">{error}</p>
+      : <p className="body text-text-muted">No saved business cases in this workspace yet.</p>;
+  }
+
+  const candidates = members.filter(member => member.userId !== selected.createdBy);
+
+  return (
+    <div className="space-y-6 text-text-primary">
+      <div className="flex flex-wrap items-center gap-3 body-small">
+        <select
+          value={selected.id}
+          onChange={event => setSelectedId(event.target.value)}
+          className="px-2 py-1 border rounded-md"
+          style={inputStyle}
+        >
+          {cases.map(entry => (
+            <option key={entry.id} value={entry.id}>{caseLabel(entry)}</option>
+          ))}
+        </select>
+        <span className="px-2 py-0.5 rounded-full border text-xs" style={{ borderColor: 'var(--border-subtle)' }}>
+          {STATUS_LABELS[selected.status]}
+        </span>
+        <span className="text-text-muted">Version {selected.data.version}</span>
+        <a href={`/business-case/history?id=${selected.id}`} className="text-text-muted underline">Version history</a>
+      </div>
+
+      {locked && (
+        <p className="body-small text-text-muted">This business case is final and locked. It can no longer be edited or commented on.</p>
+      )}
+
+      {selected.missingForNextStatus.length > 0 && (
+        <div className="body-small">
+          <p className="text-text-muted mb-1">Still needed for the next status ({selected.missingForNextStatus.length}):</p>
+          <p className="font-mono text-xs break-words">{selected.missingForNextStatus.join(', ')}</p>
+        </div>
+      )}
+
+      {selected.availableActions.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {selected.availableActions.map(action => (
+            <button
+              key={action}
+              type="button"
+              onClick={() => handleAction(action)}
+              disabled={busy}
+              className="px-3 py-1.5 rounded-md border body-small disabled:opacity-50"
+              style={inputStyle}
+            >
+              {WORKFLOW_TRANSITIONS[action].label}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {selected.workspaceId ? (
+        <div className="space-y-2">
+          <h3 className="form-label">Reviewers</h3>
+          {candidates.length === 0 && <p className="body-small text-text-muted">Invite teammates to this workspace to review the case.</p>}
+          {candidates.map(member => {
+            const approval = selected.approvals.find(entry => entry.userId === member.userId);
+            return (
+              <label key={member.userId} className="flex items-center gap-2 body-small">
+                <input
+                  type="checkbox"
+                  checked={reviewerIds.includes(member.userId)}
+                  disabled={!editable || busy}
+                  onChange={event => setReviewerIds(ids => (event.target.checked
+                    ? [...ids, member.userId]
+                    : ids.filter(id => id !== member.userId)))}
+                />
+                <span>{member.email}</span>
+                {approval && <span className="text-xs text-emerald-400">approved{approval.reason ? `: ${approval.reason}` : ''}</span>}
+              </label>
+            );
+          })}
+          {editable && candidates.length > 0 && (
+            <button
+              type="button"
+              onClick={handleSaveReviewers}
+              disabled={busy}
+              className="text-text-muted underline body-small disabled:opacity-50"
+            >
+              Save reviewers
+            </button>
+          )}
+        </div>
+      ) : (
+        <p className="body-small text-text-muted">Personal business cases are approved by their owner. Switch to a team workspace to assign reviewers.</p>
+      )}
+
+      <div className="space-y-3">
+        <h3 className="form-label">Comments <span className="text-text-muted">({selected.openComments} open)</span></h3>
+        {comments.length === 0 && <p className="body-small text-text-muted">No comments yet.</p>}
+        <ul className="space-y-2">
+          {comments.map(comment => {
+            const [commentSection, ...path] = comment.fieldPath.split('.');
+            return (
+              <li key={comment.id} className={`body-small ${comment.resolvedAt ? 'text-text-muted' : ''}`}>
+                <span className="font-mono text-xs">{SECTION_LABELS[commentSection]} · {path.join('.')}</span>{' '}
+                <span className="text-text-muted">{memberName(comment.authorId)}, {new Date(comment.createdAt).toLocaleString()}</span>
+                <p className="break-words">{comment.body}</p>
+                {comment.resolvedAt
+                  ? <span className="text-xs">Resolved by {memberName(comment.resolvedBy!)}</span>
+                  : !locked && (
+                    <button
+                      type="button"
+                      onClick={() => handleResolve(comment.id)}
+                      disabled={busy}
+                      className="text-xs text-text-muted underline disabled:opacity-50"
+                    >
+                      Resolve
+                    </button>
+                  )}
+              </li>
+            );
+          })}
+        </ul>
+
+        {!locked && (
+          <div className="space-y-2">
+            <div className="flex flex-wrap gap-2 body-small">
+              <select
+                value={section}
+                onChange={event => {
+                  const next = event.target.value as BusinessCaseSection;
+                  setSection(next);
+                  setField(sectionFields(next)[0]);
+                }}
+                className="px-2 py-1 border rounded-md"
+                style={inputStyle}
+              >
+                {BUSINESS_CASE_SECTIONS.map(entry => (
+                  <option key={entry} value={entry}>{SECTION_LABELS[entry]}</option>
+                ))}
+              </select>
+              <select
+                value={field}
+                onChange={event => setField(event.target.value)}
+                className="px-2 py-1 border rounded-md"
+                style={inputStyle}
+              >
+                {sectionFields(section).map(entry => (
+                  <option key={entry} value={entry}>{entry}</option>
+                ))}
+              </select>
+            </div>
+            <textarea
+              value={commentBody}
+              onChange={event => setCommentBody(event.target.value)}
+              maxLength={5000}
+              rows={3}
+              placeholder="Comment on this field"
+              className="w-full px-3 py-2 border rounded-md body-small"
+              style={inputStyle}
+            />
+            <button
+              type="button"
+              onClick={handleAddComment}
+              disabled={busy || !commentBody.trim()}
+              className="px-3 py-1.5 rounded-md border body-small disabled:opacity-50"
+              style={inputStyle}
+            >
+              Add comment
+            </button>
+          </div>
+        )}
+      </div>
+
+      {error && <p className="body-small text-red-500">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,224 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { CHANGE_SOURCE_LABELS, BusinessCaseDiff, ChangeSource, FieldChange } from '@/app/lib/business-cases/versioning';
+import type { BusinessCaseVersionSummary, BusinessCaseView } from '@/app/lib/business-cases/workflowService';
+
+export const SECTION_LABELS: Record<string, string> = {
+  header: 'Header',
+  executiveSummary: 'Executive Summary',
+  businessChallenge: 'Business Challenge',
+  approachDifferentiation: 'Approach & Differentiation',
+  businessImpactROI: 'Business Impact & ROI',
+  investmentImplementation: 'Investment & Implementation',
+  strategyNextSteps: 'Strategy & Next Steps'
+};
+
+const SOURCE_COLORS: Record<ChangeSource, string> = {
+  auto_population: 'var(--color-primary)',
+  ai_generated: '#a855f7',
+  manual: 'var(--text-muted)'
+};
+
+async function request<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, {
+    ...init,
+    headers: init?.body ? { 'Content-Type': 'application/json' } : undefined
+  });
+  const body = await response.json().catch(() => ({}));
+
+  if (!response.ok || !body.success) {
+    throw new Error(body.error?.message || body.error || `Request failed: ${response.status}`);
+  }
+
+  return body.data;
+}
+
+function formatValue(value: unknown): string {
+  if (value === undefined || value === null || value === '') return '—';
+  if (Array.isArray(value)) return value.length ? value.map(formatValue).join(', ') : '—';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+function SourceBadge({ change }: { change: FieldChange }) {
+  const detail = change.autoPopulationSource && change.source === 'auto_population'
+    ? ` (${change.autoPopulationSource.replace('_', ' ').toLowerCase()})`
+    : '';
+
+  return (
+    <span
+      className="inline-block px-2 py-0.5 rounded-full text-xs whitespace-nowrap border"
+      style={{ color: SOURCE_COLORS[change.source], borderColor: SOURCE_COLORS[change.source] }}
+    >
+      {CHANGE_SOURCE_LABELS[change.source]}{detail}
+    </span>
+  );
+}
+
+function ChangeTable({ title, changes, diff }: { title: string; changes: FieldChange[]; diff: BusinessCaseDiff }) {
+  return (
+    <div>
+      <h3 className="form-label text-text-primary mb-2">
+        {title} <span className="text-text-muted">({changes.length} changed)</span>
+      </h3>
+      <table className="w-full body-small table-fixed">
+        <thead>
+          <tr className="text-left text-text-muted">
+            <th className="py-1 pr-3 w-1/4">Field</th>
+            <th className="py-1 pr-3">Version {diff.fromVersion}</th>
+            <th className="py-1 pr-3">Version {diff.toVersion}</th>
+            <th className="py-1 w-40">Change</th>
+          </tr>
+        </thead>
+        <tbody>
+          {changes.map(change => (
+            <tr key={change.path} className="border-t align-top text-text-primary" style={{ borderColor: 'var(--border-subtle)' }}>
+              <td className="py-2 pr-3 font-mono text-xs break-all">{change.path.split('.').slice(1).join('.') || change.path}</td>
+              <td className="py-2 pr-3 break-words line-through text-text-muted">{formatValue(change.before)}</td>
+              <td className="py-2 pr-3 break-words">{formatValue(change.after)}</td>
+              <td className="py-2"><SourceBadge change={change} /></td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+/**
+ * Business Case Version History
+ *
+ * Every saved version of a business case, a side-by-side diff of any two
+ * versions by section (labelled auto-populated, AI generated or manual edit)
+ * and restore to an earlier version.
+ */
+export function BusinessCaseVersionHistory({ caseId }: { caseId: string }) {
+  const [businessCase, setBusinessCase] = useState<BusinessCaseView | null>(null);
+  const [versions, setVersions] = useState<BusinessCaseVersionSummary[]>([]);
+  const [fromVersion, setFromVersion] = useState<number | null>(null);
+  const [toVersion, setToVersion] = useState<number | null>(null);
+  const [diff, setDiff] = useState<BusinessCaseDiff | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    const [current, history] = await Promise.all([
+      request<BusinessCaseView>(`/api/business-cases?id=${caseId}`),
+      request<BusinessCaseVersionSummary[]>(`/api/business-cases/versions?id=${caseId}`)
+    ]);
+    setBusinessCase(current);
+    setVersions(history);
+    setToVersion(history[0]?.version ?? null);
+    setFromVersion(history[1]?.version ?? null);
+  }, [caseId]);
+
+  useEffect(() => {
+    load().catch(err => setError(err.message));
+  }, [load]);
+
+  useEffect(() => {
+    setDiff(null);
+    if (fromVersion === null || toVersion === null || fromVersion === toVersion) return;
+
+    request<BusinessCaseDiff>(`/api/business-cases/versions/diff?id=${caseId}&from=${fromVersion}&to=${toVersion}`)
+      .then(setDiff)
+      .catch(err => setError(err.message));
+  }, [caseId, fromVersion, toVersion]);
+
+  const handleRestore = async (version: number) => {
+    if (!window.confirm(`Restore the content of version ${version}? It is saved as a new version.`)) return;
+
+    setBusy(true);
+    setError(null);
+    try {
+      await request('/api/business-cases/versions', { method: 'POST', body: JSON.stringify({ id: caseId, version }) });
+      await load();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Restore failed');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (!businessCase) {
+    return error
+      ? <p className="body-small text-red-500">{error}</p>
+      : <p className="body text-text-muted">Loading version history...</p>;
+  }
+
+  const canRestore = businessCase.status === 'draft' || businessCase.status === 'review';
+  const versionOptions = versions.map(entry => (
+    <option key={entry.version} value={entry.version}>Version {entry.version}</option>
+  ));
+
+  return (
+    <div className="space-y-6">
+      <ul className="space-y-2">
+        {versions.map(entry => (
+          <li key={entry.version} className="flex items-center justify-between gap-3 body-small text-text-primary">
+            <span>
+              <strong>Version {entry.version}</strong>{' '}
+              <span className="text-text-muted">
+                {entry.kind === 'restored' ? `restored from version ${entry.restoredFrom}` : entry.kind},{' '}
+                {entry.changedFields.length} field(s), {new Date(entry.createdAt).toLocaleString()}
+              </span>{' '}
+              {entry.sources.map(source => (
+                <span key={source} className="ml-1 text-xs" style={{ color: SOURCE_COLORS[source] }}>
+                  {CHANGE_SOURCE_LABELS[source]}
+                </span>
+              ))}
+            </span>
+            {canRestore && entry.version !== businessCase.data.version && (
+              <button
+                type="button"
+                onClick={() => handleRestore(entry.version)}
+                disabled={busy}
+                className="text-text-muted underline disabled:opacity-50"
+              >
+                Restore
+              </button>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      {versions.length > 1 && (
+        <div className="flex flex-wrap items-center gap-3 body-small text-text-primary">
+          <span>Compare</span>
+          <select
+            value={fromVersion ?? ''}
+            onChange={event => setFromVersion(Number(event.target.value))}
+            className="px-2 py-1 border rounded-md"
+            style={{ borderColor: 'var(--border-subtle)', background: 'var(--background-secondary)' }}
+          >
+            {versionOptions}
+          </select>
+          <span>with</span>
+          <select
+            value={toVersion ?? ''}
+            onChange={event => setToVersion(Number(event.target.value))}
+            className="px-2 py-1 border rounded-md"
+            style={{ borderColor: 'var(--border-subtle)', background: 'var(--background-secondary)' }}
+          >
+            {versionOptions}
+          </select>
+        </div>
+      )}
+
+      {diff && diff.totalChanges === 0 && (
+        <p className="body text-text-muted">No differences between these versions.</p>
+      )}
+
+      {diff && diff.sections
+        .filter(section => section.changes.length > 0)
+        .map(section => (
+          <ChangeTable key={section.section} title={SECTION_LABELS[section.section]} changes={section.changes} diff={diff} />
+        ))}
+
+      {diff && diff.settings.length > 0 && <ChangeTable title="Settings" changes={diff.settings} diff={diff} />}
+
+      {error && <p className="body-small text-red-500">{error}</p>}
+    </div>
+  );
+}
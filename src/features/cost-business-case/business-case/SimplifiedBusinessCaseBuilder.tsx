@@ -5,6 +5,7 @@ import { ModernCard } from '@/src/shared/components/ui/ModernCard';
 import { ModernCircularProgress } from '@/src/shared/components/ui/ModernCircularProgress';
 import { useSystematicScaling } from '@/src/shared/contexts/SystematicScalingContext';
 import { GlassButton } from '@/src/shared/components/design-system';
+import { BusinessCaseReviewPanel } from './BusinessCaseReviewPanel';
 
 interface BusinessCaseData {
   currentCost: number;
@@ -343,6 +344,16 @@ const SimplifiedBusinessCaseBuilder: React.FC<SimplifiedBusinessCaseBuilderProps
             ))}
           </div>
         </ModernCard>
+
+        {/* Review & Approval */}
+        <ModernCard className="p-6">
+          <div className="flex items-center space-x-3 mb-6">
+            <div className="w-3 h-3 bg-gradient-to-r from-emerald-500 to-blue-500 rounded-full"></div>
+            <h3 className="text-xl font-semibold text-white">Review & Approval</h3>
+          </div>
+
+          <BusinessCaseReviewPanel />
+        </ModernCard>
       </div>
     </div>
   );
@@ -2,27 +2,24 @@
  * businessCaseExportService.ts
  *
  * Export service for Business Case Builder
- * Generates professional one-page business cases in PDF, DOCX, and HTML formats
- * Integrates with Phase 2.1 export infrastructure (PDFGenerator, DOCXGenerator)
+ * Generates professional one-page business cases in PDF, DOCX, PPTX, and HTML formats
+ * Integrates with Phase 2.1 export infrastructure (PDFGenerator, DOCXGenerator, PPTXGenerator)
  */
 
 import { BusinessCaseData } from '../BusinessCaseTypes';
 import { PDFGenerator } from '@/app/lib/services/export/generators/PDFGenerator';
 import { DOCXGenerator } from '@/app/lib/services/export/generators/DOCXGenerator';
+import { PPTXGenerator } from '@/app/lib/services/export/generators/PPTXGenerator';
+import { BrandingInput, getWatermarkText, resolveBrandProfile } from '@/app/lib/services/export/branding';
 
 // ============================================================================
 // TYPE DEFINITIONS
 // ============================================================================
 
 export interface ExportOptions {
-  format: 'pdf' | 'docx' | 'html';
+  format: 'pdf' | 'docx' | 'pptx' | 'html';
   filename?: string;
-  branding?: {
-    logo?: string;
-    primaryColor?: string;
-    secondaryColor?: string;
-    companyName?: string;
-  };
+  branding?: BrandingInput;
   includeConfidenceIndicators?: boolean;
   includeMetadata?: boolean;
 }
@@ -240,6 +237,40 @@ export async function exportToDOCX(
   }
 }
 
+/**
+ * Export business case to PPTX format (one slide per section)
+ */
+export async function exportToPPTX(
+  businessCase: BusinessCaseData,
+  options: ExportOptions = { format: 'pptx' }
+): Promise<ExportResult> {
+  try {
+    const transformedData = transformBusinessCaseForExport(businessCase);
+    const filename = options.filename || `business-case-${Date.now()}.pptx`;
+
+    const blob = await PPTXGenerator.generateBusinessCase(transformedData, {
+      title: businessCase.header.priorityHeadline || 'Business Case',
+      subtitle: businessCase.header.companyName || 'Strategic Investment Proposal',
+      author: businessCase.header.partnerName || 'Revenue Intelligence Platform',
+      company: options.branding?.companyName,
+      branding: options.branding
+    });
+
+    return {
+      success: true,
+      blob,
+      filename
+    };
+  } catch (error) {
+    console.error('PPTX export failed:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'PPTX generation failed',
+      filename: ''
+    };
+  }
+}
+
 /**
  * Export business case to HTML format (email-friendly)
  */
@@ -276,8 +307,9 @@ export async function exportToHTML(
 function generateHTMLBusinessCase(businessCase: BusinessCaseData, options: ExportOptions): string {
   const { header, executiveSummary, businessChallenge, approachDifferentiation, businessImpactROI, investmentImplementation, strategyNextSteps } = businessCase;
 
-  const primaryColor = options.branding?.primaryColor || '#8B5CF6';
-  const secondaryColor = options.branding?.secondaryColor || '#3B82F6';
+  const brand = resolveBrandProfile(options.branding);
+  const { primaryColor, secondaryColor } = brand;
+  const watermark = getWatermarkText(brand);
 
   return `
 <!DOCTYPE html>
@@ -288,7 +320,7 @@ function generateHTMLBusinessCase(businessCase: BusinessCaseData, options: Expor
     <title>${header.priorityHeadline || 'Business Case'}</title>
     <style>
         body {
-            font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Helvetica, Arial, sans-serif;
+            font-family: '${brand.fontFamily}', -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Helvetica, Arial, sans-serif;
             line-height: 1.6;
             color: #1f2937;
             max-width: 900px;
@@ -399,6 +431,24 @@ function generateHTMLBusinessCase(businessCase: BusinessCaseData, options: Expor
             color: #9ca3af;
             font-size: 12px;
         }
+        .header .logo {
+            max-width: 200px;
+            max-height: 80px;
+            margin-bottom: 15px;
+        }
+        .watermark {
+            position: fixed;
+            top: 45%;
+            left: 0;
+            right: 0;
+            text-align: center;
+            font-size: 72px;
+            font-weight: 700;
+            color: ${primaryColor};
+            opacity: 0.12;
+            transform: rotate(-30deg);
+            pointer-events: none;
+        }
         @media print {
             body {
                 background-color: white;
@@ -411,9 +461,11 @@ function generateHTMLBusinessCase(businessCase: BusinessCaseData, options: Expor
     </style>
 </head>
 <body>
+    ${watermark ? `<div class="watermark">${watermark}</div>` : ''}
     <div class="container">
         <!-- HEADER -->
         <div class="header">
+            ${brand.companyLogo ? `<img class="logo" src="${brand.companyLogo}" alt="${brand.companyName || 'Company logo'}">` : ''}
             <h1>${header.priorityHeadline || 'Strategic Business Case'}</h1>
             <div class="company">${header.companyName || 'Business Case'}</div>
             <div class="meta">
@@ -565,7 +617,7 @@ function generateHTMLBusinessCase(businessCase: BusinessCaseData, options: Expor
 
         <!-- FOOTER -->
         <div class="footer">
-            Generated by Revenue Intelligence Platform | ${new Date().toLocaleDateString()}
+            ${brand.footerText} | ${new Date().toLocaleDateString()}
             ${options.includeMetadata ? '<br>Powered by Business Case Builder' : ''}
         </div>
     </div>
@@ -590,6 +642,8 @@ export async function exportBusinessCase(
       return exportToPDF(businessCase, options);
     case 'docx':
       return exportToDOCX(businessCase, options);
+    case 'pptx':
+      return exportToPPTX(businessCase, options);
     case 'html':
       return exportToHTML(businessCase, options);
     default:
@@ -624,6 +678,7 @@ export default {
   exportBusinessCase,
   exportToPDF,
   exportToDOCX,
+  exportToPPTX,
   exportToHTML,
   downloadExport
 };
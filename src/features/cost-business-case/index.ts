@@ -9,6 +9,8 @@ export { default as SimplifiedCostCalculator } from './cost-calculator/Simplifie
 
 // Business Case Components - MVP: Use named exports
 export { default as SimplifiedBusinessCaseBuilder } from './business-case/SimplifiedBusinessCaseBuilder';
+export { BusinessCaseVersionHistory } from './business-case/BusinessCaseVersionHistory';
+export { BusinessCaseReviewPanel } from './business-case/BusinessCaseReviewPanel';
 
 // Re-export types if any are defined in the components
 export type * from './cost-calculator/CostCalculatorForm';
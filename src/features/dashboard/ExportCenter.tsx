@@ -2,6 +2,18 @@
 
 import React, { useState } from 'react';
 import { ModernCard } from '@/src/shared/components/ui/ModernCard';
+import { useUsageQuota } from '@/app/lib/hooks/cache/useUsageQuota';
+import type { BillableEvent } from '@/app/lib/middleware/rbac';
+
+// Export formats metered against the monthly quota
+const METERED_FORMATS: Record<string, BillableEvent> = {
+  pdf: 'export_pdf'
+};
+
+const QUOTA_LABELS: Array<{ event: BillableEvent; label: string }> = [
+  { event: 'export_pdf', label: 'PDF Exports' },
+  { event: 'export_docx', label: 'DOCX Exports' }
+];
 
 interface ExportCenterProps {
   customerId: string;
@@ -11,6 +23,12 @@ interface ExportCenterProps {
 export function ExportCenter({ customerId, onExport }: ExportCenterProps) {
   const [selectedFormat, setSelectedFormat] = useState<string>('');
   const [isExporting, setIsExporting] = useState(false);
+  const { getQuota, refetchUsage } = useUsageQuota({ customerId });
+
+  const isQuotaExhausted = (formatId: string) => {
+    const event = METERED_FORMATS[formatId];
+    return !!event && getQuota(event)?.allowed === false;
+  };
 
   const exportFormats = [
     {
@@ -70,11 +88,42 @@ export function ExportCenter({ customerId, onExport }: ExportCenterProps) {
     } finally {
       setIsExporting(false);
       setSelectedFormat('');
+      refetchUsage();
     }
   };
 
   return (
     <div className="space-y-6">
+      {/* Monthly Quota */}
+      <ModernCard className="p-6">
+        <div className="flex items-center space-x-3 mb-4">
+          <div className="w-3 h-3 bg-gradient-to-r from-emerald-500 to-teal-500 rounded-full"></div>
+          <h3 className="text-xl font-semibold text-white">Monthly Export Quota</h3>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {QUOTA_LABELS.map(({ event, label }) => {
+            const quota = getQuota(event);
+            const remaining = !quota
+              ? '—'
+              : quota.limit === null
+                ? 'Unlimited'
+                : quota.limit === 0
+                  ? 'Not included in your plan'
+                  : `${quota.remaining} of ${quota.limit} remaining`;
+
+            return (
+              <div key={event} className="flex items-center justify-between p-3 bg-slate-800 rounded-lg">
+                <span className="text-white">{label}</span>
+                <span className={`text-sm font-semibold ${quota?.allowed === false ? 'text-red-400' : 'text-emerald-400'}`}>
+                  {remaining}
+                </span>
+              </div>
+            );
+          })}
+        </div>
+      </ModernCard>
+
       {/* Export Options Grid */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
         {exportFormats.map((format) => (
@@ -88,10 +137,10 @@ export function ExportCenter({ customerId, onExport }: ExportCenterProps) {
               
               <button
                 onClick={() => handleExport(format.id)}
-                disabled={isExporting}
+                disabled={isExporting || isQuotaExhausted(format.id)}
                 className={`
                   w-full px-4 py-3 rounded-lg font-semibold transition-all duration-200
-                  ${isExporting && selectedFormat === format.id
+                  ${(isExporting && selectedFormat === format.id) || isQuotaExhausted(format.id)
                     ? 'bg-slate-600 text-slate-400 cursor-not-allowed'
                     : `bg-gradient-to-r from-${format.color}-600 to-${format.color}-700 hover:from-${format.color}-700 hover:to-${format.color}-800 text-white`
                   }
@@ -102,6 +151,8 @@ export function ExportCenter({ customerId, onExport }: ExportCenterProps) {
                     <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
                     <span>Exporting...</span>
                   </span>
+                ) : isQuotaExhausted(format.id) ? (
+                  'Monthly quota reached'
                 ) : (
                   `Export ${format.name}`
                 )}
@@ -2,6 +2,7 @@
 
 import React, { useState, useEffect } from 'react';
 import claudeAIService from '@/app/lib/services/claudeAIService';
+import type { RatingFramework } from '@/app/lib/services/claudeSchemas';
 import { motion } from 'framer-motion';
 import { 
   Sparkles as SparklesIcon, 
@@ -12,6 +13,9 @@ import {
   Lightbulb as LightBulbIcon
 } from 'lucide-react';
 
+const escapeHTML = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
 interface ICPRatingFrameworkGeneratorProps {
   onFrameworkGenerated?: (framework: any) => void;
   existingICP?: any;
@@ -67,7 +71,7 @@ const ICPRatingFrameworkGenerator: React.FC<ICPRatingFrameworkGeneratorProps> =
       );
       
       // Use the Claude AI generated framework data
-      const framework = frameworkData;
+      const framework = toFrameworkView(frameworkData);
       
       setGeneratedFramework(framework);
       localStorage.setItem('icpRatingFramework', JSON.stringify(framework));
@@ -339,7 +343,7 @@ const ICPRatingFrameworkGenerator: React.FC<ICPRatingFrameworkGeneratorProps> =
         icpDescription
       );
       
-      const framework = frameworkData;
+      const framework = toFrameworkView(frameworkData);
       
       setGeneratedFramework(framework);
       localStorage.setItem('icpRatingFramework', JSON.stringify(framework));
@@ -514,6 +518,68 @@ const ICPRatingFrameworkGenerator: React.FC<ICPRatingFrameworkGeneratorProps> =
     `;
   };
 
+  /**
+   * Shape Claude's structured framework (criteria + discovery questions) for display
+   */
+  const toFrameworkView = (data: RatingFramework) => {
+    const { framework, criteria, questions } = data;
+    const total = framework.totalPoints;
+
+    return {
+      content: {
+        methodology: `
+      <div class="space-y-4">
+        <h3 class="text-xl font-bold text-gray-900">${escapeHTML(framework.name)}</h3>
+        <p class="text-gray-600">${escapeHTML(framework.scoringMethod)} scoring across ${criteria.length} criteria, ${total} points total.</p>
+      </div>
+    `,
+        reasoning: generateReasoning(),
+        categories: `
+      <div class="space-y-4">
+        <h3 class="text-xl font-bold text-gray-900">Evaluation Categories</h3>
+        <ul class="space-y-2 text-sm text-gray-600">
+          ${criteria.map(item => `<li>• ${escapeHTML(item.criterion)} (${item.weight} pts): ${escapeHTML(item.scoring)}</li>`).join('')}
+        </ul>
+      </div>
+    `,
+        implementation: `
+      <div class="space-y-4">
+        <h3 class="text-xl font-bold text-gray-900">Discovery Questions</h3>
+        <ul class="list-disc pl-5 space-y-2 text-gray-600">
+          ${questions.map(item => `<li><strong>${escapeHTML(item.category)}:</strong> ${escapeHTML(item.question)}</li>`).join('')}
+        </ul>
+      </div>
+    `,
+        calibration: generateCalibration()
+      },
+      interactive: {
+        rating_system: {
+          categories: criteria.map((item, index) => ({
+            id: `criterion_${index}`,
+            name: item.criterion,
+            type: 'firmographic',
+            weight: total > 0 ? item.weight / total : 0,
+            description: item.scoring,
+            scoring: {
+              '4': { criteria: [item.scoring] },
+              '3': { criteria: ['Partial match'] }
+            }
+          })),
+          tiers: [
+            { name: 'Tier 1 - Strong Fit', range: [Math.round(total * 0.75), total], description: 'Prioritize for immediate outreach' },
+            { name: 'Tier 2 - Good Fit', range: [Math.round(total * 0.5), Math.round(total * 0.75) - 1], description: 'Nurture with targeted sequences' },
+            { name: 'Tier 3 - Weak Fit', range: [0, Math.round(total * 0.5) - 1], description: 'Marketing-only touch' }
+          ].map(tier => ({ ...tier, conversion_probability: 'Not calibrated', typical_deal_size: 'Not calibrated' })),
+          calculation: {
+            total_possible: total,
+            formula: 'sum(criterion_points)'
+          }
+        }
+      },
+      questions
+    };
+  };
+
   const loadSampleData = () => {
     setProductDescription(sampleProduct);
     setIcpDescription(sampleICP);
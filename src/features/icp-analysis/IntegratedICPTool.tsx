@@ -29,7 +29,14 @@ import { ProductInputSection } from '@/src/features/resources-library';
 import ICPRatingFrameworkGenerator from './ICPRatingFrameworkGenerator';
 import CompanyRatingInterface from './CompanyRatingInterface';
 import webResearchService from '@/app/lib/services/webResearchService';
-import claudeAIService from '@/app/lib/services/claudeAIService';
+import claudeAIService, { buildICPResourcesPrompt } from '@/app/lib/services/claudeAIService';
+import {
+  ICPResources,
+  ICPResourcesSchema,
+  buildJSONSystemPrompt,
+  parseStructuredOutput
+} from '@/app/lib/services/claudeSchemas';
+import { useClaudeStream } from '@/app/hooks/useClaudeStream';
 import { useBehaviorTracking, useToolTracking } from '@/src/shared/hooks/useBehaviorTracking';
 
 interface IntegratedICPToolProps {
@@ -47,6 +54,36 @@ interface GeneratedResources {
   isReal?: boolean;
 }
 
+/**
+ * Shape Claude's structured ICP resources as resource cards
+ */
+function toGeneratedResources(resources: ICPResources & { isMock: boolean }): GeneratedResources {
+  const card = (title: string, text: string) => ({
+    title,
+    confidence_score: resources.confidenceScore,
+    generation_method: resources.isMock ? 'mock' : 'claude_ai',
+    content: { text }
+  });
+
+  return {
+    sessionId: `claude_${Date.now()}`,
+    data: {
+      persona: card(
+        'Buyer Personas',
+        resources.personas.map(persona => `${persona.name} (${persona.role}): ${persona.characteristics}`).join('\n')
+      ),
+      productPotential: card(
+        'Market Insights & Recommendations',
+        [
+          ...resources.insights.map(item => `${item.category}: ${item.insight}`),
+          ...resources.recommendations.map(item => `[${item.priority}] ${item.action}`)
+        ].join('\n')
+      )
+    },
+    isReal: !resources.isMock
+  };
+}
+
 type ActiveTab = 'generate' | 'rating-framework' | 'rate-companies' | 'resources';
 
 const IntegratedICPTool: React.FC<IntegratedICPToolProps> = ({ customerId }) => {
@@ -66,6 +103,7 @@ const IntegratedICPTool: React.FC<IntegratedICPToolProps> = ({ customerId }) =>
   const [isGeneratingReal, setIsGeneratingReal] = useState(false);
   const [generationProgress, setGenerationProgress] = useState(0);
   const [generationStep, setGenerationStep] = useState('');
+  const icpStream = useClaudeStream();
   const [ratingFramework, setRatingFramework] = useState<any>(null);
   const [companyRatings, setCompanyRatings] = useState<any[]>([]);
 
@@ -87,6 +125,32 @@ const IntegratedICPTool: React.FC<IntegratedICPToolProps> = ({ customerId }) =>
     }
   }, []);
 
+  /**
+   * Stream the ICP resources so Claude's output shows up as it is written.
+   * Falls back to the non-streaming call (with schema repair) when streaming
+   * is unavailable or the streamed JSON does not validate.
+   */
+  const generateICPResources = async (productData: any, researchData: any) => {
+    try {
+      const text = await icpStream.start({
+        operation: 'icp_generation',
+        prompt: buildICPResourcesPrompt(productData, researchData),
+        systemPrompt: buildJSONSystemPrompt(ICPResourcesSchema),
+        maxTokens: 4000
+      });
+
+      const parsed = parseStructuredOutput(text, ICPResourcesSchema);
+      if (parsed.success) {
+        return { ...parsed.data, isMock: false };
+      }
+      console.warn('Streamed ICP resources failed validation, retrying without streaming:', parsed.error);
+    } catch (error) {
+      console.warn('ICP resource streaming unavailable, retrying without streaming:', error);
+    }
+
+    return claudeAIService.generateResourcesFromResearch(productData, researchData);
+  };
+
   const handleRealResourceGeneration = async (productData: any) => {
     setIsGeneratingReal(true);
     setGenerationProgress(0);
@@ -123,7 +187,7 @@ const IntegratedICPTool: React.FC<IntegratedICPToolProps> = ({ customerId }) =>
       setGenerationProgress(60);
       setGenerationStep('Claude AI analyzing market intelligence...');
 
-      const resources = await claudeAIService.generateResourcesFromResearch(productData, researchData);
+      const resources = toGeneratedResources(await generateICPResources(productData, researchData));
 
       setGenerationProgress(100);
       setGenerationStep('Complete! Resources generated with Claude AI + real market data.');
@@ -569,6 +633,11 @@ ${researchData.real ?
                         />
                       </div>
                       <p className="text-slate-300 text-sm">{generationStep}</p>
+                      {icpStream.isStreaming && icpStream.text && (
+                        <pre className="mt-4 max-h-48 overflow-y-auto whitespace-pre-wrap break-words rounded-lg bg-slate-900/60 p-3 text-xs text-slate-400 font-mono">
+                          {icpStream.text}
+                        </pre>
+                      )}
                     </div>
                   )}
 
@@ -1,17 +1,42 @@
 'use client';
 
-import React, { useState, useEffect } from 'react';
-import { Copy, Zap, CheckCircle2, Loader2 } from 'lucide-react';
+import React, { useState, useEffect, useRef } from 'react';
+import { Copy, Zap, CheckCircle2, Loader2, Sparkles, Square, Upload, Download } from 'lucide-react';
 import { useCustomer, useCustomerICP } from '@/app/lib/hooks/useAPI';
 import { useRequireAuth } from '@/app/lib/auth';
+import { useClaudeStream, UseClaudeStreamReturn } from '@/app/hooks/useClaudeStream';
+import { usePromptExperiment } from '@/app/hooks/usePromptExperiment';
 // Using alias path to match other working imports
 import technicalTranslationService from '@/src/lib/services/TechnicalTranslationService';
 import type { TranslationResult, BuyerPersona } from '@/src/lib/services/TechnicalTranslationService';
+import type { CustomIndustryFramework, FrameworkImportResult, ResolvedFramework } from '@/app/lib/technical-translation/frameworkService';
+import type { FrameworkExport } from '@/app/lib/technical-translation/frameworks';
 
 interface TechnicalTranslationWidgetProps {
   className?: string;
 }
 
+// Industry select value that asks for an industry without a framework
+const OTHER_INDUSTRY = '__other';
+
+interface FrameworkResponse<T> {
+  status: number;
+  data?: T;
+  error?: string;
+}
+
+async function frameworkRequest<T>(url: string, init?: RequestInit): Promise<FrameworkResponse<T>> {
+  const response = await fetch(url, {
+    ...init,
+    headers: init?.body ? { 'Content-Type': 'application/json' } : undefined
+  });
+  const body = await response.json().catch(() => ({}));
+
+  return response.ok && body.success
+    ? { status: response.status, data: body.data }
+    : { status: response.status, error: body.error?.message || body.error || `Request failed: ${response.status}` };
+}
+
 interface FormData {
   technicalMetric: string;
   improvement: string;
@@ -19,6 +44,24 @@ interface FormData {
   targetStakeholder: string;
 }
 
+/**
+ * Variables for the stakeholder narrative prompt (translation.narrative),
+ * built on the template translation
+ */
+function buildNarrativeVariables(translation: TranslationResult, formData: FormData, customerName: string): Record<string, string> {
+  return {
+    STAKEHOLDER: formData.targetStakeholder,
+    CUSTOMER_NAME: customerName,
+    INDUSTRY: formData.industry,
+    TECHNICAL_INPUT: translation.technicalInput,
+    BUSINESS_TRANSLATION: translation.businessTranslation,
+    PAIN_POINT_CONNECTION: translation.stakeholderSpecific.painPointConnection,
+    ROI: translation.stakeholderSpecific.roiCalculation,
+    KEY_METRICS: translation.stakeholderSpecific.keyMetrics.join(', '),
+    COMPETITIVE_POSITION: translation.competitivePositioning.position
+  };
+}
+
 export default function TechnicalTranslationWidget({
   className = ''
 }: TechnicalTranslationWidgetProps) {
@@ -37,6 +80,16 @@ export default function TechnicalTranslationWidget({
   const [isTranslating, setIsTranslating] = useState(false);
   const [copiedField, setCopiedField] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [customFrameworks, setCustomFrameworks] = useState<CustomIndustryFramework[]>([]);
+  const [otherIndustry, setOtherIndustry] = useState('');
+  const [isDrafting, setIsDrafting] = useState(false);
+  const [frameworkMessage, setFrameworkMessage] = useState<string | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const narrative = useClaudeStream();
+  // Second narrative when the request is sampled into a prompt experiment
+  const alternateNarrative = useClaudeStream();
+  const narrativeExperiment = usePromptExperiment();
+  const isWritingNarrative = narrative.isStreaming || alternateNarrative.isStreaming;
 
   // Available options
   const technicalMetrics = [
@@ -49,8 +102,24 @@ export default function TechnicalTranslationWidget({
 
   const stakeholders = ['CFO', 'COO', 'CTO', 'CEO', 'CRO'];
 
-  // Get available frameworks from service
+  // Get available frameworks from service, plus the workspace's own
   const frameworks = technicalTranslationService.getAvailableFrameworks();
+  const customFramework = customFrameworks.find(framework => framework.id === formData.industry);
+
+  const loadCustomFrameworks = async () => {
+    const { data, error: loadError } = await frameworkRequest<{ custom: CustomIndustryFramework[] }>(
+      '/api/technical-translation/frameworks'
+    );
+    if (data) {
+      setCustomFrameworks(data.custom);
+    } else {
+      console.warn('Custom industry frameworks unavailable:', loadError);
+    }
+  };
+
+  useEffect(() => {
+    loadCustomFrameworks();
+  }, []);
 
   // Extract personas from ICP data or use fallback
   const getPersonas = (): BuyerPersona[] => {
@@ -84,10 +153,10 @@ export default function TechnicalTranslationWidget({
 
   // Generate translation on mount and when key inputs change
   useEffect(() => {
-    if (formData.technicalMetric && formData.improvement) {
+    if (formData.technicalMetric && formData.improvement && formData.industry !== OTHER_INDUSTRY) {
       generateTranslation();
     }
-  }, [formData.technicalMetric, formData.improvement, formData.industry, formData.targetStakeholder]);
+  }, [formData.technicalMetric, formData.improvement, formData.industry, formData.targetStakeholder, customFramework]);
 
   // Update form field
   const updateFormData = (field: keyof FormData, value: string) => {
@@ -98,6 +167,9 @@ export default function TechnicalTranslationWidget({
   const generateTranslation = async () => {
     setIsTranslating(true);
     setError(null);
+    narrative.reset();
+    alternateNarrative.reset();
+    narrativeExperiment.reset();
 
     try {
       // Brief delay for UX
@@ -109,11 +181,12 @@ export default function TechnicalTranslationWidget({
         technicalMetric: formData.technicalMetric,
         improvement: formData.improvement,
         industry: formData.industry,
+        framework: customFramework?.framework,
         targetPersonas: personas,
         includeInternalStakeholders: true,
         customerContext: {
           name: customer?.data?.customerName || customer?.data?.company || 'Target Customer',
-          industry: formData.industry
+          industry: customFramework?.framework.name || formData.industry
         }
       });
 
@@ -126,6 +199,102 @@ export default function TechnicalTranslationWidget({
     }
   };
 
+  // Use the workspace's framework for an industry, or have Claude draft one
+  const draftFramework = async () => {
+    const industry = otherIndustry.trim();
+    if (!industry) return;
+
+    setIsDrafting(true);
+    setFrameworkMessage(null);
+    try {
+      const { data, error: draftError } = await frameworkRequest<ResolvedFramework>(
+        '/api/technical-translation/frameworks/resolve',
+        { method: 'POST', body: JSON.stringify({ industry }) }
+      );
+      if (!data) throw new Error(draftError);
+
+      if (!data.builtIn) {
+        await loadCustomFrameworks();
+      }
+      setFrameworkMessage(data.drafted
+        ? `Drafted a framework for ${data.framework.name} with AI. Review it before sharing translations.`
+        : `Using the ${data.framework.name} framework.`);
+      setOtherIndustry('');
+      updateFormData('industry', data.id);
+    } catch (err) {
+      setFrameworkMessage(err instanceof Error ? err.message : 'Could not draft a framework');
+    } finally {
+      setIsDrafting(false);
+    }
+  };
+
+  const importFrameworks = async (file: File) => {
+    setFrameworkMessage(null);
+    try {
+      const body = await file.text();
+      JSON.parse(body);
+
+      let result = await frameworkRequest<FrameworkImportResult>('/api/technical-translation/frameworks/import', { method: 'POST', body });
+      if (result.status === 409 && window.confirm(`${result.error}\n\nReplace them?`)) {
+        result = await frameworkRequest<FrameworkImportResult>('/api/technical-translation/frameworks/import?overwrite=true', { method: 'POST', body });
+      }
+      if (!result.data) throw new Error(result.error);
+
+      await loadCustomFrameworks();
+      setFrameworkMessage(`Imported ${result.data.frameworks.length} framework(s).`);
+    } catch (err) {
+      setFrameworkMessage(err instanceof SyntaxError ? 'That file is not valid JSON.' : err instanceof Error ? err.message : 'Import failed');
+    } finally {
+      if (importInputRef.current) importInputRef.current.value = '';
+    }
+  };
+
+  const exportFrameworks = async () => {
+    const { data, error: exportError } = await frameworkRequest<FrameworkExport>('/api/technical-translation/frameworks/export');
+    if (!data) {
+      setFrameworkMessage(exportError || 'Export failed');
+      return;
+    }
+
+    const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
+    const url = window.URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'industry-frameworks.json';
+    link.click();
+    window.URL.revokeObjectURL(url);
+  };
+
+  // Stream an AI-written narrative of the current translation; sampled
+  // requests stream two prompt versions side by side
+  const generateNarrative = async () => {
+    if (!translation) return;
+
+    const customerName = customer?.data?.customerName || customer?.data?.company || 'Target Customer';
+    const variables = buildNarrativeVariables(translation, formData, customerName);
+    alternateNarrative.reset();
+
+    const { versions } = await narrativeExperiment.assign('translation.narrative');
+    const [version, alternateVersion] = versions;
+
+    const write = (stream: UseClaudeStreamReturn, templateVersion?: number) => {
+      stream.start({
+        template: { id: 'translation.narrative', version: templateVersion, variables },
+        maxTokens: 800
+      }).catch(err => console.error('Narrative error:', err));
+    };
+
+    write(narrative, version);
+    if (alternateVersion !== undefined) {
+      write(alternateNarrative, alternateVersion);
+    }
+  };
+
+  const stopNarrative = () => {
+    narrative.cancel();
+    alternateNarrative.cancel();
+  };
+
   // Copy to clipboard
   const copyToClipboard = async (text: string, fieldName: string) => {
     try {
@@ -137,6 +306,25 @@ export default function TechnicalTranslationWidget({
     }
   };
 
+  const renderNarrativeText = (stream: UseClaudeStreamReturn) => (
+    <>
+      {stream.text ? (
+        <p className="text-sm text-gray-300 whitespace-pre-wrap">
+          {stream.text}
+          {stream.isStreaming && <span className="inline-block w-1.5 h-4 ml-0.5 align-middle bg-blue-400 animate-pulse" />}
+        </p>
+      ) : stream.isStreaming ? (
+        <p className="text-xs text-gray-400 flex items-center gap-2">
+          <Loader2 className="w-3 h-3 animate-spin" />
+          Writing...
+        </p>
+      ) : (
+        <p className="text-xs text-gray-500">Have Claude turn this translation into a narrative for the {formData.targetStakeholder}.</p>
+      )}
+      {stream.error && <p className="mt-2 text-xs text-red-400">{stream.error}</p>}
+    </>
+  );
+
   return (
     <div className={`bg-[#1a2332] border border-blue-800/30 rounded-xl p-6 ${className}`}>
       {/* Header */}
@@ -197,7 +385,64 @@ export default function TechnicalTranslationWidget({
                 {framework.name}
               </option>
             ))}
+            {customFrameworks.length > 0 && (
+              <optgroup label="Custom frameworks">
+                {customFrameworks.map(framework => (
+                  <option key={framework.id} value={framework.id}>
+                    {framework.framework.name}{framework.source === 'ai_drafted' ? ' (AI draft)' : ''}
+                  </option>
+                ))}
+              </optgroup>
+            )}
+            <option value={OTHER_INDUSTRY}>Other industry...</option>
           </select>
+
+          {formData.industry === OTHER_INDUSTRY && (
+            <div className="flex gap-2 mt-2">
+              <input
+                type="text"
+                value={otherIndustry}
+                onChange={(e) => setOtherIndustry(e.target.value)}
+                placeholder="e.g., Cybersecurity"
+                className="flex-1 px-3 py-2 bg-gray-800 border border-gray-700 rounded-lg text-white text-sm placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              <button
+                onClick={draftFramework}
+                disabled={isDrafting || !otherIndustry.trim()}
+                className="px-3 py-2 bg-gray-700 hover:bg-gray-600 disabled:opacity-50 rounded-lg text-xs text-blue-400 flex items-center gap-1"
+              >
+                {isDrafting ? <Loader2 className="w-3 h-3 animate-spin" /> : <Sparkles className="w-3 h-3" />}
+                Draft framework
+              </button>
+            </div>
+          )}
+
+          <div className="flex items-center gap-3 mt-2">
+            <button
+              onClick={() => importInputRef.current?.click()}
+              className="text-xs text-gray-400 hover:text-white flex items-center gap-1"
+            >
+              <Upload className="w-3 h-3" />
+              Import JSON
+            </button>
+            {customFrameworks.length > 0 && (
+              <button
+                onClick={exportFrameworks}
+                className="text-xs text-gray-400 hover:text-white flex items-center gap-1"
+              >
+                <Download className="w-3 h-3" />
+                Export custom frameworks
+              </button>
+            )}
+            <input
+              ref={importInputRef}
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={(e) => e.target.files?.[0] && importFrameworks(e.target.files[0])}
+            />
+          </div>
+          {frameworkMessage && <p className="mt-2 text-xs text-gray-400">{frameworkMessage}</p>}
         </div>
 
         {/* Target Stakeholder */}
@@ -222,7 +467,7 @@ export default function TechnicalTranslationWidget({
       {/* Generate Button */}
       <button
         onClick={generateTranslation}
-        disabled={isTranslating}
+        disabled={isTranslating || formData.industry === OTHER_INDUSTRY}
         className="w-full px-4 py-3 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-700 disabled:cursor-not-allowed text-white text-sm font-medium rounded-lg transition-colors duration-200 flex items-center justify-center gap-2"
       >
         {isTranslating ? (
@@ -267,6 +512,95 @@ export default function TechnicalTranslationWidget({
             <p className="text-sm text-gray-300">{translation.businessTranslation}</p>
           </div>
 
+          {/* AI Narrative (streamed) */}
+          <div className="bg-gray-800 border border-gray-700 rounded-lg p-4">
+            <div className="flex items-center justify-between mb-2">
+              <h4 className="text-sm font-semibold text-white">{formData.targetStakeholder} Narrative</h4>
+              <div className="flex items-center gap-1">
+                {narrative.text && !isWritingNarrative && !narrativeExperiment.isComparing && (
+                  <button
+                    onClick={() => copyToClipboard(narrative.text, 'narrative')}
+                    className="p-1.5 hover:bg-gray-700 rounded transition-colors"
+                    title="Copy to clipboard"
+                  >
+                    {copiedField === 'narrative' ? (
+                      <CheckCircle2 className="w-4 h-4 text-green-400" />
+                    ) : (
+                      <Copy className="w-4 h-4 text-gray-400" />
+                    )}
+                  </button>
+                )}
+                <button
+                  onClick={isWritingNarrative ? stopNarrative : generateNarrative}
+                  className="px-2 py-1 hover:bg-gray-700 rounded transition-colors flex items-center gap-1 text-xs text-blue-400"
+                >
+                  {isWritingNarrative ? (
+                    <>
+                      <Square className="w-3 h-3" />
+                      Stop
+                    </>
+                  ) : (
+                    <>
+                      <Sparkles className="w-3 h-3" />
+                      {narrative.text ? 'Rewrite with AI' : 'Write with AI'}
+                    </>
+                  )}
+                </button>
+              </div>
+            </div>
+            {narrativeExperiment.isComparing && narrativeExperiment.assignment ? (
+              <>
+                <p className="text-xs text-gray-400 mb-3">We wrote two versions. Keep or copy the one that works better for you.</p>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                  {[narrative, alternateNarrative].map((stream, index) => {
+                    const version = narrativeExperiment.assignment!.versions[index];
+                    const isPicked = narrativeExperiment.outcome?.version === version;
+                    const copyField = `narrative-${index}`;
+
+                    return (
+                      <div
+                        key={version}
+                        className={`rounded-lg p-3 border ${isPicked ? 'border-green-500 bg-green-900/10' : 'border-gray-700 bg-gray-900/40'}`}
+                      >
+                        <div className="flex items-center justify-between mb-2">
+                          <span className="text-xs font-medium text-gray-300">Option {String.fromCharCode(65 + index)}</span>
+                          {stream.text && !stream.isStreaming && (
+                            <div className="flex items-center gap-1">
+                              <button
+                                onClick={() => {
+                                  copyToClipboard(stream.text, copyField);
+                                  narrativeExperiment.recordOutcome(version, 'exported');
+                                }}
+                                className="p-1.5 hover:bg-gray-700 rounded transition-colors"
+                                title="Copy to clipboard"
+                              >
+                                {copiedField === copyField ? (
+                                  <CheckCircle2 className="w-4 h-4 text-green-400" />
+                                ) : (
+                                  <Copy className="w-4 h-4 text-gray-400" />
+                                )}
+                              </button>
+                              <button
+                                onClick={() => narrativeExperiment.recordOutcome(version, 'kept')}
+                                disabled={isPicked}
+                                className="px-2 py-1 hover:bg-gray-700 disabled:hover:bg-transparent rounded transition-colors text-xs text-green-400"
+                              >
+                                {isPicked ? 'Kept' : 'Keep this one'}
+                              </button>
+                            </div>
+                          )}
+                        </div>
+                        {renderNarrativeText(stream)}
+                      </div>
+                    );
+                  })}
+                </div>
+              </>
+            ) : (
+              renderNarrativeText(narrative)
+            )}
+          </div>
+
           {/* Stakeholder-Specific Language */}
           {translation.targetBuyerTranslations && translation.targetBuyerTranslations.length > 0 && (
             <div className="space-y-3">
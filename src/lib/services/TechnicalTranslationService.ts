@@ -33,6 +33,7 @@ export interface TranslationInput {
   technicalMetric: string;
   improvement: string;
   industry: keyof typeof INDUSTRY_FRAMEWORKS | string;
+  framework?: IndustryFramework;       // Custom or AI-drafted framework; skips the industry lookup
   targetPersonas: BuyerPersona[];      // NEW: Array of personas from ICP
   includeInternalStakeholders?: boolean; // NEW: Generate CXO translations
   customerContext?: {
@@ -114,16 +115,18 @@ export interface TranslationResult {
   targetStakeholder: string; // Backward compatibility
 }
 
-interface IndustryFramework {
+export interface TranslationTemplate {
+  technical: string;
+  business: string;
+  cfoLanguage: string;
+  cooLanguage: string;
+}
+
+export interface IndustryFramework {
   name: string;
   stakeholders: string[];
   painPoints: Record<string, string>;
-  translationTemplates: Record<string, {
-    technical: string;
-    business: string;
-    cfoLanguage: string;
-    cooLanguage: string;
-  }>;
+  translationTemplates: Record<string, TranslationTemplate>;
 }
 
 interface StakeholderLanguagePrefs {
@@ -152,6 +155,28 @@ interface StakeholderTranslation {
   proposal: string;
 }
 
+/**
+ * Thrown when an industry has no built-in framework and none was passed in.
+ * Custom and AI-drafted frameworks are resolved through
+ * /api/technical-translation/frameworks/resolve.
+ */
+export class UnknownIndustryError extends Error {
+  readonly industry: string;
+
+  constructor(industry: string) {
+    super(`No industry framework for "${industry}"`);
+    this.name = 'UnknownIndustryError';
+    this.industry = industry;
+  }
+}
+
+/**
+ * Framework id for an industry name: "Financial Services" -> "financial_services"
+ */
+export function toIndustryId(industry: string): string {
+  return industry.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '');
+}
+
 // ============================================================================
 // CONSTANTS & FRAMEWORKS
 // ============================================================================
@@ -337,15 +362,19 @@ class TechnicalTranslationService {
       throw new Error('Invalid targetPersonas: expected array of buyer personas');
     }
 
-    // Get industry framework (with fallback)
-    const industryKey = industry in this.industryFrameworks ? industry as keyof typeof INDUSTRY_FRAMEWORKS : 'healthcare';
-    const industryFramework = this.industryFrameworks[industryKey];
+    // Get industry framework: the one passed in, else a built-in one
+    const industryKey = input.framework ? toIndustryId(industry) : this.findFrameworkId(industry);
+    const industryFramework = input.framework ?? (industryKey ? this.getFramework(industryKey) : null);
+
+    if (!industryKey || !industryFramework) {
+      throw new UnknownIndustryError(industry);
+    }
 
     // Generate base translation
     const baseTranslation = this._generateBaseTranslation(
       technicalMetric,
       improvement,
-      industryFramework as any
+      industryFramework
     );
 
     // Level 1: Generate persona-specific translations
@@ -599,6 +628,26 @@ class TechnicalTranslationService {
     }));
   }
 
+  /**
+   * Built-in framework for an industry, matched by id or name
+   */
+  getFramework(industry: string): IndustryFramework | null {
+    const id = this.findFrameworkId(industry);
+    return id ? this.industryFrameworks[id] as unknown as IndustryFramework : null;
+  }
+
+  /**
+   * Id of the built-in framework for an industry ("Healthcare & Medical" -> "healthcare")
+   */
+  findFrameworkId(industry: string): keyof typeof INDUSTRY_FRAMEWORKS | null {
+    const id = toIndustryId(industry);
+    const key = (Object.keys(this.industryFrameworks) as Array<keyof typeof INDUSTRY_FRAMEWORKS>).find(candidate =>
+      candidate === id || toIndustryId(this.industryFrameworks[candidate].name) === id
+    );
+
+    return key ?? null;
+  }
+
   /**
    * Get stakeholder language preferences
    */
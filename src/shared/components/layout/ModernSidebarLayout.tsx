@@ -33,6 +33,7 @@ import { BRAND_IDENTITY } from '@/app/lib/constants/brand-identity';
 import { useCompoundHover } from '../../utils/compound-hover';
 import { MilestoneTrackerWidget } from '../sidebar/MilestoneTrackerWidget';
 import { QuickActionsWidget } from '../sidebar/QuickActionsWidget';
+import { WorkspaceSwitcher } from '../sidebar/WorkspaceSwitcher';
 import { StaggeredEntrance } from '../../utils/staggered-entrance';
 
 /**
@@ -432,6 +433,8 @@ export function ModernSidebarLayout({ children }: ModernSidebarLayoutProps) {
             )}
           </div>
 
+          <WorkspaceSwitcher collapsed={sidebarCollapsed} />
+
           {!sidebarCollapsed && (
             <motion.div
               initial={{ opacity: 0, y: -10 }}
@@ -647,6 +650,8 @@ export function ModernSidebarLayout({ children }: ModernSidebarLayoutProps) {
                   </div>
                 </div>
 
+                <WorkspaceSwitcher collapsed={false} />
+
                 <nav className="space-y-6 mt-6">
                   {/* Render all navigation sections */}
                   {dynamicNavigationItems.main.length > 0 && (
@@ -0,0 +1,176 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { AnimatePresence, motion } from 'framer-motion';
+import { Building2, Check, ChevronDown, Plus, User } from 'lucide-react';
+import { useAuth } from '@/app/lib/auth';
+import { setActiveWorkspaceId, useActiveWorkspaceId } from '@/app/lib/workspaces/activeWorkspace';
+import type { WorkspaceMembership } from '@/app/lib/workspaces/workspaceService';
+
+interface WorkspaceSwitcherProps {
+  collapsed: boolean;
+}
+
+/**
+ * Switches between the personal workspace and the team workspaces the user
+ * belongs to. ICPs, personas, ratings and business cases follow the switch.
+ */
+export function WorkspaceSwitcher({ collapsed }: WorkspaceSwitcherProps) {
+  const { user } = useAuth();
+  const router = useRouter();
+  const activeWorkspaceId = useActiveWorkspaceId();
+  const [workspaces, setWorkspaces] = useState<WorkspaceMembership[]>([]);
+  const [open, setOpen] = useState(false);
+  const [creating, setCreating] = useState(false);
+  const [newName, setNewName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!user) return;
+
+    fetch('/api/workspaces')
+      .then(response => response.json())
+      .then(body => {
+        if (!body.success) return;
+        setWorkspaces(body.data);
+
+        // Forget a workspace the user has left or been removed from
+        if (activeWorkspaceId && !body.data.some((entry: WorkspaceMembership) => entry.workspace.id === activeWorkspaceId)) {
+          setActiveWorkspaceId(null);
+        }
+      })
+      .catch(err => console.warn('⚠️ Could not load workspaces:', err));
+  }, [user, activeWorkspaceId]);
+
+  const active = workspaces.find(entry => entry.workspace.id === activeWorkspaceId);
+  const label = active ? active.workspace.name : 'Personal workspace';
+
+  const switchTo = (workspaceId: string | null) => {
+    setOpen(false);
+    if (workspaceId === activeWorkspaceId) return;
+
+    setActiveWorkspaceId(workspaceId);
+    router.refresh();
+  };
+
+  const handleCreate = async () => {
+    if (!newName.trim()) return;
+
+    setCreating(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/workspaces', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: newName })
+      });
+      const body = await response.json().catch(() => ({}));
+
+      if (!response.ok || !body.success) {
+        throw new Error(body.error?.message || body.error || 'Could not create workspace');
+      }
+
+      setWorkspaces(current => [...current, body.data]);
+      setNewName('');
+      switchTo(body.data.workspace.id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not create workspace');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  if (!user) return null;
+
+  if (collapsed) {
+    return (
+      <div className="mt-4 flex justify-center" title={label}>
+        {active ? <Building2 className="w-4 h-4 text-text-muted" /> : <User className="w-4 h-4 text-text-muted" />}
+      </div>
+    );
+  }
+
+  return (
+    <div className="relative mt-4">
+      <button
+        type="button"
+        onClick={() => setOpen(!open)}
+        className="w-full flex items-center justify-between px-3 py-2 rounded-lg border border-surface/30 bg-background-elevated text-sm text-text-primary hover:bg-surface-hover transition-colors"
+      >
+        <span className="flex items-center min-w-0">
+          {active ? <Building2 className="w-4 h-4 mr-2 text-text-muted shrink-0" /> : <User className="w-4 h-4 mr-2 text-text-muted shrink-0" />}
+          <span className="truncate">{label}</span>
+        </span>
+        <ChevronDown className="w-4 h-4 text-text-muted shrink-0" />
+      </button>
+
+      <AnimatePresence>
+        {open && (
+          <motion.div
+            initial={{ opacity: 0, y: -4 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -4 }}
+            className="absolute left-0 right-0 mt-1 z-50 rounded-lg border border-surface/30 bg-background-elevated shadow-medium p-1 text-sm"
+          >
+            <button
+              type="button"
+              onClick={() => switchTo(null)}
+              className="w-full flex items-center justify-between px-2 py-1.5 rounded-md text-text-primary hover:bg-surface-hover"
+            >
+              <span className="flex items-center"><User className="w-4 h-4 mr-2 text-text-muted" />Personal workspace</span>
+              {!active && <Check className="w-4 h-4 text-brand-primary" />}
+            </button>
+
+            {workspaces.map(entry => (
+              <button
+                key={entry.workspace.id}
+                type="button"
+                onClick={() => switchTo(entry.workspace.id)}
+                className="w-full flex items-center justify-between px-2 py-1.5 rounded-md text-text-primary hover:bg-surface-hover"
+              >
+                <span className="flex items-center min-w-0">
+                  <Building2 className="w-4 h-4 mr-2 text-text-muted shrink-0" />
+                  <span className="truncate">{entry.workspace.name}</span>
+                  <span className="ml-2 text-xs text-text-muted">{entry.role}</span>
+                </span>
+                {entry.workspace.id === activeWorkspaceId && <Check className="w-4 h-4 text-brand-primary shrink-0" />}
+              </button>
+            ))}
+
+            <div className="border-t border-surface/20 mt-1 pt-1 px-1">
+              <div className="flex items-center gap-1">
+                <input
+                  type="text"
+                  value={newName}
+                  placeholder="New workspace name"
+                  onChange={event => setNewName(event.target.value)}
+                  onKeyDown={event => event.key === 'Enter' && handleCreate()}
+                  className="flex-1 min-w-0 px-2 py-1 rounded-md bg-background-secondary border border-surface/30 text-text-primary placeholder-text-muted focus:outline-none"
+                />
+                <button
+                  type="button"
+                  onClick={handleCreate}
+                  disabled={creating || !newName.trim()}
+                  title="Create workspace"
+                  className="p-1.5 rounded-md text-text-muted hover:text-text-primary hover:bg-surface-hover disabled:opacity-50"
+                >
+                  <Plus className="w-4 h-4" />
+                </button>
+              </div>
+              {error && <p className="px-1 pt-1 text-xs text-red-500">{error}</p>}
+              <Link
+                href="/settings#workspace"
+                onClick={() => setOpen(false)}
+                className="block px-1 py-1.5 text-xs text-text-muted hover:text-text-primary"
+              >
+                Manage members and invites
+              </Link>
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}